@@ -0,0 +1,77 @@
+-- Migration: Report builder -- saved report definitions + RBAC
+-- Created: 2026-10-18
+-- Description: Replaces the placeholder AdminReports page. A saved report is
+-- a JSON definition (data source, columns, filters, grouping, date range,
+-- chart type) interpreted by services/reportBuilderService.js -- no SQL is
+-- ever stored. Reports are private to their creator unless is_shared.
+--
+-- Permissions:
+--   view.reports.enable       -- open the Reports page, build/save own reports
+--                                (already referenced by AdminSidebar, never seeded)
+--   manage.reports.enable     -- edit/delete other employees' shared reports
+--   view.team_reports.enable  -- see every technician's rows in service request
+--                                and time entry reports (otherwise own rows only)
+--
+-- Data-source access reuses mig 054 keys: view.technical_reports.enable for
+-- service requests / time entries / agent data, view.financial_reports.enable
+-- for invoices.
+--
+-- Run with: psql -f 20261018_01_report_builder.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS saved_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(200) NOT NULL,
+  description TEXT,
+  data_source VARCHAR(50) NOT NULL,
+  definition JSONB NOT NULL,
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_reports_created_by ON saved_reports(created_by);
+CREATE INDEX IF NOT EXISTS idx_saved_reports_shared ON saved_reports(is_shared) WHERE is_shared = true;
+
+INSERT INTO permissions (permission_key, resource_type, action_type, description, is_active)
+VALUES
+  ('view.reports.enable',      'reports', 'view',   'Open the report builder and run/save own reports',               true),
+  ('manage.reports.enable',    'reports', 'manage', 'Edit or delete shared reports created by other employees',       true),
+  ('view.team_reports.enable', 'reports', 'view',   'See all technicians'' rows in service request/time entry reports', true)
+ON CONFLICT (permission_key) DO NOTHING;
+
+DO $$
+DECLARE
+  role_name TEXT;
+BEGIN
+  -- Executive + admin: everything
+  FOREACH role_name IN ARRAY ARRAY['executive', 'admin'] LOOP
+    INSERT INTO role_permissions (role_id, permission_id, is_granted)
+    SELECT r.id, p.id, true
+      FROM roles r CROSS JOIN permissions p
+     WHERE r.name = role_name
+       AND p.permission_key IN ('view.reports.enable', 'manage.reports.enable', 'view.team_reports.enable')
+    ON CONFLICT (role_id, permission_id) DO UPDATE SET is_granted = true;
+  END LOOP;
+
+  -- Manager: whole-team data, but cannot edit other people's reports
+  INSERT INTO role_permissions (role_id, permission_id, is_granted)
+  SELECT r.id, p.id, true
+    FROM roles r CROSS JOIN permissions p
+   WHERE r.name = 'manager'
+     AND p.permission_key IN ('view.reports.enable', 'view.team_reports.enable')
+  ON CONFLICT (role_id, permission_id) DO UPDATE SET is_granted = true;
+
+  -- Technician + sales: page access only; technicians are scoped to their
+  -- own service requests and time entries
+  INSERT INTO role_permissions (role_id, permission_id, is_granted)
+  SELECT r.id, p.id, true
+    FROM roles r CROSS JOIN permissions p
+   WHERE r.name IN ('technician', 'sales')
+     AND p.permission_key = 'view.reports.enable'
+  ON CONFLICT (role_id, permission_id) DO UPDATE SET is_granted = true;
+END $$;
+
+COMMIT;
@@ -0,0 +1,81 @@
+-- Migration: Scheduled report delivery
+-- Created: 2026-10-18
+-- Description: A schedule emails a saved report (as PDF and/or CSV
+-- attachments) to employees and/or client contacts on a daily, weekly or
+-- monthly cadence. send_time / day_of_week / day_of_month are wall-clock
+-- values in the schedule's timezone (defaults to the business timezone);
+-- next_run_at is the resolved UTC instant the scheduler polls on.
+--
+-- The report always runs with the permissions of the schedule's creator, so
+-- a schedule never widens what its owner could see in the report builder.
+--
+-- Every attempted email is recorded in report_deliveries (one row per
+-- recipient per run) for the admin delivery log.
+--
+-- Permissions:
+--   manage.report_schedules.enable -- create/edit schedules, send now, and
+--                                     view the delivery log
+--
+-- Run with: psql -f 20261018_02_report_schedules.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS report_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_report_id UUID NOT NULL REFERENCES saved_reports(id) ON DELETE CASCADE,
+  frequency VARCHAR(10) NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  day_of_week SMALLINT CHECK (day_of_week BETWEEN 0 AND 6),      -- weekly: 0 = Sunday
+  day_of_month SMALLINT CHECK (day_of_month BETWEEN 1 AND 31),   -- monthly: clamped to month length
+  send_time TIME NOT NULL DEFAULT '07:00',
+  timezone VARCHAR(64) NOT NULL DEFAULT 'America/Los_Angeles',
+  formats TEXT[] NOT NULL DEFAULT ARRAY['pdf', 'csv'],
+  recipient_employee_ids UUID[] NOT NULL DEFAULT '{}',
+  recipient_client_ids UUID[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  created_by UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT report_schedules_weekly_day CHECK (frequency <> 'weekly' OR day_of_week IS NOT NULL),
+  CONSTRAINT report_schedules_monthly_day CHECK (frequency <> 'monthly' OR day_of_month IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_schedules_due ON report_schedules(next_run_at) WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_report_schedules_report ON report_schedules(saved_report_id);
+
+-- Log rows outlive their schedule (report_name is denormalised for that reason)
+CREATE TABLE IF NOT EXISTS report_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  schedule_id UUID REFERENCES report_schedules(id) ON DELETE SET NULL,
+  saved_report_id UUID REFERENCES saved_reports(id) ON DELETE SET NULL,
+  report_name VARCHAR(200) NOT NULL,
+  recipient_type VARCHAR(10) NOT NULL CHECK (recipient_type IN ('employee', 'client')),
+  recipient_id UUID,
+  recipient_name VARCHAR(255),
+  recipient_email VARCHAR(255),
+  formats TEXT[] NOT NULL DEFAULT '{}',
+  row_count INTEGER,
+  status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  error_message TEXT,
+  triggered_by UUID REFERENCES employees(id) ON DELETE SET NULL,  -- set for "send now"
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_created ON report_deliveries(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_schedule ON report_deliveries(schedule_id);
+
+INSERT INTO permissions (permission_key, resource_type, action_type, description, is_active)
+VALUES
+  ('manage.report_schedules.enable', 'reports', 'manage', 'Schedule emailed report deliveries and view the delivery log', true)
+ON CONFLICT (permission_key) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id, is_granted)
+SELECT r.id, p.id, true
+  FROM roles r CROSS JOIN permissions p
+ WHERE r.name IN ('executive', 'admin', 'manager')
+   AND p.permission_key = 'manage.report_schedules.enable'
+ON CONFLICT (role_id, permission_id) DO UPDATE SET is_granted = true;
+
+COMMIT;
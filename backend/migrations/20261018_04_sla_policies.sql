@@ -0,0 +1,144 @@
+-- Migration: SLA policies and breach tracking
+-- Created: 2026-10-18
+-- Description: An SLA policy sets time-to-acknowledge and time-to-resolve
+-- targets for service requests. A policy can be scoped to a business, to an
+-- urgency level, to both, or to neither (the catch-all default); the most
+-- specific active match wins. Targets count business minutes only when the
+-- policy has a business-hours calendar, otherwise they run 24x7.
+--
+-- Each open request gets a service_request_sla row holding the due times
+-- resolved when the SLA monitor first picked it up, so later policy edits
+-- don't move deadlines on requests already in flight. "Acknowledged" is the
+-- earlier of acknowledged_at / started_at; "resolved" is closed_at, or the
+-- move to a final status other than Cancelled. Cancelling stops the clock.
+--
+-- Missed targets are written to sla_breaches (one row per request per
+-- target) for reporting. Warnings and breach notices go out through two new
+-- workflow notification rules (sla_warning / sla_breach); the warning rule's
+-- timeout_minutes is how long before the due time the warning fires.
+--
+-- Permissions:
+--   manage.sla_policies.enable -- create/edit SLA policies and calendars,
+--                                 view the breach log
+--
+-- Run with: psql -f 20261018_04_sla_policies.sql
+
+BEGIN;
+
+-- Weekly hours are keyed by day of week ("0" = Sunday) with "HH:MM" start/end
+-- wall-clock times in the calendar's timezone; a missing day is closed.
+CREATE TABLE IF NOT EXISTS sla_business_calendars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  timezone VARCHAR(64) NOT NULL DEFAULT 'America/Los_Angeles',
+  weekly_hours JSONB NOT NULL DEFAULT '{}',
+  holidays DATE[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS sla_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  business_id UUID REFERENCES businesses(id) ON DELETE CASCADE,
+  urgency_level_id UUID REFERENCES urgency_levels(id) ON DELETE CASCADE,
+  acknowledge_target_minutes INTEGER CHECK (acknowledge_target_minutes > 0),
+  resolve_target_minutes INTEGER CHECK (resolve_target_minutes > 0),
+  calendar_id UUID REFERENCES sla_business_calendars(id) ON DELETE SET NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT sla_policies_has_target CHECK (acknowledge_target_minutes IS NOT NULL OR resolve_target_minutes IS NOT NULL)
+);
+
+-- Only one active policy per scope, otherwise "most specific wins" is ambiguous
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sla_policies_scope
+  ON sla_policies (COALESCE(business_id, '00000000-0000-0000-0000-000000000000'::uuid),
+                   COALESCE(urgency_level_id, '00000000-0000-0000-0000-000000000000'::uuid))
+  WHERE is_active = true;
+
+CREATE TABLE IF NOT EXISTS service_request_sla (
+  service_request_id UUID PRIMARY KEY REFERENCES service_requests(id) ON DELETE CASCADE,
+  sla_policy_id UUID REFERENCES sla_policies(id) ON DELETE SET NULL,
+  policy_name VARCHAR(100) NOT NULL,
+  acknowledge_due_at TIMESTAMPTZ,
+  resolve_due_at TIMESTAMPTZ,
+  acknowledge_warned_at TIMESTAMPTZ,
+  resolve_warned_at TIMESTAMPTZ,
+  acknowledge_breached_at TIMESTAMPTZ,
+  resolve_breached_at TIMESTAMPTZ,
+  finalized_at TIMESTAMPTZ,  -- both targets settled; the monitor stops looking
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_request_sla_open ON service_request_sla(service_request_id) WHERE finalized_at IS NULL;
+
+-- Breach rows outlive policy deletion (policy_name is denormalised for that reason)
+CREATE TABLE IF NOT EXISTS sla_breaches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_request_id UUID NOT NULL REFERENCES service_requests(id) ON DELETE CASCADE,
+  business_id UUID REFERENCES businesses(id) ON DELETE SET NULL,
+  sla_policy_id UUID REFERENCES sla_policies(id) ON DELETE SET NULL,
+  policy_name VARCHAR(100) NOT NULL,
+  target VARCHAR(12) NOT NULL CHECK (target IN ('acknowledge', 'resolve')),
+  due_at TIMESTAMPTZ NOT NULL,
+  breached_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  met_at TIMESTAMPTZ,  -- when the target was eventually met (late)
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (service_request_id, target)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sla_breaches_breached ON sla_breaches(breached_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sla_breaches_business ON sla_breaches(business_id);
+
+-- Allow the SLA events on workflow notification rules
+ALTER TABLE workflow_notification_rules DROP CONSTRAINT IF EXISTS valid_trigger_event;
+ALTER TABLE workflow_notification_rules ADD CONSTRAINT valid_trigger_event CHECK (trigger_event IN (
+  'service_request_created',
+  'acknowledgment_timeout',
+  'acknowledged',
+  'start_timeout',
+  'started',
+  'completed',
+  'closed',
+  'sla_warning',
+  'sla_breach'
+));
+
+INSERT INTO workflow_notification_rules (
+  rule_name, rule_description, trigger_event, recipient_type, recipient_roles,
+  notification_type, email_template_name, timeout_minutes, max_retry_count,
+  retry_interval_minutes, execution_order, is_active
+)
+SELECT * FROM (VALUES
+  ('SLA Breach Warning',
+   'Warn executives, admins, and technicians before an SLA target is missed. Timeout is the lead time before the due time.',
+   'sla_warning', 'role', ARRAY['executive', 'admin', 'technician'],
+   'email', 'service_request_sla_warning', 30, 0, NULL::integer, 100, true),
+  ('SLA Breach Notification',
+   'Notify executives and admins when an SLA target is missed',
+   'sla_breach', 'role', ARRAY['executive', 'admin'],
+   'email', 'service_request_sla_breach', 0, 0, NULL::integer, 101, true)
+) AS v(rule_name, rule_description, trigger_event, recipient_type, recipient_roles,
+       notification_type, email_template_name, timeout_minutes, max_retry_count,
+       retry_interval_minutes, execution_order, is_active)
+WHERE NOT EXISTS (
+  SELECT 1 FROM workflow_notification_rules r WHERE r.trigger_event = v.trigger_event
+);
+
+INSERT INTO permissions (permission_key, resource_type, action_type, description, is_active)
+VALUES
+  ('manage.sla_policies.enable', 'service_requests', 'manage', 'Manage SLA policies and business-hours calendars, and view SLA breaches', true)
+ON CONFLICT (permission_key) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id, is_granted)
+SELECT r.id, p.id, true
+  FROM roles r CROSS JOIN permissions p
+ WHERE r.name IN ('executive', 'admin', 'manager')
+   AND p.permission_key = 'manage.sla_policies.enable'
+ON CONFLICT (role_id, permission_id) DO UPDATE SET is_granted = true;
+
+COMMIT;
@@ -0,0 +1,154 @@
+-- Migration: Manual invoices, drafts, voids, credit notes and invoice history
+-- Created: 2026-10-18
+-- Description: Invoices no longer have to come from closing a service
+-- request. Admins can create standalone invoices (project work, hardware
+-- resale, retainers) made of arbitrary line items, keep them as drafts while
+-- they are being edited, and issue them when ready.
+--
+-- Lifecycle (invoices.invoice_status):
+--   draft  -> editable, invisible to the client, numbered DRAFT-YYYYMMDD-XXXX
+--   issued -> locked by trigger_prevent_invoice_data_modification, numbered
+--             INV-YYYYMMDD-XXXX like service request invoices
+--   void   -> an unpaid issued invoice cancelled with a reason; kept for the
+--             record but no longer collectable
+--
+-- A paid invoice is corrected with a credit note instead: a separate invoice
+-- row (invoice_type = 'credit_note', numbered CN-YYYYMMDD-XXXX) with negative
+-- amounts that points back at the original via credit_for_invoice_id. Credit
+-- notes are settled on creation (payment_status = 'comped') so they never
+-- show up as something to collect, but they do net against issued totals.
+--
+-- Every create/edit/issue/void/credit/payment status change is written to
+-- invoice_history.
+--
+-- Permissions: reuses create/modify/void.invoices.enable from migration 054.
+--
+-- Run with: psql -f 20261018_05_manual_invoices.sql
+
+BEGIN;
+
+ALTER TABLE invoices ALTER COLUMN service_request_id DROP NOT NULL;
+ALTER TABLE invoices ALTER COLUMN base_hourly_rate SET DEFAULT 0;
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS invoice_type VARCHAR(20) NOT NULL DEFAULT 'service_request',
+  ADD COLUMN IF NOT EXISTS invoice_status VARCHAR(20) NOT NULL DEFAULT 'issued',
+  ADD COLUMN IF NOT EXISTS created_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS voided_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS void_reason TEXT,
+  ADD COLUMN IF NOT EXISTS credit_for_invoice_id UUID REFERENCES invoices(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS credit_reason TEXT;
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS check_invoice_type;
+ALTER TABLE invoices ADD CONSTRAINT check_invoice_type
+  CHECK (invoice_type IN ('service_request', 'manual', 'credit_note'));
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS check_invoice_status;
+ALTER TABLE invoices ADD CONSTRAINT check_invoice_status
+  CHECK (invoice_status IN ('draft', 'issued', 'void'));
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS check_credit_note_link;
+ALTER TABLE invoices ADD CONSTRAINT check_credit_note_link
+  CHECK ((invoice_type = 'credit_note') = (credit_for_invoice_id IS NOT NULL));
+
+CREATE INDEX IF NOT EXISTS idx_invoices_invoice_status ON invoices(invoice_status);
+CREATE INDEX IF NOT EXISTS idx_invoices_credit_for ON invoices(credit_for_invoice_id)
+  WHERE credit_for_invoice_id IS NOT NULL;
+
+-- Line items for manual invoices and credit notes. Service request invoices
+-- keep their hour breakdown columns.
+CREATE TABLE IF NOT EXISTS invoice_line_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  quantity NUMERIC(10, 2) NOT NULL DEFAULT 1,
+  unit_price NUMERIC(10, 2) NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_invoice ON invoice_line_items(invoice_id, sort_order);
+
+CREATE TABLE IF NOT EXISTS invoice_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  action VARCHAR(40) NOT NULL,
+  reason TEXT,
+  details JSONB,
+  performed_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_history_invoice ON invoice_history(invoice_id, created_at);
+
+-- Drafts stay editable; everything else keeps the original protection.
+CREATE OR REPLACE FUNCTION prevent_invoice_data_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.invoice_status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.id IS NOT NULL AND (
+    NEW.subtotal IS DISTINCT FROM OLD.subtotal OR
+    NEW.tax_rate IS DISTINCT FROM OLD.tax_rate OR
+    NEW.tax_amount IS DISTINCT FROM OLD.tax_amount OR
+    NEW.total_amount IS DISTINCT FROM OLD.total_amount OR
+    NEW.base_hourly_rate IS DISTINCT FROM OLD.base_hourly_rate OR
+    NEW.standard_hours IS DISTINCT FROM OLD.standard_hours OR
+    NEW.standard_rate IS DISTINCT FROM OLD.standard_rate OR
+    NEW.standard_cost IS DISTINCT FROM OLD.standard_cost OR
+    NEW.premium_hours IS DISTINCT FROM OLD.premium_hours OR
+    NEW.premium_rate IS DISTINCT FROM OLD.premium_rate OR
+    NEW.premium_cost IS DISTINCT FROM OLD.premium_cost OR
+    NEW.emergency_hours IS DISTINCT FROM OLD.emergency_hours OR
+    NEW.emergency_rate IS DISTINCT FROM OLD.emergency_rate OR
+    NEW.emergency_cost IS DISTINCT FROM OLD.emergency_cost OR
+    NEW.waived_hours IS DISTINCT FROM OLD.waived_hours OR
+    NEW.is_first_service_request IS DISTINCT FROM OLD.is_first_service_request OR
+    NEW.service_request_id IS DISTINCT FROM OLD.service_request_id OR
+    NEW.business_id IS DISTINCT FROM OLD.business_id OR
+    NEW.invoice_number IS DISTINCT FROM OLD.invoice_number OR
+    NEW.invoice_type IS DISTINCT FROM OLD.invoice_type OR
+    NEW.credit_for_invoice_id IS DISTINCT FROM OLD.credit_for_invoice_id OR
+    NEW.issue_date IS DISTINCT FROM OLD.issue_date OR
+    NEW.due_date IS DISTINCT FROM OLD.due_date OR
+    NEW.work_description IS DISTINCT FROM OLD.work_description OR
+    NEW.rate_tiers_snapshot IS DISTINCT FROM OLD.rate_tiers_snapshot OR
+    NEW.original_cost_estimate IS DISTINCT FROM OLD.original_cost_estimate OR
+    NEW.actual_hours_breakdown IS DISTINCT FROM OLD.actual_hours_breakdown OR
+    NEW.invoice_status = 'draft'
+  ) THEN
+    RAISE EXCEPTION 'Invoice data cannot be modified after it is issued. Only payment-related fields, notes and voiding are allowed.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Line items of issued invoices are as frozen as the invoice itself.
+CREATE OR REPLACE FUNCTION prevent_issued_line_item_modification()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent_status VARCHAR(20);
+BEGIN
+  SELECT invoice_status INTO parent_status
+    FROM invoices WHERE id = COALESCE(NEW.invoice_id, OLD.invoice_id);
+
+  IF parent_status IS NOT NULL AND parent_status <> 'draft' THEN
+    RAISE EXCEPTION 'Line items cannot be changed once the invoice is issued.';
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prevent_issued_line_item_modification ON invoice_line_items;
+CREATE TRIGGER trigger_prevent_issued_line_item_modification
+  BEFORE UPDATE OR DELETE ON invoice_line_items
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_issued_line_item_modification();
+
+COMMIT;
@@ -0,0 +1,62 @@
+-- Migration: Generic invoice line items for every invoice
+-- Created: 2026-10-18
+-- Description: invoice_line_items (added with manual invoices) becomes the
+-- one model every invoice is rendered and charged from. A line is a
+-- description, quantity, unit price and taxable flag, optionally pointing at
+-- the service request, time entry or product (SKU / part number) it bills
+-- for, so an invoice can carry parts, travel fees, discounts and several
+-- service requests.
+--
+-- Existing service request invoices are migrated into line items from their
+-- standard/premium/emergency columns (one labour line per tier with hours,
+-- plus a zero-priced line for hours waived under the first-time discount).
+-- Line amounts are copied from the stored *_cost columns so migrated
+-- invoices still add up to the subtotal the client was billed.
+--
+-- The hour columns on invoices stay as the close handler's snapshot (the
+-- executive summary reads them) but nothing renders from them any more.
+--
+-- Run with: psql -f 20261018_06_invoice_line_item_model.sql
+
+BEGIN;
+
+-- Billable hours are rarely whole quarters of an hour
+ALTER TABLE invoice_line_items ALTER COLUMN quantity TYPE NUMERIC(12, 4);
+
+ALTER TABLE invoice_line_items
+  ADD COLUMN IF NOT EXISTS item_type VARCHAR(20) NOT NULL DEFAULT 'other',
+  ADD COLUMN IF NOT EXISTS taxable BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS service_request_id UUID REFERENCES service_requests(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS time_entry_id UUID REFERENCES service_request_time_entries(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS product_ref VARCHAR(100);
+
+ALTER TABLE invoice_line_items DROP CONSTRAINT IF EXISTS check_line_item_type;
+ALTER TABLE invoice_line_items ADD CONSTRAINT check_line_item_type
+  CHECK (item_type IN ('labor', 'part', 'fee', 'discount', 'other'));
+
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_service_request ON invoice_line_items(service_request_id)
+  WHERE service_request_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_time_entry ON invoice_line_items(time_entry_id)
+  WHERE time_entry_id IS NOT NULL;
+
+-- Backfill service request invoices that have no line items yet
+INSERT INTO invoice_line_items (
+  invoice_id, description, item_type, quantity, unit_price, amount, taxable, service_request_id, sort_order
+)
+SELECT i.id, v.description, v.item_type, v.hours, v.rate, v.cost, v.taxable, i.service_request_id, v.sort_order
+FROM invoices i
+CROSS JOIN LATERAL (VALUES
+  ('Standard hours', 'labor', i.standard_hours, i.standard_rate, i.standard_cost, true, 0),
+  ('Premium hours (1.5x)', 'labor', i.premium_hours, i.premium_rate, i.premium_cost, true, 1),
+  ('Emergency hours (2x)', 'labor', i.emergency_hours, i.emergency_rate, i.emergency_cost, true, 2),
+  ('First-time client discount (hours waived)', 'discount',
+    CASE WHEN i.is_first_service_request THEN i.waived_hours ELSE 0 END, 0, 0, false, 3)
+) AS v(description, item_type, hours, rate, cost, taxable, sort_order)
+WHERE i.invoice_type = 'service_request'
+  AND COALESCE(v.hours, 0) > 0
+  AND NOT EXISTS (SELECT 1 FROM invoice_line_items li WHERE li.invoice_id = i.id);
+
+-- Manual lines and credit notes created before this migration were all
+-- taxed on the full subtotal, which the taxable default already reflects.
+
+COMMIT;
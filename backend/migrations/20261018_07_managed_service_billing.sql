@@ -0,0 +1,99 @@
+-- Migration: Recurring managed-services billing per monitored device
+-- Created: 2026-10-18
+-- Description: Monthly monitoring plans priced per device, billed
+-- automatically alongside the hourly service request invoices.
+--
+--   managed_service_plans          -- a plan's per-device price ranges, the
+--                                     same graduated {start, end, price,
+--                                     description} shape as
+--                                     subscription_pricing.pricing_ranges
+--   managed_service_subscriptions  -- a business on a plan from started_on
+--                                     (until ended_on), and the last day it
+--                                     has been invoiced through
+--   managed_service_device_counts  -- the business's billable device count
+--                                     for each day of the subscription
+--
+-- Billable devices are the business's active agents that are neither trial
+-- agents nor soft-deleted (what GET /api/agents lists, minus trials). The
+-- recurring billing scheduler records the count every tick, keeping the
+-- day's highest, so a device added or removed mid-month is billed for the
+-- days it was monitored. Each month is invoiced in arrears on the 1st as an
+-- issued invoice (invoice_type = 'recurring') with one line per run of days
+-- at the same device count, each prorated by days / days-in-month.
+--
+-- Permissions:
+--   manage.recurring_billing.enable -- create/edit plans and put businesses
+--                                      on them (viewing needs
+--                                      view.invoices.enable)
+--
+-- Run with: psql -f 20261018_07_managed_service_billing.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS managed_service_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  pricing_ranges JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON COLUMN managed_service_plans.pricing_ranges IS 'Graduated per-device monthly pricing: array of {start, end, price, description}; devices past the last range are billed at its price';
+
+CREATE TABLE IF NOT EXISTS managed_service_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  plan_id UUID NOT NULL REFERENCES managed_service_plans(id) ON DELETE RESTRICT,
+  started_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  ended_on DATE,
+  billed_through DATE,
+  notes TEXT,
+  created_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_subscription_dates CHECK (ended_on IS NULL OR ended_on >= started_on)
+);
+
+-- One open subscription per business
+CREATE UNIQUE INDEX IF NOT EXISTS idx_managed_service_subscriptions_open
+  ON managed_service_subscriptions(business_id) WHERE ended_on IS NULL;
+CREATE INDEX IF NOT EXISTS idx_managed_service_subscriptions_plan ON managed_service_subscriptions(plan_id);
+
+CREATE TABLE IF NOT EXISTS managed_service_device_counts (
+  subscription_id UUID NOT NULL REFERENCES managed_service_subscriptions(id) ON DELETE CASCADE,
+  count_date DATE NOT NULL,
+  device_count INTEGER NOT NULL CHECK (device_count >= 0),
+  recorded_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (subscription_id, count_date)
+);
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS managed_service_subscription_id UUID REFERENCES managed_service_subscriptions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS billing_period_start DATE,
+  ADD COLUMN IF NOT EXISTS billing_period_end DATE;
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS check_invoice_type;
+ALTER TABLE invoices ADD CONSTRAINT check_invoice_type
+  CHECK (invoice_type IN ('service_request', 'manual', 'credit_note', 'recurring'));
+
+-- A month is only ever invoiced once per subscription
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_managed_service_period
+  ON invoices(managed_service_subscription_id, billing_period_start)
+  WHERE managed_service_subscription_id IS NOT NULL;
+
+INSERT INTO permissions (permission_key, resource_type, action_type, description, is_active)
+VALUES
+  ('manage.recurring_billing.enable', 'invoices', 'manage', 'Manage managed-services plans and the businesses billed on them', true)
+ON CONFLICT (permission_key) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id, is_granted)
+SELECT r.id, p.id, true
+  FROM roles r CROSS JOIN permissions p
+ WHERE r.name IN ('executive', 'admin')
+   AND p.permission_key = 'manage.recurring_billing.enable'
+ON CONFLICT (role_id, permission_id) DO UPDATE SET is_granted = true;
+
+COMMIT;
@@ -0,0 +1,62 @@
+-- Migration: Monthly consolidated invoices per business
+-- Created: 2026-10-18
+-- Description: A business can be billed once a month for all of its
+-- completed service requests instead of one invoice per request.
+--
+--   businesses.billing_mode                  -- 'per_request' (default: the
+--                                               close handler invoices each
+--                                               completed request) or
+--                                               'monthly_consolidated'
+--   service_requests.billing_deferred_at     -- when a completed request was
+--                                               closed without an invoice,
+--                                               waiting to be consolidated
+--   service_requests.consolidated_invoice_id -- the consolidated invoice the
+--                                               request was rolled into
+--   consolidated_billing_runs                -- the months already
+--                                               consolidated per business
+--
+-- After a month ends the consolidated billing scheduler creates one DRAFT
+-- invoice (invoice_type = 'consolidated') per business, with one line per
+-- request closed before the 1st and not yet consolidated, each priced by the
+-- same rate-tier calculation the close handler uses. An admin reviews and
+-- issues the draft from Invoices. Deleting the draft, or removing a
+-- request's line from it, returns the request to the pending pool.
+--
+-- Permissions: none new (consolidating on demand needs
+-- create.invoices.enable, changing the mode modify.businesses.enable)
+--
+-- Run with: psql -f 20261018_08_consolidated_billing.sql
+
+BEGIN;
+
+ALTER TABLE businesses
+  ADD COLUMN IF NOT EXISTS billing_mode VARCHAR(20) NOT NULL DEFAULT 'per_request';
+
+ALTER TABLE businesses DROP CONSTRAINT IF EXISTS check_business_billing_mode;
+ALTER TABLE businesses ADD CONSTRAINT check_business_billing_mode
+  CHECK (billing_mode IN ('per_request', 'monthly_consolidated'));
+
+ALTER TABLE service_requests
+  ADD COLUMN IF NOT EXISTS billing_deferred_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS consolidated_invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_service_requests_pending_consolidation
+  ON service_requests(business_id, billing_deferred_at)
+  WHERE billing_deferred_at IS NOT NULL AND consolidated_invoice_id IS NULL;
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS check_invoice_type;
+ALTER TABLE invoices ADD CONSTRAINT check_invoice_type
+  CHECK (invoice_type IN ('service_request', 'manual', 'credit_note', 'recurring', 'consolidated'));
+
+-- A month is only ever consolidated once per business, even if its draft is
+-- later deleted
+CREATE TABLE IF NOT EXISTS consolidated_billing_runs (
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (business_id, period_start)
+);
+
+COMMIT;
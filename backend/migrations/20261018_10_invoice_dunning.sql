@@ -0,0 +1,59 @@
+-- Migration: Payment reminders (dunning) for unpaid invoices
+-- Created: 2026-10-18
+-- Description: The dunning scheduler chases unpaid issued invoices on a
+-- cadence relative to their due date (by default 3 days before, on the due
+-- date, and 7, 14 and 30 days after). Each reminder emails the invoice PDF
+-- to the primary contact with a Stripe payment link, and optionally texts
+-- the contact. Invoices still 'due' after their due date are flipped to
+-- 'overdue' by the same scheduler.
+--
+--   invoices.dunning_paused_at            -- reminders paused by an admin
+--                                            (NULL = reminders active)
+--   invoices.stripe_payment_link_id/_url  -- the Stripe Payment Link sent in
+--                                            reminders, reused across them
+--   invoice_reminders                     -- one row per cadence step sent,
+--                                            so a step is never sent twice
+--   system_settings.invoice_dunning_config
+--       { "enabled": true, "offsetDays": [-3, 0, 7, 14, 30], "sendSms": false }
+--       offsetDays are days relative to the due date (negative = before);
+--       edited in Admin Settings
+--
+-- Sends and pauses are written to invoice_history ('reminder_sent',
+-- 'reminders_paused', 'reminders_resumed').
+--
+-- Permissions: none new (pausing reminders needs send.invoices.enable,
+-- changing the cadence modify.system_settings.enable)
+--
+-- Run with: psql -f 20261018_10_invoice_dunning.sql
+
+BEGIN;
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS dunning_paused_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS dunning_paused_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS stripe_payment_link_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS stripe_payment_link_url TEXT;
+
+CREATE TABLE IF NOT EXISTS invoice_reminders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  offset_days INTEGER NOT NULL,
+  email_to VARCHAR(255),
+  sms_to VARCHAR(20),
+  sms_error TEXT,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (invoice_id, offset_days)
+);
+
+INSERT INTO system_settings (setting_key, setting_value, setting_type, description, created_at, updated_at)
+VALUES (
+  'invoice_dunning_config',
+  '{"enabled": true, "offsetDays": [-3, 0, 7, 14, 30], "sendSms": false}'::jsonb,
+  'billing',
+  'Payment reminder cadence for unpaid invoices: days relative to the due date (negative = before), and whether reminders are also sent by SMS.',
+  NOW(),
+  NOW()
+)
+ON CONFLICT (setting_key) DO NOTHING;
+
+COMMIT;
@@ -0,0 +1,45 @@
+-- Migration: Saved payment methods and autopay
+-- Created: 2026-10-18
+-- Description: A business can save cards and US bank accounts (ACH) to a
+-- Stripe customer through a SetupIntent, and opt into autopay with one of
+-- them. The autopay scheduler charges invoices issued after autopay was
+-- turned on once they reach their due date.
+--
+--   businesses.stripe_customer_id          -- the business's Stripe customer;
+--                                             saved methods live in Stripe
+--   businesses.autopay_enabled/_payment_method_id/_enabled_at/_enabled_by_user_id
+--   invoices.autopay_attempted_at          -- last autopay charge attempt
+--   invoices.autopay_payment_method_id     -- method that attempt used; an
+--                                             invoice is charged once per method,
+--                                             so choosing a new method retries
+--                                             a failed charge
+--   invoices.autopay_failure_reason        -- why the last attempt failed
+--
+-- Card charges settle immediately; bank debits leave the invoice 'pending'
+-- until the Stripe webhook reports the outcome. A failed charge sets the
+-- invoice to 'failed', is written to invoice_history ('autopay_failed') and
+-- the client is emailed.
+--
+-- Permissions: none (clients manage their own business's methods)
+--
+-- Run with: psql -f 20261018_11_autopay.sql
+
+BEGIN;
+
+ALTER TABLE businesses
+  ADD COLUMN IF NOT EXISTS stripe_customer_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS autopay_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS autopay_payment_method_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS autopay_enabled_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS autopay_enabled_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL;
+
+ALTER TABLE businesses DROP CONSTRAINT IF EXISTS check_business_autopay_method;
+ALTER TABLE businesses ADD CONSTRAINT check_business_autopay_method
+  CHECK (NOT autopay_enabled OR autopay_payment_method_id IS NOT NULL);
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS autopay_attempted_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS autopay_payment_method_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS autopay_failure_reason TEXT;
+
+COMMIT;
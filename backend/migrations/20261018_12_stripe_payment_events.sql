@@ -0,0 +1,62 @@
+-- Migration: Stripe webhook ingestion and payment events
+-- Created: 2026-10-18
+-- Description: Invoices are reconciled from signed Stripe webhooks instead
+-- of the client-triggered sync route, so they update even when the client
+-- closes the browser. Every webhook delivery is written to payment_events
+-- keyed by the Stripe event ID; a redelivered event is recognised and
+-- skipped, and one that failed to process, or was left 'received' by a
+-- process that died, is retried on redelivery.
+--
+--   payment_events                       -- one row per Stripe event
+--       status: received | processed | ignored | failed
+--       source: webhook | replay (scripts/replay-stripe-webhooks.js)
+--   invoices.amount_refunded             -- total refunded through Stripe
+--   invoices.stripe_dispute_id/dispute_status/dispute_amount/disputed_at
+--                                        -- latest chargeback on the payment
+--   invoices.payment_status 'refunded'   -- fully refunded; allowed by the
+--                                        check_payment_status that
+--                                        20261018_13_invoice_payments.sql defines
+--
+-- Handled events: payment_intent.succeeded, payment_intent.payment_failed,
+-- payment_intent.canceled, charge.refunded, charge.dispute.created,
+-- charge.dispute.closed. Each change is written to invoice_history. A lost
+-- dispute returns the invoice to due/overdue.
+--
+-- Permissions: none
+--
+-- Run with: psql -f 20261018_12_stripe_payment_events.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS payment_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stripe_event_id VARCHAR(255) NOT NULL UNIQUE,
+  event_type VARCHAR(100) NOT NULL,
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  stripe_object_id VARCHAR(255),
+  amount NUMERIC(10,2),
+  currency VARCHAR(3),
+  status VARCHAR(20) NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  source VARCHAR(20) NOT NULL DEFAULT 'webhook' CHECK (source IN ('webhook', 'replay')),
+  payload JSONB NOT NULL,
+  stripe_created_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_invoice ON payment_events(invoice_id, received_at);
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS amount_refunded NUMERIC(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS stripe_dispute_id VARCHAR(255),
+  ADD COLUMN IF NOT EXISTS dispute_status VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS dispute_amount NUMERIC(10,2),
+  ADD COLUMN IF NOT EXISTS disputed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_stripe_charge ON invoices(stripe_charge_id);
+
+COMMIT;
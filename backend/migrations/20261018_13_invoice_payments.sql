@@ -0,0 +1,118 @@
+-- Migration: Payment ledger, partial payments, refunds and credit balances
+-- Created: 2026-10-18
+-- Description: An invoice can take any number of payments (card, bank
+-- debit, check, cash, other) and refunds. Each is a row in
+-- invoice_payments; the invoice caches the running totals and its payment
+-- status follows the balance (partial when something but not everything has
+-- been paid). Money a business overpays, or a refund taken as credit, goes
+-- to its credit balance, which can be applied to later invoices.
+--
+--   invoice_payments                -- the per-invoice ledger
+--       entry_type: payment | refund | chargeback | credit_applied | overpayment_credited
+--       method:     card | us_bank_account | check | cash | credit | other
+--       refunds and chargebacks point at the payment they return
+--       (refunded_payment_id), as does the overpayment a payment moved to
+--       credit, so it cannot be refunded as well; a charged-back invoice is
+--       owed again
+--   business_credit_transactions    -- credit balance ledger; balance is the sum
+--       reason: overpayment | refund | applied | adjustment
+--               | overpayment_refunded (credited overpayment Stripe later
+--                 returned to the card)
+--   invoices.amount_paid            -- payments + credit applied - refunds
+--                                      - chargebacks - overpayment moved to credit
+--   invoices.amount_refunded        -- total refunded (was Stripe refunds only)
+--   invoices.payment_status 'partial'
+--
+-- Card and bank payments made through Stripe are recorded by the webhook
+-- (keyed by payment intent); card refunds issued from the admin ledger go
+-- back through Stripe. Existing paid invoices get one payment row each so
+-- their ledgers balance.
+--
+-- Permissions: none new (recording payments, refunds and applying credit
+-- need modify.invoices.enable)
+--
+-- Run with: psql -f 20261018_13_invoice_payments.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS invoice_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  business_id UUID NOT NULL REFERENCES businesses(id),
+  entry_type VARCHAR(30) NOT NULL
+    CHECK (entry_type IN ('payment', 'refund', 'chargeback', 'credit_applied', 'overpayment_credited')),
+  method VARCHAR(30) NOT NULL
+    CHECK (method IN ('card', 'us_bank_account', 'check', 'cash', 'credit', 'other')),
+  amount NUMERIC(10,2) NOT NULL CHECK (amount > 0),
+  reference VARCHAR(255),
+  notes TEXT,
+  received_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  refunded_payment_id UUID REFERENCES invoice_payments(id),
+  stripe_payment_intent_id VARCHAR(255),
+  stripe_charge_id VARCHAR(255),
+  stripe_refund_id VARCHAR(255) UNIQUE,
+  stripe_event_id VARCHAR(255) UNIQUE,
+  recorded_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (entry_type NOT IN ('refund', 'chargeback') OR refunded_payment_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice ON invoice_payments(invoice_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_charge ON invoice_payments(stripe_charge_id);
+-- One payment row per Stripe payment, however often it is reported
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoice_payments_intent
+  ON invoice_payments(stripe_payment_intent_id) WHERE entry_type = 'payment';
+
+CREATE TABLE IF NOT EXISTS business_credit_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  amount NUMERIC(10,2) NOT NULL CHECK (amount <> 0),
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('overpayment', 'refund', 'applied', 'adjustment', 'overpayment_refunded')),
+  invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  invoice_payment_id UUID REFERENCES invoice_payments(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_business_credit_business ON business_credit_transactions(business_id, created_at);
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS amount_paid NUMERIC(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE invoices DROP CONSTRAINT IF EXISTS check_payment_status;
+ALTER TABLE invoices ADD CONSTRAINT check_payment_status
+  CHECK (payment_status IN ('due', 'pending', 'partial', 'paid', 'failed', 'overdue', 'comped', 'refunded'));
+
+-- Ledger rows for invoices paid before the ledger existed
+INSERT INTO invoice_payments (
+  invoice_id, business_id, entry_type, method, amount, notes, received_on,
+  stripe_payment_intent_id, stripe_charge_id
+)
+SELECT i.id, i.business_id, 'payment',
+       CASE WHEN i.payment_method IN ('card', 'us_bank_account', 'check', 'cash') THEN i.payment_method ELSE 'other' END,
+       i.total_amount, 'Recorded before the payment ledger', COALESCE(i.payment_date::date, i.issue_date),
+       i.stripe_payment_intent_id, i.stripe_charge_id
+  FROM invoices i
+ WHERE i.payment_status IN ('paid', 'refunded')
+   AND i.invoice_type <> 'credit_note'
+   AND i.total_amount > 0
+   AND NOT EXISTS (SELECT 1 FROM invoice_payments p WHERE p.invoice_id = i.id);
+
+INSERT INTO invoice_payments (
+  invoice_id, business_id, entry_type, method, amount, notes, refunded_payment_id
+)
+SELECT p.invoice_id, p.business_id, 'refund', p.method, i.amount_refunded,
+       'Recorded before the payment ledger', p.id
+  FROM invoice_payments p
+  JOIN invoices i ON i.id = p.invoice_id
+ WHERE p.notes = 'Recorded before the payment ledger'
+   AND p.entry_type = 'payment'
+   AND i.amount_refunded > 0
+   AND NOT EXISTS (SELECT 1 FROM invoice_payments r WHERE r.refunded_payment_id = p.id);
+
+UPDATE invoices SET amount_paid = total_amount - amount_refunded
+ WHERE payment_status IN ('paid', 'refunded')
+   AND invoice_type <> 'credit_note';
+
+COMMIT;
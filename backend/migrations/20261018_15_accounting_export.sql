@@ -0,0 +1,99 @@
+-- Migration: Accounting export to QuickBooks and Xero
+-- Created: 2026-10-18
+-- Description: Exports customers (businesses), issued invoices and credit
+-- notes, and payments as files the bookkeeper imports instead of re-keying
+-- them: QuickBooks Desktop IIF, QuickBooks Online CSV or Xero CSV.
+--
+--   accounting_income_accounts  -- the income account invoice lines are
+--                                  posted to, per service type, with one
+--                                  row (service_type_id IS NULL) as the
+--                                  default for lines with no service type.
+--                                  QuickBooks takes account names, Xero
+--                                  account codes, so both are kept.
+--   accounting_exports          -- every export run, with the file it
+--                                  produced so it can be downloaded again
+--   accounting_export_items     -- the run each customer, invoice and
+--                                  payment last went out in, per accounting
+--                                  system (IIF and QuickBooks CSV count as
+--                                  the same system). Invoices and payments
+--                                  go out once; a customer goes out again
+--                                  once the business has been edited.
+--
+-- The receivables, deposit and sales tax accounts QuickBooks posts to are
+-- company_settings (accounting_ar_account, accounting_deposit_account,
+-- accounting_tax_account), seeded with the QuickBooks standard names; Xero
+-- takes payments into the account coded accounting_xero_payment_account.
+--
+-- Permissions:
+--   export.accounting.enable -- map income accounts and run exports
+--
+-- Run with: psql -f 20261018_15_accounting_export.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS accounting_income_accounts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_type_id UUID REFERENCES service_types(id) ON DELETE CASCADE,
+  quickbooks_account VARCHAR(100),
+  xero_account_code VARCHAR(20),
+  updated_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounting_income_accounts_service_type
+  ON accounting_income_accounts(service_type_id) WHERE service_type_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounting_income_accounts_default
+  ON accounting_income_accounts((service_type_id IS NULL)) WHERE service_type_id IS NULL;
+
+-- QuickBooks' and Xero's standard sales accounts
+INSERT INTO accounting_income_accounts (service_type_id, quickbooks_account, xero_account_code)
+SELECT NULL, 'Services', '200'
+ WHERE NOT EXISTS (SELECT 1 FROM accounting_income_accounts WHERE service_type_id IS NULL);
+
+CREATE TABLE IF NOT EXISTS accounting_exports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  format VARCHAR(20) NOT NULL CHECK (format IN ('quickbooks_iif', 'quickbooks_csv', 'xero_csv')),
+  entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('customers', 'invoices', 'payments')),
+  item_count INTEGER NOT NULL,
+  filename VARCHAR(255) NOT NULL,
+  content TEXT NOT NULL,
+  exported_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounting_exports_created ON accounting_exports(created_at DESC);
+
+CREATE TABLE IF NOT EXISTS accounting_export_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  export_id UUID NOT NULL REFERENCES accounting_exports(id) ON DELETE CASCADE,
+  system VARCHAR(20) NOT NULL CHECK (system IN ('quickbooks', 'xero')),
+  entity_type VARCHAR(20) NOT NULL CHECK (entity_type IN ('customers', 'invoices', 'payments')),
+  entity_id UUID NOT NULL,
+  exported_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- The latest export of each entity to each system
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounting_export_items_entity
+  ON accounting_export_items(system, entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS idx_accounting_export_items_export ON accounting_export_items(export_id);
+
+INSERT INTO company_settings (setting_key, setting_value) VALUES
+  ('accounting_ar_account', 'Accounts Receivable'),
+  ('accounting_deposit_account', 'Undeposited Funds'),
+  ('accounting_tax_account', 'Sales Tax Payable'),
+  ('accounting_xero_payment_account', '090')
+ON CONFLICT (setting_key) DO NOTHING;
+
+INSERT INTO permissions (permission_key, resource_type, action_type, description, is_active)
+VALUES
+  ('export.accounting.enable', 'invoices', 'export', 'Map income accounts and export invoices, payments and customers to accounting software', true)
+ON CONFLICT (permission_key) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id, is_granted)
+SELECT r.id, p.id, true
+  FROM roles r CROSS JOIN permissions p
+ WHERE r.name IN ('executive', 'admin')
+   AND p.permission_key = 'export.accounting.enable'
+ON CONFLICT (role_id, permission_id) DO UPDATE SET is_granted = true;
+
+COMMIT;
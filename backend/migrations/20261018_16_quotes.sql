@@ -0,0 +1,98 @@
+-- Migration: Quotes / estimates
+-- Created: 2026-10-18
+-- Description: Estimates for larger jobs, priced with the same line items as
+-- invoices, that the client accepts or declines in the portal.
+--
+--   quotes            -- one estimate for a business: title, scope, terms,
+--                        the date it is valid until and, optionally, when
+--                        the work would be scheduled
+--   quote_line_items  -- its priced lines
+--
+-- Lifecycle: draft -> sent (emailed to a client contact) -> accepted or
+-- declined. A sent quote past valid_until can no longer be answered and is
+-- shown as expired. Accepting needs the contact's typed name and the
+-- e-signature checkbox, and creates a service request for the quoted work
+-- (service_request_id). When that request is closed as Complete it is
+-- invoiced at the quoted lines instead of its logged hours (invoice_id).
+--
+-- Quote numbers are Q-YYYYMMDD-NNNN, like invoice numbers.
+--
+-- Permissions:
+--   view.quotes.enable   -- list and open quotes
+--   manage.quotes.enable -- create, edit, send and delete quotes
+--
+-- Run with: psql -f 20261018_16_quotes.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS quotes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_number VARCHAR(30) NOT NULL UNIQUE,
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  service_location_id UUID REFERENCES service_locations(id) ON DELETE SET NULL,
+  service_type_id UUID REFERENCES service_types(id) ON DELETE SET NULL,
+  contact_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  title VARCHAR(255) NOT NULL,
+  description TEXT,
+  terms TEXT,
+  valid_until DATE NOT NULL,
+  requested_datetime TIMESTAMPTZ,
+  requested_duration_minutes INTEGER,
+  subtotal NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  tax_rate NUMERIC(6, 4) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  total_amount NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'draft',
+  sent_at TIMESTAMPTZ,
+  sent_to VARCHAR(255),
+  accepted_at TIMESTAMPTZ,
+  accepted_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  signature_name VARCHAR(200),
+  signature_ip VARCHAR(64),
+  declined_at TIMESTAMPTZ,
+  declined_by_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  decline_reason TEXT,
+  service_request_id UUID REFERENCES service_requests(id) ON DELETE SET NULL,
+  invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL,
+  created_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_quote_status CHECK (status IN ('draft', 'sent', 'accepted', 'declined')),
+  CONSTRAINT check_quote_duration CHECK (requested_duration_minutes IS NULL OR requested_duration_minutes > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_quotes_business ON quotes(business_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quotes_service_request
+  ON quotes(service_request_id) WHERE service_request_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS quote_line_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  quote_id UUID NOT NULL REFERENCES quotes(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  item_type VARCHAR(20) NOT NULL DEFAULT 'other',
+  quantity NUMERIC(10, 4) NOT NULL DEFAULT 1,
+  unit_price NUMERIC(10, 2) NOT NULL,
+  amount NUMERIC(10, 2) NOT NULL,
+  taxable BOOLEAN NOT NULL DEFAULT true,
+  product_ref VARCHAR(100),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_quote_line_item_type CHECK (item_type IN ('labor', 'part', 'fee', 'discount', 'other'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_line_items_quote ON quote_line_items(quote_id, sort_order);
+
+INSERT INTO permissions (permission_key, resource_type, action_type, description, is_active)
+VALUES
+  ('view.quotes.enable',   'quotes', 'view',   'View quotes and estimates',                       true),
+  ('manage.quotes.enable', 'quotes', 'manage', 'Create, edit, send and delete quotes and estimates', true)
+ON CONFLICT (permission_key) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id, is_granted)
+SELECT r.id, p.id, true
+  FROM roles r CROSS JOIN permissions p
+ WHERE r.name IN ('executive', 'admin')
+   AND p.permission_key IN ('view.quotes.enable', 'manage.quotes.enable')
+ON CONFLICT (role_id, permission_id) DO UPDATE SET is_granted = true;
+
+COMMIT;
@@ -0,0 +1,64 @@
+-- Migration: Prepaid hour blocks (retainers) per business
+-- Created: 2026-10-18
+-- Description: Clients can buy blocks of hours up front. When the close
+-- handler completes a request of a business with prepaid hours left, the
+-- request's billable hours are drawn down from its blocks instead of being
+-- invoiced; only hours beyond the balance are billed.
+--
+--   prepaid_hour_blocks                      -- each block bought: hours,
+--                                               purchase date and an
+--                                               optional expiry
+--   prepaid_hour_usage                       -- minutes a completed request
+--                                               drew from a block (one row
+--                                               per block it touched; billable
+--                                               time is counted by the minute)
+--   businesses.prepaid_low_balance_hours     -- warn the client when the
+--                                               balance falls to this
+--   businesses.prepaid_low_balance_warned_at -- when the warning was sent;
+--                                               cleared when a block is
+--                                               added, so it goes out once
+--                                               per top-up
+--
+-- Blocks are drawn down soonest-expiring first, then oldest first. An
+-- expired block's unused hours no longer count towards the balance.
+--
+-- Permissions: none new (viewing blocks follows the business list, adding
+-- or removing one needs modify.businesses.enable)
+--
+-- Run with: psql -f 20261018_17_prepaid_hours.sql
+
+BEGIN;
+
+ALTER TABLE businesses
+  ADD COLUMN IF NOT EXISTS prepaid_low_balance_hours NUMERIC(8,2) NOT NULL DEFAULT 2,
+  ADD COLUMN IF NOT EXISTS prepaid_low_balance_warned_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS prepaid_hour_blocks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  hours NUMERIC(8,2) NOT NULL CHECK (hours > 0),
+  purchased_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  expires_on DATE,
+  notes TEXT,
+  created_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_prepaid_block_expiry CHECK (expires_on IS NULL OR expires_on >= purchased_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prepaid_hour_blocks_business
+  ON prepaid_hour_blocks(business_id, expires_on, purchased_on);
+
+CREATE TABLE IF NOT EXISTS prepaid_hour_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  block_id UUID NOT NULL REFERENCES prepaid_hour_blocks(id) ON DELETE CASCADE,
+  service_request_id UUID NOT NULL REFERENCES service_requests(id) ON DELETE CASCADE,
+  minutes INTEGER NOT NULL CHECK (minutes > 0),
+  created_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (block_id, service_request_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prepaid_hour_usage_request
+  ON prepaid_hour_usage(service_request_id);
+
+COMMIT;
@@ -0,0 +1,131 @@
+-- Migration: Per-business currency, tax jurisdictions and tax exemption
+-- Created: 2026-10-18
+-- Description: Invoices used to carry a single tax_rate taken from the
+-- company settings and were always in USD. A business now has:
+--
+--   businesses.currency                      -- ISO 4217 code every invoice of
+--                                               the business is issued and
+--                                               charged in
+--   businesses.tax_jurisdiction_id           -- where it is taxed; without one
+--                                               the company invoice_tax_rate
+--                                               applies as before
+--   businesses.tax_exempt                    -- exempt from sales tax, but only
+--                                               while a certificate is on file
+--   businesses.tax_exempt_certificate_*      -- the uploaded certificate
+--                                               (t_client_files), its number
+--                                               and expiry
+--
+--   tax_jurisdictions                        -- e.g. "San Diego, CA"; whether
+--                                               labour is taxable there
+--   tax_jurisdiction_components              -- the rates that add up to the
+--                                               jurisdiction's rate (state +
+--                                               county + city)
+--
+-- Invoices (and quotes) copy the currency and a breakdown of the tax per
+-- component when they are created, so later changes to a business or jurisdiction never
+-- alter an issued invoice. invoices.tax_rate stays the combined rate.
+--
+-- Permissions: manage.tax_settings.enable (maintain jurisdictions); a
+-- business's currency, jurisdiction and exemption need
+-- modify.businesses.enable
+--
+-- Run with: psql -f 20261018_18_invoice_currency_tax.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS tax_jurisdictions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL UNIQUE,
+  labor_taxable BOOLEAN NOT NULL DEFAULT true,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS tax_jurisdiction_components (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  jurisdiction_id UUID NOT NULL REFERENCES tax_jurisdictions(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  rate NUMERIC(6, 4) NOT NULL CHECK (rate >= 0 AND rate < 1),
+  display_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_jurisdiction_components_jurisdiction
+  ON tax_jurisdiction_components(jurisdiction_id, display_order);
+
+ALTER TABLE businesses
+  ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS tax_jurisdiction_id UUID REFERENCES tax_jurisdictions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS tax_exempt BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS tax_exempt_certificate_file_id UUID REFERENCES t_client_files(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS tax_exempt_certificate_number VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS tax_exempt_expires_on DATE;
+
+ALTER TABLE invoices
+  ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS tax_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE quotes
+  ADD COLUMN IF NOT EXISTS currency CHAR(3) NOT NULL DEFAULT 'USD',
+  ADD COLUMN IF NOT EXISTS tax_breakdown JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- The currency and tax breakdown are frozen with the rest of an issued invoice.
+CREATE OR REPLACE FUNCTION prevent_invoice_data_modification()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.invoice_status = 'draft' THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.id IS NOT NULL AND (
+    NEW.subtotal IS DISTINCT FROM OLD.subtotal OR
+    NEW.tax_rate IS DISTINCT FROM OLD.tax_rate OR
+    NEW.tax_amount IS DISTINCT FROM OLD.tax_amount OR
+    NEW.tax_breakdown IS DISTINCT FROM OLD.tax_breakdown OR
+    NEW.currency IS DISTINCT FROM OLD.currency OR
+    NEW.total_amount IS DISTINCT FROM OLD.total_amount OR
+    NEW.base_hourly_rate IS DISTINCT FROM OLD.base_hourly_rate OR
+    NEW.standard_hours IS DISTINCT FROM OLD.standard_hours OR
+    NEW.standard_rate IS DISTINCT FROM OLD.standard_rate OR
+    NEW.standard_cost IS DISTINCT FROM OLD.standard_cost OR
+    NEW.premium_hours IS DISTINCT FROM OLD.premium_hours OR
+    NEW.premium_rate IS DISTINCT FROM OLD.premium_rate OR
+    NEW.premium_cost IS DISTINCT FROM OLD.premium_cost OR
+    NEW.emergency_hours IS DISTINCT FROM OLD.emergency_hours OR
+    NEW.emergency_rate IS DISTINCT FROM OLD.emergency_rate OR
+    NEW.emergency_cost IS DISTINCT FROM OLD.emergency_cost OR
+    NEW.waived_hours IS DISTINCT FROM OLD.waived_hours OR
+    NEW.is_first_service_request IS DISTINCT FROM OLD.is_first_service_request OR
+    NEW.service_request_id IS DISTINCT FROM OLD.service_request_id OR
+    NEW.business_id IS DISTINCT FROM OLD.business_id OR
+    NEW.invoice_number IS DISTINCT FROM OLD.invoice_number OR
+    NEW.invoice_type IS DISTINCT FROM OLD.invoice_type OR
+    NEW.credit_for_invoice_id IS DISTINCT FROM OLD.credit_for_invoice_id OR
+    NEW.issue_date IS DISTINCT FROM OLD.issue_date OR
+    NEW.due_date IS DISTINCT FROM OLD.due_date OR
+    NEW.work_description IS DISTINCT FROM OLD.work_description OR
+    NEW.rate_tiers_snapshot IS DISTINCT FROM OLD.rate_tiers_snapshot OR
+    NEW.original_cost_estimate IS DISTINCT FROM OLD.original_cost_estimate OR
+    NEW.actual_hours_breakdown IS DISTINCT FROM OLD.actual_hours_breakdown OR
+    NEW.invoice_status = 'draft'
+  ) THEN
+    RAISE EXCEPTION 'Invoice data cannot be modified after it is issued. Only payment-related fields, notes and voiding are allowed.';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+INSERT INTO permissions (permission_key, resource_type, action_type, description, is_active)
+VALUES
+  ('manage.tax_settings.enable', 'tax_settings', 'manage', 'Maintain tax jurisdictions and their rates', true)
+ON CONFLICT (permission_key) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id, is_granted)
+SELECT r.id, p.id, true
+  FROM roles r CROSS JOIN permissions p
+ WHERE r.name IN ('executive', 'admin')
+   AND p.permission_key = 'manage.tax_settings.enable'
+ON CONFLICT (role_id, permission_id) DO UPDATE SET is_granted = true;
+
+COMMIT;
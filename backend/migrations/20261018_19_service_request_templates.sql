@@ -0,0 +1,70 @@
+-- Migration: Service request templates
+-- Created: 2026-10-18
+-- Description: Reusable starting points for recurring issue types (new hire
+-- setup, printer offline, ...). A template belongs to a service type and
+-- prefills a new request's title, description, estimated duration and
+-- urgency; its checklist items are the steps the technician works through.
+--
+--   service_request_templates -- name, prefilled fields and checklist_items
+--                                ([{ "text": "...", "required": true }])
+--   service_requests.template_id -- the template a request was opened from
+--
+-- client_visible templates are offered in the client portal's scheduler;
+-- the rest are only offered to employees opening a request for a client.
+--
+-- Permissions:
+--   manage.service_request_templates.enable -- create, edit and delete templates
+--   create.service_requests.enable           -- open a request on behalf of a client
+--
+-- Run with: psql -f 20261018_19_service_request_templates.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS service_request_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_type_id UUID NOT NULL REFERENCES service_types(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  description TEXT,
+  checklist_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  estimated_duration_minutes INTEGER,
+  urgency_level_id UUID REFERENCES urgency_levels(id) ON DELETE SET NULL,
+  client_visible BOOLEAN NOT NULL DEFAULT true,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT check_template_duration CHECK (estimated_duration_minutes IS NULL OR estimated_duration_minutes > 0),
+  CONSTRAINT check_template_checklist CHECK (jsonb_typeof(checklist_items) = 'array')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_service_request_templates_name
+  ON service_request_templates(service_type_id, LOWER(name));
+CREATE INDEX IF NOT EXISTS idx_service_request_templates_active
+  ON service_request_templates(service_type_id, sort_order) WHERE is_active = true;
+
+ALTER TABLE service_requests
+  ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES service_request_templates(id) ON DELETE SET NULL;
+
+INSERT INTO permissions (permission_key, resource_type, action_type, description, is_active)
+VALUES
+  ('manage.service_request_templates.enable', 'service_request_templates', 'manage', 'Create, edit and delete service request templates', true),
+  ('create.service_requests.enable',          'service_requests',          'create', 'Open service requests on behalf of clients',        true)
+ON CONFLICT (permission_key) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id, is_granted)
+SELECT r.id, p.id, true
+  FROM roles r CROSS JOIN permissions p
+ WHERE r.name IN ('executive', 'admin')
+   AND p.permission_key = 'manage.service_request_templates.enable'
+ON CONFLICT (role_id, permission_id) DO UPDATE SET is_granted = true;
+
+INSERT INTO role_permissions (role_id, permission_id, is_granted)
+SELECT r.id, p.id, true
+  FROM roles r CROSS JOIN permissions p
+ WHERE r.name IN ('executive', 'admin', 'manager', 'technician')
+   AND p.permission_key = 'create.service_requests.enable'
+ON CONFLICT (role_id, permission_id) DO UPDATE SET is_granted = true;
+
+COMMIT;
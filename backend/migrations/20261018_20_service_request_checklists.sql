@@ -0,0 +1,39 @@
+-- Migration: Service request checklists
+-- Created: 2026-10-18
+-- Description: Ordered task checklists inside a service request, copied
+-- from the request's template when it is opened or added by hand.
+--
+--   service_request_checklist_items -- one step: text, whether it is
+--                                      required, its position, and who
+--                                      checked it off and when
+--
+-- Only the technician assigned to the request checks items off; the client
+-- sees the checklist read-only. Closing a request with required items still
+-- unchecked needs an override reason, kept on the request
+-- (checklist_override_reason / checklist_overridden_by_employee_id).
+--
+-- Run with: psql -f 20261018_20_service_request_checklists.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS service_request_checklist_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_request_id UUID NOT NULL REFERENCES service_requests(id) ON DELETE CASCADE,
+  item_text VARCHAR(500) NOT NULL,
+  is_required BOOLEAN NOT NULL DEFAULT false,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMPTZ,
+  completed_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_request_checklist_items_request
+  ON service_request_checklist_items(service_request_id, sort_order);
+
+ALTER TABLE service_requests
+  ADD COLUMN IF NOT EXISTS checklist_override_reason TEXT,
+  ADD COLUMN IF NOT EXISTS checklist_overridden_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL;
+
+COMMIT;
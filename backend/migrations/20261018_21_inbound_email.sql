@@ -0,0 +1,54 @@
+-- Migration: Inbound email gateway
+-- Created: 2026-10-18
+-- Description: Log of email received by the email-to-ticket gateway
+-- (POST /api/inbound-email). A message from a known client opens a service
+-- request, or becomes a note on one when its subject carries the request
+-- number.
+--
+--   inbound_emails -- one row per Message-ID: who sent it, what became of
+--                     it (created / threaded / ignored / unverified /
+--                     rejected / failed)
+--                     and the request or note it landed on
+--   inbound_email_attachments -- the file each attachment was stored as,
+--                     by its position in the message
+--
+-- The Message-ID is unique, so a relay redelivering a message is skipped;
+-- only failed messages, or ones left 'received' by a process that died,
+-- are processed again, reusing the request, note and attachments recorded
+-- by the earlier attempt.
+--
+-- Run with: psql -f 20261018_21_inbound_email.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS inbound_emails (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id VARCHAR(998) NOT NULL UNIQUE,
+  from_address VARCHAR(320),
+  subject VARCHAR(998),
+  status VARCHAR(20) NOT NULL DEFAULT 'received'
+    CHECK (status IN ('received', 'created', 'threaded', 'ignored', 'unverified', 'rejected', 'failed')),
+  reason TEXT,
+  service_request_id UUID REFERENCES service_requests(id) ON DELETE SET NULL,
+  note_id UUID REFERENCES service_request_notes(id) ON DELETE SET NULL,
+  attachment_count INTEGER NOT NULL DEFAULT 0,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_inbound_emails_received
+  ON inbound_emails(received_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_inbound_emails_service_request
+  ON inbound_emails(service_request_id)
+  WHERE service_request_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS inbound_email_attachments (
+  inbound_email_id UUID NOT NULL REFERENCES inbound_emails(id) ON DELETE CASCADE,
+  attachment_index INTEGER NOT NULL,
+  client_file_id UUID REFERENCES t_client_files(id) ON DELETE SET NULL,
+  stored_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (inbound_email_id, attachment_index)
+);
+
+COMMIT;
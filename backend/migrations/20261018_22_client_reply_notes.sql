@@ -0,0 +1,32 @@
+-- Migration: Client reply notes
+-- Created: 2026-10-18
+-- Description: Delivery tracking for "reply to client" notes. A note of
+-- type 'client_reply' is emailed to the request's contact with the request
+-- number in the subject, so the client's answer comes back through the
+-- inbound email gateway as a note on the same request.
+--
+--   service_request_notes.email_status     -- pending / sent / failed
+--   service_request_notes.email_to         -- address the reply went to
+--   service_request_notes.email_message_id -- SMTP message id when sent
+--   service_request_notes.email_error      -- why the last attempt failed
+--   service_request_notes.email_sent_at    -- when it was accepted for delivery
+--
+-- Ordinary notes leave all of these NULL.
+--
+-- Run with: psql -f 20261018_22_client_reply_notes.sql
+
+BEGIN;
+
+ALTER TABLE service_request_notes
+  ADD COLUMN IF NOT EXISTS email_status VARCHAR(20)
+    CHECK (email_status IN ('pending', 'sent', 'failed')),
+  ADD COLUMN IF NOT EXISTS email_to VARCHAR(320),
+  ADD COLUMN IF NOT EXISTS email_message_id VARCHAR(998),
+  ADD COLUMN IF NOT EXISTS email_error TEXT,
+  ADD COLUMN IF NOT EXISTS email_sent_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_service_request_notes_email_failed
+  ON service_request_notes(service_request_id)
+  WHERE email_status = 'failed';
+
+COMMIT;
@@ -0,0 +1,47 @@
+-- Migration: Parent/child and linked service requests
+-- Created: 2026-10-18
+-- Description: Relate the tickets of a big job (office move, new site
+-- rollout) to each other.
+--
+--   service_requests.parent_request_id      -- the job a request is part of;
+--                                             one level of nesting or more,
+--                                             never a cycle
+--   service_requests.merged_into_request_id -- set when a duplicate was merged
+--                                             into another request; its notes
+--                                             and files moved there and it was
+--                                             closed
+--   service_request_links                   -- "related to", "duplicate of"
+--                                             and "blocked by" links, read
+--                                             from source_request_id to
+--                                             target_request_id
+--
+-- Parent, children and links always belong to the same business.
+--
+-- Run with: psql -f 20261018_23_service_request_relations.sql
+
+BEGIN;
+
+ALTER TABLE service_requests
+  ADD COLUMN IF NOT EXISTS parent_request_id UUID REFERENCES service_requests(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS merged_into_request_id UUID REFERENCES service_requests(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_service_requests_parent
+  ON service_requests(parent_request_id)
+  WHERE parent_request_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS service_request_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_request_id UUID NOT NULL REFERENCES service_requests(id) ON DELETE CASCADE,
+  target_request_id UUID NOT NULL REFERENCES service_requests(id) ON DELETE CASCADE,
+  link_type VARCHAR(20) NOT NULL
+    CHECK (link_type IN ('related', 'duplicate_of', 'blocked_by')),
+  created_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (source_request_id <> target_request_id),
+  UNIQUE (source_request_id, target_request_id, link_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_request_links_target
+  ON service_request_links(target_request_id);
+
+COMMIT;
@@ -0,0 +1,91 @@
+-- Migration: Projects
+-- Created: 2026-10-18
+-- Description: Projects for larger jobs that span many service requests
+-- (office moves, site rollouts), per business.
+--
+--   projects             -- one job for one business: status, planned
+--                           dates and the hours budgeted for it
+--   project_milestones   -- ordered phases of a project with their own dates
+--                           and budgeted hours; completed_at marks them done
+--   project_technicians  -- the technicians working on the project
+--
+--   service_requests.project_milestone_id -- the milestone a request is
+--                                            part of; its time entries count
+--                                            against the milestone's budget
+--
+-- Clients of the business see their projects read-only in the portal.
+--
+-- Permissions:
+--   view.projects.enable   -- see projects and their budgets
+--   manage.projects.enable -- create and edit projects and milestones and
+--                             attach requests to them
+--
+-- Run with: psql -f 20261018_24_projects.sql
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS projects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  business_id UUID NOT NULL REFERENCES businesses(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'planning'
+    CHECK (status IN ('planning', 'active', 'on_hold', 'completed', 'cancelled')),
+  start_date DATE,
+  target_end_date DATE,
+  budgeted_hours NUMERIC(10,2) CHECK (budgeted_hours IS NULL OR budgeted_hours >= 0),
+  created_by_employee_id UUID REFERENCES employees(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (target_end_date IS NULL OR start_date IS NULL OR target_end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_projects_business
+  ON projects(business_id, status);
+
+CREATE TABLE IF NOT EXISTS project_milestones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  start_date DATE,
+  due_date DATE,
+  budgeted_hours NUMERIC(10,2) CHECK (budgeted_hours IS NULL OR budgeted_hours >= 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (due_date IS NULL OR start_date IS NULL OR due_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_milestones_project
+  ON project_milestones(project_id, sort_order);
+
+CREATE TABLE IF NOT EXISTS project_technicians (
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  employee_id UUID NOT NULL REFERENCES employees(id) ON DELETE CASCADE,
+  added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (project_id, employee_id)
+);
+
+ALTER TABLE service_requests
+  ADD COLUMN IF NOT EXISTS project_milestone_id UUID REFERENCES project_milestones(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_service_requests_project_milestone
+  ON service_requests(project_milestone_id)
+  WHERE project_milestone_id IS NOT NULL;
+
+INSERT INTO permissions (permission_key, resource_type, action_type, description, is_active)
+VALUES
+  ('view.projects.enable', 'projects', 'view', 'View projects, milestones and their budgets', true),
+  ('manage.projects.enable', 'projects', 'manage', 'Create and edit projects and milestones and attach service requests to them', true)
+ON CONFLICT (permission_key) DO NOTHING;
+
+INSERT INTO role_permissions (role_id, permission_id, is_granted)
+SELECT r.id, p.id, true
+  FROM roles r CROSS JOIN permissions p
+ WHERE (r.name IN ('executive', 'admin') AND p.permission_key IN ('view.projects.enable', 'manage.projects.enable'))
+    OR (r.name = 'technician' AND p.permission_key = 'view.projects.enable')
+ON CONFLICT (role_id, permission_id) DO UPDATE SET is_granted = true;
+
+COMMIT;
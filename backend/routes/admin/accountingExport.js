@@ -0,0 +1,141 @@
+/**
+ * Accounting export -- income account mapping and incremental exports of
+ * customers, invoices and payments for QuickBooks and Xero.
+ *
+ * Files are built by services/accountingExportService.js and kept with each
+ * run so they can be downloaded again. Everything needs
+ * export.accounting.enable.
+ */
+import express from 'express';
+import { authMiddleware, requireEmployee } from '../../middleware/authMiddleware.js';
+import { requirePermission } from '../../middleware/permissionMiddleware.js';
+import { query, transaction } from '../../config/database.js';
+import {
+  validateExportRequest,
+  validateAccountMapping,
+  getAccountMapping,
+  saveAccountMapping,
+  countPending,
+  runExport,
+  listExports,
+  getExportFile
+} from '../../services/accountingExportService.js';
+
+const router = express.Router();
+
+router.use(authMiddleware);
+router.use(requireEmployee);
+
+const canExport = requirePermission('export.accounting.enable');
+
+function sendError(res, error, fallback) {
+  if (error.statusCode === 400) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+  if (error.code === '23503') {
+    return res.status(400).json({ success: false, message: 'Service type not found' });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  return res.status(500).json({ success: false, message: fallback });
+}
+
+/**
+ * GET /api/admin/accounting-export/accounts
+ *
+ * The default income account, each service type's accounts and the
+ * receivables, deposit and tax account settings.
+ */
+router.get('/accounts', canExport, async (req, res) => {
+  try {
+    res.json({ success: true, data: await getAccountMapping({ query }) });
+  } catch (error) {
+    sendError(res, error, 'Failed to load income accounts');
+  }
+});
+
+/**
+ * PUT /api/admin/accounting-export/accounts
+ *
+ * Body: { accounts: [{ serviceTypeId, quickbooksAccount?, xeroAccountCode? }],
+ * settings: { arAccount, depositAccount, taxAccount, xeroPaymentAccount } }
+ */
+router.put('/accounts', canExport, async (req, res) => {
+  try {
+    const mapping = validateAccountMapping(req.body);
+    await transaction(client => saveAccountMapping(client, mapping, { employeeId: req.session.userId }));
+    res.json({ success: true, message: 'Income accounts saved', data: await getAccountMapping({ query }) });
+  } catch (error) {
+    sendError(res, error, 'Failed to save income accounts');
+  }
+});
+
+/**
+ * GET /api/admin/accounting-export/pending
+ *
+ * How many customers, invoices and payments QuickBooks and Xero have still
+ * to get.
+ */
+router.get('/pending', canExport, async (req, res) => {
+  try {
+    res.json({ success: true, data: await countPending({ query }) });
+  } catch (error) {
+    sendError(res, error, 'Failed to count pending exports');
+  }
+});
+
+/**
+ * GET /api/admin/accounting-export/exports
+ *
+ * Past export runs, newest first.
+ */
+router.get('/exports', canExport, async (req, res) => {
+  try {
+    res.json({ success: true, data: await listExports({ query }) });
+  } catch (error) {
+    sendError(res, error, 'Failed to load exports');
+  }
+});
+
+/**
+ * POST /api/admin/accounting-export/exports
+ *
+ * Body: { format: quickbooks_iif | quickbooks_csv | xero_csv,
+ * entityType: customers | invoices | payments }. Exports whatever has not
+ * gone out to that accounting system yet; download the file from
+ * /exports/:id/download.
+ */
+router.post('/exports', canExport, async (req, res) => {
+  try {
+    const request = validateExportRequest(req.body);
+    const run = await transaction(async client => {
+      const today = (await client.query(`SELECT CURRENT_DATE::text AS today`)).rows[0].today;
+      return runExport(client, request, { employeeId: req.session.userId, today });
+    });
+    res.status(201).json({
+      success: true,
+      message: `Exported ${run.itemCount} ${run.entityType}`,
+      data: run
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to export');
+  }
+});
+
+/**
+ * GET /api/admin/accounting-export/exports/:id/download
+ */
+router.get('/exports/:id/download', canExport, async (req, res) => {
+  try {
+    const file = await getExportFile({ query }, req.params.id);
+    if (!file) {
+      return res.status(404).json({ success: false, message: 'Export not found' });
+    }
+    res.setHeader('Content-Type', file.format === 'quickbooks_iif' ? 'text/plain; charset=utf-8' : 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.content);
+  } catch (error) {
+    sendError(res, error, 'Failed to download export');
+  }
+});
+
+export default router;
@@ -0,0 +1,33 @@
+// Source-lint regression tests for routes/admin/accountingExport.js -- same
+// pattern as routes/admin/recurringBilling.test.js. Pins auth + RBAC gating
+// for the income account mapping and exports.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const SRC = readFileSync(join(here, 'accountingExport.js'), 'utf8');
+
+test('module requires authMiddleware + requireEmployee', () => {
+  assert.match(SRC, /router\.use\(authMiddleware\)/);
+  assert.match(SRC, /router\.use\(requireEmployee\)/);
+});
+
+test('every route is gated by export.accounting', () => {
+  assert.match(SRC, /const canExport = requirePermission\('export\.accounting\.enable'\)/);
+  const routes = SRC.match(/router\.(get|post|put|delete)\([^,]+,[^,]+,/g) || [];
+  assert.equal(routes.length, 6);
+  for (const route of routes) {
+    assert.ok(route.includes('canExport'), `${route} should use canExport`);
+  }
+});
+
+test('mapping and export input is validated, and both write in a transaction', () => {
+  assert.match(SRC, /validateAccountMapping\(req\.body\)/);
+  assert.match(SRC, /validateExportRequest\(req\.body\)/);
+  assert.match(SRC, /transaction\(client => saveAccountMapping\(client,/);
+  assert.match(SRC, /runExport\(client,/);
+});
@@ -2,6 +2,15 @@ import express from 'express';
 import { query } from '../../config/database.js';
 import { requirePermission } from '../../middleware/permissionMiddleware.js';
 import { websocketService } from '../../services/websocketService.js';
+import { buildExecutiveSummary, renderExecutiveSummaryPdf } from '../../services/executiveSummaryService.js';
+import { BILLING_MODES } from '../../services/consolidatedBillingService.js';
+import {
+  addPrepaidBlock,
+  deletePrepaidBlock,
+  getPrepaidBalance,
+  listPrepaidUsage,
+  validateLowBalanceHours
+} from '../../services/prepaidHoursService.js';
 
 const router = express.Router();
 
@@ -80,6 +89,8 @@ router.get('/businesses', async (req, res) => {
         b.logo_background_color,
         b.is_active,
         b.rate_category_id,
+        b.billing_mode,
+        b.prepaid_low_balance_hours,
         COALESCE(b.soft_delete, false) as soft_delete,
         COALESCE(b.is_individual, false) as is_individual,
         b.created_at,
@@ -127,6 +138,8 @@ router.get('/businesses', async (req, res) => {
           rateCategoryId: business.rate_category_id,
           rateCategoryName: business.rate_category_name,
           baseHourlyRate: business.base_hourly_rate ? parseFloat(business.base_hourly_rate) : null,
+          billingMode: business.billing_mode,
+          prepaidLowBalanceHours: parseFloat(business.prepaid_low_balance_hours),
           address: {
             street: business.street,
             street2: business.street_address_2,
@@ -160,7 +173,7 @@ router.get('/businesses', async (req, res) => {
 router.put('/businesses/:businessId', requirePermission('modify.businesses.enable'), async (req, res) => {
   try {
     const { businessId } = req.params;
-    const { businessName, address, isActive, logo, logoPositionX, logoPositionY, logoScale, logoBackgroundColor, rateCategoryId } = req.body;
+    const { businessName, address, isActive, logo, logoPositionX, logoPositionY, logoScale, logoBackgroundColor, rateCategoryId, billingMode, prepaidLowBalanceHours } = req.body;
 
     // Validate required fields
     if (!businessName) {
@@ -170,6 +183,22 @@ router.put('/businesses/:businessId', requirePermission('modify.businesses.enabl
       });
     }
 
+    if (billingMode !== undefined && !BILLING_MODES.includes(billingMode)) {
+      return res.status(400).json({
+        success: false,
+        message: `Billing mode must be one of: ${BILLING_MODES.join(', ')}`
+      });
+    }
+
+    let lowBalanceHours = null;
+    if (prepaidLowBalanceHours !== undefined) {
+      try {
+        lowBalanceHours = validateLowBalanceHours(prepaidLowBalanceHours);
+      } catch (error) {
+        return res.status(400).json({ success: false, message: error.message });
+      }
+    }
+
     // Begin transaction
     await query('BEGIN');
 
@@ -186,9 +215,11 @@ router.put('/businesses/:businessId', requirePermission('modify.businesses.enabl
           logo_scale = $6,
           logo_background_color = $7,
           rate_category_id = $8,
+          billing_mode = COALESCE($10, billing_mode),
+          prepaid_low_balance_hours = COALESCE($11, prepaid_low_balance_hours),
           updated_at = CURRENT_TIMESTAMP
         WHERE id = $9
-        RETURNING id, business_name, is_active, logo_url, logo_position_x, logo_position_y, logo_scale, logo_background_color, rate_category_id, created_at, updated_at
+        RETURNING id, business_name, is_active, logo_url, logo_position_x, logo_position_y, logo_scale, logo_background_color, rate_category_id, billing_mode, prepaid_low_balance_hours, created_at, updated_at
       `, [
         businessName,
         isActive,
@@ -198,7 +229,9 @@ router.put('/businesses/:businessId', requirePermission('modify.businesses.enabl
         Math.round(logoScale || 100),
         logoBackgroundColor || null,
         rateCategoryId || null,
-        businessId
+        businessId,
+        billingMode || null,
+        lowBalanceHours
       ]);
 
       if (businessResult.rows.length === 0) {
@@ -309,6 +342,8 @@ router.put('/businesses/:businessId', requirePermission('modify.businesses.enabl
             logoPositionY: updatedBusiness.logo_position_y,
             logoScale: updatedBusiness.logo_scale,
             logoBackgroundColor: updatedBusiness.logo_background_color,
+            billingMode: updatedBusiness.billing_mode,
+            prepaidLowBalanceHours: parseFloat(updatedBusiness.prepaid_low_balance_hours),
             createdAt: updatedBusiness.created_at,
             updatedAt: updatedBusiness.updated_at
           }
@@ -485,6 +520,109 @@ router.post('/businesses', requirePermission('add.businesses.enable'), async (re
   }
 });
 
+// GET /businesses/:businessId/executive-summary?month=YYYY-MM - Monthly executive summary (same data the client sees)
+router.get('/businesses/:businessId/executive-summary', requirePermission('view.client_analytics.enable'), async (req, res) => {
+  try {
+    const summary = await buildExecutiveSummary(req.params.businessId, req.query.month);
+    if (!summary) {
+      return res.status(404).json({ success: false, message: 'Business not found' });
+    }
+    res.status(200).json({ success: true, data: summary });
+  } catch (error) {
+    if (error.statusCode === 400) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('Error building executive summary:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to build executive summary',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// GET /businesses/:businessId/executive-summary/pdf?month=YYYY-MM - Executive summary as a PDF download
+router.get('/businesses/:businessId/executive-summary/pdf', requirePermission('view.client_analytics.enable'), async (req, res) => {
+  try {
+    const summary = await buildExecutiveSummary(req.params.businessId, req.query.month);
+    if (!summary) {
+      return res.status(404).json({ success: false, message: 'Business not found' });
+    }
+    const pdf = await renderExecutiveSummaryPdf(summary);
+    const slug = summary.business.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${slug}-executive-summary-${summary.period.month}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    if (error.statusCode === 400) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('Error rendering executive summary PDF:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to render executive summary',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// GET /businesses/:businessId/prepaid-hours - Prepaid hour blocks, balance and recent drawdowns
+router.get('/businesses/:businessId/prepaid-hours', async (req, res) => {
+  try {
+    const balance = await getPrepaidBalance({ query }, req.params.businessId);
+    if (!balance) {
+      return res.status(404).json({ success: false, message: 'Business not found' });
+    }
+    const usage = await listPrepaidUsage({ query }, req.params.businessId);
+    res.status(200).json({ success: true, data: { ...balance, usage } });
+  } catch (error) {
+    console.error('Error fetching prepaid hours:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch prepaid hours',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// POST /businesses/:businessId/prepaid-hours - Add a block of prepaid hours
+router.post('/businesses/:businessId/prepaid-hours', requirePermission('modify.businesses.enable'), async (req, res) => {
+  try {
+    const block = await addPrepaidBlock({ query }, req.params.businessId, req.body, {
+      employeeId: req.user?.id || null
+    });
+    res.status(201).json({ success: true, message: 'Prepaid hours added', data: block });
+  } catch (error) {
+    if (error.statusCode === 400 || error.statusCode === 404) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error('Error adding prepaid hours:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to add prepaid hours',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// DELETE /businesses/:businessId/prepaid-hours/:blockId - Remove a block that has not been drawn down
+router.delete('/businesses/:businessId/prepaid-hours/:blockId', requirePermission('modify.businesses.enable'), async (req, res) => {
+  try {
+    await deletePrepaidBlock({ query }, req.params.businessId, req.params.blockId);
+    res.status(200).json({ success: true, message: 'Prepaid block removed' });
+  } catch (error) {
+    if (error.statusCode === 400 || error.statusCode === 404) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error('Error removing prepaid block:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to remove prepaid block',
+      error: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
 // GET /businesses/:businessId/authorized-domains - Get authorized domains for a business
 router.get('/businesses/:businessId/authorized-domains', async (req, res) => {
   try {
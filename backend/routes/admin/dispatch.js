@@ -0,0 +1,100 @@
+/**
+ * Dispatch board -- technicians' bookings over a day or week and the queue
+ * of unassigned requests. A drop assigns and schedules a request in one
+ * action (see services/dispatchService.js).
+ *
+ * Reading needs view.service_requests.enable; dispatching needs
+ * assign.service_requests.enable. Every change is broadcast as a service
+ * request update so open boards, calendars and request lists refresh.
+ */
+import express from 'express';
+import { authMiddleware, requireEmployee } from '../../middleware/authMiddleware.js';
+import { requirePermission } from '../../middleware/permissionMiddleware.js';
+import { query, transaction } from '../../config/database.js';
+import { websocketService } from '../../services/websocketService.js';
+import {
+  validateBoardRange,
+  validateDispatchInput,
+  getDispatchBoard,
+  dispatchRequest,
+  returnToQueue
+} from '../../services/dispatchService.js';
+
+const router = express.Router();
+
+router.use(authMiddleware);
+router.use(requireEmployee);
+
+const canView = requirePermission('view.service_requests.enable');
+const canAssign = requirePermission('assign.service_requests.enable');
+
+function sendError(res, error, fallback) {
+  if (error.statusCode === 400 || error.statusCode === 404 || error.statusCode === 409) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  return res.status(500).json({ success: false, message: fallback });
+}
+
+/**
+ * GET /api/admin/dispatch/board
+ *
+ * Query: from, to -- ISO timestamps, at most 14 days apart
+ */
+router.get('/board', canView, async (req, res) => {
+  try {
+    const range = validateBoardRange(req.query);
+    res.json({ success: true, data: await getDispatchBoard({ query }, range) });
+  } catch (error) {
+    sendError(res, error, 'Failed to load dispatch board');
+  }
+});
+
+/**
+ * PUT /api/admin/dispatch/requests/:id
+ *
+ * Assign and schedule. Body: { technicianId, scheduledDatetime, durationMinutes? }
+ */
+router.put('/requests/:id', canAssign, async (req, res) => {
+  try {
+    const input = validateDispatchInput(req.body);
+    const result = await transaction(client => dispatchRequest(client, req.params.id, input, req.user.id));
+
+    websocketService.broadcastServiceRequestUpdate(req.params.id, 'updated', {
+      action: 'dispatched',
+      assignedTechnicianId: result.technician.id,
+      previousTechnicianId: result.previousTechnicianId,
+      scheduledDatetime: result.request.scheduled_datetime
+    });
+
+    res.json({
+      success: true,
+      message: `${result.request.request_number} scheduled for ${result.technician.name}`,
+      data: result.request
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to dispatch service request');
+  }
+});
+
+/**
+ * DELETE /api/admin/dispatch/requests/:id
+ *
+ * Back to the queue: unassigned and unscheduled.
+ */
+router.delete('/requests/:id', canAssign, async (req, res) => {
+  try {
+    const result = await transaction(client => returnToQueue(client, req.params.id, req.user.id));
+
+    websocketService.broadcastServiceRequestUpdate(req.params.id, 'updated', {
+      action: 'unassigned',
+      previousTechnicianId: result.previousTechnicianId
+    });
+
+    res.json({ success: true, message: `${result.requestNumber} returned to the queue`, data: null });
+  } catch (error) {
+    sendError(res, error, 'Failed to return service request to the queue');
+  }
+});
+
+export default router;
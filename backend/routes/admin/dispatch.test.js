@@ -0,0 +1,32 @@
+// Source-lint regression tests for routes/admin/dispatch.js -- same pattern as
+// routes/admin/quotes.test.js. Pins auth + RBAC gating for the dispatch board.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const SRC = readFileSync(join(here, 'dispatch.js'), 'utf8');
+
+test('module requires authMiddleware + requireEmployee', () => {
+  assert.match(SRC, /router\.use\(authMiddleware\)/);
+  assert.match(SRC, /router\.use\(requireEmployee\)/);
+});
+
+test('reading needs view.service_requests, dispatching needs assign.service_requests', () => {
+  assert.match(SRC, /const canView = requirePermission\('view\.service_requests\.enable'\)/);
+  assert.match(SRC, /const canAssign = requirePermission\('assign\.service_requests\.enable'\)/);
+  const routes = SRC.match(/router\.(get|post|put|delete)\([^,]+,[^,]+,/g) || [];
+  assert.equal(routes.length, 3);
+  for (const route of routes) {
+    const gate = route.startsWith('router.get') ? 'canView' : 'canAssign';
+    assert.ok(route.includes(gate), `${route} should use ${gate}`);
+  }
+});
+
+test('every change runs in a transaction and is broadcast', () => {
+  assert.equal((SRC.match(/await transaction\(/g) || []).length, 2);
+  assert.equal((SRC.match(/websocketService\.broadcastServiceRequestUpdate\(/g) || []).length, 2);
+});
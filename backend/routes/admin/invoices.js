@@ -1,9 +1,135 @@
 import express from 'express';
 import { getPool } from '../../config/database.js';
 import { websocketService } from '../../services/websocketService.js';
+import { requirePermission } from '../../middleware/permissionMiddleware.js';
+import {
+  validateInvoiceInput,
+  assertVoidable,
+  validateCredit,
+  computeCreditNoteTotals,
+  assertLineItemReferences,
+  insertInvoiceLineItems,
+  nextInvoiceNumber,
+  recordInvoiceHistory
+} from '../../services/invoiceService.js';
+import {
+  listPendingConsolidation,
+  consolidateBusiness,
+  refreshConsolidatedHours
+} from '../../services/consolidatedBillingService.js';
+import {
+  loadInvoiceDocument,
+  renderInvoicePdf,
+  invoicePdfFilename,
+  emailInvoice
+} from '../../services/invoicePdfService.js';
+import { setRemindersPaused } from '../../services/invoiceDunningService.js';
+import {
+  validatePaymentInput,
+  recordPayment,
+  refundPayment,
+  applyCredit,
+  getInvoiceLedger,
+  getCreditBalance
+} from '../../services/invoicePaymentService.js';
+import { computeInvoiceTax, computeTaxBreakdown, resolveInvoiceTax } from '../../services/taxService.js';
+import {
+  validateAsOf,
+  validateRevenueRange,
+  validateRevenueDimension,
+  validateRevenueDrillDown,
+  getAgingReport,
+  getRevenueReport,
+  getRevenueInvoices,
+  renderAgingCsv,
+  renderRevenueCsv
+} from '../../services/receivablesReportService.js';
 
 const router = express.Router();
 
+/**
+ * company_settings as a key/value object
+ */
+async function getCompanySettings(db) {
+  const result = await db.query(`SELECT setting_key, setting_value FROM company_settings`);
+  const settings = {};
+  result.rows.forEach(row => {
+    settings[row.setting_key] = row.setting_value;
+  });
+  return settings;
+}
+
+/**
+ * YYYY-MM-DD `days` after `from`
+ */
+function addDays(from, days) {
+  const date = new Date(from);
+  date.setDate(date.getDate() + days);
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Today in the database's time zone, which due dates are compared in
+ */
+async function getToday(db) {
+  const result = await db.query(`SELECT CURRENT_DATE::text AS today`);
+  return result.rows[0].today;
+}
+
+/**
+ * Tell the business's client and the admins that an invoice changed.
+ */
+async function notifyInvoiceChange(pool, invoice, type) {
+  const clientQuery = await pool.query(`
+    SELECT u.id as client_id
+    FROM users u
+    WHERE u.business_id = $1
+    LIMIT 1
+  `, [invoice.business_id]);
+
+  // Drafts are not visible to the client
+  if (clientQuery.rows.length > 0 && invoice.invoice_status !== 'draft') {
+    websocketService.notifyClientOfInvoiceUpdate(clientQuery.rows[0].client_id, {
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      totalAmount: invoice.total_amount,
+      paymentStatus: invoice.payment_status,
+      type
+    });
+  }
+
+  websocketService.broadcastInvoiceUpdateToAdmins({
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoice_number,
+    totalAmount: invoice.total_amount,
+    paymentStatus: invoice.payment_status,
+    type
+  });
+
+  websocketService.broadcastEntityUpdate('invoice', invoice.id, 'updated', {
+    invoiceNumber: invoice.invoice_number,
+    invoiceStatus: invoice.invoice_status
+  });
+}
+
+function sendInvoiceError(res, error, fallbackMessage) {
+  if (error.statusCode === 400 || error.statusCode === 404) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  if (error.code === '23503') {
+    const message = error.constraint?.includes('service_request') ? 'Service request not found'
+      : error.constraint?.includes('time_entry') ? 'Time entry not found'
+      : 'Business not found';
+    return res.status(400).json({ success: false, message });
+  }
+  console.error(`❌ ${fallbackMessage}:`, error);
+  res.status(500).json({
+    success: false,
+    message: fallbackMessage,
+    error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+  });
+}
+
 /**
  * GET /api/admin/invoices/:id
  * Get invoice by ID with full details
@@ -35,7 +161,7 @@ router.get('/invoices/:id', async (req, res) => {
         sr.closed_at as service_completed_at
       FROM invoices i
       JOIN businesses b ON i.business_id = b.id
-      JOIN service_requests sr ON i.service_request_id = sr.id
+      LEFT JOIN service_requests sr ON i.service_request_id = sr.id
       LEFT JOIN service_locations sl ON sr.service_location_id = sl.id
       WHERE i.id = $1
     `;
@@ -57,20 +183,54 @@ router.get('/invoices/:id', async (req, res) => {
     const actualHoursBreakdown = invoiceData.actual_hours_breakdown || null;
 
     // Get company settings for invoice header
-    const settingsQuery = `SELECT setting_key, setting_value FROM company_settings`;
-    const settingsResult = await pool.query(settingsQuery);
-    const companyInfo = {};
-    settingsResult.rows.forEach(row => {
-      companyInfo[row.setting_key] = row.setting_value;
-    });
+    const companyInfo = await getCompanySettings(pool);
+
+    const [lineItemsResult, historyResult, creditsResult, creditForResult, payments, creditBalance] = await Promise.all([
+      pool.query(`
+        SELECT li.id, li.description, li.item_type, li.quantity, li.unit_price, li.amount, li.taxable,
+               li.service_request_id, li.time_entry_id, li.product_ref, li.sort_order,
+               sr.request_number
+        FROM invoice_line_items li
+        LEFT JOIN service_requests sr ON li.service_request_id = sr.id
+        WHERE li.invoice_id = $1
+        ORDER BY li.sort_order
+      `, [id]),
+      pool.query(`
+        SELECT h.id, h.action, h.reason, h.details, h.created_at,
+               CONCAT(e.first_name, ' ', e.last_name) as performed_by_name
+        FROM invoice_history h
+        LEFT JOIN employees e ON h.performed_by_employee_id = e.id
+        WHERE h.invoice_id = $1
+        ORDER BY h.created_at DESC
+      `, [id]),
+      pool.query(`
+        SELECT id, invoice_number, total_amount, credit_reason, issue_date
+        FROM invoices
+        WHERE credit_for_invoice_id = $1
+        ORDER BY issue_date
+      `, [id]),
+      invoiceData.credit_for_invoice_id
+        ? pool.query(`SELECT id, invoice_number FROM invoices WHERE id = $1`, [invoiceData.credit_for_invoice_id])
+        : Promise.resolve({ rows: [] }),
+      getInvoiceLedger(pool, id),
+      getCreditBalance(pool, invoiceData.business_id)
+    ]);
 
     res.json({
       success: true,
       data: {
-        invoice: invoiceData,
+        invoice: {
+          ...invoiceData,
+          credit_for_invoice_number: creditForResult.rows[0]?.invoice_number || null
+        },
         companyInfo,
         costEstimate,
-        actualHoursBreakdown
+        actualHoursBreakdown,
+        lineItems: lineItemsResult.rows,
+        history: historyResult.rows,
+        creditNotes: creditsResult.rows,
+        payments,
+        creditBalance
       }
     });
 
@@ -84,6 +244,77 @@ router.get('/invoices/:id', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/admin/invoices/:id/pdf
+ * The branded PDF of an invoice (drafts are marked as such)
+ */
+router.get('/invoices/:id/pdf', requirePermission('export.invoices.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+    const document = await loadInvoiceDocument(pool, req.params.id);
+    if (!document) {
+      return res.status(404).json({ success: false, message: 'Invoice not found' });
+    }
+
+    const pdf = await renderInvoicePdf(document);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoicePdfFilename(document.invoice)}"`);
+    res.send(pdf);
+  } catch (error) {
+    sendInvoiceError(res, error, 'Failed to render invoice PDF');
+  }
+});
+
+/**
+ * POST /api/admin/invoices/:id/email
+ * Email the PDF to the business's contact (or `to`), with an optional
+ * message, and record the send in the invoice history
+ */
+router.post('/invoices/:id/email', requirePermission('send.invoices.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+    const sent = await emailInvoice(pool, req.params.id, req.body, { employeeId: req.session.userId });
+    if (!sent) {
+      return res.status(404).json({ success: false, message: 'Invoice not found' });
+    }
+
+    websocketService.broadcastEntityUpdate('invoice', req.params.id, 'updated', { emailedTo: sent.to });
+
+    res.json({ success: true, message: `Invoice emailed to ${sent.to}`, data: sent });
+  } catch (error) {
+    sendInvoiceError(res, error, 'Failed to email invoice');
+  }
+});
+
+/**
+ * PATCH /api/admin/invoices/:id/reminders
+ * Pause ({ paused: true, reason? }) or resume automatic payment reminders
+ */
+router.patch('/invoices/:id/reminders', requirePermission('send.invoices.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+    const invoice = await setRemindersPaused(pool, req.params.id, req.body.paused, {
+      reason: req.body.reason,
+      employeeId: req.session.userId
+    });
+    if (!invoice) {
+      return res.status(404).json({ success: false, message: 'Invoice not found' });
+    }
+
+    websocketService.broadcastEntityUpdate('invoice', invoice.id, 'updated', {
+      remindersPaused: Boolean(invoice.dunning_paused_at)
+    });
+
+    res.json({
+      success: true,
+      message: invoice.dunning_paused_at ? 'Payment reminders paused' : 'Payment reminders resumed',
+      data: invoice
+    });
+  } catch (error) {
+    sendInvoiceError(res, error, 'Failed to update payment reminders');
+  }
+});
+
 /**
  * GET /api/admin/invoices
  * List invoices with filtering and pagination
@@ -99,6 +330,8 @@ router.get('/invoices', async (req, res) => {
       dueDateTo,
       paymentDateFrom,
       paymentDateTo,
+      invoiceStatus,
+      invoiceType,
       sortBy = 'issue_date',
       sortOrder = 'DESC'
     } = req.query;
@@ -147,6 +380,18 @@ router.get('/invoices', async (req, res) => {
       paramIndex++;
     }
 
+    if (invoiceStatus && invoiceStatus !== 'all') {
+      conditions.push(`i.invoice_status = $${paramIndex}`);
+      params.push(invoiceStatus);
+      paramIndex++;
+    }
+
+    if (invoiceType && invoiceType !== 'all') {
+      conditions.push(`i.invoice_type = $${paramIndex}`);
+      params.push(invoiceType);
+      paramIndex++;
+    }
+
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
     // Main query
@@ -159,13 +404,18 @@ router.get('/invoices', async (req, res) => {
         i.payment_date,
         i.payment_status,
         i.total_amount,
+        i.amount_paid,
+        i.currency,
         i.is_first_service_request,
+        i.invoice_status,
+        i.invoice_type,
+        i.work_description,
         b.business_name,
         sr.request_number,
         sr.title as service_title
       FROM invoices i
       JOIN businesses b ON i.business_id = b.id
-      JOIN service_requests sr ON i.service_request_id = sr.id
+      LEFT JOIN service_requests sr ON i.service_request_id = sr.id
       ${whereClause}
       ORDER BY i.${sortBy} ${sortOrder}
       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
@@ -227,6 +477,26 @@ router.patch('/invoices/:id/payment-status', async (req, res) => {
       });
     }
 
+    const currentResult = await pool.query(
+      `SELECT payment_status, invoice_status, invoice_type FROM invoices WHERE id = $1`,
+      [id]
+    );
+
+    if (currentResult.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Invoice not found'
+      });
+    }
+
+    const current = currentResult.rows[0];
+    if (current.invoice_status !== 'issued' || current.invoice_type === 'credit_note') {
+      return res.status(400).json({
+        success: false,
+        message: `Payment status cannot be changed on a ${current.invoice_type === 'credit_note' ? 'credit note' : `${current.invoice_status} invoice`}`
+      });
+    }
+
     const updates = ['payment_status = $1'];
     const params = [paymentStatus];
     let paramIndex = 2;
@@ -263,6 +533,14 @@ router.patch('/invoices/:id/payment-status', async (req, res) => {
 
     const updatedInvoice = result.rows[0];
 
+    await recordInvoiceHistory(pool, {
+      invoiceId: id,
+      action: 'payment_status_changed',
+      reason: notes || null,
+      details: { from: current.payment_status, to: paymentStatus, paymentDate: paymentDate || null },
+      employeeId: req.session.userId
+    });
+
     // Get business ID and client ID to notify the correct client
     const businessQuery = await pool.query(`
       SELECT i.business_id, u.id as client_id
@@ -316,4 +594,614 @@ router.patch('/invoices/:id/payment-status', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/admin/invoices
+ * Create a manual invoice from line items. Saved as a draft unless
+ * `issue: true` is passed.
+ */
+router.post('/invoices', requirePermission('create.invoices.enable'), async (req, res) => {
+  const pool = await getPool();
+  const client = await pool.connect();
+
+  try {
+    const input = validateInvoiceInput(req.body);
+    const issue = req.body.issue === true;
+    const employeeId = req.session.userId;
+
+    await client.query('BEGIN');
+
+    await assertLineItemReferences(client, input.businessId, input.lineItems);
+
+    const settings = await getCompanySettings(client);
+    const tax = await resolveInvoiceTax(client, input.businessId, { taxRate: input.taxRate });
+    const totals = computeInvoiceTax(input.lineItems, tax);
+    const now = new Date();
+    const dueDate = input.dueDate || addDays(now, parseInt(settings.invoice_due_days) || 30);
+    const invoiceNumber = await nextInvoiceNumber(client, issue ? 'INV' : 'DRAFT', now);
+
+    const result = await client.query(`
+      INSERT INTO invoices (
+        business_id, invoice_number, invoice_type, invoice_status,
+        subtotal, tax_rate, tax_amount, total_amount, currency, tax_breakdown,
+        issue_date, due_date, payment_status, work_description, notes,
+        created_by_employee_id
+      ) VALUES ($1, $2, 'manual', $3, $4, $5, $6, $7, $8, $9, $10, $11, 'due', $12, $13, $14)
+      RETURNING *
+    `, [
+      input.businessId,
+      invoiceNumber,
+      issue ? 'issued' : 'draft',
+      totals.subtotal,
+      tax.taxRate,
+      totals.taxAmount,
+      totals.totalAmount,
+      tax.currency,
+      JSON.stringify(totals.taxBreakdown),
+      now,
+      dueDate,
+      input.workDescription,
+      input.notes,
+      employeeId
+    ]);
+    const invoice = result.rows[0];
+
+    await insertInvoiceLineItems(client, invoice.id, totals.lineItems);
+    await recordInvoiceHistory(client, {
+      invoiceId: invoice.id,
+      action: 'created',
+      details: { invoiceStatus: invoice.invoice_status, totalAmount: totals.totalAmount, lineItemCount: totals.lineItems.length },
+      employeeId
+    });
+    if (issue) {
+      await recordInvoiceHistory(client, { invoiceId: invoice.id, action: 'issued', employeeId });
+    }
+
+    await client.query('COMMIT');
+
+    await notifyInvoiceChange(pool, invoice, 'new_invoice');
+
+    res.status(201).json({
+      success: true,
+      message: issue ? 'Invoice issued' : 'Draft invoice saved',
+      data: invoice
+    });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    sendInvoiceError(res, error, 'Failed to create invoice');
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * PUT /api/admin/invoices/:id
+ * Replace the details and line items of a draft invoice
+ */
+router.put('/invoices/:id', requirePermission('modify.invoices.enable'), async (req, res) => {
+  const { id } = req.params;
+  const pool = await getPool();
+  const client = await pool.connect();
+
+  try {
+    const input = validateInvoiceInput(req.body);
+    const employeeId = req.session.userId;
+
+    await client.query('BEGIN');
+
+    const existing = await client.query(`SELECT * FROM invoices WHERE id = $1 FOR UPDATE`, [id]);
+    if (existing.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, message: 'Invoice not found' });
+    }
+    if (existing.rows[0].invoice_status !== 'draft') {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ success: false, message: 'Only draft invoices can be edited' });
+    }
+
+    await assertLineItemReferences(client, input.businessId, input.lineItems);
+
+    const tax = await resolveInvoiceTax(client, input.businessId, { taxRate: input.taxRate });
+    const totals = computeInvoiceTax(input.lineItems, tax);
+    const dueDate = input.dueDate || existing.rows[0].due_date;
+
+    const result = await client.query(`
+      UPDATE invoices
+      SET business_id = $1, subtotal = $2, tax_rate = $3, tax_amount = $4, total_amount = $5,
+          due_date = $6, work_description = $7, notes = $8,
+          currency = $10, tax_breakdown = $11, updated_at = NOW()
+      WHERE id = $9
+      RETURNING *
+    `, [
+      input.businessId,
+      totals.subtotal,
+      tax.taxRate,
+      totals.taxAmount,
+      totals.totalAmount,
+      dueDate,
+      input.workDescription,
+      input.notes,
+      id,
+      tax.currency,
+      JSON.stringify(totals.taxBreakdown)
+    ]);
+
+    await client.query(`DELETE FROM invoice_line_items WHERE invoice_id = $1`, [id]);
+    await insertInvoiceLineItems(client, id, totals.lineItems);
+
+    // Requests whose line was dropped from a consolidated draft go back to
+    // waiting for the next one
+    await client.query(`
+      UPDATE service_requests
+      SET consolidated_invoice_id = NULL
+      WHERE consolidated_invoice_id = $1
+        AND id NOT IN (
+          SELECT service_request_id FROM invoice_line_items
+          WHERE invoice_id = $1 AND service_request_id IS NOT NULL
+        )
+    `, [id]);
+    if (existing.rows[0].invoice_type === 'consolidated') {
+      await refreshConsolidatedHours(client, id);
+    }
+    await recordInvoiceHistory(client, {
+      invoiceId: id,
+      action: 'updated',
+      details: {
+        previousTotal: Number(existing.rows[0].total_amount),
+        totalAmount: totals.totalAmount,
+        lineItemCount: totals.lineItems.length
+      },
+      employeeId
+    });
+
+    await client.query('COMMIT');
+
+    await notifyInvoiceChange(pool, result.rows[0], 'draft_updated');
+
+    res.json({ success: true, message: 'Draft invoice updated', data: result.rows[0] });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    sendInvoiceError(res, error, 'Failed to update invoice');
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * DELETE /api/admin/invoices/:id
+ * Discard a draft. Issued invoices are voided or credited instead.
+ */
+router.delete('/invoices/:id', requirePermission('modify.invoices.enable'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const pool = await getPool();
+
+    const result = await pool.query(`
+      DELETE FROM invoices
+      WHERE id = $1 AND invoice_status = 'draft'
+      RETURNING id, invoice_number, business_id, invoice_status, total_amount, payment_status
+    `, [id]);
+
+    if (result.rows.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invoice not found or not a draft'
+      });
+    }
+
+    websocketService.broadcastEntityUpdate('invoice', id, 'deleted', {
+      invoiceNumber: result.rows[0].invoice_number
+    });
+
+    res.json({ success: true, message: 'Draft invoice deleted' });
+  } catch (error) {
+    sendInvoiceError(res, error, 'Failed to delete invoice');
+  }
+});
+
+/**
+ * POST /api/admin/invoices/:id/issue
+ * Issue a draft: assign its INV number and lock it
+ */
+router.post('/invoices/:id/issue', requirePermission('create.invoices.enable'), async (req, res) => {
+  const { id } = req.params;
+  const pool = await getPool();
+  const client = await pool.connect();
+
+  try {
+    const employeeId = req.session.userId;
+
+    await client.query('BEGIN');
+
+    const existing = await client.query(`SELECT * FROM invoices WHERE id = $1 FOR UPDATE`, [id]);
+    if (existing.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, message: 'Invoice not found' });
+    }
+    const draft = existing.rows[0];
+    if (draft.invoice_status !== 'draft') {
+      await client.query('ROLLBACK');
+      return res.status(400).json({ success: false, message: 'Invoice has already been issued' });
+    }
+
+    // A draft that sat past its due date gets the standard terms from today
+    const now = new Date();
+    let dueDate = draft.due_date;
+    if (new Date(dueDate) < now) {
+      const settings = await getCompanySettings(client);
+      dueDate = addDays(now, parseInt(settings.invoice_due_days) || 30);
+    }
+
+    const invoiceNumber = await nextInvoiceNumber(client, 'INV', now);
+    const result = await client.query(`
+      UPDATE invoices
+      SET invoice_status = 'issued', invoice_number = $1, issue_date = $2, due_date = $3, updated_at = NOW()
+      WHERE id = $4
+      RETURNING *
+    `, [invoiceNumber, now, dueDate, id]);
+
+    await recordInvoiceHistory(client, {
+      invoiceId: id,
+      action: 'issued',
+      details: { draftNumber: draft.invoice_number, invoiceNumber },
+      employeeId
+    });
+
+    await client.query('COMMIT');
+
+    await notifyInvoiceChange(pool, result.rows[0], 'new_invoice');
+
+    res.json({ success: true, message: `Invoice ${invoiceNumber} issued`, data: result.rows[0] });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    sendInvoiceError(res, error, 'Failed to issue invoice');
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * POST /api/admin/invoices/:id/void
+ * Void an unpaid issued invoice with a reason
+ */
+router.post('/invoices/:id/void', requirePermission('void.invoices.enable'), async (req, res) => {
+  const { id } = req.params;
+  const pool = await getPool();
+  const client = await pool.connect();
+
+  try {
+    const { reason } = req.body;
+    const employeeId = req.session.userId;
+
+    await client.query('BEGIN');
+
+    const existing = await client.query(`SELECT * FROM invoices WHERE id = $1 FOR UPDATE`, [id]);
+    if (existing.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, message: 'Invoice not found' });
+    }
+    assertVoidable(existing.rows[0], reason);
+
+    const result = await client.query(`
+      UPDATE invoices
+      SET invoice_status = 'void', voided_at = NOW(), voided_by_employee_id = $1, void_reason = $2, updated_at = NOW()
+      WHERE id = $3
+      RETURNING *
+    `, [employeeId, reason.trim(), id]);
+
+    await recordInvoiceHistory(client, {
+      invoiceId: id,
+      action: 'voided',
+      reason: reason.trim(),
+      details: { paymentStatus: existing.rows[0].payment_status, totalAmount: Number(existing.rows[0].total_amount) },
+      employeeId
+    });
+
+    await client.query('COMMIT');
+
+    await notifyInvoiceChange(pool, result.rows[0], 'status_change');
+
+    res.json({ success: true, message: 'Invoice voided', data: result.rows[0] });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    sendInvoiceError(res, error, 'Failed to void invoice');
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * POST /api/admin/invoices/:id/credit
+ * Issue a credit note against a paid invoice. Body: { reason, amount? };
+ * amount defaults to whatever has not been credited yet.
+ */
+router.post('/invoices/:id/credit', requirePermission('void.invoices.enable'), async (req, res) => {
+  const { id } = req.params;
+  const pool = await getPool();
+  const client = await pool.connect();
+
+  try {
+    const employeeId = req.session.userId;
+
+    await client.query('BEGIN');
+
+    const existing = await client.query(`SELECT * FROM invoices WHERE id = $1 FOR UPDATE`, [id]);
+    if (existing.rows.length === 0) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, message: 'Invoice not found' });
+    }
+    const original = existing.rows[0];
+
+    const creditedResult = await client.query(`
+      SELECT COALESCE(SUM(-total_amount), 0) AS credited
+      FROM invoices
+      WHERE credit_for_invoice_id = $1
+    `, [id]);
+    const { amount, reason } = validateCredit(req.body, original, Number(creditedResult.rows[0].credited));
+
+    // Not every line is taxable, so split the credit at the rate the invoice was actually taxed at
+    const taxRate = Number(original.tax_rate) || 0;
+    const subtotal = Number(original.subtotal);
+    const effectiveTaxRate = subtotal > 0 ? Number(original.tax_amount) / subtotal : 0;
+    const totals = computeCreditNoteTotals(amount, effectiveTaxRate);
+    const now = new Date();
+    const creditNumber = await nextInvoiceNumber(client, 'CN', now);
+
+    const result = await client.query(`
+      INSERT INTO invoices (
+        business_id, invoice_number, invoice_type, invoice_status, credit_for_invoice_id, credit_reason,
+        subtotal, tax_rate, tax_amount, total_amount, currency, tax_breakdown,
+        issue_date, due_date, payment_date, payment_status, work_description, created_by_employee_id
+      ) VALUES ($1, $2, 'credit_note', 'issued', $3, $4, $5, $6, $7, $8, $12, $13, $9, $9, $9, 'comped', $10, $11)
+      RETURNING *
+    `, [
+      original.business_id,
+      creditNumber,
+      id,
+      reason,
+      totals.subtotal,
+      taxRate,
+      totals.taxAmount,
+      totals.totalAmount,
+      now,
+      `Credit against invoice ${original.invoice_number}`,
+      employeeId,
+      original.currency,
+      JSON.stringify(computeTaxBreakdown(totals.taxAmount, original.tax_breakdown || []))
+    ]);
+    const creditNote = result.rows[0];
+
+    await insertInvoiceLineItems(client, creditNote.id, [{
+      description: `Credit against invoice ${original.invoice_number}: ${reason}`,
+      itemType: 'discount',
+      quantity: 1,
+      unitPrice: totals.subtotal,
+      amount: totals.subtotal,
+      taxable: totals.taxAmount !== 0
+    }]);
+
+    await recordInvoiceHistory(client, {
+      invoiceId: creditNote.id,
+      action: 'created',
+      reason,
+      details: { creditForInvoiceNumber: original.invoice_number, amount },
+      employeeId
+    });
+    await recordInvoiceHistory(client, {
+      invoiceId: id,
+      action: 'credited',
+      reason,
+      details: { creditNoteId: creditNote.id, creditNoteNumber: creditNumber, amount },
+      employeeId
+    });
+
+    await client.query('COMMIT');
+
+    await notifyInvoiceChange(pool, creditNote, 'new_invoice');
+
+    res.status(201).json({ success: true, message: `Credit note ${creditNumber} issued`, data: creditNote });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    sendInvoiceError(res, error, 'Failed to credit invoice');
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * Run one payment ledger change in a transaction and tell the client and
+ * admins the invoice changed.
+ */
+async function changeLedger(req, res, fallbackMessage, change) {
+  const pool = await getPool();
+  const client = await pool.connect();
+
+  try {
+    await client.query('BEGIN');
+    const result = await change(client, req.session.userId);
+    await client.query('COMMIT');
+
+    await notifyInvoiceChange(pool, result.invoice, result.invoice.payment_status === 'paid' ? 'invoice_paid' : 'status_change');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    sendInvoiceError(res, error, fallbackMessage);
+    return null;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * POST /api/admin/invoices/:id/payments
+ * Record a payment taken outside the portal. Body: { amount, method,
+ * receivedOn?, reference?, notes? }; anything beyond the balance goes to the
+ * business's credit balance.
+ */
+router.post('/invoices/:id/payments', requirePermission('modify.invoices.enable'), async (req, res) => {
+  const result = await changeLedger(req, res, 'Failed to record payment', async (client, employeeId) => {
+    const payment = validatePaymentInput(req.body, await getToday(client));
+    return recordPayment(client, req.params.id, payment, { employeeId });
+  });
+  if (!result) return;
+
+  res.status(201).json({
+    success: true,
+    message: result.overpayment > 0
+      ? `Payment recorded; ${result.overpayment.toFixed(2)} added to the credit balance`
+      : 'Payment recorded',
+    data: result
+  });
+});
+
+/**
+ * POST /api/admin/invoices/:id/refunds
+ * Refund a recorded payment. Body: { paymentId, reason, amount?, destination? };
+ * amount defaults to what is left of the payment, destination to 'original'
+ * (through Stripe for card and bank payments) or 'credit'.
+ */
+router.post('/invoices/:id/refunds', requirePermission('modify.invoices.enable'), async (req, res) => {
+  const result = await changeLedger(req, res, 'Failed to refund payment', (client, employeeId) =>
+    refundPayment(client, req.params.id, req.body.paymentId, req.body, { employeeId })
+  );
+  if (!result) return;
+
+  res.status(201).json({ success: true, message: 'Refund recorded', data: result });
+});
+
+/**
+ * POST /api/admin/invoices/:id/apply-credit
+ * Pay an invoice from its business's credit balance. Body: { amount? };
+ * amount defaults to as much of the balance due as the credit covers.
+ */
+router.post('/invoices/:id/apply-credit', requirePermission('modify.invoices.enable'), async (req, res) => {
+  const result = await changeLedger(req, res, 'Failed to apply credit', (client, employeeId) =>
+    applyCredit(client, req.params.id, req.body, { employeeId })
+  );
+  if (!result) return;
+
+  res.json({ success: true, message: `Applied ${result.applied.toFixed(2)} of credit`, data: result });
+});
+
+function sendCsv(res, filename, csv) {
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(csv);
+}
+
+/**
+ * GET /api/admin/invoices/reports/aging
+ * Accounts receivable aging per business and overall, with the open
+ * invoices behind it. Query: { asOf? } (YYYY-MM-DD, defaults to today)
+ */
+router.get('/invoices/reports/aging', requirePermission('view.financial_reports.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+    const asOf = validateAsOf(req.query.asOf, await getToday(pool));
+    res.json({ success: true, data: await getAgingReport(pool, { asOf }) });
+  } catch (error) {
+    sendInvoiceError(res, error, 'Failed to load receivables aging');
+  }
+});
+
+/**
+ * GET /api/admin/invoices/reports/aging/export
+ * The aging report as CSV, one row per open invoice. Query: { asOf? }
+ */
+router.get('/invoices/reports/aging/export', requirePermission('view.financial_reports.enable'), requirePermission('export.invoices.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+    const asOf = validateAsOf(req.query.asOf, await getToday(pool));
+    const report = await getAgingReport(pool, { asOf });
+    sendCsv(res, `ar-aging-${asOf}.csv`, renderAgingCsv(report));
+  } catch (error) {
+    sendInvoiceError(res, error, 'Failed to export receivables aging');
+  }
+});
+
+/**
+ * GET /api/admin/invoices/reports/revenue
+ * Pre-tax revenue by month, service type and rate tier for invoices issued
+ * in a range. Query: { from?, to? } (defaults to the last twelve months)
+ */
+router.get('/invoices/reports/revenue', requirePermission('view.financial_reports.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+    const range = validateRevenueRange(req.query, await getToday(pool));
+    res.json({ success: true, data: await getRevenueReport(pool, range) });
+  } catch (error) {
+    sendInvoiceError(res, error, 'Failed to load revenue report');
+  }
+});
+
+/**
+ * GET /api/admin/invoices/reports/revenue/invoices
+ * The invoices behind one row of the revenue report. Query: { from?, to?,
+ * dimension: month | serviceType | rateTier, key }
+ */
+router.get('/invoices/reports/revenue/invoices', requirePermission('view.financial_reports.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+    const range = validateRevenueRange(req.query, await getToday(pool));
+    const group = validateRevenueDrillDown(req.query);
+    res.json({ success: true, data: await getRevenueInvoices(pool, { ...range, ...group }) });
+  } catch (error) {
+    sendInvoiceError(res, error, 'Failed to load revenue invoices');
+  }
+});
+
+/**
+ * GET /api/admin/invoices/reports/revenue/export
+ * One breakdown of the revenue report as CSV. Query: { from?, to?,
+ * dimension: month | serviceType | rateTier }
+ */
+router.get('/invoices/reports/revenue/export', requirePermission('view.financial_reports.enable'), requirePermission('export.invoices.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+    const range = validateRevenueRange(req.query, await getToday(pool));
+    const dimension = validateRevenueDimension(req.query.dimension);
+    const report = await getRevenueReport(pool, range);
+    sendCsv(res, `revenue-by-${dimension}-${range.from}-to-${range.to}.csv`, renderRevenueCsv(report, dimension));
+  } catch (error) {
+    sendInvoiceError(res, error, 'Failed to export revenue report');
+  }
+});
+
+/**
+ * GET /api/admin/invoices/consolidation/pending
+ * Businesses with closed requests waiting for their consolidated invoice
+ */
+router.get('/invoices/consolidation/pending', async (req, res) => {
+  try {
+    const pending = await listPendingConsolidation();
+    res.json({ success: true, data: pending });
+  } catch (error) {
+    sendInvoiceError(res, error, 'Failed to load pending consolidated billing');
+  }
+});
+
+/**
+ * POST /api/admin/invoices/consolidation/:businessId
+ * Roll a business's pending requests into a draft now instead of waiting
+ * for the month-end run
+ */
+router.post('/invoices/consolidation/:businessId', requirePermission('create.invoices.enable'), async (req, res) => {
+  try {
+    const { invoice, requestCount } = await consolidateBusiness(req.params.businessId, {
+      employeeId: req.session.userId
+    });
+
+    if (!invoice) {
+      return res.status(400).json({ success: false, message: 'No closed service requests are waiting to be billed' });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `Draft ${invoice.invoice_number} created for ${requestCount} service request${requestCount === 1 ? '' : 's'}`,
+      data: invoice
+    });
+  } catch (error) {
+    sendInvoiceError(res, error, 'Failed to consolidate service requests');
+  }
+});
+
 export default router;
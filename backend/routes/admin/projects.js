@@ -0,0 +1,223 @@
+/**
+ * Projects -- larger jobs per business with milestones, budgeted hours,
+ * technicians and the service requests attached to each milestone.
+ *
+ * Time logged on attached requests rolls up into budget vs actual (see
+ * services/projectService.js). Reading needs view.projects.enable; every
+ * change needs manage.projects.enable.
+ */
+import express from 'express';
+import { authMiddleware, requireEmployee } from '../../middleware/authMiddleware.js';
+import { requirePermission } from '../../middleware/permissionMiddleware.js';
+import { query, transaction } from '../../config/database.js';
+import {
+  PROJECT_STATUSES,
+  validateProjectInput,
+  validateMilestoneInput,
+  listProjects,
+  getProject,
+  saveProject,
+  deleteProject,
+  saveMilestone,
+  deleteMilestone,
+  attachRequest,
+  detachRequest
+} from '../../services/projectService.js';
+
+const router = express.Router();
+
+router.use(authMiddleware);
+router.use(requireEmployee);
+
+const canView = requirePermission('view.projects.enable');
+const canManage = requirePermission('manage.projects.enable');
+
+function sendError(res, error, fallback) {
+  if (error.statusCode === 400 || error.statusCode === 404) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  if (error.code === '23503') {
+    return res.status(400).json({ success: false, message: 'Business or technician not found' });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  return res.status(500).json({ success: false, message: fallback });
+}
+
+/**
+ * GET /api/admin/projects/options
+ *
+ * Businesses and active employees for the project editor.
+ */
+router.get('/options', canView, async (req, res) => {
+  try {
+    const [businesses, technicians] = await Promise.all([
+      query('SELECT id, business_name FROM businesses WHERE soft_delete = false ORDER BY business_name'),
+      query(`
+        SELECT id, CONCAT(first_name, ' ', last_name) AS name
+          FROM employees
+         WHERE is_active = true
+         ORDER BY first_name, last_name
+      `)
+    ]);
+    res.json({
+      success: true,
+      data: { businesses: businesses.rows, technicians: technicians.rows, statuses: PROJECT_STATUSES }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to load project options');
+  }
+});
+
+/**
+ * GET /api/admin/projects
+ *
+ * Query: businessId?, status?
+ */
+router.get('/', canView, async (req, res) => {
+  try {
+    const businessId = typeof req.query.businessId === 'string' && req.query.businessId ? req.query.businessId : null;
+    const status = PROJECT_STATUSES.includes(req.query.status) ? req.query.status : null;
+    res.json({ success: true, data: await listProjects({ query }, { businessId, status }) });
+  } catch (error) {
+    sendError(res, error, 'Failed to load projects');
+  }
+});
+
+/**
+ * GET /api/admin/projects/:id
+ *
+ * The project with technicians, milestones, attached requests and budget
+ * vs actual.
+ */
+router.get('/:id', canView, async (req, res) => {
+  try {
+    res.json({ success: true, data: await getProject({ query }, req.params.id) });
+  } catch (error) {
+    sendError(res, error, 'Failed to load project');
+  }
+});
+
+/**
+ * POST /api/admin/projects
+ *
+ * Body: { businessId, name, description?, status?, startDate?, targetEndDate?,
+ *         budgetedHours?, technicianIds? }
+ */
+router.post('/', canManage, async (req, res) => {
+  try {
+    const input = validateProjectInput(req.body);
+    const project = await transaction(async client => {
+      const id = await saveProject(client, null, input, req.session.userId);
+      return getProject(client, id);
+    });
+    res.status(201).json({ success: true, message: 'Project created', data: project });
+  } catch (error) {
+    sendError(res, error, 'Failed to create project');
+  }
+});
+
+/**
+ * PUT /api/admin/projects/:id
+ */
+router.put('/:id', canManage, async (req, res) => {
+  try {
+    const input = validateProjectInput(req.body);
+    const project = await transaction(async client => {
+      await saveProject(client, req.params.id, input, req.session.userId);
+      return getProject(client, req.params.id);
+    });
+    res.json({ success: true, message: 'Project saved', data: project });
+  } catch (error) {
+    sendError(res, error, 'Failed to update project');
+  }
+});
+
+/**
+ * DELETE /api/admin/projects/:id
+ *
+ * Attached requests are kept and detached.
+ */
+router.delete('/:id', canManage, async (req, res) => {
+  try {
+    await deleteProject({ query }, req.params.id);
+    res.json({ success: true, message: 'Project deleted', data: null });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete project');
+  }
+});
+
+/**
+ * POST /api/admin/projects/:id/milestones
+ *
+ * Body: { name, description?, startDate?, dueDate?, budgetedHours?, completed? }
+ */
+router.post('/:id/milestones', canManage, async (req, res) => {
+  try {
+    const input = validateMilestoneInput(req.body);
+    await saveMilestone({ query }, req.params.id, null, input);
+    res.status(201).json({ success: true, message: 'Milestone added', data: await getProject({ query }, req.params.id) });
+  } catch (error) {
+    sendError(res, error, 'Failed to add milestone');
+  }
+});
+
+/**
+ * PUT /api/admin/projects/:id/milestones/:milestoneId
+ */
+router.put('/:id/milestones/:milestoneId', canManage, async (req, res) => {
+  try {
+    const input = validateMilestoneInput(req.body);
+    await saveMilestone({ query }, req.params.id, req.params.milestoneId, input);
+    res.json({ success: true, message: 'Milestone saved', data: await getProject({ query }, req.params.id) });
+  } catch (error) {
+    sendError(res, error, 'Failed to update milestone');
+  }
+});
+
+/**
+ * DELETE /api/admin/projects/:id/milestones/:milestoneId
+ */
+router.delete('/:id/milestones/:milestoneId', canManage, async (req, res) => {
+  try {
+    await deleteMilestone({ query }, req.params.id, req.params.milestoneId);
+    res.json({ success: true, message: 'Milestone deleted', data: await getProject({ query }, req.params.id) });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete milestone');
+  }
+});
+
+/**
+ * POST /api/admin/projects/:id/milestones/:milestoneId/requests
+ *
+ * Body: { requestNumber } -- a request of the project's business
+ */
+router.post('/:id/milestones/:milestoneId/requests', canManage, async (req, res) => {
+  try {
+    const attached = await attachRequest({ query }, {
+      projectId: req.params.id,
+      milestoneId: req.params.milestoneId,
+      requestNumber: req.body.requestNumber
+    });
+    res.json({
+      success: true,
+      message: `${attached.request_number} attached`,
+      data: await getProject({ query }, req.params.id)
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to attach service request');
+  }
+});
+
+/**
+ * DELETE /api/admin/projects/:id/requests/:serviceRequestId
+ */
+router.delete('/:id/requests/:serviceRequestId', canManage, async (req, res) => {
+  try {
+    await detachRequest({ query }, { projectId: req.params.id, serviceRequestId: req.params.serviceRequestId });
+    res.json({ success: true, message: 'Service request detached', data: await getProject({ query }, req.params.id) });
+  } catch (error) {
+    sendError(res, error, 'Failed to detach service request');
+  }
+});
+
+export default router;
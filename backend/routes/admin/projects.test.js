@@ -0,0 +1,32 @@
+// Source-lint regression tests for routes/admin/projects.js -- same pattern as
+// routes/admin/quotes.test.js. Pins auth + RBAC gating for projects.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const SRC = readFileSync(join(here, 'projects.js'), 'utf8');
+
+test('module requires authMiddleware + requireEmployee', () => {
+  assert.match(SRC, /router\.use\(authMiddleware\)/);
+  assert.match(SRC, /router\.use\(requireEmployee\)/);
+});
+
+test('reads need view.projects, changes need manage.projects', () => {
+  assert.match(SRC, /const canView = requirePermission\('view\.projects\.enable'\)/);
+  assert.match(SRC, /const canManage = requirePermission\('manage\.projects\.enable'\)/);
+  const routes = SRC.match(/router\.(get|post|put|delete)\([^,]+,[^,]+,/g) || [];
+  assert.ok(routes.length >= 11);
+  for (const route of routes) {
+    const gate = route.startsWith('router.get') ? 'canView' : 'canManage';
+    assert.ok(route.includes(gate), `${route} should use ${gate}`);
+  }
+});
+
+test('project and milestone input is validated on create and update', () => {
+  assert.equal((SRC.match(/validateProjectInput\(req\.body\)/g) || []).length, 2);
+  assert.equal((SRC.match(/validateMilestoneInput\(req\.body\)/g) || []).length, 2);
+});
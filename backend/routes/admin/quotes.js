@@ -0,0 +1,198 @@
+/**
+ * Quotes / estimates -- drafting, editing, emailing and deleting quotes.
+ *
+ * Clients accept or decline them in the portal (routes/client/quotes.js);
+ * acceptance creates the service request, and completing that request
+ * invoices the quote. Reading needs view.quotes.enable; every change needs
+ * manage.quotes.enable.
+ */
+import express from 'express';
+import { authMiddleware, requireEmployee } from '../../middleware/authMiddleware.js';
+import { requirePermission } from '../../middleware/permissionMiddleware.js';
+import { query, transaction } from '../../config/database.js';
+import {
+  validateQuoteInput,
+  listQuotes,
+  getQuote,
+  saveQuote,
+  deleteQuote,
+  sendQuote
+} from '../../services/quoteService.js';
+import { resolveInvoiceTax } from '../../services/taxService.js';
+
+const router = express.Router();
+
+router.use(authMiddleware);
+router.use(requireEmployee);
+
+const canView = requirePermission('view.quotes.enable');
+const canManage = requirePermission('manage.quotes.enable');
+
+function sendError(res, error, fallback) {
+  if (error.statusCode === 400 || error.statusCode === 404) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  if (error.code === '23503') {
+    return res.status(400).json({ success: false, message: 'Business, location, service type or contact not found' });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  return res.status(500).json({ success: false, message: fallback });
+}
+
+async function defaultTaxRate(db) {
+  const result = await db.query(`SELECT setting_value FROM company_settings WHERE setting_key = 'invoice_tax_rate'`);
+  return parseFloat(result.rows[0]?.setting_value) || 0;
+}
+
+/**
+ * GET /api/admin/quotes/options
+ *
+ * Businesses and active service types for the quote editor.
+ */
+router.get('/options', canView, async (req, res) => {
+  try {
+    const [businesses, serviceTypes, taxRate] = await Promise.all([
+      query('SELECT id, business_name FROM businesses WHERE soft_delete = false ORDER BY business_name'),
+      query('SELECT id, name FROM service_types WHERE is_active = true ORDER BY name'),
+      defaultTaxRate({ query })
+    ]);
+    res.json({
+      success: true,
+      data: { businesses: businesses.rows, serviceTypes: serviceTypes.rows, defaultTaxRate: taxRate }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to load quote options');
+  }
+});
+
+/**
+ * GET /api/admin/quotes/options/:businessId
+ *
+ * The business's service locations, client contacts, and the currency and
+ * tax its quotes default to.
+ */
+router.get('/options/:businessId', canView, async (req, res) => {
+  try {
+    const [locations, contacts, tax] = await Promise.all([
+      query(`
+        SELECT id, COALESCE(location_name, address_label) AS name
+          FROM service_locations
+         WHERE business_id = $1 AND soft_delete = false
+         ORDER BY is_headquarters DESC, name
+      `, [req.params.businessId]),
+      query(`
+        SELECT id, TRIM(CONCAT(first_name, ' ', last_name)) AS name, email
+          FROM users
+         WHERE business_id = $1 AND soft_delete = false AND email IS NOT NULL
+         ORDER BY is_primary_contact DESC NULLS LAST, first_name, last_name
+      `, [req.params.businessId]),
+      resolveInvoiceTax({ query }, req.params.businessId)
+    ]);
+    res.json({ success: true, data: { locations: locations.rows, contacts: contacts.rows, tax } });
+  } catch (error) {
+    sendError(res, error, 'Failed to load business options');
+  }
+});
+
+/**
+ * GET /api/admin/quotes
+ *
+ * Query: businessId? -- one business's quotes
+ */
+router.get('/', canView, async (req, res) => {
+  try {
+    const businessId = typeof req.query.businessId === 'string' && req.query.businessId ? req.query.businessId : null;
+    res.json({ success: true, data: await listQuotes({ query }, { businessId }) });
+  } catch (error) {
+    sendError(res, error, 'Failed to load quotes');
+  }
+});
+
+/**
+ * GET /api/admin/quotes/:id
+ */
+router.get('/:id', canView, async (req, res) => {
+  try {
+    const quote = await getQuote({ query }, req.params.id);
+    if (!quote) {
+      return res.status(404).json({ success: false, message: 'Quote not found' });
+    }
+    res.json({ success: true, data: quote });
+  } catch (error) {
+    sendError(res, error, 'Failed to load quote');
+  }
+});
+
+/**
+ * POST /api/admin/quotes
+ *
+ * Saves a draft. Without a tax rate the business is taxed as its invoices
+ * would be (jurisdiction, exemption or the company rate).
+ */
+router.post('/', canManage, async (req, res) => {
+  try {
+    const input = validateQuoteInput(req.body);
+    const quote = await transaction(async client => {
+      const id = await saveQuote(client, input, { employeeId: req.session.userId });
+      return getQuote(client, id);
+    });
+    res.status(201).json({ success: true, message: 'Draft quote saved', data: quote });
+  } catch (error) {
+    sendError(res, error, 'Failed to create quote');
+  }
+});
+
+/**
+ * PUT /api/admin/quotes/:id
+ *
+ * Replaces a draft or sent quote; a sent quote goes back to draft.
+ */
+router.put('/:id', canManage, async (req, res) => {
+  try {
+    const input = validateQuoteInput(req.body);
+    const quote = await transaction(async client => {
+      await saveQuote(client, input, { quoteId: req.params.id });
+      return getQuote(client, req.params.id);
+    });
+    res.json({ success: true, message: 'Quote saved', data: quote });
+  } catch (error) {
+    sendError(res, error, 'Failed to update quote');
+  }
+});
+
+/**
+ * POST /api/admin/quotes/:id/send
+ *
+ * Body: { to?, message? } -- the recipient defaults to the quote's contact
+ */
+router.post('/:id/send', canManage, async (req, res) => {
+  try {
+    const sent = await sendQuote({ query }, req.params.id, req.body || {});
+    res.json({
+      success: true,
+      message: `Quote sent to ${sent.to}`,
+      data: await getQuote({ query }, req.params.id)
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to send quote');
+  }
+});
+
+/**
+ * DELETE /api/admin/quotes/:id
+ *
+ * Accepted quotes are kept with their service request.
+ */
+router.delete('/:id', canManage, async (req, res) => {
+  try {
+    const deleted = await deleteQuote({ query }, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ success: false, message: 'Quote not found' });
+    }
+    res.json({ success: true, message: 'Quote deleted', data: null });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete quote');
+  }
+});
+
+export default router;
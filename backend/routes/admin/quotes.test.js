@@ -0,0 +1,31 @@
+// Source-lint regression tests for routes/admin/quotes.js -- same pattern as
+// routes/admin/recurringBilling.test.js. Pins auth + RBAC gating for quotes.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const SRC = readFileSync(join(here, 'quotes.js'), 'utf8');
+
+test('module requires authMiddleware + requireEmployee', () => {
+  assert.match(SRC, /router\.use\(authMiddleware\)/);
+  assert.match(SRC, /router\.use\(requireEmployee\)/);
+});
+
+test('reads need view.quotes, changes need manage.quotes', () => {
+  assert.match(SRC, /const canView = requirePermission\('view\.quotes\.enable'\)/);
+  assert.match(SRC, /const canManage = requirePermission\('manage\.quotes\.enable'\)/);
+  const routes = SRC.match(/router\.(get|post|put|delete)\([^,]+,[^,]+,/g) || [];
+  assert.ok(routes.length >= 8);
+  for (const route of routes) {
+    const gate = route.startsWith('router.get') ? 'canView' : 'canManage';
+    assert.ok(route.includes(gate), `${route} should use ${gate}`);
+  }
+});
+
+test('quote input is validated on create and update', () => {
+  assert.equal((SRC.match(/validateQuoteInput\(req\.body\)/g) || []).length, 2);
+});
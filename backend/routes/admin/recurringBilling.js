@@ -0,0 +1,301 @@
+/**
+ * Recurring managed-services billing -- per-device plans, the businesses on
+ * them, month-to-date previews and manual catch-up billing.
+ *
+ * Invoices are generated by the recurring billing scheduler in
+ * services/recurringBillingService.js. Reading needs view.invoices.enable;
+ * every change needs manage.recurring_billing.enable.
+ */
+import express from 'express';
+import { authMiddleware, requireEmployee } from '../../middleware/authMiddleware.js';
+import { requirePermission } from '../../middleware/permissionMiddleware.js';
+import { query } from '../../config/database.js';
+import {
+  BILLABLE_DEVICE_FILTER,
+  validatePlanInput,
+  validateSubscriptionInput,
+  priceDeviceCount,
+  buildSubscriptionInvoice,
+  addDaysToDate,
+  startOfMonth,
+  recurringBillingScheduler
+} from '../../services/recurringBillingService.js';
+import { resolveInvoiceTax } from '../../services/taxService.js';
+
+const router = express.Router();
+
+router.use(authMiddleware);
+router.use(requireEmployee);
+
+const canView = requirePermission('view.invoices.enable');
+const canManage = requirePermission('manage.recurring_billing.enable');
+
+const SUBSCRIPTION_SELECT = `
+  SELECT s.id, s.business_id, s.plan_id, s.notes,
+         s.started_on::text AS started_on, s.ended_on::text AS ended_on, s.billed_through::text AS billed_through,
+         s.created_at, s.updated_at,
+         b.business_name, p.name AS plan_name, p.pricing_ranges,
+         (SELECT COUNT(*)::int FROM agent_devices ad
+           WHERE ad.business_id = s.business_id AND ${BILLABLE_DEVICE_FILTER}) AS current_device_count,
+         (SELECT i.invoice_number FROM invoices i
+           WHERE i.managed_service_subscription_id = s.id
+           ORDER BY i.billing_period_start DESC LIMIT 1) AS last_invoice_number
+    FROM managed_service_subscriptions s
+    JOIN businesses b ON s.business_id = b.id
+    JOIN managed_service_plans p ON s.plan_id = p.id
+`;
+
+function withEstimate(subscription) {
+  return {
+    ...subscription,
+    estimated_monthly_charge: priceDeviceCount(subscription.current_device_count, subscription.pricing_ranges).totalCost
+  };
+}
+
+function sendError(res, error, fallback) {
+  if (error.statusCode === 400) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+  // idx_managed_service_subscriptions_open
+  if (error.code === '23505') {
+    return res.status(400).json({ success: false, message: 'This business already has an open managed-services subscription' });
+  }
+  if (error.code === '23503') {
+    const message = error.constraint?.includes('plan')
+      ? 'Plan not found, or still in use by a subscription'
+      : 'Business not found';
+    return res.status(400).json({ success: false, message });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  return res.status(500).json({ success: false, message: fallback });
+}
+
+/**
+ * GET /api/admin/recurring-billing/options
+ *
+ * Businesses and active plans for the subscription pickers.
+ */
+router.get('/options', canView, async (req, res) => {
+  try {
+    const [businesses, plans] = await Promise.all([
+      query('SELECT id, business_name FROM businesses WHERE soft_delete = false ORDER BY business_name'),
+      query('SELECT id, name FROM managed_service_plans WHERE is_active = true ORDER BY name')
+    ]);
+    res.json({ success: true, data: { businesses: businesses.rows, plans: plans.rows } });
+  } catch (error) {
+    sendError(res, error, 'Failed to load recurring billing options');
+  }
+});
+
+/**
+ * GET /api/admin/recurring-billing/plans
+ */
+router.get('/plans', canView, async (req, res) => {
+  try {
+    const result = await query(`
+      SELECT p.*,
+             (SELECT COUNT(*)::int FROM managed_service_subscriptions s
+               WHERE s.plan_id = p.id AND s.ended_on IS NULL) AS open_subscription_count
+        FROM managed_service_plans p
+       ORDER BY p.is_active DESC, p.name
+    `);
+    res.json({ success: true, data: result.rows });
+  } catch (error) {
+    sendError(res, error, 'Failed to load plans');
+  }
+});
+
+/**
+ * POST /api/admin/recurring-billing/plans
+ */
+router.post('/plans', canManage, async (req, res) => {
+  try {
+    const plan = validatePlanInput(req.body);
+    const result = await query(
+      `INSERT INTO managed_service_plans (name, description, pricing_ranges, is_active, created_by_employee_id)
+       VALUES ($1, $2, $3::jsonb, $4, $5)
+       RETURNING *`,
+      [plan.name, plan.description, JSON.stringify(plan.pricingRanges), plan.isActive, req.session.userId]
+    );
+    res.status(201).json({ success: true, message: 'Plan created', data: result.rows[0] });
+  } catch (error) {
+    sendError(res, error, 'Failed to create plan');
+  }
+});
+
+/**
+ * PUT /api/admin/recurring-billing/plans/:id
+ *
+ * New prices apply from the next invoice, including the month in progress.
+ */
+router.put('/plans/:id', canManage, async (req, res) => {
+  try {
+    const plan = validatePlanInput(req.body);
+    const result = await query(
+      `UPDATE managed_service_plans
+          SET name = $2, description = $3, pricing_ranges = $4::jsonb, is_active = $5, updated_at = NOW()
+        WHERE id = $1
+        RETURNING *`,
+      [req.params.id, plan.name, plan.description, JSON.stringify(plan.pricingRanges), plan.isActive]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Plan not found' });
+    }
+    res.json({ success: true, message: 'Plan updated', data: result.rows[0] });
+  } catch (error) {
+    sendError(res, error, 'Failed to update plan');
+  }
+});
+
+/**
+ * DELETE /api/admin/recurring-billing/plans/:id
+ *
+ * Only plans no business was ever subscribed to; deactivate the others.
+ */
+router.delete('/plans/:id', canManage, async (req, res) => {
+  try {
+    const result = await query('DELETE FROM managed_service_plans WHERE id = $1 RETURNING id', [req.params.id]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Plan not found' });
+    }
+    res.json({ success: true, message: 'Plan deleted', data: null });
+  } catch (error) {
+    if (error.code === '23503') {
+      return res.status(400).json({ success: false, message: 'This plan has subscriptions; deactivate it instead' });
+    }
+    sendError(res, error, 'Failed to delete plan');
+  }
+});
+
+/**
+ * GET /api/admin/recurring-billing/subscriptions
+ *
+ * Every subscription with its current billable device count and what that
+ * count costs per month on its plan.
+ */
+router.get('/subscriptions', canView, async (req, res) => {
+  try {
+    const result = await query(`${SUBSCRIPTION_SELECT} ORDER BY s.ended_on IS NOT NULL, b.business_name`);
+    res.json({ success: true, data: result.rows.map(withEstimate) });
+  } catch (error) {
+    sendError(res, error, 'Failed to load subscriptions');
+  }
+});
+
+/**
+ * POST /api/admin/recurring-billing/subscriptions
+ */
+router.post('/subscriptions', canManage, async (req, res) => {
+  try {
+    const input = validateSubscriptionInput(req.body);
+    const inserted = await query(
+      `INSERT INTO managed_service_subscriptions (business_id, plan_id, started_on, ended_on, notes, created_by_employee_id)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [input.businessId, input.planId, input.startedOn, input.endedOn, input.notes, req.session.userId]
+    );
+    const result = await query(`${SUBSCRIPTION_SELECT} WHERE s.id = $1`, [inserted.rows[0].id]);
+    res.status(201).json({ success: true, message: 'Business added to plan', data: withEstimate(result.rows[0]) });
+  } catch (error) {
+    sendError(res, error, 'Failed to create subscription');
+  }
+});
+
+/**
+ * PUT /api/admin/recurring-billing/subscriptions/:id
+ *
+ * Change plan, end date or notes. A plan change applies to every month not
+ * yet invoiced.
+ */
+router.put('/subscriptions/:id', canManage, async (req, res) => {
+  try {
+    const existing = await query(`${SUBSCRIPTION_SELECT} WHERE s.id = $1`, [req.params.id]);
+    if (existing.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Subscription not found' });
+    }
+
+    const input = validateSubscriptionInput(req.body, existing.rows[0]);
+    await query(
+      `UPDATE managed_service_subscriptions
+          SET plan_id = $2, started_on = $3, ended_on = $4, notes = $5, updated_at = NOW()
+        WHERE id = $1`,
+      [req.params.id, input.planId, input.startedOn, input.endedOn, input.notes]
+    );
+    const result = await query(`${SUBSCRIPTION_SELECT} WHERE s.id = $1`, [req.params.id]);
+    res.json({ success: true, message: 'Subscription updated', data: withEstimate(result.rows[0]) });
+  } catch (error) {
+    sendError(res, error, 'Failed to update subscription');
+  }
+});
+
+/**
+ * GET /api/admin/recurring-billing/subscriptions/:id/preview
+ *
+ * What the month in progress would be invoiced for if it ended today.
+ */
+router.get('/subscriptions/:id/preview', canView, async (req, res) => {
+  try {
+    const result = await query(`${SUBSCRIPTION_SELECT} WHERE s.id = $1`, [req.params.id]);
+    const subscription = result.rows[0];
+    if (!subscription) {
+      return res.status(404).json({ success: false, message: 'Subscription not found' });
+    }
+
+    const [todayResult, tax] = await Promise.all([
+      query('SELECT CURRENT_DATE::text AS today'),
+      resolveInvoiceTax({ query }, subscription.business_id)
+    ]);
+    const today = todayResult.rows[0].today;
+    const candidates = [startOfMonth(today), subscription.started_on];
+    if (subscription.billed_through) candidates.push(addDaysToDate(subscription.billed_through, 1));
+    const periodStart = candidates.sort().at(-1);
+    const periodEnd = subscription.ended_on && subscription.ended_on < today ? subscription.ended_on : today;
+
+    if (periodStart > periodEnd) {
+      return res.json({
+        success: true,
+        data: { periodStart, periodEnd, dailyCounts: [], lineItems: [], subtotal: 0, taxAmount: 0, totalAmount: 0 }
+      });
+    }
+
+    const totals = await buildSubscriptionInvoice({ query }, subscription, { periodStart, periodEnd, tax });
+    res.json({
+      success: true,
+      data: {
+        periodStart,
+        periodEnd,
+        dailyCounts: totals.dailyCounts,
+        lineItems: totals.lineItems,
+        subtotal: totals.subtotal,
+        taxAmount: totals.taxAmount,
+        totalAmount: totals.totalAmount,
+        currency: tax.currency
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to preview subscription invoice');
+  }
+});
+
+/**
+ * POST /api/admin/recurring-billing/subscriptions/:id/bill
+ *
+ * Invoice any finished months the scheduler has not billed yet (e.g. after
+ * an outage). The month in progress is never billed early.
+ */
+router.post('/subscriptions/:id/bill', canManage, async (req, res) => {
+  try {
+    const invoices = await recurringBillingScheduler.invoiceSubscription(req.params.id, { employeeId: req.session.userId });
+    res.json({
+      success: true,
+      message: invoices.length > 0
+        ? `${invoices.length} invoice${invoices.length === 1 ? '' : 's'} issued`
+        : 'Nothing due: every finished month is already billed',
+      data: invoices
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to bill subscription');
+  }
+});
+
+export default router;
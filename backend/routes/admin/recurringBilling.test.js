@@ -0,0 +1,33 @@
+// Source-lint regression tests for routes/admin/recurringBilling.js -- same
+// pattern as routes/admin/sla.test.js. Pins auth + RBAC gating for plans and
+// subscriptions.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const SRC = readFileSync(join(here, 'recurringBilling.js'), 'utf8');
+
+test('module requires authMiddleware + requireEmployee', () => {
+  assert.match(SRC, /router\.use\(authMiddleware\)/);
+  assert.match(SRC, /router\.use\(requireEmployee\)/);
+});
+
+test('every route is gated by view.invoices or manage.recurring_billing', () => {
+  assert.match(SRC, /const canView = requirePermission\('view\.invoices\.enable'\)/);
+  assert.match(SRC, /const canManage = requirePermission\('manage\.recurring_billing\.enable'\)/);
+  const routes = SRC.match(/router\.(get|post|put|delete)\([^,]+,[^,]+,/g) || [];
+  assert.ok(routes.length >= 10);
+  for (const route of routes) {
+    const gate = route.startsWith('router.get') ? 'canView' : 'canManage';
+    assert.ok(route.includes(gate), `${route} should use ${gate}`);
+  }
+});
+
+test('plan and subscription input is validated on create and update', () => {
+  assert.equal((SRC.match(/validatePlanInput\(req\.body\)/g) || []).length, 2);
+  assert.equal((SRC.match(/validateSubscriptionInput\(req\.body/g) || []).length, 2);
+});
@@ -0,0 +1,291 @@
+/**
+ * Scheduled report delivery -- schedule CRUD, "send now" and the delivery log.
+ *
+ * Schedules are executed by services/reportDeliveryScheduler.js. Every route
+ * requires manage.report_schedules.enable; a schedule can only be attached
+ * to a saved report the requester can see (own or shared), and the report is
+ * always run with the schedule creator's permissions.
+ */
+import express from 'express';
+import { authMiddleware, requireEmployee } from '../../middleware/authMiddleware.js';
+import { requirePermission } from '../../middleware/permissionMiddleware.js';
+import { query } from '../../config/database.js';
+import { timezoneService } from '../../utils/timezoneUtils.js';
+import {
+  validateSchedule,
+  computeNextRunAt,
+  reportDeliveryScheduler
+} from '../../services/reportDeliveryScheduler.js';
+
+const router = express.Router();
+
+router.use(authMiddleware);
+router.use(requireEmployee);
+router.use(requirePermission('manage.report_schedules.enable'));
+
+const SCHEDULE_SELECT = `
+  SELECT rs.*, r.name AS report_name,
+         CONCAT(e.first_name, ' ', e.last_name) AS created_by_name,
+         (SELECT MAX(d.created_at) FROM report_deliveries d WHERE d.schedule_id = rs.id) AS last_delivery_at
+    FROM report_schedules rs
+    JOIN saved_reports r ON rs.saved_report_id = r.id
+    LEFT JOIN employees e ON rs.created_by = e.id
+`;
+
+async function reportIsVisible(reportId, employeeId) {
+  const result = await query(
+    'SELECT id FROM saved_reports WHERE id = $1 AND (created_by = $2 OR is_shared = true)',
+    [reportId, employeeId]
+  );
+  return result.rows.length > 0;
+}
+
+/**
+ * GET /api/admin/report-schedules
+ *
+ * All schedules, optionally filtered by ?reportId=.
+ */
+router.get('/', async (req, res) => {
+  try {
+    const params = [];
+    let where = '';
+    if (req.query.reportId) {
+      params.push(req.query.reportId);
+      where = 'WHERE rs.saved_report_id = $1';
+    }
+    const result = await query(`${SCHEDULE_SELECT} ${where} ORDER BY r.name, rs.created_at`, params);
+    res.json({ success: true, data: result.rows });
+  } catch (error) {
+    console.error('❌ Error listing report schedules:', error);
+    res.status(500).json({ success: false, message: 'Failed to list report schedules' });
+  }
+});
+
+/**
+ * GET /api/admin/report-schedules/recipients
+ *
+ * Employees and client contacts a schedule can be addressed to.
+ */
+router.get('/recipients', async (req, res) => {
+  try {
+    const [employees, clients] = await Promise.all([
+      query(
+        `SELECT id, email, CONCAT(first_name, ' ', last_name) AS name
+           FROM employees
+          WHERE is_active = true AND soft_delete = false AND email IS NOT NULL
+          ORDER BY last_name, first_name`
+      ),
+      query(
+        `SELECT u.id, u.email, CONCAT(u.first_name, ' ', u.last_name) AS name, b.business_name
+           FROM users u
+           LEFT JOIN businesses b ON u.business_id = b.id
+          WHERE u.soft_delete = false AND u.email IS NOT NULL
+          ORDER BY b.business_name, u.last_name, u.first_name`
+      )
+    ]);
+    res.json({ success: true, data: { employees: employees.rows, clients: clients.rows } });
+  } catch (error) {
+    console.error('❌ Error loading report recipients:', error);
+    res.status(500).json({ success: false, message: 'Failed to load recipients' });
+  }
+});
+
+/**
+ * GET /api/admin/report-schedules/deliveries
+ *
+ * Paginated delivery log. Query: page, limit, startDate, endDate, status,
+ * scheduleId, search (report name / recipient).
+ */
+router.get('/deliveries', async (req, res) => {
+  try {
+    const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 50, 1), 200);
+    const conditions = [];
+    const params = [];
+
+    if (req.query.startDate) {
+      params.push(req.query.startDate);
+      conditions.push(`d.created_at >= $${params.length}::date`);
+    }
+    if (req.query.endDate) {
+      params.push(req.query.endDate);
+      conditions.push(`d.created_at < $${params.length}::date + INTERVAL '1 day'`);
+    }
+    if (req.query.status) {
+      params.push(req.query.status);
+      conditions.push(`d.status = $${params.length}`);
+    }
+    if (req.query.scheduleId) {
+      params.push(req.query.scheduleId);
+      conditions.push(`d.schedule_id = $${params.length}`);
+    }
+    if (req.query.search) {
+      params.push(`%${req.query.search}%`);
+      conditions.push(`(d.report_name ILIKE $${params.length} OR d.recipient_name ILIKE $${params.length} OR d.recipient_email ILIKE $${params.length})`);
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const [rows, count] = await Promise.all([
+      query(
+        `SELECT d.*, CONCAT(e.first_name, ' ', e.last_name) AS triggered_by_name
+           FROM report_deliveries d
+           LEFT JOIN employees e ON d.triggered_by = e.id
+           ${where}
+          ORDER BY d.created_at DESC
+          LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, (page - 1) * limit]
+      ),
+      query(`SELECT COUNT(*)::int AS total FROM report_deliveries d ${where}`, params)
+    ]);
+
+    res.json({ success: true, data: rows.rows, total: count.rows[0].total, page, limit });
+  } catch (error) {
+    console.error('❌ Error loading report delivery log:', error);
+    res.status(500).json({ success: false, message: 'Failed to load report delivery log' });
+  }
+});
+
+/**
+ * POST /api/admin/report-schedules
+ */
+router.post('/', async (req, res) => {
+  try {
+    await timezoneService.init();
+    const input = { timezone: timezoneService.businessTimezone, send_time: '07:00', ...req.body };
+    const validationError = validateSchedule(input);
+    if (validationError) {
+      return res.status(400).json({ success: false, message: validationError });
+    }
+    if (!input.saved_report_id || !(await reportIsVisible(input.saved_report_id, req.session.userId))) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+
+    const isActive = input.is_active !== false;
+    const result = await query(
+      `INSERT INTO report_schedules
+         (saved_report_id, frequency, day_of_week, day_of_month, send_time, timezone, formats,
+          recipient_employee_ids, recipient_client_ids, is_active, next_run_at, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING id`,
+      [
+        input.saved_report_id,
+        input.frequency,
+        input.frequency === 'weekly' ? Number(input.day_of_week) : null,
+        input.frequency === 'monthly' ? Number(input.day_of_month) : null,
+        input.send_time,
+        input.timezone,
+        input.formats,
+        input.recipient_employee_ids || [],
+        input.recipient_client_ids || [],
+        isActive,
+        isActive ? computeNextRunAt(input) : null,
+        req.session.userId
+      ]
+    );
+
+    const created = await query(`${SCHEDULE_SELECT} WHERE rs.id = $1`, [result.rows[0].id]);
+    console.log(`✅ Report schedule created for "${created.rows[0].report_name}" (${input.frequency})`);
+    res.status(201).json({ success: true, data: created.rows[0] });
+  } catch (error) {
+    console.error('❌ Error creating report schedule:', error);
+    res.status(500).json({ success: false, message: 'Failed to create report schedule' });
+  }
+});
+
+/**
+ * PUT /api/admin/report-schedules/:id
+ *
+ * Full replacement of the editable fields; next_run_at is recomputed.
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const existing = await query('SELECT * FROM report_schedules WHERE id = $1', [req.params.id]);
+    if (existing.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Report schedule not found' });
+    }
+
+    const current = existing.rows[0];
+    const input = {
+      frequency: current.frequency,
+      day_of_week: current.day_of_week,
+      day_of_month: current.day_of_month,
+      send_time: String(current.send_time).slice(0, 5),
+      timezone: current.timezone,
+      formats: current.formats,
+      recipient_employee_ids: current.recipient_employee_ids,
+      recipient_client_ids: current.recipient_client_ids,
+      is_active: current.is_active,
+      ...req.body
+    };
+    const validationError = validateSchedule(input);
+    if (validationError) {
+      return res.status(400).json({ success: false, message: validationError });
+    }
+
+    await query(
+      `UPDATE report_schedules
+          SET frequency = $2, day_of_week = $3, day_of_month = $4, send_time = $5, timezone = $6,
+              formats = $7, recipient_employee_ids = $8, recipient_client_ids = $9, is_active = $10,
+              next_run_at = $11, updated_at = NOW()
+        WHERE id = $1`,
+      [
+        req.params.id,
+        input.frequency,
+        input.frequency === 'weekly' ? Number(input.day_of_week) : null,
+        input.frequency === 'monthly' ? Number(input.day_of_month) : null,
+        input.send_time,
+        input.timezone,
+        input.formats,
+        input.recipient_employee_ids || [],
+        input.recipient_client_ids || [],
+        input.is_active !== false,
+        input.is_active !== false ? computeNextRunAt(input) : null
+      ]
+    );
+
+    const updated = await query(`${SCHEDULE_SELECT} WHERE rs.id = $1`, [req.params.id]);
+    res.json({ success: true, data: updated.rows[0] });
+  } catch (error) {
+    console.error('❌ Error updating report schedule:', error);
+    res.status(500).json({ success: false, message: 'Failed to update report schedule' });
+  }
+});
+
+/**
+ * DELETE /api/admin/report-schedules/:id
+ *
+ * Delivery log rows are kept (schedule_id is nulled).
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const result = await query('DELETE FROM report_schedules WHERE id = $1 RETURNING id', [req.params.id]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Report schedule not found' });
+    }
+    res.json({ success: true, message: 'Report schedule deleted' });
+  } catch (error) {
+    console.error('❌ Error deleting report schedule:', error);
+    res.status(500).json({ success: false, message: 'Failed to delete report schedule' });
+  }
+});
+
+/**
+ * POST /api/admin/report-schedules/:id/send
+ *
+ * Deliver immediately without moving next_run_at.
+ */
+router.post('/:id/send', async (req, res) => {
+  try {
+    const existing = await query('SELECT id FROM report_schedules WHERE id = $1', [req.params.id]);
+    if (existing.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Report schedule not found' });
+    }
+    const summary = await reportDeliveryScheduler.deliverSchedule(req.params.id, { triggeredBy: req.session.userId });
+    res.json({ success: true, data: summary, message: `Sent ${summary.sent}, failed ${summary.failed}` });
+  } catch (error) {
+    console.error('❌ Error sending scheduled report:', error);
+    res.status(500).json({ success: false, message: 'Failed to send report' });
+  }
+});
+
+export default router;
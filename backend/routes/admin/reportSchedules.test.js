@@ -0,0 +1,35 @@
+// Source-lint regression tests for routes/admin/reportSchedules.js -- same
+// pattern as routes/admin/reports.test.js. Pins auth + RBAC gating for
+// scheduled report delivery.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const SRC = readFileSync(join(here, 'reportSchedules.js'), 'utf8');
+
+test('module requires authMiddleware + requireEmployee + manage.report_schedules.enable', () => {
+  assert.match(SRC, /router\.use\(authMiddleware\)/);
+  assert.match(SRC, /router\.use\(requireEmployee\)/);
+  assert.match(SRC, /router\.use\(requirePermission\(\s*['"]manage\.report_schedules\.enable['"]\s*\)\)/);
+});
+
+test('schedules can only target reports visible to the requester', () => {
+  assert.match(SRC, /created_by = \$2 OR is_shared = true/);
+  assert.match(SRC, /reportIsVisible\(input\.saved_report_id, req\.session\.userId\)/);
+});
+
+test('schedule input is validated on create and update', () => {
+  const matches = SRC.match(/validateSchedule\(input\)/g) || [];
+  assert.equal(matches.length, 2);
+});
+
+test('static routes are declared before /:id routes', () => {
+  const recipients = SRC.indexOf("router.get('/recipients'");
+  const deliveries = SRC.indexOf("router.get('/deliveries'");
+  const byId = SRC.indexOf("router.put('/:id'");
+  assert.ok(recipients > 0 && deliveries > 0 && byId > deliveries && byId > recipients);
+});
@@ -0,0 +1,245 @@
+/**
+ * Report builder -- saved report CRUD + preview/run.
+ *
+ * Report definitions are interpreted by services/reportBuilderService.js;
+ * this file only handles persistence and access control:
+ *   - every route requires view.reports.enable
+ *   - a report is visible to its creator, or to everyone when is_shared
+ *   - editing/deleting someone else's shared report requires
+ *     manage.reports.enable
+ *   - running a report additionally requires the data source's own
+ *     permission (checked in runReport) and, for per-technician sources,
+ *     scopes rows to the requester unless they hold view.team_reports.enable
+ */
+import express from 'express';
+import { authMiddleware, requireEmployee } from '../../middleware/authMiddleware.js';
+import { requirePermission } from '../../middleware/permissionMiddleware.js';
+import { query } from '../../config/database.js';
+import { permissionService } from '../../services/permissionService.js';
+import {
+  listAvailableSources,
+  validateDefinition,
+  runReport
+} from '../../services/reportBuilderService.js';
+
+const router = express.Router();
+
+router.use(authMiddleware);
+router.use(requireEmployee);
+router.use(requirePermission('view.reports.enable'));
+
+async function getScope(req) {
+  const employeeId = req.session.userId;
+  const permissions = await permissionService.getUserPermissions(employeeId);
+  return { employeeId, permissions };
+}
+
+function sendReportError(res, error, fallbackMessage) {
+  if (error.statusCode === 400 || error.statusCode === 403) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  console.error(`❌ ${fallbackMessage}:`, error);
+  return res.status(500).json({ success: false, message: fallbackMessage });
+}
+
+async function loadVisibleReport(id, employeeId) {
+  const result = await query(
+    `SELECT sr.*, CONCAT(e.first_name, ' ', e.last_name) AS created_by_name
+       FROM saved_reports sr
+       LEFT JOIN employees e ON sr.created_by = e.id
+      WHERE sr.id = $1 AND (sr.created_by = $2 OR sr.is_shared = true)`,
+    [id, employeeId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * GET /api/admin/reports/sources
+ *
+ * Data sources (and their fields) the current employee may report on.
+ */
+router.get('/sources', async (req, res) => {
+  try {
+    const { permissions } = await getScope(req);
+    res.json({ success: true, data: listAvailableSources(permissions) });
+  } catch (error) {
+    sendReportError(res, error, 'Failed to load report data sources');
+  }
+});
+
+/**
+ * POST /api/admin/reports/preview
+ *
+ * Run an unsaved definition -- powers the builder's live preview.
+ */
+router.post('/preview', async (req, res) => {
+  try {
+    const scope = await getScope(req);
+    const data = await runReport(req.body?.definition, scope);
+    res.json({ success: true, data });
+  } catch (error) {
+    sendReportError(res, error, 'Failed to run report preview');
+  }
+});
+
+/**
+ * GET /api/admin/reports
+ *
+ * Saved reports visible to the current employee (own + shared).
+ */
+router.get('/', async (req, res) => {
+  try {
+    const result = await query(
+      `SELECT sr.id, sr.name, sr.description, sr.data_source, sr.definition, sr.is_shared,
+              sr.created_by, sr.created_at, sr.updated_at,
+              CONCAT(e.first_name, ' ', e.last_name) AS created_by_name
+         FROM saved_reports sr
+         LEFT JOIN employees e ON sr.created_by = e.id
+        WHERE sr.created_by = $1 OR sr.is_shared = true
+        ORDER BY sr.name`,
+      [req.session.userId]
+    );
+    res.json({ success: true, data: result.rows });
+  } catch (error) {
+    sendReportError(res, error, 'Failed to list saved reports');
+  }
+});
+
+/**
+ * POST /api/admin/reports
+ *
+ * Save a new report definition.
+ */
+router.post('/', async (req, res) => {
+  try {
+    const { name, description, definition, is_shared } = req.body;
+    if (!name || !name.trim()) {
+      return res.status(400).json({ success: false, message: 'Report name is required' });
+    }
+    const validationError = validateDefinition(definition);
+    if (validationError) {
+      return res.status(400).json({ success: false, message: validationError });
+    }
+
+    const result = await query(
+      `INSERT INTO saved_reports (name, description, data_source, definition, is_shared, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [name.trim(), description || null, definition.dataSource, definition, Boolean(is_shared), req.session.userId]
+    );
+
+    console.log(`✅ Saved report created: ${result.rows[0].name}`);
+    res.status(201).json({ success: true, data: result.rows[0] });
+  } catch (error) {
+    sendReportError(res, error, 'Failed to save report');
+  }
+});
+
+/**
+ * GET /api/admin/reports/:id
+ */
+router.get('/:id', async (req, res) => {
+  try {
+    const report = await loadVisibleReport(req.params.id, req.session.userId);
+    if (!report) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+    res.json({ success: true, data: report });
+  } catch (error) {
+    sendReportError(res, error, 'Failed to load report');
+  }
+});
+
+/**
+ * PUT /api/admin/reports/:id
+ *
+ * Update a saved report. Owners can always edit; others need
+ * manage.reports.enable (and can only see shared reports anyway).
+ */
+router.put('/:id', async (req, res) => {
+  try {
+    const { employeeId, permissions } = await getScope(req);
+    const existing = await loadVisibleReport(req.params.id, employeeId);
+    if (!existing) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+    if (existing.created_by !== employeeId && !permissions.includes('manage.reports.enable')) {
+      return res.status(403).json({ success: false, message: 'Only the report owner can edit this report' });
+    }
+
+    const { name, description, definition, is_shared } = req.body;
+    if (definition) {
+      const validationError = validateDefinition(definition);
+      if (validationError) {
+        return res.status(400).json({ success: false, message: validationError });
+      }
+    }
+
+    const result = await query(
+      `UPDATE saved_reports
+          SET name = COALESCE($2, name),
+              description = COALESCE($3, description),
+              data_source = COALESCE($4, data_source),
+              definition = COALESCE($5, definition),
+              is_shared = COALESCE($6, is_shared),
+              updated_at = NOW()
+        WHERE id = $1
+        RETURNING *`,
+      [
+        req.params.id,
+        name ? name.trim() : null,
+        description ?? null,
+        definition ? definition.dataSource : null,
+        definition || null,
+        typeof is_shared === 'boolean' ? is_shared : null
+      ]
+    );
+
+    res.json({ success: true, data: result.rows[0] });
+  } catch (error) {
+    sendReportError(res, error, 'Failed to update report');
+  }
+});
+
+/**
+ * DELETE /api/admin/reports/:id
+ */
+router.delete('/:id', async (req, res) => {
+  try {
+    const { employeeId, permissions } = await getScope(req);
+    const existing = await loadVisibleReport(req.params.id, employeeId);
+    if (!existing) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+    if (existing.created_by !== employeeId && !permissions.includes('manage.reports.enable')) {
+      return res.status(403).json({ success: false, message: 'Only the report owner can delete this report' });
+    }
+
+    await query('DELETE FROM saved_reports WHERE id = $1', [req.params.id]);
+    res.json({ success: true, message: 'Report deleted' });
+  } catch (error) {
+    sendReportError(res, error, 'Failed to delete report');
+  }
+});
+
+/**
+ * GET /api/admin/reports/:id/run
+ *
+ * Run a saved report with the *requester's* permissions -- a shared report
+ * never widens what the viewer can see.
+ */
+router.get('/:id/run', async (req, res) => {
+  try {
+    const scope = await getScope(req);
+    const report = await loadVisibleReport(req.params.id, scope.employeeId);
+    if (!report) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+    const data = await runReport(report.definition, scope);
+    res.json({ success: true, data: { report, ...data } });
+  } catch (error) {
+    sendReportError(res, error, 'Failed to run report');
+  }
+});
+
+export default router;
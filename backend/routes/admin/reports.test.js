@@ -0,0 +1,38 @@
+// Source-lint regression tests for routes/admin/reports.js -- same pattern
+// as routes/admin/zenithgridLicenses.test.js. Pins auth + RBAC gating for
+// the report builder.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const SRC = readFileSync(join(here, 'reports.js'), 'utf8');
+
+test('module requires authMiddleware + requireEmployee + view.reports.enable for all routes', () => {
+  assert.match(SRC, /router\.use\(authMiddleware\)/);
+  assert.match(SRC, /router\.use\(requireEmployee\)/);
+  assert.match(SRC, /router\.use\(requirePermission\(\s*['"]view\.reports\.enable['"]\s*\)\)/);
+});
+
+test('saved reports are limited to own or shared', () => {
+  const matches = SRC.match(/created_by = \$\d+ OR sr\.is_shared = true/g) || [];
+  assert.ok(matches.length >= 2, 'list + single-report lookups must both scope by owner/shared');
+});
+
+test('editing or deleting another employee\'s report requires manage.reports.enable', () => {
+  const matches = SRC.match(/permissions\.includes\('manage\.reports\.enable'\)/g) || [];
+  assert.equal(matches.length, 2);
+});
+
+test('reports run with the requester\'s scope, not the owner\'s', () => {
+  assert.match(SRC, /runReport\(report\.definition, scope\)/);
+  assert.doesNotMatch(SRC, /employeeId:\s*report\.created_by/);
+});
+
+test('definitions are validated before they are stored', () => {
+  const matches = SRC.match(/validateDefinition\(definition\)/g) || [];
+  assert.equal(matches.length, 2, 'POST and PUT both validate');
+});
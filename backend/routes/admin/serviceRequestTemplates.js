@@ -0,0 +1,115 @@
+/**
+ * Service request templates for recurring issue types.
+ *
+ * Any employee can list templates (to open a request from one); creating,
+ * editing and deleting them needs manage.service_request_templates.enable.
+ */
+import express from 'express';
+import { authMiddleware, requireEmployee } from '../../middleware/authMiddleware.js';
+import { requirePermission } from '../../middleware/permissionMiddleware.js';
+import { query } from '../../config/database.js';
+import {
+  validateTemplateInput,
+  listTemplates,
+  saveTemplate,
+  deleteTemplate
+} from '../../services/serviceRequestTemplateService.js';
+
+const router = express.Router();
+
+router.use(authMiddleware);
+router.use(requireEmployee);
+
+const canManage = requirePermission('manage.service_request_templates.enable');
+
+function sendError(res, error, fallback) {
+  if (error.statusCode === 400 || error.statusCode === 404) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  if (error.code === '23505') {
+    return res.status(400).json({ success: false, message: 'That service type already has a template with this name' });
+  }
+  if (error.code === '23503') {
+    return res.status(400).json({ success: false, message: 'Unknown service type or urgency level' });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  return res.status(500).json({ success: false, message: fallback });
+}
+
+/**
+ * GET /api/admin/service-request-templates/options
+ *
+ * Service types and urgency levels for the template editor.
+ */
+router.get('/options', async (req, res) => {
+  try {
+    const [serviceTypes, urgencyLevels] = await Promise.all([
+      query('SELECT id, name FROM service_types WHERE is_active = true ORDER BY name'),
+      query('SELECT id, name FROM urgency_levels WHERE is_active = true ORDER BY display_order')
+    ]);
+    res.json({ success: true, data: { serviceTypes: serviceTypes.rows, urgencyLevels: urgencyLevels.rows } });
+  } catch (error) {
+    sendError(res, error, 'Failed to load template options');
+  }
+});
+
+/**
+ * GET /api/admin/service-request-templates
+ *
+ * Query: serviceTypeId? -- one service type's templates
+ *        activeOnly=true -- skip inactive templates
+ */
+router.get('/', async (req, res) => {
+  try {
+    const serviceTypeId = typeof req.query.serviceTypeId === 'string' && req.query.serviceTypeId ? req.query.serviceTypeId : null;
+    const templates = await listTemplates({ query }, { serviceTypeId, activeOnly: req.query.activeOnly === 'true' });
+    res.json({ success: true, data: templates });
+  } catch (error) {
+    sendError(res, error, 'Failed to load service request templates');
+  }
+});
+
+/**
+ * POST /api/admin/service-request-templates
+ *
+ * Body: { serviceTypeId, name, title, description?, checklistItems?: [{ text, required }],
+ *         estimatedDurationMinutes?, urgencyLevelId?, clientVisible?, isActive?, sortOrder? }
+ */
+router.post('/', canManage, async (req, res) => {
+  try {
+    const input = validateTemplateInput(req.body);
+    const id = await saveTemplate({ query }, input, null, req.session.userId);
+    res.status(201).json({ success: true, message: 'Template created', data: { id } });
+  } catch (error) {
+    sendError(res, error, 'Failed to create service request template');
+  }
+});
+
+/**
+ * PUT /api/admin/service-request-templates/:id
+ *
+ * Requests already opened from the template keep their fields.
+ */
+router.put('/:id', canManage, async (req, res) => {
+  try {
+    const input = validateTemplateInput(req.body);
+    await saveTemplate({ query }, input, req.params.id);
+    res.json({ success: true, message: 'Template saved', data: { id: req.params.id } });
+  } catch (error) {
+    sendError(res, error, 'Failed to update service request template');
+  }
+});
+
+/**
+ * DELETE /api/admin/service-request-templates/:id
+ */
+router.delete('/:id', canManage, async (req, res) => {
+  try {
+    await deleteTemplate({ query }, req.params.id);
+    res.json({ success: true, message: 'Template deleted' });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete service request template');
+  }
+});
+
+export default router;
@@ -0,0 +1,29 @@
+// Source-lint regression tests for routes/admin/serviceRequestTemplates.js --
+// same pattern as routes/admin/quotes.test.js. Pins auth + RBAC gating.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const SRC = readFileSync(join(here, 'serviceRequestTemplates.js'), 'utf8');
+
+test('module requires authMiddleware + requireEmployee', () => {
+  assert.match(SRC, /router\.use\(authMiddleware\)/);
+  assert.match(SRC, /router\.use\(requireEmployee\)/);
+});
+
+test('every change needs manage.service_request_templates', () => {
+  assert.match(SRC, /const canManage = requirePermission\('manage\.service_request_templates\.enable'\)/);
+  const changes = SRC.match(/router\.(post|put|delete)\([^,]+,[^,]+,/g) || [];
+  assert.equal(changes.length, 3);
+  for (const route of changes) {
+    assert.ok(route.includes('canManage'), `${route} should use canManage`);
+  }
+});
+
+test('template input is validated on create and update', () => {
+  assert.equal((SRC.match(/validateTemplateInput\(req\.body\)/g) || []).length, 2);
+});
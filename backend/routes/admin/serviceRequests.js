@@ -5,12 +5,42 @@ import { fileURLToPath } from 'url';
 import fs from 'fs/promises';
 import crypto from 'crypto';
 import { getPool } from '../../config/database.js';
-import { sendEmployeeNoteNotificationToClient } from '../../services/emailService.js';
+import { sendClientReplyEmail, sendEmployeeNoteNotificationToClient } from '../../services/emailService.js';
 import { websocketService } from '../../services/websocketService.js';
+import {
+  calculateServiceRequestBilling,
+  insertInvoiceLineItems,
+  nextInvoiceNumber,
+  recordInvoiceHistory
+} from '../../services/invoiceService.js';
+import { invoiceQuotedRequest } from '../../services/quoteService.js';
+import { drawDownPrepaidHours } from '../../services/prepaidHoursService.js';
+import { computeInvoiceTax, resolveInvoiceTax } from '../../services/taxService.js';
 import filterPresetService from '../../services/filterPresetService.js';
 import virusScanService from '../../services/virusScanService.js';
 import quotaManagementService from '../../services/quotaManagementService.js';
 import { sendNotificationToEmployees, sendNotificationToUser } from '../pushRoutes.js';
+import { requirePermission } from '../../middleware/permissionMiddleware.js';
+import { generateRequestNumber } from '../../utils/requestNumberGenerator.js';
+import { initializeServiceRequestWorkflow } from '../../services/workflowService.js';
+import { applyTemplate, resolveRequestTemplate } from '../../services/serviceRequestTemplateService.js';
+import { CLIENT_REPLY_NOTE_TYPE, createClientReply, deliverClientReply } from '../../services/clientReplyService.js';
+import {
+  getRelations,
+  setParent,
+  addLink,
+  removeLink,
+  mergeDuplicate
+} from '../../services/serviceRequestRelationService.js';
+import {
+  listChecklist,
+  addChecklistItems,
+  addItemsToRequest,
+  setItemChecked,
+  reorderChecklist,
+  deleteChecklistItem,
+  assertChecklistComplete
+} from '../../services/serviceRequestChecklistService.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -178,6 +208,11 @@ router.get('/service-requests', async (req, res) => {
         inv.invoice_number,
         inv.total_amount as invoice_total,
         inv.payment_status as invoice_payment_status,
+        sla.policy_name as sla_policy_name,
+        sla.acknowledge_due_at as sla_acknowledge_due_at,
+        sla.resolve_due_at as sla_resolve_due_at,
+        sla.acknowledge_breached_at as sla_acknowledge_breached_at,
+        sla.resolve_breached_at as sla_resolve_breached_at,
         COUNT(*) OVER() as total_count
       FROM service_requests sr
       LEFT JOIN service_request_statuses srs ON sr.status_id = srs.id
@@ -192,6 +227,7 @@ router.get('/service-requests', async (req, res) => {
       LEFT JOIN employees closed ON sr.closed_by_employee_id = closed.id
       LEFT JOIN service_request_closure_reasons cr ON sr.closure_reason_id = cr.id
       LEFT JOIN invoices inv ON sr.id = inv.service_request_id
+      LEFT JOIN service_request_sla sla ON sr.id = sla.service_request_id
       ${whereClause}
       ORDER BY sr.${safeSortBy} ${safeSortOrder}
       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
@@ -480,6 +516,224 @@ router.get('/service-requests', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/admin/service-requests/new-request-options
+ * Businesses, service types, urgency and priority levels for opening a
+ * request on behalf of a client
+ */
+router.get('/service-requests/new-request-options', async (req, res) => {
+  try {
+    const pool = await getPool();
+    const [businesses, serviceTypes, urgencyLevels, priorityLevels] = await Promise.all([
+      pool.query('SELECT id, business_name FROM businesses WHERE soft_delete = false ORDER BY business_name'),
+      pool.query('SELECT id, name FROM service_types WHERE is_active = true ORDER BY name'),
+      pool.query('SELECT id, name FROM urgency_levels WHERE is_active = true ORDER BY display_order'),
+      pool.query('SELECT id, name FROM priority_levels ORDER BY created_at')
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        businesses: businesses.rows,
+        serviceTypes: serviceTypes.rows,
+        urgencyLevels: urgencyLevels.rows,
+        priorityLevels: priorityLevels.rows
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching new request options:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch new request options'
+    });
+  }
+});
+
+/**
+ * GET /api/admin/service-requests/new-request-options/:businessId
+ * The business's service locations and client contacts
+ */
+router.get('/service-requests/new-request-options/:businessId', async (req, res) => {
+  try {
+    const pool = await getPool();
+    const { businessId } = req.params;
+    const [locations, contacts] = await Promise.all([
+      pool.query(`
+        SELECT id, COALESCE(location_name, address_label) AS name
+          FROM service_locations
+         WHERE business_id = $1 AND soft_delete = false
+         ORDER BY is_headquarters DESC, name
+      `, [businessId]),
+      pool.query(`
+        SELECT id, TRIM(CONCAT(first_name, ' ', last_name)) AS name, email, phone
+          FROM users
+         WHERE business_id = $1 AND soft_delete = false
+         ORDER BY is_primary_contact DESC NULLS LAST, first_name, last_name
+      `, [businessId])
+    ]);
+
+    res.json({ success: true, data: { locations: locations.rows, contacts: contacts.rows } });
+  } catch (error) {
+    console.error('Error fetching business request options:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch business request options'
+    });
+  }
+});
+
+/**
+ * POST /api/admin/service-requests
+ * Open a service request on behalf of a client contact. Fields left blank
+ * are filled from template_id when one is given.
+ */
+router.post('/service-requests', requirePermission('create.service_requests.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+
+    let template;
+    try {
+      template = await resolveRequestTemplate(pool, req.body.template_id);
+    } catch (templateError) {
+      return res.status(templateError.statusCode || 500).json({ success: false, message: templateError.message });
+    }
+
+    const {
+      title,
+      description,
+      business_id: businessId,
+      client_id: clientId,
+      service_location_id: serviceLocationId,
+      requested_datetime: requestedDatetime,
+      requested_duration_minutes: requestedDuration,
+      urgency_level_id: urgencyLevelId,
+      priority_level_id: priorityLevelId,
+      service_type_id: serviceTypeId,
+      template_id: templateId
+    } = applyTemplate(template, req.body);
+
+    if (!businessId || !clientId || !serviceLocationId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Business, client contact and service location are required'
+      });
+    }
+    if (!title || !urgencyLevelId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Title and urgency are required'
+      });
+    }
+
+    // The contact and location must both belong to the business
+    const [contactResult, locationResult] = await Promise.all([
+      pool.query(
+        'SELECT first_name, last_name, email, phone FROM users WHERE id = $1 AND business_id = $2 AND soft_delete = false',
+        [clientId, businessId]
+      ),
+      pool.query(
+        'SELECT id FROM service_locations WHERE id = $1 AND business_id = $2 AND soft_delete = false',
+        [serviceLocationId, businessId]
+      )
+    ]);
+    if (contactResult.rows.length === 0 || locationResult.rows.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'The client contact and service location must belong to the business'
+      });
+    }
+    const contact = contactResult.rows[0];
+
+    const [statusResult, priorityResult] = await Promise.all([
+      pool.query(`
+        SELECT id FROM service_request_statuses
+        WHERE name = 'Submitted' AND is_active = true
+        ORDER BY display_order ASC, created_at ASC
+        LIMIT 1
+      `),
+      priorityLevelId
+        ? Promise.resolve({ rows: [{ id: priorityLevelId }] })
+        : pool.query(`SELECT id FROM priority_levels WHERE name = 'Medium' ORDER BY created_at ASC LIMIT 1`)
+    ]);
+    if (statusResult.rows.length === 0 || priorityResult.rows.length === 0) {
+      return res.status(500).json({
+        success: false,
+        message: 'No default service request status or priority found'
+      });
+    }
+
+    const requestNumber = await generateRequestNumber(pool);
+    const result = await pool.query(`
+      INSERT INTO service_requests (
+        request_number, title, description, client_id, business_id, service_location_id,
+        created_by_user_id, requested_datetime, requested_duration_minutes,
+        urgency_level_id, priority_level_id, status_id,
+        primary_contact_name, primary_contact_phone, primary_contact_email,
+        service_type_id, template_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $4, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
+      RETURNING id, request_number, created_at
+    `, [
+      requestNumber,
+      title,
+      description || '',
+      clientId,
+      businessId,
+      serviceLocationId,
+      requestedDatetime || null,
+      requestedDuration || null,
+      urgencyLevelId,
+      priorityResult.rows[0].id,
+      statusResult.rows[0].id,
+      [contact.first_name, contact.last_name].filter(Boolean).join(' ') || null,
+      contact.phone || null,
+      contact.email || null,
+      serviceTypeId || null,
+      templateId || null
+    ]);
+    const serviceRequestId = result.rows[0].id;
+
+    if (template) {
+      await addChecklistItems(pool, serviceRequestId, template.checklist_items, req.user.id);
+    }
+
+    const employeeName = `${req.user.firstName || ''} ${req.user.lastName || ''}`.trim() || req.user.email;
+    console.log(`📋 Service request ${requestNumber} opened by ${employeeName} for business ${businessId}`);
+
+    // Same notifications as a client-submitted request; don't block the response
+    initializeServiceRequestWorkflow(serviceRequestId, {
+      requestNumber,
+      title,
+      description: description || '',
+      clientName: [contact.first_name, contact.last_name].filter(Boolean).join(' ')
+    }).catch(workflowError => {
+      console.error('❌ Error initializing service request workflow:', workflowError);
+    });
+
+    websocketService.broadcastServiceRequestUpdate(serviceRequestId, 'created', {
+      requestNumber,
+      title,
+      businessId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `Service request ${requestNumber} created`,
+      data: {
+        id: serviceRequestId,
+        requestNumber,
+        createdAt: result.rows[0].created_at
+      }
+    });
+  } catch (error) {
+    console.error('Error creating service request:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create service request',
+      error: process.env.NODE_ENV === 'development' ? error.message : 'Internal server error'
+    });
+  }
+});
+
 /**
  * GET /api/admin/service-requests/closure-reasons
  * Get all available closure reasons
@@ -981,6 +1235,205 @@ router.get('/service-requests/:id/files', async (req, res) => {
   }
 });
 
+function sendChecklistError(res, error, fallback) {
+  if ([400, 403, 404].includes(error.statusCode)) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  return res.status(500).json({ success: false, message: fallback });
+}
+
+/**
+ * GET /api/admin/service-requests/:id/checklist
+ * The request's checklist in order
+ */
+router.get('/service-requests/:id/checklist', async (req, res) => {
+  try {
+    const pool = await getPool();
+    res.json({ success: true, data: { items: await listChecklist(pool, req.params.id) } });
+  } catch (error) {
+    sendChecklistError(res, error, 'Failed to fetch checklist');
+  }
+});
+
+/**
+ * POST /api/admin/service-requests/:id/checklist
+ * Append steps: { items: [{ text, required }] }
+ */
+router.post('/service-requests/:id/checklist', requirePermission('modify.service_requests.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+    const added = await addItemsToRequest(pool, req.params.id, req.body.items, req.user.id);
+    res.status(201).json({
+      success: true,
+      message: added === 1 ? 'Checklist step added' : `${added} checklist steps added`,
+      data: { items: await listChecklist(pool, req.params.id) }
+    });
+  } catch (error) {
+    sendChecklistError(res, error, 'Failed to add checklist steps');
+  }
+});
+
+/**
+ * PUT /api/admin/service-requests/:id/checklist/order
+ * Reorder the steps: { itemIds: [...] } listing every step
+ */
+router.put('/service-requests/:id/checklist/order', requirePermission('modify.service_requests.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+    await reorderChecklist(pool, req.params.id, req.body.itemIds);
+    res.json({ success: true, data: { items: await listChecklist(pool, req.params.id) } });
+  } catch (error) {
+    sendChecklistError(res, error, 'Failed to reorder checklist');
+  }
+});
+
+/**
+ * PATCH /api/admin/service-requests/:id/checklist/:itemId
+ * Check a step off or uncheck it: { checked }. Assigned technician only.
+ */
+router.patch('/service-requests/:id/checklist/:itemId', async (req, res) => {
+  try {
+    const pool = await getPool();
+    await setItemChecked(pool, req.params.id, req.params.itemId, req.body.checked, req.user.id);
+    const items = await listChecklist(pool, req.params.id);
+
+    websocketService.broadcastServiceRequestUpdate(req.params.id, 'checklist_updated', { items });
+
+    res.json({ success: true, data: { items } });
+  } catch (error) {
+    sendChecklistError(res, error, 'Failed to update checklist step');
+  }
+});
+
+/**
+ * DELETE /api/admin/service-requests/:id/checklist/:itemId
+ */
+router.delete('/service-requests/:id/checklist/:itemId', requirePermission('modify.service_requests.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+    await deleteChecklistItem(pool, req.params.id, req.params.itemId);
+    res.json({ success: true, message: 'Checklist step removed', data: { items: await listChecklist(pool, req.params.id) } });
+  } catch (error) {
+    sendChecklistError(res, error, 'Failed to remove checklist step');
+  }
+});
+
+function sendRelationError(res, error, fallback) {
+  if ([400, 404].includes(error.statusCode)) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  return res.status(500).json({ success: false, message: fallback });
+}
+
+/**
+ * GET /api/admin/service-requests/:id/relations
+ * Parent, children with a status/time rollup, links, and the request a
+ * merged duplicate went into
+ */
+router.get('/service-requests/:id/relations', async (req, res) => {
+  try {
+    const pool = await getPool();
+    res.json({ success: true, data: await getRelations(pool, req.params.id) });
+  } catch (error) {
+    sendRelationError(res, error, 'Failed to fetch related requests');
+  }
+});
+
+/**
+ * PUT /api/admin/service-requests/:id/parent
+ * Put the request under a parent: { parentRequestNumber }, or null to detach
+ */
+router.put('/service-requests/:id/parent', requirePermission('modify.service_requests.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+    const parent = await setParent(pool, {
+      serviceRequestId: req.params.id,
+      parentRequestNumber: req.body.parentRequestNumber
+    });
+
+    websocketService.broadcastServiceRequestUpdate(req.params.id, 'relations_updated', { parentId: parent?.id || null });
+
+    res.json({ success: true, data: await getRelations(pool, req.params.id) });
+  } catch (error) {
+    sendRelationError(res, error, 'Failed to set parent request');
+  }
+});
+
+/**
+ * POST /api/admin/service-requests/:id/links
+ * Link to another request: { targetRequestNumber, linkType }
+ */
+router.post('/service-requests/:id/links', requirePermission('modify.service_requests.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+    await addLink(pool, {
+      serviceRequestId: req.params.id,
+      targetRequestNumber: req.body.targetRequestNumber,
+      linkType: req.body.linkType,
+      employeeId: req.user.id
+    });
+    res.status(201).json({ success: true, data: await getRelations(pool, req.params.id) });
+  } catch (error) {
+    sendRelationError(res, error, 'Failed to link requests');
+  }
+});
+
+/**
+ * DELETE /api/admin/service-requests/:id/links/:linkId
+ */
+router.delete('/service-requests/:id/links/:linkId', requirePermission('modify.service_requests.enable'), async (req, res) => {
+  try {
+    const pool = await getPool();
+    await removeLink(pool, { serviceRequestId: req.params.id, linkId: req.params.linkId });
+    res.json({ success: true, data: await getRelations(pool, req.params.id) });
+  } catch (error) {
+    sendRelationError(res, error, 'Failed to remove link');
+  }
+});
+
+/**
+ * POST /api/admin/service-requests/:id/merge
+ * Merge this request, a duplicate, into { targetRequestNumber }: its notes
+ * and files move over and it is closed
+ */
+router.post('/service-requests/:id/merge', requirePermission('modify.service_requests.enable'), async (req, res) => {
+  const pool = await getPool();
+  const client = await pool.connect();
+
+  try {
+    const employeeName = `${req.user.firstName || ''} ${req.user.lastName || ''}`.trim() || req.user.email;
+
+    await client.query('BEGIN');
+    const merged = await mergeDuplicate(client, {
+      serviceRequestId: req.params.id,
+      targetRequestNumber: req.body.targetRequestNumber,
+      employee: { id: req.user.id, name: employeeName }
+    });
+    await client.query('COMMIT');
+
+    console.log(`🔀 ${merged.duplicate.request_number} merged into ${merged.target.request_number} by ${employeeName}`);
+
+    websocketService.broadcastServiceRequestUpdate(merged.duplicate.id, 'updated', { mergedIntoId: merged.target.id });
+    websocketService.broadcastServiceRequestUpdate(merged.target.id, 'updated', {
+      mergedFromId: merged.duplicate.id,
+      filesUploaded: merged.movedFiles > 0
+    });
+
+    res.json({
+      success: true,
+      message: `Merged into ${merged.target.request_number}`,
+      data: merged
+    });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    sendRelationError(res, error, 'Failed to merge requests');
+  } finally {
+    client.release();
+  }
+});
+
 /**
  * GET /api/admin/service-requests/:id/notes
  * Get all notes for a service request (admin can see all notes)
@@ -1014,7 +1467,11 @@ router.get('/service-requests/:id/notes', async (req, res) => {
         created_by_type,
         created_by_name,
         created_at,
-        is_visible_to_client
+        is_visible_to_client,
+        email_status,
+        email_to,
+        email_error,
+        email_sent_at
       FROM service_request_notes
       WHERE service_request_id = $1
       ORDER BY created_at DESC
@@ -1033,7 +1490,11 @@ router.get('/service-requests/:id/notes', async (req, res) => {
           created_by_type: row.created_by_type,
           created_by_name: row.created_by_name,
           created_at: row.created_at,
-          is_visible_to_client: row.is_visible_to_client
+          is_visible_to_client: row.is_visible_to_client,
+          email_status: row.email_status,
+          email_to: row.email_to,
+          email_error: row.email_error,
+          email_sent_at: row.email_sent_at
         }))
       }
     });
@@ -1048,17 +1509,44 @@ router.get('/service-requests/:id/notes', async (req, res) => {
   }
 });
 
+/**
+ * Email a client reply note, then push the note (with its delivery status)
+ * to everyone viewing the request.
+ */
+async function sendClientReply(pool, serviceRequestId, noteId, action) {
+  const note = await deliverClientReply(pool, { serviceRequestId, noteId }, { send: sendClientReplyEmail });
+
+  websocketService.broadcastServiceRequestUpdate(serviceRequestId, 'updated', {
+    [action]: true,
+    note
+  });
+  return note;
+}
+
 /**
  * POST /api/admin/service-requests/:id/notes
- * Add a new note to a service request
+ * Add a new note to a service request. With noteType 'client_reply' the
+ * note is also emailed to the request's contact and its delivery status
+ * recorded on it.
  */
 router.post('/service-requests/:id/notes', async (req, res) => {
   try {
     const { id } = req.params;
-    const { noteText, isVisibleToClient = true } = req.body;
+    const { noteText, isVisibleToClient = true, noteType } = req.body;
     const employeeId = req.user.id;
     const employeeName = `${req.user.firstName || ''} ${req.user.lastName || ''}`.trim() || req.user.email;
 
+    if (noteType === CLIENT_REPLY_NOTE_TYPE) {
+      const pool = await getPool();
+      const reply = await createClientReply(pool, {
+        serviceRequestId: id,
+        noteText,
+        employee: { id: employeeId, name: employeeName }
+      });
+      const note = await sendClientReply(pool, id, reply.id, 'noteAdded');
+      return res.json({ success: true, data: { note } });
+    }
+
     if (!noteText || noteText.trim().length === 0) {
       return res.status(400).json({
         success: false,
@@ -1215,6 +1703,9 @@ router.post('/service-requests/:id/notes', async (req, res) => {
     });
 
   } catch (error) {
+    if ([400, 404].includes(error.statusCode)) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
     console.error('Error adding service request note:', error);
     res.status(500).json({
       success: false,
@@ -1224,6 +1715,24 @@ router.post('/service-requests/:id/notes', async (req, res) => {
   }
 });
 
+/**
+ * POST /api/admin/service-requests/:id/notes/:noteId/resend
+ * Try emailing a client reply again after a failed delivery
+ */
+router.post('/service-requests/:id/notes/:noteId/resend', async (req, res) => {
+  try {
+    const pool = await getPool();
+    const note = await sendClientReply(pool, req.params.id, req.params.noteId, 'noteUpdated');
+    res.json({ success: true, data: { note } });
+  } catch (error) {
+    if ([400, 404].includes(error.statusCode)) {
+      return res.status(error.statusCode).json({ success: false, message: error.message });
+    }
+    console.error('❌ Error resending client reply:', error);
+    res.status(500).json({ success: false, message: 'Failed to resend reply' });
+  }
+});
+
 /**
  * GET /api/admin/service-requests/:id
  * Get single service request with full details
@@ -2086,7 +2595,7 @@ const calculateCost = async (pool, date, timeStart, timeEnd, baseRate, isFirstRe
 router.put('/service-requests/:id/close', async (req, res) => {
   try {
     const { id } = req.params;
-    const { closureReasonId, resolutionSummary, actualDurationMinutes, equipmentUsed } = req.body;
+    const { closureReasonId, resolutionSummary, actualDurationMinutes, equipmentUsed, checklistOverrideReason } = req.body;
     const pool = await getPool();
 
     // Get employee ID from req.user
@@ -2106,6 +2615,20 @@ router.put('/service-requests/:id/close', async (req, res) => {
       });
     }
 
+    // Required checklist steps must be checked off, or the closure overridden
+    let checklist;
+    try {
+      checklist = await assertChecklistComplete(pool, id, checklistOverrideReason);
+    } catch (checklistError) {
+      if (checklistError.statusCode !== 400) throw checklistError;
+      return res.status(400).json({
+        success: false,
+        message: checklistError.message,
+        code: 'CHECKLIST_INCOMPLETE',
+        incompleteItems: checklistError.incompleteItems || []
+      });
+    }
+
     // Get the "Closed" status ID
     const statusQuery = `
       SELECT id FROM service_request_statuses
@@ -2160,6 +2683,14 @@ router.put('/service-requests/:id/close', async (req, res) => {
 
     const closedAt = result.rows[0].closed_at;
 
+    if (checklist.overrideReason) {
+      await pool.query(`
+        UPDATE service_requests
+        SET checklist_override_reason = $1, checklist_overridden_by_employee_id = $2
+        WHERE id = $3
+      `, [checklist.overrideReason, employeeId, id]);
+    }
+
     // Close any open time entries (set end_time to the closure time)
     const closeTimeEntriesQuery = `
       UPDATE service_request_time_entries
@@ -2186,7 +2717,10 @@ router.put('/service-requests/:id/close', async (req, res) => {
     await pool.query(historyQuery, [
       id,
       employeeId,
-      `Request closed with reason ID ${closureReasonId}. Resolution: ${resolutionSummary.substring(0, 100)}...`
+      `Request closed with reason ID ${closureReasonId}. Resolution: ${resolutionSummary.substring(0, 100)}...` +
+        (checklist.overrideReason
+          ? ` Closed with ${checklist.incompleteItems.length} required checklist step(s) unchecked: ${checklist.overrideReason}`
+          : '')
     ]);
 
     // Check if closure reason is "Complete" - only generate invoice for completed requests
@@ -2200,208 +2734,57 @@ router.put('/service-requests/:id/close', async (req, res) => {
     const isCompleted = closureReasonName.toLowerCase() === 'complete';
 
     let createdInvoice = null;
+    let billingDeferred = false;
+    let invoicedFromQuote = false;
 
-    // Only generate invoice if the request was completed successfully
+    // A request created by accepting a quote is billed at the quoted price,
+    // whatever the business's billing mode (services/quoteService.js)
     if (isCompleted) {
-    // Generate invoice
-    // Get service request details with business info and rate
-    const srDetailsQuery = `
-      SELECT
-        sr.id,
-        sr.request_number,
-        sr.title,
-        sr.business_id,
-        sr.created_at as service_start_date,
-        sr.closed_at,
-        sr.requested_datetime,
-        sr.requested_duration_minutes,
-        b.business_name,
-        b.rate_category_id,
-        hrc.base_hourly_rate,
-        hrc.category_name as rate_category_name
-      FROM service_requests sr
-      JOIN businesses b ON sr.business_id = b.id
-      LEFT JOIN hourly_rate_categories hrc ON b.rate_category_id = hrc.id
-      WHERE sr.id = $1
-    `;
-    const srDetails = await pool.query(srDetailsQuery, [id]);
-
-    if (srDetails.rows.length === 0) {
-      throw new Error('Failed to fetch service request details for invoice');
+      createdInvoice = await invoiceQuotedRequest(pool, id, { workDescription: resolutionSummary, employeeId });
+      invoicedFromQuote = createdInvoice !== null;
     }
 
-    const serviceRequest = srDetails.rows[0];
-    const baseRate = parseFloat(serviceRequest.base_hourly_rate) || 75.00; // Default to Standard rate
-
-    // Get time breakdown with first-time client discount
-    const timeBreakdownUrl = `/service-requests/${id}/time-breakdown`;
-    const timeBreakdownQuery = `
-      SELECT business_id, client_id
-      FROM service_requests
-      WHERE id = $1
-    `;
-    const srResult = await pool.query(timeBreakdownQuery, [id]);
-
-    if (srResult.rows.length === 0) {
-      throw new Error('Service request not found for time breakdown');
+    // Logged time is drawn down from the business's prepaid hour blocks first;
+    // only the hours beyond the balance are billed (services/prepaidHoursService.js)
+    let prepaid = null;
+    if (isCompleted && !invoicedFromQuote) {
+      prepaid = await drawDownPrepaidHours(id, { employeeId });
     }
+    const coveredByPrepaid = prepaid?.fullyCovered === true;
 
-    const businessId = srResult.rows[0].business_id;
-    const clientId = srResult.rows[0].client_id;
-
-    // Check if this is the client's first non-cancelled service request
-    // First-hour comp applies to the first service request that isn't cancelled
-    // If all previous requests were cancelled, a new request can still get the comp
-    const previousNonCancelledQuery = `
-      SELECT COUNT(*) as count
-      FROM service_requests sr
-      JOIN service_request_statuses srs ON sr.status_id = srs.id
-      WHERE sr.client_id = $1
-        AND sr.soft_delete = false
-        AND srs.name != 'Cancelled'
-        AND sr.created_at < (
-          SELECT created_at FROM service_requests WHERE id = $2
-        )
-    `;
-    const previousResult = await pool.query(previousNonCancelledQuery, [clientId, id]);
-    const isFirstServiceRequest = parseInt(previousResult.rows[0].count) === 0;
-
-    // Get all time entries for this service request (including active ones)
-    // Round start time DOWN to nearest 5 minutes, end time UP to nearest 30 minutes
-    const timeEntriesQuery = `
-      SELECT
-        id,
-        start_time,
-        -- Round start time DOWN to nearest 5 minutes
-        date_trunc('hour', start_time) + INTERVAL '5 min' * FLOOR(EXTRACT(minute FROM start_time) / 5) as rounded_start_time,
-        -- Round end time UP to nearest 30 minutes
-        CASE
-          WHEN end_time IS NULL THEN
-            date_trunc('hour', NOW()) + INTERVAL '30 min' * CEIL(EXTRACT(minute FROM NOW()) / 30)
-          ELSE
-            date_trunc('hour', end_time) + INTERVAL '30 min' * CEIL(EXTRACT(minute FROM end_time) / 30)
-        END as rounded_end_time,
-        CASE
-          WHEN end_time IS NULL THEN NOW()
-          ELSE end_time
-        END as end_time,
-        CASE
-          WHEN end_time IS NULL THEN
-            EXTRACT(EPOCH FROM (
-              (date_trunc('hour', NOW()) + INTERVAL '30 min' * CEIL(EXTRACT(minute FROM NOW()) / 30)) -
-              (date_trunc('hour', start_time) + INTERVAL '5 min' * FLOOR(EXTRACT(minute FROM start_time) / 5))
-            )) / 60
-          ELSE
-            EXTRACT(EPOCH FROM (
-              (date_trunc('hour', end_time) + INTERVAL '30 min' * CEIL(EXTRACT(minute FROM end_time) / 30)) -
-              (date_trunc('hour', start_time) + INTERVAL '5 min' * FLOOR(EXTRACT(minute FROM start_time) / 5))
-            )) / 60
-        END as duration_minutes
-      FROM service_request_time_entries
-      WHERE service_request_id = $1
-      ORDER BY start_time
-    `;
-    const timeEntriesResult = await pool.query(timeEntriesQuery, [id]);
-
-    // Get rate tiers
-    const tiersQuery = `
-      SELECT
-        tier_name,
-        tier_level,
-        day_of_week,
-        time_start,
-        time_end,
-        rate_multiplier
-      FROM service_hour_rate_tiers
-      WHERE is_active = true
-      ORDER BY tier_level DESC
-    `;
-    const tiersResult = await pool.query(tiersQuery);
-    const tiers = tiersResult.rows;
-
-    // Build chronological array of minutes
-    const chronologicalMinutes = [];
-    for (let i = 0; i < timeEntriesResult.rows.length; i++) {
-      const entry = timeEntriesResult.rows[i];
-      const isLastEntry = i === timeEntriesResult.rows.length - 1;
-
-      // Start time is always actual (no rounding)
-      const startTime = new Date(entry.start_time);
-      const rawEndTime = new Date(entry.end_time);
-
-      // Only round the FINAL end time up to nearest 15 minutes
-      let endTime = rawEndTime;
-      if (isLastEntry) {
-        const endMinutes = rawEndTime.getUTCMinutes();
-        const roundedUpMinutes = Math.ceil(endMinutes / 15) * 15;
-        endTime = new Date(rawEndTime);
-        if (roundedUpMinutes === 60) {
-          endTime.setUTCHours(endTime.getUTCHours() + 1);
-          endTime.setUTCMinutes(0, 0, 0);
-        } else {
-          endTime.setUTCMinutes(roundedUpMinutes, 0, 0);
-        }
-      }
-
-      let currentTime = new Date(startTime);
-
-      while (currentTime < endTime) {
-        // All timestamps are UTC - compare directly
-        const dayOfWeek = currentTime.getUTCDay();
-        const hours = String(currentTime.getUTCHours()).padStart(2, '0');
-        const minutes = String(currentTime.getUTCMinutes()).padStart(2, '0');
-        const seconds = String(currentTime.getUTCSeconds()).padStart(2, '0');
-        const timeString = `${hours}:${minutes}:${seconds}`;
-        let assignedTier = 'Standard';
-        let rateMultiplier = 1.0;
-
-        for (const tier of tiers) {
-          const tierDay = tier.day_of_week;
-          if (tierDay === dayOfWeek && timeString >= tier.time_start && timeString < tier.time_end) {
-            assignedTier = tier.tier_name;
-            rateMultiplier = parseFloat(tier.rate_multiplier);
-            break;
-          }
-        }
-
-        chronologicalMinutes.push({
-          timestamp: new Date(currentTime),
-          tier: assignedTier,
-          multiplier: rateMultiplier
-        });
-
-        currentTime.setMinutes(currentTime.getMinutes() + 1);
-      }
+    // Businesses on consolidated billing get one invoice a month for all their
+    // completed requests (services/consolidatedBillingService.js)
+    if (isCompleted && !invoicedFromQuote && !coveredByPrepaid) {
+      const billingModeResult = await pool.query(`
+        SELECT b.billing_mode
+        FROM service_requests sr
+        JOIN businesses b ON sr.business_id = b.id
+        WHERE sr.id = $1
+      `, [id]);
+      billingDeferred = billingModeResult.rows[0]?.billing_mode === 'monthly_consolidated';
     }
 
-    // Apply first-time client discount
-    const minutesToWaive = isFirstServiceRequest ? 60 : 0;
-    const waivedArray = chronologicalMinutes.slice(0, minutesToWaive);
-    const billableArray = chronologicalMinutes.slice(minutesToWaive);
-
-    // Calculate breakdown
-    let standardMinutes = 0, premiumMinutes = 0, emergencyMinutes = 0;
-    for (const minute of billableArray) {
-      if (minute.tier === 'Standard') standardMinutes++;
-      else if (minute.tier === 'Premium') premiumMinutes++;
-      else if (minute.tier === 'Emergency') emergencyMinutes++;
+    if (billingDeferred) {
+      await pool.query(`
+        UPDATE service_requests
+        SET billing_deferred_at = $1, consolidated_invoice_id = NULL
+        WHERE id = $2
+      `, [closedAt, id]);
     }
 
-    // Convert minutes to hours (no additional rounding - end time already rounded)
-    const standardBillableHours = standardMinutes / 60;
-    const premiumBillableHours = premiumMinutes / 60;
-    const emergencyBillableHours = emergencyMinutes / 60;
-
-    // Calculate costs
-    const standardRate = baseRate * 1.0;
-    const premiumRate = baseRate * 1.5;
-    const emergencyRate = baseRate * 2.0;
+    // Only generate invoice if the request was completed successfully
+    if (isCompleted && !billingDeferred && !invoicedFromQuote && !coveredByPrepaid) {
+    // Generate invoice from the logged time, split by rate tier
+    const billing = prepaid?.billing ?? await calculateServiceRequestBilling(pool, id);
 
-    const standardCost = standardBillableHours * standardRate;
-    const premiumCost = premiumBillableHours * premiumRate;
-    const emergencyCost = emergencyBillableHours * emergencyRate;
+    if (!billing) {
+      throw new Error('Failed to fetch service request details for invoice');
+    }
 
-    const subtotal = standardCost + premiumCost + emergencyCost;
+    const { serviceRequest, baseRate, isFirstServiceRequest, tiers, lineItems, actualHoursBreakdown } = billing;
+    const standardBillableHours = billing.standardHours;
+    const premiumBillableHours = billing.premiumHours;
+    const emergencyBillableHours = billing.emergencyHours;
 
     // Get company settings
     const settingsQuery = `SELECT setting_key, setting_value FROM company_settings`;
@@ -2412,17 +2795,13 @@ router.put('/service-requests/:id/close', async (req, res) => {
     });
 
     const dueDays = parseInt(settings.invoice_due_days) || 30;
-    const taxRate = parseFloat(settings.invoice_tax_rate) || 0;
-    const taxAmount = subtotal * taxRate;
-    const totalAmount = subtotal + taxAmount;
+    const tax = await resolveInvoiceTax(pool, serviceRequest.business_id);
+    const totals = computeInvoiceTax(lineItems, tax);
+    const { subtotal, taxAmount, totalAmount } = totals;
 
     // Generate unique invoice number (format: INV-YYYYMMDD-XXXX)
     const invoiceDate = new Date();
-    const dateStr = invoiceDate.toISOString().slice(0, 10).replace(/-/g, '');
-    const countQuery = `SELECT COUNT(*) as count FROM invoices WHERE invoice_number LIKE $1`;
-    const countResult = await pool.query(countQuery, [`INV-${dateStr}-%`]);
-    const invoiceCount = parseInt(countResult.rows[0].count) + 1;
-    const invoiceNumber = `INV-${dateStr}-${invoiceCount.toString().padStart(4, '0')}`;
+    const invoiceNumber = await nextInvoiceNumber(pool, 'INV', invoiceDate);
 
     // Calculate due date
     const dueDate = new Date(invoiceDate);
@@ -2457,29 +2836,6 @@ router.put('/service-requests/:id/close', async (req, res) => {
       );
     }
 
-    // Build actual hours breakdown from time entries
-    const actualHoursBreakdown = {
-      timeEntries: timeEntriesResult.rows.map(entry => ({
-        startTime: entry.start_time,
-        endTime: entry.end_time
-      })),
-      standard: {
-        actualMinutes: chronologicalMinutes.filter(m => m.tier === 'Standard').length,
-        actualHours: (chronologicalMinutes.filter(m => m.tier === 'Standard').length / 60).toFixed(2),
-        roundedHours: standardBillableHours.toFixed(2)
-      },
-      premium: {
-        actualMinutes: chronologicalMinutes.filter(m => m.tier === 'Premium').length,
-        actualHours: (chronologicalMinutes.filter(m => m.tier === 'Premium').length / 60).toFixed(2),
-        roundedHours: premiumBillableHours.toFixed(2)
-      },
-      emergency: {
-        actualMinutes: chronologicalMinutes.filter(m => m.tier === 'Emergency').length,
-        actualHours: (chronologicalMinutes.filter(m => m.tier === 'Emergency').length / 60).toFixed(2),
-        roundedHours: emergencyBillableHours.toFixed(2)
-      }
-    };
-
     // Insert invoice with snapshots
     const invoiceQuery = `
       INSERT INTO invoices (
@@ -2508,10 +2864,12 @@ router.put('/service-requests/:id/close', async (req, res) => {
         work_description,
         rate_tiers_snapshot,
         original_cost_estimate,
-        actual_hours_breakdown
+        actual_hours_breakdown,
+        currency,
+        tax_breakdown
       ) VALUES (
         $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15,
-        $16, $17, $18, $19, $20, $21, 'due', $22, $23, $24, $25
+        $16, $17, $18, $19, $20, $21, 'due', $22, $23, $24, $25, $26, $27
       )
       RETURNING id, invoice_number
     `;
@@ -2522,18 +2880,18 @@ router.put('/service-requests/:id/close', async (req, res) => {
       invoiceNumber,
       baseRate,
       standardBillableHours,
-      standardRate,
-      standardCost,
+      billing.rates.standard,
+      billing.costs.standard,
       premiumBillableHours,
-      premiumRate,
-      premiumCost,
+      billing.rates.premium,
+      billing.costs.premium,
       emergencyBillableHours,
-      emergencyRate,
-      emergencyCost,
-      waivedArray.length / 60,
+      billing.rates.emergency,
+      billing.costs.emergency,
+      billing.waivedHours,
       isFirstServiceRequest,
       subtotal,
-      taxRate,
+      tax.taxRate,
       taxAmount,
       totalAmount,
       invoiceDate,
@@ -2541,10 +2899,20 @@ router.put('/service-requests/:id/close', async (req, res) => {
       resolutionSummary,
       JSON.stringify(tiers),                    // rate_tiers_snapshot
       JSON.stringify(originalCostEstimate),     // original_cost_estimate
-      JSON.stringify(actualHoursBreakdown)      // actual_hours_breakdown
+      JSON.stringify(actualHoursBreakdown),     // actual_hours_breakdown
+      tax.currency,
+      JSON.stringify(totals.taxBreakdown)       // tax_breakdown
     ]);
 
-    const createdInvoice = invoiceResult.rows[0];
+    createdInvoice = invoiceResult.rows[0];
+
+    await insertInvoiceLineItems(pool, createdInvoice.id, totals.lineItems);
+    await recordInvoiceHistory(pool, {
+      invoiceId: createdInvoice.id,
+      action: 'created',
+      details: { source: 'service_request', requestNumber: serviceRequest.request_number, totalAmount },
+      employeeId
+    });
 
     // Get client ID to notify about new invoice
     const clientQuery = await pool.query(`
@@ -2590,6 +2958,8 @@ router.put('/service-requests/:id/close', async (req, res) => {
         closed: true,
         invoiceGenerated: createdInvoice !== null,
         invoiceId: createdInvoice?.id,
+        billingDeferred,
+        prepaidHoursApplied: prepaid?.hoursApplied ?? 0,
         statusId: completedStatusId,
         closureReason: closureReasonName
       });
@@ -2600,11 +2970,25 @@ router.put('/service-requests/:id/close', async (req, res) => {
 
     res.json({
       success: true,
-      message: createdInvoice
-        ? 'Service request closed successfully and invoice generated'
-        : `Service request closed successfully (${closureReasonName})`,
+      message: invoicedFromQuote
+        ? 'Service request closed successfully and invoiced at the quoted price'
+        : coveredByPrepaid
+          ? `Service request closed successfully; ${prepaid.hoursApplied} prepaid hours drawn down, nothing to invoice`
+          : createdInvoice
+            ? prepaid
+              ? `Service request closed successfully; ${prepaid.hoursApplied} prepaid hours drawn down and the rest invoiced`
+              : 'Service request closed successfully and invoice generated'
+            : billingDeferred
+              ? 'Service request closed successfully; it will be billed on the monthly consolidated invoice'
+              : `Service request closed successfully (${closureReasonName})`,
       data: {
         ...result.rows[0],
+        billingDeferred,
+        prepaid: prepaid ? {
+          hoursApplied: prepaid.hoursApplied,
+          remainingHours: prepaid.balance.remainingHours,
+          isLow: prepaid.balance.isLow
+        } : null,
         invoice: createdInvoice ? {
           id: createdInvoice.id,
           invoiceNumber: createdInvoice.invoice_number
@@ -0,0 +1,265 @@
+/**
+ * SLA configuration -- policies, business-hours calendars and the breach log.
+ *
+ * Targets are enforced by the SLA monitor in services/slaService.js. Every
+ * route requires manage.sla_policies.enable.
+ */
+import express from 'express';
+import { authMiddleware, requireEmployee } from '../../middleware/authMiddleware.js';
+import { requirePermission } from '../../middleware/permissionMiddleware.js';
+import { query } from '../../config/database.js';
+import { validateCalendar, validateSlaPolicy } from '../../services/slaService.js';
+
+const router = express.Router();
+
+router.use(authMiddleware);
+router.use(requireEmployee);
+router.use(requirePermission('manage.sla_policies.enable'));
+
+const POLICY_SELECT = `
+  SELECT p.*, b.business_name, ul.name AS urgency_name, c.name AS calendar_name
+    FROM sla_policies p
+    LEFT JOIN businesses b ON p.business_id = b.id
+    LEFT JOIN urgency_levels ul ON p.urgency_level_id = ul.id
+    LEFT JOIN sla_business_calendars c ON p.calendar_id = c.id
+`;
+
+const CALENDAR_SELECT = `
+  SELECT id, name, timezone, weekly_hours,
+         ARRAY(SELECT to_char(h, 'YYYY-MM-DD') FROM unnest(holidays) h ORDER BY h) AS holidays,
+         created_at, updated_at
+    FROM sla_business_calendars
+`;
+
+function sendError(res, error, fallback) {
+  if (error.statusCode === 400) {
+    return res.status(400).json({ success: false, message: error.message });
+  }
+  // idx_sla_policies_scope
+  if (error.code === '23505') {
+    return res.status(400).json({
+      success: false,
+      message: 'An active policy already covers this business / urgency combination'
+    });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  return res.status(500).json({ success: false, message: fallback });
+}
+
+/**
+ * GET /api/admin/sla/options
+ *
+ * Businesses, urgency levels and calendars for the policy scope pickers.
+ */
+router.get('/options', async (req, res) => {
+  try {
+    const [businesses, urgencyLevels, calendars] = await Promise.all([
+      query('SELECT id, business_name FROM businesses WHERE soft_delete = false ORDER BY business_name'),
+      query('SELECT id, name, color_code FROM urgency_levels WHERE is_active = true ORDER BY display_order'),
+      query('SELECT id, name, timezone FROM sla_business_calendars ORDER BY name')
+    ]);
+    res.json({
+      success: true,
+      data: {
+        businesses: businesses.rows,
+        urgencyLevels: urgencyLevels.rows,
+        calendars: calendars.rows
+      }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to load SLA options');
+  }
+});
+
+/**
+ * GET /api/admin/sla/policies
+ */
+router.get('/policies', async (req, res) => {
+  try {
+    const result = await query(
+      `${POLICY_SELECT} ORDER BY p.business_id NULLS LAST, p.urgency_level_id NULLS LAST, p.name`
+    );
+    res.json({ success: true, data: result.rows });
+  } catch (error) {
+    sendError(res, error, 'Failed to list SLA policies');
+  }
+});
+
+/**
+ * POST /api/admin/sla/policies
+ */
+router.post('/policies', async (req, res) => {
+  try {
+    const p = validateSlaPolicy(req.body);
+    const result = await query(
+      `INSERT INTO sla_policies (
+         name, description, business_id, urgency_level_id, acknowledge_target_minutes,
+         resolve_target_minutes, calendar_id, is_active, created_by
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING id`,
+      [p.name, p.description, p.businessId, p.urgencyLevelId, p.acknowledgeTargetMinutes,
+        p.resolveTargetMinutes, p.calendarId, p.isActive, req.session.userId]
+    );
+    const created = await query(`${POLICY_SELECT} WHERE p.id = $1`, [result.rows[0].id]);
+    res.status(201).json({ success: true, data: created.rows[0] });
+  } catch (error) {
+    sendError(res, error, 'Failed to create SLA policy');
+  }
+});
+
+/**
+ * PUT /api/admin/sla/policies/:id
+ *
+ * Only affects requests opened after the change -- due times already
+ * stamped on open requests are left as they are.
+ */
+router.put('/policies/:id', async (req, res) => {
+  try {
+    const p = validateSlaPolicy(req.body);
+    const result = await query(
+      `UPDATE sla_policies
+          SET name = $2, description = $3, business_id = $4, urgency_level_id = $5,
+              acknowledge_target_minutes = $6, resolve_target_minutes = $7, calendar_id = $8,
+              is_active = $9, updated_at = NOW()
+        WHERE id = $1
+        RETURNING id`,
+      [req.params.id, p.name, p.description, p.businessId, p.urgencyLevelId,
+        p.acknowledgeTargetMinutes, p.resolveTargetMinutes, p.calendarId, p.isActive]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'SLA policy not found' });
+    }
+    const updated = await query(`${POLICY_SELECT} WHERE p.id = $1`, [req.params.id]);
+    res.json({ success: true, data: updated.rows[0] });
+  } catch (error) {
+    sendError(res, error, 'Failed to update SLA policy');
+  }
+});
+
+/**
+ * DELETE /api/admin/sla/policies/:id
+ */
+router.delete('/policies/:id', async (req, res) => {
+  try {
+    const result = await query('DELETE FROM sla_policies WHERE id = $1 RETURNING id', [req.params.id]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'SLA policy not found' });
+    }
+    res.json({ success: true, message: 'SLA policy deleted' });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete SLA policy');
+  }
+});
+
+/**
+ * GET /api/admin/sla/calendars
+ */
+router.get('/calendars', async (req, res) => {
+  try {
+    const result = await query(`${CALENDAR_SELECT} ORDER BY name`);
+    res.json({ success: true, data: result.rows });
+  } catch (error) {
+    sendError(res, error, 'Failed to list business-hours calendars');
+  }
+});
+
+/**
+ * POST /api/admin/sla/calendars
+ */
+router.post('/calendars', async (req, res) => {
+  try {
+    const c = validateCalendar(req.body);
+    const result = await query(
+      `INSERT INTO sla_business_calendars (name, timezone, weekly_hours, holidays)
+       VALUES ($1, $2, $3, $4::date[])
+       RETURNING id`,
+      [c.name, c.timezone, JSON.stringify(c.weeklyHours), c.holidays]
+    );
+    const created = await query(`${CALENDAR_SELECT} WHERE id = $1`, [result.rows[0].id]);
+    res.status(201).json({ success: true, data: created.rows[0] });
+  } catch (error) {
+    sendError(res, error, 'Failed to create business-hours calendar');
+  }
+});
+
+/**
+ * PUT /api/admin/sla/calendars/:id
+ */
+router.put('/calendars/:id', async (req, res) => {
+  try {
+    const c = validateCalendar(req.body);
+    const result = await query(
+      `UPDATE sla_business_calendars
+          SET name = $2, timezone = $3, weekly_hours = $4, holidays = $5::date[], updated_at = NOW()
+        WHERE id = $1
+        RETURNING id`,
+      [req.params.id, c.name, c.timezone, JSON.stringify(c.weeklyHours), c.holidays]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Calendar not found' });
+    }
+    const updated = await query(`${CALENDAR_SELECT} WHERE id = $1`, [req.params.id]);
+    res.json({ success: true, data: updated.rows[0] });
+  } catch (error) {
+    sendError(res, error, 'Failed to update business-hours calendar');
+  }
+});
+
+/**
+ * DELETE /api/admin/sla/calendars/:id
+ *
+ * Policies using the calendar fall back to 24x7 for new requests.
+ */
+router.delete('/calendars/:id', async (req, res) => {
+  try {
+    const result = await query('DELETE FROM sla_business_calendars WHERE id = $1 RETURNING id', [req.params.id]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ success: false, message: 'Calendar not found' });
+    }
+    res.json({ success: true, message: 'Calendar deleted' });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete business-hours calendar');
+  }
+});
+
+/**
+ * GET /api/admin/sla/breaches
+ *
+ * Breach log, newest first. Optional filters: ?from=&to= (YYYY-MM-DD on
+ * breached_at), ?businessId=, ?target=acknowledge|resolve, ?limit= (max 500).
+ */
+router.get('/breaches', async (req, res) => {
+  try {
+    const conditions = [];
+    const params = [];
+    const add = (sql, value) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (req.query.from) add('sb.breached_at >= ?::date', req.query.from);
+    if (req.query.to) add("sb.breached_at < ?::date + INTERVAL '1 day'", req.query.to);
+    if (req.query.businessId) add('sb.business_id = ?', req.query.businessId);
+    if (req.query.target) add('sb.target = ?', req.query.target);
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 100, 1), 500);
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const result = await query(
+      `SELECT sb.*, sr.request_number, sr.title, b.business_name,
+              EXTRACT(EPOCH FROM (COALESCE(sb.met_at, NOW()) - sb.due_at)) / 60 AS minutes_over
+         FROM sla_breaches sb
+         JOIN service_requests sr ON sb.service_request_id = sr.id
+         LEFT JOIN businesses b ON sb.business_id = b.id
+         ${where}
+        ORDER BY sb.breached_at DESC
+        LIMIT ${limit}`,
+      params
+    );
+    res.json({ success: true, data: result.rows });
+  } catch (error) {
+    sendError(res, error, 'Failed to list SLA breaches');
+  }
+});
+
+export default router;
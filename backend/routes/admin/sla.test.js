@@ -0,0 +1,27 @@
+// Source-lint regression tests for routes/admin/sla.js -- same pattern as
+// routes/admin/reportSchedules.test.js. Pins auth + RBAC gating for SLA
+// configuration and the breach log.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const SRC = readFileSync(join(here, 'sla.js'), 'utf8');
+
+test('module requires authMiddleware + requireEmployee + manage.sla_policies.enable', () => {
+  assert.match(SRC, /router\.use\(authMiddleware\)/);
+  assert.match(SRC, /router\.use\(requireEmployee\)/);
+  assert.match(SRC, /router\.use\(requirePermission\(\s*['"]manage\.sla_policies\.enable['"]\s*\)\)/);
+});
+
+test('policy and calendar input is validated on create and update', () => {
+  assert.equal((SRC.match(/validateSlaPolicy\(req\.body\)/g) || []).length, 2);
+  assert.equal((SRC.match(/validateCalendar\(req\.body\)/g) || []).length, 2);
+});
+
+test('breach log limit is clamped before being interpolated', () => {
+  assert.match(SRC, /Math\.min\(Math\.max\(parseInt\(req\.query\.limit, 10\) \|\| 100, 1\), 500\)/);
+});
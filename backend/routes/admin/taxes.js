@@ -0,0 +1,275 @@
+/**
+ * Tax jurisdictions and each business's currency, jurisdiction and tax
+ * exemption.
+ *
+ * Jurisdictions (with their state / county / city components) need
+ * manage.tax_settings.enable to change; a business's tax profile and its
+ * exemption certificate need modify.businesses.enable. Certificates are
+ * virus scanned and stored with the business's other files, so they can be
+ * downloaded from the client files routes.
+ */
+import express from 'express';
+import multer from 'multer';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import fs from 'fs/promises';
+import crypto from 'crypto';
+import { authMiddleware, requireEmployee } from '../../middleware/authMiddleware.js';
+import { requirePermission } from '../../middleware/permissionMiddleware.js';
+import { query, transaction } from '../../config/database.js';
+import virusScanService from '../../services/virusScanService.js';
+import quotaManagementService from '../../services/quotaManagementService.js';
+import { SUPPORTED_CURRENCIES } from '../../services/currencyService.js';
+import {
+  validateJurisdictionInput,
+  validateTaxProfileInput,
+  listJurisdictions,
+  saveJurisdiction,
+  deleteJurisdiction,
+  getBusinessTaxProfile,
+  updateBusinessTaxProfile,
+  setExemptionCertificate,
+  resolveInvoiceTax
+} from '../../services/taxService.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const router = express.Router();
+
+router.use(authMiddleware);
+router.use(requireEmployee);
+
+const canManageJurisdictions = requirePermission('manage.tax_settings.enable');
+const canModifyBusiness = requirePermission('modify.businesses.enable');
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CERTIFICATE_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png'];
+const clientUploadsDir = path.join(__dirname, '..', '..', 'uploads', 'clients');
+
+function sendError(res, error, fallback) {
+  if (error.statusCode === 400 || error.statusCode === 404) {
+    return res.status(error.statusCode).json({ success: false, message: error.message });
+  }
+  if (error.code === '23505') {
+    return res.status(400).json({ success: false, message: 'A jurisdiction with that name already exists' });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  return res.status(500).json({ success: false, message: fallback });
+}
+
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: async (req, file, cb) => {
+      try {
+        const { businessId } = req.params;
+        if (!UUID_PATTERN.test(businessId)) throw new Error('Invalid business');
+        const businessDir = path.join(clientUploadsDir, businessId);
+        await fs.mkdir(businessDir, { recursive: true });
+        cb(null, businessDir);
+      } catch (error) {
+        cb(error, null);
+      }
+    },
+    filename: (req, file, cb) => {
+      // multer reads UTF-8 names as Latin-1
+      file.originalname = Buffer.from(file.originalname, 'latin1').toString('utf8');
+      cb(null, `${Date.now()}_${crypto.randomUUID()}${path.extname(file.originalname)}`);
+    }
+  }),
+  limits: { fileSize: 10 * 1024 * 1024, files: 1 },
+  fileFilter: (req, file, cb) => {
+    if (CERTIFICATE_MIME_TYPES.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Upload the certificate as a PDF, JPEG or PNG'), false);
+    }
+  }
+});
+
+/**
+ * GET /api/admin/taxes/jurisdictions
+ *
+ * Every jurisdiction with its components, plus the currencies a business
+ * can be billed in.
+ */
+router.get('/jurisdictions', async (req, res) => {
+  try {
+    res.json({
+      success: true,
+      data: { jurisdictions: await listJurisdictions({ query }), currencies: SUPPORTED_CURRENCIES }
+    });
+  } catch (error) {
+    sendError(res, error, 'Failed to load tax jurisdictions');
+  }
+});
+
+/**
+ * POST /api/admin/taxes/jurisdictions
+ *
+ * Body: { name, laborTaxable?, isActive?, components: [{ name, rate }] }
+ */
+router.post('/jurisdictions', canManageJurisdictions, async (req, res) => {
+  try {
+    const input = validateJurisdictionInput(req.body);
+    const id = await transaction(client => saveJurisdiction(client, input));
+    res.status(201).json({ success: true, message: 'Tax jurisdiction created', data: { id } });
+  } catch (error) {
+    sendError(res, error, 'Failed to create tax jurisdiction');
+  }
+});
+
+/**
+ * PUT /api/admin/taxes/jurisdictions/:id
+ *
+ * Replaces the name, flags and components. Invoices already created keep
+ * the breakdown they were issued with.
+ */
+router.put('/jurisdictions/:id', canManageJurisdictions, async (req, res) => {
+  try {
+    const input = validateJurisdictionInput(req.body);
+    await transaction(client => saveJurisdiction(client, input, req.params.id));
+    res.json({ success: true, message: 'Tax jurisdiction saved', data: { id: req.params.id } });
+  } catch (error) {
+    sendError(res, error, 'Failed to update tax jurisdiction');
+  }
+});
+
+/**
+ * DELETE /api/admin/taxes/jurisdictions/:id
+ */
+router.delete('/jurisdictions/:id', canManageJurisdictions, async (req, res) => {
+  try {
+    await deleteJurisdiction({ query }, req.params.id);
+    res.json({ success: true, message: 'Tax jurisdiction deleted' });
+  } catch (error) {
+    sendError(res, error, 'Failed to delete tax jurisdiction');
+  }
+});
+
+/**
+ * GET /api/admin/taxes/businesses/:businessId
+ *
+ * The business's tax profile and the tax its next invoice would carry.
+ */
+router.get('/businesses/:businessId', async (req, res) => {
+  try {
+    const [profile, invoiceTax] = await Promise.all([
+      getBusinessTaxProfile({ query }, req.params.businessId),
+      resolveInvoiceTax({ query }, req.params.businessId)
+    ]);
+    res.json({ success: true, data: { ...profile, invoiceTax } });
+  } catch (error) {
+    sendError(res, error, 'Failed to load tax profile');
+  }
+});
+
+/**
+ * PUT /api/admin/taxes/businesses/:businessId
+ *
+ * Body: { currency, taxJurisdictionId?, taxExempt?, taxExemptCertificateNumber?,
+ *         taxExemptExpiresOn? }
+ */
+router.put('/businesses/:businessId', canModifyBusiness, async (req, res) => {
+  try {
+    const input = validateTaxProfileInput(req.body);
+    const profile = await updateBusinessTaxProfile({ query }, req.params.businessId, input);
+    res.json({ success: true, message: 'Tax settings saved', data: profile });
+  } catch (error) {
+    sendError(res, error, 'Failed to save tax settings');
+  }
+});
+
+/**
+ * POST /api/admin/taxes/businesses/:businessId/exemption-certificate
+ *
+ * Multipart field `certificate` (PDF, JPEG or PNG). Replaces any earlier
+ * certificate on the business; the old file stays in its file list.
+ */
+router.post('/businesses/:businessId/exemption-certificate', canModifyBusiness, upload.single('certificate'), async (req, res) => {
+  const file = req.file;
+  const cleanup = () => fs.unlink(file.path).catch(err => console.error('Failed to cleanup file:', err));
+
+  try {
+    if (!file) {
+      return res.status(400).json({ success: false, message: 'No certificate uploaded' });
+    }
+
+    const { businessId } = req.params;
+    const employeeId = req.session.userId;
+    const business = await query('SELECT id FROM businesses WHERE id = $1 AND soft_delete = false', [businessId]);
+    if (business.rows.length === 0) {
+      await cleanup();
+      return res.status(404).json({ success: false, message: 'Business not found' });
+    }
+
+    const quotaCheck = await quotaManagementService.checkQuotaAvailability(businessId, file.size, null, null);
+    if (!quotaCheck.canUpload) {
+      await cleanup();
+      return res.status(413).json({ success: false, message: quotaCheck.message, quotaInfo: quotaCheck });
+    }
+
+    const scanResult = await virusScanService.scanFile(file.path, {
+      originalName: file.originalname,
+      size: file.size,
+      employeeId,
+      businessId
+    });
+    if (scanResult.isInfected) {
+      await virusScanService.quarantineFile(file.path, scanResult);
+      return res.status(400).json({ success: false, message: `File infected with virus: ${scanResult.virusName}` });
+    }
+    if (!scanResult.scanSuccess) {
+      await cleanup();
+      return res.status(400).json({ success: false, message: `Virus scan failed: ${scanResult.errorMessage}` });
+    }
+
+    const uploadResult = await quotaManagementService.recordFileUpload({
+      businessId,
+      serviceLocationId: null,
+      employeeId,
+      fileName: file.filename,
+      originalName: file.originalname,
+      fileSizeBytes: file.size,
+      mimeType: file.mimetype,
+      filePath: file.path,
+      categoryId: null,
+      description: 'Sales tax exemption certificate',
+      isPublic: false,
+      metadata: {
+        scanId: scanResult.scanId,
+        uploadedByEmployee: employeeId,
+        uploadedByEmail: req.user?.email,
+        taxExemptionCertificate: true
+      },
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
+    if (!uploadResult.success) {
+      await cleanup();
+      throw new Error(uploadResult.error);
+    }
+
+    const profile = await setExemptionCertificate({ query }, businessId, uploadResult.fileId);
+    res.status(201).json({ success: true, message: 'Exemption certificate uploaded', data: profile });
+  } catch (error) {
+    sendError(res, error, 'Failed to upload exemption certificate');
+  }
+});
+
+/**
+ * DELETE /api/admin/taxes/businesses/:businessId/exemption-certificate
+ *
+ * Detaches the certificate, which ends the exemption. The file itself stays
+ * with the business's files.
+ */
+router.delete('/businesses/:businessId/exemption-certificate', canModifyBusiness, async (req, res) => {
+  try {
+    const profile = await setExemptionCertificate({ query }, req.params.businessId, null);
+    res.json({ success: true, message: 'Exemption certificate removed', data: profile });
+  } catch (error) {
+    sendError(res, error, 'Failed to remove exemption certificate');
+  }
+});
+
+export default router;
@@ -0,0 +1,55 @@
+import express from 'express';
+import { authMiddleware } from '../../middleware/authMiddleware.js';
+import { clientContextMiddleware } from '../../middleware/clientMiddleware.js';
+import { buildExecutiveSummary, renderExecutiveSummaryPdf } from '../../services/executiveSummaryService.js';
+
+// Create composite middleware for client routes
+const authenticateClient = [authMiddleware, clientContextMiddleware];
+
+const router = express.Router();
+
+/**
+ * GET /api/client/executive-summary?month=YYYY-MM
+ * Monthly executive summary for the authenticated client's business
+ * (defaults to the previous month)
+ */
+router.get('/', authenticateClient, async (req, res) => {
+  try {
+    const summary = await buildExecutiveSummary(req.user.businessId, req.query.month);
+    if (!summary) {
+      return res.status(404).json({ success: false, message: 'Business not found' });
+    }
+    res.json({ success: true, data: summary });
+  } catch (error) {
+    if (error.statusCode === 400) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('❌ Error building client executive summary:', error);
+    res.status(500).json({ success: false, message: 'Failed to build executive summary' });
+  }
+});
+
+/**
+ * GET /api/client/executive-summary/pdf?month=YYYY-MM
+ * Same summary as a PDF download
+ */
+router.get('/pdf', authenticateClient, async (req, res) => {
+  try {
+    const summary = await buildExecutiveSummary(req.user.businessId, req.query.month);
+    if (!summary) {
+      return res.status(404).json({ success: false, message: 'Business not found' });
+    }
+    const pdf = await renderExecutiveSummaryPdf(summary);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="executive-summary-${summary.period.month}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    if (error.statusCode === 400) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    console.error('❌ Error rendering client executive summary PDF:', error);
+    res.status(500).json({ success: false, message: 'Failed to render executive summary' });
+  }
+});
+
+export default router;
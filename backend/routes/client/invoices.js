@@ -2,6 +2,8 @@ import express from 'express';
 import { getPool } from '../../config/database.js';
 import { authMiddleware } from '../../middleware/authMiddleware.js';
 import { clientContextMiddleware } from '../../middleware/clientMiddleware.js';
+import { loadInvoiceDocument, renderInvoicePdf, invoicePdfFilename } from '../../services/invoicePdfService.js';
+import { getCreditBalance } from '../../services/invoicePaymentService.js';
 
 // Create composite middleware for client routes
 const authenticateClient = [authMiddleware, clientContextMiddleware];
@@ -31,7 +33,7 @@ router.get('/', authenticateClient, async (req, res) => {
     const offset = (parseInt(page) - 1) * parseInt(limit);
 
     // Build WHERE clause
-    const conditions = ['u.id = $1']; // Filter by user
+    const conditions = ['u.id = $1', "i.invoice_status <> 'draft'"]; // Filter by user; drafts are admin-only
     const params = [clientId];
     let paramIndex = 2;
 
@@ -63,7 +65,11 @@ router.get('/', authenticateClient, async (req, res) => {
         i.subtotal,
         i.tax_rate,
         i.tax_amount,
+        i.tax_breakdown,
+        i.currency,
         i.total_amount,
+        i.amount_paid,
+        i.total_amount - i.amount_paid AS balance_due,
         i.issue_date,
         i.due_date,
         i.payment_date,
@@ -71,12 +77,15 @@ router.get('/', authenticateClient, async (req, res) => {
         i.payment_method,
         i.stripe_payment_intent_id,
         i.work_description,
+        i.invoice_status,
+        i.invoice_type,
+        i.autopay_failure_reason,
         sr.request_number,
         sr.title as service_title
       FROM invoices i
       JOIN businesses b ON i.business_id = b.id
       JOIN users u ON b.id = u.business_id
-      JOIN service_requests sr ON i.service_request_id = sr.id
+      LEFT JOIN service_requests sr ON i.service_request_id = sr.id
       WHERE ${whereClause}
       ORDER BY i.${sortBy} ${sortOrder}
       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
@@ -84,7 +93,14 @@ router.get('/', authenticateClient, async (req, res) => {
 
     params.push(parseInt(limit), offset);
 
-    const result = await pool.query(query, params);
+    const [result, businessResult] = await Promise.all([
+      pool.query(query, params),
+      pool.query(`SELECT business_id FROM users WHERE id = $1`, [clientId])
+    ]);
+    // Overpayments and refunds taken as credit, applied to later invoices by staff
+    const creditBalance = businessResult.rows[0]?.business_id
+      ? await getCreditBalance(pool, businessResult.rows[0].business_id)
+      : 0;
 
     console.log('📋 Found invoices for client:', result.rows.length);
 
@@ -92,6 +108,7 @@ router.get('/', authenticateClient, async (req, res) => {
       success: true,
       data: {
         invoices: result.rows,
+        creditBalance,
         pagination: {
           page: parseInt(page),
           limit: parseInt(limit),
@@ -282,11 +299,11 @@ router.get('/:id', authenticateClient, async (req, res) => {
       FROM invoices i
       JOIN businesses b ON i.business_id = b.id
       JOIN users u ON b.id = u.business_id
-      JOIN service_requests sr ON i.service_request_id = sr.id
+      LEFT JOIN service_requests sr ON i.service_request_id = sr.id
       LEFT JOIN service_types st ON sr.service_type_id = st.id
       LEFT JOIN service_locations sl ON sr.service_location_id = sl.id
       LEFT JOIN employees e ON sr.closed_by_employee_id = e.id
-      WHERE i.id = $1 AND u.id = $2
+      WHERE i.id = $1 AND u.id = $2 AND i.invoice_status <> 'draft'
     `;
 
     const result = await pool.query(query, [id, clientId]);
@@ -325,6 +342,16 @@ router.get('/:id', authenticateClient, async (req, res) => {
       companyInfo[row.setting_key] = row.setting_value;
     });
 
+    const lineItemsResult = await pool.query(
+      `SELECT li.id, li.description, li.item_type, li.quantity, li.unit_price, li.amount, li.taxable,
+              li.product_ref, sr.request_number
+       FROM invoice_line_items li
+       LEFT JOIN service_requests sr ON li.service_request_id = sr.id
+       WHERE li.invoice_id = $1
+       ORDER BY li.sort_order`,
+      [id]
+    );
+
     res.json({
       success: true,
       data: {
@@ -332,6 +359,7 @@ router.get('/:id', authenticateClient, async (req, res) => {
         companyInfo,
         costEstimate,
         actualHoursBreakdown,
+        lineItems: lineItemsResult.rows,
       },
     });
   } catch (error) {
@@ -344,6 +372,35 @@ router.get('/:id', authenticateClient, async (req, res) => {
   }
 });
 
+/**
+ * GET /api/client/invoices/:id/pdf
+ * Download an invoice as a branded PDF
+ */
+router.get('/:id/pdf', authenticateClient, async (req, res) => {
+  try {
+    const pool = await getPool();
+    const document = await loadInvoiceDocument(pool, req.params.id, { clientId: req.user.clientId });
+    if (!document) {
+      return res.status(404).json({
+        success: false,
+        error: 'Invoice not found',
+      });
+    }
+
+    const pdf = await renderInvoicePdf(document);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${invoicePdfFilename(document.invoice)}"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('❌ Error rendering invoice PDF:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to render invoice PDF',
+      message: error.message,
+    });
+  }
+});
+
 /**
  * GET /api/client/invoices/summary/stats
  * Get invoice summary statistics for the client
@@ -365,7 +422,7 @@ router.get('/summary/stats', authenticateClient, async (req, res) => {
       FROM invoices i
       JOIN businesses b ON i.business_id = b.id
       JOIN users u ON b.id = u.business_id
-      WHERE u.id = $1
+      WHERE u.id = $1 AND i.invoice_status = 'issued'
     `;
 
     const result = await pool.query(query, [clientId]);
@@ -8,8 +8,15 @@ import {
   getPaymentIntent,
   constructWebhookEvent,
 } from '../../services/stripeService.js';
+import { currencyDecimals, formatCurrency, fromMinorUnits, toMinorUnits } from '../../services/currencyService.js';
 import { sendNotificationToEmployees } from '../pushRoutes.js';
-import { websocketService } from '../../services/websocketService.js';
+import {
+  listPaymentMethods,
+  createPaymentMethodSetup,
+  removePaymentMethod,
+  setAutopay,
+} from '../../services/autopayService.js';
+import { processStripeEvent } from '../../services/stripeWebhookService.js';
 
 // Create composite middleware for client routes
 const authenticateClient = [authMiddleware, clientContextMiddleware];
@@ -46,7 +53,9 @@ router.post('/create-intent', authenticateClient, async (req, res) => {
       JOIN users u ON b.id = u.business_id
       WHERE i.id = $1
         AND u.id = $2
-        AND i.payment_status != 'paid'
+        AND i.payment_status NOT IN ('paid', 'comped', 'refunded')
+        AND i.invoice_status = 'issued'
+        AND i.invoice_type != 'credit_note'
       FOR UPDATE OF i
       `,
       [invoiceId, clientId]
@@ -62,6 +71,21 @@ router.post('/create-intent', authenticateClient, async (req, res) => {
     }
 
     const invoice = invoiceQuery.rows[0];
+    // A partly paid invoice is charged what is left
+    const balanceDue = fromMinorUnits(
+      toMinorUnits(parseFloat(invoice.total_amount) - parseFloat(invoice.amount_paid), invoice.currency),
+      invoice.currency
+    );
+
+    // The payment form shows the same lines as the invoice
+    const lineItemsResult = await client.query(
+      `SELECT description, quantity, unit_price, amount, taxable
+       FROM invoice_line_items
+       WHERE invoice_id = $1
+       ORDER BY sort_order`,
+      [invoiceId]
+    );
+    const lineItems = lineItemsResult.rows;
 
     // Get or create Stripe customer (invoice is already locked by FOR UPDATE)
     let customer;
@@ -97,7 +121,9 @@ router.post('/create-intent', authenticateClient, async (req, res) => {
         const existingPI = await getPaymentIntent(invoice.stripe_payment_intent_id);
 
         // Reuse if it's still waiting for payment method (not attempted yet)
-        if (existingPI.status === 'requires_payment_method' && existingPI.amount === Math.round(parseFloat(invoice.total_amount) * 100)) {
+        if (existingPI.status === 'requires_payment_method'
+          && existingPI.currency === invoice.currency.toLowerCase()
+          && existingPI.amount === toMinorUnits(balanceDue, invoice.currency)) {
           console.log(`♻️ Reusing existing payment intent: ${invoice.stripe_payment_intent_id}`);
           paymentIntent = existingPI;
         }
@@ -120,8 +146,8 @@ router.post('/create-intent', authenticateClient, async (req, res) => {
     // Create new payment intent only if we don't have a reusable one
     if (!paymentIntent) {
       paymentIntent = await createPaymentIntent({
-        amount: parseFloat(invoice.total_amount),
-        currency: 'usd',
+        amount: balanceDue,
+        currency: invoice.currency.toLowerCase(),
         customerId: customer.id,
         invoiceId: invoice.id,
         description: `Invoice ${invoice.invoice_number} - ${invoice.business_name}`,
@@ -129,6 +155,7 @@ router.post('/create-intent', authenticateClient, async (req, res) => {
           invoiceNumber: invoice.invoice_number,
           businessId: invoice.business_id,
           userId: clientId,
+          lineItemCount: String(lineItems.length),
         },
       });
     }
@@ -164,6 +191,16 @@ router.post('/create-intent', authenticateClient, async (req, res) => {
       success: true,
       clientSecret: paymentIntent.client_secret,
       paymentIntentId: paymentIntent.id,
+      summary: {
+        lineItems,
+        subtotal: invoice.subtotal,
+        taxAmount: invoice.tax_amount,
+        taxBreakdown: invoice.tax_breakdown,
+        totalAmount: invoice.total_amount,
+        amountPaid: invoice.amount_paid,
+        balanceDue: balanceDue.toFixed(currencyDecimals(invoice.currency)),
+        currency: invoice.currency,
+      },
     });
   } catch (error) {
     console.error('❌ Error creating payment intent:', error);
@@ -201,6 +238,7 @@ router.get('/status/:invoiceId', authenticateClient, async (req, res) => {
         i.id,
         i.invoice_number,
         i.total_amount,
+        i.currency,
         i.payment_status,
         i.payment_date,
         i.stripe_payment_intent_id,
@@ -232,7 +270,7 @@ router.get('/status/:invoiceId', authenticateClient, async (req, res) => {
         );
         paymentIntentStatus = {
           status: paymentIntent.status,
-          amount: paymentIntent.amount / 100,
+          amount: fromMinorUnits(paymentIntent.amount, paymentIntent.currency),
           currency: paymentIntent.currency,
         };
       } catch (error) {
@@ -246,6 +284,7 @@ router.get('/status/:invoiceId', authenticateClient, async (req, res) => {
         id: invoice.id,
         invoiceNumber: invoice.invoice_number,
         totalAmount: invoice.total_amount,
+        currency: invoice.currency,
         paymentStatus: invoice.payment_status,
         paymentDate: invoice.payment_date,
         paymentMethod: invoice.payment_method,
@@ -262,154 +301,75 @@ router.get('/status/:invoiceId', authenticateClient, async (req, res) => {
   }
 });
 
+function sendPaymentMethodError(res, error, fallback) {
+  if (error.statusCode === 400 || error.statusCode === 404) {
+    return res.status(error.statusCode).json({ success: false, error: error.message });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback, message: error.message });
+}
+
 /**
- * Sync payment status with Stripe (for dev/test when webhooks aren't available)
- * POST /api/client/payments/sync-status/:invoiceId
+ * Saved payment methods and the autopay setting for the client's business
+ * GET /api/client/payments/payment-methods
  */
-router.post('/sync-status/:invoiceId', authenticateClient, async (req, res) => {
-  const pool = await getPool();
-  const { invoiceId } = req.params;
-  const clientId = req.user.clientId;
-
+router.get('/payment-methods', authenticateClient, async (req, res) => {
   try {
-    // Get invoice and verify ownership
-    const invoiceQuery = await pool.query(
-      `
-      SELECT
-        i.id,
-        i.invoice_number,
-        i.payment_status,
-        i.stripe_payment_intent_id
-      FROM invoices i
-      JOIN businesses b ON i.business_id = b.id
-      JOIN users u ON b.id = u.business_id
-      WHERE i.id = $1 AND u.id = $2
-      `,
-      [invoiceId, clientId]
-    );
-
-    if (invoiceQuery.rows.length === 0) {
-      return res.status(404).json({
-        success: false,
-        error: 'Invoice not found',
-      });
-    }
-
-    const invoice = invoiceQuery.rows[0];
-
-    // If no payment intent, nothing to sync
-    if (!invoice.stripe_payment_intent_id) {
-      return res.json({
-        success: true,
-        message: 'No payment intent to sync',
-        paymentStatus: invoice.payment_status,
-      });
-    }
-
-    // Get latest status from Stripe
-    const paymentIntent = await getPaymentIntent(invoice.stripe_payment_intent_id);
-
-    console.log(`🔄 Syncing payment status for invoice ${invoice.invoice_number}: ${paymentIntent.status}`);
-
-    // Update invoice based on Stripe status
-    if (paymentIntent.status === 'succeeded' && invoice.payment_status !== 'paid') {
-      await pool.query(
-        `
-        UPDATE invoices
-        SET
-          payment_status = 'paid',
-          payment_date = CURRENT_TIMESTAMP,
-          stripe_charge_id = $1,
-          payment_method = $2,
-          stripe_payment_method_id = $3,
-          updated_at = CURRENT_TIMESTAMP
-        WHERE id = $4
-        `,
-        [
-          paymentIntent.latest_charge,
-          paymentIntent.payment_method_types?.[0] || 'card',
-          paymentIntent.payment_method,
-          invoiceId,
-        ]
-      );
-
-      console.log(`✅ Updated invoice ${invoice.invoice_number} to paid`);
-
-      // Get invoice details for notifications
-      const invoiceDetails = await pool.query(
-        `
-        SELECT i.*, b.business_name, u.id as user_id
-        FROM invoices i
-        JOIN businesses b ON i.business_id = b.id
-        JOIN users u ON b.id = u.business_id
-        WHERE i.id = $1
-        `,
-        [invoiceId]
-      );
-
-      if (invoiceDetails.rows.length > 0) {
-        const invoiceData = invoiceDetails.rows[0];
-
-        // Send push notifications to employees who subscribed to invoice_paid notifications
-        try {
-          await sendNotificationToEmployees('invoice_paid', {
-            title: '💰 Invoice Paid',
-            body: `Invoice ${invoice.invoice_number} for ${invoiceData.business_name} has been paid - $${parseFloat(invoiceData.total_amount).toFixed(2)}`,
-            icon: '/D629A5B3-F368-455F-9D3E-4EBDC4222F46.png',
-            badge: '/D629A5B3-F368-455F-9D3E-4EBDC4222F46.png',
-            data: {
-              type: 'invoice_paid',
-              invoiceId: invoiceId,
-              invoiceNumber: invoice.invoice_number,
-              amount: invoiceData.total_amount,
-              timestamp: Date.now()
-            }
-          }, 'receive.notifications.invoice_paid');
-          console.log(`📢 Sent invoice_paid push notifications`);
-        } catch (notifError) {
-          console.error('⚠️ Failed to send push notifications:', notifError);
-        }
+    const pool = await getPool();
+    const { methods, autopay } = await listPaymentMethods(pool, req.user.businessId);
+    res.json({ success: true, data: { methods, autopay } });
+  } catch (error) {
+    sendPaymentMethodError(res, error, 'Failed to load payment methods');
+  }
+});
 
-        // Broadcast to admins via WebSocket
-        websocketService.broadcastInvoiceUpdateToAdmins({
-          invoiceId: invoiceId,
-          invoiceNumber: invoice.invoice_number,
-          totalAmount: invoiceData.total_amount,
-          paymentStatus: 'paid',
-          type: 'invoice_paid'
-        });
-
-        // Notify the specific client via WebSocket
-        websocketService.notifyClientOfInvoiceUpdate(invoiceData.user_id, {
-          invoiceId: invoiceId,
-          invoiceNumber: invoice.invoice_number,
-          totalAmount: invoiceData.total_amount,
-          paymentStatus: 'paid',
-          type: 'invoice_paid'
-        });
-      }
+/**
+ * Start saving a card or bank account (confirmed with Stripe Elements)
+ * POST /api/client/payments/payment-methods/setup-intent
+ */
+router.post('/payment-methods/setup-intent', authenticateClient, async (req, res) => {
+  try {
+    const pool = await getPool();
+    const { clientSecret } = await createPaymentMethodSetup(pool, req.user.businessId, {
+      email: req.user.email,
+      userId: req.user.clientId,
+    });
+    res.json({ success: true, clientSecret });
+  } catch (error) {
+    sendPaymentMethodError(res, error, 'Failed to start saving the payment method');
+  }
+});
 
-      return res.json({
-        success: true,
-        message: 'Invoice updated to paid',
-        paymentStatus: 'paid',
-        stripeStatus: paymentIntent.status,
-      });
-    }
+/**
+ * Remove a saved payment method (turns autopay off if it was the autopay method)
+ * DELETE /api/client/payments/payment-methods/:paymentMethodId
+ */
+router.delete('/payment-methods/:paymentMethodId', authenticateClient, async (req, res) => {
+  try {
+    const pool = await getPool();
+    const { autopayDisabled } = await removePaymentMethod(pool, req.user.businessId, req.params.paymentMethodId);
+    res.json({ success: true, data: { autopayDisabled } });
+  } catch (error) {
+    sendPaymentMethodError(res, error, 'Failed to remove payment method');
+  }
+});
 
-    res.json({
-      success: true,
-      message: 'Invoice status is up to date',
-      paymentStatus: invoice.payment_status,
-      stripeStatus: paymentIntent.status,
+/**
+ * Turn autopay on or off
+ * PUT /api/client/payments/autopay
+ * Body: { enabled: boolean, paymentMethodId?: string }
+ */
+router.put('/autopay', authenticateClient, async (req, res) => {
+  try {
+    const pool = await getPool();
+    const autopay = await setAutopay(pool, req.user.businessId, {
+      enabled: req.body.enabled,
+      paymentMethodId: req.body.paymentMethodId,
+      userId: req.user.clientId,
     });
+    res.json({ success: true, data: { autopay } });
   } catch (error) {
-    console.error('❌ Error syncing payment status:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to sync payment status',
-      message: error.message,
-    });
+    sendPaymentMethodError(res, error, 'Failed to update autopay');
   }
 });
 
@@ -419,6 +379,10 @@ router.post('/sync-status/:invoiceId', authenticateClient, async (req, res) => {
  *
  * IMPORTANT: This route should NOT have authentication middleware
  * as Stripe sends the webhook directly
+ *
+ * Events are applied by stripeWebhookService, which skips redeliveries.
+ * Without a Stripe account, scripts/replay-stripe-webhooks.js signs and
+ * posts the recorded fixtures in fixtures/stripe-webhooks.
  */
 export const webhookRouter = express.Router();
 
@@ -426,156 +390,67 @@ webhookRouter.post(
   '/webhook',
   express.raw({ type: 'application/json' }),
   async (req, res) => {
-    const pool = await getPool();
     const signature = req.headers['stripe-signature'];
     const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
 
+    let event;
     try {
       // Verify webhook signature
-      const event = constructWebhookEvent(
-        req.body,
-        signature,
-        webhookSecret
-      );
-
-      console.log(`🔔 Received Stripe webhook event: ${event.type}`);
-
-      // Handle the event
-      switch (event.type) {
-        case 'payment_intent.succeeded': {
-          const paymentIntent = event.data.object;
-          console.log(`✅ Payment succeeded: ${paymentIntent.id}`);
-
-          // Update invoice as paid
-          await pool.query(
-            `
-            UPDATE invoices
-            SET
-              payment_status = 'paid',
-              payment_date = CURRENT_TIMESTAMP,
-              stripe_charge_id = $1,
-              payment_method = $2,
-              stripe_payment_method_id = $3,
-              updated_at = CURRENT_TIMESTAMP
-            WHERE stripe_payment_intent_id = $4
-            `,
-            [
-              paymentIntent.latest_charge,
-              paymentIntent.payment_method_types?.[0] || 'card',
-              paymentIntent.payment_method,
-              paymentIntent.id,
-            ]
-          );
-
-          console.log(`✅ Updated invoice for payment intent: ${paymentIntent.id}`);
-
-          // Get invoice details for notifications
-          const invoiceDetails = await pool.query(
-            `
-            SELECT i.*, b.business_name, u.id as user_id
-            FROM invoices i
-            JOIN businesses b ON i.business_id = b.id
-            JOIN users u ON b.id = u.business_id
-            WHERE i.stripe_payment_intent_id = $1
-            `,
-            [paymentIntent.id]
-          );
-
-          if (invoiceDetails.rows.length > 0) {
-            const invoiceData = invoiceDetails.rows[0];
-
-            // Send push notifications to employees who subscribed to invoice_paid notifications
-            try {
-              await sendNotificationToEmployees('invoice_paid', {
-                title: '💰 Invoice Paid',
-                body: `Invoice ${invoiceData.invoice_number} for ${invoiceData.business_name} has been paid - $${parseFloat(invoiceData.total_amount).toFixed(2)}`,
-                icon: '/D629A5B3-F368-455F-9D3E-4EBDC4222F46.png',
-                badge: '/D629A5B3-F368-455F-9D3E-4EBDC4222F46.png',
-                data: {
-                  type: 'invoice_paid',
-                  invoiceId: invoiceData.id,
-                  invoiceNumber: invoiceData.invoice_number,
-                  amount: invoiceData.total_amount,
-                  timestamp: Date.now()
-                }
-              }, 'receive.notifications.invoice_paid');
-              console.log(`📢 Sent invoice_paid push notifications via webhook`);
-            } catch (notifError) {
-              console.error('⚠️ Failed to send push notifications:', notifError);
-            }
-
-            // Broadcast to admins via WebSocket
-            websocketService.broadcastInvoiceUpdateToAdmins({
-              invoiceId: invoiceData.id,
-              invoiceNumber: invoiceData.invoice_number,
-              totalAmount: invoiceData.total_amount,
-              paymentStatus: 'paid',
-              type: 'invoice_paid'
-            });
-
-            // Notify the specific client via WebSocket
-            websocketService.notifyClientOfInvoiceUpdate(invoiceData.user_id, {
-              invoiceId: invoiceData.id,
-              invoiceNumber: invoiceData.invoice_number,
-              totalAmount: invoiceData.total_amount,
-              paymentStatus: 'paid',
-              type: 'invoice_paid'
-            });
-          }
-
-          break;
-        }
-
-        case 'payment_intent.payment_failed': {
-          const paymentIntent = event.data.object;
-          console.log(`❌ Payment failed: ${paymentIntent.id}`);
-
-          // Update invoice as failed
-          await pool.query(
-            `
-            UPDATE invoices
-            SET
-              payment_status = 'failed',
-              updated_at = CURRENT_TIMESTAMP
-            WHERE stripe_payment_intent_id = $1
-            `,
-            [paymentIntent.id]
-          );
-          break;
-        }
+      event = constructWebhookEvent(req.body, signature, webhookSecret);
+    } catch (error) {
+      console.error('❌ Webhook signature verification failed:', error.message);
+      return res.status(400).json({
+        success: false,
+        error: 'Webhook error',
+        message: error.message,
+      });
+    }
 
-        case 'payment_intent.canceled': {
-          const paymentIntent = event.data.object;
-          console.log(`⚠️ Payment canceled: ${paymentIntent.id}`);
-
-          // Update invoice back to due (user can retry payment)
-          await pool.query(
-            `
-            UPDATE invoices
-            SET
-              payment_status = 'due',
-              updated_at = CURRENT_TIMESTAMP
-            WHERE stripe_payment_intent_id = $1
-            `,
-            [paymentIntent.id]
-          );
-          break;
-        }
+    console.log(`🔔 Received Stripe webhook event: ${event.type} (${event.id})`);
 
-        default:
-          console.log(`ℹ️ Unhandled event type: ${event.type}`);
+    try {
+      const outcome = await processStripeEvent(event);
+      if (outcome.duplicate) {
+        console.log(`♻️ Stripe event ${event.id} already processed`);
+      } else if (outcome.action === 'payment_received' && outcome.invoice?.payment_status === 'paid') {
+        await notifyInvoicePaid(outcome.invoice);
       }
-
-      res.json({ received: true });
+      res.json({ received: true, duplicate: outcome.duplicate });
     } catch (error) {
-      console.error('❌ Webhook error:', error);
-      res.status(400).json({
+      // Stripe redelivers on a non-2xx response; the event is retried then
+      console.error(`❌ Error processing Stripe event ${event.id}:`, error);
+      res.status(500).json({
         success: false,
-        error: 'Webhook error',
+        error: 'Webhook processing failed',
         message: error.message,
       });
     }
   }
 );
 
+async function notifyInvoicePaid(invoice) {
+  try {
+    const businessResult = await (await getPool()).query(
+      `SELECT business_name FROM businesses WHERE id = $1`,
+      [invoice.business_id]
+    );
+    await sendNotificationToEmployees('invoice_paid', {
+      title: '💰 Invoice Paid',
+      body: `Invoice ${invoice.invoice_number} for ${businessResult.rows[0]?.business_name} has been paid - ${formatCurrency(invoice.total_amount, invoice.currency)}`,
+      icon: '/D629A5B3-F368-455F-9D3E-4EBDC4222F46.png',
+      badge: '/D629A5B3-F368-455F-9D3E-4EBDC4222F46.png',
+      data: {
+        type: 'invoice_paid',
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoice_number,
+        amount: invoice.total_amount,
+        timestamp: Date.now()
+      }
+    }, 'receive.notifications.invoice_paid');
+    console.log(`📢 Sent invoice_paid push notifications via webhook`);
+  } catch (notifError) {
+    console.error('⚠️ Failed to send push notifications:', notifError);
+  }
+}
+
 export default router;
@@ -0,0 +1,39 @@
+import express from 'express';
+import { getPool } from '../../config/database.js';
+import { authMiddleware } from '../../middleware/authMiddleware.js';
+import { clientContextMiddleware } from '../../middleware/clientMiddleware.js';
+import { getPrepaidBalance, listPrepaidUsage } from '../../services/prepaidHoursService.js';
+
+// Create composite middleware for client routes
+const authenticateClient = [authMiddleware, clientContextMiddleware];
+
+const router = express.Router();
+
+/**
+ * Prepaid hour balance of the client's business, its blocks and the requests
+ * that drew it down. Block notes are internal and left out.
+ * GET /api/client/prepaid-hours
+ */
+router.get('/', authenticateClient, async (req, res) => {
+  try {
+    const pool = await getPool();
+    const balance = await getPrepaidBalance(pool, req.user.businessId);
+    if (!balance) {
+      return res.status(404).json({ success: false, error: 'Business not found' });
+    }
+    const usage = await listPrepaidUsage(pool, req.user.businessId);
+    res.json({
+      success: true,
+      data: {
+        ...balance,
+        blocks: balance.blocks.map(({ notes, ...block }) => block),
+        usage
+      }
+    });
+  } catch (error) {
+    console.error('❌ Failed to load prepaid hours:', error);
+    res.status(500).json({ success: false, error: 'Failed to load prepaid hours', message: error.message });
+  }
+});
+
+export default router;
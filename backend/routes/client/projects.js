@@ -0,0 +1,56 @@
+import express from 'express';
+import { getPool } from '../../config/database.js';
+import { authMiddleware } from '../../middleware/authMiddleware.js';
+import { clientContextMiddleware } from '../../middleware/clientMiddleware.js';
+import { listClientProjects, getClientProject } from '../../services/projectService.js';
+
+// Create composite middleware for client routes
+const authenticateClient = [authMiddleware, clientContextMiddleware];
+
+const router = express.Router();
+
+/**
+ * Projects are shown per business; a client user without one sees none.
+ */
+function requireBusiness(req, res, next) {
+  if (!req.user.businessId) {
+    return res.status(403).json({ success: false, error: 'No business is linked to this account' });
+  }
+  next();
+}
+
+function sendProjectError(res, error, fallback) {
+  if (error.statusCode === 403 || error.statusCode === 404) {
+    return res.status(error.statusCode).json({ success: false, error: error.message });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback, message: error.message });
+}
+
+/**
+ * Projects of the client's business, newest first (read-only)
+ * GET /api/client/projects
+ */
+router.get('/', authenticateClient, requireBusiness, async (req, res) => {
+  try {
+    const pool = await getPool();
+    res.json({ success: true, data: await listClientProjects(pool, req.user.businessId) });
+  } catch (error) {
+    sendProjectError(res, error, 'Failed to load projects');
+  }
+});
+
+/**
+ * One project with its milestones, requests and budget vs actual
+ * GET /api/client/projects/:id
+ */
+router.get('/:id', authenticateClient, requireBusiness, async (req, res) => {
+  try {
+    const pool = await getPool();
+    res.json({ success: true, data: await getClientProject(pool, req.params.id, req.user.businessId) });
+  } catch (error) {
+    sendProjectError(res, error, 'Failed to load project');
+  }
+});
+
+export default router;
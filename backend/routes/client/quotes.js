@@ -0,0 +1,133 @@
+import express from 'express';
+import { getPool, transaction } from '../../config/database.js';
+import { authMiddleware } from '../../middleware/authMiddleware.js';
+import { clientContextMiddleware } from '../../middleware/clientMiddleware.js';
+import { initializeServiceRequestWorkflow } from '../../services/workflowService.js';
+import { websocketService } from '../../services/websocketService.js';
+import {
+  validateAcceptance,
+  validateDecline,
+  listClientQuotes,
+  getClientQuote,
+  acceptQuote,
+  declineQuote
+} from '../../services/quoteService.js';
+
+// Create composite middleware for client routes
+const authenticateClient = [authMiddleware, clientContextMiddleware];
+
+const router = express.Router();
+
+/**
+ * Quotes are sent to a business; a client user without one has none.
+ */
+function requireBusiness(req, res, next) {
+  if (!req.user.businessId) {
+    return res.status(403).json({ success: false, error: 'No business is linked to this account' });
+  }
+  next();
+}
+
+function sendQuoteError(res, error, fallback) {
+  if (error.statusCode === 400 || error.statusCode === 403 || error.statusCode === 404) {
+    return res.status(error.statusCode).json({ success: false, error: error.message });
+  }
+  console.error(`❌ ${fallback}:`, error);
+  res.status(500).json({ success: false, error: fallback, message: error.message });
+}
+
+/**
+ * Quotes sent to the client's business, newest first
+ * GET /api/client/quotes
+ */
+router.get('/', authenticateClient, requireBusiness, async (req, res) => {
+  try {
+    const pool = await getPool();
+    const quotes = await listClientQuotes(pool, req.user.businessId);
+    res.json({ success: true, data: quotes });
+  } catch (error) {
+    sendQuoteError(res, error, 'Failed to load quotes');
+  }
+});
+
+/**
+ * One quote with its line items and terms
+ * GET /api/client/quotes/:id
+ */
+router.get('/:id', authenticateClient, requireBusiness, async (req, res) => {
+  try {
+    const pool = await getPool();
+    const quote = await getClientQuote(pool, req.params.id, req.user.businessId);
+    if (!quote) {
+      return res.status(404).json({ success: false, error: 'Quote not found' });
+    }
+    res.json({ success: true, data: quote });
+  } catch (error) {
+    sendQuoteError(res, error, 'Failed to load quote');
+  }
+});
+
+/**
+ * Accept (e-sign) a quote, which schedules its service request
+ * POST /api/client/quotes/:id/accept
+ * Body: { agreed: true, signatureName: string }
+ */
+router.post('/:id/accept', authenticateClient, requireBusiness, async (req, res) => {
+  try {
+    const { signatureName } = validateAcceptance(req.body);
+    const { serviceRequestId, requestNumber } = await transaction(client => acceptQuote(client, req.params.id, {
+      businessId: req.user.businessId,
+      userId: req.user.clientId,
+      signatureName,
+      ip: req.ip,
+    }));
+
+    const pool = await getPool();
+    const quote = await getClientQuote(pool, req.params.id, req.user.businessId);
+
+    // Same workflow and admin refresh as a request the client submits
+    initializeServiceRequestWorkflow(serviceRequestId, {
+      requestNumber,
+      title: quote.title,
+      description: quote.description || '',
+      clientName: signatureName,
+    }).catch(error => console.error('❌ Error initializing workflow for accepted quote:', error));
+    websocketService.broadcastServiceRequestUpdate(serviceRequestId, 'created', { quoteNumber: quote.quote_number })
+      .catch(error => console.error('❌ Error broadcasting accepted quote:', error));
+
+    res.json({
+      success: true,
+      message: `Quote accepted. Service request ${requestNumber} has been created.`,
+      data: quote,
+    });
+  } catch (error) {
+    sendQuoteError(res, error, 'Failed to accept quote');
+  }
+});
+
+/**
+ * Decline a quote
+ * POST /api/client/quotes/:id/decline
+ * Body: { reason?: string }
+ */
+router.post('/:id/decline', authenticateClient, requireBusiness, async (req, res) => {
+  try {
+    const { reason } = validateDecline(req.body);
+    await transaction(client => declineQuote(client, req.params.id, {
+      businessId: req.user.businessId,
+      userId: req.user.clientId,
+      reason,
+    }));
+
+    const pool = await getPool();
+    res.json({
+      success: true,
+      message: 'Quote declined',
+      data: await getClientQuote(pool, req.params.id, req.user.businessId),
+    });
+  } catch (error) {
+    sendQuoteError(res, error, 'Failed to decline quote');
+  }
+});
+
+export default router;
@@ -3,7 +3,6 @@ import multer from 'multer';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import fs from 'fs/promises';
-import crypto from 'crypto';
 import { authMiddleware } from '../../middleware/authMiddleware.js';
 import { clientContextMiddleware, requireClientAccess } from '../../middleware/clientMiddleware.js';
 import { sanitizeInputMiddleware, validateFileUpload } from '../../utils/inputValidation.js';
@@ -13,8 +12,16 @@ import { sendServiceRequestNotificationToTechnicians, sendServiceRequestConfirma
 import { initializeServiceRequestWorkflow } from '../../services/workflowService.js';
 import { websocketService } from '../../services/websocketService.js';
 import { sendNotificationToEmployees } from '../pushRoutes.js';
-import virusScanService from '../../services/virusScanService.js';
 import quotaManagementService from '../../services/quotaManagementService.js';
+import {
+  ALLOWED_UPLOAD_TYPES,
+  CLIENT_UPLOADS_DIR,
+  ensureDirectoryExists,
+  secureFilename,
+  storeServiceRequestFiles
+} from '../../services/serviceRequestFileService.js';
+import { applyTemplate, listTemplates, resolveRequestTemplate } from '../../services/serviceRequestTemplateService.js';
+import { addChecklistItems, listChecklist } from '../../services/serviceRequestChecklistService.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -35,6 +42,20 @@ router.post('/', async (req, res) => {
   try {
     console.log('📥 Received service request data:', JSON.stringify(req.body, null, 2));
 
+    const businessId = req.user.businessId;
+    const clientId = req.user.id; // authMiddleware sets req.user.id
+
+    // Get database pool
+    const pool = await getPool();
+
+    // Blank fields are filled from the template the client picked
+    let template;
+    try {
+      template = await resolveRequestTemplate(pool, req.body.template_id, { clientVisibleOnly: true });
+    } catch (templateError) {
+      return res.status(templateError.statusCode || 500).json({ success: false, message: templateError.message });
+    }
+
     const {
       title,
       description,
@@ -50,14 +71,9 @@ router.post('/', async (req, res) => {
       contact_phone: primaryContactPhone,
       contact_email: primaryContactEmail,
       service_type_id: serviceTypeId,
+      template_id: templateId,
       attachment_file_ids: attachmentFileIds = []
-    } = req.body;
-
-    const businessId = req.user.businessId;
-    const clientId = req.user.id; // authMiddleware sets req.user.id
-
-    // Get database pool
-    const pool = await getPool();
+    } = applyTemplate(template, req.body);
 
     // Check if client has reached the limit of 5 open service requests
     const openRequestsQuery = `
@@ -136,9 +152,10 @@ router.post('/', async (req, res) => {
         primary_contact_name,
         primary_contact_phone,
         primary_contact_email,
-        service_type_id
+        service_type_id,
+        template_id
       ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17
       ) RETURNING id, request_number, created_at
     `;
 
@@ -158,12 +175,18 @@ router.post('/', async (req, res) => {
       primaryContactName,
       primaryContactPhone,
       primaryContactEmail,
-      serviceTypeId
+      serviceTypeId,
+      templateId || null
     ];
 
     const result = await pool.query(insertQuery, values);
     const serviceRequestId = result.rows[0].id;
 
+    // The template's steps become the request's checklist
+    if (template) {
+      await addChecklistItems(pool, serviceRequestId, template.checklist_items);
+    }
+
     // Associate uploaded files with the service request
     if (attachmentFileIds && attachmentFileIds.length > 0) {
       console.log(`🔗 Associating ${attachmentFileIds.length} files with service request ${requestNumber}`);
@@ -749,6 +772,25 @@ router.get('/', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/client/service-requests/templates
+ * Active templates offered to clients, optionally for one service type
+ */
+router.get('/templates', async (req, res) => {
+  try {
+    const pool = await getPool();
+    const serviceTypeId = typeof req.query.serviceTypeId === 'string' && req.query.serviceTypeId ? req.query.serviceTypeId : null;
+    const templates = await listTemplates(pool, { serviceTypeId, activeOnly: true, clientVisibleOnly: true });
+    res.json({ success: true, data: templates });
+  } catch (error) {
+    console.error('❌ Error fetching service request templates:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch service request templates'
+    });
+  }
+});
+
 /**
  * GET /api/client/service-requests/:id
  * Get a single service request for authenticated client (for WebSocket cache updates)
@@ -1002,6 +1044,53 @@ router.get('/:id/notes', async (req, res) => {
   }
 });
 
+/**
+ * GET /api/client/service-requests/:id/checklist
+ * The request's task checklist, read-only for the client
+ */
+router.get('/:id/checklist', async (req, res) => {
+  try {
+    const { id } = req.params;
+    const businessId = req.user.businessId;
+    const clientId = req.user.id;
+
+    const pool = await getPool();
+    const serviceRequestResult = await pool.query(`
+      SELECT id FROM service_requests
+      WHERE id = $1 AND business_id = $2 AND client_id = $3 AND soft_delete = false
+    `, [id, businessId, clientId]);
+
+    if (serviceRequestResult.rows.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Service request not found'
+      });
+    }
+
+    const items = await listChecklist(pool, id);
+
+    res.json({
+      success: true,
+      data: {
+        items: items.map(item => ({
+          id: item.id,
+          text: item.item_text,
+          required: item.is_required,
+          completedAt: item.completed_at,
+          completedByName: item.completed_by_name
+        }))
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Error fetching service request checklist:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch service request checklist'
+    });
+  }
+});
+
 /**
  * POST /api/client/service-requests/:id/notes
  * Add a note to a service request
@@ -1842,22 +1931,11 @@ router.patch('/service-requests/:id/details', async (req, res) => {
 });
 
 // Configure multer for service request file uploads
-const clientUploadsDir = path.join(__dirname, '..', '..', 'uploads', 'clients');
-
-async function ensureDirectoryExists(dirPath) {
-  try {
-    await fs.access(dirPath);
-  } catch {
-    await fs.mkdir(dirPath, { recursive: true });
-    console.log(`📁 Created directory: ${dirPath}`);
-  }
-}
-
 const storage = multer.diskStorage({
   destination: async (req, file, cb) => {
     try {
       const businessId = req.user?.businessId || 'unknown';
-      const businessDir = path.join(clientUploadsDir, businessId);
+      const businessDir = path.join(CLIENT_UPLOADS_DIR, businessId);
       await ensureDirectoryExists(businessDir);
       cb(null, businessDir);
     } catch (error) {
@@ -1874,35 +1952,14 @@ const storage = multer.diskStorage({
     }
 
     // Generate secure filename with UUID and timestamp
-    const fileExtension = path.extname(file.originalname);
-    const randomId = crypto.randomUUID();
-    const timestamp = Date.now();
-    const secureFilename = `${timestamp}_${randomId}${fileExtension}`;
-    cb(null, secureFilename);
+    cb(null, secureFilename(file.originalname));
   }
 });
 
 const fileFilter = (req, file, cb) => {
-  const allowedTypes = [
-    'application/pdf',
-    'text/plain',
-    'application/msword',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/vnd.ms-excel',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'image/jpeg',
-    'image/jpg', // Some systems use image/jpg instead of image/jpeg
-    'image/png',
-    'image/gif',
-    'image/webp',
-    'application/zip',
-    'application/x-zip-compressed',
-    'application/gzip'
-  ];
-
   const validation = validateFileUpload(file, 'attachments');
 
-  if (!allowedTypes.includes(file.mimetype)) {
+  if (!ALLOWED_UPLOAD_TYPES.includes(file.mimetype)) {
     cb(new Error(`File type ${file.mimetype} not allowed`), false);
     return;
   }
@@ -1923,105 +1980,11 @@ const upload = multer({
   fileFilter: fileFilter
 });
 
-/**
- * Ensures the folder structure exists for organizing service request files
- * Creates "Service Requests" parent folder and SR-specific subfolder if needed
- * @param {string} businessId - Business UUID
- * @param {string} requestNumber - Service request number (e.g., "SR-2025-00001")
- * @returns {Promise<string>} - Folder ID for the service request
- */
-async function ensureServiceRequestFolder(businessId, requestNumber) {
-  const pool = await getPool();
-
-  // Step 1: Ensure "Service Requests" parent folder exists
-  let parentFolderId;
-  const parentFolderResult = await pool.query(
-    `SELECT id FROM t_client_folders
-     WHERE business_id = $1
-       AND folder_name = 'Service Requests'
-       AND parent_folder_id IS NULL
-       AND soft_delete = false
-       LIMIT 1`,
-    [businessId]
-  );
-
-  if (parentFolderResult.rows.length > 0) {
-    parentFolderId = parentFolderResult.rows[0].id;
-  } else {
-    // Create "Service Requests" parent folder
-    const createParentResult = await pool.query(
-      `INSERT INTO t_client_folders (
-        business_id,
-        parent_folder_id,
-        folder_name,
-        folder_description,
-        folder_color,
-        sort_order,
-        is_system_folder
-      ) VALUES ($1, NULL, $2, $3, $4, 0, true)
-      RETURNING id`,
-      [
-        businessId,
-        'Service Requests',
-        'Automatically organized files from service requests',
-        '#3B82F6'
-      ]
-    );
-    parentFolderId = createParentResult.rows[0].id;
-    console.log(`📁 Created "Service Requests" parent folder for business ${businessId}`);
-  }
-
-  // Step 2: Ensure service request subfolder exists
-  let srFolderId;
-  const srFolderResult = await pool.query(
-    `SELECT id FROM t_client_folders
-     WHERE business_id = $1
-       AND parent_folder_id = $2
-       AND folder_name = $3
-       AND soft_delete = false
-       LIMIT 1`,
-    [businessId, parentFolderId, requestNumber]
-  );
-
-  if (srFolderResult.rows.length > 0) {
-    srFolderId = srFolderResult.rows[0].id;
-  } else {
-    // Create service request subfolder
-    const createSrFolderResult = await pool.query(
-      `INSERT INTO t_client_folders (
-        business_id,
-        parent_folder_id,
-        folder_name,
-        folder_description,
-        folder_color,
-        sort_order,
-        is_system_folder
-      ) VALUES ($1, $2, $3, $4, $5, 0, true)
-      RETURNING id`,
-      [
-        businessId,
-        parentFolderId,
-        requestNumber,
-        `Files for service request ${requestNumber}`,
-        '#10B981'
-      ]
-    );
-    srFolderId = createSrFolderResult.rows[0].id;
-    console.log(`📁 Created folder for service request ${requestNumber}`);
-  }
-
-  return srFolderId;
-}
-
 /**
  * POST /api/client/service-requests/:id/files/upload
  * Upload files to a service request with virus scanning and auto-note creation
  */
 router.post('/:id/files/upload', upload.array('files', 5), async (req, res) => {
-  const uploadedFiles = [];
-  const failedFiles = [];
-  let totalSizeBytes = 0;
-
   try {
     if (!req.files || req.files.length === 0) {
       return res.status(400).json({
@@ -2053,197 +2016,25 @@ router.post('/:id/files/upload', upload.array('files', 5), async (req, res) => {
       });
     }
 
-    const requestNumber = requestCheck.rows[0].request_number;
-
-    // Ensure folder structure exists for this service request
-    const serviceRequestFolderId = await ensureServiceRequestFolder(businessId, requestNumber);
-    console.log(`📁 Files will be organized in folder: ${requestNumber}`);
-
-    // Calculate total upload size
-    totalSizeBytes = req.files.reduce((sum, file) => sum + file.size, 0);
-
-    console.log(`📤 Processing ${req.files.length} file(s) upload for service request ${requestNumber}`);
-
-    // Check quota
-    const quotaCheck = await quotaManagementService.checkQuotaAvailability(
+    const { quotaExceeded, uploadedFiles, failedFiles } = await storeServiceRequestFiles({
+      serviceRequest: requestCheck.rows[0],
       businessId,
-      totalSizeBytes,
-      null,
-      userId
-    );
-
-    if (!quotaCheck.canUpload) {
-      await Promise.all(req.files.map(file =>
-        fs.unlink(file.path).catch(err => console.error('Failed to cleanup file:', err))
-      ));
+      userId,
+      uploadedBy: req.user.email,
+      files: req.files,
+      ipAddress: req.ip,
+      userAgent: req.get('User-Agent')
+    });
 
+    if (quotaExceeded) {
       return res.status(413).json({
         success: false,
-        message: quotaCheck.message,
-        quotaInfo: quotaCheck
+        message: quotaExceeded.message,
+        quotaInfo: quotaExceeded
       });
     }
 
-    // Process each file
-    for (const file of req.files) {
-      try {
-        console.log(`🔍 Processing file: ${file.originalname} (${quotaManagementService.formatBytes(file.size)})`);
-
-        // Perform virus scan
-        const scanResult = await virusScanService.scanFile(file.path, {
-          originalName: file.originalname,
-          size: file.size,
-          userId: userId,
-          businessId: businessId,
-          serviceRequestId: serviceRequestId
-        });
-
-        if (scanResult.isInfected) {
-          await virusScanService.quarantineFile(file.path, scanResult);
-
-          failedFiles.push({
-            originalName: file.originalname,
-            error: `File infected with virus: ${scanResult.virusName}`,
-            scanId: scanResult.scanId
-          });
-
-          console.log(`🚨 Infected file quarantined: ${file.originalname}`);
-          continue;
-        }
-
-        if (!scanResult.scanSuccess) {
-          await fs.unlink(file.path).catch(err => console.error('Failed to cleanup file:', err));
-
-          failedFiles.push({
-            originalName: file.originalname,
-            error: `Virus scan failed: ${scanResult.errorMessage}`,
-            scanId: scanResult.scanId
-          });
-
-          console.log(`❌ Scan failed for file: ${file.originalname}`);
-          continue;
-        }
-
-        // File is clean, record in database
-        const fileData = {
-          businessId: businessId,
-          serviceLocationId: null,
-          userId: userId,
-          fileName: file.filename,
-          originalName: file.originalname,
-          fileSizeBytes: file.size,
-          mimeType: file.mimetype,
-          filePath: file.path,
-          categoryId: null,
-          description: '',
-          isPublic: false,
-          metadata: {
-            scanId: scanResult.scanId,
-            uploadedBy: req.user.email,
-            uploadIp: req.ip,
-            userAgent: req.get('User-Agent'),
-            serviceRequestId: serviceRequestId
-          },
-          ipAddress: req.ip,
-          userAgent: req.get('User-Agent')
-        };
-
-        const uploadResult = await quotaManagementService.recordFileUpload(fileData);
-
-        if (uploadResult.success) {
-          // Link file to service request and assign to the appropriate folder
-          await pool.query(
-            'UPDATE t_client_files SET service_request_id = $1, folder_id = $2 WHERE id = $3',
-            [serviceRequestId, serviceRequestFolderId, uploadResult.fileId]
-          );
-
-          uploadedFiles.push({
-            fileId: uploadResult.fileId,
-            originalName: file.originalname,
-            fileName: file.filename,
-            size: file.size,
-            mimeType: file.mimetype,
-            scanId: scanResult.scanId,
-            scanStatus: scanResult.isInfected ? 'infected' : 'clean',
-            uploadedAt: uploadResult.createdAt
-          });
-
-          console.log(`✅ File uploaded successfully: ${file.originalname}`);
-        } else {
-          await fs.unlink(file.path).catch(err => console.error('Failed to cleanup file:', err));
-
-          failedFiles.push({
-            originalName: file.originalname,
-            error: `Database error: ${uploadResult.error}`
-          });
-        }
-
-      } catch (error) {
-        console.error(`❌ Error processing file ${file.originalname}:`, error);
-
-        await fs.unlink(file.path).catch(err => console.error('Failed to cleanup file:', err));
-
-        failedFiles.push({
-          originalName: file.originalname,
-          error: error.message
-        });
-      }
-    }
-
-    // Create automatic note if any files were uploaded successfully
     if (uploadedFiles.length > 0) {
-      const userQuery = await pool.query(
-        'SELECT first_name, last_name FROM users WHERE id = $1',
-        [userId]
-      );
-      const userName = userQuery.rows[0] ? `${userQuery.rows[0].first_name} ${userQuery.rows[0].last_name}` : 'User';
-
-      const now = new Date();
-      const utcTime = now.toISOString().replace('T', ' ').substring(0, 19) + ' UTC';
-      const localTime = now.toLocaleString('en-US', {
-        timeZone: 'America/Los_Angeles',
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-        hour12: false
-      }) + ' PST';
-
-      const fileList = uploadedFiles.map(f => `- ${f.originalName} (${quotaManagementService.formatBytes(f.size)})`).join('\n');
-      const allClean = uploadedFiles.every(f => f.scanStatus === 'clean');
-      const virusStatus = allClean ? '✅ Clean' : '⚠️ Some files flagged';
-
-      const noteText = `📎 **${userName}** uploaded **${uploadedFiles.length}** file(s) on ${utcTime} (${localTime})
-
-**Files:**
-${fileList}
-
-**Virus scan:** ${virusStatus}`;
-
-      await pool.query(`
-        INSERT INTO service_request_notes (
-          service_request_id,
-          note_text,
-          note_type,
-          created_by_type,
-          created_by_id,
-          created_by_name,
-          is_visible_to_client
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
-      `, [
-        serviceRequestId,
-        noteText,
-        'file_upload',
-        'client',
-        userId,
-        userName,
-        true
-      ]);
-
-      console.log(`📝 Created auto-note for ${uploadedFiles.length} uploaded file(s)`);
-
       // Broadcast file upload to admins/employees and client via WebSocket
       websocketService.broadcastServiceRequestUpdate(serviceRequestId, 'updated', {
         filesUploaded: true,
@@ -0,0 +1,178 @@
+import express from 'express';
+import crypto from 'crypto';
+import { getPool } from '../config/database.js';
+import { processInboundEmail } from '../services/inboundEmailService.js';
+import { storeAttachmentBuffers } from '../services/serviceRequestFileService.js';
+import { initializeServiceRequestWorkflow } from '../services/workflowService.js';
+import { sendEmail, sendNoteAdditionNotification } from '../services/emailService.js';
+import { websocketService } from '../services/websocketService.js';
+
+const router = express.Router();
+
+/**
+ * The relay authenticates with the shared INBOUND_EMAIL_SECRET in the
+ * X-Inbound-Email-Secret header.
+ */
+function hasValidSecret(req) {
+  const expected = process.env.INBOUND_EMAIL_SECRET;
+  const given = req.get('X-Inbound-Email-Secret') || '';
+  const digest = (value) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(expected), digest(given));
+}
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Workflow notifications, the live update and an acknowledgement to the
+ * sender whose subject carries the request number, so replies thread.
+ */
+async function announceCreatedRequest(outcome) {
+  const { serviceRequest, sender } = outcome;
+  const clientName = [sender.first_name, sender.last_name].filter(Boolean).join(' ') || sender.email;
+
+  initializeServiceRequestWorkflow(serviceRequest.id, {
+    requestNumber: serviceRequest.request_number,
+    title: serviceRequest.title,
+    description: serviceRequest.description,
+    clientName
+  }).catch(error => console.error('❌ Error initializing service request workflow:', error));
+
+  websocketService.broadcastServiceRequestUpdate(serviceRequest.id, 'created', {
+    requestNumber: serviceRequest.request_number,
+    title: serviceRequest.title,
+    businessId: sender.business_id
+  });
+
+  sendEmail({
+    to: sender.email,
+    subject: `[${serviceRequest.request_number}] ${serviceRequest.title}`,
+    html: `
+      <p>Hi ${escapeHtml(sender.first_name || clientName)},</p>
+      <p>We received your email and opened service request
+        <strong>${serviceRequest.request_number}</strong>: ${escapeHtml(serviceRequest.title)}.</p>
+      <p>Reply to this email to add to the request; keep the request number in the subject.</p>
+    `,
+    text: `We received your email and opened service request ${serviceRequest.request_number}: ${serviceRequest.title}.\n\n` +
+      'Reply to this email to add to the request; keep the request number in the subject.'
+  }).catch(error => console.error('❌ Failed to acknowledge inbound email:', error));
+}
+
+async function announceReply(pool, outcome) {
+  const { serviceRequest, sender, note } = outcome;
+  if (!note) {
+    websocketService.broadcastServiceRequestUpdate(serviceRequest.id, 'updated', { filesUploaded: true });
+    return;
+  }
+
+  websocketService.broadcastServiceRequestUpdate(serviceRequest.id, 'updated', {
+    noteAdded: true,
+    note: { ...note, is_visible_to_client: true }
+  });
+
+  const details = await pool.query(`
+    SELECT sr.request_number, sr.title, sr.assigned_to_employee_id,
+           COALESCE(srs.name, 'Unknown') AS status,
+           sl.location_name, sl.street_address_1, sl.street_address_2, sl.city, sl.state, sl.zip_code
+      FROM service_requests sr
+      LEFT JOIN service_locations sl ON sr.service_location_id = sl.id
+      LEFT JOIN service_request_statuses srs ON sr.status_id = srs.id
+     WHERE sr.id = $1
+  `, [serviceRequest.id]);
+  const request = details.rows[0];
+  if (!request) return;
+
+  const isTechnicianViewing = request.assigned_to_employee_id &&
+    websocketService.isEmployeeViewingRequest(request.assigned_to_employee_id, serviceRequest.id);
+
+  sendNoteAdditionNotification({
+    serviceRequest: {
+      requestNumber: request.request_number,
+      title: request.title,
+      status: request.status,
+      locationName: request.location_name,
+      locationAddress: {
+        street1: request.street_address_1,
+        street2: request.street_address_2,
+        city: request.city,
+        state: request.state,
+        zip: request.zip_code
+      }
+    },
+    note: { noteText: note.note_text, createdAt: note.created_at },
+    noteCreator: { name: note.created_by_name, email: sender.email, phone: sender.phone },
+    clientData: {
+      email: sender.email,
+      firstName: sender.first_name,
+      lastName: sender.last_name,
+      phone: sender.phone
+    },
+    excludeEmployeeId: isTechnicianViewing ? request.assigned_to_employee_id : null
+  }).catch(error => console.error('❌ Failed to send note addition email notifications:', error));
+}
+
+/**
+ * POST /api/inbound-email
+ * A raw MIME message from the mail relay (body is the message itself).
+ * Rejected, unverified and ignored messages are still acknowledged with 200
+ * so the relay does not retry them; a 500 asks it to.
+ */
+router.post('/', express.raw({ type: () => true, limit: '30mb' }), async (req, res) => {
+  if (!process.env.INBOUND_EMAIL_SECRET) {
+    return res.status(503).json({ success: false, message: 'Inbound email is not configured' });
+  }
+  if (!hasValidSecret(req)) {
+    return res.status(401).json({ success: false, message: 'Invalid inbound email secret' });
+  }
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return res.status(400).json({ success: false, message: 'Post the raw MIME message as the request body' });
+  }
+
+  try {
+    const pool = await getPool();
+    const outcome = await processInboundEmail(pool, req.body, {
+      authservId: process.env.INBOUND_EMAIL_AUTHSERV_ID || null,
+      saveAttachments: ({ serviceRequest, sender, attachments }) => storeAttachmentBuffers({
+        serviceRequest,
+        businessId: sender.business_id,
+        userId: sender.id,
+        uploadedBy: sender.email,
+        attachments,
+        ipAddress: req.ip,
+        userAgent: 'inbound-email'
+      })
+    });
+
+    const requestNumber = outcome.serviceRequest?.request_number || null;
+    console.log(`📧 Inbound email from ${outcome.email?.from.address || 'unknown'}: ${outcome.status}` +
+      `${requestNumber ? ` (${requestNumber})` : ''}${outcome.reason ? ` - ${outcome.reason}` : ''}`);
+
+    if (outcome.status === 'created') {
+      await announceCreatedRequest(outcome);
+    } else if (outcome.status === 'threaded') {
+      await announceReply(pool, outcome);
+    }
+
+    res.json({
+      success: true,
+      data: {
+        status: outcome.status,
+        reason: outcome.reason || null,
+        requestNumber,
+        uploadedFiles: outcome.files?.uploadedFiles.length || 0,
+        failedFiles: outcome.files?.failedFiles || []
+      }
+    });
+  } catch (error) {
+    console.error('❌ Error processing inbound email:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to process inbound email'
+    });
+  }
+});
+
+export default router;
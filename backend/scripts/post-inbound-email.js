@@ -0,0 +1,99 @@
+#!/usr/bin/env node
+/**
+ * Feed .eml files to the inbound email gateway, for testing email-to-ticket
+ * without a mail relay.
+ *
+ * Each file is posted to the gateway endpoint with INBOUND_EMAIL_SECRET
+ * (any value works locally, as long as the server uses the same one). With
+ * --direct it is processed in-process instead, without a running server.
+ * Bare names are looked up in fixtures/inbound-email.
+ *
+ * The sender must be a client user; edit the From: line of a fixture (or
+ * the request number in a reply's subject) to match your data. Posting the
+ * same file twice shows the duplicate being skipped by Message-ID.
+ *
+ * Usage:
+ *   node scripts/post-inbound-email.js [--url <url>] [--direct] <file.eml|fixture...>
+ *
+ * Example:
+ *   node scripts/post-inbound-email.js new-request reply
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { getPool, closePool } from '../config/database.js';
+import { INBOUND_EMAIL_FIXTURES_DIR, processInboundEmail } from '../services/inboundEmailService.js';
+import { storeAttachmentBuffers } from '../services/serviceRequestFileService.js';
+
+function parseArgs(argv) {
+  const options = { files: [], direct: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--url') options.url = argv[++i];
+    else if (arg === '--direct') options.direct = true;
+    else options.files.push(arg);
+  }
+  return options;
+}
+
+async function resolveFile(name) {
+  try {
+    await fs.access(name);
+    return name;
+  } catch {
+    return path.join(INBOUND_EMAIL_FIXTURES_DIR, name.endsWith('.eml') ? name : `${name}.eml`);
+  }
+}
+
+async function post() {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.files.length === 0) {
+    const fixtures = (await fs.readdir(INBOUND_EMAIL_FIXTURES_DIR)).filter(file => file.endsWith('.eml'));
+    console.log('Usage: node scripts/post-inbound-email.js [--url <url>] [--direct] <file.eml|fixture...>');
+    console.log(`Fixtures: ${fixtures.map(file => file.replace(/\.eml$/, '')).join(', ')}`);
+    process.exit(1);
+  }
+
+  const secret = process.env.INBOUND_EMAIL_SECRET;
+  if (!options.direct && !secret) {
+    console.error('❌ INBOUND_EMAIL_SECRET is not set; set it for the server and this script, or use --direct');
+    process.exit(1);
+  }
+  const url = options.url || `http://localhost:${process.env.PORT || 3001}/api/inbound-email`;
+
+  try {
+    for (const name of options.files) {
+      const raw = await fs.readFile(await resolveFile(name));
+
+      if (options.direct) {
+        const pool = await getPool();
+        const outcome = await processInboundEmail(pool, raw, {
+          saveAttachments: ({ serviceRequest, sender, attachments }) => storeAttachmentBuffers({
+            serviceRequest,
+            businessId: sender.business_id,
+            userId: sender.id,
+            uploadedBy: sender.email,
+            attachments,
+            userAgent: 'inbound-email (direct)'
+          })
+        });
+        const requestNumber = outcome.serviceRequest?.request_number;
+        console.log(`  ${name}: ${outcome.status}${requestNumber ? ` (${requestNumber})` : ''}${outcome.reason ? ` - ${outcome.reason}` : ''}`);
+        continue;
+      }
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'message/rfc822', 'X-Inbound-Email-Secret': secret },
+        body: raw
+      });
+      console.log(`  ${name}: HTTP ${response.status} ${await response.text()}`);
+    }
+  } catch (error) {
+    console.error('❌ Posting failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    if (options.direct) await closePool();
+  }
+}
+
+post();
@@ -0,0 +1,130 @@
+#!/usr/bin/env node
+/**
+ * Replay recorded Stripe webhook events against an invoice, for testing
+ * payment reconciliation without a Stripe account.
+ *
+ * The fixtures in fixtures/stripe-webhooks are filled in for the invoice,
+ * signed with STRIPE_WEBHOOK_SECRET (any value works locally, as long as the
+ * server uses the same one) and posted to the webhook endpoint. With
+ * --direct they are applied in-process instead, without a running server.
+ *
+ * Event IDs are derived from the invoice, so replaying the same event twice
+ * shows the duplicate being skipped.
+ *
+ * Usage:
+ *   node scripts/replay-stripe-webhooks.js --invoice <id|number> [options] <event...>
+ *
+ * Options:
+ *   --url <url>      webhook endpoint (default http://localhost:$PORT/api/client/payments/webhook)
+ *   --refund <amt>   cumulative refunded amount for charge.refunded (default: the invoice total)
+ *   --direct         apply without the server (recorded with source 'replay')
+ *
+ * Example:
+ *   node scripts/replay-stripe-webhooks.js --invoice INV-20261018-0001 \
+ *     payment_intent.succeeded charge.refunded
+ */
+import fs from 'fs/promises';
+import Stripe from 'stripe';
+import { getPool, closePool } from '../config/database.js';
+import {
+  WEBHOOK_FIXTURES_DIR,
+  loadWebhookFixture,
+  processStripeEvent
+} from '../services/stripeWebhookService.js';
+
+function parseArgs(argv) {
+  const options = { events: [], direct: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--invoice') options.invoice = argv[++i];
+    else if (arg === '--url') options.url = argv[++i];
+    else if (arg === '--refund') options.refund = parseFloat(argv[++i]);
+    else if (arg === '--direct') options.direct = true;
+    else options.events.push(arg);
+  }
+  return options;
+}
+
+async function availableFixtures() {
+  const files = await fs.readdir(WEBHOOK_FIXTURES_DIR);
+  return files.filter(file => file.endsWith('.json')).map(file => file.replace(/\.json$/, '')).sort();
+}
+
+async function replay() {
+  const options = parseArgs(process.argv.slice(2));
+  const fixtures = await availableFixtures();
+
+  if (!options.invoice || options.events.length === 0) {
+    console.log('Usage: node scripts/replay-stripe-webhooks.js --invoice <id|number> [--url <url>] [--refund <amount>] [--direct] <event...>');
+    console.log(`Events: ${fixtures.join(', ')}`);
+    process.exit(1);
+  }
+  const unknown = options.events.filter(name => !fixtures.includes(name));
+  if (unknown.length > 0) {
+    console.error(`❌ No fixture for ${unknown.join(', ')}. Events: ${fixtures.join(', ')}`);
+    process.exit(1);
+  }
+
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!options.direct && !secret) {
+    console.error('❌ STRIPE_WEBHOOK_SECRET is not set; set it for the server and this script, or use --direct');
+    process.exit(1);
+  }
+
+  try {
+    const pool = await getPool();
+    const invoiceResult = await pool.query(`
+      SELECT id, invoice_number, business_id, total_amount, stripe_payment_intent_id, stripe_charge_id
+        FROM invoices
+       WHERE id::text = $1 OR invoice_number = $1
+    `, [options.invoice]);
+    if (invoiceResult.rows.length === 0) {
+      console.error(`❌ Invoice ${options.invoice} not found`);
+      process.exit(1);
+    }
+    const invoice = invoiceResult.rows[0];
+
+    const amountCents = Math.round(parseFloat(invoice.total_amount) * 100);
+    const values = {
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      businessId: invoice.business_id,
+      amountCents,
+      refundAmountCents: Number.isFinite(options.refund) ? Math.round(options.refund * 100) : amountCents,
+      paymentIntentId: invoice.stripe_payment_intent_id || `pi_fixture_${invoice.invoice_number}`,
+      chargeId: invoice.stripe_charge_id || `ch_fixture_${invoice.invoice_number}`,
+      created: Math.floor(Date.now() / 1000)
+    };
+    const url = options.url || `http://localhost:${process.env.PORT || 3001}/api/client/payments/webhook`;
+
+    console.log(`🔁 Replaying ${options.events.length} event(s) for ${invoice.invoice_number}${options.direct ? ' (direct)' : ` to ${url}`}`);
+
+    for (const name of options.events) {
+      const event = await loadWebhookFixture(name, values);
+
+      if (options.direct) {
+        const outcome = await processStripeEvent(event, { source: 'replay' });
+        console.log(`  ${name}: ${outcome.duplicate ? 'duplicate, skipped' : `${outcome.status}${outcome.action ? ` (${outcome.action})` : ''}`}`);
+        continue;
+      }
+
+      const payload = JSON.stringify(event);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Stripe-Signature': Stripe.webhooks.generateTestHeaderString({ payload, secret })
+        },
+        body: payload
+      });
+      console.log(`  ${name}: HTTP ${response.status} ${await response.text()}`);
+    }
+  } catch (error) {
+    console.error('❌ Replay failed:', error.message);
+    process.exitCode = 1;
+  } finally {
+    await closePool();
+  }
+}
+
+replay();
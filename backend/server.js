@@ -26,6 +26,10 @@ import clientServiceRequestRoutes from './routes/client/serviceRequests.js';
 import clientSchedulerRoutes from './routes/client/scheduler.js';
 import clientPaymentRoutes, { webhookRouter } from './routes/client/payments.js';
 import clientInvoiceRoutes from './routes/client/invoices.js';
+import clientQuoteRoutes from './routes/client/quotes.js';
+import clientPrepaidHoursRoutes from './routes/client/prepaidHours.js';
+import clientProjectRoutes from './routes/client/projects.js';
+import clientExecutiveSummaryRoutes from './routes/client/executiveSummary.js';
 import clientAlertSubscriptionRoutes from './routes/client/alertSubscriptions.js';
 import clientHealthCheckRoutes from './routes/client/healthChecks.js';
 import translationsRoutes from './routes/translations.js';
@@ -38,11 +42,22 @@ import employeeServiceRequestWorkflowRoutes from './routes/employee/serviceReque
 import serviceTypesRoutes from './routes/serviceTypes.js';
 import pushRoutes from './routes/pushRoutes.js';
 import serviceRatingsRoutes from './routes/serviceRatings.js';
+import inboundEmailRoutes from './routes/inboundEmail.js';
 import adminTestimonialsRoutes from './routes/admin/testimonials.js';
 import adminRatingQuestionsRoutes from './routes/admin/ratingQuestions.js';
 import adminAlertsRoutes from './routes/admin/alerts.js';
 import adminSubscriptionRoutes from './routes/admin/subscription.js';
 import adminZenithgridLicensesRoutes from './routes/admin/zenithgridLicenses.js';
+import adminReportsRoutes from './routes/admin/reports.js';
+import adminReportSchedulesRoutes from './routes/admin/reportSchedules.js';
+import adminSlaRoutes from './routes/admin/sla.js';
+import adminRecurringBillingRoutes from './routes/admin/recurringBilling.js';
+import adminAccountingExportRoutes from './routes/admin/accountingExport.js';
+import adminQuoteRoutes from './routes/admin/quotes.js';
+import adminProjectRoutes from './routes/admin/projects.js';
+import adminDispatchRoutes from './routes/admin/dispatch.js';
+import adminTaxRoutes from './routes/admin/taxes.js';
+import adminServiceRequestTemplateRoutes from './routes/admin/serviceRequestTemplates.js';
 import zenithgridLicensingRoutes from './routes/zenithgridLicensing.js';
 import alertSubscriptionRoutes from './routes/alertSubscriptions.js';
 import employeeSettingsRoutes from './routes/employeeSettings.js';
@@ -79,6 +94,12 @@ import { websocketService } from './services/websocketService.js';
 
 // Import workflow scheduler
 import { workflowScheduler } from './services/workflowScheduler.js';
+import { reportDeliveryScheduler } from './services/reportDeliveryScheduler.js';
+import { slaMonitor } from './services/slaService.js';
+import { recurringBillingScheduler } from './services/recurringBillingService.js';
+import { consolidatedBillingScheduler } from './services/consolidatedBillingService.js';
+import { dunningScheduler } from './services/invoiceDunningService.js';
+import { autopayScheduler } from './services/autopayService.js';
 
 // Import agent monitoring service
 import { startAgentMonitoring, stopAgentMonitoring, startNightlyTrends, stopNightlyTrends } from './services/agentMonitoringService.js';
@@ -271,6 +292,10 @@ app.use(sanitizeInputMiddleware);
 // It needs access to raw request body for signature verification
 app.use('/api/client/payments', webhookRouter);
 
+// Inbound email gateway: raw MIME from the mail relay, authenticated with a
+// shared secret, so it is registered before body parsing as well
+app.use('/api/inbound-email', inboundEmailRoutes);
+
 // Body parsing middleware
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
@@ -508,6 +533,16 @@ const authRateLimiter = (req, res, next) => {
 
 // API Routes with security middleware
 app.use('/api/auth', authRateLimiter, conditionalCsrfProtection, authRoutes); // Conditional rate limiting (heartbeat vs auth) + conditional CSRF
+app.use('/api/admin/reports', adminLimiter, adminIPWhitelist, doubleCsrfProtection, adminReportsRoutes); // Report builder (mounted before /api/admin so technicians with view.reports.enable are not caught by its security-session gate)
+app.use('/api/admin/report-schedules', adminLimiter, adminIPWhitelist, doubleCsrfProtection, adminReportSchedulesRoutes); // Scheduled report delivery
+app.use('/api/admin/sla', adminLimiter, adminIPWhitelist, doubleCsrfProtection, adminSlaRoutes); // SLA policies, calendars, breach log
+app.use('/api/admin/recurring-billing', adminLimiter, adminIPWhitelist, doubleCsrfProtection, adminRecurringBillingRoutes); // Managed-services plans and per-device billing
+app.use('/api/admin/accounting-export', adminLimiter, adminIPWhitelist, doubleCsrfProtection, adminAccountingExportRoutes); // QuickBooks / Xero exports and income account mapping
+app.use('/api/admin/quotes', adminLimiter, adminIPWhitelist, doubleCsrfProtection, adminQuoteRoutes); // Quotes / estimates
+app.use('/api/admin/projects', adminLimiter, adminIPWhitelist, doubleCsrfProtection, adminProjectRoutes); // Projects, milestones and budget vs actual
+app.use('/api/admin/dispatch', adminLimiter, adminIPWhitelist, doubleCsrfProtection, adminDispatchRoutes); // Dispatch board: drag-and-drop assign and schedule
+app.use('/api/admin/taxes', adminLimiter, adminIPWhitelist, doubleCsrfProtection, adminTaxRoutes); // Tax jurisdictions, business currency and exemptions
+app.use('/api/admin/service-request-templates', adminLimiter, adminIPWhitelist, doubleCsrfProtection, adminServiceRequestTemplateRoutes); // Service request templates
 app.use('/api/admin', adminLimiter, adminIPWhitelist, doubleCsrfProtection, adminRoutes); // Admin rate limiting + IP whitelist + CSRF
 app.use('/api/admin/workflow-configuration', adminLimiter, adminIPWhitelist, doubleCsrfProtection, adminWorkflowConfigRoutes); // Workflow configuration (admin only) + CSRF
 app.use('/api/admin', adminLimiter, adminIPWhitelist, doubleCsrfProtection, adminInvoiceRoutes); // Invoice routes (admin/executive/client) + CSRF
@@ -524,6 +559,10 @@ app.use('/api/client/profile', generalLimiter, doubleCsrfProtection, clientProfi
 app.use('/api/client/mfa', generalLimiter, methodBasedCsrfProtection, clientMfaRoutes); // Client MFA (CSRF skipped for GET)
 app.use('/api/client/payments', generalLimiter, doubleCsrfProtection, clientPaymentRoutes); // Client payments (Stripe) + CSRF
 app.use('/api/client/invoices', generalLimiter, methodBasedCsrfProtection, clientInvoiceRoutes); // Client invoices (CSRF skipped for GET)
+app.use('/api/client/quotes', generalLimiter, methodBasedCsrfProtection, clientQuoteRoutes); // Client quotes: review, accept, decline (CSRF skipped for GET)
+app.use('/api/client/prepaid-hours', generalLimiter, methodBasedCsrfProtection, clientPrepaidHoursRoutes); // Prepaid hour balance (read-only)
+app.use('/api/client/projects', generalLimiter, methodBasedCsrfProtection, clientProjectRoutes); // Projects of the business (read-only)
+app.use('/api/client/executive-summary', generalLimiter, methodBasedCsrfProtection, clientExecutiveSummaryRoutes); // Monthly executive summary (read-only)
 app.use('/api/client/alert-subscriptions', generalLimiter, methodBasedCsrfProtection, clientAlertSubscriptionRoutes); // Client alert subscriptions (CSRF skipped for GET)
 app.use('/api/client/agents', generalLimiter, methodBasedCsrfProtection, clientHealthCheckRoutes); // Client health-check + transparency report (Stage 1)
 app.use('/api/translations', generalLimiter, translationsRoutes); // Translation system - mostly GET
@@ -742,6 +781,24 @@ const startServer = async () => {
     // Start workflow scheduler for service request automation
     workflowScheduler.start();
 
+    // Start scheduled report delivery (emailed PDF/CSV reports)
+    reportDeliveryScheduler.start();
+
+    // Start SLA monitor (due times, pre-breach warnings, breach log)
+    slaMonitor.start();
+
+    // Start recurring billing (daily device counts, monthly managed-services invoices)
+    recurringBillingScheduler.start();
+
+    // Start consolidated billing (monthly draft invoices for deferred service requests)
+    consolidatedBillingScheduler.start();
+
+    // Start dunning (overdue flagging and payment reminders for unpaid invoices)
+    dunningScheduler.start();
+
+    // Start autopay (charges saved payment methods for invoices on their due date)
+    autopayScheduler.start();
+
     // Start agent heartbeat monitoring
     startAgentMonitoring();
 
@@ -817,6 +874,12 @@ process.on('SIGTERM', () => {
   alertCleanupService.stop();
   policySchedulerService.stop();
   escalationMonitor.stop();
+  reportDeliveryScheduler.stop();
+  slaMonitor.stop();
+  recurringBillingScheduler.stop();
+  consolidatedBillingScheduler.stop();
+  dunningScheduler.stop();
+  autopayScheduler.stop();
   process.exit(0);
 });
 
@@ -830,6 +893,12 @@ process.on('SIGINT', () => {
   alertCleanupService.stop();
   policySchedulerService.stop();
   escalationMonitor.stop();
+  reportDeliveryScheduler.stop();
+  slaMonitor.stop();
+  recurringBillingScheduler.stop();
+  consolidatedBillingScheduler.stop();
+  dunningScheduler.stop();
+  autopayScheduler.stop();
   process.exit(0);
 });
 
@@ -0,0 +1,820 @@
+/**
+ * Accounting export -- customers (businesses), issued invoices and credit
+ * notes, and payments as files the bookkeeper imports into QuickBooks or
+ * Xero instead of re-keying them.
+ *
+ *   quickbooks_iif  QuickBooks Desktop IIF (tab separated transactions)
+ *   quickbooks_csv  QuickBooks Online import CSVs
+ *   xero_csv        Xero contact, sales invoice and payment CSVs
+ *
+ * Exports are incremental per accounting system: each run takes everything
+ * that has not gone out to that system yet and records it in
+ * accounting_export_items, so the next run picks up where this one stopped.
+ * IIF and QuickBooks Online CSV count as the same system. Invoices and
+ * payments go out once; a customer goes out again after the business (or its
+ * headquarters address) has been edited. An invoice voided after it was
+ * exported has to be voided in the accounting software by hand.
+ *
+ * Invoice lines are posted to the income account mapped to the service type
+ * they bill for (the line's service request, falling back to the invoice's,
+ * or the credited invoice's for a credit note), or the default account.
+ * QuickBooks Online posts a line to the income account of its
+ * product/service, so the QuickBooks Online CSV names the mapped account as
+ * the product/service; set one up per account with the same name.
+ *
+ * Only money that moved is exported as a payment: payments, refunds and
+ * chargebacks, not credit applied from or refunded to a credit balance,
+ * which stays within receivables.
+ */
+import { renderReportCsv } from './reportDeliveryScheduler.js';
+
+export const EXPORT_FORMATS = ['quickbooks_iif', 'quickbooks_csv', 'xero_csv'];
+export const EXPORT_ENTITY_TYPES = ['customers', 'invoices', 'payments'];
+export const ACCOUNTING_SYSTEMS = ['quickbooks', 'xero'];
+
+// company_settings key of each account setting
+export const ACCOUNT_SETTING_KEYS = {
+  arAccount: 'accounting_ar_account',
+  depositAccount: 'accounting_deposit_account',
+  taxAccount: 'accounting_tax_account',
+  xeroPaymentAccount: 'accounting_xero_payment_account'
+};
+
+const FORMAT_SYSTEMS = {
+  quickbooks_iif: 'quickbooks',
+  quickbooks_csv: 'quickbooks',
+  xero_csv: 'xero'
+};
+
+// Ledger entries that move money in or out
+const CASH_ENTRY_TYPES = ['payment', 'refund', 'chargeback'];
+
+// Xero's default US sales tax rates
+const XERO_TAX_TYPES = { taxable: 'Tax on Sales', exempt: 'Tax Exempt' };
+
+const MAX_QUICKBOOKS_ACCOUNT_LENGTH = 100;
+const MAX_XERO_ACCOUNT_CODE_LENGTH = 20;
+const MAX_SETTING_LENGTH = 100;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function roundCents(value) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function money(value) {
+  return Number(value).toFixed(2);
+}
+
+/**
+ * The accounting system a format imports into
+ */
+export function exportSystem(format) {
+  return FORMAT_SYSTEMS[format];
+}
+
+/**
+ * Which format and what to export. Body: { format, entityType }
+ */
+export function validateExportRequest({ format, entityType } = {}) {
+  if (!EXPORT_FORMATS.includes(format)) {
+    throw badRequest(`format must be one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+  if (!EXPORT_ENTITY_TYPES.includes(entityType)) {
+    throw badRequest(`entityType must be one of ${EXPORT_ENTITY_TYPES.join(', ')}`);
+  }
+  return { format, entityType };
+}
+
+function optionalAccount(value, label, maxLength) {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'string') throw badRequest(`${label} must be text`);
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) throw badRequest(`${label} must be ${maxLength} characters or fewer`);
+  return trimmed || null;
+}
+
+/**
+ * Income account mapping and account settings from the mapping screen.
+ * Body: { accounts: [{ serviceTypeId, quickbooksAccount?, xeroAccountCode? }],
+ * settings: { arAccount, depositAccount, taxAccount, xeroPaymentAccount } }.
+ * The row with a null serviceTypeId is the default and needs both accounts;
+ * a service type left blank for a system falls back to it.
+ */
+export function validateAccountMapping(body = {}) {
+  if (!Array.isArray(body.accounts)) throw badRequest('accounts must be a list');
+
+  const seen = new Set();
+  let defaultAccount = null;
+  const serviceTypes = [];
+
+  for (const row of body.accounts) {
+    const serviceTypeId = row?.serviceTypeId ?? null;
+    if (serviceTypeId !== null && (typeof serviceTypeId !== 'string' || !UUID_PATTERN.test(serviceTypeId))) {
+      throw badRequest('serviceTypeId must be a service type id');
+    }
+    const key = serviceTypeId ?? 'default';
+    if (seen.has(key)) throw badRequest('Each service type can only be mapped once');
+    seen.add(key);
+
+    const account = {
+      serviceTypeId,
+      quickbooksAccount: optionalAccount(row.quickbooksAccount, 'QuickBooks account', MAX_QUICKBOOKS_ACCOUNT_LENGTH),
+      xeroAccountCode: optionalAccount(row.xeroAccountCode, 'Xero account code', MAX_XERO_ACCOUNT_CODE_LENGTH)
+    };
+    if (serviceTypeId === null) {
+      defaultAccount = account;
+    } else {
+      serviceTypes.push(account);
+    }
+  }
+
+  if (!defaultAccount?.quickbooksAccount || !defaultAccount?.xeroAccountCode) {
+    throw badRequest('The default income account needs a QuickBooks account and a Xero account code');
+  }
+
+  const settings = {};
+  for (const name of Object.keys(ACCOUNT_SETTING_KEYS)) {
+    const value = optionalAccount(body.settings?.[name], name, MAX_SETTING_LENGTH);
+    if (!value) throw badRequest(`${name} is required`);
+    settings[name] = value;
+  }
+
+  return { defaultAccount, serviceTypes, settings };
+}
+
+/**
+ * The accounts a line for `serviceTypeId` posts to, each falling back to
+ * the default on its own. `mapping` is { default, byServiceType: Map }.
+ */
+export function resolveIncomeAccount(mapping, serviceTypeId) {
+  const mapped = serviceTypeId ? mapping.byServiceType.get(serviceTypeId) : null;
+  return {
+    quickbooksAccount: mapped?.quickbooksAccount || mapping.default.quickbooksAccount,
+    xeroAccountCode: mapped?.xeroAccountCode || mapping.default.xeroAccountCode
+  };
+}
+
+/**
+ * YYYY-MM-DD as MM/DD/YYYY, which both QuickBooks and US Xero organisations
+ * import
+ */
+export function toUsDate(date) {
+  if (!date) return '';
+  const [year, month, day] = date.slice(0, 10).split('-');
+  return `${month}/${day}/${year}`;
+}
+
+/**
+ * Split an invoice's tax across its taxable lines in proportion to their
+ * amounts, so the per-line tax Xero imports adds up to what was invoiced.
+ * Rounding is settled on the largest line. Returns one amount per line.
+ */
+export function allocateLineTax(lines, taxAmount) {
+  const tax = roundCents(Number(taxAmount) || 0);
+  const shares = lines.map(() => 0);
+  if (tax === 0) return shares;
+
+  let taxable = lines.map((line, index) => ({ index, amount: Number(line.amount) })).filter((_, index) => lines[index].taxable);
+  let base = taxable.reduce((sum, line) => sum + line.amount, 0);
+  if (base === 0) {
+    // Taxed although no line is marked taxable; spread it over every line
+    taxable = lines.map((line, index) => ({ index, amount: Number(line.amount) }));
+    base = taxable.reduce((sum, line) => sum + line.amount, 0);
+  }
+  if (taxable.length === 0 || base === 0) return shares;
+
+  for (const line of taxable) {
+    shares[line.index] = roundCents(tax * line.amount / base);
+  }
+
+  const largest = taxable.reduce((max, line) => (Math.abs(line.amount) > Math.abs(max.amount) ? line : max));
+  const allocated = shares.reduce((sum, share) => sum + share, 0);
+  shares[largest.index] = roundCents(shares[largest.index] + tax - allocated);
+  return shares;
+}
+
+/**
+ * Download filename for an export run on `date` (YYYY-MM-DD)
+ */
+export function exportFilename(format, entityType, date) {
+  const extension = format === 'quickbooks_iif' ? 'iif' : 'csv';
+  const prefix = format === 'xero_csv' ? 'xero' : format === 'quickbooks_iif' ? 'quickbooks' : 'quickbooks-online';
+  return `${prefix}-${entityType}-${date}.${extension}`;
+}
+
+// ----- QuickBooks Desktop IIF -----
+
+// IIF is tab separated with no quoting, so tabs and line breaks can't appear in a value
+function iifValue(value) {
+  if (value === null || value === undefined) return '';
+  return String(value).replace(/[\t\r\n]+/g, ' ').trim();
+}
+
+function iifRow(cells) {
+  return cells.map(iifValue).join('\t');
+}
+
+function cityLine(customer) {
+  const region = [customer.state, customer.zipCode].filter(Boolean).join(' ');
+  return [customer.city, region].filter(Boolean).join(', ');
+}
+
+function renderIifCustomers(customers) {
+  const rows = [iifRow(['!CUST', 'NAME', 'BADDR1', 'BADDR2', 'BADDR3', 'BADDR4', 'EMAIL', 'PHONE1'])];
+  for (const customer of customers) {
+    const address = [customer.name, customer.street1, customer.street2, cityLine(customer)].filter(Boolean);
+    rows.push(iifRow(['CUST', customer.name, address[0], address[1], address[2], address[3], customer.email, customer.phone]));
+  }
+  return rows;
+}
+
+function renderIifInvoices(invoices, settings) {
+  const rows = [
+    iifRow(['!TRNS', 'TRNSID', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO', 'DUEDATE']),
+    iifRow(['!SPL', 'SPLID', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO', 'QNTY', 'PRICE', 'TAXABLE']),
+    iifRow(['!ENDTRNS'])
+  ];
+
+  for (const invoice of invoices) {
+    const type = invoice.invoiceType === 'credit_note' ? 'CREDIT MEMO' : 'INVOICE';
+    const date = toUsDate(invoice.issueDate);
+    rows.push(iifRow([
+      'TRNS', '', type, date, settings.arAccount, invoice.customerName, money(invoice.totalAmount),
+      invoice.invoiceNumber, invoice.memo, toUsDate(invoice.dueDate)
+    ]));
+    // Splits carry the opposite sign of the receivable
+    for (const line of invoice.lines) {
+      rows.push(iifRow([
+        'SPL', '', type, date, line.quickbooksAccount, invoice.customerName, money(-line.amount),
+        invoice.invoiceNumber, line.description, String(-Number(line.quantity)), money(line.unitPrice),
+        line.taxable ? 'Y' : 'N'
+      ]));
+    }
+    if (Number(invoice.taxAmount) !== 0) {
+      rows.push(iifRow([
+        'SPL', '', type, date, settings.taxAccount, invoice.customerName, money(-invoice.taxAmount),
+        invoice.invoiceNumber, 'Sales tax', '', '', 'N'
+      ]));
+    }
+    rows.push(iifRow(['ENDTRNS']));
+  }
+  return rows;
+}
+
+function paymentMemo(payment) {
+  const label = payment.entryType === 'payment' ? 'Payment for'
+    : payment.entryType === 'refund' ? 'Refund for'
+    : 'Chargeback on';
+  return `${label} ${payment.invoiceNumber}`;
+}
+
+// Money received is positive, refunds and chargebacks negative
+function signedAmount(payment) {
+  return payment.entryType === 'payment' ? Number(payment.amount) : -Number(payment.amount);
+}
+
+function renderIifPayments(payments, settings) {
+  const rows = [
+    iifRow(['!TRNS', 'TRNSID', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO']),
+    iifRow(['!SPL', 'SPLID', 'TRNSTYPE', 'DATE', 'ACCNT', 'NAME', 'AMOUNT', 'DOCNUM', 'MEMO']),
+    iifRow(['!ENDTRNS'])
+  ];
+
+  for (const payment of payments) {
+    // Money paid back out is written as a cheque against receivables
+    const type = payment.entryType === 'payment' ? 'PAYMENT' : 'CHECK';
+    const date = toUsDate(payment.receivedOn);
+    const amount = signedAmount(payment);
+    const memo = paymentMemo(payment);
+    rows.push(iifRow([
+      'TRNS', '', type, date, settings.depositAccount, payment.customerName, money(amount), payment.reference, memo
+    ]));
+    rows.push(iifRow([
+      'SPL', '', type, date, settings.arAccount, payment.customerName, money(-amount), payment.reference, memo
+    ]));
+    rows.push(iifRow(['ENDTRNS']));
+  }
+  return rows;
+}
+
+function renderIif(entityType, records, settings) {
+  const rows = entityType === 'customers' ? renderIifCustomers(records)
+    : entityType === 'invoices' ? renderIifInvoices(records, settings)
+    : renderIifPayments(records, settings);
+  return rows.join('\r\n') + '\r\n';
+}
+
+// ----- QuickBooks Online CSV -----
+
+function taxRatePercent(taxRate) {
+  return `${Number((Number(taxRate) * 100).toFixed(4))}%`;
+}
+
+function renderQuickbooksCsv(entityType, records, settings) {
+  if (entityType === 'customers') {
+    return renderReportCsv({
+      columns: [
+        { key: 'name', label: 'Name' },
+        { key: 'name', label: 'Company' },
+        { key: 'email', label: 'Email' },
+        { key: 'phone', label: 'Phone' },
+        { key: 'street', label: 'Street' },
+        { key: 'city', label: 'City' },
+        { key: 'state', label: 'State' },
+        { key: 'zipCode', label: 'ZIP' },
+        { key: 'country', label: 'Country' }
+      ],
+      rows: records.map(customer => ({
+        ...customer,
+        street: [customer.street1, customer.street2].filter(Boolean).join(', ')
+      }))
+    });
+  }
+
+  if (entityType === 'invoices') {
+    return renderReportCsv({
+      columns: [
+        { key: 'invoiceNumber', label: 'InvoiceNo' },
+        { key: 'customerName', label: 'Customer' },
+        { key: 'issueDate', label: 'InvoiceDate' },
+        { key: 'dueDate', label: 'DueDate' },
+        { key: 'memo', label: 'Memo' },
+        { key: 'quickbooksAccount', label: 'Item(Product/Service)' },
+        { key: 'description', label: 'ItemDescription' },
+        { key: 'quantity', label: 'ItemQuantity' },
+        { key: 'unitPrice', label: 'ItemRate', type: 'currency' },
+        { key: 'amount', label: 'ItemAmount', type: 'currency' },
+        { key: 'taxable', label: 'Taxable' },
+        { key: 'taxRate', label: 'TaxRate' }
+      ],
+      rows: records.flatMap(invoice => invoice.lines.map(line => ({
+        ...line,
+        invoiceNumber: invoice.invoiceNumber,
+        customerName: invoice.customerName,
+        issueDate: toUsDate(invoice.issueDate),
+        dueDate: toUsDate(invoice.dueDate),
+        memo: invoice.memo,
+        quantity: String(Number(line.quantity)),
+        taxable: line.taxable ? 'Y' : 'N',
+        taxRate: taxRatePercent(invoice.taxRate)
+      })))
+    });
+  }
+
+  return renderReportCsv({
+    columns: [
+      { key: 'receivedOn', label: 'Date' },
+      { key: 'customerName', label: 'Customer' },
+      { key: 'invoiceNumber', label: 'InvoiceNo' },
+      { key: 'amount', label: 'Amount', type: 'currency' },
+      { key: 'method', label: 'PaymentMethod' },
+      { key: 'reference', label: 'ReferenceNo' },
+      { key: 'depositTo', label: 'DepositTo' },
+      { key: 'memo', label: 'Memo' }
+    ],
+    rows: records.map(payment => ({
+      ...payment,
+      receivedOn: toUsDate(payment.receivedOn),
+      amount: signedAmount(payment),
+      depositTo: settings.depositAccount,
+      memo: paymentMemo(payment)
+    }))
+  });
+}
+
+// ----- Xero CSV -----
+
+function renderXeroCsv(entityType, records, settings) {
+  if (entityType === 'customers') {
+    return renderReportCsv({
+      columns: [
+        { key: 'name', label: 'ContactName' },
+        { key: 'email', label: 'EmailAddress' },
+        { key: 'street1', label: 'POAddressLine1' },
+        { key: 'street2', label: 'POAddressLine2' },
+        { key: 'city', label: 'POCity' },
+        { key: 'state', label: 'PORegion' },
+        { key: 'zipCode', label: 'POPostalCode' },
+        { key: 'country', label: 'POCountry' },
+        { key: 'phone', label: 'PhoneNumber' }
+      ],
+      rows: records
+    });
+  }
+
+  // Xero imports an invoice whose total is negative as a credit note
+  if (entityType === 'invoices') {
+    return renderReportCsv({
+      columns: [
+        { key: 'customerName', label: 'ContactName' },
+        { key: 'invoiceNumber', label: 'InvoiceNumber' },
+        { key: 'reference', label: 'Reference' },
+        { key: 'issueDate', label: 'InvoiceDate' },
+        { key: 'dueDate', label: 'DueDate' },
+        { key: 'description', label: 'Description' },
+        { key: 'quantity', label: 'Quantity' },
+        { key: 'unitPrice', label: 'UnitAmount', type: 'currency' },
+        { key: 'xeroAccountCode', label: 'AccountCode' },
+        { key: 'taxType', label: 'TaxType' },
+        { key: 'lineTax', label: 'TaxAmount', type: 'currency' }
+      ],
+      rows: records.flatMap(invoice => {
+        const lineTax = allocateLineTax(invoice.lines, invoice.taxAmount);
+        return invoice.lines.map((line, index) => ({
+          ...line,
+          customerName: invoice.customerName,
+          invoiceNumber: invoice.invoiceNumber,
+          reference: invoice.reference,
+          issueDate: toUsDate(invoice.issueDate),
+          dueDate: toUsDate(invoice.dueDate),
+          quantity: String(Number(line.quantity)),
+          taxType: lineTax[index] !== 0 || line.taxable ? XERO_TAX_TYPES.taxable : XERO_TAX_TYPES.exempt,
+          lineTax: lineTax[index]
+        }));
+      })
+    });
+  }
+
+  return renderReportCsv({
+    columns: [
+      { key: 'invoiceNumber', label: 'InvoiceNumber' },
+      { key: 'receivedOn', label: 'Date' },
+      { key: 'amount', label: 'Amount', type: 'currency' },
+      { key: 'account', label: 'AccountCode' },
+      { key: 'reference', label: 'Reference' }
+    ],
+    rows: records.map(payment => ({
+      ...payment,
+      receivedOn: toUsDate(payment.receivedOn),
+      amount: signedAmount(payment),
+      account: settings.xeroPaymentAccount,
+      reference: payment.reference || paymentMemo(payment)
+    }))
+  });
+}
+
+/**
+ * Render customers, invoices (with their lines resolved to accounts) or
+ * payments in `format`. `settings` holds the account settings.
+ */
+export function renderExport(format, entityType, records, settings) {
+  if (format === 'quickbooks_iif') return renderIif(entityType, records, settings);
+  if (format === 'quickbooks_csv') return renderQuickbooksCsv(entityType, records, settings);
+  return renderXeroCsv(entityType, records, settings);
+}
+
+// ----- Database -----
+
+// Ids of what has not gone out to the system in $1 yet
+const PENDING_IDS = {
+  customers: `
+    SELECT b.id
+      FROM businesses b
+      LEFT JOIN service_locations hq ON hq.business_id = b.id AND hq.is_headquarters = true
+      LEFT JOIN accounting_export_items x
+        ON x.system = $1 AND x.entity_type = 'customers' AND x.entity_id = b.id
+     WHERE EXISTS (SELECT 1 FROM invoices i WHERE i.business_id = b.id AND i.invoice_status = 'issued')
+       AND (x.id IS NULL OR x.exported_at < GREATEST(b.updated_at, hq.updated_at))
+  `,
+  invoices: `
+    SELECT i.id
+      FROM invoices i
+     WHERE i.invoice_status = 'issued'
+       AND NOT EXISTS (
+         SELECT 1 FROM accounting_export_items x
+          WHERE x.system = $1 AND x.entity_type = 'invoices' AND x.entity_id = i.id
+       )
+  `,
+  payments: `
+    SELECT p.id
+      FROM invoice_payments p
+     WHERE p.entry_type IN (${CASH_ENTRY_TYPES.map(type => `'${type}'`).join(', ')})
+       AND p.method <> 'credit'
+       AND NOT EXISTS (
+         SELECT 1 FROM accounting_export_items x
+          WHERE x.system = $1 AND x.entity_type = 'payments' AND x.entity_id = p.id
+       )
+  `
+};
+
+/**
+ * The account settings from company_settings, keyed as ACCOUNT_SETTING_KEYS
+ */
+async function getAccountSettings(db) {
+  const result = await db.query(
+    `SELECT setting_key, setting_value FROM company_settings WHERE setting_key = ANY($1::text[])`,
+    [Object.values(ACCOUNT_SETTING_KEYS)]
+  );
+  const values = Object.fromEntries(result.rows.map(row => [row.setting_key, row.setting_value]));
+  return Object.fromEntries(
+    Object.entries(ACCOUNT_SETTING_KEYS).map(([name, key]) => [name, values[key] ?? ''])
+  );
+}
+
+/**
+ * The mapping screen: the default income account, every active service type
+ * (and any inactive one that is still mapped) with its accounts, and the
+ * account settings.
+ */
+export async function getAccountMapping(db) {
+  const [defaults, serviceTypes, settings] = await Promise.all([
+    db.query(`
+      SELECT quickbooks_account, xero_account_code
+        FROM accounting_income_accounts
+       WHERE service_type_id IS NULL
+    `),
+    db.query(`
+      SELECT st.id, st.name, st.is_active, a.quickbooks_account, a.xero_account_code
+        FROM service_types st
+        LEFT JOIN accounting_income_accounts a ON a.service_type_id = st.id
+       WHERE st.is_active = true OR a.id IS NOT NULL
+       ORDER BY st.name
+    `),
+    getAccountSettings(db)
+  ]);
+
+  const defaultRow = defaults.rows[0];
+  return {
+    accounts: [
+      {
+        serviceTypeId: null,
+        serviceTypeName: null,
+        isActive: true,
+        quickbooksAccount: defaultRow?.quickbooks_account ?? null,
+        xeroAccountCode: defaultRow?.xero_account_code ?? null
+      },
+      ...serviceTypes.rows.map(row => ({
+        serviceTypeId: row.id,
+        serviceTypeName: row.name,
+        isActive: row.is_active,
+        quickbooksAccount: row.quickbooks_account,
+        xeroAccountCode: row.xero_account_code
+      }))
+    ],
+    settings
+  };
+}
+
+/**
+ * Save the mapping from validateAccountMapping. A service type with neither
+ * account is unmapped and falls back to the default.
+ */
+export async function saveAccountMapping(db, mapping, { employeeId = null } = {}) {
+  const { defaultAccount, serviceTypes, settings } = mapping;
+
+  const updated = await db.query(`
+    UPDATE accounting_income_accounts
+       SET quickbooks_account = $1, xero_account_code = $2, updated_by_employee_id = $3, updated_at = NOW()
+     WHERE service_type_id IS NULL
+  `, [defaultAccount.quickbooksAccount, defaultAccount.xeroAccountCode, employeeId]);
+  if (updated.rowCount === 0) {
+    await db.query(`
+      INSERT INTO accounting_income_accounts (service_type_id, quickbooks_account, xero_account_code, updated_by_employee_id)
+      VALUES (NULL, $1, $2, $3)
+    `, [defaultAccount.quickbooksAccount, defaultAccount.xeroAccountCode, employeeId]);
+  }
+
+  for (const account of serviceTypes) {
+    if (!account.quickbooksAccount && !account.xeroAccountCode) {
+      await db.query(`DELETE FROM accounting_income_accounts WHERE service_type_id = $1`, [account.serviceTypeId]);
+      continue;
+    }
+    await db.query(`
+      INSERT INTO accounting_income_accounts (service_type_id, quickbooks_account, xero_account_code, updated_by_employee_id)
+      VALUES ($1, $2, $3, $4)
+      ON CONFLICT (service_type_id) WHERE service_type_id IS NOT NULL
+      DO UPDATE SET quickbooks_account = EXCLUDED.quickbooks_account,
+                    xero_account_code = EXCLUDED.xero_account_code,
+                    updated_by_employee_id = EXCLUDED.updated_by_employee_id,
+                    updated_at = NOW()
+    `, [account.serviceTypeId, account.quickbooksAccount, account.xeroAccountCode, employeeId]);
+  }
+
+  for (const [name, key] of Object.entries(ACCOUNT_SETTING_KEYS)) {
+    await db.query(`
+      INSERT INTO company_settings (setting_key, setting_value) VALUES ($1, $2)
+      ON CONFLICT (setting_key) DO UPDATE SET setting_value = EXCLUDED.setting_value, updated_at = NOW()
+    `, [key, settings[name]]);
+  }
+}
+
+/**
+ * How many customers, invoices and payments each system has still to get
+ */
+export async function countPending(db) {
+  const pairs = ACCOUNTING_SYSTEMS.flatMap(system => EXPORT_ENTITY_TYPES.map(entityType => [system, entityType]));
+  const counts = await Promise.all(pairs.map(([system, entityType]) =>
+    db.query(`SELECT COUNT(*)::int AS count FROM (${PENDING_IDS[entityType]}) pending`, [system])
+  ));
+
+  const pending = Object.fromEntries(ACCOUNTING_SYSTEMS.map(system => [system, {}]));
+  pairs.forEach(([system, entityType], index) => {
+    pending[system][entityType] = counts[index].rows[0].count;
+  });
+  return pending;
+}
+
+async function loadCustomers(db, system) {
+  const result = await db.query(`
+    SELECT b.id, b.business_name, hq.street_address_1, hq.street_address_2, hq.city, hq.state,
+           hq.zip_code, hq.country, pc.email, pc.phone
+      FROM businesses b
+      LEFT JOIN service_locations hq ON hq.business_id = b.id AND hq.is_headquarters = true
+      LEFT JOIN LATERAL (
+        SELECT u.email, u.phone
+          FROM users u
+         WHERE u.business_id = b.id AND u.soft_delete = false AND u.email IS NOT NULL
+         ORDER BY u.is_primary_contact DESC NULLS LAST, u.created_at
+         LIMIT 1
+      ) pc ON true
+     WHERE b.id IN (${PENDING_IDS.customers})
+     ORDER BY b.business_name
+  `, [system]);
+
+  return result.rows.map(row => ({
+    id: row.id,
+    name: row.business_name,
+    email: row.email,
+    phone: row.phone,
+    street1: row.street_address_1,
+    street2: row.street_address_2,
+    city: row.city,
+    state: row.state,
+    zipCode: row.zip_code,
+    country: row.country
+  }));
+}
+
+async function loadIncomeMapping(db) {
+  const result = await db.query(`SELECT service_type_id, quickbooks_account, xero_account_code FROM accounting_income_accounts`);
+  const mapping = { default: { quickbooksAccount: null, xeroAccountCode: null }, byServiceType: new Map() };
+  for (const row of result.rows) {
+    const account = { quickbooksAccount: row.quickbooks_account, xeroAccountCode: row.xero_account_code };
+    if (row.service_type_id === null) {
+      mapping.default = account;
+    } else {
+      mapping.byServiceType.set(row.service_type_id, account);
+    }
+  }
+  return mapping;
+}
+
+async function loadInvoices(db, system) {
+  const invoices = await db.query(`
+    SELECT i.id, i.invoice_number, i.invoice_type, i.issue_date::date::text AS issue_date,
+           i.due_date::date::text AS due_date, i.tax_rate, i.tax_amount, i.total_amount,
+           i.work_description, b.business_name, cf.invoice_number AS credit_for_invoice_number
+      FROM invoices i
+      JOIN businesses b ON b.id = i.business_id
+      LEFT JOIN invoices cf ON cf.id = i.credit_for_invoice_id
+     WHERE i.id IN (${PENDING_IDS.invoices})
+     ORDER BY i.issue_date, i.invoice_number
+  `, [system]);
+  if (invoices.rows.length === 0) return [];
+
+  const [lines, mapping] = await Promise.all([
+    db.query(`
+      SELECT li.invoice_id, li.description, li.quantity, li.unit_price, li.amount, li.taxable, sr.service_type_id
+        FROM invoice_line_items li
+        JOIN invoices i ON i.id = li.invoice_id
+        LEFT JOIN invoices credited ON credited.id = i.credit_for_invoice_id
+        LEFT JOIN service_requests sr
+          ON sr.id = COALESCE(li.service_request_id, i.service_request_id, credited.service_request_id)
+       WHERE li.invoice_id = ANY($1::uuid[])
+       ORDER BY li.sort_order
+    `, [invoices.rows.map(row => row.id)]),
+    loadIncomeMapping(db)
+  ]);
+
+  const linesByInvoice = new Map();
+  for (const row of lines.rows) {
+    if (!linesByInvoice.has(row.invoice_id)) linesByInvoice.set(row.invoice_id, []);
+    linesByInvoice.get(row.invoice_id).push({
+      description: row.description,
+      quantity: Number(row.quantity),
+      unitPrice: Number(row.unit_price),
+      amount: Number(row.amount),
+      taxable: row.taxable,
+      ...resolveIncomeAccount(mapping, row.service_type_id)
+    });
+  }
+
+  return invoices.rows.map(row => ({
+    id: row.id,
+    invoiceNumber: row.invoice_number,
+    invoiceType: row.invoice_type,
+    customerName: row.business_name,
+    issueDate: row.issue_date,
+    dueDate: row.due_date,
+    taxRate: Number(row.tax_rate) || 0,
+    taxAmount: Number(row.tax_amount) || 0,
+    totalAmount: Number(row.total_amount),
+    memo: row.work_description,
+    reference: row.credit_for_invoice_number ? `Credit for ${row.credit_for_invoice_number}` : '',
+    lines: linesByInvoice.get(row.id) ?? []
+  }));
+}
+
+async function loadPayments(db, system) {
+  const result = await db.query(`
+    SELECT p.id, p.entry_type, p.method, p.amount, p.received_on::text AS received_on, p.reference,
+           i.invoice_number, b.business_name
+      FROM invoice_payments p
+      JOIN invoices i ON i.id = p.invoice_id
+      JOIN businesses b ON b.id = p.business_id
+     WHERE p.id IN (${PENDING_IDS.payments})
+     ORDER BY p.received_on, p.created_at
+  `, [system]);
+
+  return result.rows.map(row => ({
+    id: row.id,
+    entryType: row.entry_type,
+    method: row.method,
+    amount: Number(row.amount),
+    receivedOn: row.received_on,
+    reference: row.reference,
+    invoiceNumber: row.invoice_number,
+    customerName: row.business_name
+  }));
+}
+
+const LOADERS = { customers: loadCustomers, invoices: loadInvoices, payments: loadPayments };
+
+function toExportSummary(row) {
+  return {
+    id: row.id,
+    format: row.format,
+    entityType: row.entity_type,
+    itemCount: row.item_count,
+    filename: row.filename,
+    exportedBy: row.exported_by,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Export everything of `entityType` that has not gone out to the format's
+ * system yet, store the file and mark what it covered as exported. Run in a
+ * transaction; exports to the same system wait for each other.
+ */
+export async function runExport(db, { format, entityType }, { employeeId = null, today }) {
+  const system = exportSystem(format);
+  await db.query(`LOCK TABLE accounting_export_items IN SHARE ROW EXCLUSIVE MODE`);
+
+  const records = await LOADERS[entityType](db, system);
+  if (records.length === 0) {
+    throw badRequest(`No new ${entityType} to export to ${system === 'xero' ? 'Xero' : 'QuickBooks'}`);
+  }
+
+  const settings = await getAccountSettings(db);
+  const content = renderExport(format, entityType, records, settings);
+  const filename = exportFilename(format, entityType, today);
+
+  const inserted = await db.query(`
+    INSERT INTO accounting_exports (format, entity_type, item_count, filename, content, exported_by_employee_id)
+    VALUES ($1, $2, $3, $4, $5, $6)
+    RETURNING id, format, entity_type, item_count, filename, created_at
+  `, [format, entityType, records.length, filename, content, employeeId]);
+  const run = inserted.rows[0];
+
+  await db.query(`
+    INSERT INTO accounting_export_items (export_id, system, entity_type, entity_id)
+    SELECT $1, $2, $3, unnest($4::uuid[])
+    ON CONFLICT (system, entity_type, entity_id)
+    DO UPDATE SET export_id = EXCLUDED.export_id, exported_at = NOW()
+  `, [run.id, system, entityType, records.map(record => record.id)]);
+
+  return toExportSummary(run);
+}
+
+/**
+ * Past export runs, newest first, without their files
+ */
+export async function listExports(db, { limit = 50 } = {}) {
+  const result = await db.query(`
+    SELECT x.id, x.format, x.entity_type, x.item_count, x.filename, x.created_at,
+           NULLIF(TRIM(CONCAT(e.first_name, ' ', e.last_name)), '') AS exported_by
+      FROM accounting_exports x
+      LEFT JOIN employees e ON e.id = x.exported_by_employee_id
+     ORDER BY x.created_at DESC
+     LIMIT $1
+  `, [limit]);
+  return result.rows.map(toExportSummary);
+}
+
+/**
+ * The file an export run produced, or null if there is no such run
+ */
+export async function getExportFile(db, exportId) {
+  const result = await db.query(
+    `SELECT format, filename, content FROM accounting_exports WHERE id = $1`,
+    [exportId]
+  );
+  return result.rows[0] ?? null;
+}
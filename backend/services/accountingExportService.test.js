@@ -0,0 +1,230 @@
+// Tests for accountingExportService — input validation, account fallback,
+// tax allocation and the IIF / QuickBooks Online / Xero file layouts. The
+// pending-item queries need Postgres.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  exportSystem,
+  validateExportRequest,
+  validateAccountMapping,
+  resolveIncomeAccount,
+  toUsDate,
+  allocateLineTax,
+  exportFilename,
+  renderExport
+} from './accountingExportService.js';
+
+const SERVICE_TYPE = '6f1c2d3e-4a5b-4c6d-8e7f-901234567890';
+
+const settings = {
+  arAccount: 'Accounts Receivable',
+  depositAccount: 'Undeposited Funds',
+  taxAccount: 'Sales Tax Payable',
+  xeroPaymentAccount: '090'
+};
+
+const customer = {
+  id: 'b-1',
+  name: 'Acme, Inc.',
+  email: 'billing@acme.test',
+  phone: '555-0100',
+  street1: '1 Main St',
+  street2: null,
+  city: 'Escondido',
+  state: 'CA',
+  zipCode: '92026',
+  country: 'USA'
+};
+
+const invoice = {
+  id: 'i-1',
+  invoiceNumber: 'INV-20261001-0001',
+  invoiceType: 'manual',
+  customerName: 'Acme, Inc.',
+  issueDate: '2026-10-01',
+  dueDate: '2026-10-31',
+  taxRate: 0.0775,
+  taxAmount: 7.75,
+  totalAmount: 157.75,
+  memo: 'October work',
+  reference: '',
+  lines: [
+    { description: 'Standard hours', quantity: 1.5, unitPrice: 50, amount: 75, taxable: true, quickbooksAccount: 'Services', xeroAccountCode: '200' },
+    { description: 'Router', quantity: 1, unitPrice: 25, amount: 25, taxable: true, quickbooksAccount: 'Hardware', xeroAccountCode: '210' },
+    { description: 'Travel', quantity: 1, unitPrice: 50, amount: 50, taxable: false, quickbooksAccount: 'Services', xeroAccountCode: '200' }
+  ]
+};
+
+const creditNote = {
+  ...invoice,
+  id: 'i-2',
+  invoiceNumber: 'CN-20261005-0001',
+  invoiceType: 'credit_note',
+  issueDate: '2026-10-05',
+  dueDate: '2026-10-05',
+  taxAmount: 0,
+  totalAmount: -20,
+  reference: 'Credit for INV-20261001-0001',
+  lines: [
+    { description: 'Credit: goodwill', quantity: 1, unitPrice: -20, amount: -20, taxable: false, quickbooksAccount: 'Services', xeroAccountCode: '200' }
+  ]
+};
+
+const payments = [
+  { id: 'p-1', entryType: 'payment', method: 'check', amount: 100, receivedOn: '2026-10-10', reference: '1042', invoiceNumber: 'INV-20261001-0001', customerName: 'Acme, Inc.' },
+  { id: 'p-2', entryType: 'refund', method: 'card', amount: 15, receivedOn: '2026-10-12', reference: null, invoiceNumber: 'INV-20261001-0001', customerName: 'Acme, Inc.' }
+];
+
+function lines(text) {
+  return text.trimEnd().split('\r\n');
+}
+
+// ----- validation -----
+
+test('exportSystem: IIF and QuickBooks Online CSV share one system', () => {
+  assert.equal(exportSystem('quickbooks_iif'), 'quickbooks');
+  assert.equal(exportSystem('quickbooks_csv'), 'quickbooks');
+  assert.equal(exportSystem('xero_csv'), 'xero');
+});
+
+test('validateExportRequest: needs a known format and entity type', () => {
+  assert.deepEqual(validateExportRequest({ format: 'xero_csv', entityType: 'payments' }), { format: 'xero_csv', entityType: 'payments' });
+  assert.throws(() => validateExportRequest({ format: 'sage', entityType: 'payments' }), /format must be one of/);
+  assert.throws(() => validateExportRequest({ format: 'xero_csv', entityType: 'items' }), /entityType must be one of/);
+  assert.throws(() => validateExportRequest(), /format/);
+});
+
+test('validateAccountMapping: splits the default from service types and trims blanks to null', () => {
+  const mapping = validateAccountMapping({
+    accounts: [
+      { serviceTypeId: null, quickbooksAccount: ' Services ', xeroAccountCode: '200' },
+      { serviceTypeId: SERVICE_TYPE, quickbooksAccount: 'Hardware', xeroAccountCode: '' }
+    ],
+    settings: { ...settings }
+  });
+  assert.deepEqual(mapping.defaultAccount, { serviceTypeId: null, quickbooksAccount: 'Services', xeroAccountCode: '200' });
+  assert.deepEqual(mapping.serviceTypes, [{ serviceTypeId: SERVICE_TYPE, quickbooksAccount: 'Hardware', xeroAccountCode: null }]);
+  assert.deepEqual(mapping.settings, settings);
+});
+
+test('validateAccountMapping: rejects a missing default, duplicates, bad ids and missing settings', () => {
+  const base = { serviceTypeId: null, quickbooksAccount: 'Services', xeroAccountCode: '200' };
+  assert.throws(() => validateAccountMapping({ accounts: [], settings }), /default income account/);
+  assert.throws(() => validateAccountMapping({ accounts: [{ ...base, xeroAccountCode: ' ' }], settings }), /default income account/);
+  assert.throws(() => validateAccountMapping({ accounts: [base, base], settings }), /only be mapped once/);
+  assert.throws(() => validateAccountMapping({ accounts: [base, { serviceTypeId: 'network' }], settings }), /service type id/);
+  assert.throws(() => validateAccountMapping({ accounts: [{ ...base, xeroAccountCode: 'x'.repeat(21) }], settings }), /20 characters/);
+  assert.throws(() => validateAccountMapping({ accounts: [base], settings: { ...settings, taxAccount: '' } }), /taxAccount is required/);
+  assert.throws(() => validateAccountMapping({ settings }), /accounts must be a list/);
+});
+
+test('resolveIncomeAccount: each system falls back to the default on its own', () => {
+  const mapping = {
+    default: { quickbooksAccount: 'Services', xeroAccountCode: '200' },
+    byServiceType: new Map([[SERVICE_TYPE, { quickbooksAccount: 'Hardware', xeroAccountCode: null }]])
+  };
+  assert.deepEqual(resolveIncomeAccount(mapping, SERVICE_TYPE), { quickbooksAccount: 'Hardware', xeroAccountCode: '200' });
+  assert.deepEqual(resolveIncomeAccount(mapping, null), { quickbooksAccount: 'Services', xeroAccountCode: '200' });
+  assert.deepEqual(resolveIncomeAccount(mapping, 'unmapped'), { quickbooksAccount: 'Services', xeroAccountCode: '200' });
+});
+
+// ----- helpers -----
+
+test('toUsDate and exportFilename', () => {
+  assert.equal(toUsDate('2026-10-01'), '10/01/2026');
+  assert.equal(toUsDate(null), '');
+  assert.equal(exportFilename('quickbooks_iif', 'invoices', '2026-10-18'), 'quickbooks-invoices-2026-10-18.iif');
+  assert.equal(exportFilename('quickbooks_csv', 'customers', '2026-10-18'), 'quickbooks-online-customers-2026-10-18.csv');
+  assert.equal(exportFilename('xero_csv', 'payments', '2026-10-18'), 'xero-payments-2026-10-18.csv');
+});
+
+test('allocateLineTax: taxable lines share the tax, rounding settled on the largest', () => {
+  assert.deepEqual(allocateLineTax(invoice.lines, 7.75), [5.81, 1.94, 0]);
+  const thirds = [{ amount: 10, taxable: true }, { amount: 10, taxable: true }, { amount: 10, taxable: true }];
+  const shares = allocateLineTax(thirds, 1);
+  assert.equal(Math.round(shares.reduce((sum, share) => sum + share, 0) * 100), 100);
+  assert.deepEqual(allocateLineTax(invoice.lines, 0), [0, 0, 0]);
+});
+
+test('allocateLineTax: a credit note taxed with no taxable line spreads it over every line', () => {
+  assert.deepEqual(allocateLineTax([{ amount: -20, taxable: false }], -1.55), [-1.55]);
+});
+
+// ----- QuickBooks IIF -----
+
+test('renderExport IIF: customers with a compacted billing address', () => {
+  const rows = lines(renderExport('quickbooks_iif', 'customers', [customer], settings));
+  assert.equal(rows[0], '!CUST\tNAME\tBADDR1\tBADDR2\tBADDR3\tBADDR4\tEMAIL\tPHONE1');
+  assert.equal(rows[1], 'CUST\tAcme, Inc.\tAcme, Inc.\t1 Main St\tEscondido, CA 92026\t\tbilling@acme.test\t555-0100');
+});
+
+test('renderExport IIF: an invoice balances receivables against income and tax', () => {
+  const rows = lines(renderExport('quickbooks_iif', 'invoices', [invoice, creditNote], settings));
+  assert.equal(rows[3], 'TRNS\t\tINVOICE\t10/01/2026\tAccounts Receivable\tAcme, Inc.\t157.75\tINV-20261001-0001\tOctober work\t10/31/2026');
+  assert.equal(rows[4], 'SPL\t\tINVOICE\t10/01/2026\tServices\tAcme, Inc.\t-75.00\tINV-20261001-0001\tStandard hours\t-1.5\t50.00\tY');
+  assert.equal(rows[7], 'SPL\t\tINVOICE\t10/01/2026\tSales Tax Payable\tAcme, Inc.\t-7.75\tINV-20261001-0001\tSales tax\t\t\tN');
+  assert.equal(rows[8], 'ENDTRNS');
+
+  const amounts = rows.slice(3, 8).map(row => Number(row.split('\t')[6]));
+  assert.equal(Math.round(amounts.reduce((sum, amount) => sum + amount, 0) * 100), 0);
+
+  assert.match(rows[9], /^TRNS\t\tCREDIT MEMO\t10\/05\/2026\tAccounts Receivable\tAcme, Inc\.\t-20\.00\t/);
+  assert.equal(rows[10].split('\t')[6], '20.00');
+  assert.equal(rows[11], 'ENDTRNS');
+});
+
+test('renderExport IIF: payments deposit and refunds are written as cheques', () => {
+  const rows = lines(renderExport('quickbooks_iif', 'payments', payments, settings));
+  assert.equal(rows[3], 'TRNS\t\tPAYMENT\t10/10/2026\tUndeposited Funds\tAcme, Inc.\t100.00\t1042\tPayment for INV-20261001-0001');
+  assert.equal(rows[4], 'SPL\t\tPAYMENT\t10/10/2026\tAccounts Receivable\tAcme, Inc.\t-100.00\t1042\tPayment for INV-20261001-0001');
+  assert.equal(rows[6], 'TRNS\t\tCHECK\t10/12/2026\tUndeposited Funds\tAcme, Inc.\t-15.00\t\tRefund for INV-20261001-0001');
+  assert.equal(rows[7].split('\t')[6], '15.00');
+});
+
+test('renderExport IIF: tabs and line breaks in values become spaces', () => {
+  const rows = lines(renderExport('quickbooks_iif', 'customers', [{ ...customer, name: 'Acme\tWest\nOffice' }], settings));
+  assert.equal(rows[1].split('\t')[1], 'Acme West Office');
+});
+
+// ----- QuickBooks Online CSV -----
+
+test('renderExport QuickBooks CSV: one row per invoice line, quoted where needed', () => {
+  const rows = lines(renderExport('quickbooks_csv', 'invoices', [invoice], settings));
+  assert.equal(rows[0], 'InvoiceNo,Customer,InvoiceDate,DueDate,Memo,Item(Product/Service),ItemDescription,ItemQuantity,ItemRate,ItemAmount,Taxable,TaxRate');
+  assert.equal(rows.length, 4);
+  assert.equal(rows[1], 'INV-20261001-0001,"Acme, Inc.",10/01/2026,10/31/2026,October work,Services,Standard hours,1.5,50.00,75.00,Y,7.75%');
+  assert.equal(rows[3].split(',').at(-2), 'N');
+});
+
+test('renderExport QuickBooks CSV: customers and signed payments', () => {
+  const customers = lines(renderExport('quickbooks_csv', 'customers', [customer], settings));
+  assert.equal(customers[1], '"Acme, Inc.","Acme, Inc.",billing@acme.test,555-0100,1 Main St,Escondido,CA,92026,USA');
+
+  const rows = lines(renderExport('quickbooks_csv', 'payments', payments, settings));
+  assert.equal(rows[0], 'Date,Customer,InvoiceNo,Amount,PaymentMethod,ReferenceNo,DepositTo,Memo');
+  assert.equal(rows[1], '10/10/2026,"Acme, Inc.",INV-20261001-0001,100.00,check,1042,Undeposited Funds,Payment for INV-20261001-0001');
+  assert.equal(rows[2].split(',')[4], '-15.00');
+});
+
+// ----- Xero CSV -----
+
+test('renderExport Xero CSV: lines carry account codes and their share of the tax', () => {
+  const rows = lines(renderExport('xero_csv', 'invoices', [invoice, creditNote], settings));
+  assert.equal(rows[0], 'ContactName,InvoiceNumber,Reference,InvoiceDate,DueDate,Description,Quantity,UnitAmount,AccountCode,TaxType,TaxAmount');
+  assert.equal(rows[1], '"Acme, Inc.",INV-20261001-0001,,10/01/2026,10/31/2026,Standard hours,1.5,50.00,200,Tax on Sales,5.81');
+  assert.equal(rows[2], '"Acme, Inc.",INV-20261001-0001,,10/01/2026,10/31/2026,Router,1,25.00,210,Tax on Sales,1.94');
+  assert.equal(rows[3], '"Acme, Inc.",INV-20261001-0001,,10/01/2026,10/31/2026,Travel,1,50.00,200,Tax Exempt,0.00');
+  assert.equal(rows[4], '"Acme, Inc.",CN-20261005-0001,Credit for INV-20261001-0001,10/05/2026,10/05/2026,Credit: goodwill,1,-20.00,200,Tax Exempt,0.00');
+});
+
+test('renderExport Xero CSV: contacts and payments into the payment account', () => {
+  const contacts = lines(renderExport('xero_csv', 'customers', [customer], settings));
+  assert.equal(contacts[0], 'ContactName,EmailAddress,POAddressLine1,POAddressLine2,POCity,PORegion,POPostalCode,POCountry,PhoneNumber');
+  assert.equal(contacts[1], '"Acme, Inc.",billing@acme.test,1 Main St,,Escondido,CA,92026,USA,555-0100');
+
+  const rows = lines(renderExport('xero_csv', 'payments', payments, settings));
+  assert.equal(rows[0], 'InvoiceNumber,Date,Amount,AccountCode,Reference');
+  assert.equal(rows[1], 'INV-20261001-0001,10/10/2026,100.00,090,1042');
+  assert.equal(rows[2], 'INV-20261001-0001,10/12/2026,-15.00,090,Refund for INV-20261001-0001');
+});
@@ -0,0 +1,527 @@
+/**
+ * Saved payment methods and autopay.
+ *
+ * A business's cards and US bank accounts are saved to its Stripe customer
+ * (businesses.stripe_customer_id) through a SetupIntent; Stripe holds the
+ * details and this service only lists and references them. With autopay on,
+ * the scheduler charges every unpaid invoice issued since autopay was turned
+ * on once it reaches its due date, off-session with the chosen method, for
+ * whatever balance is left on it.
+ *
+ * An invoice is attempted once per payment method: the attempt is claimed by
+ * writing invoices.autopay_payment_method_id before charging, so a failed
+ * charge is not retried every hour but is retried when the client picks a
+ * different method. Cards settle immediately; bank debits leave the invoice
+ * 'pending' until the Stripe webhook reports the outcome. Failures set the
+ * invoice to 'failed' (a partly paid one stays 'partial'), are recorded in
+ * invoice_history and emailed to the client.
+ */
+import { query, transaction } from '../config/database.js';
+import { emailService } from './emailService.js';
+import { websocketService } from './websocketService.js';
+import { recordInvoiceHistory } from './invoiceService.js';
+import { formatMoney, loadInvoiceDocument } from './invoicePdfService.js';
+import { recordPayment } from './invoicePaymentService.js';
+import { fromMinorUnits } from './currencyService.js';
+
+const PORTAL_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+export const AUTOPAY_PAYMENT_METHOD_TYPES = ['card', 'us_bank_account'];
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function notFound(message) {
+  const error = new Error(message);
+  error.statusCode = 404;
+  return error;
+}
+
+function escapeHtml(text) {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * The parts of a Stripe payment method the portal shows, e.g.
+ * "Visa ending 4242" or "Chase Bank ending 6789".
+ */
+export function describePaymentMethod(paymentMethod) {
+  const summary = {
+    id: paymentMethod.id,
+    type: paymentMethod.type,
+    brand: null,
+    last4: null,
+    expMonth: null,
+    expYear: null,
+    bankName: null,
+    label: 'Payment method'
+  };
+
+  if (paymentMethod.type === 'card' && paymentMethod.card) {
+    const { brand, last4, exp_month: expMonth, exp_year: expYear } = paymentMethod.card;
+    const brandName = brand ? brand.charAt(0).toUpperCase() + brand.slice(1) : 'Card';
+    return { ...summary, brand, last4, expMonth, expYear, label: `${brandName} ending ${last4}` };
+  }
+  if (paymentMethod.type === 'us_bank_account' && paymentMethod.us_bank_account) {
+    const { bank_name: bankName, last4 } = paymentMethod.us_bank_account;
+    return { ...summary, last4, bankName, label: `${bankName || 'Bank account'} ending ${last4}` };
+  }
+  return summary;
+}
+
+/**
+ * Why a charge failed, from a thrown Stripe error or a failed payment intent.
+ */
+export function autopayFailureReason(source) {
+  const paymentError = source?.last_payment_error || source?.payment_intent?.last_payment_error;
+  return paymentError?.message || source?.message || 'The payment was declined';
+}
+
+async function loadBusiness(db, businessId) {
+  const result = await db.query(`
+    SELECT id, business_name, stripe_customer_id, autopay_enabled, autopay_payment_method_id, autopay_enabled_at
+      FROM businesses
+     WHERE id = $1
+  `, [businessId]);
+  if (result.rows.length === 0) throw notFound('Business not found');
+  return result.rows[0];
+}
+
+/**
+ * The business's Stripe customer, created on first use.
+ *
+ * @param {{email: string}} contact - whoever is saving the first method
+ * @returns {Promise<string>} Stripe customer ID
+ */
+export async function getOrCreateBusinessCustomer(db, businessId, { email }) {
+  const business = await loadBusiness(db, businessId);
+  if (business.stripe_customer_id) return business.stripe_customer_id;
+
+  const { createOrGetCustomer } = await import('./stripeService.js');
+  const customer = await createOrGetCustomer({
+    email,
+    name: business.business_name,
+    metadata: { businessId }
+  });
+
+  // Another request may have stored one first; keep whichever landed
+  const stored = await db.query(`
+    UPDATE businesses SET stripe_customer_id = COALESCE(stripe_customer_id, $2), updated_at = NOW()
+     WHERE id = $1
+     RETURNING stripe_customer_id
+  `, [businessId, customer.id]);
+  return stored.rows[0].stripe_customer_id;
+}
+
+/**
+ * A payment method saved to the business's customer. Anything else is
+ * reported as not found so IDs from other customers cannot be probed.
+ */
+async function getOwnedPaymentMethod(business, paymentMethodId) {
+  if (!business.stripe_customer_id || typeof paymentMethodId !== 'string' || !paymentMethodId) {
+    throw notFound('Payment method not found');
+  }
+  const { getPaymentMethod } = await import('./stripeService.js');
+  let paymentMethod;
+  try {
+    paymentMethod = await getPaymentMethod(paymentMethodId);
+  } catch {
+    throw notFound('Payment method not found');
+  }
+  if (paymentMethod.customer !== business.stripe_customer_id) {
+    throw notFound('Payment method not found');
+  }
+  if (!AUTOPAY_PAYMENT_METHOD_TYPES.includes(paymentMethod.type)) {
+    throw badRequest('Only cards and US bank accounts can be used for autopay');
+  }
+  return paymentMethod;
+}
+
+function autopaySettings(business) {
+  return {
+    enabled: business.autopay_enabled,
+    paymentMethodId: business.autopay_payment_method_id,
+    enabledAt: business.autopay_enabled_at
+  };
+}
+
+/**
+ * Saved methods and the autopay setting for a business.
+ */
+export async function listPaymentMethods(db, businessId) {
+  const business = await loadBusiness(db, businessId);
+  if (!business.stripe_customer_id) {
+    return { methods: [], autopay: autopaySettings(business) };
+  }
+
+  const { listCustomerPaymentMethods } = await import('./stripeService.js');
+  const methods = await listCustomerPaymentMethods(business.stripe_customer_id);
+  return { methods: methods.map(describePaymentMethod), autopay: autopaySettings(business) };
+}
+
+/**
+ * Start saving a new method: the portal confirms the returned SetupIntent
+ * with Stripe Elements.
+ *
+ * @returns {Promise<{clientSecret: string}>}
+ */
+export async function createPaymentMethodSetup(db, businessId, { email, userId }) {
+  const customerId = await getOrCreateBusinessCustomer(db, businessId, { email });
+  const { createSetupIntent } = await import('./stripeService.js');
+  const setupIntent = await createSetupIntent({
+    customerId,
+    metadata: { businessId, userId }
+  });
+  return { clientSecret: setupIntent.client_secret };
+}
+
+/**
+ * Remove a saved method. Removing the autopay method turns autopay off.
+ *
+ * @returns {Promise<{autopayDisabled: boolean}>}
+ */
+export async function removePaymentMethod(db, businessId, paymentMethodId) {
+  const business = await loadBusiness(db, businessId);
+  await getOwnedPaymentMethod(business, paymentMethodId);
+
+  const { detachPaymentMethod } = await import('./stripeService.js');
+  await detachPaymentMethod(paymentMethodId);
+
+  const disabled = await db.query(`
+    UPDATE businesses
+       SET autopay_enabled = false, autopay_payment_method_id = NULL, updated_at = NOW()
+     WHERE id = $1 AND autopay_payment_method_id = $2
+     RETURNING id
+  `, [businessId, paymentMethodId]);
+  return { autopayDisabled: disabled.rows.length > 0 };
+}
+
+/**
+ * Turn autopay on with a saved method, switch methods, or turn it off.
+ * Invoices issued before autopay was first turned on are left for the
+ * client to pay; switching methods keeps that date.
+ */
+export async function setAutopay(db, businessId, { enabled, paymentMethodId = null, userId = null }) {
+  if (typeof enabled !== 'boolean') throw badRequest('enabled must be true or false');
+
+  const business = await loadBusiness(db, businessId);
+  if (enabled) {
+    if (!paymentMethodId) throw badRequest('Choose a payment method for autopay');
+    await getOwnedPaymentMethod(business, paymentMethodId);
+  }
+
+  const result = await db.query(`
+    UPDATE businesses
+       SET autopay_enabled = $2,
+           autopay_payment_method_id = CASE WHEN $2 THEN $3 END,
+           autopay_enabled_at = CASE WHEN $2 THEN COALESCE(CASE WHEN autopay_enabled THEN autopay_enabled_at END, NOW()) END,
+           autopay_enabled_by_user_id = CASE WHEN $2 THEN $4::uuid END,
+           updated_at = NOW()
+     WHERE id = $1
+     RETURNING autopay_enabled, autopay_payment_method_id, autopay_enabled_at
+  `, [businessId, enabled, paymentMethodId, userId]);
+  return autopaySettings(result.rows[0]);
+}
+
+async function notifyInvoiceUpdate(invoice, type) {
+  const clientResult = await query(
+    `SELECT id FROM users WHERE business_id = $1 LIMIT 1`,
+    [invoice.business_id]
+  );
+  const update = {
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoice_number,
+    totalAmount: invoice.total_amount,
+    paymentStatus: invoice.payment_status,
+    type
+  };
+  if (clientResult.rows.length > 0) {
+    websocketService.notifyClientOfInvoiceUpdate(clientResult.rows[0].id, update);
+  }
+  websocketService.broadcastInvoiceUpdateToAdmins(update);
+}
+
+async function emailAutopayFailure(db, invoiceId, reason) {
+  const document = await loadInvoiceDocument(db, invoiceId);
+  if (!document?.invoice.contact_email) return null;
+
+  const { invoice } = document;
+  const amount = formatMoney(Number(invoice.total_amount) - Number(invoice.amount_paid), invoice.currency);
+  const greeting = invoice.contact_name ? `Hello ${invoice.contact_name},` : 'Hello,';
+  const summary = `We could not collect ${amount} for invoice ${invoice.invoice_number} with your saved payment method: ${reason}`;
+  const action = 'Please pay the invoice in the client portal, or update the payment method used for autopay.';
+  const portalUrl = `${PORTAL_URL}/clogin`;
+
+  await emailService.sendRawEmail({
+    from: `"${process.env.SES_FROM_NAME}" <${process.env.SES_FROM_EMAIL}>`,
+    to: invoice.contact_email,
+    subject: `Autopay failed for invoice ${invoice.invoice_number}`,
+    html: `
+      <p>${escapeHtml(greeting)}</p>
+      <p>${escapeHtml(summary)}</p>
+      <p>${escapeHtml(action)}</p>
+      <p><a href="${escapeHtml(portalUrl)}">Open the client portal</a></p>
+      ${emailService.getEmailFooter()}
+    `,
+    text: [greeting, '', summary, '', action, '', `Client portal: ${portalUrl}`].join('\n')
+  });
+  return invoice.contact_email;
+}
+
+/**
+ * Mark an autopay charge as failed: the invoice goes to 'failed' (or stays
+ * 'partial' when part of it is already paid), the failure reason is recorded
+ * and the client is emailed. Called for declines at
+ * charge time and, with pendingOnly, for bank debits the webhook reports
+ * failed later (Stripe also sends the webhook for charge-time declines,
+ * which are already recorded).
+ */
+export async function recordAutopayFailure(db, invoiceId, reason, { pendingOnly = false } = {}) {
+  const result = await db.query(`
+    UPDATE invoices i
+       SET payment_status = CASE WHEN i.amount_paid > 0 THEN 'partial' ELSE 'failed' END,
+           autopay_failure_reason = $2, updated_at = NOW()
+      FROM invoices previous
+     WHERE i.id = $1
+       AND previous.id = i.id
+       AND i.payment_status IN ('due', 'overdue', 'failed', 'partial', 'pending')
+       AND (NOT $3 OR i.payment_status = 'pending')
+     RETURNING i.id, i.invoice_number, i.payment_status, i.total_amount, i.business_id,
+               previous.payment_status AS previous_status
+  `, [invoiceId, reason, pendingOnly]);
+  if (result.rows.length === 0) return null;
+  const invoice = result.rows[0];
+
+  // The invoice is already marked; a failed email does not undo that
+  let emailedTo = null;
+  try {
+    emailedTo = await emailAutopayFailure(db, invoiceId, reason);
+  } catch (error) {
+    console.error(`❌ Autopay failure email for ${invoice.invoice_number} failed:`, error);
+  }
+
+  await recordInvoiceHistory(db, {
+    invoiceId,
+    action: 'autopay_failed',
+    reason,
+    details: { from: invoice.previous_status, to: invoice.payment_status, emailedTo }
+  });
+  await notifyInvoiceUpdate(invoice, 'autopay_failed');
+  return invoice;
+}
+
+/**
+ * Charge one invoice with the business's autopay method, unless it was
+ * already attempted with that method.
+ *
+ * @returns {Promise<'succeeded'|'pending'|'failed'|null>} null when skipped
+ */
+export async function chargeInvoice(db, invoiceId) {
+  const claim = await db.query(`
+    UPDATE invoices i
+       SET autopay_attempted_at = NOW(),
+           autopay_payment_method_id = b.autopay_payment_method_id,
+           autopay_failure_reason = NULL
+      FROM businesses b
+     WHERE i.id = $1
+       AND b.id = i.business_id
+       AND b.autopay_enabled
+       AND b.stripe_customer_id IS NOT NULL
+       AND i.invoice_status = 'issued'
+       AND i.invoice_type <> 'credit_note'
+       AND i.payment_status IN ('due', 'overdue', 'failed', 'partial')
+       AND i.total_amount > i.amount_paid
+       AND i.autopay_payment_method_id IS DISTINCT FROM b.autopay_payment_method_id
+     RETURNING i.id, i.invoice_number, i.total_amount, i.amount_paid, i.currency, i.business_id, i.payment_status,
+               b.business_name, b.stripe_customer_id, b.autopay_payment_method_id
+  `, [invoiceId]);
+  if (claim.rows.length === 0) return null;
+  const invoice = claim.rows[0];
+  const balanceDue = Math.round((parseFloat(invoice.total_amount) - parseFloat(invoice.amount_paid)) * 100) / 100;
+
+  const stripeService = await import('./stripeService.js');
+  let paymentIntent;
+  try {
+    const paymentMethod = await stripeService.getPaymentMethod(invoice.autopay_payment_method_id);
+    paymentIntent = await stripeService.chargeSavedPaymentMethod({
+      amount: balanceDue,
+      currency: invoice.currency.toLowerCase(),
+      customerId: invoice.stripe_customer_id,
+      paymentMethod,
+      invoiceId: invoice.id,
+      description: `Invoice ${invoice.invoice_number} - ${invoice.business_name}`,
+      metadata: {
+        invoiceNumber: invoice.invoice_number,
+        businessId: invoice.business_id,
+        autopay: 'true'
+      },
+      idempotencyKey: `autopay-${invoice.id}-${invoice.autopay_payment_method_id}`
+    });
+  } catch (error) {
+    await recordAutopayFailure(db, invoice.id, autopayFailureReason(error));
+    return 'failed';
+  }
+
+  if (paymentIntent.status === 'succeeded' || paymentIntent.status === 'processing') {
+    const succeeded = paymentIntent.status === 'succeeded';
+    const method = paymentIntent.payment_method_types?.[0] || 'card';
+    await db.query(`
+      UPDATE invoices
+         SET payment_method = $2,
+             stripe_customer_id = $3,
+             stripe_payment_intent_id = $4,
+             stripe_charge_id = $5,
+             stripe_payment_method_id = $6,
+             updated_at = NOW()
+       WHERE id = $1
+    `, [
+      invoice.id,
+      method,
+      invoice.stripe_customer_id,
+      paymentIntent.id,
+      paymentIntent.latest_charge,
+      invoice.autopay_payment_method_id
+    ]);
+
+    let updated = null;
+    if (succeeded) {
+      // The webhook reports the same payment intent; the ledger records it once
+      const recorded = await transaction(client => recordPayment(client, invoice.id, {
+        amount: fromMinorUnits(paymentIntent.amount_received, paymentIntent.currency),
+        method,
+        reference: paymentIntent.id,
+        stripePaymentIntentId: paymentIntent.id,
+        stripeChargeId: paymentIntent.latest_charge
+      }, {
+        historyAction: 'autopay_charged',
+        historyDetails: { paymentIntentId: paymentIntent.id }
+      }));
+      updated = recorded?.invoice ?? null;
+    } else {
+      const result = await db.query(`
+        UPDATE invoices
+           SET payment_status = 'pending', updated_at = NOW()
+         WHERE id = $1 AND payment_status NOT IN ('paid', 'comped', 'refunded')
+         RETURNING id, invoice_number, payment_status, total_amount, business_id
+      `, [invoice.id]);
+      updated = result.rows[0] ?? null;
+      await recordInvoiceHistory(db, {
+        invoiceId: invoice.id,
+        action: 'autopay_pending',
+        details: { from: invoice.payment_status, to: 'pending', paymentIntentId: paymentIntent.id }
+      });
+    }
+
+    if (updated) {
+      await notifyInvoiceUpdate(updated, updated.payment_status === 'paid' ? 'invoice_paid' : 'status_change');
+    }
+    return succeeded ? 'succeeded' : 'pending';
+  }
+
+  await recordAutopayFailure(db, invoice.id, autopayFailureReason(paymentIntent));
+  return 'failed';
+}
+
+class AutopayScheduler {
+  constructor() {
+    this.intervalId = null;
+    this.isRunning = false;
+    this.isProcessing = false;
+    this.checkIntervalMs = 60 * 60 * 1000; // hourly
+  }
+
+  start() {
+    if (this.isRunning) {
+      console.log('⚠️  Autopay scheduler already running');
+      return;
+    }
+
+    console.log('💳 Starting autopay scheduler...');
+    this.isRunning = true;
+
+    this.runTick();
+    this.intervalId = setInterval(() => {
+      this.runTick();
+    }, this.checkIntervalMs);
+
+    console.log(`✅ Autopay scheduler started (checking every ${this.checkIntervalMs / 60000}m)`);
+  }
+
+  stop() {
+    if (!this.isRunning) return;
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    console.log('✅ Autopay scheduler stopped');
+  }
+
+  async runTick() {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      await this.chargeDueInvoices();
+    } catch (error) {
+      console.error('❌ Error running autopay:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Unpaid invoices at or past their due date, issued since their business
+   * turned autopay on, that have not been attempted with its current method.
+   */
+  async chargeDueInvoices() {
+    const candidates = await query(`
+      SELECT i.id, i.invoice_number
+        FROM invoices i
+        JOIN businesses b ON b.id = i.business_id
+       WHERE b.autopay_enabled
+         AND b.stripe_customer_id IS NOT NULL
+         AND i.invoice_status = 'issued'
+         AND i.invoice_type <> 'credit_note'
+         AND i.payment_status IN ('due', 'overdue', 'failed', 'partial')
+         AND i.total_amount > i.amount_paid
+         AND i.due_date <= CURRENT_DATE
+         AND i.issue_date >= b.autopay_enabled_at::date
+         AND i.autopay_payment_method_id IS DISTINCT FROM b.autopay_payment_method_id
+       ORDER BY i.due_date
+    `);
+
+    for (const invoice of candidates.rows) {
+      try {
+        const outcome = await chargeInvoice({ query }, invoice.id);
+        if (outcome) console.log(`💳 Autopay for ${invoice.invoice_number}: ${outcome}`);
+      } catch (error) {
+        console.error(`❌ Autopay for ${invoice.invoice_number} failed:`, error);
+      }
+    }
+  }
+}
+
+export const autopayScheduler = new AutopayScheduler();
+
+export default {
+  AUTOPAY_PAYMENT_METHOD_TYPES,
+  describePaymentMethod,
+  autopayFailureReason,
+  getOrCreateBusinessCustomer,
+  listPaymentMethods,
+  createPaymentMethodSetup,
+  removePaymentMethod,
+  setAutopay,
+  recordAutopayFailure,
+  chargeInvoice,
+  autopayScheduler
+};
@@ -0,0 +1,63 @@
+// Tests for autopayService — how saved methods are described and how a
+// failure reason is read from Stripe are pure and pinned here. Saving and
+// charging need Stripe.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { describePaymentMethod, autopayFailureReason } from './autopayService.js';
+
+// ----- describePaymentMethod -----
+
+test('describePaymentMethod: cards show brand, last four and expiry', () => {
+  assert.deepEqual(
+    describePaymentMethod({
+      id: 'pm_card',
+      type: 'card',
+      card: { brand: 'visa', last4: '4242', exp_month: 8, exp_year: 2028 }
+    }),
+    {
+      id: 'pm_card',
+      type: 'card',
+      brand: 'visa',
+      last4: '4242',
+      expMonth: 8,
+      expYear: 2028,
+      bankName: null,
+      label: 'Visa ending 4242'
+    }
+  );
+});
+
+test('describePaymentMethod: bank accounts show the bank and last four', () => {
+  const described = describePaymentMethod({
+    id: 'pm_bank',
+    type: 'us_bank_account',
+    us_bank_account: { bank_name: 'STRIPE TEST BANK', last4: '6789' }
+  });
+  assert.equal(described.label, 'STRIPE TEST BANK ending 6789');
+  assert.equal(described.bankName, 'STRIPE TEST BANK');
+  assert.equal(described.expMonth, null);
+
+  assert.equal(
+    describePaymentMethod({ id: 'pm_bank', type: 'us_bank_account', us_bank_account: { last4: '6789' } }).label,
+    'Bank account ending 6789'
+  );
+});
+
+// ----- autopayFailureReason -----
+
+test('autopayFailureReason: from a declined charge error', () => {
+  const error = Object.assign(new Error('Your card was declined.'), {
+    payment_intent: { last_payment_error: { message: 'Your card has insufficient funds.' } }
+  });
+  assert.equal(autopayFailureReason(error), 'Your card has insufficient funds.');
+  assert.equal(autopayFailureReason(new Error('Your card was declined.')), 'Your card was declined.');
+});
+
+test('autopayFailureReason: from a failed payment intent', () => {
+  assert.equal(
+    autopayFailureReason({ id: 'pi_1', last_payment_error: { message: 'The bank account has been closed.' } }),
+    'The bank account has been closed.'
+  );
+  assert.equal(autopayFailureReason({ id: 'pi_1', status: 'requires_payment_method' }), 'The payment was declined');
+});
@@ -0,0 +1,134 @@
+/**
+ * "Reply to client" notes on service requests.
+ *
+ * A client reply is a note that is also emailed to the request's contact,
+ * with the request number in the subject so the client's answer threads
+ * back onto the request through the inbound email gateway. The note records
+ * where the email went and whether it was accepted for delivery
+ * (email_status pending / sent / failed); failed replies can be sent again.
+ *
+ * Sending is passed in (`send`), so the email transport stays with the
+ * caller.
+ */
+
+export const CLIENT_REPLY_NOTE_TYPE = 'client_reply';
+
+const MAX_REPLY_LENGTH = 10000;
+
+const NOTE_COLUMNS = `id, note_text, note_type, created_by_type, created_by_name, created_at,
+  is_visible_to_client, email_status, email_to, email_error, email_sent_at`;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function notFound(message) {
+  const error = new Error(message);
+  error.statusCode = 404;
+  return error;
+}
+
+// The request's contact: its primary contact, else the client who opened it
+const CONTACT_EMAIL = `COALESCE(NULLIF(TRIM(sr.primary_contact_email), ''), u.email)`;
+const CONTACT_NAME = `CASE WHEN NULLIF(TRIM(sr.primary_contact_email), '') IS NOT NULL
+                           THEN sr.primary_contact_name ELSE u.first_name END`;
+
+/**
+ * Save a reply as a client-visible note, pending delivery to the request's
+ * contact. Call deliverClientReply next to send it.
+ */
+export async function createClientReply(db, { serviceRequestId, noteText, employee }) {
+  const text = typeof noteText === 'string' ? noteText.trim() : '';
+  if (!text) throw badRequest('Reply text is required');
+  if (text.length > MAX_REPLY_LENGTH) {
+    throw badRequest(`Reply must be at most ${MAX_REPLY_LENGTH} characters`);
+  }
+
+  const requestResult = await db.query(
+    `SELECT sr.id, ${CONTACT_EMAIL} AS contact_email
+       FROM service_requests sr
+       LEFT JOIN users u ON u.id = sr.client_id
+      WHERE sr.id = $1 AND sr.soft_delete = false`,
+    [serviceRequestId]
+  );
+  const request = requestResult.rows[0];
+  if (!request) throw notFound('Service request not found');
+  if (!request.contact_email) throw badRequest('This service request has no contact email to reply to');
+
+  const result = await db.query(
+    `INSERT INTO service_request_notes (
+       service_request_id, note_text, note_type, created_by_type, created_by_id, created_by_name,
+       is_visible_to_client, email_status, email_to
+     ) VALUES ($1, $2, $3, 'employee', $4, $5, true, 'pending', $6)
+     RETURNING ${NOTE_COLUMNS}`,
+    [serviceRequestId, text, CLIENT_REPLY_NOTE_TYPE, employee.id, employee.name, request.contact_email]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Email a client reply note and record the outcome on it. A send failure
+ * is recorded, not thrown; the returned note carries email_status and
+ * email_error.
+ */
+export async function deliverClientReply(db, { serviceRequestId, noteId }, { send }) {
+  const result = await db.query(
+    `SELECT n.id, n.note_text, n.created_at, n.email_status, n.created_by_id, n.created_by_name,
+            sr.request_number, sr.title, COALESCE(srs.name, 'Unknown') AS status,
+            ${CONTACT_EMAIL} AS contact_email, ${CONTACT_NAME} AS contact_name,
+            e.email AS employee_email, e.phone AS employee_phone
+       FROM service_request_notes n
+       JOIN service_requests sr ON sr.id = n.service_request_id
+       LEFT JOIN service_request_statuses srs ON srs.id = sr.status_id
+       LEFT JOIN users u ON u.id = sr.client_id
+       LEFT JOIN employees e ON e.id = n.created_by_id
+      WHERE n.id = $1 AND n.service_request_id = $2 AND n.note_type = $3`,
+    [noteId, serviceRequestId, CLIENT_REPLY_NOTE_TYPE]
+  );
+  const reply = result.rows[0];
+  if (!reply) throw notFound('Client reply not found');
+  if (reply.email_status === 'sent') throw badRequest('This reply has already been sent');
+
+  const recordFailure = async (message) => {
+    const failed = await db.query(
+      `UPDATE service_request_notes
+          SET email_status = 'failed', email_error = $2, email_to = COALESCE($3, email_to)
+        WHERE id = $1
+        RETURNING ${NOTE_COLUMNS}`,
+      [reply.id, message, reply.contact_email]
+    );
+    return failed.rows[0];
+  };
+
+  if (!reply.contact_email) return recordFailure('The service request has no contact email');
+
+  try {
+    const sent = await send({
+      serviceRequest: { requestNumber: reply.request_number, title: reply.title, status: reply.status },
+      note: { noteText: reply.note_text, createdAt: reply.created_at },
+      employee: { name: reply.created_by_name, email: reply.employee_email, phone: reply.employee_phone },
+      client: { email: reply.contact_email, firstName: reply.contact_name }
+    });
+
+    const delivered = await db.query(
+      `UPDATE service_request_notes
+          SET email_status = 'sent', email_error = NULL, email_to = $2,
+              email_message_id = $3, email_sent_at = NOW()
+        WHERE id = $1
+        RETURNING ${NOTE_COLUMNS}`,
+      [reply.id, reply.contact_email, sent?.messageId || null]
+    );
+    return delivered.rows[0];
+  } catch (error) {
+    console.error(`❌ Failed to email client reply ${reply.id}:`, error);
+    return recordFailure(error.message);
+  }
+}
+
+export default {
+  CLIENT_REPLY_NOTE_TYPE,
+  createClientReply,
+  deliverClientReply
+};
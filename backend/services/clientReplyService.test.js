@@ -0,0 +1,128 @@
+// Tests for clientReplyService — saving a reply as a client-visible note and
+// recording whether its email went out, against a fake db.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClientReply, deliverClientReply } from './clientReplyService.js';
+
+function fakeDb(handlers) {
+  const calls = [];
+  return {
+    calls,
+    async query(sql, params = []) {
+      calls.push({ sql, params });
+      for (const [pattern, rows] of handlers) {
+        if (pattern.test(sql)) return { rows: typeof rows === 'function' ? rows(params) : rows };
+      }
+      return { rows: [] };
+    }
+  };
+}
+
+const REPLY = {
+  id: 'note-1',
+  note_text: 'The new toner is on its way.',
+  created_at: '2026-10-18T15:00:00.000Z',
+  email_status: 'pending',
+  created_by_id: 'emp-1',
+  created_by_name: 'Sam Tech',
+  request_number: 'SR-2026-00042',
+  title: 'Printer offline',
+  status: 'In Progress',
+  contact_email: 'jane.doe@example.com',
+  contact_name: 'Jane',
+  employee_email: 'sam@example.com',
+  employee_phone: null
+};
+
+test('createClientReply saves a pending, client-visible note addressed to the contact', async () => {
+  const db = fakeDb([
+    [/FROM service_requests sr/, [{ id: 'sr-1', contact_email: 'jane.doe@example.com' }]],
+    [/INSERT INTO service_request_notes/, params => [{ id: 'note-1', note_text: params[1], note_type: params[2], email_to: params[5] }]]
+  ]);
+
+  const note = await createClientReply(db, {
+    serviceRequestId: 'sr-1',
+    noteText: '  The new toner is on its way.  ',
+    employee: { id: 'emp-1', name: 'Sam Tech' }
+  });
+
+  assert.equal(note.note_text, 'The new toner is on its way.');
+  assert.equal(note.note_type, 'client_reply');
+  assert.equal(note.email_to, 'jane.doe@example.com');
+  const insert = db.calls.find(call => /INSERT/.test(call.sql));
+  assert.match(insert.sql, /true, 'pending', \$6/);
+  const lookup = db.calls.find(call => /FROM service_requests sr/.test(call.sql));
+  assert.match(lookup.sql, /COALESCE\(NULLIF\(TRIM\(sr\.primary_contact_email\), ''\), u\.email\) AS contact_email/);
+});
+
+test('createClientReply needs text and a contact email', async () => {
+  const noContact = fakeDb([[/FROM service_requests sr/, [{ id: 'sr-1', contact_email: null }]]]);
+  await assert.rejects(
+    createClientReply(noContact, { serviceRequestId: 'sr-1', noteText: 'Hi', employee: { id: 'emp-1', name: 'Sam' } }),
+    { statusCode: 400 }
+  );
+  await assert.rejects(
+    createClientReply(noContact, { serviceRequestId: 'sr-1', noteText: '   ', employee: { id: 'emp-1', name: 'Sam' } }),
+    { statusCode: 400 }
+  );
+  await assert.rejects(
+    createClientReply(fakeDb([]), { serviceRequestId: 'sr-x', noteText: 'Hi', employee: { id: 'emp-1', name: 'Sam' } }),
+    { statusCode: 404 }
+  );
+  assert.equal(noContact.calls.some(call => /INSERT/.test(call.sql)), false);
+});
+
+test('deliverClientReply emails the contact and records the delivery', async () => {
+  const db = fakeDb([
+    [/FROM service_request_notes n/, [REPLY]],
+    [/UPDATE service_request_notes/, params => [{ id: params[0] }]]
+  ]);
+  const sent = [];
+  const send = async (params) => {
+    sent.push(params);
+    return { messageId: '<msg-1@ses>' };
+  };
+
+  await deliverClientReply(db, { serviceRequestId: 'sr-1', noteId: 'note-1' }, { send });
+
+  assert.equal(sent.length, 1);
+  assert.equal(sent[0].client.email, 'jane.doe@example.com');
+  assert.equal(sent[0].client.firstName, 'Jane');
+  assert.equal(sent[0].serviceRequest.requestNumber, 'SR-2026-00042');
+  assert.equal(sent[0].note.noteText, 'The new toner is on its way.');
+  assert.equal(sent[0].employee.name, 'Sam Tech');
+  const update = db.calls.find(call => /UPDATE/.test(call.sql));
+  assert.match(update.sql, /email_status = 'sent'/);
+  assert.deepEqual(update.params, ['note-1', 'jane.doe@example.com', '<msg-1@ses>']);
+});
+
+test('deliverClientReply records a failed send instead of throwing', async () => {
+  const db = fakeDb([
+    [/FROM service_request_notes n/, [REPLY]],
+    [/UPDATE service_request_notes/, params => [{ id: params[0] }]]
+  ]);
+
+  await deliverClientReply(db, { serviceRequestId: 'sr-1', noteId: 'note-1' }, {
+    send: async () => { throw new Error('SES throttled'); }
+  });
+
+  const update = db.calls.find(call => /UPDATE/.test(call.sql));
+  assert.match(update.sql, /email_status = 'failed'/);
+  assert.deepEqual(update.params, ['note-1', 'SES throttled', 'jane.doe@example.com']);
+});
+
+test('deliverClientReply does not send a reply twice', async () => {
+  const db = fakeDb([[/FROM service_request_notes n/, [{ ...REPLY, email_status: 'sent' }]]]);
+  let sends = 0;
+
+  await assert.rejects(
+    deliverClientReply(db, { serviceRequestId: 'sr-1', noteId: 'note-1' }, { send: async () => { sends++; } }),
+    { statusCode: 400 }
+  );
+  await assert.rejects(
+    deliverClientReply(fakeDb([]), { serviceRequestId: 'sr-1', noteId: 'note-x' }, { send: async () => { sends++; } }),
+    { statusCode: 404 }
+  );
+  assert.equal(sends, 0);
+});
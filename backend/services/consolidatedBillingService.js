@@ -0,0 +1,391 @@
+/**
+ * Monthly consolidated invoices.
+ *
+ * A business with billing_mode = 'monthly_consolidated' is not invoiced as
+ * each request closes; the close handler only stamps billing_deferred_at.
+ * Once a month has ended, the scheduler rolls every request the business
+ * closed before the 1st into one DRAFT invoice (invoice_type =
+ * 'consolidated') with a line per request, priced by
+ * calculateServiceRequestBilling exactly as closing it would have been.
+ * Admins review, edit and issue the draft from Invoices, or consolidate a
+ * business's pending requests early.
+ *
+ * Requests point at their invoice through consolidated_invoice_id; deleting
+ * the draft or dropping a request's line from it puts the request back in
+ * the pending pool. Hours a request drew from prepaid blocks when it was
+ * closed are left out of its line (services/prepaidHoursService.js).
+ *
+ * The invoice's standard/premium/emergency/waived hour columns hold the sum
+ * over its requests, as a single request's invoice holds its own, and are
+ * recomputed whenever the draft's lines change.
+ */
+import { query, transaction } from '../config/database.js';
+import { websocketService } from './websocketService.js';
+import {
+  calculateServiceRequestBilling,
+  computeInvoiceTotals,
+  insertInvoiceLineItems,
+  nextInvoiceNumber,
+  recordInvoiceHistory
+} from './invoiceService.js';
+import { applyPrepaidMinutes, prepaidMinutesUsedBy } from './prepaidHoursService.js';
+import { computeInvoiceTax, resolveInvoiceTax } from './taxService.js';
+
+export const BILLING_MODES = ['per_request', 'monthly_consolidated'];
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function formatHours(hours) {
+  return String(Number(hours.toFixed(2)));
+}
+
+/**
+ * A request's single line on a consolidated invoice, priced at the subtotal
+ * of the lines its own invoice would have had. The description keeps the
+ * per-tier hours so the total can be checked against the time log.
+ */
+export function buildConsolidatedLineItem(billing) {
+  const { serviceRequest } = billing;
+  const tierHours = [
+    ['standard', billing.standardHours],
+    ['premium', billing.premiumHours],
+    ['emergency', billing.emergencyHours]
+  ].filter(([, hours]) => hours > 0);
+
+  let detail = tierHours.length > 0
+    ? `${tierHours.map(([tier, hours]) => `${formatHours(hours)} ${tier}`).join(' + ')} hrs`
+    : 'no billable time';
+  if (billing.waivedHours > 0) {
+    detail += `, ${formatHours(billing.waivedHours)} waived`;
+  }
+  if (billing.prepaidHours > 0) {
+    detail += `, ${formatHours(billing.prepaidHours)} prepaid`;
+  }
+
+  const title = serviceRequest.title ? `: ${serviceRequest.title}` : '';
+  return {
+    description: `${serviceRequest.request_number}${title} (${detail})`,
+    itemType: 'other',
+    quantity: 1,
+    unitPrice: computeInvoiceTotals(billing.lineItems, 0).subtotal,
+    taxable: true,
+    serviceRequestId: serviceRequest.id,
+    timeEntryId: null,
+    productRef: null
+  };
+}
+
+/**
+ * Hours per rate tier summed over the billings of a consolidated invoice's
+ * requests, in the invoice's hour columns.
+ */
+export function sumConsolidatedHours(billings) {
+  const total = key => Math.round(billings.reduce((sum, billing) => sum + (billing[key] || 0), 0) * 100) / 100;
+  return {
+    standard_hours: total('standardHours'),
+    premium_hours: total('premiumHours'),
+    emergency_hours: total('emergencyHours'),
+    waived_hours: total('waivedHours')
+  };
+}
+
+// A request priced as it is billed on a consolidated invoice
+async function consolidatedBilling(db, serviceRequestId) {
+  return applyPrepaidMinutes(
+    await calculateServiceRequestBilling(db, serviceRequestId),
+    await prepaidMinutesUsedBy(db, serviceRequestId)
+  );
+}
+
+/**
+ * Recompute a consolidated draft's hour columns from the requests still on
+ * it, after its lines were edited.
+ */
+export async function refreshConsolidatedHours(db, invoiceId) {
+  const requests = await db.query(
+    `SELECT id FROM service_requests WHERE consolidated_invoice_id = $1`,
+    [invoiceId]
+  );
+  const billings = [];
+  for (const request of requests.rows) {
+    billings.push(await consolidatedBilling(db, request.id));
+  }
+  const hours = sumConsolidatedHours(billings);
+  await db.query(`
+    UPDATE invoices
+       SET standard_hours = $2, premium_hours = $3, emergency_hours = $4, waived_hours = $5
+     WHERE id = $1
+  `, [invoiceId, hours.standard_hours, hours.premium_hours, hours.emergency_hours, hours.waived_hours]);
+}
+
+async function getDueDays(db) {
+  const result = await db.query(
+    `SELECT setting_value FROM company_settings WHERE setting_key = 'invoice_due_days'`
+  );
+  return parseInt(result.rows[0]?.setting_value) || 30;
+}
+
+// Completed requests of a business waiting for a consolidated invoice
+const PENDING_REQUESTS_FILTER = `
+  sr.billing_deferred_at IS NOT NULL
+  AND sr.consolidated_invoice_id IS NULL
+  AND sr.soft_delete = false
+`;
+
+/**
+ * Every business with completed requests waiting to be consolidated.
+ */
+export async function listPendingConsolidation(db = { query }) {
+  const result = await db.query(`
+    SELECT b.id AS business_id, b.business_name, b.billing_mode,
+           COUNT(sr.id)::int AS request_count,
+           MIN(sr.billing_deferred_at) AS oldest_closed_at,
+           array_agg(sr.request_number ORDER BY sr.billing_deferred_at) AS request_numbers
+      FROM service_requests sr
+      JOIN businesses b ON sr.business_id = b.id
+     WHERE ${PENDING_REQUESTS_FILTER}
+     GROUP BY b.id
+     ORDER BY b.business_name
+  `);
+  return result.rows;
+}
+
+/**
+ * Roll a business's pending requests into a new draft invoice.
+ *
+ * With `periodEnd` only requests closed by the end of that day are taken and
+ * the month is recorded in consolidated_billing_runs, so the scheduler
+ * consolidates it once. Without it every pending request is taken (the
+ * "consolidate now" action).
+ *
+ * @returns {Promise<{invoice: object|null, requestCount: number}|null>}
+ *   null if the month was already consolidated
+ */
+export async function consolidateBusiness(businessId, { periodStart = null, periodEnd = null, employeeId = null } = {}) {
+  const result = await transaction(async client => {
+    // Business row lock so two runs never consolidate the same requests
+    const business = await client.query(
+      `SELECT id, business_name FROM businesses WHERE id = $1 FOR UPDATE`,
+      [businessId]
+    );
+    if (business.rows.length === 0) throw badRequest('Business not found');
+
+    if (periodStart) {
+      const run = await client.query(
+        `SELECT 1 FROM consolidated_billing_runs WHERE business_id = $1 AND period_start = $2`,
+        [businessId, periodStart]
+      );
+      if (run.rows.length > 0) return null;
+    }
+
+    const pending = await client.query(`
+      SELECT sr.id, sr.billing_deferred_at::date::text AS closed_on
+        FROM service_requests sr
+       WHERE sr.business_id = $1
+         AND ${PENDING_REQUESTS_FILTER}
+         AND ($2::date IS NULL OR sr.billing_deferred_at < $2::date + 1)
+       ORDER BY sr.billing_deferred_at
+       FOR UPDATE OF sr
+    `, [businessId, periodEnd]);
+
+    let invoice = null;
+    if (pending.rows.length > 0) {
+      const billings = [];
+      for (const request of pending.rows) {
+        billings.push(await consolidatedBilling(client, request.id));
+      }
+      const lineItems = billings.map(buildConsolidatedLineItem);
+      const hours = sumConsolidatedHours(billings);
+
+      const todayResult = await client.query(`SELECT CURRENT_DATE::text AS today`);
+      const billingPeriodStart = periodStart || pending.rows[0].closed_on;
+      const billingPeriodEnd = periodEnd || todayResult.rows[0].today;
+
+      const dueDays = await getDueDays(client);
+      const tax = await resolveInvoiceTax(client, businessId);
+      const totals = computeInvoiceTax(lineItems, tax);
+      const now = new Date();
+      const dueDate = new Date(now);
+      dueDate.setDate(dueDate.getDate() + dueDays);
+
+      const inserted = await client.query(`
+        INSERT INTO invoices (
+          business_id, invoice_number, invoice_type, invoice_status,
+          subtotal, tax_rate, tax_amount, total_amount, currency, tax_breakdown,
+          issue_date, due_date, payment_status, work_description,
+          billing_period_start, billing_period_end, created_by_employee_id,
+          standard_hours, premium_hours, emergency_hours, waived_hours
+        ) VALUES ($1, $2, 'consolidated', 'draft', $3, $4, $5, $6, $7, $8, $9, $10, 'due', $11, $12, $13, $14,
+                  $15, $16, $17, $18)
+        RETURNING *
+      `, [
+        businessId,
+        await nextInvoiceNumber(client, 'DRAFT', now),
+        totals.subtotal,
+        tax.taxRate,
+        totals.taxAmount,
+        totals.totalAmount,
+        tax.currency,
+        JSON.stringify(totals.taxBreakdown),
+        now,
+        dueDate.toISOString().slice(0, 10),
+        `Service requests closed ${billingPeriodStart} to ${billingPeriodEnd}`,
+        billingPeriodStart,
+        billingPeriodEnd,
+        employeeId,
+        hours.standard_hours,
+        hours.premium_hours,
+        hours.emergency_hours,
+        hours.waived_hours
+      ]);
+      invoice = inserted.rows[0];
+
+      await insertInvoiceLineItems(client, invoice.id, totals.lineItems);
+      await client.query(
+        `UPDATE service_requests SET consolidated_invoice_id = $1 WHERE id = ANY($2::uuid[])`,
+        [invoice.id, pending.rows.map(request => request.id)]
+      );
+      await recordInvoiceHistory(client, {
+        invoiceId: invoice.id,
+        action: 'created',
+        details: {
+          source: 'consolidated_billing',
+          periodStart: billingPeriodStart,
+          periodEnd: billingPeriodEnd,
+          requestCount: pending.rows.length,
+          totalAmount: totals.totalAmount
+        },
+        employeeId
+      });
+    }
+
+    if (periodStart) {
+      await client.query(`
+        INSERT INTO consolidated_billing_runs (business_id, period_start, invoice_id, request_count)
+        VALUES ($1, $2, $3, $4)
+      `, [businessId, periodStart, invoice?.id ?? null, pending.rows.length]);
+    }
+
+    return { invoice, requestCount: pending.rows.length };
+  });
+
+  if (result?.invoice) {
+    notifyNewDraft(result.invoice);
+  }
+  return result;
+}
+
+// Drafts are for admins only; the client hears about the invoice once issued
+function notifyNewDraft(invoice) {
+  websocketService.broadcastInvoiceUpdateToAdmins({
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoice_number,
+    totalAmount: invoice.total_amount,
+    paymentStatus: invoice.payment_status,
+    type: 'new_invoice'
+  });
+  websocketService.broadcastEntityUpdate('invoice', invoice.id, 'created', {
+    invoiceNumber: invoice.invoice_number,
+    invoiceStatus: invoice.invoice_status
+  });
+}
+
+class ConsolidatedBillingScheduler {
+  constructor() {
+    this.intervalId = null;
+    this.isRunning = false;
+    this.isProcessing = false;
+    this.checkIntervalMs = 60 * 60 * 1000; // hourly
+  }
+
+  start() {
+    if (this.isRunning) {
+      console.log('⚠️  Consolidated billing scheduler already running');
+      return;
+    }
+
+    console.log('🧾 Starting consolidated billing scheduler...');
+    this.isRunning = true;
+
+    this.runTick();
+    this.intervalId = setInterval(() => {
+      this.runTick();
+    }, this.checkIntervalMs);
+
+    console.log(`✅ Consolidated billing scheduler started (checking every ${this.checkIntervalMs / 60000}m)`);
+  }
+
+  stop() {
+    if (!this.isRunning) return;
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    console.log('✅ Consolidated billing scheduler stopped');
+  }
+
+  async runTick() {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      await this.consolidateLastMonth();
+    } catch (error) {
+      console.error('❌ Error running consolidated billing:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Draft last month's invoice for every consolidated business not yet run
+   * for it.
+   */
+  async consolidateLastMonth() {
+    const due = await query(`
+      SELECT b.id, b.business_name, m.period_start::text AS period_start, m.period_end::text AS period_end
+        FROM businesses b
+       CROSS JOIN (
+         SELECT (date_trunc('month', CURRENT_DATE) - INTERVAL '1 month')::date AS period_start,
+                (date_trunc('month', CURRENT_DATE) - INTERVAL '1 day')::date AS period_end
+       ) m
+       WHERE b.billing_mode = 'monthly_consolidated'
+         AND NOT EXISTS (
+           SELECT 1 FROM consolidated_billing_runs r
+            WHERE r.business_id = b.id AND r.period_start = m.period_start
+         )
+    `);
+
+    for (const business of due.rows) {
+      try {
+        const result = await consolidateBusiness(business.id, {
+          periodStart: business.period_start,
+          periodEnd: business.period_end
+        });
+        if (result?.invoice) {
+          console.log(`🧾 Consolidated ${result.requestCount} request(s) for ${business.business_name}: ${result.invoice.invoice_number}`);
+        }
+      } catch (error) {
+        console.error(`❌ Consolidated billing failed for ${business.business_name}:`, error);
+      }
+    }
+  }
+}
+
+export const consolidatedBillingScheduler = new ConsolidatedBillingScheduler();
+
+export default {
+  BILLING_MODES,
+  buildConsolidatedLineItem,
+  sumConsolidatedHours,
+  refreshConsolidatedHours,
+  listPendingConsolidation,
+  consolidateBusiness,
+  consolidatedBillingScheduler
+};
@@ -0,0 +1,76 @@
+// Tests for consolidatedBillingService — the one-line-per-request pricing and
+// the invoice's hour totals are pure and pinned here. Consolidating needs a
+// real database.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildConsolidatedLineItem, sumConsolidatedHours } from './consolidatedBillingService.js';
+import { buildServiceRequestLineItems } from './invoiceService.js';
+import { applyPrepaidMinutes } from './prepaidHoursService.js';
+
+function billingFor(hours, { title = 'Printer offline' } = {}) {
+  return {
+    serviceRequest: { id: 'sr-1', request_number: 'SR-1042', title },
+    ...hours,
+    lineItems: buildServiceRequestLineItems({ serviceRequestId: 'sr-1', baseRate: 75, ...hours })
+  };
+}
+
+test('buildConsolidatedLineItem: one line priced like the request\'s own invoice', () => {
+  const line = buildConsolidatedLineItem(billingFor({
+    standardHours: 1.5, premiumHours: 1, emergencyHours: 0, waivedHours: 0
+  }));
+  assert.deepEqual(line, {
+    description: 'SR-1042: Printer offline (1.5 standard + 1 premium hrs)',
+    itemType: 'other',
+    quantity: 1,
+    unitPrice: 112.5 + 112.5,
+    taxable: true,
+    serviceRequestId: 'sr-1',
+    timeEntryId: null,
+    productRef: null
+  });
+});
+
+test('buildConsolidatedLineItem: waived first hour and untitled requests', () => {
+  const waived = buildConsolidatedLineItem(billingFor({
+    standardHours: 0.25, premiumHours: 0, emergencyHours: 0, waivedHours: 1
+  }));
+  assert.equal(waived.description, 'SR-1042: Printer offline (0.25 standard hrs, 1 waived)');
+  assert.equal(waived.unitPrice, 18.75);
+
+  const empty = buildConsolidatedLineItem(billingFor({
+    standardHours: 0, premiumHours: 0, emergencyHours: 0, waivedHours: 0.5
+  }, { title: null }));
+  assert.equal(empty.description, 'SR-1042 (no billable time, 0.5 waived)');
+  assert.equal(empty.unitPrice, 0);
+});
+
+test('buildConsolidatedLineItem: hours drawn from prepaid blocks are not billed again', () => {
+  const billing = {
+    ...billingFor({ standardHours: 3, premiumHours: 0, emergencyHours: 0, waivedHours: 0 }),
+    baseRate: 75,
+    rates: { standard: 75, premium: 112.5, emergency: 150 }
+  };
+  const line = buildConsolidatedLineItem(applyPrepaidMinutes(billing, 120));
+  assert.equal(line.description, 'SR-1042: Printer offline (1 standard hrs, 2 prepaid)');
+  assert.equal(line.unitPrice, 75);
+});
+
+test('sumConsolidatedHours: the invoice holds every request\'s hours by tier', () => {
+  const billing = {
+    ...billingFor({ standardHours: 3, premiumHours: 0, emergencyHours: 0, waivedHours: 0 }),
+    baseRate: 75,
+    rates: { standard: 75, premium: 112.5, emergency: 150 }
+  };
+  assert.deepEqual(sumConsolidatedHours([
+    billingFor({ standardHours: 1.5, premiumHours: 1, emergencyHours: 0, waivedHours: 1 }),
+    billingFor({ standardHours: 0.25, premiumHours: 0, emergencyHours: 0.75, waivedHours: 0 }),
+    applyPrepaidMinutes(billing, 120)
+  ]), {
+    standard_hours: 2.75,
+    premium_hours: 1,
+    emergency_hours: 0.75,
+    waived_hours: 1
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Invoice currencies.
+ *
+ * Each business is billed in one currency (businesses.currency), copied onto
+ * every invoice it receives (invoices.currency) so later changes never
+ * re-denominate an existing invoice. Amounts are stored in major units
+ * (dollars, euros, yen); Stripe takes minor units, which for zero-decimal
+ * currencies such as JPY are the major units themselves.
+ */
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES = ['USD', 'CAD', 'MXN', 'EUR', 'GBP', 'AUD', 'NZD', 'JPY'];
+
+// Stripe's zero-decimal currencies that we support
+const ZERO_DECIMAL_CURRENCIES = ['JPY'];
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+/**
+ * Normalise a currency code from a form ('usd' -> 'USD').
+ */
+export function validateCurrency(value) {
+  const currency = typeof value === 'string' ? value.trim().toUpperCase() : '';
+  if (!SUPPORTED_CURRENCIES.includes(currency)) {
+    throw badRequest(`Currency must be one of: ${SUPPORTED_CURRENCIES.join(', ')}`);
+  }
+  return currency;
+}
+
+export function currencyDecimals(currency = DEFAULT_CURRENCY) {
+  return ZERO_DECIMAL_CURRENCIES.includes(String(currency).toUpperCase()) ? 0 : 2;
+}
+
+/**
+ * An amount in the smallest unit Stripe charges in (cents for USD, yen for
+ * JPY).
+ */
+export function toMinorUnits(amount, currency = DEFAULT_CURRENCY) {
+  return Math.round(Number(amount) * 10 ** currencyDecimals(currency));
+}
+
+export function fromMinorUnits(minor, currency = DEFAULT_CURRENCY) {
+  if (typeof minor !== 'number') return null;
+  return minor / 10 ** currencyDecimals(currency);
+}
+
+/**
+ * "$1,234.50", "€1.234,50" or "¥1,235" for emails and PDFs.
+ */
+export function formatCurrency(amount, currency = DEFAULT_CURRENCY, locale = 'en-US') {
+  return Number(amount).toLocaleString(locale, {
+    style: 'currency',
+    currency: currency || DEFAULT_CURRENCY
+  });
+}
+
+export default {
+  DEFAULT_CURRENCY,
+  SUPPORTED_CURRENCIES,
+  validateCurrency,
+  currencyDecimals,
+  toMinorUnits,
+  fromMinorUnits,
+  formatCurrency
+};
@@ -0,0 +1,32 @@
+// Tests for currencyService — validating codes, minor units and formatting.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  validateCurrency,
+  toMinorUnits,
+  fromMinorUnits,
+  formatCurrency
+} from './currencyService.js';
+
+test('validateCurrency: accepts supported codes in any case', () => {
+  assert.equal(validateCurrency(' eur '), 'EUR');
+  assert.throws(() => validateCurrency('BTC'), /Currency must be one of/);
+  assert.throws(() => validateCurrency(null), /Currency must be one of/);
+});
+
+test('toMinorUnits / fromMinorUnits: cents for most currencies, whole yen for JPY', () => {
+  assert.equal(toMinorUnits(12.345, 'USD'), 1235);
+  assert.equal(toMinorUnits(0.1 + 0.2, 'EUR'), 30);
+  assert.equal(toMinorUnits(1500, 'JPY'), 1500);
+  assert.equal(fromMinorUnits(1235, 'USD'), 12.35);
+  assert.equal(fromMinorUnits(1500, 'JPY'), 1500);
+  assert.equal(fromMinorUnits(undefined, 'USD'), null);
+});
+
+test('formatCurrency: symbol and grouping follow the currency and locale', () => {
+  assert.equal(formatCurrency(1234.5, 'USD'), '$1,234.50');
+  assert.equal(formatCurrency(1234.5, 'EUR'), '€1,234.50');
+  assert.equal(formatCurrency(1234.5, 'JPY'), '¥1,235');
+  assert.equal(formatCurrency(1234.5, 'CAD'), 'CA$1,234.50');
+});
@@ -0,0 +1,306 @@
+/**
+ * Dispatch board.
+ *
+ * The board shows active technicians as rows with the work booked on them
+ * over a day or a week, and the queue of unassigned open requests beside
+ * it. Dropping a request on a technician's timeline assigns it and sets
+ * its scheduled time in one step; dropping it back on the queue undoes
+ * both.
+ *
+ * A booking starts at scheduled_datetime, or requested_datetime while the
+ * request has not been scheduled, the same rule the employee calendar uses.
+ * Availability also follows the calendar: only a technician whose working
+ * status is 'available' can be booked. A booking may not overlap another
+ * open booking of the same technician.
+ */
+
+export const UNAVAILABLE_WORKING_STATUSES = ['inactive', 'on_vacation', 'out_sick', 'on_other_leave'];
+export const DEFAULT_DURATION_MINUTES = 60;
+export const MIN_DURATION_MINUTES = 15;
+export const MAX_DURATION_MINUTES = 24 * 60;
+const MAX_BOARD_DAYS = 14;
+const QUEUE_LIMIT = 200;
+
+const BOOKING_START = 'COALESCE(sr.scheduled_datetime, sr.requested_datetime)';
+const BOOKING_MINUTES = `CASE WHEN sr.scheduled_datetime IS NOT NULL
+  THEN COALESCE(sr.scheduled_duration_minutes, ${DEFAULT_DURATION_MINUTES})
+  ELSE COALESCE(sr.requested_duration_minutes, ${DEFAULT_DURATION_MINUTES}) END`;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function notFound(message) {
+  const error = new Error(message);
+  error.statusCode = 404;
+  return error;
+}
+
+function conflict(message) {
+  const error = new Error(message);
+  error.statusCode = 409;
+  return error;
+}
+
+/**
+ * 'available' or 'unavailable' from an employee's working status, as on the
+ * employee calendar: no status or a leave status is unavailable.
+ */
+export function technicianAvailability(workingStatus) {
+  const status = typeof workingStatus === 'string' ? workingStatus.toLowerCase() : null;
+  if (!status || UNAVAILABLE_WORKING_STATUSES.includes(status)) return 'unavailable';
+  return status === 'available' ? 'available' : 'unavailable';
+}
+
+/**
+ * Validate the board range: `from` and `to` timestamps, the dispatcher's
+ * local midnights, at most two weeks apart.
+ */
+export function validateBoardRange({ from, to } = {}) {
+  const start = typeof from === 'string' ? new Date(from) : null;
+  const end = typeof to === 'string' ? new Date(to) : null;
+  if (!start || !end || Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    throw badRequest('From and to must be valid dates');
+  }
+  if (end <= start || end - start > MAX_BOARD_DAYS * 24 * 60 * 60 * 1000) {
+    throw badRequest(`To must be after from and at most ${MAX_BOARD_DAYS} days later`);
+  }
+  return { from: start.toISOString(), to: end.toISOString() };
+}
+
+/**
+ * Validate a drop on a technician's timeline. Without `durationMinutes` the
+ * request keeps its own duration.
+ */
+export function validateDispatchInput(input = {}) {
+  const technicianId = typeof input.technicianId === 'string' && input.technicianId ? input.technicianId : null;
+  if (!technicianId) throw badRequest('Technician is required');
+
+  const scheduled = typeof input.scheduledDatetime === 'string' ? new Date(input.scheduledDatetime) : null;
+  if (!scheduled || Number.isNaN(scheduled.getTime())) {
+    throw badRequest('Scheduled time is not a valid date');
+  }
+
+  let durationMinutes = null;
+  if (input.durationMinutes !== undefined && input.durationMinutes !== null && input.durationMinutes !== '') {
+    durationMinutes = Number(input.durationMinutes);
+    if (!Number.isInteger(durationMinutes) || durationMinutes < MIN_DURATION_MINUTES || durationMinutes > MAX_DURATION_MINUTES) {
+      throw badRequest(`Duration must be a whole number of minutes from ${MIN_DURATION_MINUTES} to ${MAX_DURATION_MINUTES}`);
+    }
+  }
+
+  return { technicianId, scheduledDatetime: scheduled.toISOString(), durationMinutes };
+}
+
+/**
+ * Technicians with their availability and bookings in the range, and the
+ * queue of unassigned open requests, oldest requested first.
+ */
+export async function getDispatchBoard(db, { from, to }) {
+  const [technicians, bookings, queue] = await Promise.all([
+    db.query(
+      `SELECT e.id, CONCAT(e.first_name, ' ', e.last_name) AS name,
+              ews.status_name AS working_status, ews.display_name AS working_status_display
+         FROM employees e
+         LEFT JOIN employee_working_statuses ews ON ews.id = e.working_status_id
+        WHERE e.is_active = true
+        ORDER BY e.first_name, e.last_name`
+    ),
+    db.query(
+      `SELECT sr.id, sr.request_number, sr.title, sr.assigned_to_employee_id AS technician_id,
+              ${BOOKING_START} AS start_datetime, ${BOOKING_MINUTES} AS duration_minutes,
+              sr.scheduled_datetime IS NOT NULL AS is_scheduled,
+              COALESCE(srs.name, 'Unknown') AS status,
+              COALESCE(srs.is_final_status, false) AS is_final_status,
+              b.business_name, sl.address_label AS location_name
+         FROM service_requests sr
+         LEFT JOIN service_request_statuses srs ON srs.id = sr.status_id
+         LEFT JOIN businesses b ON b.id = sr.business_id
+         LEFT JOIN service_locations sl ON sl.id = sr.service_location_id
+        WHERE sr.soft_delete = false
+          AND sr.assigned_to_employee_id IS NOT NULL
+          AND ${BOOKING_START} >= $1 AND ${BOOKING_START} < $2
+        ORDER BY start_datetime`,
+      [from, to]
+    ),
+    db.query(
+      `SELECT sr.id, sr.request_number, sr.title, sr.requested_datetime,
+              COALESCE(sr.requested_duration_minutes, ${DEFAULT_DURATION_MINUTES}) AS duration_minutes,
+              COALESCE(srs.name, 'Unknown') AS status,
+              ul.name AS urgency, ul.color_code AS urgency_color,
+              st.name AS service_type, b.business_name, sl.address_label AS location_name
+         FROM service_requests sr
+         LEFT JOIN service_request_statuses srs ON srs.id = sr.status_id
+         LEFT JOIN urgency_levels ul ON ul.id = sr.urgency_level_id
+         LEFT JOIN service_types st ON st.id = sr.service_type_id
+         LEFT JOIN businesses b ON b.id = sr.business_id
+         LEFT JOIN service_locations sl ON sl.id = sr.service_location_id
+        WHERE sr.soft_delete = false
+          AND sr.assigned_to_employee_id IS NULL
+          AND COALESCE(srs.is_final_status, false) = false
+        ORDER BY sr.requested_datetime NULLS LAST, sr.created_at
+        LIMIT ${QUEUE_LIMIT}`
+    )
+  ]);
+
+  return {
+    range: { from, to },
+    technicians: technicians.rows.map(technician => ({
+      ...technician,
+      availability: technicianAvailability(technician.working_status),
+      bookings: bookings.rows
+        .filter(booking => booking.technician_id === technician.id)
+        .map(({ technician_id, ...booking }) => booking)
+    })),
+    queue: queue.rows
+  };
+}
+
+/**
+ * Assign a request to a technician and schedule it. Refuses an unavailable
+ * technician and a time overlapping another open booking of theirs. Run
+ * inside a transaction. Returns the request and the previous technician.
+ */
+export async function dispatchRequest(db, serviceRequestId, input, assignedByUserId) {
+  const current = await db.query(
+    `SELECT sr.id, sr.request_number, sr.assigned_to_employee_id,
+            sr.scheduled_duration_minutes, sr.requested_duration_minutes,
+            COALESCE(srs.is_final_status, false) AS is_final_status
+       FROM service_requests sr
+       LEFT JOIN service_request_statuses srs ON srs.id = sr.status_id
+      WHERE sr.id = $1 AND sr.soft_delete = false
+      FOR UPDATE OF sr`,
+    [serviceRequestId]
+  );
+  const request = current.rows[0];
+  if (!request) throw notFound('Service request not found');
+  if (request.is_final_status) throw badRequest(`${request.request_number} is closed and cannot be dispatched`);
+
+  // Lock the technician so two dispatches to them run one after the other;
+  // otherwise both could pass the overlap check before either is written
+  const technicianResult = await db.query(
+    `SELECT e.id, CONCAT(e.first_name, ' ', e.last_name) AS name,
+            ews.status_name AS working_status, ews.display_name AS working_status_display
+       FROM employees e
+       LEFT JOIN employee_working_statuses ews ON ews.id = e.working_status_id
+      WHERE e.id = $1 AND e.is_active = true
+      FOR UPDATE OF e`,
+    [input.technicianId]
+  );
+  const technician = technicianResult.rows[0];
+  if (!technician) throw notFound('Technician not found');
+  if (technicianAvailability(technician.working_status) !== 'available') {
+    throw conflict(`${technician.name} is not available (${technician.working_status_display || 'no working status'})`);
+  }
+
+  const durationMinutes = input.durationMinutes
+    ?? request.scheduled_duration_minutes
+    ?? request.requested_duration_minutes
+    ?? DEFAULT_DURATION_MINUTES;
+
+  const overlapping = await db.query(
+    `SELECT sr.request_number
+       FROM service_requests sr
+       LEFT JOIN service_request_statuses srs ON srs.id = sr.status_id
+      WHERE sr.assigned_to_employee_id = $1
+        AND sr.id <> $2
+        AND sr.soft_delete = false
+        AND COALESCE(srs.is_final_status, false) = false
+        AND ${BOOKING_START} < $3::timestamptz + make_interval(mins => $4::int)
+        AND ${BOOKING_START} + make_interval(mins => (${BOOKING_MINUTES})::int) > $3::timestamptz
+      ORDER BY ${BOOKING_START}
+      LIMIT 1`,
+    [technician.id, serviceRequestId, input.scheduledDatetime, durationMinutes]
+  );
+  if (overlapping.rows[0]) {
+    throw conflict(`${technician.name} is already booked on ${overlapping.rows[0].request_number} at that time`);
+  }
+
+  const updated = await db.query(
+    `UPDATE service_requests
+        SET assigned_to_employee_id = $2, scheduled_datetime = $3, scheduled_duration_minutes = $4,
+            updated_at = NOW()
+      WHERE id = $1
+      RETURNING id, request_number, assigned_to_employee_id, scheduled_datetime, scheduled_duration_minutes`,
+    [serviceRequestId, technician.id, input.scheduledDatetime, durationMinutes]
+  );
+
+  // Keep service_request_assignments in step, as the assign action does;
+  // the employee calendar reads bookings from there
+  await db.query(
+    `UPDATE service_request_assignments
+        SET is_active = false, unassigned_at = NOW(), unassigned_by_user_id = $3
+      WHERE service_request_id = $1 AND technician_id <> $2 AND is_active = true`,
+    [serviceRequestId, technician.id, assignedByUserId]
+  );
+  const reactivated = await db.query(
+    `UPDATE service_request_assignments
+        SET is_active = true, assigned_at = NOW(), assigned_by_user_id = $3,
+            unassigned_at = NULL, unassigned_by_user_id = NULL
+      WHERE service_request_id = $1 AND technician_id = $2 AND assignment_type = 'primary'
+      RETURNING id`,
+    [serviceRequestId, technician.id, assignedByUserId]
+  );
+  if (!reactivated.rows[0]) {
+    await db.query(
+      `INSERT INTO service_request_assignments (
+         service_request_id, technician_id, assigned_by_user_id, assignment_type, is_active, assigned_at
+       ) VALUES ($1, $2, $3, 'primary', true, NOW())`,
+      [serviceRequestId, technician.id, assignedByUserId]
+    );
+  }
+
+  return {
+    request: updated.rows[0],
+    technician: { id: technician.id, name: technician.name },
+    previousTechnicianId: request.assigned_to_employee_id
+  };
+}
+
+/**
+ * Put a request back in the queue: unassigned and unscheduled. Run inside
+ * a transaction. Returns the previous technician.
+ */
+export async function returnToQueue(db, serviceRequestId, unassignedByUserId) {
+  const current = await db.query(
+    `SELECT id, request_number, assigned_to_employee_id
+       FROM service_requests
+      WHERE id = $1 AND soft_delete = false
+      FOR UPDATE`,
+    [serviceRequestId]
+  );
+  const request = current.rows[0];
+  if (!request) throw notFound('Service request not found');
+  if (!request.assigned_to_employee_id) throw badRequest(`${request.request_number} is not assigned`);
+
+  await db.query(
+    `UPDATE service_requests
+        SET assigned_to_employee_id = NULL, scheduled_datetime = NULL, scheduled_duration_minutes = NULL,
+            updated_at = NOW()
+      WHERE id = $1`,
+    [serviceRequestId]
+  );
+  await db.query(
+    `UPDATE service_request_assignments
+        SET is_active = false, unassigned_at = NOW(), unassigned_by_user_id = $2
+      WHERE service_request_id = $1 AND is_active = true`,
+    [serviceRequestId, unassignedByUserId]
+  );
+
+  return { requestNumber: request.request_number, previousTechnicianId: request.assigned_to_employee_id };
+}
+
+export default {
+  UNAVAILABLE_WORKING_STATUSES,
+  DEFAULT_DURATION_MINUTES,
+  MIN_DURATION_MINUTES,
+  MAX_DURATION_MINUTES,
+  technicianAvailability,
+  validateBoardRange,
+  validateDispatchInput,
+  getDispatchBoard,
+  dispatchRequest,
+  returnToQueue
+};
@@ -0,0 +1,116 @@
+// Tests for dispatchService — availability from the working status, input
+// validation, the board grouping and the checks made before a drop is
+// booked, against a fake db.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  technicianAvailability,
+  validateBoardRange,
+  validateDispatchInput,
+  getDispatchBoard,
+  dispatchRequest,
+  returnToQueue
+} from './dispatchService.js';
+
+const DROP = { technicianId: 'e-1', scheduledDatetime: '2026-10-20T15:00:00.000Z', durationMinutes: null };
+
+function fakeDb(handlers) {
+  const calls = [];
+  return {
+    calls,
+    async query(sql, params = []) {
+      calls.push({ sql, params });
+      for (const [pattern, rows] of handlers) {
+        if (pattern.test(sql)) return { rows: typeof rows === 'function' ? rows(params) : rows };
+      }
+      return { rows: [] };
+    }
+  };
+}
+
+const openRequest = [/FOR UPDATE OF sr/, [{
+  id: 'sr-1', request_number: 'SR-2026-00001', assigned_to_employee_id: null,
+  scheduled_duration_minutes: null, requested_duration_minutes: 90, is_final_status: false
+}]];
+const availableTech = [/WHERE e\.id = \$1 AND e\.is_active/, [{ id: 'e-1', name: 'Ada Lovelace', working_status: 'available' }]];
+
+test('technicianAvailability: only an available working status can be booked', () => {
+  assert.equal(technicianAvailability('available'), 'available');
+  assert.equal(technicianAvailability('Available'), 'available');
+  assert.equal(technicianAvailability('on_vacation'), 'unavailable');
+  assert.equal(technicianAvailability('busy'), 'unavailable');
+  assert.equal(technicianAvailability(null), 'unavailable');
+});
+
+test('validateBoardRange / validateDispatchInput: reject bad values', () => {
+  assert.deepEqual(validateBoardRange({ from: '2026-10-19T07:00:00Z', to: '2026-10-26T07:00:00Z' }), {
+    from: '2026-10-19T07:00:00.000Z', to: '2026-10-26T07:00:00.000Z'
+  });
+  assert.throws(() => validateBoardRange({ from: 'monday', to: '2026-10-26' }), /valid dates/);
+  assert.throws(() => validateBoardRange({ from: '2026-10-19', to: '2026-11-19' }), /at most 14 days/);
+
+  assert.equal(validateDispatchInput({ ...DROP, durationMinutes: '120' }).durationMinutes, 120);
+  assert.throws(() => validateDispatchInput({ ...DROP, technicianId: '' }), /Technician is required/);
+  assert.throws(() => validateDispatchInput({ ...DROP, scheduledDatetime: 'soon' }), /not a valid date/);
+  assert.throws(() => validateDispatchInput({ ...DROP, durationMinutes: 5 }), /whole number of minutes/);
+});
+
+test('getDispatchBoard: groups bookings under their technician', async () => {
+  const db = fakeDb([
+    [/FROM employees e/, [
+      { id: 'e-1', name: 'Ada Lovelace', working_status: 'available' },
+      { id: 'e-2', name: 'Alan Turing', working_status: 'out_sick' }
+    ]],
+    [/assigned_to_employee_id IS NOT NULL/, [{ id: 'sr-2', technician_id: 'e-1', start_datetime: '2026-10-20T09:00:00Z' }]],
+    [/assigned_to_employee_id IS NULL/, [{ id: 'sr-3', request_number: 'SR-2026-00003' }]]
+  ]);
+  const board = await getDispatchBoard(db, { from: '2026-10-20T00:00:00Z', to: '2026-10-21T00:00:00Z' });
+  assert.equal(board.technicians[0].availability, 'available');
+  assert.deepEqual(board.technicians[0].bookings, [{ id: 'sr-2', start_datetime: '2026-10-20T09:00:00Z' }]);
+  assert.equal(board.technicians[1].availability, 'unavailable');
+  assert.equal(board.technicians[1].bookings.length, 0);
+  assert.equal(board.queue.length, 1);
+});
+
+test('dispatchRequest: assigns and schedules with the request duration', async () => {
+  const db = fakeDb([
+    openRequest,
+    availableTech,
+    [/UPDATE service_requests/, params => [{ id: params[0], request_number: 'SR-2026-00001', scheduled_duration_minutes: params[3] }]]
+  ]);
+  const result = await dispatchRequest(db, 'sr-1', DROP, 'u-9');
+  assert.equal(result.technician.name, 'Ada Lovelace');
+  assert.equal(result.request.scheduled_duration_minutes, 90);
+  const overlap = db.calls.findIndex(call => /make_interval/.test(call.sql));
+  assert.deepEqual(db.calls[overlap].params, ['e-1', 'sr-1', DROP.scheduledDatetime, 90]);
+  const technicianLock = db.calls.findIndex(call => /FROM employees e[\s\S]*FOR UPDATE OF e/.test(call.sql));
+  assert.ok(technicianLock >= 0 && technicianLock < overlap);
+  assert.ok(db.calls.some(call => /technician_id <> \$2 AND is_active = true/.test(call.sql)));
+  assert.ok(db.calls.some(call => /INSERT INTO service_request_assignments/.test(call.sql)));
+});
+
+test('dispatchRequest: refuses unavailable technicians, double booking and closed requests', async () => {
+  const away = fakeDb([openRequest, [/WHERE e\.id = \$1 AND e\.is_active/, [
+    { id: 'e-1', name: 'Ada Lovelace', working_status: 'on_vacation', working_status_display: 'On Vacation' }
+  ]]]);
+  await assert.rejects(dispatchRequest(away, 'sr-1', DROP, 'u-9'), { statusCode: 409, message: /not available \(On Vacation\)/ });
+
+  const booked = fakeDb([openRequest, availableTech, [/make_interval/, [{ request_number: 'SR-2026-00007' }]]]);
+  await assert.rejects(dispatchRequest(booked, 'sr-1', DROP, 'u-9'), { statusCode: 409, message: /already booked on SR-2026-00007/ });
+  assert.equal(booked.calls.some(call => /UPDATE service_requests/.test(call.sql)), false);
+
+  const closed = fakeDb([[/FOR UPDATE OF sr/, [{ id: 'sr-1', request_number: 'SR-2026-00001', is_final_status: true }]]]);
+  await assert.rejects(dispatchRequest(closed, 'sr-1', DROP, 'u-9'), { statusCode: 400 });
+  await assert.rejects(dispatchRequest(fakeDb([]), 'sr-1', DROP, 'u-9'), { statusCode: 404 });
+});
+
+test('returnToQueue: unassigns, unschedules and closes the assignment', async () => {
+  const db = fakeDb([[/FOR UPDATE/, [{ id: 'sr-1', request_number: 'SR-2026-00001', assigned_to_employee_id: 'e-1' }]]]);
+  assert.deepEqual(await returnToQueue(db, 'sr-1', 'u-9'), { requestNumber: 'SR-2026-00001', previousTechnicianId: 'e-1' });
+  assert.ok(db.calls.some(call => /scheduled_datetime = NULL/.test(call.sql)));
+  assert.ok(db.calls.some(call => /SET is_active = false/.test(call.sql)));
+
+  const unassigned = fakeDb([[/FOR UPDATE/, [{ id: 'sr-1', request_number: 'SR-2026-00001', assigned_to_employee_id: null }]]]);
+  await assert.rejects(returnToQueue(unassigned, 'sr-1', 'u-9'), { statusCode: 400 });
+});
@@ -37,6 +37,13 @@ const formatAddressDisplay = (address) => {
   return `${line1}<br>${line2}${cityStateZip}`;
 };
 
+// Helper function to escape free text (e.g. a typed reply) for HTML emails
+const escapeHtml = (value) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
 // Create nodemailer transporter using AWS SES SMTP interface
 // This approach is compatible and doesn't require AWS SDK v2/v3
 console.log('📧 Email service initialization:', {
@@ -1992,6 +1999,122 @@ Email: info@romerotechsolutions.com
     }
   }
 
+  /**
+   * Send a "reply to client" note to the service request's contact
+   * The subject carries the request number and replies go to the inbound
+   * email gateway (INBOUND_EMAIL_ADDRESS) when set, so the client's answer
+   * lands back on the request; otherwise they go to the employee.
+   * @param {Object} params - Reply parameters
+   * @param {Object} params.serviceRequest - Service request details
+   * @param {Object} params.note - The reply note
+   * @param {Object} params.employee - Employee who wrote the reply
+   * @param {Object} params.client - Request contact
+   * @returns {Promise<Object>} Email sending result
+   */
+  async sendClientReplyEmail({ serviceRequest, note, employee, client }) {
+    try {
+      console.log('📧 Sending client reply email...');
+
+      const subject = `[${serviceRequest.requestNumber}] ${serviceRequest.title}`;
+      const replyTo = process.env.INBOUND_EMAIL_ADDRESS
+        ? `"${process.env.SES_FROM_NAME}" <${process.env.INBOUND_EMAIL_ADDRESS}>`
+        : employee.email ? `"${employee.name}" <${employee.email}>` : undefined;
+
+      const html = `
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <title>${escapeHtml(subject)}</title>
+            <style>
+              body { font-family: Arial, sans-serif; color: #333; line-height: 1.6; margin: 0; padding: 0; }
+              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+              .header { text-align: center; margin-bottom: 30px; background: linear-gradient(135deg, #1e293b, #3b82f6); color: white; padding: 30px 20px; border-radius: 8px; }
+              .logo { font-size: 24px; font-weight: bold; margin-bottom: 5px; }
+              .tagline { font-size: 14px; opacity: 0.9; }
+              .content { background: #f8fafc; border-radius: 8px; padding: 25px; margin-bottom: 20px; }
+              .reply-text { color: #1e293b; white-space: pre-wrap; margin: 20px 0; }
+              .signature { color: #475569; margin-top: 20px; }
+              .meta { color: #64748b; font-size: 14px; border-top: 1px solid #e2e8f0; padding-top: 15px; margin-top: 20px; }
+              .footer { text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e2e8f0; color: #64748b; font-size: 12px; }
+            </style>
+          </head>
+          <body>
+            <div class="container">
+              <div class="header">
+                <div style="text-align: center; margin-bottom: 10px;">
+                  <img src="https://romerotechsolutions.com/D629A5B3-F368-455F-9D3E-4EBDC4222F46.png" alt="Romero Tech Solutions Logo" style="max-width: 150px; height: auto; margin-bottom: 10px;" />
+                </div>
+                <div class="logo">Romero Tech Solutions</div>
+                <div class="tagline">${escapeHtml(serviceRequest.requestNumber)}</div>
+              </div>
+
+              <div class="content">
+                <p style="color: #475569;">Hi ${escapeHtml(client.firstName || '')},</p>
+
+                <div class="reply-text">${escapeHtml(note.noteText)}</div>
+
+                <div class="signature">
+                  <strong>${escapeHtml(employee.name)}</strong><br>
+                  Romero Tech Solutions
+                  ${employee.phone ? `<br>📱 <a href="tel:${escapeHtml(employee.phone)}" style="color: #0ea5e9;">${formatPhone(employee.phone)}</a>` : ''}
+                </div>
+
+                <p class="meta">
+                  <strong>Service Request:</strong> ${escapeHtml(serviceRequest.requestNumber)}: ${escapeHtml(serviceRequest.title)}<br>
+                  <strong>Status:</strong> ${escapeHtml(serviceRequest.status)}<br>
+                  Reply to this email to answer; keep the request number in the subject.
+                </p>
+              </div>
+
+              <div class="footer">
+                <p>📞 (734) 255-7060 | ✉️ info@romerotechsolutions.com</p>
+                <p style="margin-top: 15px;">© 2025 Romero Tech Solutions. All rights reserved.</p>
+              </div>
+            </div>
+          </body>
+        </html>
+      `;
+
+      const text = `
+Hi ${client.firstName || ''},
+
+${note.noteText}
+
+${employee.name}
+Romero Tech Solutions
+${employee.phone ? `Phone: ${formatPhone(employee.phone)}` : ''}
+
+Service Request: ${serviceRequest.requestNumber}: ${serviceRequest.title}
+Status: ${serviceRequest.status}
+Reply to this email to answer; keep the request number in the subject.
+
+© 2025 Romero Tech Solutions. All rights reserved.
+      `;
+
+      const result = await transporter.sendMail({
+        from: `"${process.env.SES_FROM_NAME}" <${process.env.SES_FROM_EMAIL}>`,
+        to: client.email,
+        replyTo,
+        subject,
+        text,
+        html
+      });
+
+      console.log(`✅ Client reply sent to: ${client.email}`);
+
+      return {
+        success: true,
+        messageId: result.messageId
+      };
+
+    } catch (error) {
+      console.error('❌ Error sending client reply email:', error);
+      throw error;
+    }
+  }
+
   /**
    * Send late cancellation notification to executives and admins
    * @param {Object} params - Notification parameters
@@ -2436,6 +2559,7 @@ export const sendServiceRequestConfirmationToClient = (params) => emailService.s
 export const sendServiceRequestCreationNotification = (params) => emailService.sendServiceRequestCreationNotification(params);
 export const sendNoteAdditionNotification = (params) => emailService.sendNoteAdditionNotification(params);
 export const sendEmployeeNoteNotificationToClient = (params) => emailService.sendEmployeeNoteNotificationToClient(params);
+export const sendClientReplyEmail = (params) => emailService.sendClientReplyEmail(params);
 export const sendLateCancellationNotification = (params) => emailService.sendLateCancellationNotification(params);
 export const sendPasswordResetEmail = (toEmail, userName, resetCode, userType, isAccountLocked) => emailService.sendPasswordResetEmail(toEmail, userName, resetCode, userType, isAccountLocked);
 export const sendServiceRequestRatingEmail = (params) => emailService.sendServiceRequestRatingEmail(params);
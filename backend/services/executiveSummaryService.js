@@ -0,0 +1,390 @@
+/**
+ * Monthly executive summary per business -- "what did you do for us this
+ * month?" in one document.
+ *
+ * Sections (all scoped to one business and one calendar month in the
+ * business timezone):
+ *   - service requests opened / closed (with the closed list)
+ *   - hours billed by rate tier (from invoices issued in the month), plus
+ *     labour lines on invoices that carry no per-tier hours (quotes,
+ *     manual invoices) as "other"
+ *   - invoices issued, paid in the month, and currently outstanding, in the
+ *     business's currency; invoices in any other currency are only counted
+ *     (otherCurrencyCount) so amounts in different currencies are never added
+ *   - agent uptime, estimated as the share of hours in the month in which
+ *     each device reported at least one metric sample (there is no status
+ *     history table; agent_metrics is the only per-hour record we keep)
+ *   - alerts raised / resolved
+ *   - patches installed / failed
+ *   - disk forecasts from the nightly trends job (agent_disk_forecasts)
+ *
+ * The same summary object backs the client dashboard tab, the admin view on
+ * the business row, and the PDF download.
+ */
+import PDFDocument from 'pdfkit';
+import { query } from '../config/database.js';
+import { timezoneService } from '../utils/timezoneUtils.js';
+import { forecastSeverity } from './diskForecastService.js';
+import { DEFAULT_CURRENCY, formatCurrency } from './currencyService.js';
+
+// How many closed service requests to list individually
+export const MAX_LISTED_REQUESTS = 50;
+
+const HOUR_MS = 3600000;
+
+/**
+ * Resolve a YYYY-MM month string (default: the previous full month) to
+ * local calendar boundaries. `end` is exclusive.
+ *
+ * @returns {{month: string, startDate: string, endDate: string}|null} null for malformed input
+ */
+export function resolveSummaryPeriod(month, now = new Date()) {
+  let year;
+  let monthIndex;
+  if (month) {
+    const match = /^(\d{4})-(0[1-9]|1[0-2])$/.exec(String(month));
+    if (!match) return null;
+    year = Number(match[1]);
+    monthIndex = Number(match[2]) - 1;
+  } else {
+    year = now.getUTCFullYear();
+    monthIndex = now.getUTCMonth() - 1;
+    if (monthIndex < 0) {
+      monthIndex = 11;
+      year -= 1;
+    }
+  }
+  const pad = (n) => String(n).padStart(2, '0');
+  const nextYear = monthIndex === 11 ? year + 1 : year;
+  const nextMonth = monthIndex === 11 ? 1 : monthIndex + 2;
+  return {
+    month: `${year}-${pad(monthIndex + 1)}`,
+    startDate: `${year}-${pad(monthIndex + 1)}-01`,
+    endDate: `${nextYear}-${pad(nextMonth)}-01`
+  };
+}
+
+/**
+ * Uptime percentage for one device: reporting hours over the hours the
+ * device could have reported (from enrolment, and not past `now`).
+ *
+ * @returns {number|null} null when the device did not exist in the window
+ */
+export function computeUptimePercent(reportingHours, from, to, enrolledAt = null, now = new Date()) {
+  const start = Math.max(from.getTime(), enrolledAt ? new Date(enrolledAt).getTime() : 0);
+  const end = Math.min(to.getTime(), now.getTime());
+  const possibleHours = Math.ceil((end - start) / HOUR_MS);
+  if (possibleHours <= 0) return null;
+  return Math.min(100, Math.round((Number(reportingHours) / possibleHours) * 1000) / 10);
+}
+
+function toNumber(value) {
+  return value === null || value === undefined ? 0 : Number(value);
+}
+
+/**
+ * Build the executive summary for a business and month.
+ *
+ * @param {string} businessId
+ * @param {string} [month] YYYY-MM; defaults to the previous month
+ * @returns {Promise<object|null>} null when the business does not exist
+ */
+export async function buildExecutiveSummary(businessId, month) {
+  const period = resolveSummaryPeriod(month);
+  if (!period) {
+    const err = new Error('Month must be in YYYY-MM format');
+    err.statusCode = 400;
+    throw err;
+  }
+
+  await timezoneService.init();
+  const from = timezoneService.businessTimeToUTC(period.startDate, '00:00:00');
+  const to = timezoneService.businessTimeToUTC(period.endDate, '00:00:00');
+  const range = [businessId, from, to];
+
+  const businessResult = await query(
+    'SELECT id, business_name, currency FROM businesses WHERE id = $1',
+    [businessId]
+  );
+  if (businessResult.rows.length === 0) return null;
+  const currency = (businessResult.rows[0].currency || DEFAULT_CURRENCY).trim();
+  const moneyRange = [...range, currency];
+
+  const [
+    requestCounts,
+    closedRequests,
+    hours,
+    invoicesIssued,
+    invoicesPaid,
+    invoicesOutstanding,
+    otherCurrencyInvoices,
+    devices,
+    alerts,
+    patches,
+    forecasts
+  ] = await Promise.all([
+    query(
+      `SELECT
+         COUNT(*) FILTER (WHERE sr.created_at >= $2 AND sr.created_at < $3)::int AS opened,
+         COUNT(*) FILTER (WHERE sr.closed_at >= $2 AND sr.closed_at < $3)::int AS closed
+       FROM service_requests sr
+       WHERE sr.business_id = $1 AND COALESCE(sr.soft_delete, false) = false`,
+      range
+    ),
+    query(
+      `SELECT sr.request_number, sr.title, sr.closed_at, st.name AS service_type,
+              ROUND(COALESCE(sr.total_work_duration_minutes, 0) / 60.0, 2) AS hours
+         FROM service_requests sr
+         LEFT JOIN service_types st ON sr.service_type_id = st.id
+        WHERE sr.business_id = $1 AND sr.closed_at >= $2 AND sr.closed_at < $3
+          AND COALESCE(sr.soft_delete, false) = false
+        ORDER BY sr.closed_at
+        LIMIT ${MAX_LISTED_REQUESTS}`,
+      range
+    ),
+    query(
+      `SELECT
+         COALESCE(SUM(standard_hours), 0) AS standard_hours,
+         COALESCE(SUM(premium_hours), 0) AS premium_hours,
+         COALESCE(SUM(emergency_hours), 0) AS emergency_hours,
+         COALESCE(SUM(waived_hours), 0) AS waived_hours,
+         (SELECT COALESCE(SUM(li.quantity), 0)
+            FROM invoice_line_items li
+            JOIN invoices i ON li.invoice_id = i.id
+           WHERE i.business_id = $1 AND i.invoice_status = 'issued' AND i.issue_date >= $2 AND i.issue_date < $3
+             AND i.invoice_type <> 'credit_note' AND li.item_type = 'labor'
+             AND COALESCE(i.standard_hours, 0) + COALESCE(i.premium_hours, 0) + COALESCE(i.emergency_hours, 0) = 0
+         ) AS other_hours
+       FROM invoices
+       WHERE business_id = $1 AND invoice_status = 'issued' AND issue_date >= $2 AND issue_date < $3`,
+      range
+    ),
+    query(
+      `SELECT COUNT(*)::int AS count, COALESCE(SUM(total_amount), 0) AS total
+         FROM invoices
+        WHERE business_id = $1 AND invoice_status = 'issued' AND issue_date >= $2 AND issue_date < $3
+          AND currency = $4`,
+      moneyRange
+    ),
+    query(
+      `SELECT COUNT(*)::int AS count, COALESCE(SUM(total_amount), 0) AS total
+         FROM invoices
+        WHERE business_id = $1 AND invoice_status = 'issued' AND payment_status = 'paid'
+          AND payment_date >= $2 AND payment_date < $3 AND currency = $4`,
+      moneyRange
+    ),
+    query(
+      `SELECT COUNT(*)::int AS count, COALESCE(SUM(total_amount), 0) AS total,
+              COALESCE(SUM(total_amount) FILTER (WHERE payment_status = 'overdue' OR due_date < NOW()), 0) AS overdue_total
+         FROM invoices
+        WHERE business_id = $1 AND invoice_status = 'issued'
+          AND payment_status IN ('due', 'pending', 'failed', 'overdue') AND currency = $2`,
+      [businessId, currency]
+    ),
+    query(
+      `SELECT COUNT(*)::int AS count
+         FROM invoices
+        WHERE business_id = $1 AND invoice_status = 'issued' AND currency <> $4
+          AND ((issue_date >= $2 AND issue_date < $3)
+               OR (payment_status = 'paid' AND payment_date >= $2 AND payment_date < $3)
+               OR payment_status IN ('due', 'pending', 'failed', 'overdue'))`,
+      moneyRange
+    ),
+    query(
+      `SELECT ad.id, ad.device_name, ad.created_at,
+              (SELECT COUNT(DISTINCT date_trunc('hour', am.collected_at))
+                 FROM agent_metrics am
+                WHERE am.agent_device_id = ad.id
+                  AND am.collected_at >= $2 AND am.collected_at < $3) AS reporting_hours
+         FROM agent_devices ad
+        WHERE ad.business_id = $1 AND ad.soft_delete = false AND ad.created_at < $3
+        ORDER BY ad.device_name`,
+      range
+    ),
+    query(
+      `SELECT
+         COUNT(*) FILTER (WHERE ah.triggered_at >= $2 AND ah.triggered_at < $3)::int AS raised,
+         COUNT(*) FILTER (WHERE ah.resolved_at >= $2 AND ah.resolved_at < $3)::int AS resolved,
+         COUNT(*) FILTER (WHERE ah.triggered_at >= $2 AND ah.triggered_at < $3 AND ah.severity = 'critical')::int AS critical
+       FROM alert_history ah
+       JOIN agent_devices ad ON ah.agent_id = ad.id
+       WHERE ad.business_id = $1`,
+      range
+    ),
+    query(
+      `SELECT
+         COUNT(*) FILTER (WHERE pd.status IN ('installed', 'complete', 'reboot_pending'))::int AS installed,
+         COUNT(*) FILTER (WHERE pd.status = 'failed')::int AS failed,
+         COUNT(*) FILTER (WHERE pd.status IN ('installed', 'complete', 'reboot_pending') AND pa.is_security_patch)::int AS security
+       FROM patch_deployments pd
+       JOIN patch_approvals pa ON pd.patch_approval_id = pa.id
+       WHERE pd.business_id = $1 AND pd.completed_at >= $2 AND pd.completed_at < $3`,
+      range
+    ),
+    query(
+      `SELECT ad.device_name, f.current_percent, f.growth_gb_per_day, f.days_until_full, f.forecast_full_at
+         FROM agent_disk_forecasts f
+         JOIN agent_devices ad ON f.agent_device_id = ad.id
+        WHERE ad.business_id = $1 AND ad.soft_delete = false
+        ORDER BY f.days_until_full ASC NULLS LAST, ad.device_name`,
+      [businessId]
+    )
+  ]);
+
+  const now = new Date();
+  const deviceUptime = devices.rows.map(d => ({
+    device_name: d.device_name,
+    uptime_percent: computeUptimePercent(d.reporting_hours, from, to, d.created_at, now)
+  }));
+  const measured = deviceUptime.filter(d => d.uptime_percent !== null);
+  const hourRow = hours.rows[0];
+  const standard = toNumber(hourRow.standard_hours);
+  const premium = toNumber(hourRow.premium_hours);
+  const emergency = toNumber(hourRow.emergency_hours);
+  const other = toNumber(hourRow.other_hours);
+
+  return {
+    business: { id: businessResult.rows[0].id, name: businessResult.rows[0].business_name },
+    period: { month: period.month, from: from.toISOString(), to: to.toISOString(), timezone: timezoneService.businessTimezone },
+    generatedAt: now.toISOString(),
+    serviceRequests: {
+      opened: requestCounts.rows[0].opened,
+      closed: requestCounts.rows[0].closed,
+      closedList: closedRequests.rows
+    },
+    hours: {
+      standard,
+      premium,
+      emergency,
+      other,
+      waived: toNumber(hourRow.waived_hours),
+      total: standard + premium + emergency + other
+    },
+    invoices: {
+      currency,
+      otherCurrencyCount: otherCurrencyInvoices.rows[0].count,
+      issuedCount: invoicesIssued.rows[0].count,
+      issuedTotal: toNumber(invoicesIssued.rows[0].total),
+      paidCount: invoicesPaid.rows[0].count,
+      paidTotal: toNumber(invoicesPaid.rows[0].total),
+      outstandingCount: invoicesOutstanding.rows[0].count,
+      outstandingTotal: toNumber(invoicesOutstanding.rows[0].total),
+      overdueTotal: toNumber(invoicesOutstanding.rows[0].overdue_total)
+    },
+    agents: {
+      deviceCount: devices.rows.length,
+      averageUptimePercent: measured.length
+        ? Math.round((measured.reduce((sum, d) => sum + d.uptime_percent, 0) / measured.length) * 10) / 10
+        : null,
+      devices: deviceUptime
+    },
+    alerts: alerts.rows[0],
+    patches: patches.rows[0],
+    diskForecasts: forecasts.rows.map(f => ({
+      device_name: f.device_name,
+      current_percent: f.current_percent === null ? null : Number(f.current_percent),
+      growth_gb_per_day: f.growth_gb_per_day === null ? null : Number(f.growth_gb_per_day),
+      days_until_full: f.days_until_full === null ? null : Number(f.days_until_full),
+      forecast_full_at: f.forecast_full_at,
+      severity: forecastSeverity(f.days_until_full)
+    }))
+  };
+}
+
+/**
+ * Render a summary (as returned by buildExecutiveSummary) to PDF.
+ *
+ * @returns {Promise<Buffer>}
+ */
+export function renderExecutiveSummaryPdf(summary) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'LETTER', margin: 50 });
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const monthLabel = new Date(`${summary.period.month}-15T00:00:00Z`)
+      .toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+    const heading = (text) => {
+      doc.moveDown(0.8).fontSize(13).font('Helvetica-Bold').fillColor('#1e3a8a').text(text);
+      doc.moveDown(0.2).fontSize(10).font('Helvetica').fillColor('#000000');
+    };
+    const line = (label, value) => {
+      doc.font('Helvetica').text(`${label}: `, { continued: true }).font('Helvetica-Bold').text(String(value));
+    };
+
+    doc.fontSize(18).font('Helvetica-Bold').text('Romero Tech Solutions');
+    doc.fontSize(14).font('Helvetica').text(`Executive Summary — ${summary.business.name}`);
+    doc.fontSize(10).fillColor('#555555').text(`${monthLabel} (${summary.period.timezone})`);
+    doc.fillColor('#000000');
+
+    heading('Service requests');
+    line('Opened', summary.serviceRequests.opened);
+    line('Closed', summary.serviceRequests.closed);
+    summary.serviceRequests.closedList.forEach(sr => {
+      doc.fontSize(9).font('Helvetica')
+        .text(`• ${sr.request_number} — ${sr.title}${sr.service_type ? ` (${sr.service_type})` : ''}, ${Number(sr.hours)} h`, { indent: 10 });
+    });
+    doc.fontSize(10);
+
+    heading('Hours billed by rate tier');
+    line('Standard', summary.hours.standard);
+    line('Premium', summary.hours.premium);
+    line('Emergency', summary.hours.emergency);
+    if (summary.hours.other > 0) line('Other labour', summary.hours.other);
+    if (summary.hours.waived > 0) line('Waived', summary.hours.waived);
+    line('Total billable', summary.hours.total);
+
+    heading('Invoices');
+    const formatMoney = amount => formatCurrency(amount, summary.invoices.currency);
+    line('Issued this month', `${summary.invoices.issuedCount} (${formatMoney(summary.invoices.issuedTotal)})`);
+    line('Paid this month', `${summary.invoices.paidCount} (${formatMoney(summary.invoices.paidTotal)})`);
+    line('Outstanding', `${summary.invoices.outstandingCount} (${formatMoney(summary.invoices.outstandingTotal)})`);
+    if (summary.invoices.overdueTotal > 0) line('Of which overdue', formatMoney(summary.invoices.overdueTotal));
+    if (summary.invoices.otherCurrencyCount > 0) {
+      doc.fontSize(9).fillColor('#555555')
+        .text(`Amounts are in ${summary.invoices.currency}; ${summary.invoices.otherCurrencyCount} invoice(s) in other currencies are not included.`);
+      doc.fillColor('#000000').fontSize(10);
+    }
+
+    heading('Monitored devices');
+    line('Devices', summary.agents.deviceCount);
+    line('Average uptime', summary.agents.averageUptimePercent === null ? 'n/a' : `${summary.agents.averageUptimePercent}%`);
+    summary.agents.devices.forEach(d => {
+      doc.fontSize(9).text(`• ${d.device_name}: ${d.uptime_percent === null ? 'n/a' : `${d.uptime_percent}%`}`, { indent: 10 });
+    });
+    doc.fontSize(10);
+
+    heading('Alerts and patching');
+    line('Alerts raised', `${summary.alerts.raised} (${summary.alerts.critical} critical)`);
+    line('Alerts resolved', summary.alerts.resolved);
+    line('Patches installed', `${summary.patches.installed} (${summary.patches.security} security)`);
+    if (summary.patches.failed > 0) line('Patch installs failed', summary.patches.failed);
+
+    heading('Disk capacity forecast');
+    const atRisk = summary.diskForecasts.filter(f => f.days_until_full !== null);
+    if (atRisk.length === 0) {
+      doc.text('No monitored disks are projected to fill up.');
+    } else {
+      atRisk.forEach(f => {
+        doc.fontSize(9).fillColor(f.severity === 'critical' ? '#b91c1c' : f.severity === 'warning' ? '#b45309' : '#000000')
+          .text(`• ${f.device_name}: ${f.current_percent ?? '?'}% used, full in ~${Math.round(f.days_until_full)} days`, { indent: 10 });
+      });
+      doc.fillColor('#000000').fontSize(10);
+    }
+
+    doc.moveDown(2).fontSize(8).fillColor('#777777')
+      .text(`Generated ${new Date(summary.generatedAt).toUTCString()}. Uptime is the share of hours in which a device reported monitoring data.`);
+
+    doc.end();
+  });
+}
+
+export default {
+  resolveSummaryPeriod,
+  computeUptimePercent,
+  buildExecutiveSummary,
+  renderExecutiveSummaryPdf
+};
@@ -0,0 +1,74 @@
+// Tests for executiveSummaryService — period resolution, the uptime
+// estimate and the PDF renderer are pure and pinned here. The aggregate
+// queries in buildExecutiveSummary() need a real database.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  resolveSummaryPeriod,
+  computeUptimePercent,
+  renderExecutiveSummaryPdf,
+} from './executiveSummaryService.js';
+
+// ----- resolveSummaryPeriod -----
+
+test('resolveSummaryPeriod: explicit month gives first-of-month boundaries', () => {
+  assert.deepEqual(resolveSummaryPeriod('2026-09'), { month: '2026-09', startDate: '2026-09-01', endDate: '2026-10-01' });
+});
+
+test('resolveSummaryPeriod: December rolls the end into the next year', () => {
+  assert.deepEqual(resolveSummaryPeriod('2026-12'), { month: '2026-12', startDate: '2026-12-01', endDate: '2027-01-01' });
+});
+
+test('resolveSummaryPeriod: defaults to the previous month, across January', () => {
+  assert.equal(resolveSummaryPeriod(undefined, new Date('2026-10-18T00:00:00Z')).month, '2026-09');
+  assert.equal(resolveSummaryPeriod(undefined, new Date('2027-01-05T00:00:00Z')).month, '2026-12');
+});
+
+test('resolveSummaryPeriod: rejects malformed months', () => {
+  assert.equal(resolveSummaryPeriod('2026-13'), null);
+  assert.equal(resolveSummaryPeriod('Sept 2026'), null);
+});
+
+// ----- computeUptimePercent -----
+
+const FROM = new Date('2026-09-01T07:00:00Z');
+const TO = new Date('2026-10-01T07:00:00Z'); // 720 hours
+const LATER = new Date('2026-10-18T00:00:00Z');
+
+test('computeUptimePercent: reporting hours over hours in the month', () => {
+  assert.equal(computeUptimePercent(720, FROM, TO, null, LATER), 100);
+  assert.equal(computeUptimePercent(684, FROM, TO, null, LATER), 95);
+});
+
+test('computeUptimePercent: only counts hours since enrolment', () => {
+  const enrolled = new Date('2026-09-16T07:00:00Z'); // 360 hours before TO
+  assert.equal(computeUptimePercent(360, FROM, TO, enrolled, LATER), 100);
+});
+
+test('computeUptimePercent: the current month only counts hours elapsed so far', () => {
+  const now = new Date('2026-09-02T07:00:00Z'); // 24 hours in
+  assert.equal(computeUptimePercent(12, FROM, TO, null, now), 50);
+});
+
+test('computeUptimePercent: null for devices enrolled after the month', () => {
+  assert.equal(computeUptimePercent(0, FROM, TO, new Date('2026-10-05T00:00:00Z'), LATER), null);
+});
+
+// ----- renderExecutiveSummaryPdf -----
+
+test('renderExecutiveSummaryPdf: produces a PDF buffer', async () => {
+  const pdf = await renderExecutiveSummaryPdf({
+    business: { id: 'b-1', name: 'Acme Dental' },
+    period: { month: '2026-09', from: FROM.toISOString(), to: TO.toISOString(), timezone: 'America/Los_Angeles' },
+    generatedAt: LATER.toISOString(),
+    serviceRequests: { opened: 3, closed: 1, closedList: [{ request_number: 'SR-1', title: 'Printer', service_type: 'Hardware', hours: '1.50' }] },
+    hours: { standard: 1.5, premium: 0, emergency: 0, other: 2, waived: 1, total: 3.5 },
+    invoices: { currency: 'EUR', otherCurrencyCount: 1, issuedCount: 1, issuedTotal: 150, paidCount: 1, paidTotal: 150, outstandingCount: 0, outstandingTotal: 0, overdueTotal: 0 },
+    agents: { deviceCount: 1, averageUptimePercent: 99.5, devices: [{ device_name: 'FRONT-DESK', uptime_percent: 99.5 }] },
+    alerts: { raised: 2, resolved: 2, critical: 0 },
+    patches: { installed: 4, failed: 0, security: 2 },
+    diskForecasts: [{ device_name: 'FRONT-DESK', current_percent: 81, growth_gb_per_day: 0.5, days_until_full: 20, forecast_full_at: null, severity: 'warning' }],
+  });
+  assert.equal(pdf.subarray(0, 5).toString(), '%PDF-');
+});
@@ -0,0 +1,677 @@
+/**
+ * Inbound email-to-ticket gateway.
+ *
+ * Raw MIME messages (posted by the mail relay to /api/inbound-email, or
+ * replayed from .eml files with scripts/post-inbound-email.js) are parsed
+ * here. The From address is only trusted when the relay's
+ * Authentication-Results header shows it passed DMARC, DKIM or SPF; other
+ * messages are parked as unverified. A verified sender is matched to a
+ * client user by email address:
+ *
+ *   - a subject carrying one of the business's request numbers
+ *     (SR-YYYY-NNNNN, e.g. "Re: [SR-2026-00042] Printer offline") threads
+ *     the reply into that request's notes, with the quoted history cut off;
+ *   - anything else opens a new service request at the business's
+ *     headquarters location.
+ *
+ * Attachments are handed to `saveAttachments`, which stores them through the
+ * same scanned upload path as the client portal; attachments that cannot be
+ * stored are noted on the message rather than failing it, and each stored
+ * attachment is recorded so a retried message does not store it twice.
+ * Every message is logged in inbound_emails by Message-ID, so a relay
+ * redelivering it is a no-op, and mail from unknown senders or
+ * auto-responders is recorded and dropped. The request or note a message produced is recorded as soon as it
+ * is written, so retrying a failed message (or one whose process died
+ * mid-way) reuses it instead of adding it again.
+ */
+import crypto from 'crypto';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { generateRequestNumber } from '../utils/requestNumberGenerator.js';
+
+export const INBOUND_EMAIL_FIXTURES_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../fixtures/inbound-email'
+);
+
+const REQUEST_NUMBER_PATTERN = /\bSR-\d{4}-\d{5,}\b/i;
+const MAX_TITLE_LENGTH = 255;
+
+// A claimed message still not finished after this long is taken to have died
+// with its process and may be claimed again
+const CLAIM_TIMEOUT_MINUTES = 5;
+
+// ---------------------------------------------------------------------------
+// MIME parsing
+// ---------------------------------------------------------------------------
+
+function decodeBytes(buffer, charset = 'utf-8') {
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(buffer);
+  } catch {
+    return new TextDecoder('utf-8').decode(buffer);
+  }
+}
+
+/**
+ * Quoted-printable to bytes. `text` holds one byte per character.
+ */
+function decodeQuotedPrintable(text) {
+  const unfolded = text.replace(/=\r?\n/g, '');
+  return Buffer.from(
+    unfolded.replace(/=([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))),
+    'latin1'
+  );
+}
+
+/**
+ * RFC 2047 encoded words in headers, e.g. =?UTF-8?B?...?= and =?ISO-8859-1?Q?...?=
+ */
+export function decodeEncodedWords(value) {
+  if (!value) return '';
+  return value
+    .replace(/(\?=)\s+(=\?)/g, '$1$2')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_, charset, encoding, text) => {
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : decodeQuotedPrintable(text.replace(/_/g, ' '));
+      return decodeBytes(bytes, charset);
+    });
+}
+
+function splitHeaderAndBody(raw) {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  if (!separator) return { headerText: raw, body: '' };
+  return {
+    headerText: raw.slice(0, separator.index),
+    body: raw.slice(separator.index + separator[0].length)
+  };
+}
+
+/**
+ * Header names (lowercased) to their first value, with folded lines joined.
+ */
+function parseHeaders(headerText) {
+  const headers = {};
+  let last = null;
+  for (const line of headerText.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && last) {
+      headers[last] += ` ${line.trim()}`;
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    last = null;
+    if (headers[name] !== undefined) continue;
+    headers[name] = line.slice(colon + 1).trim();
+    last = name;
+  }
+  return headers;
+}
+
+/**
+ * Every value of a header that may repeat (lowercased name), folded lines joined.
+ */
+function headerValues(headerText, name) {
+  return headerText
+    .replace(/\r?\n[ \t]+/g, ' ')
+    .split(/\r?\n/)
+    .filter(line => line.toLowerCase().startsWith(`${name}:`))
+    .map(line => line.slice(name.length + 1).trim());
+}
+
+/**
+ * Header values arrive as raw bytes; 8-bit ones are taken as UTF-8.
+ */
+function headerValue(value) {
+  return decodeEncodedWords(decodeBytes(Buffer.from(value || '', 'latin1')));
+}
+
+/**
+ * "text/plain; charset=utf-8" -> { value: 'text/plain', params: { charset: 'utf-8' } },
+ * including RFC 2231 parameters (filename*=UTF-8''..., filename*0=...).
+ */
+function parseStructuredHeader(header) {
+  if (!header) return { value: '', params: {} };
+  const [value, ...rest] = header.match(/("[^"]*"|[^;])+/g) || [''];
+  const params = {};
+  const extended = {};
+  for (const part of rest) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    const key = part.slice(0, eq).trim().toLowerCase();
+    const paramValue = part.slice(eq + 1).trim().replace(/^"(.*)"$/, '$1');
+    const match = /^([^*]+)\*(\d+)?(\*)?$/.exec(key);
+    if (!match) {
+      params[key] = headerValue(paramValue);
+      continue;
+    }
+
+    // name* and name*0* are percent-encoded, the first piece prefixed with charset'language'
+    const [, name, index, star] = match;
+    const entry = (extended[name] ||= { charset: 'utf-8', pieces: [] });
+    let piece = paramValue;
+    if (index === undefined || star !== undefined) {
+      const prefixed = /^([^']*)'[^']*'(.*)$/.exec(piece);
+      if (prefixed && (index === undefined || index === '0')) {
+        entry.charset = prefixed[1] || 'utf-8';
+        piece = prefixed[2];
+      }
+      piece = piece.replace(/%([0-9A-F]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+    }
+    entry.pieces[Number(index || 0)] = piece;
+  }
+  for (const [name, { charset, pieces }] of Object.entries(extended)) {
+    params[name] = decodeBytes(Buffer.from(pieces.join(''), 'latin1'), charset);
+  }
+  return { value: value.trim().toLowerCase(), params };
+}
+
+function decodeTransfer(body, encoding) {
+  switch ((encoding || '').toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+function splitMultipart(body, boundary) {
+  const delimiter = `--${boundary}`;
+  const parts = [];
+  let current = null;
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed === `${delimiter}--`) {
+      if (current) parts.push(current.join('\r\n'));
+      return parts;
+    }
+    if (trimmed === delimiter) {
+      if (current) parts.push(current.join('\r\n'));
+      current = [];
+      continue;
+    }
+    if (current) current.push(line);
+  }
+  if (current) parts.push(current.join('\r\n'));
+  return parts;
+}
+
+function walkPart(raw, message) {
+  const { headerText, body } = splitHeaderAndBody(raw);
+  const headers = parseHeaders(headerText);
+  const contentType = parseStructuredHeader(headers['content-type'] || 'text/plain');
+  const disposition = parseStructuredHeader(headers['content-disposition']);
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    for (const part of splitMultipart(body, contentType.params.boundary)) {
+      walkPart(part, message);
+    }
+    return;
+  }
+
+  const content = decodeTransfer(body, headers['content-transfer-encoding']);
+  const filename = disposition.params.filename || contentType.params.name || '';
+  const isText = contentType.value === 'text/plain' || contentType.value === 'text/html';
+
+  if (disposition.value === 'attachment' || (filename && !isText)) {
+    message.attachments.push({
+      filename: path.basename(filename || 'attachment'),
+      contentType: contentType.value || 'application/octet-stream',
+      content
+    });
+    return;
+  }
+
+  const charset = contentType.params.charset || 'utf-8';
+  if (contentType.value === 'text/plain' && message.text === null) {
+    message.text = decodeBytes(content, charset);
+  } else if (contentType.value === 'text/html' && message.html === null) {
+    message.html = decodeBytes(content, charset);
+  }
+}
+
+/**
+ * `"Jane Doe" <Jane@Example.com>` -> { name: 'Jane Doe', address: 'jane@example.com' }
+ */
+export function parseAddress(value) {
+  const decoded = headerValue(value).trim();
+  const angle = /^(.*)<([^>]+)>/.exec(decoded);
+  if (angle) {
+    return {
+      name: angle[1].trim().replace(/^"(.*)"$/, '$1').trim() || null,
+      address: angle[2].trim().toLowerCase()
+    };
+  }
+  const address = decoded.replace(/\(.*?\)/g, '').trim().toLowerCase();
+  return { name: null, address: address || null };
+}
+
+/**
+ * Parse a raw MIME message (Buffer or string).
+ *
+ * @returns {{from: {name: string|null, address: string|null}, subject: string,
+ *   messageId: string|null, inReplyTo: string|null, headers: Object,
+ *   authenticationResults: string[], text: string|null, html: string|null,
+ *   attachments: Array<{filename: string, contentType: string, content: Buffer}>}}
+ */
+export function parseRawEmail(raw) {
+  const source = Buffer.isBuffer(raw) ? raw.toString('latin1') : Buffer.from(String(raw), 'utf8').toString('latin1');
+  const { headerText } = splitHeaderAndBody(source);
+  const headers = parseHeaders(headerText);
+
+  const message = { text: null, html: null, attachments: [] };
+  walkPart(source, message);
+
+  return {
+    from: parseAddress(headers['reply-to'] && !headers.from ? headers['reply-to'] : headers.from),
+    subject: headerValue(headers.subject).trim(),
+    messageId: headers['message-id'] || null,
+    inReplyTo: headers['in-reply-to'] || null,
+    headers,
+    authenticationResults: headerValues(headerText, 'authentication-results'),
+    ...message
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Content helpers
+// ---------------------------------------------------------------------------
+
+const HTML_ENTITIES = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export function htmlToText(html) {
+  return (html || '')
+    .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6])>/gi, '\n')
+    .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, '')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#\d+|[a-z]+);/gi, (entity, code) => {
+      if (code.startsWith('#')) return String.fromCharCode(parseInt(code.slice(1), 10));
+      return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Where the quoted history of a reply starts
+const REPLY_MARKERS = [
+  /^On\b[^\n]{0,200}(\n[^\n]{0,200})?\bwrote:\s*$/m,
+  /^-{2,}\s*Original Message\s*-{2,}\s*$/im,
+  /^From:\s.+\r?\n(Sent|Date):\s/m,
+  /^_{20,}\s*$/m,
+  /^-- $/m
+];
+
+/**
+ * The new text of a reply: everything above the quoted history and the
+ * signature delimiter, without ">"-quoted lines. Falls back to the whole
+ * text when nothing would be left.
+ */
+export function stripQuotedReply(text) {
+  const normalized = (text || '').replace(/\r\n/g, '\n');
+  let cut = normalized.length;
+  for (const marker of REPLY_MARKERS) {
+    const match = marker.exec(normalized);
+    if (match && match.index < cut) cut = match.index;
+  }
+  const reply = normalized
+    .slice(0, cut)
+    .split('\n')
+    .filter(line => !line.startsWith('>'))
+    .join('\n')
+    .trim();
+  return reply || normalized.trim();
+}
+
+/**
+ * The message body as plain text, from the HTML part when there is no text part.
+ */
+function bodyText(email) {
+  return (email.text ?? htmlToText(email.html)).replace(/\r\n/g, '\n').trim();
+}
+
+export function extractRequestNumber(subject) {
+  const match = REQUEST_NUMBER_PATTERN.exec(subject || '');
+  return match ? match[0].toUpperCase() : null;
+}
+
+/**
+ * A request title from the subject: reply/forward prefixes removed.
+ */
+export function titleFromSubject(subject) {
+  const title = (subject || '')
+    .replace(/^\s*((re|fwd?|aw|wg)\s*(\[\d+\])?\s*:\s*)+/i, '')
+    .trim();
+  return (title || 'Service request by email').slice(0, MAX_TITLE_LENGTH);
+}
+
+/**
+ * Auto-replies, bounces and list mail are not tickets.
+ */
+export function isAutomatedMessage(headers) {
+  const autoSubmitted = (headers['auto-submitted'] || '').toLowerCase();
+  if (autoSubmitted && autoSubmitted !== 'no') return true;
+  if (/^(bulk|junk|list|auto_reply)$/i.test(headers.precedence || '')) return true;
+  if (headers['x-autoreply'] || headers['x-autorespond']) return true;
+  return /^(mailer-daemon|postmaster)@/i.test(parseAddress(headers.from).address || '');
+}
+
+const authservIdOf = (header) => header.split(';')[0].trim().split(/\s+/)[0].toLowerCase();
+
+/**
+ * Whether the relay vouched for the From address: its Authentication-Results
+ * header (RFC 8601) shows a DMARC pass for the From domain, or a DKIM or SPF
+ * pass for that domain or a parent of it. With `authservId` only the header
+ * the relay added under that name counts; otherwise the topmost one, which
+ * the relay prepends.
+ */
+export function isSenderVerified(email, authservId = null) {
+  const domain = email.from.address?.split('@')[1];
+  if (!domain) return false;
+  const header = authservId
+    ? email.authenticationResults.find(value => authservIdOf(value) === authservId.toLowerCase())
+    : email.authenticationResults[0];
+  if (!header) return false;
+
+  const aligned = (value, exact = false) => {
+    const other = (value || '').toLowerCase().split('@').pop();
+    return Boolean(other) && (other === domain || (!exact && domain.endsWith(`.${other}`)));
+  };
+  return header.split(';').slice(1).some(result => {
+    const method = /^\s*(dkim|spf|dmarc)\s*=\s*(\w+)/i.exec(result);
+    if (!method || method[2].toLowerCase() !== 'pass') return false;
+    switch (method[1].toLowerCase()) {
+      case 'dmarc': return aligned(/header\.from=([^\s;]+)/i.exec(result)?.[1] || domain, true);
+      case 'dkim': return aligned(/header\.[di]=([^\s;]+)/i.exec(result)?.[1]);
+      default: return aligned(/smtp\.mailfrom=([^\s;]+)/i.exec(result)?.[1]);
+    }
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Processing
+// ---------------------------------------------------------------------------
+
+async function findSender(db, address) {
+  const result = await db.query(
+    `SELECT id, business_id, first_name, last_name, email, phone
+       FROM users
+      WHERE LOWER(email) = $1 AND soft_delete = false AND business_id IS NOT NULL
+      ORDER BY is_primary_contact DESC NULLS LAST, created_at
+      LIMIT 1`,
+    [address]
+  );
+  return result.rows[0] || null;
+}
+
+async function createRequestFromEmail(db, sender, email) {
+  const [locationResult, statusResult, priorityResult, urgencyResult] = await Promise.all([
+    db.query(
+      `SELECT id FROM service_locations
+        WHERE business_id = $1 AND soft_delete = false
+        ORDER BY is_headquarters DESC, created_at
+        LIMIT 1`,
+      [sender.business_id]
+    ),
+    db.query(`
+      SELECT id FROM service_request_statuses
+      WHERE name = 'Submitted' AND is_active = true
+      ORDER BY display_order ASC, created_at ASC
+      LIMIT 1
+    `),
+    db.query(`SELECT id FROM priority_levels WHERE name = 'Medium' ORDER BY created_at ASC LIMIT 1`),
+    db.query('SELECT id FROM urgency_levels WHERE is_active = true ORDER BY display_order LIMIT 1')
+  ]);
+  if (!locationResult.rows[0]) return { rejected: 'The business has no service location' };
+  if (!statusResult.rows[0] || !priorityResult.rows[0] || !urgencyResult.rows[0]) {
+    throw new Error('No default service request status, priority or urgency found');
+  }
+
+  const title = titleFromSubject(email.subject);
+  const description = bodyText(email);
+  const contactName = [sender.first_name, sender.last_name].filter(Boolean).join(' ') || null;
+  const requestNumber = await generateRequestNumber(db);
+
+  const result = await db.query(`
+    INSERT INTO service_requests (
+      request_number, title, description, client_id, business_id, service_location_id,
+      created_by_user_id, urgency_level_id, priority_level_id, status_id,
+      primary_contact_name, primary_contact_phone, primary_contact_email
+    ) VALUES ($1, $2, $3, $4, $5, $6, $4, $7, $8, $9, $10, $11, $12)
+    RETURNING id, request_number, title, description, created_at
+  `, [
+    requestNumber,
+    title,
+    description,
+    sender.id,
+    sender.business_id,
+    locationResult.rows[0].id,
+    urgencyResult.rows[0].id,
+    priorityResult.rows[0].id,
+    statusResult.rows[0].id,
+    contactName,
+    sender.phone || null,
+    sender.email
+  ]);
+  return { serviceRequest: result.rows[0] };
+}
+
+async function findCreatedRequest(db, serviceRequestId) {
+  const result = await db.query(
+    `SELECT id, request_number, title, description, created_at
+       FROM service_requests
+      WHERE id = $1 AND soft_delete = false`,
+    [serviceRequestId]
+  );
+  return result.rows[0] || null;
+}
+
+async function addReplyNote(db, serviceRequest, sender, email) {
+  const noteText = stripQuotedReply(bodyText(email));
+  if (!noteText) return null;
+
+  const senderName = [sender.first_name, sender.last_name].filter(Boolean).join(' ') || sender.email;
+  const result = await db.query(`
+    INSERT INTO service_request_notes (
+      service_request_id,
+      note_text,
+      note_type,
+      created_by_type,
+      created_by_id,
+      created_by_name,
+      is_visible_to_client
+    ) VALUES ($1, $2, 'email', 'client', $3, $4, true)
+    RETURNING id, note_text, note_type, created_by_type, created_by_name, created_at
+  `, [serviceRequest.id, noteText, sender.id, senderName]);
+  return result.rows[0];
+}
+
+async function findReplyNote(db, noteId) {
+  const result = await db.query(
+    `SELECT id, note_text, note_type, created_by_type, created_by_name, created_at
+       FROM service_request_notes
+      WHERE id = $1`,
+    [noteId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Store the attachments of a message that has already been saved, one at a
+ * time. Each stored file is recorded in inbound_email_attachments by its
+ * position in the message, so a retry skips what an earlier attempt stored.
+ * A storage error is reported against the file instead of being thrown.
+ */
+async function storeAttachments(db, inboundEmailId, saveAttachments, serviceRequest, sender, attachments) {
+  const earlier = await db.query(
+    'SELECT attachment_index, client_file_id FROM inbound_email_attachments WHERE inbound_email_id = $1',
+    [inboundEmailId]
+  );
+  const storedFiles = new Map(earlier.rows.map(row => [row.attachment_index, row.client_file_id]));
+
+  const files = { quotaExceeded: null, uploadedFiles: [], failedFiles: [] };
+  for (const [index, attachment] of attachments.entries()) {
+    if (storedFiles.has(index)) {
+      files.uploadedFiles.push({ fileId: storedFiles.get(index), originalName: attachment.filename });
+      continue;
+    }
+
+    let saved;
+    try {
+      saved = await saveAttachments({ serviceRequest, sender, attachments: [attachment] });
+    } catch (error) {
+      files.failedFiles.push({ originalName: attachment.filename, error: error.message });
+      continue;
+    }
+    files.quotaExceeded = files.quotaExceeded || saved.quotaExceeded || null;
+    files.failedFiles.push(...(saved.failedFiles || []));
+    for (const file of saved.uploadedFiles || []) {
+      await db.query(`
+        INSERT INTO inbound_email_attachments (inbound_email_id, attachment_index, client_file_id)
+        VALUES ($1, $2, $3)
+        ON CONFLICT DO NOTHING
+      `, [inboundEmailId, index, file.fileId ?? null]);
+      files.uploadedFiles.push(file);
+    }
+  }
+  return files;
+}
+
+function attachmentFailureReason(files) {
+  if (files.quotaExceeded) return 'Attachments not stored: storage quota exceeded';
+  if (!files.failedFiles?.length) return null;
+  return `Attachments not stored: ${files.failedFiles.map(file => `${file.originalName} (${file.error})`).join('; ')}`;
+}
+
+/**
+ * Turn one raw message into a new service request or a note on an existing
+ * one.
+ *
+ * @param {Object} db - pg pool (or anything with .query)
+ * @param {Buffer|string} raw - the MIME message
+ * @param {Object} options
+ * @param {Function} options.saveAttachments - ({ serviceRequest, sender, attachments })
+ *   => Promise<{ uploadedFiles, failedFiles }>
+ * @param {string} [options.authservId] - the relay's Authentication-Results name
+ * @returns {Promise<Object>} { status, reason?, serviceRequest?, sender?, note?, email?, files? }
+ *   where status is created, threaded, duplicate, ignored, unverified or rejected
+ */
+export async function processInboundEmail(db, raw, { saveAttachments, authservId = null }) {
+  const email = parseRawEmail(raw);
+  const messageId = email.messageId
+    || `<sha256-${crypto.createHash('sha256').update(raw).digest('hex')}@inbound>`;
+
+  // Claim the message; a failed earlier attempt, or one left 'received' past
+  // CLAIM_TIMEOUT_MINUTES by a process that died, may be retried
+  const claim = await db.query(`
+    INSERT INTO inbound_emails (message_id, from_address, subject)
+    VALUES ($1, $2, $3)
+    ON CONFLICT (message_id) DO UPDATE SET status = 'received', received_at = NOW()
+      WHERE inbound_emails.status = 'failed'
+         OR (inbound_emails.status = 'received'
+             AND inbound_emails.received_at < NOW() - make_interval(mins => $4))
+    RETURNING id, service_request_id, note_id
+  `, [messageId, email.from.address, email.subject.slice(0, 998), CLAIM_TIMEOUT_MINUTES]);
+  const claimed = claim.rows[0];
+  if (!claimed) return { status: 'duplicate' };
+  const inboundEmailId = claimed.id;
+
+  const recordWrite = (serviceRequestId, noteId) => db.query(
+    'UPDATE inbound_emails SET service_request_id = $2, note_id = $3 WHERE id = $1',
+    [inboundEmailId, serviceRequestId, noteId]
+  );
+
+  const finish = async (outcome) => {
+    await db.query(`
+      UPDATE inbound_emails
+         SET status = $2, reason = $3, service_request_id = $4, note_id = $5,
+             attachment_count = $6, processed_at = NOW()
+       WHERE id = $1
+    `, [
+      inboundEmailId,
+      outcome.status,
+      outcome.reason || null,
+      outcome.serviceRequest?.id || null,
+      outcome.note?.id || null,
+      outcome.files?.uploadedFiles?.length || 0
+    ]);
+    return { ...outcome, email };
+  };
+
+  try {
+    if (isAutomatedMessage(email.headers)) {
+      return await finish({ status: 'ignored', reason: 'Automated message' });
+    }
+    if (!email.from.address) {
+      return await finish({ status: 'rejected', reason: 'No sender address' });
+    }
+    if (!isSenderVerified(email, authservId)) {
+      return await finish({ status: 'unverified', reason: 'Sender not verified by DKIM, SPF or DMARC' });
+    }
+
+    const sender = await findSender(db, email.from.address);
+    if (!sender) {
+      return await finish({ status: 'rejected', reason: 'Unknown sender' });
+    }
+
+    const requestNumber = extractRequestNumber(email.subject);
+    const existing = requestNumber
+      ? (await db.query(
+        `SELECT id, request_number, title
+           FROM service_requests
+          WHERE request_number = $1 AND business_id = $2 AND soft_delete = false`,
+        [requestNumber, sender.business_id]
+      )).rows[0]
+      : null;
+
+    let outcome;
+    if (existing) {
+      // A retry reuses the note an earlier attempt wrote
+      const earlierNote = claimed.note_id && await findReplyNote(db, claimed.note_id);
+      const note = earlierNote || await addReplyNote(db, existing, sender, email);
+      if (!note && email.attachments.length === 0) {
+        return await finish({ status: 'ignored', reason: 'Empty reply', serviceRequest: existing });
+      }
+      if (note && !earlierNote) await recordWrite(existing.id, note.id);
+      outcome = { status: 'threaded', serviceRequest: existing, sender, note };
+    } else {
+      // ...and the request it opened
+      const earlierRequest = claimed.service_request_id && await findCreatedRequest(db, claimed.service_request_id);
+      const created = earlierRequest
+        ? { serviceRequest: earlierRequest }
+        : await createRequestFromEmail(db, sender, email);
+      if (created.rejected) return await finish({ status: 'rejected', reason: created.rejected });
+      if (!earlierRequest) await recordWrite(created.serviceRequest.id, null);
+      outcome = { status: 'created', serviceRequest: created.serviceRequest, sender };
+    }
+
+    if (email.attachments.length > 0) {
+      outcome.files = await storeAttachments(
+        db, inboundEmailId, saveAttachments, outcome.serviceRequest, sender, email.attachments
+      );
+      outcome.reason = attachmentFailureReason(outcome.files);
+    }
+    return await finish(outcome);
+  } catch (error) {
+    await db.query(
+      `UPDATE inbound_emails SET status = 'failed', reason = $2, processed_at = NOW() WHERE id = $1`,
+      [inboundEmailId, error.message]
+    ).catch(() => {});
+    throw error;
+  }
+}
+
+export default {
+  INBOUND_EMAIL_FIXTURES_DIR,
+  parseRawEmail,
+  stripQuotedReply,
+  extractRequestNumber,
+  isSenderVerified,
+  processInboundEmail
+};
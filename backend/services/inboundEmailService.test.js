@@ -0,0 +1,286 @@
+// Tests for inboundEmailService — parsing the .eml fixtures in
+// fixtures/inbound-email, cutting quoted history off replies, and turning a
+// message into a new request or a note, against a fake db.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  INBOUND_EMAIL_FIXTURES_DIR,
+  parseRawEmail,
+  stripQuotedReply,
+  extractRequestNumber,
+  titleFromSubject,
+  isSenderVerified,
+  processInboundEmail
+} from './inboundEmailService.js';
+
+const loadFixture = (name) => fs.readFile(path.join(INBOUND_EMAIL_FIXTURES_DIR, `${name}.eml`));
+
+function fakeDb(handlers) {
+  const calls = [];
+  return {
+    calls,
+    async query(sql, params = []) {
+      calls.push({ sql, params });
+      for (const [pattern, rows] of handlers) {
+        if (pattern.test(sql)) return { rows: typeof rows === 'function' ? rows(params) : rows };
+      }
+      return { rows: [] };
+    }
+  };
+}
+
+const SENDER = {
+  id: 'user-jane',
+  business_id: 'biz-1',
+  first_name: 'Jane',
+  last_name: 'Doe',
+  email: 'jane.doe@example.com',
+  phone: '555-0100'
+};
+
+const CLAIMED = [/INSERT INTO inbound_emails/, [{ id: 'inbound-1' }]];
+const KNOWN_SENDER = [/FROM users/, [SENDER]];
+
+function recordingSaver() {
+  const saved = [];
+  const saveAttachments = async ({ serviceRequest, attachments }) => {
+    saved.push({ serviceRequestId: serviceRequest.id, filenames: attachments.map(a => a.filename) });
+    return { quotaExceeded: null, uploadedFiles: attachments.map(a => ({ originalName: a.filename })), failedFiles: [] };
+  };
+  return { saved, saveAttachments };
+}
+
+test('parseRawEmail decodes headers, bodies and attachments', async () => {
+  const email = parseRawEmail(await loadFixture('new-request'));
+
+  assert.deepEqual(email.from, { name: 'Jane Doe', address: 'jane.doe@example.com' });
+  assert.equal(email.subject, 'Printer offline – 2nd floor');
+  assert.equal(email.messageId, '<CAF1new-request-0001@mail.example.com>');
+  assert.match(email.text, /by the café on the 2nd floor shows "offline" since this morning\./);
+  assert.match(email.html, /^<div>Hi,<\/div>/);
+  assert.equal(email.attachments.length, 1);
+  assert.equal(email.attachments[0].filename, 'printer log.pdf');
+  assert.equal(email.attachments[0].contentType, 'application/pdf');
+  assert.equal(email.attachments[0].content.toString(), '%PDF-1.4\n% fixture\n');
+});
+
+test('stripQuotedReply keeps only the new text of a reply', async () => {
+  const email = parseRawEmail(await loadFixture('reply'));
+  assert.equal(stripQuotedReply(email.text), 'It is still offline this morning, new log attached.\n\nJane');
+
+  assert.equal(
+    stripQuotedReply('Done, thanks.\n\n-----Original Message-----\nFrom: Support\nThe request was updated.'),
+    'Done, thanks.'
+  );
+  assert.equal(stripQuotedReply('> only quoted text'), '> only quoted text');
+});
+
+test('subjects give the request number and a title', () => {
+  assert.equal(extractRequestNumber('Re: Service Request Confirmed: sr-2026-00042'), 'SR-2026-00042');
+  assert.equal(extractRequestNumber('Printer offline'), null);
+  assert.equal(titleFromSubject('RE: Fwd: Printer offline'), 'Printer offline');
+  assert.equal(titleFromSubject('  '), 'Service request by email');
+});
+
+test('isSenderVerified needs a DMARC pass or an aligned DKIM or SPF pass from the relay', () => {
+  const email = (...authenticationResults) => ({ from: { address: 'jane.doe@example.com' }, authenticationResults });
+
+  assert.equal(isSenderVerified(email('mx.example.net; dmarc=pass header.from=example.com')), true);
+  assert.equal(isSenderVerified(email('mx.example.net; dkim=pass header.d=example.com; spf=fail')), true);
+  assert.equal(isSenderVerified(email('mx.example.net; spf=pass smtp.mailfrom=bounce@example.com')), true);
+  assert.equal(isSenderVerified(email('mx.example.net; dkim=pass header.d=attacker.test')), false);
+  assert.equal(isSenderVerified(email('mx.example.net; dmarc=fail; spf=softfail')), false);
+  assert.equal(isSenderVerified(email()), false);
+
+  // Only the relay's own header counts when it is named
+  const forged = email('mx.example.net; dmarc=fail', 'attacker.test; dmarc=pass header.from=example.com');
+  assert.equal(isSenderVerified(forged, 'mx.example.net'), false);
+  assert.equal(isSenderVerified(email('MX.example.net; dmarc=pass'), 'mx.example.net'), true);
+});
+
+test('a message from a known client opens a request with its attachments', async () => {
+  const db = fakeDb([
+    CLAIMED,
+    KNOWN_SENDER,
+    [/FROM service_locations/, [{ id: 'loc-hq' }]],
+    [/FROM service_request_statuses/, [{ id: 'status-submitted' }]],
+    [/FROM priority_levels/, [{ id: 'priority-medium' }]],
+    [/FROM urgency_levels/, [{ id: 'urgency-normal' }]],
+    [/nextval/, [{ next_num: 42 }]],
+    [/INSERT INTO service_requests/, params => [{ id: 'sr-new', request_number: params[0], title: params[1], description: params[2] }]]
+  ]);
+  const { saved, saveAttachments } = recordingSaver();
+
+  const outcome = await processInboundEmail(db, await loadFixture('new-request'), { saveAttachments });
+
+  assert.equal(outcome.status, 'created');
+  assert.match(outcome.serviceRequest.request_number, /^SR-\d{4}-00042$/);
+  const insert = db.calls.find(call => /INSERT INTO service_requests/.test(call.sql));
+  assert.equal(insert.params[1], 'Printer offline – 2nd floor');
+  assert.match(insert.params[2], /^Hi,\n\nThe printer by the café/);
+  assert.equal(insert.params[3], 'user-jane');
+  assert.equal(insert.params[5], 'loc-hq');
+  assert.deepEqual(saved, [{ serviceRequestId: 'sr-new', filenames: ['printer log.pdf'] }]);
+
+  const recorded = db.calls.find(call => /SET service_request_id = \$2, note_id = \$3/.test(call.sql));
+  assert.deepEqual(recorded.params, ['inbound-1', 'sr-new', null]);
+  const finished = db.calls.find(call => /SET status = \$2/.test(call.sql));
+  assert.deepEqual(finished.params, ['inbound-1', 'created', null, 'sr-new', null, 1]);
+});
+
+test('a reply with the request number becomes a note on that request', async () => {
+  const db = fakeDb([
+    CLAIMED,
+    KNOWN_SENDER,
+    [/FROM service_requests\s+WHERE request_number/, [{ id: 'sr-42', request_number: 'SR-2026-00042', title: 'Printer offline' }]],
+    [/INSERT INTO service_request_notes/, params => [{ id: 'note-1', note_text: params[1], created_by_name: params[3] }]]
+  ]);
+  const { saved, saveAttachments } = recordingSaver();
+
+  const outcome = await processInboundEmail(db, await loadFixture('reply'), { saveAttachments });
+
+  assert.equal(outcome.status, 'threaded');
+  assert.equal(outcome.note.note_text, 'It is still offline this morning, new log attached.\n\nJane');
+  assert.equal(outcome.note.created_by_name, 'Jane Doe');
+  const lookup = db.calls.find(call => /WHERE request_number/.test(call.sql));
+  assert.deepEqual(lookup.params, ['SR-2026-00042', 'biz-1']);
+  assert.equal(db.calls.some(call => /INSERT INTO service_requests/.test(call.sql)), false);
+  assert.deepEqual(saved, [{ serviceRequestId: 'sr-42', filenames: ['log.txt'] }]);
+});
+
+test('unknown senders, auto-replies and redeliveries are not processed', async () => {
+  const { saved, saveAttachments } = recordingSaver();
+
+  const unknown = await processInboundEmail(fakeDb([CLAIMED]), await loadFixture('new-request'), { saveAttachments });
+  assert.equal(unknown.status, 'rejected');
+  assert.equal(unknown.reason, 'Unknown sender');
+
+  const autoReplyDb = fakeDb([CLAIMED, KNOWN_SENDER]);
+  const autoReply = await processInboundEmail(autoReplyDb, await loadFixture('auto-reply'), { saveAttachments });
+  assert.equal(autoReply.status, 'ignored');
+  assert.equal(autoReplyDb.calls.some(call => /FROM users/.test(call.sql)), false);
+
+  const duplicate = await processInboundEmail(fakeDb([]), await loadFixture('reply'), { saveAttachments });
+  assert.deepEqual(duplicate, { status: 'duplicate' });
+
+  assert.deepEqual(saved, []);
+});
+
+test('a sender the relay could not verify is parked, not matched to a client', async () => {
+  const raw = (await loadFixture('new-request')).toString('latin1')
+    .replace(/Authentication-Results:[^\n]*\n(\t[^\n]*\n)*/, 'Authentication-Results: inbound.example.net; spf=fail; dmarc=fail\n');
+  const db = fakeDb([CLAIMED, KNOWN_SENDER]);
+  const { saved, saveAttachments } = recordingSaver();
+
+  const outcome = await processInboundEmail(db, Buffer.from(raw, 'latin1'), { saveAttachments });
+
+  assert.equal(outcome.status, 'unverified');
+  assert.equal(db.calls.some(call => /FROM users/.test(call.sql)), false);
+  assert.deepEqual(saved, []);
+});
+
+test('a failure marks the message failed so a redelivery is processed again', async () => {
+  const db = fakeDb([
+    CLAIMED,
+    [/FROM users/, () => { throw new Error('connection reset'); }]
+  ]);
+
+  await assert.rejects(
+    processInboundEmail(db, await loadFixture('new-request'), { saveAttachments: async () => ({}) }),
+    /connection reset/
+  );
+  const failed = db.calls.find(call => /SET status = 'failed'/.test(call.sql));
+  assert.deepEqual(failed.params, ['inbound-1', 'connection reset']);
+  const claim = db.calls.find(call => /INSERT INTO inbound_emails/.test(call.sql));
+  assert.match(claim.sql, /WHERE inbound_emails\.status = 'failed'/);
+});
+
+test('a message left received by a dead process is claimed again once stale', async () => {
+  // Mirrors the claim's ON CONFLICT condition for one existing 'received' row
+  const existingRow = (minutesAgo) => [/INSERT INTO inbound_emails/, params => {
+    const receivedAt = Date.now() - minutesAgo * 60_000;
+    return receivedAt < Date.now() - params[3] * 60_000 ? [{ id: 'inbound-1' }] : [];
+  }];
+  const { saveAttachments } = recordingSaver();
+
+  const staleDb = fakeDb([existingRow(30)]);
+  const stale = await processInboundEmail(staleDb, await loadFixture('new-request'), { saveAttachments });
+  assert.equal(stale.status, 'rejected');
+  const claim = staleDb.calls.find(call => /INSERT INTO inbound_emails/.test(call.sql));
+  assert.match(claim.sql, /inbound_emails\.status = 'received'\s+AND inbound_emails\.received_at < NOW\(\) - make_interval\(mins => \$4\)/);
+
+  const freshDb = fakeDb([existingRow(1)]);
+  const fresh = await processInboundEmail(freshDb, await loadFixture('new-request'), { saveAttachments });
+  assert.deepEqual(fresh, { status: 'duplicate' });
+});
+
+test('a retry reuses the request or note the failed attempt wrote', async () => {
+  const { saveAttachments } = recordingSaver();
+
+  const createdDb = fakeDb([
+    [/INSERT INTO inbound_emails/, [{ id: 'inbound-1', service_request_id: 'sr-new', note_id: null }]],
+    KNOWN_SENDER,
+    [/FROM service_requests\s+WHERE id = \$1/, [{ id: 'sr-new', request_number: 'SR-2026-00042', title: 'Printer offline' }]]
+  ]);
+  const created = await processInboundEmail(createdDb, await loadFixture('new-request'), { saveAttachments });
+  assert.equal(created.status, 'created');
+  assert.equal(created.serviceRequest.id, 'sr-new');
+  assert.equal(createdDb.calls.some(call => /INSERT INTO service_requests/.test(call.sql)), false);
+
+  const threadedDb = fakeDb([
+    [/INSERT INTO inbound_emails/, [{ id: 'inbound-2', service_request_id: 'sr-42', note_id: 'note-1' }]],
+    KNOWN_SENDER,
+    [/FROM service_requests\s+WHERE request_number/, [{ id: 'sr-42', request_number: 'SR-2026-00042', title: 'Printer offline' }]],
+    [/FROM service_request_notes/, [{ id: 'note-1', note_text: 'It is still offline' }]]
+  ]);
+  const threaded = await processInboundEmail(threadedDb, await loadFixture('reply'), { saveAttachments });
+  assert.equal(threaded.status, 'threaded');
+  assert.equal(threaded.note.id, 'note-1');
+  assert.equal(threadedDb.calls.some(call => /INSERT INTO service_request_notes/.test(call.sql)), false);
+});
+
+test('a retry stores only the attachments the failed attempt did not', async () => {
+  const retryDb = (storedRows) => fakeDb([
+    [/INSERT INTO inbound_emails/, [{ id: 'inbound-2', service_request_id: 'sr-42', note_id: 'note-1' }]],
+    KNOWN_SENDER,
+    [/FROM service_requests\s+WHERE request_number/, [{ id: 'sr-42', request_number: 'SR-2026-00042', title: 'Printer offline' }]],
+    [/FROM service_request_notes/, [{ id: 'note-1', note_text: 'It is still offline' }]],
+    [/FROM inbound_email_attachments/, storedRows]
+  ]);
+
+  const stored = recordingSaver();
+  const storedDb = retryDb([{ attachment_index: 0, client_file_id: 'file-1' }]);
+  const storedOutcome = await processInboundEmail(storedDb, await loadFixture('reply'), { saveAttachments: stored.saveAttachments });
+  assert.deepEqual(stored.saved, []);
+  assert.deepEqual(storedOutcome.files.uploadedFiles, [{ fileId: 'file-1', originalName: 'log.txt' }]);
+
+  const missing = recordingSaver();
+  const missingDb = retryDb([]);
+  await processInboundEmail(missingDb, await loadFixture('reply'), { saveAttachments: missing.saveAttachments });
+  assert.deepEqual(missing.saved, [{ serviceRequestId: 'sr-42', filenames: ['log.txt'] }]);
+  const recorded = missingDb.calls.find(call => /INSERT INTO inbound_email_attachments/.test(call.sql));
+  assert.deepEqual(recorded.params, ['inbound-2', 0, null]);
+});
+
+test('attachments that cannot be stored are noted without failing the message', async () => {
+  const db = fakeDb([
+    CLAIMED,
+    KNOWN_SENDER,
+    [/FROM service_requests\s+WHERE request_number/, [{ id: 'sr-42', request_number: 'SR-2026-00042', title: 'Printer offline' }]],
+    [/INSERT INTO service_request_notes/, params => [{ id: 'note-1', note_text: params[1] }]]
+  ]);
+  const saveAttachments = async () => { throw new Error('Folder could not be created'); };
+
+  const outcome = await processInboundEmail(db, await loadFixture('reply'), { saveAttachments });
+
+  assert.equal(outcome.status, 'threaded');
+  assert.deepEqual(outcome.files.failedFiles, [{ originalName: 'log.txt', error: 'Folder could not be created' }]);
+  const finished = db.calls.find(call => /SET status = \$2/.test(call.sql));
+  assert.deepEqual(finished.params, [
+    'inbound-1', 'threaded', 'Attachments not stored: log.txt (Folder could not be created)', 'sr-42', 'note-1', 0
+  ]);
+  assert.equal(db.calls.some(call => /SET status = 'failed'/.test(call.sql)), false);
+});
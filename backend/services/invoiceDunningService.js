@@ -0,0 +1,422 @@
+/**
+ * Payment reminders (dunning) for unpaid invoices.
+ *
+ * The cadence lives in system_settings.invoice_dunning_config as days
+ * relative to the due date (default 3 days before, on the day, and 7, 14
+ * and 30 days after). Every hour the scheduler
+ *
+ *   1. flips issued invoices still 'due' after their due date to 'overdue';
+ *   2. sends each unpaid, unpaused invoice the latest cadence step it has
+ *      reached and not yet been sent: an email to the primary contact with
+ *      the PDF and a Stripe payment link, plus an SMS when enabled.
+ *
+ * Steps an invoice has already passed are never sent late (an invoice
+ * found 20 days overdue gets the 14-day reminder, not the whole backlog),
+ * and steps dated before the invoice was issued are skipped. invoice_reminders
+ * holds one row per step sent; the row is claimed before sending so two
+ * ticks never send the same step.
+ */
+import { query } from '../config/database.js';
+import { emailService } from './emailService.js';
+import { websocketService } from './websocketService.js';
+import { systemSettingsService } from './systemSettingsService.js';
+import { recordInvoiceHistory } from './invoiceService.js';
+import { addDaysToDate } from './recurringBillingService.js';
+import {
+  formatMoney,
+  invoicePaymentUrl,
+  loadInvoiceDocument,
+  renderInvoicePdf,
+  invoicePdfFilename
+} from './invoicePdfService.js';
+
+const PORTAL_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+export const DEFAULT_DUNNING_CONFIG = {
+  enabled: true,
+  offsetDays: [-3, 0, 7, 14, 30],
+  sendSms: false
+};
+
+// Earliest and latest reminder relative to the due date
+const MIN_OFFSET_DAYS = -60;
+const MAX_OFFSET_DAYS = 365;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function escapeHtml(text) {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatDate(date) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC'
+  });
+}
+
+/**
+ * The stored setting with bad entries dropped. The settings route saves any
+ * JSON, so this is where the cadence is validated.
+ */
+export function normalizeDunningConfig(value) {
+  const config = value && typeof value === 'object' ? value : {};
+  const offsetDays = Array.isArray(config.offsetDays)
+    ? [...new Set(config.offsetDays.map(Number))]
+      .filter(offset => Number.isInteger(offset) && offset >= MIN_OFFSET_DAYS && offset <= MAX_OFFSET_DAYS)
+      .sort((a, b) => a - b)
+    : DEFAULT_DUNNING_CONFIG.offsetDays;
+
+  return {
+    enabled: config.enabled !== false,
+    offsetDays,
+    sendSms: config.sendSms === true
+  };
+}
+
+/**
+ * The cadence step to send today, or null.
+ *
+ * @param {{issueDate: string, dueDate: string, today: string, offsetDays: number[], sentOffsets?: number[]}} params
+ *   dates as YYYY-MM-DD
+ */
+export function dueReminderStep({ issueDate, dueDate, today, offsetDays, sentOffsets = [] }) {
+  const reached = offsetDays.filter(offset => {
+    const sendOn = addDaysToDate(dueDate, offset);
+    return sendOn <= today && sendOn >= issueDate;
+  });
+  if (reached.length === 0) return null;
+
+  const latest = Math.max(...reached);
+  return sentOffsets.some(sent => sent >= latest) ? null : latest;
+}
+
+/**
+ * How a reminder describes the due date, e.g. "is due in 3 days" or "is 7
+ * days overdue".
+ */
+export function describeReminderStep(offsetDays) {
+  const plural = days => `${days} day${days === 1 ? '' : 's'}`;
+  if (offsetDays < 0) return `is due in ${plural(-offsetDays)}`;
+  if (offsetDays === 0) return 'is due today';
+  return `is ${plural(offsetDays)} overdue`;
+}
+
+/**
+ * Stripe Payment Link for the invoice, created on first use and reused for
+ * later reminders. Falls back to the client portal when Stripe is not
+ * available.
+ */
+async function getPaymentLink(db, invoice) {
+  // A payment link is for the full total; a partly paid invoice is paid in the portal
+  if (Number(invoice.amount_paid) > 0) return invoicePaymentUrl(invoice);
+  if (invoice.stripe_payment_link_url) return invoice.stripe_payment_link_url;
+
+  try {
+    const { createInvoicePaymentLink } = await import('./stripeService.js');
+    const link = await createInvoicePaymentLink({
+      amount: parseFloat(invoice.total_amount),
+      currency: invoice.currency.toLowerCase(),
+      invoiceId: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      redirectUrl: `${PORTAL_URL}/clogin`
+    });
+    await db.query(
+      `UPDATE invoices SET stripe_payment_link_id = $1, stripe_payment_link_url = $2 WHERE id = $3`,
+      [link.id, link.url, invoice.id]
+    );
+    return link.url;
+  } catch (error) {
+    console.warn(`⚠️ No Stripe payment link for ${invoice.invoice_number}, using the portal:`, error.message);
+    return invoicePaymentUrl(invoice);
+  }
+}
+
+/**
+ * Email (and optionally text) one cadence step for an invoice. The step's
+ * invoice_reminders row must already be claimed by the caller.
+ *
+ * @returns {Promise<{to: string|null, smsTo: string|null, smsError: string|null}>}
+ */
+export async function sendInvoiceReminder(db, invoiceId, offsetDays, { sendSms = false } = {}) {
+  const document = await loadInvoiceDocument(db, invoiceId);
+  if (!document) throw badRequest('Invoice not found');
+
+  const { invoice, companyInfo } = document;
+  if (!invoice.contact_email) throw badRequest(`${invoice.invoice_number} has no contact email`);
+
+  const paymentUrl = await getPaymentLink(db, invoice);
+
+  const companyName = companyInfo.company_name || 'Romero Tech Solutions';
+  const status = describeReminderStep(offsetDays);
+  const amount = formatMoney(Number(invoice.total_amount) - Number(invoice.amount_paid), invoice.currency);
+  const greeting = invoice.contact_name ? `Hello ${invoice.contact_name},` : 'Hello,';
+  // A partly paid invoice is described by what is still owed
+  const described = Number(invoice.amount_paid) > 0
+    ? `${invoice.invoice_number} (${amount} still owed)`
+    : `${invoice.invoice_number} for ${amount}`;
+  const summary = `This is a reminder that invoice ${described} ${status}`
+    + ` (due ${formatDate(invoice.due_date)}).`;
+
+  const pdf = await renderInvoicePdf(document, { paymentUrl });
+  await emailService.sendRawEmail({
+    from: `"${process.env.SES_FROM_NAME}" <${process.env.SES_FROM_EMAIL}>`,
+    to: invoice.contact_email,
+    subject: `Payment reminder: invoice ${invoice.invoice_number} ${status}`,
+    html: `
+      <p>${escapeHtml(greeting)}</p>
+      <p>${escapeHtml(summary)}</p>
+      ${paymentUrl ? `<p><a href="${escapeHtml(paymentUrl)}">Pay ${escapeHtml(amount)} online</a></p>` : ''}
+      <p>The invoice is attached. If you have already paid, please disregard this reminder.</p>
+      ${emailService.getEmailFooter()}
+    `,
+    text: [
+      greeting,
+      '',
+      summary,
+      paymentUrl ? `\nPay online: ${paymentUrl}` : '',
+      '\nThe invoice is attached. If you have already paid, please disregard this reminder.'
+    ].filter(line => line !== '').join('\n'),
+    attachments: [{ filename: invoicePdfFilename(invoice), content: pdf, contentType: 'application/pdf' }]
+  });
+
+  // A failed text does not undo the email
+  let smsTo = null;
+  let smsError = null;
+  if (sendSms && invoice.contact_phone) {
+    smsTo = invoice.contact_phone;
+    try {
+      const { default: twilioSmsService } = await import('./twilioSmsService.js');
+      await twilioSmsService.sendSMS(
+        smsTo,
+        `${companyName}: invoice ${described} ${status}.${paymentUrl ? ` Pay online: ${paymentUrl}` : ''}`
+      );
+    } catch (error) {
+      console.error(`❌ Reminder SMS for ${invoice.invoice_number} failed:`, error);
+      smsError = error.message;
+    }
+  }
+
+  return { to: invoice.contact_email, smsTo, smsError };
+}
+
+/**
+ * Pause or resume reminders for one invoice.
+ *
+ * @returns {Promise<object|null>} the invoice, or null if not found
+ */
+export async function setRemindersPaused(db, invoiceId, paused, { reason = null, employeeId = null } = {}) {
+  if (typeof paused !== 'boolean') throw badRequest('paused must be true or false');
+
+  const current = await db.query(
+    `SELECT invoice_status, invoice_type, dunning_paused_at FROM invoices WHERE id = $1`,
+    [invoiceId]
+  );
+  if (current.rows.length === 0) return null;
+  const { invoice_status: invoiceStatus, invoice_type: invoiceType } = current.rows[0];
+  if (invoiceStatus !== 'issued' || invoiceType === 'credit_note') {
+    throw badRequest('Reminders only apply to issued invoices');
+  }
+
+  const result = await db.query(`
+    UPDATE invoices
+       SET dunning_paused_at = CASE WHEN $2 THEN COALESCE(dunning_paused_at, NOW()) END,
+           dunning_paused_by_employee_id = CASE WHEN $2 THEN COALESCE(dunning_paused_by_employee_id, $3) END,
+           updated_at = NOW()
+     WHERE id = $1
+     RETURNING id, invoice_number, invoice_status, payment_status, total_amount, business_id, dunning_paused_at
+  `, [invoiceId, paused, employeeId]);
+
+  // Only a change is recorded
+  if (Boolean(current.rows[0].dunning_paused_at) !== paused) {
+    await recordInvoiceHistory(db, {
+      invoiceId,
+      action: paused ? 'reminders_paused' : 'reminders_resumed',
+      reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null,
+      employeeId
+    });
+  }
+  return result.rows[0];
+}
+
+async function notifyStatusChange(invoice) {
+  const clientResult = await query(
+    `SELECT id FROM users WHERE business_id = $1 LIMIT 1`,
+    [invoice.business_id]
+  );
+  const update = {
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoice_number,
+    totalAmount: invoice.total_amount,
+    paymentStatus: invoice.payment_status,
+    type: 'status_change'
+  };
+  if (clientResult.rows.length > 0) {
+    websocketService.notifyClientOfInvoiceUpdate(clientResult.rows[0].id, update);
+  }
+  websocketService.broadcastInvoiceUpdateToAdmins(update);
+}
+
+class DunningScheduler {
+  constructor() {
+    this.intervalId = null;
+    this.isRunning = false;
+    this.isProcessing = false;
+    this.checkIntervalMs = 60 * 60 * 1000; // hourly
+  }
+
+  start() {
+    if (this.isRunning) {
+      console.log('⚠️  Dunning scheduler already running');
+      return;
+    }
+
+    console.log('📨 Starting dunning scheduler...');
+    this.isRunning = true;
+
+    this.runTick();
+    this.intervalId = setInterval(() => {
+      this.runTick();
+    }, this.checkIntervalMs);
+
+    console.log(`✅ Dunning scheduler started (checking every ${this.checkIntervalMs / 60000}m)`);
+  }
+
+  stop() {
+    if (!this.isRunning) return;
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    console.log('✅ Dunning scheduler stopped');
+  }
+
+  async runTick() {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      await this.markOverdueInvoices();
+      const config = normalizeDunningConfig(
+        await systemSettingsService.getSetting('invoice_dunning_config', DEFAULT_DUNNING_CONFIG)
+      );
+      if (config.enabled && config.offsetDays.length > 0) {
+        await this.sendDueReminders(config);
+      }
+    } catch (error) {
+      console.error('❌ Error running dunning:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Issued invoices still 'due' after their due date become 'overdue'.
+   */
+  async markOverdueInvoices() {
+    const result = await query(`
+      UPDATE invoices
+         SET payment_status = 'overdue', updated_at = NOW()
+       WHERE invoice_status = 'issued'
+         AND invoice_type <> 'credit_note'
+         AND payment_status = 'due'
+         AND due_date < CURRENT_DATE
+       RETURNING id, invoice_number, invoice_status, payment_status, total_amount, business_id
+    `);
+
+    for (const invoice of result.rows) {
+      await recordInvoiceHistory({ query }, {
+        invoiceId: invoice.id,
+        action: 'payment_status_changed',
+        details: { from: 'due', to: 'overdue', source: 'dunning' }
+      });
+      await notifyStatusChange(invoice);
+    }
+    if (result.rows.length > 0) {
+      console.log(`📨 Marked ${result.rows.length} invoice(s) overdue`);
+    }
+  }
+
+  async sendDueReminders(config) {
+    const lastOffset = config.offsetDays.at(-1);
+    const candidates = await query(`
+      SELECT i.id, i.invoice_number,
+             i.issue_date::date::text AS issue_date, i.due_date::date::text AS due_date,
+             CURRENT_DATE::text AS today,
+             COALESCE(array_agg(r.offset_days) FILTER (WHERE r.id IS NOT NULL), '{}') AS sent_offsets
+        FROM invoices i
+        LEFT JOIN invoice_reminders r ON r.invoice_id = i.id
+       WHERE i.invoice_status = 'issued'
+         AND i.invoice_type <> 'credit_note'
+         AND i.payment_status IN ('due', 'overdue', 'failed', 'partial')
+         AND i.dunning_paused_at IS NULL
+         AND i.due_date IS NOT NULL
+         AND i.due_date >= CURRENT_DATE - $1::int
+       GROUP BY i.id
+    `, [lastOffset]);
+
+    for (const invoice of candidates.rows) {
+      const offset = dueReminderStep({
+        issueDate: invoice.issue_date,
+        dueDate: invoice.due_date,
+        today: invoice.today,
+        offsetDays: config.offsetDays,
+        sentOffsets: invoice.sent_offsets
+      });
+      if (offset === null) continue;
+
+      const claim = await query(`
+        INSERT INTO invoice_reminders (invoice_id, offset_days)
+        VALUES ($1, $2)
+        ON CONFLICT (invoice_id, offset_days) DO NOTHING
+        RETURNING id
+      `, [invoice.id, offset]);
+      if (claim.rows.length === 0) continue;
+
+      try {
+        const sent = await sendInvoiceReminder({ query }, invoice.id, offset, { sendSms: config.sendSms });
+        await query(
+          `UPDATE invoice_reminders SET email_to = $2, sms_to = $3, sms_error = $4 WHERE id = $1`,
+          [claim.rows[0].id, sent.to, sent.smsTo, sent.smsError]
+        );
+        await recordInvoiceHistory({ query }, {
+          invoiceId: invoice.id,
+          action: 'reminder_sent',
+          details: { offsetDays: offset, to: sent.to, smsTo: sent.smsTo, smsError: sent.smsError }
+        });
+        websocketService.broadcastEntityUpdate('invoice', invoice.id, 'updated', { reminderOffsetDays: offset });
+        console.log(`📨 Sent ${offset}-day reminder for ${invoice.invoice_number} to ${sent.to}`);
+      } catch (error) {
+        if (error.statusCode === 400) {
+          // Nothing to retry (e.g. no contact email); the step stays used
+          console.warn(`⚠️ Reminder for ${invoice.invoice_number} skipped: ${error.message}`);
+          continue;
+        }
+        // Release the step so the next tick tries again
+        await query(`DELETE FROM invoice_reminders WHERE id = $1`, [claim.rows[0].id]);
+        console.error(`❌ Reminder for ${invoice.invoice_number} failed:`, error);
+      }
+    }
+  }
+}
+
+export const dunningScheduler = new DunningScheduler();
+
+export default {
+  DEFAULT_DUNNING_CONFIG,
+  normalizeDunningConfig,
+  dueReminderStep,
+  describeReminderStep,
+  sendInvoiceReminder,
+  setRemindersPaused,
+  dunningScheduler
+};
@@ -0,0 +1,62 @@
+// Tests for invoiceDunningService — cadence normalisation and which step an
+// invoice is due for are pure and pinned here. Sending needs SES, Stripe and
+// Twilio.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_DUNNING_CONFIG,
+  normalizeDunningConfig,
+  dueReminderStep,
+  describeReminderStep
+} from './invoiceDunningService.js';
+
+const offsetDays = DEFAULT_DUNNING_CONFIG.offsetDays;
+
+// ----- normalizeDunningConfig -----
+
+test('normalizeDunningConfig: defaults when the setting is missing', () => {
+  assert.deepEqual(normalizeDunningConfig(null), DEFAULT_DUNNING_CONFIG);
+});
+
+test('normalizeDunningConfig: drops bad offsets, dedupes and sorts', () => {
+  assert.deepEqual(
+    normalizeDunningConfig({ enabled: false, offsetDays: [14, '7', 7, 1.5, 'x', -90, 400, -3], sendSms: true }),
+    { enabled: false, offsetDays: [-3, 7, 14], sendSms: true }
+  );
+});
+
+// ----- dueReminderStep -----
+
+const invoice = { issueDate: '2026-10-01', dueDate: '2026-10-31', offsetDays };
+
+test('dueReminderStep: nothing before the first step', () => {
+  assert.equal(dueReminderStep({ ...invoice, today: '2026-10-27' }), null);
+});
+
+test('dueReminderStep: each step once, on or after its day', () => {
+  assert.equal(dueReminderStep({ ...invoice, today: '2026-10-28' }), -3);
+  assert.equal(dueReminderStep({ ...invoice, today: '2026-10-29', sentOffsets: [-3] }), null);
+  assert.equal(dueReminderStep({ ...invoice, today: '2026-10-31', sentOffsets: [-3] }), 0);
+  assert.equal(dueReminderStep({ ...invoice, today: '2026-11-07', sentOffsets: [-3, 0] }), 7);
+});
+
+test('dueReminderStep: missed steps are skipped, not sent late', () => {
+  assert.equal(dueReminderStep({ ...invoice, today: '2026-11-20' }), 14);
+  assert.equal(dueReminderStep({ ...invoice, today: '2026-11-25', sentOffsets: [14] }), null);
+  assert.equal(dueReminderStep({ ...invoice, today: '2027-01-15', sentOffsets: [14, 30] }), null);
+});
+
+test('dueReminderStep: steps before the issue date are not sent', () => {
+  assert.equal(dueReminderStep({ issueDate: '2026-10-30', dueDate: '2026-10-31', today: '2026-10-30', offsetDays }), null);
+  assert.equal(dueReminderStep({ issueDate: '2026-10-30', dueDate: '2026-10-31', today: '2026-10-31', offsetDays }), 0);
+});
+
+// ----- describeReminderStep -----
+
+test('describeReminderStep: before, on and after the due date', () => {
+  assert.equal(describeReminderStep(-3), 'is due in 3 days');
+  assert.equal(describeReminderStep(-1), 'is due in 1 day');
+  assert.equal(describeReminderStep(0), 'is due today');
+  assert.equal(describeReminderStep(14), 'is 14 days overdue');
+});
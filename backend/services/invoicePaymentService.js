@@ -0,0 +1,553 @@
+/**
+ * Invoice payment ledger: payments, refunds and business credit balances.
+ *
+ * Every payment and refund on an invoice is a row in invoice_payments, and
+ * the invoice caches the totals (amount_paid, amount_refunded). Its payment
+ * status follows the balance:
+ *
+ *   nothing paid              -> due / overdue (by due date)
+ *   part of the total paid    -> partial
+ *   the total paid            -> paid
+ *   paid, then all refunded   -> refunded
+ *
+ * A chargeback (a lost dispute) returns money like a refund, but the invoice
+ * is owed again rather than settled.
+ *
+ * Money beyond the total is moved to the business's credit balance
+ * (business_credit_transactions, whose sum is the balance), as is a refund
+ * taken as credit; credit is applied to later invoices as a payment with
+ * method 'credit'. The overpayment entry points at the payment it came from,
+ * so that part of the payment cannot also be refunded or charged back; if
+ * Stripe returns it to the card anyway, it is taken off the credit balance.
+ *
+ * Card and bank payments through Stripe arrive from the webhook keyed by
+ * payment intent, so a payment reported twice is recorded once. Refunds of
+ * those payments are issued through Stripe while the invoice row is locked,
+ * so the charge.refunded webhook that follows finds them already recorded.
+ *
+ * The functions taking `db` expect a transaction client: each writes
+ * several rows and locks the invoice first. Errors carry statusCode 400 or
+ * 404 for the route to report.
+ */
+import { recordInvoiceHistory } from './invoiceService.js';
+
+export const PAYMENT_METHODS = ['card', 'us_bank_account', 'check', 'cash', 'other'];
+
+// Where refunded money goes: back to the payer, or onto the credit balance
+export const REFUND_DESTINATIONS = ['original', 'credit'];
+
+// Payment methods refunded through Stripe when the payment came from Stripe
+const STRIPE_METHODS = ['card', 'us_bank_account'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function notFound(message) {
+  const error = new Error(message);
+  error.statusCode = 404;
+  return error;
+}
+
+function roundCents(value) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function optionalText(value) {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed || null;
+}
+
+function parseAmount(value, label) {
+  const amount = value === null || value === undefined || value === '' ? NaN : roundCents(Number(value));
+  if (!Number.isFinite(amount) || amount <= 0) throw badRequest(`${label} must be greater than 0`);
+  return amount;
+}
+
+/**
+ * Totals of an invoice's ledger entries. `received` is what was paid in and
+ * kept by the payer's bank (chargebacks excluded); `netPaid` is what the
+ * invoice still holds.
+ *
+ * @param {{entry_type: string, amount: string|number}[]} entries
+ * @returns {{paid: number, refunded: number, chargedBack: number, creditApplied: number,
+ *            creditedOut: number, received: number, netPaid: number}}
+ */
+export function summarizeLedger(entries) {
+  const sum = type => roundCents(entries
+    .filter(entry => entry.entry_type === type)
+    .reduce((total, entry) => total + Number(entry.amount), 0));
+
+  const paid = sum('payment');
+  const refunded = sum('refund');
+  const chargedBack = sum('chargeback');
+  const creditApplied = sum('credit_applied');
+  const creditedOut = sum('overpayment_credited');
+  return {
+    paid,
+    refunded,
+    chargedBack,
+    creditApplied,
+    creditedOut,
+    received: roundCents(paid + creditApplied - chargedBack),
+    netPaid: roundCents(paid + creditApplied - refunded - chargedBack - creditedOut)
+  };
+}
+
+/**
+ * The payment status an invoice's balance implies.
+ *
+ * @param {{totalAmount: number, received: number, netPaid: number, dueDate: string|null, today: string}} params
+ *   received and netPaid as from summarizeLedger
+ */
+export function paymentStatusForBalance({ totalAmount, received, netPaid, dueDate, today }) {
+  if (received > 0 && netPaid >= totalAmount) return 'paid';
+  if (netPaid > 0) return 'partial';
+  if (received > 0) return 'refunded';
+  return dueDate && dueDate < today ? 'overdue' : 'due';
+}
+
+/**
+ * Validate a payment recorded by hand (check, cash, a card taken by phone).
+ */
+export function validatePaymentInput(input = {}, today) {
+  const amount = parseAmount(input.amount, 'Payment amount');
+
+  const method = input.method;
+  if (!PAYMENT_METHODS.includes(method)) {
+    throw badRequest(`Payment method must be one of ${PAYMENT_METHODS.join(', ')}`);
+  }
+
+  const receivedOn = input.receivedOn || today;
+  if (!DATE_PATTERN.test(receivedOn)) throw badRequest('Received date must be YYYY-MM-DD');
+  if (receivedOn > today) throw badRequest('Received date cannot be in the future');
+
+  return {
+    amount,
+    method,
+    receivedOn,
+    reference: optionalText(input.reference),
+    notes: optionalText(input.notes)
+  };
+}
+
+/**
+ * Validate a refund of `payment`, of which `alreadyRefunded` has been
+ * returned before: refunded, charged back or, for an overpayment, moved to
+ * credit. The amount defaults to what is left.
+ */
+export function validateRefundInput(input = {}, payment, alreadyRefunded = 0) {
+  const reason = optionalText(input.reason);
+  if (!reason) throw badRequest('A reason is required to issue a refund');
+  if (payment.entry_type !== 'payment') throw badRequest('Only payments can be refunded');
+
+  const remaining = roundCents(Number(payment.amount) - alreadyRefunded);
+  if (remaining <= 0) throw badRequest('Payment has already been fully refunded');
+
+  const amount = input.amount === undefined || input.amount === null || input.amount === ''
+    ? remaining
+    : parseAmount(input.amount, 'Refund amount');
+  if (amount > remaining) throw badRequest(`Refund cannot exceed the remaining ${remaining.toFixed(2)}`);
+
+  const destination = input.destination || 'original';
+  if (!REFUND_DESTINATIONS.includes(destination)) {
+    throw badRequest(`Refund destination must be one of ${REFUND_DESTINATIONS.join(', ')}`);
+  }
+
+  return { amount, reason, destination };
+}
+
+async function lockInvoice(db, invoiceId) {
+  const result = await db.query(`
+    SELECT id, invoice_number, business_id, invoice_status, invoice_type, payment_status,
+           total_amount, amount_paid, currency, due_date::date::text AS due_date, CURRENT_DATE::text AS today
+      FROM invoices
+     WHERE id = $1
+     FOR UPDATE
+  `, [invoiceId]);
+  if (result.rows.length === 0) throw notFound('Invoice not found');
+
+  const invoice = result.rows[0];
+  if (invoice.invoice_status !== 'issued' || invoice.invoice_type === 'credit_note') {
+    throw badRequest('Payments are only recorded on issued invoices');
+  }
+  return invoice;
+}
+
+/**
+ * Recompute an invoice's totals and payment status from its ledger.
+ * Comped invoices keep their status.
+ *
+ * @returns {Promise<object>} the updated invoice
+ */
+export async function recalculateInvoiceBalance(db, invoiceId) {
+  const [invoiceResult, entriesResult] = await Promise.all([
+    db.query(`
+      SELECT total_amount, due_date::date::text AS due_date, CURRENT_DATE::text AS today
+        FROM invoices WHERE id = $1
+    `, [invoiceId]),
+    db.query(`SELECT entry_type, amount FROM invoice_payments WHERE invoice_id = $1`, [invoiceId])
+  ]);
+  const invoice = invoiceResult.rows[0];
+  const ledger = summarizeLedger(entriesResult.rows);
+  const paymentStatus = paymentStatusForBalance({
+    totalAmount: Number(invoice.total_amount),
+    received: ledger.received,
+    netPaid: ledger.netPaid,
+    dueDate: invoice.due_date,
+    today: invoice.today
+  });
+
+  const result = await db.query(`
+    UPDATE invoices
+       SET amount_paid = $2,
+           amount_refunded = $3,
+           payment_status = CASE WHEN payment_status = 'comped' THEN payment_status ELSE $4 END,
+           payment_date = CASE
+             WHEN $4 = 'paid' THEN COALESCE(payment_date, NOW())
+             WHEN $4 = 'refunded' THEN payment_date
+           END,
+           updated_at = NOW()
+     WHERE id = $1
+     RETURNING id, invoice_number, invoice_status, payment_status, total_amount, amount_paid, currency, business_id
+  `, [invoiceId, ledger.netPaid, ledger.refunded, paymentStatus]);
+  return result.rows[0];
+}
+
+async function insertEntry(db, invoice, entry) {
+  const result = await db.query(`
+    INSERT INTO invoice_payments (
+      invoice_id, business_id, entry_type, method, amount, reference, notes, received_on,
+      refunded_payment_id, stripe_payment_intent_id, stripe_charge_id, stripe_refund_id,
+      stripe_event_id, recorded_by_employee_id
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8::date, CURRENT_DATE), $9, $10, $11, $12, $13, $14)
+    ON CONFLICT DO NOTHING
+    RETURNING *
+  `, [
+    invoice.id,
+    invoice.business_id,
+    entry.entryType,
+    entry.method,
+    entry.amount,
+    entry.reference ?? null,
+    entry.notes ?? null,
+    entry.receivedOn ?? null,
+    entry.refundedPaymentId ?? null,
+    entry.stripePaymentIntentId ?? null,
+    entry.stripeChargeId ?? null,
+    entry.stripeRefundId ?? null,
+    entry.stripeEventId ?? null,
+    entry.employeeId ?? null
+  ]);
+  return result.rows[0] || null;
+}
+
+async function addCredit(db, { businessId, amount, reason, invoiceId, invoicePaymentId = null, notes = null, employeeId = null }) {
+  await db.query(`
+    INSERT INTO business_credit_transactions (
+      business_id, amount, reason, invoice_id, invoice_payment_id, notes, created_by_employee_id
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+  `, [businessId, amount, reason, invoiceId, invoicePaymentId, notes, employeeId]);
+}
+
+/**
+ * A business's available credit.
+ */
+export async function getCreditBalance(db, businessId) {
+  const result = await db.query(
+    `SELECT COALESCE(SUM(amount), 0) AS balance FROM business_credit_transactions WHERE business_id = $1`,
+    [businessId]
+  );
+  return roundCents(Number(result.rows[0].balance));
+}
+
+/**
+ * Record a payment. Anything beyond the balance due goes to the business's
+ * credit balance. A Stripe payment already recorded is skipped.
+ *
+ * @param {object} payment - validated: {amount, method, receivedOn?, reference?, notes?,
+ *   stripePaymentIntentId?, stripeChargeId?, stripeEventId?}
+ * @param {{employeeId?: string, historyAction?: string, historyDetails?: object}} options
+ * @returns {Promise<{payment: object, overpayment: number, invoice: object}|null>} null when a duplicate
+ */
+export async function recordPayment(db, invoiceId, payment, { employeeId = null, historyAction = 'payment_recorded', historyDetails = {} } = {}) {
+  const invoice = await lockInvoice(db, invoiceId);
+  const entry = await insertEntry(db, invoice, { ...payment, entryType: 'payment', employeeId });
+  if (!entry) return null;
+
+  const balanceDue = roundCents(Number(invoice.total_amount) - Number(invoice.amount_paid));
+  const overpayment = roundCents(payment.amount - Math.max(balanceDue, 0));
+  if (overpayment > 0) {
+    const moved = await insertEntry(db, invoice, {
+      entryType: 'overpayment_credited',
+      method: 'credit',
+      amount: overpayment,
+      notes: 'Overpayment moved to credit balance',
+      refundedPaymentId: entry.id,
+      employeeId
+    });
+    await addCredit(db, {
+      businessId: invoice.business_id,
+      amount: overpayment,
+      reason: 'overpayment',
+      invoiceId,
+      invoicePaymentId: moved.id,
+      employeeId
+    });
+  }
+
+  const updated = await recalculateInvoiceBalance(db, invoiceId);
+  await recordInvoiceHistory(db, {
+    invoiceId,
+    action: historyAction,
+    details: {
+      ...historyDetails,
+      from: invoice.payment_status,
+      to: updated.payment_status,
+      amount: payment.amount,
+      method: payment.method,
+      reference: payment.reference ?? null,
+      overpayment: overpayment > 0 ? overpayment : 0
+    },
+    employeeId
+  });
+  return { payment: entry, overpayment: Math.max(overpayment, 0), invoice: updated };
+}
+
+async function lockPayment(db, invoiceId, paymentId) {
+  const result = await db.query(`
+    SELECT p.*,
+           COALESCE((SELECT SUM(r.amount) FROM invoice_payments r WHERE r.refunded_payment_id = p.id), 0) AS refunded
+      FROM invoice_payments p
+     WHERE p.id = $1 AND p.invoice_id = $2
+  `, [paymentId, invoiceId]);
+  if (result.rows.length === 0) throw notFound('Payment not found');
+  return result.rows[0];
+}
+
+/**
+ * Record a refund of a payment. `refund` is validated; money going back to
+ * the payer through Stripe must already have been refunded there
+ * (stripeRefundId / stripeEventId). With entryType 'chargeback' it records
+ * a lost dispute instead.
+ *
+ * @returns {Promise<{refund: object, invoice: object}|null>} null when already recorded
+ */
+export async function recordRefund(db, invoiceId, payment, refund, { employeeId = null, historyAction = 'refund_recorded', historyDetails = {} } = {}) {
+  const invoice = await lockInvoice(db, invoiceId);
+  const toCredit = refund.destination === 'credit';
+  const entry = await insertEntry(db, invoice, {
+    entryType: refund.entryType || 'refund',
+    method: toCredit ? 'credit' : payment.method,
+    amount: refund.amount,
+    notes: refund.reason,
+    refundedPaymentId: payment.id,
+    stripeChargeId: payment.stripe_charge_id,
+    stripeRefundId: refund.stripeRefundId,
+    stripeEventId: refund.stripeEventId,
+    employeeId
+  });
+  if (!entry) return null;
+
+  if (toCredit) {
+    await addCredit(db, {
+      businessId: invoice.business_id,
+      amount: refund.amount,
+      reason: 'refund',
+      invoiceId,
+      invoicePaymentId: entry.id,
+      notes: refund.reason,
+      employeeId
+    });
+  }
+
+  const updated = await recalculateInvoiceBalance(db, invoiceId);
+  await recordInvoiceHistory(db, {
+    invoiceId,
+    action: historyAction,
+    reason: refund.reason,
+    details: {
+      ...historyDetails,
+      from: invoice.payment_status,
+      to: updated.payment_status,
+      amount: refund.amount,
+      destination: refund.destination,
+      method: entry.method
+    },
+    employeeId
+  });
+  return { refund: entry, invoice: updated };
+}
+
+/**
+ * Put a Stripe payment for an invoice that no longer takes payments (voided
+ * while the client was paying) on the business's credit balance, so the
+ * money is kept, and note it in the invoice history for review.
+ *
+ * @param {object} invoice - {id, business_id, invoice_status}
+ * @param {{amount: number, stripePaymentIntentId: string, stripeEventId?: string}} payment
+ */
+export async function creditUnappliedPayment(db, invoice, payment) {
+  await db.query(`SELECT id FROM businesses WHERE id = $1 FOR UPDATE`, [invoice.business_id]);
+  await addCredit(db, {
+    businessId: invoice.business_id,
+    amount: payment.amount,
+    reason: 'overpayment',
+    invoiceId: invoice.id,
+    notes: `Payment ${payment.stripePaymentIntentId} received after the invoice was ${invoice.invoice_status}`
+  });
+  await recordInvoiceHistory(db, {
+    invoiceId: invoice.id,
+    action: 'payment_credited',
+    reason: `Invoice was ${invoice.invoice_status} when the payment arrived`,
+    details: {
+      amount: payment.amount,
+      paymentIntentId: payment.stripePaymentIntentId,
+      stripeEventId: payment.stripeEventId ?? null
+    }
+  });
+}
+
+/**
+ * Take an overpayment Stripe refunded to the card off the business's credit
+ * balance: the part of a refund beyond what the payment still holds on the
+ * invoice. The balance may go negative if the credit was already spent.
+ */
+export async function recordOverpaymentRefund(db, invoiceId, payment, amount, { stripeEventId = null } = {}) {
+  const invoice = await lockInvoice(db, invoiceId);
+  await db.query(`SELECT id FROM businesses WHERE id = $1 FOR UPDATE`, [invoice.business_id]);
+  await addCredit(db, {
+    businessId: invoice.business_id,
+    amount: -amount,
+    reason: 'overpayment_refunded',
+    invoiceId,
+    invoicePaymentId: payment.id,
+    notes: 'Overpayment refunded in Stripe'
+  });
+  await recordInvoiceHistory(db, {
+    invoiceId,
+    action: 'overpayment_refunded',
+    details: { amount, stripeEventId }
+  });
+}
+
+/**
+ * Refund a payment from the admin ledger. Stripe payments refunded to the
+ * payer go back through Stripe; the invoice stays locked until the refund is
+ * recorded so the charge.refunded webhook cannot record it a second time.
+ */
+export async function refundPayment(db, invoiceId, paymentId, input, { employeeId = null } = {}) {
+  const invoice = await lockInvoice(db, invoiceId);
+  const payment = await lockPayment(db, invoiceId, paymentId);
+  const refund = validateRefundInput(input, payment, Number(payment.refunded));
+
+  let stripeRefundId = null;
+  if (refund.destination === 'original' && STRIPE_METHODS.includes(payment.method) && payment.stripe_payment_intent_id) {
+    const { createRefund } = await import('./stripeService.js');
+    const stripeRefund = await createRefund({
+      paymentIntentId: payment.stripe_payment_intent_id,
+      amount: refund.amount,
+      currency: invoice.currency.toLowerCase(),
+      metadata: { invoiceId, invoicePaymentId: payment.id },
+      idempotencyKey: `refund-${payment.id}-${Math.round(Number(payment.refunded) * 100)}-${Math.round(refund.amount * 100)}`
+    });
+    stripeRefundId = stripeRefund.id;
+  }
+
+  const recorded = await recordRefund(db, invoiceId, payment, { ...refund, stripeRefundId }, {
+    employeeId,
+    historyDetails: stripeRefundId ? { stripeRefundId } : {}
+  });
+  // A retried request gets the same Stripe refund back
+  if (!recorded) throw badRequest('This refund has already been recorded');
+  return recorded;
+}
+
+/**
+ * Pay an invoice from the business's credit balance. The amount defaults to
+ * as much of the balance due as the credit covers.
+ *
+ * @returns {Promise<{applied: number, creditBalance: number, invoice: object}>}
+ */
+export async function applyCredit(db, invoiceId, input = {}, { employeeId = null } = {}) {
+  const invoice = await lockInvoice(db, invoiceId);
+  // Serialises credit use across a business's invoices
+  await db.query(`SELECT id FROM businesses WHERE id = $1 FOR UPDATE`, [invoice.business_id]);
+
+  const available = await getCreditBalance(db, invoice.business_id);
+  const balanceDue = roundCents(Number(invoice.total_amount) - Number(invoice.amount_paid));
+  if (balanceDue <= 0) throw badRequest('Invoice has no balance due');
+  if (available <= 0) throw badRequest('No credit balance available');
+
+  const requested = input.amount === undefined || input.amount === null || input.amount === ''
+    ? Math.min(available, balanceDue)
+    : parseAmount(input.amount, 'Credit amount');
+  if (requested > available) throw badRequest(`Only ${available.toFixed(2)} of credit is available`);
+  if (requested > balanceDue) throw badRequest(`Credit cannot exceed the balance due of ${balanceDue.toFixed(2)}`);
+
+  const entry = await insertEntry(db, invoice, {
+    entryType: 'credit_applied',
+    method: 'credit',
+    amount: requested,
+    notes: optionalText(input.notes),
+    employeeId
+  });
+  await addCredit(db, {
+    businessId: invoice.business_id,
+    amount: -requested,
+    reason: 'applied',
+    invoiceId,
+    invoicePaymentId: entry.id,
+    employeeId
+  });
+
+  const updated = await recalculateInvoiceBalance(db, invoiceId);
+  await recordInvoiceHistory(db, {
+    invoiceId,
+    action: 'credit_applied',
+    details: { from: invoice.payment_status, to: updated.payment_status, amount: requested },
+    employeeId
+  });
+  return { applied: requested, creditBalance: roundCents(available - requested), invoice: updated };
+}
+
+/**
+ * An invoice's ledger, oldest first, with who recorded each entry.
+ */
+export async function getInvoiceLedger(db, invoiceId) {
+  const result = await db.query(`
+    SELECT p.id, p.entry_type, p.method, p.amount, p.reference, p.notes,
+           p.received_on::text AS received_on, p.refunded_payment_id,
+           p.stripe_payment_intent_id, p.stripe_refund_id, p.created_at,
+           COALESCE((SELECT SUM(r.amount) FROM invoice_payments r WHERE r.refunded_payment_id = p.id), 0) AS refunded,
+           CONCAT(e.first_name, ' ', e.last_name) AS recorded_by_name
+      FROM invoice_payments p
+      LEFT JOIN employees e ON p.recorded_by_employee_id = e.id
+     WHERE p.invoice_id = $1
+     ORDER BY p.received_on, p.created_at
+  `, [invoiceId]);
+  return result.rows;
+}
+
+export default {
+  PAYMENT_METHODS,
+  REFUND_DESTINATIONS,
+  summarizeLedger,
+  paymentStatusForBalance,
+  validatePaymentInput,
+  validateRefundInput,
+  recalculateInvoiceBalance,
+  getCreditBalance,
+  recordPayment,
+  recordRefund,
+  recordOverpaymentRefund,
+  creditUnappliedPayment,
+  refundPayment,
+  applyCredit,
+  getInvoiceLedger
+};
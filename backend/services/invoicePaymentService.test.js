@@ -0,0 +1,185 @@
+// Tests for invoicePaymentService — the ledger totals, the status a balance
+// implies and input validation, and recording entries against an in-memory
+// ledger.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  summarizeLedger,
+  paymentStatusForBalance,
+  validatePaymentInput,
+  validateRefundInput,
+  recordPayment,
+  refundPayment,
+  getCreditBalance
+} from './invoicePaymentService.js';
+
+const today = '2026-10-18';
+
+// ----- summarizeLedger -----
+
+test('summarizeLedger: net paid is what the invoice still holds', () => {
+  assert.deepEqual(summarizeLedger([
+    { entry_type: 'payment', amount: '100.00' },
+    { entry_type: 'payment', amount: '200.00' },
+    { entry_type: 'overpayment_credited', amount: '50.00' },
+    { entry_type: 'refund', amount: '25.10' },
+    { entry_type: 'credit_applied', amount: '10.00' }
+  ]), {
+    paid: 300,
+    refunded: 25.1,
+    chargedBack: 0,
+    creditApplied: 10,
+    creditedOut: 50,
+    received: 310,
+    netPaid: 234.9
+  });
+});
+
+test('summarizeLedger: chargebacks are not counted as received', () => {
+  const ledger = summarizeLedger([
+    { entry_type: 'payment', amount: '250.00' },
+    { entry_type: 'chargeback', amount: '250.00' }
+  ]);
+  assert.equal(ledger.received, 0);
+  assert.equal(ledger.netPaid, 0);
+  assert.equal(ledger.refunded, 0);
+});
+
+// ----- paymentStatusForBalance -----
+
+test('paymentStatusForBalance: follows the running balance', () => {
+  const status = (received, netPaid, dueDate = '2026-10-31') =>
+    paymentStatusForBalance({ totalAmount: 250, received, netPaid, dueDate, today });
+
+  assert.equal(status(0, 0), 'due');
+  assert.equal(status(0, 0, '2026-10-01'), 'overdue');
+  assert.equal(status(100, 100), 'partial');
+  assert.equal(status(250, 250), 'paid');
+  assert.equal(status(250, 150), 'partial');
+  assert.equal(status(250, 0), 'refunded');
+});
+
+test('paymentStatusForBalance: a zero invoice is only paid once something is received', () => {
+  assert.equal(paymentStatusForBalance({ totalAmount: 0, received: 0, netPaid: 0, dueDate: null, today }), 'due');
+});
+
+// ----- validatePaymentInput -----
+
+test('validatePaymentInput: rounds, defaults the date and trims text', () => {
+  assert.deepEqual(validatePaymentInput({ amount: '99.999', method: 'check', reference: ' 1042 ', notes: '' }, today), {
+    amount: 100,
+    method: 'check',
+    receivedOn: today,
+    reference: '1042',
+    notes: null
+  });
+});
+
+test('validatePaymentInput: rejects bad amounts, methods and dates', () => {
+  assert.throws(() => validatePaymentInput({ amount: 0, method: 'cash' }, today), /greater than 0/);
+  assert.throws(() => validatePaymentInput({ amount: 10, method: 'credit' }, today), /Payment method/);
+  assert.throws(() => validatePaymentInput({ amount: 10, method: 'cash', receivedOn: '18/10/2026' }, today), /YYYY-MM-DD/);
+  assert.throws(() => validatePaymentInput({ amount: 10, method: 'cash', receivedOn: '2026-10-19' }, today), /future/);
+});
+
+// ----- validateRefundInput -----
+
+const payment = { id: 'pay_1', entry_type: 'payment', method: 'card', amount: '250.00' };
+
+test('validateRefundInput: defaults to what is left, back to the payer', () => {
+  assert.deepEqual(validateRefundInput({ reason: 'Duplicate charge' }, payment, 100), {
+    amount: 150,
+    reason: 'Duplicate charge',
+    destination: 'original'
+  });
+  assert.equal(validateRefundInput({ reason: 'Goodwill', amount: 20, destination: 'credit' }, payment).destination, 'credit');
+});
+
+test('validateRefundInput: needs a reason and stays within the payment', () => {
+  assert.throws(() => validateRefundInput({ amount: 10 }, payment), /reason/);
+  assert.throws(() => validateRefundInput({ reason: 'x', amount: 200 }, payment, 100), /remaining 150.00/);
+  assert.throws(() => validateRefundInput({ reason: 'x' }, payment, 250), /fully refunded/);
+  assert.throws(() => validateRefundInput({ reason: 'x', destination: 'cash' }, payment), /destination/);
+  assert.throws(
+    () => validateRefundInput({ reason: 'x' }, { ...payment, entry_type: 'credit_applied' }),
+    /Only payments/
+  );
+});
+
+// ----- recording entries -----
+
+// Just enough of invoices, invoice_payments and business_credit_transactions
+// for the queries the service sends
+function ledgerDb(invoice) {
+  const entries = [];
+  const credits = [];
+  const returned = id => entries
+    .filter(entry => entry.refunded_payment_id === id)
+    .reduce((total, entry) => total + entry.amount, 0);
+  return {
+    async query(sql, params = []) {
+      if (/INSERT INTO invoice_payments/.test(sql)) {
+        const entry = {
+          id: `entry-${entries.length + 1}`,
+          entry_type: params[2],
+          method: params[3],
+          amount: params[4],
+          refunded_payment_id: params[8]
+        };
+        entries.push(entry);
+        return { rows: [entry] };
+      }
+      if (/INSERT INTO business_credit_transactions/.test(sql)) {
+        credits.push({ amount: params[1], reason: params[2] });
+        return { rows: [] };
+      }
+      if (/FROM business_credit_transactions/.test(sql)) {
+        return { rows: [{ balance: credits.reduce((total, credit) => total + credit.amount, 0) }] };
+      }
+      if (/FROM invoice_payments p\s+WHERE p\.id/.test(sql)) {
+        const entry = entries.find(e => e.id === params[0]);
+        return { rows: entry ? [{ ...entry, refunded: returned(entry.id) }] : [] };
+      }
+      if (/SELECT entry_type, amount FROM invoice_payments/.test(sql)) return { rows: entries };
+      if (/UPDATE invoices/.test(sql)) {
+        Object.assign(invoice, { amount_paid: params[1], amount_refunded: params[2], payment_status: params[3] });
+        return { rows: [invoice] };
+      }
+      if (/FROM invoices/.test(sql)) return { rows: [{ ...invoice, today }] };
+      return { rows: [] };
+    }
+  };
+}
+
+test('recordPayment and refundPayment: a credited overpayment is not refunded as well', async () => {
+  const db = ledgerDb({
+    id: 'inv-1',
+    business_id: 'biz-1',
+    invoice_status: 'issued',
+    invoice_type: 'manual',
+    payment_status: 'due',
+    total_amount: '100.00',
+    amount_paid: '0.00',
+    currency: 'USD',
+    due_date: '2026-10-31'
+  });
+
+  const paid = await recordPayment(db, 'inv-1', { amount: 150, method: 'check' });
+  assert.equal(paid.overpayment, 50);
+  assert.equal(await getCreditBalance(db, 'biz-1'), 50);
+
+  await assert.rejects(
+    refundPayment(db, 'inv-1', paid.payment.id, { reason: 'Cancelled', amount: 150 }),
+    /remaining 100.00/
+  );
+  const refunded = await refundPayment(db, 'inv-1', paid.payment.id, { reason: 'Cancelled' });
+  assert.equal(refunded.refund.amount, 100);
+  assert.equal(refunded.invoice.payment_status, 'refunded');
+  assert.equal(await getCreditBalance(db, 'biz-1'), 50);
+
+  await assert.rejects(
+    refundPayment(db, 'inv-1', paid.payment.id, { reason: 'Cancelled' }),
+    /fully refunded/
+  );
+});
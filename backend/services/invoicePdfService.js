@@ -0,0 +1,422 @@
+/**
+ * Branded invoice PDFs, and emailing them to the business's contact.
+ *
+ * The document is built from the same records the on-screen viewers use:
+ * the company_settings header (company_name, company_address_line1, ...),
+ * the business and its logo, the invoice's line items and totals. Unpaid
+ * issued invoices carry a link to pay online in the client portal. Drafts
+ * render with a DRAFT banner for review but are never emailed.
+ *
+ * Every send is appended to invoice_history (action 'emailed').
+ */
+import PDFDocument from 'pdfkit';
+import { emailService } from './emailService.js';
+import { recordInvoiceHistory } from './invoiceService.js';
+import { DEFAULT_CURRENCY, formatCurrency } from './currencyService.js';
+
+const PORTAL_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+// Payment statuses that still have money owing
+const PAYABLE_STATUSES = ['due', 'overdue', 'failed', 'partial'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_MESSAGE_LENGTH = 2000;
+
+const COMPANY_SETTING_KEYS = [
+  'company_name',
+  'company_address_line1',
+  'company_address_line2',
+  'company_city',
+  'company_state',
+  'company_zip',
+  'company_phone',
+  'company_email'
+];
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function escapeHtml(text) {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * "$1,234.50" / "-€12.00" in the invoice's currency (USD when not given).
+ */
+export function formatMoney(amount, currency = DEFAULT_CURRENCY) {
+  const value = Number(amount) || 0;
+  return `${value < 0 ? '-' : ''}${formatCurrency(Math.abs(value), (currency || DEFAULT_CURRENCY).trim())}`;
+}
+
+function formatDate(date) {
+  if (!date) return '';
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC'
+  });
+}
+
+/**
+ * The image bytes of a data: URL logo (PNG or JPEG, the formats PDFKit
+ * embeds); null for anything else, including remote URLs, which are not
+ * fetched.
+ */
+export function parseLogoDataUrl(logoUrl) {
+  const match = /^data:image\/(png|jpe?g);base64,(.+)$/i.exec(logoUrl || '');
+  return match ? Buffer.from(match[2], 'base64') : null;
+}
+
+/**
+ * Link to pay the invoice online, or null when nothing is owed on it.
+ */
+export function invoicePaymentUrl(invoice) {
+  if (invoice.invoice_status !== 'issued' || invoice.invoice_type === 'credit_note') return null;
+  if (!PAYABLE_STATUSES.includes(invoice.payment_status)) return null;
+  return `${PORTAL_URL}/clogin`;
+}
+
+/**
+ * Validate the body of an email request. The recipient defaults to the
+ * invoice's contact.
+ */
+export function validateEmailInput(input = {}, defaultRecipient = null) {
+  const to = typeof input.to === 'string' && input.to.trim() ? input.to.trim() : defaultRecipient;
+  if (!to) throw badRequest('The business has no contact email; enter a recipient');
+  if (!EMAIL_PATTERN.test(to)) throw badRequest('Recipient must be a valid email address');
+
+  const message = typeof input.message === 'string' ? input.message.trim() : '';
+  if (message.length > MAX_MESSAGE_LENGTH) {
+    throw badRequest(`Message must be at most ${MAX_MESSAGE_LENGTH} characters`);
+  }
+  return { to, message: message || null };
+}
+
+/**
+ * Everything the PDF shows for one invoice. With `clientId` only an issued
+ * or void invoice of that client's business is returned.
+ *
+ * @returns {Promise<object|null>} null if not found
+ */
+export async function loadInvoiceDocument(db, invoiceId, { clientId = null } = {}) {
+  const params = [invoiceId];
+  let clientFilter = '';
+  if (clientId) {
+    params.push(clientId);
+    clientFilter = `AND i.invoice_status <> 'draft'
+      AND EXISTS (SELECT 1 FROM users cu WHERE cu.id = $2 AND cu.business_id = i.business_id)`;
+  }
+
+  const result = await db.query(`
+    SELECT i.id, i.invoice_number, i.invoice_type, i.invoice_status, i.payment_status,
+           i.subtotal, i.tax_rate, i.tax_amount, i.total_amount, i.amount_paid,
+           i.currency, i.tax_breakdown,
+           i.issue_date::date::text AS issue_date, i.due_date::date::text AS due_date,
+           i.payment_date::date::text AS payment_date,
+           i.billing_period_start::text AS billing_period_start, i.billing_period_end::text AS billing_period_end,
+           i.work_description, i.notes, i.void_reason, i.credit_reason, i.stripe_payment_link_url,
+           i.business_id, b.business_name, b.logo_url,
+           hq.street_address_1, hq.street_address_2, hq.city, hq.state, hq.zip_code,
+           sr.request_number, sr.title AS service_title,
+           cf.invoice_number AS credit_for_invoice_number,
+           COALESCE(sr.primary_contact_name, NULLIF(TRIM(CONCAT(pc.first_name, ' ', pc.last_name)), '')) AS contact_name,
+           COALESCE(sr.primary_contact_email, pc.email) AS contact_email,
+           COALESCE(sr.primary_contact_phone, pc.phone) AS contact_phone
+      FROM invoices i
+      JOIN businesses b ON i.business_id = b.id
+      LEFT JOIN service_locations hq ON hq.business_id = b.id AND hq.is_headquarters = true
+      LEFT JOIN service_requests sr ON i.service_request_id = sr.id
+      LEFT JOIN invoices cf ON i.credit_for_invoice_id = cf.id
+      LEFT JOIN LATERAL (
+        SELECT u.first_name, u.last_name, u.email, u.phone
+          FROM users u
+         WHERE u.business_id = i.business_id AND u.soft_delete = false AND u.email IS NOT NULL
+         ORDER BY u.is_primary_contact DESC NULLS LAST, u.created_at
+         LIMIT 1
+      ) pc ON true
+     WHERE i.id = $1 ${clientFilter}
+     LIMIT 1
+  `, params);
+  const invoice = result.rows[0];
+  if (!invoice) return null;
+
+  const [lineItems, settings] = await Promise.all([
+    db.query(`
+      SELECT li.description, li.item_type, li.quantity, li.unit_price, li.amount, li.taxable,
+             li.product_ref, sr.request_number
+        FROM invoice_line_items li
+        LEFT JOIN service_requests sr ON li.service_request_id = sr.id
+       WHERE li.invoice_id = $1
+       ORDER BY li.sort_order
+    `, [invoiceId]),
+    db.query(
+      `SELECT setting_key, setting_value FROM company_settings WHERE setting_key = ANY($1::text[])`,
+      [COMPANY_SETTING_KEYS]
+    )
+  ]);
+
+  return {
+    invoice,
+    lineItems: lineItems.rows,
+    companyInfo: Object.fromEntries(settings.rows.map(row => [row.setting_key, row.setting_value]))
+  };
+}
+
+/**
+ * File name for an invoice PDF, e.g. INV-20261018-0003.pdf
+ */
+export function invoicePdfFilename(invoice) {
+  return `${invoice.invoice_number.replace(/[^A-Za-z0-9-]+/g, '-')}.pdf`;
+}
+
+/**
+ * Render a document (as returned by loadInvoiceDocument) to PDF.
+ * `paymentUrl` replaces the portal link, e.g. with a Stripe payment link.
+ *
+ * @returns {Promise<Buffer>}
+ */
+export function renderInvoicePdf({ invoice, lineItems, companyInfo }, { paymentUrl = invoicePaymentUrl(invoice) } = {}) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'LETTER', margin: 50 });
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = doc.page.margins.left;
+    const right = doc.page.width - doc.page.margins.right;
+    const width = right - left;
+    const accent = '#1e3a8a';
+    const muted = '#555555';
+    const isCredit = invoice.invoice_type === 'credit_note';
+    const money = amount => formatMoney(amount, invoice.currency);
+
+    // Company header (left) and invoice facts (right)
+    const companyName = companyInfo.company_name || 'Romero Tech Solutions';
+    const companyLines = [
+      companyInfo.company_address_line1,
+      companyInfo.company_address_line2,
+      [companyInfo.company_city, [companyInfo.company_state, companyInfo.company_zip].filter(Boolean).join(' ')]
+        .filter(Boolean).join(', '),
+      companyInfo.company_phone,
+      companyInfo.company_email
+    ].filter(Boolean);
+
+    doc.fontSize(18).font('Helvetica-Bold').fillColor(accent).text(companyName, left, 50, { width: width / 2 });
+    doc.fontSize(9).font('Helvetica').fillColor(muted);
+    companyLines.forEach(text => doc.text(text, { width: width / 2 }));
+    const headerBottom = doc.y;
+
+    const facts = [
+      ['Invoice #', invoice.invoice_number],
+      ['Issued', formatDate(invoice.issue_date)],
+      ...(isCredit ? [['Credit for', invoice.credit_for_invoice_number]] : [['Due', formatDate(invoice.due_date)]]),
+      ...(invoice.billing_period_start
+        ? [['Period', `${formatDate(invoice.billing_period_start)} - ${formatDate(invoice.billing_period_end)}`]]
+        : [])
+    ];
+    doc.fontSize(20).font('Helvetica-Bold').fillColor('#000000')
+      .text(isCredit ? 'CREDIT NOTE' : 'INVOICE', left + width / 2, 50, { width: width / 2, align: 'right' });
+    doc.fontSize(9);
+    facts.forEach(([label, value]) => {
+      doc.font('Helvetica').fillColor(muted).text(`${label}: `, { width: width / 2, align: 'right', continued: true })
+        .font('Helvetica-Bold').fillColor('#000000').text(String(value ?? ''));
+    });
+
+    doc.y = Math.max(doc.y, headerBottom) + 20;
+
+    // Status banner
+    const banner = invoice.invoice_status === 'draft' ? ['DRAFT - not yet issued', '#b45309']
+      : invoice.invoice_status === 'void' ? [`VOID${invoice.void_reason ? ` - ${invoice.void_reason}` : ''}`, '#b91c1c']
+      : invoice.payment_status === 'paid' ? [`PAID${invoice.payment_date ? ` ${formatDate(invoice.payment_date)}` : ''}`, '#15803d']
+      : invoice.payment_status === 'overdue' ? ['OVERDUE', '#b91c1c']
+      : null;
+    if (banner) {
+      doc.fontSize(12).font('Helvetica-Bold').fillColor(banner[1]).text(banner[0], left, doc.y, { width, align: 'center' });
+      doc.moveDown(0.8);
+    }
+
+    // Bill to, with the business logo beside it
+    const billToTop = doc.y;
+    const logo = parseLogoDataUrl(invoice.logo_url);
+    let logoBottom = billToTop;
+    if (logo) {
+      try {
+        doc.image(logo, right - 120, billToTop, { fit: [120, 50], align: 'right' });
+        logoBottom = billToTop + 50;
+      } catch {
+        // An undecodable logo is left off rather than failing the invoice
+      }
+    }
+    doc.fontSize(9).font('Helvetica-Bold').fillColor(accent).text('BILL TO', left, billToTop);
+    doc.fontSize(10).font('Helvetica-Bold').fillColor('#000000').text(invoice.business_name, { width: width - 140 });
+    doc.font('Helvetica').fontSize(9);
+    [
+      invoice.street_address_1,
+      invoice.street_address_2,
+      [invoice.city, [invoice.state, invoice.zip_code].filter(Boolean).join(' ')].filter(Boolean).join(', '),
+      invoice.contact_name,
+      invoice.contact_email
+    ].filter(Boolean).forEach(text => doc.text(text, { width: width - 140 }));
+    doc.y = Math.max(doc.y, logoBottom) + 12;
+
+    if (invoice.request_number) {
+      doc.fontSize(9).fillColor(muted)
+        .text(`Service request ${invoice.request_number}${invoice.service_title ? ` - ${invoice.service_title}` : ''}`, left);
+    }
+    if (invoice.work_description) {
+      doc.fontSize(9).fillColor(muted).text(invoice.work_description, left, doc.y, { width });
+    }
+    if (isCredit && invoice.credit_reason) {
+      doc.fontSize(9).fillColor(muted).text(`Reason: ${invoice.credit_reason}`, left, doc.y, { width });
+    }
+    doc.moveDown(0.8);
+
+    // Line items
+    const columns = [
+      { label: 'Item', x: left, width: width - 230, align: 'left' },
+      { label: 'Qty', x: right - 225, width: 60, align: 'right' },
+      { label: 'Unit Price', x: right - 160, width: 75, align: 'right' },
+      { label: 'Amount', x: right - 80, width: 80, align: 'right' }
+    ];
+    const drawHeader = () => {
+      const top = doc.y;
+      doc.rect(left, top - 3, width, 18).fill('#f3f4f6');
+      doc.fontSize(9).font('Helvetica-Bold').fillColor('#374151');
+      columns.forEach(column => doc.text(column.label, column.x, top, { width: column.width, align: column.align }));
+      doc.y = top + 20;
+    };
+    drawHeader();
+
+    lineItems.forEach(item => {
+      const details = [item.request_number, item.product_ref].filter(Boolean).join(' · ');
+      const quantity = `${Number(item.quantity)}${item.item_type === 'labor' ? ' hrs' : ''}`;
+      doc.fontSize(9).font('Helvetica');
+      const rowHeight = doc.heightOfString(item.description, { width: columns[0].width }) + (details ? 11 : 0);
+      if (doc.y + rowHeight > doc.page.height - doc.page.margins.bottom - 40) {
+        doc.addPage();
+        drawHeader();
+      }
+
+      const top = doc.y;
+      doc.fillColor('#000000').text(item.description, columns[0].x, top, { width: columns[0].width });
+      if (details) doc.fontSize(8).fillColor(muted).text(details, columns[0].x, doc.y, { width: columns[0].width });
+      doc.fontSize(9).fillColor('#000000');
+      doc.text(quantity, columns[1].x, top, { width: columns[1].width, align: 'right' });
+      doc.text(money(item.unit_price), columns[2].x, top, { width: columns[2].width, align: 'right' });
+      doc.text(money(item.amount), columns[3].x, top, { width: columns[3].width, align: 'right' });
+      doc.y = top + rowHeight + 6;
+      doc.moveTo(left, doc.y - 3).lineTo(right, doc.y - 3).strokeColor('#e5e7eb').lineWidth(0.5).stroke();
+    });
+
+    // Totals
+    doc.moveDown(0.5);
+    const totalsX = right - 230;
+    const totalLine = (label, value, bold = false) => {
+      const top = doc.y;
+      doc.fontSize(bold ? 11 : 9).font(bold ? 'Helvetica-Bold' : 'Helvetica').fillColor('#000000');
+      doc.text(label, totalsX, top, { width: 145, align: 'right' });
+      doc.text(value, right - 80, top, { width: 80, align: 'right' });
+      doc.moveDown(0.3);
+    };
+    totalLine('Subtotal', money(invoice.subtotal));
+    if (Number(invoice.tax_amount) !== 0) {
+      // One line per component (state, county, city) where the invoice has them
+      const taxLines = invoice.tax_breakdown?.length > 0
+        ? invoice.tax_breakdown
+        : [{ name: 'Tax', rate: invoice.tax_rate, amount: invoice.tax_amount }];
+      taxLines.forEach(tax => {
+        totalLine(`${tax.name} (${(Number(tax.rate) * 100).toFixed(2)}%)`, money(tax.amount));
+      });
+    }
+    totalLine(isCredit ? 'Total credit' : 'Total', money(invoice.total_amount), true);
+    if (!isCredit && Number(invoice.amount_paid) > 0 && invoice.payment_status !== 'paid') {
+      totalLine('Paid', money(-Number(invoice.amount_paid)));
+      totalLine('Balance due', money(Number(invoice.total_amount) - Number(invoice.amount_paid)), true);
+    }
+
+    // How to pay
+    doc.moveDown(1.5);
+    if (paymentUrl) {
+      doc.fontSize(10).font('Helvetica-Bold').fillColor(accent).text('Pay online', left, doc.y, { width });
+      doc.fontSize(9).font('Helvetica').fillColor('#1d4ed8')
+        .text(paymentUrl, left, doc.y, { width, link: paymentUrl, underline: true });
+      doc.fillColor(muted).text(`Payment is due by ${formatDate(invoice.due_date)}.`, left, doc.y, { width });
+    }
+    if (invoice.notes) {
+      doc.moveDown(0.8).fontSize(9).font('Helvetica-Bold').fillColor('#000000').text('Notes', left, doc.y, { width });
+      doc.font('Helvetica').text(invoice.notes, left, doc.y, { width });
+    }
+
+    doc.moveDown(2).fontSize(9).font('Helvetica').fillColor(muted)
+      .text('Thank you for your business!', left, doc.y, { width, align: 'center' });
+
+    doc.end();
+  });
+}
+
+/**
+ * Email an issued or void invoice as a PDF attachment and record the send.
+ *
+ * @param {{to?: string, message?: string}} input  recipient defaults to the invoice contact
+ * @returns {Promise<{to: string, messageId: string}|null>} null if the invoice does not exist
+ */
+export async function emailInvoice(db, invoiceId, input, { employeeId = null } = {}) {
+  const document = await loadInvoiceDocument(db, invoiceId);
+  if (!document) return null;
+
+  const { invoice, companyInfo } = document;
+  if (invoice.invoice_status === 'draft') {
+    throw badRequest('Issue the draft before emailing it');
+  }
+  const { to, message } = validateEmailInput(input, invoice.contact_email);
+
+  const pdf = await renderInvoicePdf(document);
+  const companyName = companyInfo.company_name || 'Romero Tech Solutions';
+  const documentName = invoice.invoice_type === 'credit_note' ? 'Credit note' : 'Invoice';
+  const paymentUrl = invoicePaymentUrl(invoice);
+  const greeting = invoice.contact_name ? `Hello ${invoice.contact_name},` : 'Hello,';
+  const summary = `${documentName} ${invoice.invoice_number} for ${formatMoney(invoice.total_amount, invoice.currency)} is attached.`;
+  const dueLine = paymentUrl ? `Payment is due by ${formatDate(invoice.due_date)}.` : '';
+
+  const sent = await emailService.sendRawEmail({
+    from: `"${process.env.SES_FROM_NAME}" <${process.env.SES_FROM_EMAIL}>`,
+    to,
+    subject: `${documentName} ${invoice.invoice_number} from ${companyName}`,
+    html: `
+      <p>${escapeHtml(greeting)}</p>
+      <p>${escapeHtml(summary)} ${escapeHtml(dueLine)}</p>
+      ${message ? `<p style="white-space: pre-line;">${escapeHtml(message)}</p>` : ''}
+      ${paymentUrl ? `<p><a href="${escapeHtml(paymentUrl)}">Pay online in the client portal</a></p>` : ''}
+      ${emailService.getEmailFooter()}
+    `,
+    text: [greeting, '', `${summary} ${dueLine}`.trim(), message ? `\n${message}` : '', paymentUrl ? `\nPay online: ${paymentUrl}` : '']
+      .filter(line => line !== '').join('\n'),
+    attachments: [{ filename: invoicePdfFilename(invoice), content: pdf, contentType: 'application/pdf' }]
+  });
+
+  await recordInvoiceHistory(db, {
+    invoiceId,
+    action: 'emailed',
+    details: { to, messageId: sent.messageId || null, hasMessage: Boolean(message) },
+    employeeId
+  });
+
+  return { to, messageId: sent.messageId };
+}
+
+export default {
+  formatMoney,
+  parseLogoDataUrl,
+  invoicePaymentUrl,
+  validateEmailInput,
+  loadInvoiceDocument,
+  invoicePdfFilename,
+  renderInvoicePdf,
+  emailInvoice
+};
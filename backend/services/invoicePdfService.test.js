@@ -0,0 +1,116 @@
+// Tests for invoicePdfService — logo decoding, the payment link, email
+// input and the PDF renderer are pure and pinned here. Loading the invoice
+// and sending need a real database and mail transport.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  formatMoney,
+  parseLogoDataUrl,
+  invoicePaymentUrl,
+  validateEmailInput,
+  invoicePdfFilename,
+  renderInvoicePdf,
+} from './invoicePdfService.js';
+
+// 1x1 transparent PNG
+const PNG_DATA_URL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+const issued = {
+  id: 'i-1',
+  invoice_number: 'INV-20261018-0003',
+  invoice_type: 'manual',
+  invoice_status: 'issued',
+  payment_status: 'due',
+  subtotal: '250.00',
+  tax_rate: '0.0775',
+  tax_amount: '19.38',
+  total_amount: '269.38',
+  issue_date: '2026-10-18',
+  due_date: '2026-11-17',
+  business_name: 'Acme Dental',
+  logo_url: PNG_DATA_URL,
+  street_address_1: '1 Main St',
+  city: 'Escondido',
+  state: 'CA',
+  zip_code: '92025',
+  contact_name: 'Dana Lee',
+  contact_email: 'dana@acme.test',
+};
+
+// ----- formatMoney -----
+
+test('formatMoney: two decimals, sign before the dollar', () => {
+  assert.equal(formatMoney('1234.5'), '$1,234.50');
+  assert.equal(formatMoney(-40), '-$40.00');
+});
+
+test('formatMoney: uses the invoice currency', () => {
+  assert.equal(formatMoney(-40, 'EUR'), '-€40.00');
+  assert.equal(formatMoney(1500, 'JPY'), '¥1,500');
+});
+
+// ----- parseLogoDataUrl -----
+
+test('parseLogoDataUrl: decodes PNG/JPEG data URLs only', () => {
+  assert.ok(parseLogoDataUrl(PNG_DATA_URL).subarray(1, 4).equals(Buffer.from('PNG')));
+  assert.equal(parseLogoDataUrl('data:image/svg+xml;base64,PHN2Zz4='), null);
+  assert.equal(parseLogoDataUrl('https://example.com/logo.png'), null);
+  assert.equal(parseLogoDataUrl(null), null);
+});
+
+// ----- invoicePaymentUrl -----
+
+test('invoicePaymentUrl: only unpaid issued invoices link to payment', () => {
+  assert.match(invoicePaymentUrl(issued), /\/clogin$/);
+  assert.equal(invoicePaymentUrl({ ...issued, payment_status: 'paid' }), null);
+  assert.equal(invoicePaymentUrl({ ...issued, invoice_status: 'draft' }), null);
+  assert.equal(invoicePaymentUrl({ ...issued, invoice_type: 'credit_note' }), null);
+});
+
+// ----- validateEmailInput -----
+
+test('validateEmailInput: defaults the recipient to the contact', () => {
+  assert.deepEqual(validateEmailInput({}, 'dana@acme.test'), { to: 'dana@acme.test', message: null });
+  assert.deepEqual(
+    validateEmailInput({ to: ' ap@acme.test ', message: ' Thanks! ' }, 'dana@acme.test'),
+    { to: 'ap@acme.test', message: 'Thanks!' }
+  );
+});
+
+test('validateEmailInput: rejects a missing or malformed recipient', () => {
+  assert.throws(() => validateEmailInput({}, null), /no contact email/);
+  assert.throws(() => validateEmailInput({ to: 'not-an-email' }), /valid email/);
+  assert.throws(() => validateEmailInput({ to: 'a@b.co', message: 'x'.repeat(2001) }), /at most 2000/);
+});
+
+// ----- renderInvoicePdf -----
+
+test('invoicePdfFilename: named after the invoice number', () => {
+  assert.equal(invoicePdfFilename(issued), 'INV-20261018-0003.pdf');
+});
+
+test('renderInvoicePdf: produces a PDF buffer, logo and all', async () => {
+  const pdf = await renderInvoicePdf({
+    invoice: issued,
+    companyInfo: { company_name: 'Romero Tech Solutions', company_city: 'Escondido', company_state: 'CA' },
+    lineItems: [
+      { description: 'Standard hours', item_type: 'labor', quantity: '2', unit_price: '75.00', amount: '150.00', request_number: 'SR-1042' },
+      { description: 'Patch cable', item_type: 'part', quantity: '4', unit_price: '25.00', amount: '100.00', product_ref: 'CAT6-3FT' },
+    ],
+  });
+  assert.ok(Buffer.isBuffer(pdf));
+  assert.equal(pdf.subarray(0, 5).toString(), '%PDF-');
+});
+
+test('renderInvoicePdf: long invoices continue on a new page', async () => {
+  const lineItems = Array.from({ length: 80 }, (_, i) => ({
+    description: `Line ${i + 1}`, item_type: 'fee', quantity: '1', unit_price: '1.00', amount: '1.00',
+  }));
+  const pdf = await renderInvoicePdf({
+    invoice: { ...issued, logo_url: null, invoice_status: 'draft' },
+    companyInfo: {},
+    lineItems,
+  });
+  assert.ok(pdf.toString('latin1').match(/\/Type \/Page\b/g).length >= 2);
+});
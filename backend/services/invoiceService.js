@@ -0,0 +1,549 @@
+/**
+ * Manual invoices, drafts, voids and credit notes.
+ *
+ * Service request invoices are generated by the close handler (or rolled
+ * into a business's monthly consolidated invoice), both priced by
+ * calculateServiceRequestBilling; this module also covers the invoices admins
+ * build by hand from line items, plus the lifecycle rules every invoice
+ * follows once issued:
+ *
+ *   - drafts are editable and hidden from the client
+ *   - issued invoices are frozen (enforced again by a DB trigger)
+ *   - an unpaid issued invoice can be voided with a reason
+ *   - a paid invoice is corrected with a credit note (negative amounts,
+ *     linked back through credit_for_invoice_id)
+ *
+ * Each change is appended to invoice_history.
+ *
+ * Every invoice, whatever its source, is rendered and charged from its
+ * invoice_line_items. A line carries a description, quantity, unit price and
+ * taxable flag, plus optional references back to a service request, a time
+ * entry or a product (SKU / part number), so one invoice can mix labour,
+ * parts, travel fees and discounts across several service requests.
+ */
+
+export const INVOICE_STATUSES = ['draft', 'issued', 'void'];
+
+export const LINE_ITEM_TYPES = ['labor', 'part', 'fee', 'discount', 'other'];
+
+// Rate multipliers the close handler bills each tier at
+export const RATE_TIER_MULTIPLIERS = { standard: 1.0, premium: 1.5, emergency: 2.0 };
+
+// Anything pending or settled has money attached and needs a credit note instead
+export const VOIDABLE_PAYMENT_STATUSES = ['due', 'overdue', 'failed'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_LINE_ITEMS = 200;
+const MAX_PRODUCT_REF_LENGTH = 100;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function roundCents(value) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+// Quantities are hours as often as units, so keep four places
+function roundQuantity(value) {
+  return Math.round((value + Number.EPSILON) * 10000) / 10000;
+}
+
+function toNumber(value) {
+  if (value === null || value === undefined || value === '') return NaN;
+  return Number(value);
+}
+
+function optionalText(value) {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed || null;
+}
+
+/**
+ * Validate and normalise a manual invoice payload (create or draft edit).
+ * taxRate is a fraction (0.0775), or null to use the company default.
+ */
+export function validateInvoiceInput(input = {}) {
+  const businessId = typeof input.businessId === 'string' ? input.businessId : '';
+  if (!businessId) throw badRequest('Business is required');
+
+  const dueDate = input.dueDate || null;
+  if (dueDate !== null && !DATE_PATTERN.test(dueDate)) throw badRequest('Due date must be YYYY-MM-DD');
+
+  let taxRate = null;
+  if (input.taxRate !== null && input.taxRate !== undefined && input.taxRate !== '') {
+    taxRate = toNumber(input.taxRate);
+    if (!Number.isFinite(taxRate) || taxRate < 0 || taxRate >= 1) {
+      throw badRequest('Tax rate must be a fraction between 0 and 1');
+    }
+  }
+
+  if (!Array.isArray(input.lineItems) || input.lineItems.length === 0) {
+    throw badRequest('At least one line item is required');
+  }
+  if (input.lineItems.length > MAX_LINE_ITEMS) {
+    throw badRequest(`An invoice can have at most ${MAX_LINE_ITEMS} line items`);
+  }
+
+  const lineItems = input.lineItems.map((item, index) => {
+    const description = optionalText(item?.description);
+    if (!description) throw badRequest(`Line ${index + 1}: description is required`);
+
+    const quantity = toNumber(item.quantity ?? 1);
+    if (!Number.isFinite(quantity) || quantity <= 0) throw badRequest(`Line ${index + 1}: quantity must be greater than 0`);
+
+    // Negative unit prices are allowed for discount lines
+    const unitPrice = toNumber(item.unitPrice);
+    if (!Number.isFinite(unitPrice)) throw badRequest(`Line ${index + 1}: unit price is required`);
+
+    const itemType = item.itemType ?? 'other';
+    if (!LINE_ITEM_TYPES.includes(itemType)) throw badRequest(`Line ${index + 1}: unknown item type "${itemType}"`);
+
+    if (item.taxable !== undefined && typeof item.taxable !== 'boolean') {
+      throw badRequest(`Line ${index + 1}: taxable must be true or false`);
+    }
+
+    const productRef = optionalText(item.productRef);
+    if (productRef && productRef.length > MAX_PRODUCT_REF_LENGTH) {
+      throw badRequest(`Line ${index + 1}: product reference must be ${MAX_PRODUCT_REF_LENGTH} characters or fewer`);
+    }
+
+    return {
+      description,
+      itemType,
+      quantity: roundQuantity(quantity),
+      unitPrice: roundCents(unitPrice),
+      taxable: item.taxable ?? true,
+      serviceRequestId: optionalText(item.serviceRequestId),
+      timeEntryId: optionalText(item.timeEntryId),
+      productRef
+    };
+  });
+
+  return {
+    businessId,
+    dueDate,
+    taxRate,
+    workDescription: optionalText(input.workDescription),
+    notes: optionalText(input.notes),
+    lineItems
+  };
+}
+
+/**
+ * Line amounts, subtotal, tax and total, each rounded to cents. Tax applies
+ * to taxable lines only; a line without the flag counts as taxable.
+ */
+export function computeInvoiceTotals(lineItems, taxRate = 0) {
+  const items = lineItems.map(item => ({
+    ...item,
+    taxable: item.taxable ?? true,
+    amount: roundCents(item.quantity * item.unitPrice)
+  }));
+  const subtotal = roundCents(items.reduce((sum, item) => sum + item.amount, 0));
+  if (subtotal < 0) throw badRequest('Invoice total cannot be negative');
+
+  // A taxable discount can't push the taxable base below zero
+  const taxableSubtotal = Math.max(0, roundCents(
+    items.filter(item => item.taxable).reduce((sum, item) => sum + item.amount, 0)
+  ));
+  const taxAmount = roundCents(taxableSubtotal * taxRate);
+  return {
+    lineItems: items,
+    subtotal,
+    taxableSubtotal,
+    taxAmount,
+    totalAmount: roundCents(subtotal + taxAmount)
+  };
+}
+
+/**
+ * Line items for a service request's billable hours: one labour line per
+ * rate tier that has hours, plus a zero-priced line recording hours waived
+ * under the first-time client discount. `label` prefixes each description
+ * (e.g. the request number when several requests share an invoice).
+ */
+export function buildServiceRequestLineItems({
+  serviceRequestId,
+  baseRate,
+  standardHours = 0,
+  premiumHours = 0,
+  emergencyHours = 0,
+  waivedHours = 0,
+  label = null
+}) {
+  const prefix = label ? `${label}: ` : '';
+  const tiers = [
+    ['standard', 'Standard hours', standardHours],
+    ['premium', 'Premium hours (1.5x)', premiumHours],
+    ['emergency', 'Emergency hours (2x)', emergencyHours]
+  ];
+
+  const items = tiers
+    .filter(([, , hours]) => hours > 0)
+    .map(([tier, description, hours]) => ({
+      description: `${prefix}${description}`,
+      itemType: 'labor',
+      quantity: roundQuantity(hours),
+      unitPrice: roundCents(baseRate * RATE_TIER_MULTIPLIERS[tier]),
+      taxable: true,
+      serviceRequestId,
+      timeEntryId: null,
+      productRef: null
+    }));
+
+  if (waivedHours > 0) {
+    items.push({
+      description: `${prefix}First-time client discount (hours waived)`,
+      itemType: 'discount',
+      quantity: roundQuantity(waivedHours),
+      unitPrice: 0,
+      taxable: false,
+      serviceRequestId,
+      timeEntryId: null,
+      productRef: null
+    });
+  }
+
+  return items;
+}
+
+/**
+ * Spread time entries over the rate tiers minute by minute. Start times are
+ * taken as recorded; only the last entry's end is rounded up to the next
+ * quarter hour. A minute matching no tier is Standard. Times are compared in
+ * UTC, as the tiers are stored.
+ */
+export function assignRateTiers(timeEntries, tiers) {
+  const chronologicalMinutes = [];
+  for (let i = 0; i < timeEntries.length; i++) {
+    const entry = timeEntries[i];
+    const isLastEntry = i === timeEntries.length - 1;
+
+    const startTime = new Date(entry.start_time);
+    const rawEndTime = new Date(entry.end_time);
+
+    let endTime = rawEndTime;
+    if (isLastEntry) {
+      const roundedUpMinutes = Math.ceil(rawEndTime.getUTCMinutes() / 15) * 15;
+      endTime = new Date(rawEndTime);
+      if (roundedUpMinutes === 60) {
+        endTime.setUTCHours(endTime.getUTCHours() + 1);
+        endTime.setUTCMinutes(0, 0, 0);
+      } else {
+        endTime.setUTCMinutes(roundedUpMinutes, 0, 0);
+      }
+    }
+
+    const currentTime = new Date(startTime);
+    while (currentTime < endTime) {
+      const dayOfWeek = currentTime.getUTCDay();
+      const timeString = currentTime.toISOString().slice(11, 19);
+      let assignedTier = 'Standard';
+      let rateMultiplier = 1.0;
+
+      for (const tier of tiers) {
+        if (tier.day_of_week === dayOfWeek && timeString >= tier.time_start && timeString < tier.time_end) {
+          assignedTier = tier.tier_name;
+          rateMultiplier = parseFloat(tier.rate_multiplier);
+          break;
+        }
+      }
+
+      chronologicalMinutes.push({
+        timestamp: new Date(currentTime),
+        tier: assignedTier,
+        multiplier: rateMultiplier
+      });
+
+      currentTime.setMinutes(currentTime.getMinutes() + 1);
+    }
+  }
+  return chronologicalMinutes;
+}
+
+/**
+ * Billable hours per tier once a first service request's first hour is
+ * waived (the earliest minutes, whatever their tier).
+ */
+export function summarizeBillableTime(chronologicalMinutes, isFirstServiceRequest) {
+  const minutesToWaive = isFirstServiceRequest ? 60 : 0;
+  const waived = chronologicalMinutes.slice(0, minutesToWaive);
+  const billable = chronologicalMinutes.slice(minutesToWaive);
+  const countTier = name => billable.filter(minute => minute.tier === name).length;
+
+  return {
+    standardHours: countTier('Standard') / 60,
+    premiumHours: countTier('Premium') / 60,
+    emergencyHours: countTier('Emergency') / 60,
+    waivedHours: waived.length / 60
+  };
+}
+
+/**
+ * Price a service request's logged time the way closing it does: the
+ * business's base rate (75/h without a rate category), the active rate
+ * tiers, and the first-hour discount on a client's first request that was
+ * not cancelled. Open time entries count up to now.
+ *
+ * Returns the request, the figures snapshotted on its invoice and the line
+ * items built from them; null if the request does not exist.
+ */
+export async function calculateServiceRequestBilling(db, serviceRequestId) {
+  const requestResult = await db.query(`
+    SELECT sr.id, sr.request_number, sr.title, sr.business_id, sr.client_id,
+           sr.closed_at, sr.requested_datetime, sr.requested_duration_minutes,
+           b.business_name, b.rate_category_id,
+           hrc.base_hourly_rate, hrc.category_name AS rate_category_name
+      FROM service_requests sr
+      JOIN businesses b ON sr.business_id = b.id
+      LEFT JOIN hourly_rate_categories hrc ON b.rate_category_id = hrc.id
+     WHERE sr.id = $1
+  `, [serviceRequestId]);
+  const serviceRequest = requestResult.rows[0];
+  if (!serviceRequest) return null;
+
+  const baseRate = parseFloat(serviceRequest.base_hourly_rate) || 75.00;
+
+  // Cancelled requests don't use up the first-hour discount
+  const previousResult = await db.query(`
+    SELECT COUNT(*) AS count
+      FROM service_requests sr
+      JOIN service_request_statuses srs ON sr.status_id = srs.id
+     WHERE sr.client_id = $1
+       AND sr.soft_delete = false
+       AND srs.name != 'Cancelled'
+       AND sr.created_at < (SELECT created_at FROM service_requests WHERE id = $2)
+  `, [serviceRequest.client_id, serviceRequestId]);
+  const isFirstServiceRequest = parseInt(previousResult.rows[0].count) === 0;
+
+  const [entriesResult, tiersResult] = await Promise.all([
+    db.query(`
+      SELECT id, start_time, COALESCE(end_time, NOW()) AS end_time
+        FROM service_request_time_entries
+       WHERE service_request_id = $1
+       ORDER BY start_time
+    `, [serviceRequestId]),
+    db.query(`
+      SELECT tier_name, tier_level, day_of_week, time_start, time_end, rate_multiplier
+        FROM service_hour_rate_tiers
+       WHERE is_active = true
+       ORDER BY tier_level DESC
+    `)
+  ]);
+  const timeEntries = entriesResult.rows;
+  const tiers = tiersResult.rows;
+
+  const chronologicalMinutes = assignRateTiers(timeEntries, tiers);
+  const hours = summarizeBillableTime(chronologicalMinutes, isFirstServiceRequest);
+  const rates = {
+    standard: baseRate * RATE_TIER_MULTIPLIERS.standard,
+    premium: baseRate * RATE_TIER_MULTIPLIERS.premium,
+    emergency: baseRate * RATE_TIER_MULTIPLIERS.emergency
+  };
+
+  const tierBreakdown = (name, billableHours) => {
+    const actualMinutes = chronologicalMinutes.filter(minute => minute.tier === name).length;
+    return {
+      actualMinutes,
+      actualHours: (actualMinutes / 60).toFixed(2),
+      roundedHours: billableHours.toFixed(2)
+    };
+  };
+
+  return {
+    serviceRequest,
+    baseRate,
+    isFirstServiceRequest,
+    tiers,
+    ...hours,
+    rates,
+    costs: {
+      standard: hours.standardHours * rates.standard,
+      premium: hours.premiumHours * rates.premium,
+      emergency: hours.emergencyHours * rates.emergency
+    },
+    lineItems: buildServiceRequestLineItems({ serviceRequestId, baseRate, ...hours }),
+    actualHoursBreakdown: {
+      timeEntries: timeEntries.map(entry => ({ startTime: entry.start_time, endTime: entry.end_time })),
+      standard: tierBreakdown('Standard', hours.standardHours),
+      premium: tierBreakdown('Premium', hours.premiumHours),
+      emergency: tierBreakdown('Emergency', hours.emergencyHours)
+    }
+  };
+}
+
+/**
+ * Throw unless the invoice can be voided.
+ */
+export function assertVoidable(invoice, reason) {
+  if (!optionalText(reason)) throw badRequest('A reason is required to void an invoice');
+  if (invoice.invoice_status === 'draft') throw badRequest('Drafts are deleted, not voided');
+  if (invoice.invoice_status === 'void') throw badRequest('Invoice is already void');
+  if (invoice.invoice_type === 'credit_note') throw badRequest('Credit notes cannot be voided');
+  if (!VOIDABLE_PAYMENT_STATUSES.includes(invoice.payment_status)) {
+    throw badRequest(`A ${invoice.payment_status} invoice cannot be voided; issue a credit note instead`);
+  }
+}
+
+/**
+ * Validate a credit against a paid invoice. `alreadyCredited` is the sum
+ * (positive) of earlier credit notes; the amount defaults to what is left.
+ */
+export function validateCredit(input = {}, invoice, alreadyCredited = 0) {
+  const reason = optionalText(input.reason);
+  if (!reason) throw badRequest('A reason is required to issue a credit');
+  if (invoice.invoice_status !== 'issued') throw badRequest('Only issued invoices can be credited');
+  if (invoice.invoice_type === 'credit_note') throw badRequest('A credit note cannot be credited');
+  if (invoice.payment_status !== 'paid') {
+    throw badRequest('Only paid invoices are credited; void an unpaid invoice instead');
+  }
+
+  const remaining = roundCents(Number(invoice.total_amount) - alreadyCredited);
+  if (remaining <= 0) throw badRequest('Invoice has already been fully credited');
+
+  const amount = input.amount === undefined || input.amount === null || input.amount === ''
+    ? remaining
+    : roundCents(toNumber(input.amount));
+  if (!Number.isFinite(amount) || amount <= 0) throw badRequest('Credit amount must be greater than 0');
+  if (amount > remaining) throw badRequest(`Credit cannot exceed the remaining ${remaining.toFixed(2)}`);
+
+  return { amount, reason };
+}
+
+/**
+ * Totals for a credit note of `amount` (tax inclusive) against an invoice
+ * taxed at `taxRate`. Everything comes back negative.
+ */
+export function computeCreditNoteTotals(amount, taxRate = 0) {
+  const subtotal = roundCents(amount / (1 + taxRate));
+  const taxAmount = roundCents(amount - subtotal);
+  return { subtotal: -subtotal, taxAmount: -taxAmount, totalAmount: -roundCents(amount) };
+}
+
+/**
+ * PREFIX-YYYYMMDD-XXXX
+ */
+export function formatInvoiceNumber(prefix, date, sequence) {
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '');
+  return `${prefix}-${dateStr}-${String(sequence).padStart(4, '0')}`;
+}
+
+/**
+ * Next free number for `prefix` on `date`. Uses the highest existing
+ * sequence rather than a count so deleted drafts don't cause collisions.
+ */
+export async function nextInvoiceNumber(db, prefix, date = new Date()) {
+  const pattern = `${formatInvoiceNumber(prefix, date, 0).slice(0, -4)}%`;
+  const result = await db.query(
+    `SELECT COALESCE(MAX(CAST(split_part(invoice_number, '-', 3) AS INTEGER)), 0) AS max_seq
+       FROM invoices
+      WHERE invoice_number LIKE $1`,
+    [pattern]
+  );
+  return formatInvoiceNumber(prefix, date, Number(result.rows[0].max_seq) + 1);
+}
+
+/**
+ * Throw unless every service request / time entry a line points at belongs
+ * to the invoice's business.
+ */
+export async function assertLineItemReferences(db, businessId, lineItems) {
+  const requestIds = [...new Set(lineItems.map(item => item.serviceRequestId).filter(Boolean))];
+  const timeEntryIds = [...new Set(lineItems.map(item => item.timeEntryId).filter(Boolean))];
+
+  if (requestIds.length > 0) {
+    const result = await db.query(
+      `SELECT id FROM service_requests WHERE id = ANY($1::uuid[]) AND business_id = $2`,
+      [requestIds, businessId]
+    );
+    if (result.rows.length !== requestIds.length) {
+      throw badRequest('A line item references a service request that does not belong to this business');
+    }
+  }
+
+  if (timeEntryIds.length > 0) {
+    const result = await db.query(
+      `SELECT te.id, te.service_request_id
+         FROM service_request_time_entries te
+         JOIN service_requests sr ON te.service_request_id = sr.id
+        WHERE te.id = ANY($1::uuid[]) AND sr.business_id = $2`,
+      [timeEntryIds, businessId]
+    );
+    if (result.rows.length !== timeEntryIds.length) {
+      throw badRequest('A line item references a time entry that does not belong to this business');
+    }
+
+    // A line naming both must name a matching pair
+    const requestByEntry = new Map(result.rows.map(row => [row.id, row.service_request_id]));
+    for (const item of lineItems) {
+      if (item.timeEntryId && item.serviceRequestId && requestByEntry.get(item.timeEntryId) !== item.serviceRequestId) {
+        throw badRequest('A line item\'s time entry is not part of its service request');
+      }
+    }
+  }
+}
+
+/**
+ * Insert computed line items for an invoice, in order. `db` may be the pool
+ * or a transaction client.
+ */
+export async function insertInvoiceLineItems(db, invoiceId, lineItems) {
+  for (const [index, item] of lineItems.entries()) {
+    await db.query(
+      `INSERT INTO invoice_line_items (
+         invoice_id, description, item_type, quantity, unit_price, amount, taxable,
+         service_request_id, time_entry_id, product_ref, sort_order
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+      [
+        invoiceId,
+        item.description,
+        item.itemType ?? 'other',
+        item.quantity,
+        item.unitPrice,
+        item.amount,
+        item.taxable ?? true,
+        item.serviceRequestId ?? null,
+        item.timeEntryId ?? null,
+        item.productRef ?? null,
+        index
+      ]
+    );
+  }
+}
+
+/**
+ * Append an entry to an invoice's history. `db` may be the pool or a
+ * transaction client.
+ */
+export async function recordInvoiceHistory(db, { invoiceId, action, reason = null, details = null, employeeId = null }) {
+  await db.query(
+    `INSERT INTO invoice_history (invoice_id, action, reason, details, performed_by_employee_id)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [invoiceId, action, reason, details ? JSON.stringify(details) : null, employeeId]
+  );
+}
+
+export default {
+  INVOICE_STATUSES,
+  LINE_ITEM_TYPES,
+  RATE_TIER_MULTIPLIERS,
+  VOIDABLE_PAYMENT_STATUSES,
+  validateInvoiceInput,
+  computeInvoiceTotals,
+  buildServiceRequestLineItems,
+  assignRateTiers,
+  summarizeBillableTime,
+  calculateServiceRequestBilling,
+  assertLineItemReferences,
+  insertInvoiceLineItems,
+  assertVoidable,
+  validateCredit,
+  computeCreditNoteTotals,
+  formatInvoiceNumber,
+  nextInvoiceNumber,
+  recordInvoiceHistory
+};
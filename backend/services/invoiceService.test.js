@@ -0,0 +1,292 @@
+// Tests for invoiceService — payload validation, totals, lifecycle guards and
+// numbering are pinned here. The routes' transactions need a real database.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  validateInvoiceInput,
+  computeInvoiceTotals,
+  buildServiceRequestLineItems,
+  assignRateTiers,
+  summarizeBillableTime,
+  assertLineItemReferences,
+  assertVoidable,
+  validateCredit,
+  computeCreditNoteTotals,
+  formatInvoiceNumber,
+  nextInvoiceNumber,
+} from './invoiceService.js';
+
+const validInput = {
+  businessId: 'b-1',
+  lineItems: [
+    { description: 'Firewall appliance', quantity: 1, unitPrice: 899 },
+    { description: 'Installation', quantity: 2.5, unitPrice: 95 },
+  ],
+};
+
+const paidInvoice = {
+  invoice_status: 'issued',
+  invoice_type: 'manual',
+  payment_status: 'paid',
+  total_amount: '250.00',
+};
+
+// ----- validateInvoiceInput -----
+
+test('validateInvoiceInput: normalises a valid payload', () => {
+  const input = validateInvoiceInput({ ...validInput, notes: '  ', taxRate: '0.0775', dueDate: '2026-11-17' });
+  assert.equal(input.businessId, 'b-1');
+  assert.equal(input.taxRate, 0.0775);
+  assert.equal(input.dueDate, '2026-11-17');
+  assert.equal(input.notes, null);
+  assert.deepEqual(input.lineItems[1], {
+    description: 'Installation',
+    itemType: 'other',
+    quantity: 2.5,
+    unitPrice: 95,
+    taxable: true,
+    serviceRequestId: null,
+    timeEntryId: null,
+    productRef: null,
+  });
+});
+
+test('validateInvoiceInput: keeps line types, tax flags and references', () => {
+  const input = validateInvoiceInput({
+    businessId: 'b-1',
+    lineItems: [
+      { description: 'Switch', itemType: 'part', quantity: 1, unitPrice: 349, productRef: ' SW-24P ' },
+      { description: 'Labour', itemType: 'labor', quantity: 1.3333, unitPrice: 95, serviceRequestId: 'sr-1', timeEntryId: 'te-1' },
+      { description: 'Travel', itemType: 'fee', quantity: 1, unitPrice: 40, taxable: false },
+    ],
+  });
+  assert.equal(input.lineItems[0].productRef, 'SW-24P');
+  assert.equal(input.lineItems[1].quantity, 1.3333);
+  assert.equal(input.lineItems[1].timeEntryId, 'te-1');
+  assert.equal(input.lineItems[2].taxable, false);
+  assert.throws(
+    () => validateInvoiceInput({ businessId: 'b-1', lineItems: [{ description: 'x', unitPrice: 1, itemType: 'gift' }] }),
+    /unknown item type/
+  );
+  assert.throws(
+    () => validateInvoiceInput({ businessId: 'b-1', lineItems: [{ description: 'x', unitPrice: 1, taxable: 'no' }] }),
+    /taxable must be true or false/
+  );
+});
+
+test('validateInvoiceInput: tax rate defaults to null (company setting)', () => {
+  assert.equal(validateInvoiceInput(validInput).taxRate, null);
+});
+
+test('validateInvoiceInput: rejects missing business, items and bad values', () => {
+  assert.throws(() => validateInvoiceInput({ lineItems: validInput.lineItems }), /Business is required/);
+  assert.throws(() => validateInvoiceInput({ businessId: 'b-1', lineItems: [] }), /At least one line item/);
+  assert.throws(
+    () => validateInvoiceInput({ businessId: 'b-1', lineItems: [{ description: '', unitPrice: 1 }] }),
+    /Line 1: description/
+  );
+  assert.throws(
+    () => validateInvoiceInput({ businessId: 'b-1', lineItems: [{ description: 'x', quantity: 0, unitPrice: 1 }] }),
+    /quantity must be greater than 0/
+  );
+  assert.throws(() => validateInvoiceInput({ ...validInput, taxRate: 7.75 }), /Tax rate/);
+  assert.throws(() => validateInvoiceInput({ ...validInput, dueDate: '11/17/2026' }), /Due date/);
+});
+
+test('validateInvoiceInput: every error carries statusCode 400', () => {
+  try {
+    validateInvoiceInput({});
+    assert.fail('expected a throw');
+  } catch (error) {
+    assert.equal(error.statusCode, 400);
+  }
+});
+
+// ----- computeInvoiceTotals -----
+
+test('computeInvoiceTotals: rounds each line and the tax to cents', () => {
+  const totals = computeInvoiceTotals(
+    [{ description: 'Cable', quantity: 3, unitPrice: 3.33 }, { description: 'Labour', quantity: 1.5, unitPrice: 95 }],
+    0.0775
+  );
+  assert.deepEqual(totals.lineItems.map(l => l.amount), [9.99, 142.5]);
+  assert.equal(totals.subtotal, 152.49);
+  assert.equal(totals.taxAmount, 11.82);
+  assert.equal(totals.totalAmount, 164.31);
+});
+
+test('computeInvoiceTotals: discount lines are fine, a negative total is not', () => {
+  const totals = computeInvoiceTotals([
+    { description: 'Retainer', quantity: 1, unitPrice: 500 },
+    { description: 'Loyalty discount', quantity: 1, unitPrice: -50 },
+  ]);
+  assert.equal(totals.totalAmount, 450);
+  assert.throws(() => computeInvoiceTotals([{ description: 'Oops', quantity: 1, unitPrice: -5 }]), /cannot be negative/);
+});
+
+test('computeInvoiceTotals: only taxable lines are taxed', () => {
+  const totals = computeInvoiceTotals(
+    [
+      { description: 'Router', quantity: 1, unitPrice: 200, taxable: true },
+      { description: 'Labour', quantity: 2, unitPrice: 95, taxable: false },
+    ],
+    0.1
+  );
+  assert.equal(totals.subtotal, 390);
+  assert.equal(totals.taxableSubtotal, 200);
+  assert.equal(totals.taxAmount, 20);
+  assert.equal(totals.totalAmount, 410);
+});
+
+// ----- buildServiceRequestLineItems -----
+
+test('buildServiceRequestLineItems: one labour line per tier with hours', () => {
+  const items = buildServiceRequestLineItems({
+    serviceRequestId: 'sr-1',
+    baseRate: 100,
+    standardHours: 1.5,
+    premiumHours: 0,
+    emergencyHours: 0.25,
+    label: 'SR-0042',
+  });
+  assert.deepEqual(
+    items.map(item => [item.description, item.quantity, item.unitPrice]),
+    [['SR-0042: Standard hours', 1.5, 100], ['SR-0042: Emergency hours (2x)', 0.25, 200]]
+  );
+  assert.ok(items.every(item => item.itemType === 'labor' && item.serviceRequestId === 'sr-1'));
+});
+
+test('buildServiceRequestLineItems: waived hours become a zero-priced discount line', () => {
+  const items = buildServiceRequestLineItems({ serviceRequestId: 'sr-1', baseRate: 80, standardHours: 2, waivedHours: 1 });
+  assert.equal(items.length, 2);
+  assert.deepEqual(
+    { type: items[1].itemType, quantity: items[1].quantity, unitPrice: items[1].unitPrice, taxable: items[1].taxable },
+    { type: 'discount', quantity: 1, unitPrice: 0, taxable: false }
+  );
+  assert.equal(computeInvoiceTotals(items).subtotal, 160);
+});
+
+// ----- assignRateTiers / summarizeBillableTime -----
+
+// Monday evenings are Premium
+const rateTiers = [
+  { tier_name: 'Premium', tier_level: 2, day_of_week: 1, time_start: '17:00:00', time_end: '22:00:00', rate_multiplier: '1.5' }
+];
+
+test('assignRateTiers: splits minutes by tier and rounds the last end up to 15 minutes', () => {
+  const minutes = assignRateTiers(
+    [{ start_time: '2026-10-19T16:30:00Z', end_time: '2026-10-19T17:20:00Z' }],
+    rateTiers
+  );
+  assert.equal(minutes.length, 60);
+  assert.equal(minutes.filter(m => m.tier === 'Standard').length, 30);
+  assert.equal(minutes.filter(m => m.tier === 'Premium').length, 30);
+  assert.equal(minutes.at(-1).multiplier, 1.5);
+});
+
+test('assignRateTiers: only the final entry is rounded', () => {
+  const minutes = assignRateTiers(
+    [
+      { start_time: '2026-10-20T10:00:00Z', end_time: '2026-10-20T10:07:00Z' },
+      { start_time: '2026-10-20T11:00:00Z', end_time: '2026-10-20T11:50:00Z' }
+    ],
+    rateTiers
+  );
+  assert.equal(minutes.length, 7 + 60);
+  assert.ok(minutes.every(m => m.tier === 'Standard'));
+});
+
+test('summarizeBillableTime: a first request has its earliest hour waived', () => {
+  const minutes = [
+    ...Array(30).fill({ tier: 'Premium' }),
+    ...Array(60).fill({ tier: 'Standard' })
+  ];
+  assert.deepEqual(summarizeBillableTime(minutes, true), {
+    standardHours: 0.5, premiumHours: 0, emergencyHours: 0, waivedHours: 1
+  });
+  assert.deepEqual(summarizeBillableTime(minutes, false), {
+    standardHours: 1, premiumHours: 0.5, emergencyHours: 0, waivedHours: 0
+  });
+});
+
+// ----- assertLineItemReferences -----
+
+test('assertLineItemReferences: skips the database when nothing is referenced', async () => {
+  const db = { query: async () => assert.fail('no query expected') };
+  await assertLineItemReferences(db, 'b-1', [{ description: 'Fee' }]);
+});
+
+test('assertLineItemReferences: rejects requests from another business and mismatched time entries', async () => {
+  const otherBusiness = { query: async () => ({ rows: [] }) };
+  await assert.rejects(
+    assertLineItemReferences(otherBusiness, 'b-1', [{ serviceRequestId: 'sr-9' }]),
+    /does not belong to this business/
+  );
+
+  const db = {
+    query: async (sql) => sql.includes('service_request_time_entries')
+      ? { rows: [{ id: 'te-1', service_request_id: 'sr-2' }] }
+      : { rows: [{ id: 'sr-1' }] },
+  };
+  await assert.rejects(
+    assertLineItemReferences(db, 'b-1', [{ serviceRequestId: 'sr-1', timeEntryId: 'te-1' }]),
+    /not part of its service request/
+  );
+});
+
+// ----- assertVoidable -----
+
+test('assertVoidable: unpaid issued invoices can be voided with a reason', () => {
+  assert.doesNotThrow(() => assertVoidable({ ...paidInvoice, payment_status: 'overdue' }, 'Billed twice'));
+  assert.throws(() => assertVoidable({ ...paidInvoice, payment_status: 'due' }, ' '), /reason is required/);
+});
+
+test('assertVoidable: drafts, voids, credit notes and paid invoices are refused', () => {
+  assert.throws(() => assertVoidable({ ...paidInvoice, invoice_status: 'draft' }, 'x'), /Drafts are deleted/);
+  assert.throws(() => assertVoidable({ ...paidInvoice, invoice_status: 'void' }, 'x'), /already void/);
+  assert.throws(() => assertVoidable({ ...paidInvoice, invoice_type: 'credit_note', payment_status: 'comped' }, 'x'), /Credit notes/);
+  assert.throws(() => assertVoidable(paidInvoice, 'x'), /issue a credit note/);
+  assert.throws(() => assertVoidable({ ...paidInvoice, payment_status: 'pending' }, 'x'), /pending invoice/);
+});
+
+// ----- validateCredit -----
+
+test('validateCredit: defaults to the uncredited remainder', () => {
+  assert.deepEqual(validateCredit({ reason: 'Refund' }, paidInvoice), { amount: 250, reason: 'Refund' });
+  assert.deepEqual(validateCredit({ reason: 'Refund' }, paidInvoice, 100), { amount: 150, reason: 'Refund' });
+});
+
+test('validateCredit: enforces reason, paid status and the remaining amount', () => {
+  assert.throws(() => validateCredit({}, paidInvoice), /reason is required/);
+  assert.throws(() => validateCredit({ reason: 'x' }, { ...paidInvoice, payment_status: 'due' }), /void an unpaid invoice/);
+  assert.throws(() => validateCredit({ reason: 'x', amount: 300 }, paidInvoice), /cannot exceed the remaining 250.00/);
+  assert.throws(() => validateCredit({ reason: 'x', amount: -1 }, paidInvoice), /greater than 0/);
+  assert.throws(() => validateCredit({ reason: 'x' }, paidInvoice, 250), /fully credited/);
+});
+
+// ----- computeCreditNoteTotals -----
+
+test('computeCreditNoteTotals: splits a tax-inclusive amount and negates it', () => {
+  assert.deepEqual(computeCreditNoteTotals(107.75, 0.0775), { subtotal: -100, taxAmount: -7.75, totalAmount: -107.75 });
+  assert.deepEqual(computeCreditNoteTotals(50), { subtotal: -50, taxAmount: -0, totalAmount: -50 });
+});
+
+// ----- numbering -----
+
+test('formatInvoiceNumber: PREFIX-YYYYMMDD-XXXX', () => {
+  assert.equal(formatInvoiceNumber('INV', new Date('2026-10-18T12:00:00Z'), 7), 'INV-20261018-0007');
+});
+
+test('nextInvoiceNumber: follows the highest existing sequence for the prefix and day', async () => {
+  const calls = [];
+  const db = {
+    query: async (sql, params) => {
+      calls.push(params);
+      return { rows: [{ max_seq: 12 }] };
+    },
+  };
+  const number = await nextInvoiceNumber(db, 'DRAFT', new Date('2026-10-18T12:00:00Z'));
+  assert.equal(number, 'DRAFT-20261018-0013');
+  assert.deepEqual(calls[0], ['DRAFT-20261018-%']);
+});
@@ -0,0 +1,445 @@
+/**
+ * Prepaid hour blocks (retainers).
+ *
+ * A business can buy blocks of hours up front (prepaid_hour_blocks). When
+ * the close handler completes one of its requests, drawDownPrepaidHours
+ * takes the request's billable time, as calculateServiceRequestBilling
+ * prices it, out of the blocks that still have hours left instead of
+ * invoicing it. If the balance covers everything the request is not billed
+ * at all; otherwise only the hours beyond the balance are invoiced (or
+ * consolidated at month end), with a zero-priced line recording the hours
+ * drawn down.
+ *
+ * Blocks are used soonest-expiring first, then oldest first, and an expired
+ * block's unused hours lapse. The balance covers the most expensive time
+ * first (emergency, then premium, then standard), one prepaid hour per
+ * logged hour whatever the tier. Usage is kept by the minute in
+ * prepaid_hour_usage, one row per block a request touched.
+ *
+ * Once a drawdown leaves the balance at or below the business's
+ * prepaid_low_balance_hours the primary contact is emailed; adding a block
+ * re-arms the warning.
+ */
+import { query, transaction } from '../config/database.js';
+import { emailService } from './emailService.js';
+import {
+  buildServiceRequestLineItems,
+  calculateServiceRequestBilling
+} from './invoiceService.js';
+
+const PORTAL_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_BLOCK_HOURS = 1000;
+const MAX_NOTES_LENGTH = 1000;
+const RECENT_USAGE_LIMIT = 50;
+
+// Most expensive first, so a partly covered request is billed at the lowest rate
+const COVERAGE_ORDER = ['emergency', 'premium', 'standard'];
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function notFound(message) {
+  const error = new Error(message);
+  error.statusCode = 404;
+  return error;
+}
+
+function escapeHtml(text) {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function roundHours(value) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function toMinutes(hours) {
+  return Math.round(Number(hours) * 60);
+}
+
+function formatHours(hours) {
+  const rounded = roundHours(hours);
+  return `${rounded} ${rounded === 1 ? 'hour' : 'hours'}`;
+}
+
+/**
+ * Validate a block being added from the business editor.
+ */
+export function validateBlockInput(input = {}) {
+  const hours = Number(input.hours);
+  if (!Number.isFinite(hours) || hours <= 0 || hours > MAX_BLOCK_HOURS) {
+    throw badRequest(`Hours must be more than 0 and at most ${MAX_BLOCK_HOURS}`);
+  }
+  if (roundHours(hours) !== hours) throw badRequest('Hours can have at most two decimal places');
+
+  const purchasedOn = input.purchasedOn || null;
+  if (purchasedOn !== null && !DATE_PATTERN.test(purchasedOn)) {
+    throw badRequest('Purchase date must be YYYY-MM-DD');
+  }
+  const expiresOn = input.expiresOn || null;
+  if (expiresOn !== null && !DATE_PATTERN.test(expiresOn)) {
+    throw badRequest('Expiry date must be YYYY-MM-DD');
+  }
+  if (expiresOn && purchasedOn && expiresOn < purchasedOn) {
+    throw badRequest('Expiry date cannot be before the purchase date');
+  }
+
+  const notes = typeof input.notes === 'string' ? input.notes.trim() : '';
+  if (notes.length > MAX_NOTES_LENGTH) throw badRequest(`Notes must be at most ${MAX_NOTES_LENGTH} characters`);
+
+  return { hours, purchasedOn, expiresOn, notes: notes || null };
+}
+
+/**
+ * The low-balance threshold from the business editor, in hours.
+ */
+export function validateLowBalanceHours(value) {
+  const hours = Number(value);
+  if (value === null || value === '' || !Number.isFinite(hours) || hours < 0 || hours > MAX_BLOCK_HOURS) {
+    throw badRequest(`Low balance warning must be between 0 and ${MAX_BLOCK_HOURS} hours`);
+  }
+  return roundHours(hours);
+}
+
+/**
+ * Remaining minutes per block and the business's balance, from block rows
+ * carrying `used_minutes` and `is_expired`. The balance is low once it is at
+ * or below `lowBalanceHours`; a business that never bought a block is not.
+ */
+export function summarizePrepaidBlocks(blocks, lowBalanceHours) {
+  let purchasedMinutes = 0;
+  let usedMinutes = 0;
+  let expiredMinutes = 0;
+
+  const summarized = blocks.map(block => {
+    const blockMinutes = toMinutes(block.hours);
+    const used = Math.min(Number(block.used_minutes) || 0, blockMinutes);
+    const unused = blockMinutes - used;
+    purchasedMinutes += blockMinutes;
+    usedMinutes += used;
+    if (block.is_expired) expiredMinutes += unused;
+
+    const remainingMinutes = block.is_expired ? 0 : unused;
+    return {
+      ...block,
+      hours: Number(block.hours),
+      used_hours: roundHours(used / 60),
+      remaining_minutes: remainingMinutes,
+      remaining_hours: roundHours(remainingMinutes / 60)
+    };
+  });
+
+  const remainingMinutes = purchasedMinutes - usedMinutes - expiredMinutes;
+  const threshold = Number(lowBalanceHours) || 0;
+  return {
+    purchasedHours: roundHours(purchasedMinutes / 60),
+    usedHours: roundHours(usedMinutes / 60),
+    expiredHours: roundHours(expiredMinutes / 60),
+    remainingHours: roundHours(remainingMinutes / 60),
+    lowBalanceHours: threshold,
+    isLow: blocks.length > 0 && remainingMinutes <= toMinutes(threshold),
+    blocks: summarized
+  };
+}
+
+/**
+ * Take `minutes` from blocks, in the order given, as far as their remaining
+ * minutes go.
+ *
+ * @returns {{allocations: Array<{blockId: string, minutes: number}>, coveredMinutes: number}}
+ */
+export function allocatePrepaidMinutes(blocks, minutes) {
+  const allocations = [];
+  let left = Math.max(0, Math.round(minutes));
+  for (const block of blocks) {
+    if (left === 0) break;
+    const take = Math.min(left, block.remaining_minutes);
+    if (take > 0) {
+      allocations.push({ blockId: block.id, minutes: take });
+      left -= take;
+    }
+  }
+  return { allocations, coveredMinutes: Math.max(0, Math.round(minutes)) - left };
+}
+
+/**
+ * Billable minutes of a calculateServiceRequestBilling result (waived time
+ * excluded).
+ */
+export function billableMinutes(billing) {
+  return toMinutes(billing.standardHours) + toMinutes(billing.premiumHours) + toMinutes(billing.emergencyHours);
+}
+
+/**
+ * A billing result with `prepaidMinutes` taken off its tier hours, the most
+ * expensive tier first, and its costs and line items rebuilt. The drawn-down
+ * hours are recorded as a zero-priced line so the invoice still accounts for
+ * all the logged time.
+ */
+export function applyPrepaidMinutes(billing, prepaidMinutes) {
+  if (!prepaidMinutes) return { ...billing, prepaidHours: 0 };
+
+  const minutes = {
+    standard: toMinutes(billing.standardHours),
+    premium: toMinutes(billing.premiumHours),
+    emergency: toMinutes(billing.emergencyHours)
+  };
+  let left = prepaidMinutes;
+  for (const tier of COVERAGE_ORDER) {
+    const covered = Math.min(left, minutes[tier]);
+    minutes[tier] -= covered;
+    left -= covered;
+  }
+  const prepaidHours = (prepaidMinutes - left) / 60;
+
+  const hours = {
+    standardHours: minutes.standard / 60,
+    premiumHours: minutes.premium / 60,
+    emergencyHours: minutes.emergency / 60,
+    waivedHours: billing.waivedHours
+  };
+  const serviceRequestId = billing.serviceRequest.id;
+  const lineItems = buildServiceRequestLineItems({ serviceRequestId, baseRate: billing.baseRate, ...hours });
+  if (prepaidHours > 0) {
+    lineItems.push({
+      description: 'Prepaid hours applied',
+      itemType: 'discount',
+      quantity: Math.round(prepaidHours * 10000) / 10000,
+      unitPrice: 0,
+      taxable: false,
+      serviceRequestId,
+      timeEntryId: null,
+      productRef: null
+    });
+  }
+
+  return {
+    ...billing,
+    ...hours,
+    prepaidHours,
+    costs: {
+      standard: hours.standardHours * billing.rates.standard,
+      premium: hours.premiumHours * billing.rates.premium,
+      emergency: hours.emergencyHours * billing.rates.emergency
+    },
+    lineItems
+  };
+}
+
+// Blocks of a business with the minutes drawn from each, in drawdown order
+async function loadBlocks(db, businessId) {
+  const result = await db.query(`
+    SELECT pb.id, pb.hours, pb.purchased_on::text AS purchased_on, pb.expires_on::text AS expires_on,
+           pb.notes, pb.created_at,
+           (pb.expires_on IS NOT NULL AND pb.expires_on < CURRENT_DATE) AS is_expired,
+           COALESCE((SELECT SUM(pu.minutes) FROM prepaid_hour_usage pu WHERE pu.block_id = pb.id), 0)::int AS used_minutes
+      FROM prepaid_hour_blocks pb
+     WHERE pb.business_id = $1
+     ORDER BY pb.expires_on NULLS LAST, pb.purchased_on, pb.created_at
+  `, [businessId]);
+  return result.rows;
+}
+
+/**
+ * A business's prepaid balance and blocks; null if the business does not
+ * exist.
+ */
+export async function getPrepaidBalance(db, businessId) {
+  const business = await db.query(
+    `SELECT prepaid_low_balance_hours FROM businesses WHERE id = $1`,
+    [businessId]
+  );
+  if (business.rows.length === 0) return null;
+  const blocks = await loadBlocks(db, businessId);
+  return summarizePrepaidBlocks(blocks, business.rows[0].prepaid_low_balance_hours);
+}
+
+/**
+ * Hours drawn down per completed request, newest first.
+ */
+export async function listPrepaidUsage(db, businessId, { limit = RECENT_USAGE_LIMIT } = {}) {
+  const result = await db.query(`
+    SELECT sr.id AS service_request_id, sr.request_number, sr.title,
+           MAX(pu.created_at) AS drawn_at,
+           ROUND(SUM(pu.minutes) / 60.0, 2)::float AS hours
+      FROM prepaid_hour_usage pu
+      JOIN prepaid_hour_blocks pb ON pu.block_id = pb.id
+      JOIN service_requests sr ON pu.service_request_id = sr.id
+     WHERE pb.business_id = $1
+     GROUP BY sr.id
+     ORDER BY drawn_at DESC
+     LIMIT $2
+  `, [businessId, limit]);
+  return result.rows;
+}
+
+/**
+ * Add a block to a business and re-arm its low-balance warning.
+ */
+export async function addPrepaidBlock(db, businessId, input, { employeeId = null } = {}) {
+  const block = validateBlockInput(input);
+  const business = await db.query(`SELECT id FROM businesses WHERE id = $1`, [businessId]);
+  if (business.rows.length === 0) throw notFound('Business not found');
+
+  const result = await db.query(`
+    INSERT INTO prepaid_hour_blocks (business_id, hours, purchased_on, expires_on, notes, created_by_employee_id)
+    VALUES ($1, $2, COALESCE($3::date, CURRENT_DATE), $4, $5, $6)
+    RETURNING id, hours, purchased_on::text AS purchased_on, expires_on::text AS expires_on, notes, created_at
+  `, [businessId, block.hours, block.purchasedOn, block.expiresOn, block.notes, employeeId]);
+  await db.query(
+    `UPDATE businesses SET prepaid_low_balance_warned_at = NULL WHERE id = $1`,
+    [businessId]
+  );
+  return result.rows[0];
+}
+
+/**
+ * Remove a block added by mistake. Blocks already drawn down stay, so the
+ * hours billed against them remain accounted for.
+ */
+export async function deletePrepaidBlock(db, businessId, blockId) {
+  const block = await db.query(`
+    SELECT pb.id, EXISTS (SELECT 1 FROM prepaid_hour_usage pu WHERE pu.block_id = pb.id) AS is_used
+      FROM prepaid_hour_blocks pb
+     WHERE pb.id = $1 AND pb.business_id = $2
+  `, [blockId, businessId]);
+  if (block.rows.length === 0) throw notFound('Prepaid block not found');
+  if (block.rows[0].is_used) {
+    throw badRequest('This block has already been drawn down and cannot be removed');
+  }
+  await db.query(`DELETE FROM prepaid_hour_blocks WHERE id = $1`, [blockId]);
+}
+
+/**
+ * Minutes a request has drawn from prepaid blocks.
+ */
+export async function prepaidMinutesUsedBy(db, serviceRequestId) {
+  const result = await db.query(
+    `SELECT COALESCE(SUM(minutes), 0)::int AS minutes FROM prepaid_hour_usage WHERE service_request_id = $1`,
+    [serviceRequestId]
+  );
+  return result.rows[0].minutes;
+}
+
+/**
+ * Draw a completed request's billable time down from its business's prepaid
+ * blocks. Closing the same request again reuses the earlier drawdown.
+ *
+ * @returns {Promise<{billing: object, hoursApplied: number, fullyCovered: boolean, balance: object}|null>}
+ *   `billing` is the request's calculateServiceRequestBilling result with
+ *   the prepaid hours taken off; null if nothing was drawn down
+ */
+export async function drawDownPrepaidHours(serviceRequestId, { employeeId = null } = {}) {
+  const result = await transaction(async client => {
+    // Business row lock so two closes never spend the same hours
+    const business = await client.query(`
+      SELECT b.id, b.business_name, b.prepaid_low_balance_hours, b.prepaid_low_balance_warned_at
+        FROM service_requests sr
+        JOIN businesses b ON sr.business_id = b.id
+       WHERE sr.id = $1
+       FOR UPDATE OF b
+    `, [serviceRequestId]);
+    if (business.rows.length === 0) return null;
+    const { id: businessId } = business.rows[0];
+
+    const blocks = await loadBlocks(client, businessId);
+    if (blocks.length === 0) return null;
+
+    const billing = await calculateServiceRequestBilling(client, serviceRequestId);
+    let prepaidMinutes = await prepaidMinutesUsedBy(client, serviceRequestId);
+
+    if (prepaidMinutes === 0) {
+      const available = summarizePrepaidBlocks(blocks, 0).blocks;
+      const { allocations, coveredMinutes } = allocatePrepaidMinutes(available, billableMinutes(billing));
+      if (coveredMinutes === 0) return null;
+
+      for (const allocation of allocations) {
+        await client.query(`
+          INSERT INTO prepaid_hour_usage (block_id, service_request_id, minutes, created_by_employee_id)
+          VALUES ($1, $2, $3, $4)
+        `, [allocation.blockId, serviceRequestId, allocation.minutes, employeeId]);
+      }
+      prepaidMinutes = coveredMinutes;
+    }
+
+    const applied = applyPrepaidMinutes(billing, prepaidMinutes);
+    return {
+      business: business.rows[0],
+      billing: applied,
+      hoursApplied: roundHours(prepaidMinutes / 60),
+      fullyCovered: billableMinutes(applied) === 0,
+      balance: await getPrepaidBalance(client, businessId)
+    };
+  });
+  if (!result) return null;
+
+  const { business, ...drawdown } = result;
+  if (drawdown.balance.isLow && !business.prepaid_low_balance_warned_at) {
+    // The request is closed either way; a failed email is retried on the next drawdown
+    try {
+      await sendLowBalanceWarning(business, drawdown.balance);
+    } catch (error) {
+      console.error(`❌ Failed to send low prepaid balance warning for ${business.business_name}:`, error);
+    }
+  }
+  return drawdown;
+}
+
+async function sendLowBalanceWarning(business, balance) {
+  const contact = await query(`
+    SELECT email, NULLIF(TRIM(CONCAT(first_name, ' ', last_name)), '') AS name
+      FROM users
+     WHERE business_id = $1 AND soft_delete = false AND email IS NOT NULL
+     ORDER BY is_primary_contact DESC NULLS LAST, created_at
+     LIMIT 1
+  `, [business.id]);
+  if (contact.rows.length === 0) return;
+  const { email, name } = contact.rows[0];
+
+  const company = await query(`SELECT setting_value FROM company_settings WHERE setting_key = 'company_name'`);
+  const companyName = company.rows[0]?.setting_value || 'Romero Tech Solutions';
+  const greeting = name ? `Hello ${name},` : 'Hello,';
+  const summary = balance.remainingHours > 0
+    ? `${business.business_name} has ${formatHours(balance.remainingHours)} of prepaid support left.`
+    : `${business.business_name} has used all of its prepaid support hours.`;
+  const action = 'Further work will be invoiced at your hourly rate until another block of hours is added. Contact us to top up your balance.';
+  const portalUrl = `${PORTAL_URL}/clogin`;
+
+  await emailService.sendRawEmail({
+    from: `"${process.env.SES_FROM_NAME}" <${process.env.SES_FROM_EMAIL}>`,
+    to: email,
+    subject: `Your prepaid hours with ${companyName} are running low`,
+    html: `
+      <p>${escapeHtml(greeting)}</p>
+      <p>${escapeHtml(summary)}</p>
+      <p>${escapeHtml(action)}</p>
+      <p><a href="${escapeHtml(portalUrl)}">Open the client portal</a></p>
+      ${emailService.getEmailFooter()}
+    `,
+    text: [greeting, '', summary, '', action, '', `Client portal: ${portalUrl}`].join('\n')
+  });
+  await query(`UPDATE businesses SET prepaid_low_balance_warned_at = NOW() WHERE id = $1`, [business.id]);
+}
+
+export default {
+  validateBlockInput,
+  validateLowBalanceHours,
+  summarizePrepaidBlocks,
+  allocatePrepaidMinutes,
+  billableMinutes,
+  applyPrepaidMinutes,
+  getPrepaidBalance,
+  listPrepaidUsage,
+  addPrepaidBlock,
+  deletePrepaidBlock,
+  prepaidMinutesUsedBy,
+  drawDownPrepaidHours
+};
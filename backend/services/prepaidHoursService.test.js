@@ -0,0 +1,150 @@
+// Tests for prepaidHoursService — block validation, the balance, splitting a
+// request's time over blocks and tiers, and the block rules against a fake
+// db. Drawing down at close time needs a real database.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  validateBlockInput,
+  validateLowBalanceHours,
+  summarizePrepaidBlocks,
+  allocatePrepaidMinutes,
+  billableMinutes,
+  applyPrepaidMinutes,
+  addPrepaidBlock,
+  deletePrepaidBlock
+} from './prepaidHoursService.js';
+import { buildServiceRequestLineItems, computeInvoiceTotals } from './invoiceService.js';
+
+function fakeDb(handlers) {
+  const calls = [];
+  return {
+    calls,
+    async query(sql, params = []) {
+      calls.push({ sql, params });
+      for (const [pattern, rows] of handlers) {
+        if (pattern.test(sql)) return { rows: typeof rows === 'function' ? rows(params) : rows };
+      }
+      return { rows: [] };
+    }
+  };
+}
+
+function billingFor(hours) {
+  return {
+    serviceRequest: { id: 'sr-1', request_number: 'SR-1042' },
+    baseRate: 100,
+    rates: { standard: 100, premium: 150, emergency: 200 },
+    waivedHours: 0,
+    ...hours,
+    lineItems: buildServiceRequestLineItems({ serviceRequestId: 'sr-1', baseRate: 100, waivedHours: 0, ...hours })
+  };
+}
+
+test('validateBlockInput: normalises a block and rejects bad values', () => {
+  assert.deepEqual(validateBlockInput({ hours: '20', purchasedOn: '2026-10-01', notes: '  Q4 retainer ' }), {
+    hours: 20, purchasedOn: '2026-10-01', expiresOn: null, notes: 'Q4 retainer'
+  });
+  assert.throws(() => validateBlockInput({ hours: 0 }), /more than 0/);
+  assert.throws(() => validateBlockInput({ hours: 'ten' }), /more than 0/);
+  assert.throws(() => validateBlockInput({ hours: 10.125 }), /two decimal places/);
+  assert.throws(() => validateBlockInput({ hours: 10, purchasedOn: '10/01/2026' }), /Purchase date must be YYYY-MM-DD/);
+  assert.throws(
+    () => validateBlockInput({ hours: 10, purchasedOn: '2026-10-01', expiresOn: '2026-09-30' }),
+    /cannot be before the purchase date/
+  );
+});
+
+test('validateLowBalanceHours: accepts 0 and rejects negatives or blanks', () => {
+  assert.equal(validateLowBalanceHours('2.5'), 2.5);
+  assert.equal(validateLowBalanceHours(0), 0);
+  assert.throws(() => validateLowBalanceHours(-1), /between 0 and/);
+  assert.throws(() => validateLowBalanceHours(''), /between 0 and/);
+});
+
+test('summarizePrepaidBlocks: expired hours lapse and the balance turns low at the threshold', () => {
+  const summary = summarizePrepaidBlocks([
+    { id: 'b-1', hours: '10.00', used_minutes: 480, is_expired: true },
+    { id: 'b-2', hours: '5.00', used_minutes: 150, is_expired: false }
+  ], '2.50');
+  assert.equal(summary.purchasedHours, 15);
+  assert.equal(summary.usedHours, 10.5);
+  assert.equal(summary.expiredHours, 2);
+  assert.equal(summary.remainingHours, 2.5);
+  assert.equal(summary.isLow, true);
+  assert.deepEqual(summary.blocks.map(block => block.remaining_minutes), [0, 150]);
+
+  assert.equal(summarizePrepaidBlocks([], 2).isLow, false);
+  assert.equal(summarizePrepaidBlocks([{ id: 'b-3', hours: 10, used_minutes: 0, is_expired: false }], 2).isLow, false);
+});
+
+test('allocatePrepaidMinutes: spends blocks in order until the time is covered', () => {
+  const blocks = [
+    { id: 'b-1', remaining_minutes: 30 },
+    { id: 'b-2', remaining_minutes: 0 },
+    { id: 'b-3', remaining_minutes: 600 }
+  ];
+  assert.deepEqual(allocatePrepaidMinutes(blocks, 90), {
+    allocations: [{ blockId: 'b-1', minutes: 30 }, { blockId: 'b-3', minutes: 60 }],
+    coveredMinutes: 90
+  });
+  assert.deepEqual(allocatePrepaidMinutes([{ id: 'b-1', remaining_minutes: 45 }], 120), {
+    allocations: [{ blockId: 'b-1', minutes: 45 }],
+    coveredMinutes: 45
+  });
+  assert.equal(allocatePrepaidMinutes(blocks, 0).coveredMinutes, 0);
+});
+
+test('applyPrepaidMinutes: covers the most expensive tier first and invoices the rest', () => {
+  const billing = billingFor({ standardHours: 2, premiumHours: 1, emergencyHours: 0 });
+  assert.equal(billableMinutes(billing), 180);
+
+  const partial = applyPrepaidMinutes(billing, 90);
+  assert.equal(partial.premiumHours, 0);
+  assert.equal(partial.standardHours, 1.5);
+  assert.equal(partial.prepaidHours, 1.5);
+  assert.equal(partial.costs.standard, 150);
+  assert.equal(computeInvoiceTotals(partial.lineItems, 0).subtotal, 150);
+  assert.deepEqual(partial.lineItems.at(-1), {
+    description: 'Prepaid hours applied',
+    itemType: 'discount',
+    quantity: 1.5,
+    unitPrice: 0,
+    taxable: false,
+    serviceRequestId: 'sr-1',
+    timeEntryId: null,
+    productRef: null
+  });
+
+  const covered = applyPrepaidMinutes(billing, 180);
+  assert.equal(billableMinutes(covered), 0);
+  assert.equal(computeInvoiceTotals(covered.lineItems, 0).subtotal, 0);
+
+  assert.equal(applyPrepaidMinutes(billing, 0).lineItems, billing.lineItems);
+});
+
+test('addPrepaidBlock: inserts the block and re-arms the low-balance warning', async () => {
+  const db = fakeDb([
+    [/SELECT id FROM businesses/, [{ id: 'biz-1' }]],
+    [/INSERT INTO prepaid_hour_blocks/, [{ id: 'blk-1', hours: '10.00' }]]
+  ]);
+  const block = await addPrepaidBlock(db, 'biz-1', { hours: 10 }, { employeeId: 'emp-1' });
+  assert.equal(block.id, 'blk-1');
+  const insert = db.calls.find(call => /INSERT INTO prepaid_hour_blocks/.test(call.sql));
+  assert.deepEqual(insert.params, ['biz-1', 10, null, null, null, 'emp-1']);
+  assert.ok(db.calls.some(call => /prepaid_low_balance_warned_at = NULL/.test(call.sql)));
+
+  await assert.rejects(addPrepaidBlock(fakeDb([]), 'biz-9', { hours: 10 }), /Business not found/);
+});
+
+test('deletePrepaidBlock: a drawn-down block stays', async () => {
+  const used = fakeDb([[/FROM prepaid_hour_blocks pb/, [{ id: 'blk-1', is_used: true }]]]);
+  await assert.rejects(deletePrepaidBlock(used, 'biz-1', 'blk-1'), /already been drawn down/);
+  assert.equal(used.calls.some(call => /DELETE FROM/.test(call.sql)), false);
+
+  const unused = fakeDb([[/FROM prepaid_hour_blocks pb/, [{ id: 'blk-2', is_used: false }]]]);
+  await deletePrepaidBlock(unused, 'biz-1', 'blk-2');
+  assert.ok(unused.calls.some(call => /DELETE FROM prepaid_hour_blocks/.test(call.sql)));
+
+  await assert.rejects(deletePrepaidBlock(fakeDb([]), 'biz-1', 'blk-3'), /Prepaid block not found/);
+});
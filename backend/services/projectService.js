@@ -0,0 +1,448 @@
+/**
+ * Projects.
+ *
+ * A project is a larger job for one business (an office move, a site
+ * rollout) with planned dates, budgeted hours and the technicians working
+ * on it. It is split into milestones, each with its own dates and budget,
+ * and service requests of the business are attached to milestones. Time
+ * logged on those requests rolls up into actual hours per milestone and
+ * for the project, against the budget.
+ *
+ * A project's budget is its own budgeted_hours when set, otherwise the sum
+ * of its milestones' budgets. Clients of the business read their projects
+ * in the portal; only employees change them.
+ */
+
+export const PROJECT_STATUSES = ['planning', 'active', 'on_hold', 'completed', 'cancelled'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_NAME_LENGTH = 255;
+const MAX_TEXT_LENGTH = 10000;
+const MAX_HOURS = 100000;
+
+// Minutes of one time entry; an open timer counts up to now
+const ENTRY_MINUTES = 'EXTRACT(EPOCH FROM (COALESCE(te.end_time, NOW()) - te.start_time)) / 60';
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function notFound(message) {
+  const error = new Error(message);
+  error.statusCode = 404;
+  return error;
+}
+
+function forbidden(message) {
+  const error = new Error(message);
+  error.statusCode = 403;
+  return error;
+}
+
+function requireClientBusiness(businessId) {
+  if (!businessId) throw forbidden('No business is linked to this account');
+}
+
+function requiredText(value, label) {
+  const trimmed = typeof value === 'string' ? value.trim() : '';
+  if (!trimmed) throw badRequest(`${label} is required`);
+  if (trimmed.length > MAX_NAME_LENGTH) throw badRequest(`${label} must be at most ${MAX_NAME_LENGTH} characters`);
+  return trimmed;
+}
+
+function optionalText(value, label) {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (trimmed.length > MAX_TEXT_LENGTH) throw badRequest(`${label} must be at most ${MAX_TEXT_LENGTH} characters`);
+  return trimmed || null;
+}
+
+function optionalDate(value, label) {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(value))) {
+    throw badRequest(`${label} must be YYYY-MM-DD`);
+  }
+  return value;
+}
+
+function optionalHours(value, label) {
+  if (value === null || value === undefined || value === '') return null;
+  const hours = Number(value);
+  if (!Number.isFinite(hours) || hours < 0 || hours > MAX_HOURS) {
+    throw badRequest(`${label} must be a number of hours between 0 and ${MAX_HOURS}`);
+  }
+  return Math.round(hours * 100) / 100;
+}
+
+function checkDateOrder(start, end, endLabel) {
+  if (start && end && end < start) throw badRequest(`${endLabel} cannot be before the start date`);
+}
+
+/**
+ * Validate a project from the admin editor.
+ */
+export function validateProjectInput(input = {}) {
+  const businessId = typeof input.businessId === 'string' && input.businessId ? input.businessId : null;
+  if (!businessId) throw badRequest('Business is required');
+
+  const status = input.status || 'planning';
+  if (!PROJECT_STATUSES.includes(status)) {
+    throw badRequest(`Status must be one of: ${PROJECT_STATUSES.join(', ')}`);
+  }
+
+  const startDate = optionalDate(input.startDate, 'Start date');
+  const targetEndDate = optionalDate(input.targetEndDate, 'Target end date');
+  checkDateOrder(startDate, targetEndDate, 'Target end date');
+
+  const technicianIds = input.technicianIds ?? [];
+  if (!Array.isArray(technicianIds) || technicianIds.some(id => typeof id !== 'string' || !id)) {
+    throw badRequest('Technicians must be a list of employee ids');
+  }
+
+  return {
+    businessId,
+    name: requiredText(input.name, 'Name'),
+    description: optionalText(input.description, 'Description'),
+    status,
+    startDate,
+    targetEndDate,
+    budgetedHours: optionalHours(input.budgetedHours, 'Budgeted hours'),
+    technicianIds: [...new Set(technicianIds)]
+  };
+}
+
+/**
+ * Validate a milestone from the admin editor.
+ */
+export function validateMilestoneInput(input = {}) {
+  const startDate = optionalDate(input.startDate, 'Start date');
+  const dueDate = optionalDate(input.dueDate, 'Due date');
+  checkDateOrder(startDate, dueDate, 'Due date');
+
+  return {
+    name: requiredText(input.name, 'Name'),
+    description: optionalText(input.description, 'Description'),
+    startDate,
+    dueDate,
+    budgetedHours: optionalHours(input.budgetedHours, 'Budgeted hours'),
+    completed: input.completed === true
+  };
+}
+
+const toHours = (minutes) => Math.round((Number(minutes) || 0) / 60 * 100) / 100;
+
+/**
+ * Budget vs actual for a project or milestone. Without a budget nothing is
+ * over budget and no percentage is given.
+ */
+export function budgetVsActual(budgetedHours, actualHours) {
+  const budgeted = budgetedHours === null || budgetedHours === undefined ? null : Number(budgetedHours);
+  const actual = Number(actualHours) || 0;
+  return {
+    budgetedHours: budgeted,
+    actualHours: actual,
+    remainingHours: budgeted === null ? null : Math.round((budgeted - actual) * 100) / 100,
+    percentUsed: budgeted ? Math.round((actual / budgeted) * 100) : null,
+    overBudget: budgeted !== null && actual > budgeted
+  };
+}
+
+/**
+ * Projects newest first, with milestone progress and budget vs actual.
+ * Filter by business and status; without a business every project is
+ * listed, so the client portal goes through listClientProjects.
+ */
+export async function listProjects(db, { businessId = null, status = null } = {}) {
+  const result = await db.query(
+    `SELECT p.id, p.business_id, b.business_name, p.name, p.status,
+            p.start_date::text AS start_date, p.target_end_date::text AS target_end_date,
+            p.budgeted_hours, p.created_at, p.updated_at,
+            (SELECT COUNT(*)::int FROM project_milestones m WHERE m.project_id = p.id) AS milestone_count,
+            (SELECT COUNT(*)::int FROM project_milestones m
+              WHERE m.project_id = p.id AND m.completed_at IS NOT NULL) AS completed_milestone_count,
+            (SELECT SUM(m.budgeted_hours) FROM project_milestones m WHERE m.project_id = p.id) AS milestone_budgeted_hours,
+            (SELECT COUNT(*)::int FROM service_requests sr
+               JOIN project_milestones m ON m.id = sr.project_milestone_id
+              WHERE m.project_id = p.id AND sr.soft_delete = false) AS request_count,
+            (SELECT COALESCE(SUM(${ENTRY_MINUTES}), 0)
+               FROM service_request_time_entries te
+               JOIN service_requests sr ON sr.id = te.service_request_id
+               JOIN project_milestones m ON m.id = sr.project_milestone_id
+              WHERE m.project_id = p.id AND sr.soft_delete = false) AS actual_minutes
+       FROM projects p
+       JOIN businesses b ON b.id = p.business_id
+      WHERE ($1::uuid IS NULL OR p.business_id = $1)
+        AND ($2::text IS NULL OR p.status = $2)
+      ORDER BY p.created_at DESC`,
+    [businessId, status]
+  );
+
+  return result.rows.map(({ actual_minutes, milestone_budgeted_hours, ...project }) => ({
+    ...project,
+    budget: budgetVsActual(project.budgeted_hours ?? milestone_budgeted_hours, toHours(actual_minutes))
+  }));
+}
+
+/**
+ * The client portal's projects: those of the user's business, never all.
+ */
+export async function listClientProjects(db, businessId) {
+  requireClientBusiness(businessId);
+  return listProjects(db, { businessId });
+}
+
+/**
+ * A project with its technicians and its milestones in order, each with
+ * the attached requests and budget vs actual. With `businessId` a project
+ * of another business is not found; the client portal goes through
+ * getClientProject, which requires one.
+ */
+export async function getProject(db, projectId, { businessId = null } = {}) {
+  const projectResult = await db.query(
+    `SELECT p.id, p.business_id, b.business_name, p.name, p.description, p.status,
+            p.start_date::text AS start_date, p.target_end_date::text AS target_end_date,
+            p.budgeted_hours, p.created_at, p.updated_at
+       FROM projects p
+       JOIN businesses b ON b.id = p.business_id
+      WHERE p.id = $1`,
+    [projectId]
+  );
+  const project = projectResult.rows[0];
+  if (!project || (businessId && project.business_id !== businessId)) throw notFound('Project not found');
+
+  const [technicians, milestones, requests] = await Promise.all([
+    db.query(
+      `SELECT e.id, CONCAT(e.first_name, ' ', e.last_name) AS name
+         FROM project_technicians pt
+         JOIN employees e ON e.id = pt.employee_id
+        WHERE pt.project_id = $1
+        ORDER BY e.first_name, e.last_name`,
+      [projectId]
+    ),
+    db.query(
+      `SELECT id, name, description, start_date::text AS start_date, due_date::text AS due_date,
+              budgeted_hours, sort_order, completed_at
+         FROM project_milestones
+        WHERE project_id = $1
+        ORDER BY sort_order, created_at`,
+      [projectId]
+    ),
+    db.query(
+      `SELECT sr.id, sr.request_number, sr.title, sr.project_milestone_id,
+              COALESCE(srs.name, 'Unknown') AS status,
+              COALESCE(srs.is_final_status, false) AS is_final_status,
+              NULLIF(TRIM(CONCAT(e.first_name, ' ', e.last_name)), '') AS assigned_technician,
+              (SELECT COALESCE(SUM(${ENTRY_MINUTES}), 0)
+                 FROM service_request_time_entries te
+                WHERE te.service_request_id = sr.id) AS logged_minutes
+         FROM service_requests sr
+         JOIN project_milestones m ON m.id = sr.project_milestone_id
+         LEFT JOIN service_request_statuses srs ON srs.id = sr.status_id
+         LEFT JOIN employees e ON e.id = sr.assigned_to_employee_id
+        WHERE m.project_id = $1 AND sr.soft_delete = false
+        ORDER BY sr.created_at`,
+      [projectId]
+    )
+  ]);
+
+  const milestoneRows = milestones.rows.map(milestone => {
+    const attached = requests.rows
+      .filter(request => request.project_milestone_id === milestone.id)
+      .map(({ logged_minutes, project_milestone_id, ...request }) => ({
+        ...request,
+        logged_hours: toHours(logged_minutes)
+      }));
+    const actualHours = Math.round(attached.reduce((sum, request) => sum + request.logged_hours, 0) * 100) / 100;
+    return {
+      ...milestone,
+      requests: attached,
+      budget: budgetVsActual(milestone.budgeted_hours, actualHours)
+    };
+  });
+
+  const milestoneBudget = milestoneRows.some(milestone => milestone.budgeted_hours !== null)
+    ? milestoneRows.reduce((sum, milestone) => sum + (Number(milestone.budgeted_hours) || 0), 0)
+    : null;
+  const actualHours = milestoneRows.reduce((sum, milestone) => sum + milestone.budget.actualHours, 0);
+
+  return {
+    ...project,
+    technicians: technicians.rows,
+    milestones: milestoneRows,
+    budget: budgetVsActual(project.budgeted_hours ?? milestoneBudget, Math.round(actualHours * 100) / 100)
+  };
+}
+
+/**
+ * Create (no `projectId`) or update a project and replace its technicians.
+ * Run inside a transaction. Returns the project id.
+ */
+export async function saveProject(db, projectId, input, employeeId) {
+  let id = projectId;
+  if (projectId) {
+    const foreign = await db.query(
+      `SELECT sr.request_number
+         FROM service_requests sr
+         JOIN project_milestones m ON m.id = sr.project_milestone_id
+        WHERE m.project_id = $1 AND sr.business_id <> $2
+        LIMIT 1`,
+      [projectId, input.businessId]
+    );
+    if (foreign.rows[0]) {
+      throw badRequest(`Detach ${foreign.rows[0].request_number} and the other requests before moving the project to another business`);
+    }
+
+    const updated = await db.query(
+      `UPDATE projects
+          SET business_id = $2, name = $3, description = $4, status = $5, start_date = $6,
+              target_end_date = $7, budgeted_hours = $8, updated_at = NOW()
+        WHERE id = $1
+        RETURNING id`,
+      [projectId, input.businessId, input.name, input.description, input.status,
+        input.startDate, input.targetEndDate, input.budgetedHours]
+    );
+    if (!updated.rows[0]) throw notFound('Project not found');
+  } else {
+    const created = await db.query(
+      `INSERT INTO projects (
+         business_id, name, description, status, start_date, target_end_date, budgeted_hours, created_by_employee_id
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING id`,
+      [input.businessId, input.name, input.description, input.status,
+        input.startDate, input.targetEndDate, input.budgetedHours, employeeId]
+    );
+    id = created.rows[0].id;
+  }
+
+  await db.query('DELETE FROM project_technicians WHERE project_id = $1', [id]);
+  if (input.technicianIds.length > 0) {
+    await db.query(
+      `INSERT INTO project_technicians (project_id, employee_id)
+       SELECT $1, UNNEST($2::uuid[])`,
+      [id, input.technicianIds]
+    );
+  }
+  return id;
+}
+
+/**
+ * Delete a project; its requests stay, detached from the milestones.
+ */
+export async function deleteProject(db, projectId) {
+  const result = await db.query('DELETE FROM projects WHERE id = $1 RETURNING id', [projectId]);
+  if (!result.rows[0]) throw notFound('Project not found');
+}
+
+/**
+ * Create (no `milestoneId`, appended last) or update a milestone.
+ */
+export async function saveMilestone(db, projectId, milestoneId, input) {
+  const project = await db.query('SELECT id FROM projects WHERE id = $1', [projectId]);
+  if (!project.rows[0]) throw notFound('Project not found');
+
+  if (milestoneId) {
+    const updated = await db.query(
+      `UPDATE project_milestones
+          SET name = $3, description = $4, start_date = $5, due_date = $6, budgeted_hours = $7,
+              completed_at = CASE WHEN $8 THEN COALESCE(completed_at, NOW()) ELSE NULL END,
+              updated_at = NOW()
+        WHERE id = $1 AND project_id = $2
+        RETURNING id`,
+      [milestoneId, projectId, input.name, input.description, input.startDate, input.dueDate,
+        input.budgetedHours, input.completed]
+    );
+    if (!updated.rows[0]) throw notFound('Milestone not found');
+    return milestoneId;
+  }
+
+  const created = await db.query(
+    `INSERT INTO project_milestones (
+       project_id, name, description, start_date, due_date, budgeted_hours, completed_at, sort_order
+     ) VALUES ($1, $2, $3, $4, $5, $6, CASE WHEN $7 THEN NOW() END,
+               (SELECT COALESCE(MAX(sort_order), -1) + 1 FROM project_milestones WHERE project_id = $1))
+     RETURNING id`,
+    [projectId, input.name, input.description, input.startDate, input.dueDate, input.budgetedHours, input.completed]
+  );
+  return created.rows[0].id;
+}
+
+/**
+ * Delete a milestone; its requests stay, detached.
+ */
+export async function deleteMilestone(db, projectId, milestoneId) {
+  const result = await db.query(
+    'DELETE FROM project_milestones WHERE id = $1 AND project_id = $2 RETURNING id',
+    [milestoneId, projectId]
+  );
+  if (!result.rows[0]) throw notFound('Milestone not found');
+}
+
+/**
+ * Attach a request of the project's business to a milestone, by request
+ * number. A request already on another milestone moves.
+ */
+export async function attachRequest(db, { projectId, milestoneId, requestNumber }) {
+  const number = typeof requestNumber === 'string' ? requestNumber.trim().toUpperCase() : '';
+  if (!number) throw badRequest('A request number is required');
+
+  const milestone = await db.query(
+    `SELECT m.id, p.business_id
+       FROM project_milestones m
+       JOIN projects p ON p.id = m.project_id
+      WHERE m.id = $1 AND m.project_id = $2`,
+    [milestoneId, projectId]
+  );
+  if (!milestone.rows[0]) throw notFound('Milestone not found');
+
+  const attached = await db.query(
+    `UPDATE service_requests
+        SET project_milestone_id = $1, updated_at = NOW()
+      WHERE request_number = $2 AND business_id = $3 AND soft_delete = false
+      RETURNING id, request_number`,
+    [milestoneId, number, milestone.rows[0].business_id]
+  );
+  if (!attached.rows[0]) throw notFound(`Service request ${number} not found for this project's business`);
+  return attached.rows[0];
+}
+
+/**
+ * Take a request off the project's milestones.
+ */
+export async function detachRequest(db, { projectId, serviceRequestId }) {
+  const result = await db.query(
+    `UPDATE service_requests
+        SET project_milestone_id = NULL, updated_at = NOW()
+      WHERE id = $1
+        AND project_milestone_id IN (SELECT id FROM project_milestones WHERE project_id = $2)
+      RETURNING id`,
+    [serviceRequestId, projectId]
+  );
+  if (!result.rows[0]) throw notFound('Service request is not part of this project');
+}
+
+/**
+ * A project of the client's business, for the client portal.
+ */
+export async function getClientProject(db, projectId, businessId) {
+  requireClientBusiness(businessId);
+  return getProject(db, projectId, { businessId });
+}
+
+export default {
+  PROJECT_STATUSES,
+  validateProjectInput,
+  validateMilestoneInput,
+  budgetVsActual,
+  listProjects,
+  getProject,
+  listClientProjects,
+  getClientProject,
+  saveProject,
+  deleteProject,
+  saveMilestone,
+  deleteMilestone,
+  attachRequest,
+  detachRequest
+};
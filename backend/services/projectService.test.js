@@ -0,0 +1,136 @@
+// Tests for projectService — input validation, budget vs actual, the
+// milestone rollup and business scoping of attached requests, against a
+// fake db.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  validateProjectInput,
+  validateMilestoneInput,
+  budgetVsActual,
+  getProject,
+  listClientProjects,
+  getClientProject,
+  saveProject,
+  attachRequest,
+  detachRequest
+} from './projectService.js';
+
+const VALID = {
+  businessId: 'b-1',
+  name: '  Office move ',
+  status: 'active',
+  startDate: '2026-11-01',
+  targetEndDate: '2026-12-15',
+  budgetedHours: '40',
+  technicianIds: ['e-1', 'e-2', 'e-1']
+};
+
+function fakeDb(handlers) {
+  const calls = [];
+  return {
+    calls,
+    async query(sql, params = []) {
+      calls.push({ sql, params });
+      for (const [pattern, rows] of handlers) {
+        if (pattern.test(sql)) return { rows: typeof rows === 'function' ? rows(params) : rows };
+      }
+      return { rows: [] };
+    }
+  };
+}
+
+test('validateProjectInput: trims, parses hours and de-duplicates technicians', () => {
+  const project = validateProjectInput(VALID);
+  assert.equal(project.name, 'Office move');
+  assert.equal(project.budgetedHours, 40);
+  assert.equal(project.description, null);
+  assert.deepEqual(project.technicianIds, ['e-1', 'e-2']);
+  assert.equal(validateProjectInput({ businessId: 'b-1', name: 'Rollout' }).status, 'planning');
+});
+
+test('validateProjectInput / validateMilestoneInput: reject bad values', () => {
+  assert.throws(() => validateProjectInput({ ...VALID, businessId: '' }), /Business is required/);
+  assert.throws(() => validateProjectInput({ ...VALID, name: ' ' }), /Name is required/);
+  assert.throws(() => validateProjectInput({ ...VALID, status: 'done' }), /Status must be one of/);
+  assert.throws(() => validateProjectInput({ ...VALID, targetEndDate: '2026-10-01' }), /cannot be before the start date/);
+  assert.throws(() => validateProjectInput({ ...VALID, budgetedHours: -1 }), /number of hours/);
+  assert.throws(() => validateProjectInput({ ...VALID, technicianIds: 'e-1' }), /list of employee ids/);
+  assert.throws(() => validateMilestoneInput({ name: 'Cabling', dueDate: '15/12/2026' }), /Due date must be YYYY-MM-DD/);
+  assert.equal(validateMilestoneInput({ name: 'Cabling', completed: 'yes' }).completed, false);
+});
+
+test('budgetVsActual: remaining, percentage and over budget', () => {
+  assert.deepEqual(budgetVsActual('10', 12.5), {
+    budgetedHours: 10, actualHours: 12.5, remainingHours: -2.5, percentUsed: 125, overBudget: true
+  });
+  assert.deepEqual(budgetVsActual(null, 3), {
+    budgetedHours: null, actualHours: 3, remainingHours: null, percentUsed: null, overBudget: false
+  });
+});
+
+test('getProject: rolls logged time up per milestone and falls back to milestone budgets', async () => {
+  const db = fakeDb([
+    [/FROM projects p/, [{ id: 'p-1', business_id: 'b-1', name: 'Office move', budgeted_hours: null }]],
+    [/FROM project_technicians/, [{ id: 'e-1', name: 'Ada Lovelace' }]],
+    [/FROM project_milestones\s+WHERE/, [
+      { id: 'm-1', name: 'Cabling', budgeted_hours: '8' },
+      { id: 'm-2', name: 'Cutover', budgeted_hours: null }
+    ]],
+    [/FROM service_requests sr/, [
+      { id: 'sr-1', request_number: 'SR-1', project_milestone_id: 'm-1', logged_minutes: '300' },
+      { id: 'sr-2', request_number: 'SR-2', project_milestone_id: 'm-1', logged_minutes: '270' },
+      { id: 'sr-3', request_number: 'SR-3', project_milestone_id: 'm-2', logged_minutes: '60' }
+    ]]
+  ]);
+
+  const project = await getProject(db, 'p-1');
+  assert.equal(project.milestones[0].requests.length, 2);
+  assert.equal(project.milestones[0].requests[0].logged_hours, 5);
+  assert.equal('project_milestone_id' in project.milestones[0].requests[0], false);
+  assert.equal(project.milestones[0].budget.actualHours, 9.5);
+  assert.equal(project.milestones[0].budget.overBudget, true);
+  assert.equal(project.budget.budgetedHours, 8);
+  assert.equal(project.budget.actualHours, 10.5);
+});
+
+test('getClientProject: a project of another business is not found for a client', async () => {
+  const db = fakeDb([[/FROM projects p/, [{ id: 'p-1', business_id: 'b-1' }]]]);
+  await assert.rejects(getClientProject(db, 'p-1', 'b-2'), { statusCode: 404 });
+});
+
+test('client projects need the user\'s business instead of listing every one', async () => {
+  const db = fakeDb([[/FROM projects p/, [{ id: 'p-1', business_id: 'b-1' }]]]);
+  await assert.rejects(listClientProjects(db, null), { statusCode: 403 });
+  await assert.rejects(getClientProject(db, 'p-1', null), { statusCode: 403 });
+  assert.equal(db.calls.length, 0);
+});
+
+test('saveProject: replaces technicians and refuses moving requests to another business', async () => {
+  const db = fakeDb([[/UPDATE projects/, [{ id: 'p-1' }]]]);
+  await saveProject(db, 'p-1', validateProjectInput(VALID), 'e-9');
+  assert.ok(db.calls.some(call => /DELETE FROM project_technicians/.test(call.sql)));
+  const insert = db.calls.find(call => /INSERT INTO project_technicians/.test(call.sql));
+  assert.deepEqual(insert.params, ['p-1', ['e-1', 'e-2']]);
+
+  const blocked = fakeDb([[/sr\.business_id <> \$2/, [{ request_number: 'SR-2026-00007' }]]]);
+  await assert.rejects(saveProject(blocked, 'p-1', validateProjectInput(VALID), 'e-9'), {
+    statusCode: 400,
+    message: /Detach SR-2026-00007/
+  });
+});
+
+test('attachRequest / detachRequest: scoped to the project business and milestones', async () => {
+  const db = fakeDb([
+    [/FROM project_milestones m/, [{ id: 'm-1', business_id: 'b-1' }]],
+    [/UPDATE service_requests/, [{ id: 'sr-1', request_number: 'SR-2026-00001' }]]
+  ]);
+  const attached = await attachRequest(db, { projectId: 'p-1', milestoneId: 'm-1', requestNumber: ' sr-2026-00001 ' });
+  assert.equal(attached.id, 'sr-1');
+  assert.deepEqual(db.calls[1].params, ['m-1', 'SR-2026-00001', 'b-1']);
+
+  const foreign = fakeDb([[/FROM project_milestones m/, [{ id: 'm-1', business_id: 'b-1' }]]]);
+  await assert.rejects(attachRequest(foreign, { projectId: 'p-1', milestoneId: 'm-1', requestNumber: 'SR-9' }), { statusCode: 404 });
+  await assert.rejects(attachRequest(foreign, { projectId: 'p-1', milestoneId: 'm-1', requestNumber: ' ' }), { statusCode: 400 });
+  await assert.rejects(detachRequest(fakeDb([]), { projectId: 'p-1', serviceRequestId: 'sr-1' }), { statusCode: 404 });
+});
@@ -0,0 +1,590 @@
+/**
+ * Quotes / estimates.
+ *
+ * A quote prices a larger job for one business with the same line items as
+ * an invoice (labour, parts, fees, discounts, taxable flag), plus the scope,
+ * terms, the date it is valid until and, optionally, when the work would be
+ * done. Admins draft it, edit it and email it to a client contact; editing a
+ * sent quote returns it to draft until it is sent again.
+ *
+ * Any client user of the business can answer a sent quote in the portal
+ * until its valid_until date has passed. Accepting is an e-signature: the
+ * typed name, the agreement checkbox, the time and the client's IP are kept
+ * on the quote. Acceptance creates a Submitted service request at the quoted
+ * location and schedule, linked back through quotes.service_request_id.
+ * When the close handler completes that request it calls
+ * invoiceQuotedRequest, which invoices the quoted lines (at the quoted tax
+ * rate and currency) instead of the logged hours.
+ *
+ * A quote is priced in the business's currency and taxed like its invoices
+ * (see taxService) unless the admin types a tax rate.
+ */
+import { emailService } from './emailService.js';
+import {
+  computeInvoiceTotals,
+  insertInvoiceLineItems,
+  nextInvoiceNumber,
+  recordInvoiceHistory,
+  validateInvoiceInput
+} from './invoiceService.js';
+import { formatMoney, validateEmailInput } from './invoicePdfService.js';
+import { DEFAULT_CURRENCY } from './currencyService.js';
+import { computeInvoiceTax, computeTaxBreakdown, resolveInvoiceTax } from './taxService.js';
+import { generateRequestNumber } from '../utils/requestNumberGenerator.js';
+
+const PORTAL_URL = process.env.FRONTEND_URL || 'http://localhost:5173';
+
+export const QUOTE_STATUSES = ['draft', 'sent', 'accepted', 'declined'];
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_TITLE_LENGTH = 255;
+const MAX_TEXT_LENGTH = 10000;
+const MAX_SIGNATURE_LENGTH = 200;
+const MAX_DECLINE_REASON_LENGTH = 1000;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function notFound(message) {
+  const error = new Error(message);
+  error.statusCode = 404;
+  return error;
+}
+
+function forbidden(message) {
+  const error = new Error(message);
+  error.statusCode = 403;
+  return error;
+}
+
+function requireClientBusiness(businessId) {
+  if (!businessId) throw forbidden('No business is linked to this account');
+}
+
+function escapeHtml(text) {
+  return String(text ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function optionalText(value, label, maxLength = MAX_TEXT_LENGTH) {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) throw badRequest(`${label} must be at most ${maxLength} characters`);
+  return trimmed || null;
+}
+
+function optionalId(value) {
+  return typeof value === 'string' && value ? value : null;
+}
+
+/**
+ * Validate a quote from the admin editor. Line items follow the invoice
+ * rules; references to time entries or other requests are dropped since the
+ * work has not happened yet.
+ */
+export function validateQuoteInput(input = {}) {
+  const { businessId, taxRate, lineItems } = validateInvoiceInput({
+    businessId: input.businessId,
+    taxRate: input.taxRate,
+    lineItems: input.lineItems
+  });
+
+  const serviceLocationId = optionalId(input.serviceLocationId);
+  if (!serviceLocationId) throw badRequest('Service location is required');
+
+  const title = optionalText(input.title, 'Title', MAX_TITLE_LENGTH);
+  if (!title) throw badRequest('Title is required');
+
+  const validUntil = input.validUntil || '';
+  if (!DATE_PATTERN.test(validUntil)) throw badRequest('Valid until must be YYYY-MM-DD');
+
+  let requestedDatetime = null;
+  if (input.requestedDatetime) {
+    const parsed = new Date(input.requestedDatetime);
+    if (Number.isNaN(parsed.getTime())) throw badRequest('Scheduled time is not a valid date');
+    requestedDatetime = parsed.toISOString();
+  }
+
+  let requestedDurationMinutes = null;
+  if (input.requestedDurationMinutes !== null && input.requestedDurationMinutes !== undefined && input.requestedDurationMinutes !== '') {
+    requestedDurationMinutes = Number(input.requestedDurationMinutes);
+    if (!Number.isInteger(requestedDurationMinutes) || requestedDurationMinutes <= 0) {
+      throw badRequest('Duration must be a whole number of minutes');
+    }
+  }
+
+  return {
+    businessId,
+    serviceLocationId,
+    serviceTypeId: optionalId(input.serviceTypeId),
+    contactUserId: optionalId(input.contactUserId),
+    title,
+    description: optionalText(input.description, 'Description'),
+    terms: optionalText(input.terms, 'Terms'),
+    validUntil,
+    requestedDatetime,
+    requestedDurationMinutes,
+    taxRate,
+    lineItems: lineItems.map(({ serviceRequestId, timeEntryId, ...item }) => item)
+  };
+}
+
+/**
+ * The status shown for a quote: 'invoiced' once its request has been
+ * billed, 'expired' for a sent quote past its valid_until date (is_expired,
+ * computed against the database's CURRENT_DATE), otherwise the stored status.
+ */
+export function quoteDisplayStatus(quote) {
+  if (quote.invoice_id) return 'invoiced';
+  if (quote.status === 'sent' && quote.is_expired) return 'expired';
+  return quote.status;
+}
+
+/**
+ * Only a sent, unexpired quote can be accepted or declined.
+ */
+export function assertQuoteAnswerable(quote) {
+  if (quote.status === 'accepted') throw badRequest('This quote has already been accepted');
+  if (quote.status === 'declined') throw badRequest('This quote has already been declined');
+  if (quote.status !== 'sent') throw badRequest('This quote is not open for a response');
+  if (quote.is_expired) throw badRequest(`This quote expired on ${quote.valid_until}; ask us for an updated quote`);
+}
+
+/**
+ * The e-signature given when accepting: the signer's typed name and the
+ * agreement checkbox.
+ */
+export function validateAcceptance(input = {}) {
+  if (input.agreed !== true) throw badRequest('Check the box to sign and accept the quote');
+  const signatureName = optionalText(input.signatureName, 'Signature', MAX_SIGNATURE_LENGTH);
+  if (!signatureName) throw badRequest('Type your full name to sign the quote');
+  return { signatureName };
+}
+
+export function validateDecline(input = {}) {
+  return { reason: optionalText(input.reason, 'Reason', MAX_DECLINE_REASON_LENGTH) };
+}
+
+const QUOTE_SELECT = `
+  SELECT q.id, q.quote_number, q.business_id, q.service_location_id, q.service_type_id, q.contact_user_id,
+         q.title, q.description, q.terms, q.valid_until::text AS valid_until,
+         q.requested_datetime, q.requested_duration_minutes,
+         q.subtotal, q.tax_rate, q.tax_amount, q.total_amount, q.currency, q.tax_breakdown, q.status,
+         q.sent_at, q.sent_to, q.accepted_at, q.signature_name, q.declined_at, q.decline_reason,
+         q.service_request_id, q.invoice_id, q.created_at, q.updated_at,
+         (q.valid_until < CURRENT_DATE) AS is_expired,
+         b.business_name,
+         COALESCE(sl.location_name, sl.address_label) AS location_name,
+         st.name AS service_type_name,
+         NULLIF(TRIM(CONCAT(cu.first_name, ' ', cu.last_name)), '') AS contact_name,
+         cu.email AS contact_email,
+         NULLIF(TRIM(CONCAT(au.first_name, ' ', au.last_name)), '') AS accepted_by_name,
+         sr.request_number, i.invoice_number
+    FROM quotes q
+    JOIN businesses b ON q.business_id = b.id
+    LEFT JOIN service_locations sl ON q.service_location_id = sl.id
+    LEFT JOIN service_types st ON q.service_type_id = st.id
+    LEFT JOIN users cu ON q.contact_user_id = cu.id
+    LEFT JOIN users au ON q.accepted_by_user_id = au.id
+    LEFT JOIN service_requests sr ON q.service_request_id = sr.id
+    LEFT JOIN invoices i ON q.invoice_id = i.id
+`;
+
+function withDisplayStatus(quote) {
+  return { ...quote, display_status: quoteDisplayStatus(quote) };
+}
+
+/**
+ * Quotes, newest first, optionally of one business (staff).
+ */
+export async function listQuotes(db, { businessId = null } = {}) {
+  const where = businessId ? 'WHERE q.business_id = $1' : '';
+  const result = await db.query(`${QUOTE_SELECT} ${where} ORDER BY q.created_at DESC`, businessId ? [businessId] : []);
+  return result.rows.map(withDisplayStatus);
+}
+
+/**
+ * The client portal's quotes: those sent to the user's business, newest
+ * first, without drafts.
+ */
+export async function listClientQuotes(db, businessId) {
+  requireClientBusiness(businessId);
+  const result = await db.query(
+    `${QUOTE_SELECT} WHERE q.business_id = $1 AND q.status <> 'draft' ORDER BY q.created_at DESC`,
+    [businessId]
+  );
+  return result.rows.map(withDisplayStatus);
+}
+
+/**
+ * One quote with its line items (staff).
+ *
+ * @returns {Promise<object|null>} null if not found
+ */
+export async function getQuote(db, quoteId) {
+  return loadQuote(db, quoteId, 'WHERE q.id = $1', [quoteId]);
+}
+
+/**
+ * One quote for the client portal: only a non-draft quote of the user's
+ * business.
+ *
+ * @returns {Promise<object|null>} null if not found
+ */
+export async function getClientQuote(db, quoteId, businessId) {
+  requireClientBusiness(businessId);
+  return loadQuote(db, quoteId, `WHERE q.id = $1 AND q.business_id = $2 AND q.status <> 'draft'`, [quoteId, businessId]);
+}
+
+async function loadQuote(db, quoteId, where, params) {
+  const result = await db.query(`${QUOTE_SELECT} ${where}`, params);
+  if (result.rows.length === 0) return null;
+
+  const lineItems = await db.query(
+    `SELECT id, description, item_type, quantity, unit_price, amount, taxable, product_ref
+       FROM quote_line_items
+      WHERE quote_id = $1
+      ORDER BY sort_order`,
+    [quoteId]
+  );
+  return { ...withDisplayStatus(result.rows[0]), line_items: lineItems.rows };
+}
+
+async function assertQuoteReferences(db, input) {
+  const location = await db.query(
+    'SELECT 1 FROM service_locations WHERE id = $1 AND business_id = $2 AND soft_delete = false',
+    [input.serviceLocationId, input.businessId]
+  );
+  if (location.rows.length === 0) throw badRequest('The service location does not belong to this business');
+
+  if (input.contactUserId) {
+    const contact = await db.query(
+      'SELECT 1 FROM users WHERE id = $1 AND business_id = $2 AND soft_delete = false',
+      [input.contactUserId, input.businessId]
+    );
+    if (contact.rows.length === 0) throw badRequest('The contact does not belong to this business');
+  }
+}
+
+async function replaceLineItems(db, quoteId, lineItems) {
+  await db.query('DELETE FROM quote_line_items WHERE quote_id = $1', [quoteId]);
+  for (const [index, item] of lineItems.entries()) {
+    await db.query(
+      `INSERT INTO quote_line_items (quote_id, description, item_type, quantity, unit_price, amount, taxable, product_ref, sort_order)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [quoteId, item.description, item.itemType, item.quantity, item.unitPrice, item.amount, item.taxable, item.productRef, index]
+    );
+  }
+}
+
+/**
+ * Create a draft quote, or replace the details and lines of an unanswered
+ * one (which returns it to draft). Run inside a transaction.
+ *
+ * @returns {Promise<string>} the quote id
+ */
+export async function saveQuote(db, input, { quoteId = null, employeeId = null } = {}) {
+  await assertQuoteReferences(db, input);
+  const tax = await resolveInvoiceTax(db, input.businessId, { taxRate: input.taxRate });
+  const totals = computeInvoiceTax(input.lineItems, tax);
+  const values = [
+    input.businessId, input.serviceLocationId, input.serviceTypeId, input.contactUserId,
+    input.title, input.description, input.terms, input.validUntil,
+    input.requestedDatetime, input.requestedDurationMinutes,
+    totals.subtotal, tax.taxRate, totals.taxAmount, totals.totalAmount,
+    tax.currency, JSON.stringify(totals.taxBreakdown)
+  ];
+
+  let id = quoteId;
+  if (quoteId) {
+    const existing = await db.query('SELECT status FROM quotes WHERE id = $1 FOR UPDATE', [quoteId]);
+    if (existing.rows.length === 0) throw notFound('Quote not found');
+    if (!['draft', 'sent'].includes(existing.rows[0].status)) {
+      throw badRequest(`This quote has been ${existing.rows[0].status} and can no longer be edited`);
+    }
+    await db.query(
+      `UPDATE quotes
+          SET business_id = $1, service_location_id = $2, service_type_id = $3, contact_user_id = $4,
+              title = $5, description = $6, terms = $7, valid_until = $8,
+              requested_datetime = $9, requested_duration_minutes = $10,
+              subtotal = $11, tax_rate = $12, tax_amount = $13, total_amount = $14,
+              currency = $15, tax_breakdown = $16,
+              status = 'draft', updated_at = NOW()
+        WHERE id = $17`,
+      [...values, quoteId]
+    );
+  } else {
+    const quoteNumber = await nextQuoteNumber(db);
+    const inserted = await db.query(
+      `INSERT INTO quotes (
+         business_id, service_location_id, service_type_id, contact_user_id,
+         title, description, terms, valid_until,
+         requested_datetime, requested_duration_minutes,
+         subtotal, tax_rate, tax_amount, total_amount, currency, tax_breakdown,
+         quote_number, created_by_employee_id
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+       RETURNING id`,
+      [...values, quoteNumber, employeeId]
+    );
+    id = inserted.rows[0].id;
+  }
+
+  await replaceLineItems(db, id, totals.lineItems);
+  return id;
+}
+
+/**
+ * Next Q-YYYYMMDD-NNNN number for the day
+ */
+export async function nextQuoteNumber(db, date = new Date()) {
+  const dateStr = date.toISOString().slice(0, 10).replace(/-/g, '');
+  const result = await db.query(
+    `SELECT COALESCE(MAX(CAST(split_part(quote_number, '-', 3) AS INTEGER)), 0) AS max_seq
+       FROM quotes
+      WHERE quote_number LIKE $1`,
+    [`Q-${dateStr}-%`]
+  );
+  return `Q-${dateStr}-${String(Number(result.rows[0].max_seq) + 1).padStart(4, '0')}`;
+}
+
+/**
+ * Delete a quote nobody has accepted.
+ *
+ * @returns {Promise<boolean>} false if not found
+ */
+export async function deleteQuote(db, quoteId) {
+  const existing = await db.query('SELECT status FROM quotes WHERE id = $1', [quoteId]);
+  if (existing.rows.length === 0) return false;
+  if (existing.rows[0].status === 'accepted') {
+    throw badRequest('An accepted quote has a service request and cannot be deleted');
+  }
+  await db.query('DELETE FROM quotes WHERE id = $1', [quoteId]);
+  return true;
+}
+
+/**
+ * Email a draft or sent quote to the client contact (or `input.to`) with a
+ * link to answer it in the portal, and mark it sent.
+ *
+ * @param {{to?: string, message?: string}} input
+ * @returns {Promise<{to: string, messageId: string}>}
+ */
+export async function sendQuote(db, quoteId, input) {
+  const quote = await getQuote(db, quoteId);
+  if (!quote) throw notFound('Quote not found');
+  if (!['draft', 'sent'].includes(quote.status)) {
+    throw badRequest(`This quote has been ${quote.status} and cannot be sent again`);
+  }
+  if (quote.is_expired) {
+    throw badRequest('Move the valid until date forward before sending the quote');
+  }
+  const { to, message } = validateEmailInput(input, quote.contact_email);
+
+  const company = await db.query(`SELECT setting_value FROM company_settings WHERE setting_key = 'company_name'`);
+  const companyName = company.rows[0]?.setting_value || 'Romero Tech Solutions';
+  const portalUrl = `${PORTAL_URL}/clogin`;
+  const greeting = quote.contact_name ? `Hello ${quote.contact_name},` : 'Hello,';
+  const summary = `Quote ${quote.quote_number} for ${quote.title} comes to ${formatMoney(quote.total_amount, quote.currency)} and is valid until ${quote.valid_until}.`;
+  const action = 'You can review the line items and terms, and accept or decline the quote, under Quotes in the client portal.';
+  const lines = quote.line_items.map(item =>
+    `${item.description}: ${Number(item.quantity)} x ${formatMoney(item.unit_price, quote.currency)} = ${formatMoney(item.amount, quote.currency)}`);
+
+  const sent = await emailService.sendRawEmail({
+    from: `"${process.env.SES_FROM_NAME}" <${process.env.SES_FROM_EMAIL}>`,
+    to,
+    subject: `Quote ${quote.quote_number} from ${companyName}: ${quote.title}`,
+    html: `
+      <p>${escapeHtml(greeting)}</p>
+      <p>${escapeHtml(summary)}</p>
+      ${message ? `<p style="white-space: pre-line;">${escapeHtml(message)}</p>` : ''}
+      <ul>${lines.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>
+      <p>${escapeHtml(action)}</p>
+      <p><a href="${escapeHtml(portalUrl)}">Open the client portal</a></p>
+      ${emailService.getEmailFooter()}
+    `,
+    text: [greeting, '', summary, message ? `\n${message}\n` : '', ...lines, '', action, '', `Client portal: ${portalUrl}`]
+      .join('\n')
+  });
+
+  await db.query(
+    `UPDATE quotes SET status = 'sent', sent_at = NOW(), sent_to = $2, updated_at = NOW() WHERE id = $1`,
+    [quoteId, to]
+  );
+  return { to, messageId: sent.messageId };
+}
+
+async function lockAnswerableQuote(db, quoteId, businessId) {
+  const result = await db.query(
+    `SELECT q.*, q.valid_until::text AS valid_until, (q.valid_until < CURRENT_DATE) AS is_expired
+       FROM quotes q
+      WHERE q.id = $1 AND q.business_id = $2 AND q.status <> 'draft'
+      FOR UPDATE`,
+    [quoteId, businessId]
+  );
+  const quote = result.rows[0];
+  if (!quote) throw notFound('Quote not found');
+  assertQuoteAnswerable(quote);
+  return quote;
+}
+
+/**
+ * Accept a quote for the client user `userId` and create its service
+ * request. Run inside a transaction.
+ *
+ * @returns {Promise<{serviceRequestId: string, requestNumber: string}>}
+ */
+export async function acceptQuote(db, quoteId, { businessId, userId, signatureName, ip = null }) {
+  const quote = await lockAnswerableQuote(db, quoteId, businessId);
+
+  const [user, status, priority, urgency] = await Promise.all([
+    db.query('SELECT first_name, last_name, email, phone FROM users WHERE id = $1', [userId]),
+    db.query(`SELECT id FROM service_request_statuses WHERE name = 'Submitted' AND is_active = true ORDER BY display_order LIMIT 1`),
+    db.query(`SELECT id FROM priority_levels WHERE name = 'Medium' ORDER BY created_at LIMIT 1`),
+    db.query('SELECT id FROM urgency_levels WHERE is_active = true ORDER BY display_order LIMIT 1')
+  ]);
+  if (!status.rows[0] || !priority.rows[0] || !urgency.rows[0]) {
+    throw new Error('Default service request status, priority or urgency is missing');
+  }
+  const contact = user.rows[0] || {};
+
+  const requestNumber = await generateRequestNumber(db);
+  const description = [quote.description, `Accepted quote ${quote.quote_number} (${formatMoney(quote.total_amount, quote.currency)}).`]
+    .filter(Boolean).join('\n\n');
+  const serviceRequest = await db.query(
+    `INSERT INTO service_requests (
+       request_number, title, description, client_id, business_id, service_location_id,
+       created_by_user_id, requested_datetime, requested_duration_minutes,
+       urgency_level_id, priority_level_id, status_id,
+       primary_contact_name, primary_contact_phone, primary_contact_email, service_type_id
+     ) VALUES ($1, $2, $3, $4, $5, $6, $4, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+     RETURNING id`,
+    [
+      requestNumber, quote.title, description, userId, businessId, quote.service_location_id,
+      quote.requested_datetime, quote.requested_duration_minutes,
+      urgency.rows[0].id, priority.rows[0].id, status.rows[0].id,
+      [contact.first_name, contact.last_name].filter(Boolean).join(' ') || null, contact.phone || null, contact.email || null,
+      quote.service_type_id
+    ]
+  );
+  const serviceRequestId = serviceRequest.rows[0].id;
+
+  await db.query(
+    `UPDATE quotes
+        SET status = 'accepted', accepted_at = NOW(), accepted_by_user_id = $2, signature_name = $3,
+            signature_ip = $4, service_request_id = $5, updated_at = NOW()
+      WHERE id = $1`,
+    [quoteId, userId, signatureName, ip, serviceRequestId]
+  );
+  return { serviceRequestId, requestNumber };
+}
+
+export async function declineQuote(db, quoteId, { businessId, userId, reason }) {
+  await lockAnswerableQuote(db, quoteId, businessId);
+  await db.query(
+    `UPDATE quotes
+        SET status = 'declined', declined_at = NOW(), declined_by_user_id = $2, decline_reason = $3, updated_at = NOW()
+      WHERE id = $1`,
+    [quoteId, userId, reason]
+  );
+}
+
+/**
+ * Invoice a completed service request that came from an accepted quote, at
+ * the quoted lines and tax rate. Called by the close handler in place of the
+ * hourly invoice.
+ *
+ * @returns {Promise<object|null>} the invoice ({id, invoice_number,
+ *   total_amount}), or null if the request has no uninvoiced quote
+ */
+export async function invoiceQuotedRequest(db, serviceRequestId, { workDescription = null, employeeId = null } = {}) {
+  const quoteResult = await db.query(
+    `SELECT id, quote_number, business_id, tax_rate, currency, tax_breakdown
+       FROM quotes
+      WHERE service_request_id = $1 AND status = 'accepted' AND invoice_id IS NULL
+      FOR UPDATE`,
+    [serviceRequestId]
+  );
+  const quote = quoteResult.rows[0];
+  if (!quote) return null;
+
+  const [lines, settings] = await Promise.all([
+    db.query(
+      `SELECT description, item_type, quantity, unit_price, taxable, product_ref
+         FROM quote_line_items WHERE quote_id = $1 ORDER BY sort_order`,
+      [quote.id]
+    ),
+    db.query(`SELECT setting_value FROM company_settings WHERE setting_key = 'invoice_due_days'`)
+  ]);
+  const totals = computeInvoiceTotals(lines.rows.map(line => ({
+    description: line.description,
+    itemType: line.item_type,
+    quantity: Number(line.quantity),
+    unitPrice: Number(line.unit_price),
+    taxable: line.taxable,
+    productRef: line.product_ref,
+    serviceRequestId
+  })), Number(quote.tax_rate));
+  // Quotes saved before tax components existed carry only the combined rate
+  const components = quote.tax_breakdown?.length > 0
+    ? quote.tax_breakdown
+    : (Number(quote.tax_rate) > 0 ? [{ name: 'Tax', rate: Number(quote.tax_rate) }] : []);
+  const taxBreakdown = computeTaxBreakdown(totals.taxAmount, components);
+
+  const issueDate = new Date();
+  const dueDate = new Date(issueDate);
+  dueDate.setDate(dueDate.getDate() + (parseInt(settings.rows[0]?.setting_value) || 30));
+  const invoiceNumber = await nextInvoiceNumber(db, 'INV', issueDate);
+
+  const invoiceResult = await db.query(
+    `INSERT INTO invoices (
+       service_request_id, business_id, invoice_number, invoice_type, invoice_status,
+       subtotal, tax_rate, tax_amount, total_amount, issue_date, due_date,
+       payment_status, work_description, notes, created_by_employee_id, currency, tax_breakdown
+     ) VALUES ($1, $2, $3, 'service_request', 'issued', $4, $5, $6, $7, $8, $9, 'due', $10, $11, $12, $13, $14)
+     RETURNING id, invoice_number, total_amount`,
+    [
+      serviceRequestId, quote.business_id, invoiceNumber,
+      totals.subtotal, Number(quote.tax_rate), totals.taxAmount, totals.totalAmount, issueDate, dueDate,
+      workDescription, `Per accepted quote ${quote.quote_number}`, employeeId,
+      (quote.currency || DEFAULT_CURRENCY).trim(), JSON.stringify(taxBreakdown)
+    ]
+  );
+  const invoice = invoiceResult.rows[0];
+
+  await insertInvoiceLineItems(db, invoice.id, totals.lineItems);
+  await recordInvoiceHistory(db, {
+    invoiceId: invoice.id,
+    action: 'created',
+    details: { source: 'quote', quoteNumber: quote.quote_number, totalAmount: totals.totalAmount },
+    employeeId
+  });
+  await db.query('UPDATE quotes SET invoice_id = $2, updated_at = NOW() WHERE id = $1', [quote.id, invoice.id]);
+
+  return invoice;
+}
+
+export default {
+  QUOTE_STATUSES,
+  validateQuoteInput,
+  quoteDisplayStatus,
+  assertQuoteAnswerable,
+  validateAcceptance,
+  validateDecline,
+  listQuotes,
+  listClientQuotes,
+  getQuote,
+  getClientQuote,
+  saveQuote,
+  nextQuoteNumber,
+  deleteQuote,
+  sendQuote,
+  acceptQuote,
+  declineQuote,
+  invoiceQuotedRequest
+};
@@ -0,0 +1,142 @@
+// Tests for quoteService — input validation, the status rules for answering
+// a quote and invoicing a quoted request, against a fake db.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  validateQuoteInput,
+  quoteDisplayStatus,
+  assertQuoteAnswerable,
+  validateAcceptance,
+  validateDecline,
+  nextQuoteNumber,
+  listClientQuotes,
+  getClientQuote,
+  invoiceQuotedRequest
+} from './quoteService.js';
+
+const VALID = {
+  businessId: 'b-1',
+  serviceLocationId: 'loc-1',
+  title: '  Office network refresh ',
+  validUntil: '2026-11-30',
+  lineItems: [
+    { description: 'Switch', itemType: 'part', quantity: 2, unitPrice: 349.99, serviceRequestId: 'sr-9', timeEntryId: 'te-1' },
+    { description: 'Installation', itemType: 'labor', quantity: 6, unitPrice: 95 }
+  ]
+};
+
+function fakeDb(handlers) {
+  const calls = [];
+  return {
+    calls,
+    async query(sql, params = []) {
+      calls.push({ sql, params });
+      for (const [pattern, rows] of handlers) {
+        if (pattern.test(sql)) return { rows: typeof rows === 'function' ? rows(params) : rows };
+      }
+      return { rows: [] };
+    }
+  };
+}
+
+test('validateQuoteInput: trims text and drops work references from lines', () => {
+  const quote = validateQuoteInput({ ...VALID, requestedDatetime: '2026-11-05T16:00:00Z', requestedDurationMinutes: '240' });
+  assert.equal(quote.title, 'Office network refresh');
+  assert.equal(quote.requestedDatetime, '2026-11-05T16:00:00.000Z');
+  assert.equal(quote.requestedDurationMinutes, 240);
+  assert.equal(quote.taxRate, null);
+  assert.equal(quote.lineItems.length, 2);
+  assert.equal('serviceRequestId' in quote.lineItems[0], false);
+  assert.equal('timeEntryId' in quote.lineItems[0], false);
+  assert.equal(quote.lineItems[0].unitPrice, 349.99);
+});
+
+test('validateQuoteInput: rejects missing fields and bad values', () => {
+  assert.throws(() => validateQuoteInput({ ...VALID, serviceLocationId: '' }), /Service location is required/);
+  assert.throws(() => validateQuoteInput({ ...VALID, title: '  ' }), /Title is required/);
+  assert.throws(() => validateQuoteInput({ ...VALID, validUntil: '11/30/2026' }), /Valid until must be YYYY-MM-DD/);
+  assert.throws(() => validateQuoteInput({ ...VALID, requestedDatetime: 'soon' }), /not a valid date/);
+  assert.throws(() => validateQuoteInput({ ...VALID, requestedDurationMinutes: 90.5 }), /whole number of minutes/);
+  assert.throws(() => validateQuoteInput({ ...VALID, lineItems: [] }), /At least one line item/);
+});
+
+test('quoteDisplayStatus: invoiced and expired are derived', () => {
+  assert.equal(quoteDisplayStatus({ status: 'draft', is_expired: true }), 'draft');
+  assert.equal(quoteDisplayStatus({ status: 'sent', is_expired: false }), 'sent');
+  assert.equal(quoteDisplayStatus({ status: 'sent', is_expired: true }), 'expired');
+  assert.equal(quoteDisplayStatus({ status: 'accepted', is_expired: true }), 'accepted');
+  assert.equal(quoteDisplayStatus({ status: 'accepted', invoice_id: 'inv-1' }), 'invoiced');
+});
+
+test('assertQuoteAnswerable: only sent, unexpired quotes', () => {
+  assert.doesNotThrow(() => assertQuoteAnswerable({ status: 'sent', is_expired: false }));
+  assert.throws(() => assertQuoteAnswerable({ status: 'sent', is_expired: true, valid_until: '2026-10-01' }),
+    /expired on 2026-10-01/);
+  assert.throws(() => assertQuoteAnswerable({ status: 'accepted' }), /already been accepted/);
+  assert.throws(() => assertQuoteAnswerable({ status: 'declined' }), /already been declined/);
+  assert.throws(() => assertQuoteAnswerable({ status: 'draft' }), /not open/);
+});
+
+test('validateAcceptance: needs the checkbox and a typed name', () => {
+  assert.deepEqual(validateAcceptance({ agreed: true, signatureName: ' Dana Whitfield ' }), { signatureName: 'Dana Whitfield' });
+  assert.throws(() => validateAcceptance({ agreed: 'true', signatureName: 'Dana' }), /Check the box/);
+  assert.throws(() => validateAcceptance({ agreed: true, signatureName: '' }), /Type your full name/);
+  assert.deepEqual(validateDecline({ reason: '  ' }), { reason: null });
+  assert.throws(() => validateDecline({ reason: 'x'.repeat(1001) }), /at most 1000/);
+});
+
+test('nextQuoteNumber: numbers quotes per day', async () => {
+  const db = fakeDb([[/FROM quotes/, [{ max_seq: 4 }]]]);
+  const number = await nextQuoteNumber(db, new Date('2026-10-18T12:00:00Z'));
+  assert.equal(number, 'Q-20261018-0005');
+  assert.deepEqual(db.calls[0].params, ['Q-20261018-%']);
+});
+
+test('client quotes need the user\'s business and leave drafts out', async () => {
+  const db = fakeDb([[/FROM quotes q/, [{ id: 'q-1', status: 'sent' }]]]);
+  await assert.rejects(listClientQuotes(db, null), { statusCode: 403 });
+  await assert.rejects(getClientQuote(db, 'q-1', undefined), { statusCode: 403 });
+  assert.equal(db.calls.length, 0);
+
+  await listClientQuotes(db, 'b-1');
+  await getClientQuote(db, 'q-1', 'b-1');
+  const [list, one] = db.calls.filter(call => /FROM quotes q/.test(call.sql));
+  assert.match(list.sql, /q\.business_id = \$1 AND q\.status <> 'draft'/);
+  assert.deepEqual(list.params, ['b-1']);
+  assert.match(one.sql, /q\.business_id = \$2 AND q\.status <> 'draft'/);
+  assert.deepEqual(one.params, ['q-1', 'b-1']);
+});
+
+test('invoiceQuotedRequest: null without an uninvoiced accepted quote', async () => {
+  const db = fakeDb([]);
+  assert.equal(await invoiceQuotedRequest(db, 'sr-1'), null);
+  assert.equal(db.calls.length, 1);
+});
+
+test('invoiceQuotedRequest: invoices the quoted lines at the quoted tax rate', async () => {
+  const db = fakeDb([
+    [/FROM quotes\s+WHERE service_request_id/, [{ id: 'q-1', quote_number: 'Q-20261018-0001', business_id: 'b-1', tax_rate: '0.0775' }]],
+    [/FROM quote_line_items/, [
+      { description: 'Switch', item_type: 'part', quantity: '2', unit_price: '349.99', taxable: true, product_ref: 'SW-24' },
+      { description: 'Installation', item_type: 'labor', quantity: '6', unit_price: '95.00', taxable: false, product_ref: null }
+    ]],
+    [/invoice_due_days/, [{ setting_value: '15' }]],
+    [/FROM invoices/, [{ max_seq: 0 }]],
+    [/INSERT INTO invoices/, params => [{ id: 'inv-1', invoice_number: params[2], total_amount: params[6] }]]
+  ]);
+
+  const invoice = await invoiceQuotedRequest(db, 'sr-1', { workDescription: 'Replaced switches', employeeId: 'e-1' });
+  assert.equal(invoice.id, 'inv-1');
+  assert.match(invoice.invoice_number, /^INV-\d{8}-0001$/);
+  // 699.98 + 570 = 1269.98, tax on the switches only: 699.98 * 0.0775 = 54.25
+  assert.equal(invoice.total_amount, 1324.23);
+
+  const lines = db.calls.filter(call => /INSERT INTO invoice_line_items/.test(call.sql));
+  assert.equal(lines.length, 2);
+  assert.equal(lines[0].params[7], 'sr-1');
+  assert.equal(lines[0].params[9], 'SW-24');
+
+  const linked = db.calls.find(call => /UPDATE quotes SET invoice_id/.test(call.sql));
+  assert.deepEqual(linked.params, ['q-1', 'inv-1']);
+});
@@ -0,0 +1,441 @@
+/**
+ * Accounts receivable aging and revenue reports.
+ *
+ * Aging covers every issued invoice with a balance left on it (total less
+ * amount_paid), bucketed by how many days past its due date it is on the
+ * "as of" date: current (not yet due), 1-30, 31-60, 61-90 and 90+. Void
+ * invoices, drafts, credit notes and settled invoices (paid, comped,
+ * refunded) owe nothing and are left out. Balances are as they stand today;
+ * an earlier "as of" date only moves the due date cut-off and drops invoices
+ * issued after it.
+ *
+ * Revenue is what was invoiced before tax, by issue date: every issued
+ * invoice's subtotal, netted against the credit notes issued in the same
+ * period. It is broken down by month, by service type (each line is
+ * attributed to the service request it bills for, falling back to the
+ * invoice's own request, or the credited invoice's for a credit note) and by
+ * rate tier (the hourly rate category of the invoiced business).
+ *
+ * Both reports render to CSV for the accountant through renderReportCsv, the
+ * same way scheduled reports are delivered.
+ */
+import { renderReportCsv } from './reportDeliveryScheduler.js';
+
+export const AGING_BUCKETS = [
+  { key: 'current', label: 'Current' },
+  { key: '1_30', label: '1-30 days' },
+  { key: '31_60', label: '31-60 days' },
+  { key: '61_90', label: '61-90 days' },
+  { key: '90_plus', label: '90+ days' }
+];
+
+export const REVENUE_DIMENSIONS = ['month', 'serviceType', 'rateTier'];
+
+// Groups with no service type / rate category share this key
+const UNASSIGNED_KEY = 'none';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_PATTERN = /^\d{4}-\d{2}$/;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function roundCents(value) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function emptyBuckets() {
+  return Object.fromEntries(AGING_BUCKETS.map(bucket => [bucket.key, 0]));
+}
+
+function isDate(value) {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * The aging bucket for an invoice `daysPastDue` days past its due date
+ * (zero or negative while it is not yet due).
+ */
+export function agingBucket(daysPastDue) {
+  if (daysPastDue <= 0) return 'current';
+  if (daysPastDue <= 30) return '1_30';
+  if (daysPastDue <= 60) return '31_60';
+  if (daysPastDue <= 90) return '61_90';
+  return '90_plus';
+}
+
+/**
+ * Bucket open invoices ({ business_id, business_name, balance,
+ * days_past_due }) per business and overall. Businesses are ordered by
+ * what they owe, largest first.
+ */
+export function summarizeAging(invoices) {
+  const totals = emptyBuckets();
+  const businesses = new Map();
+
+  for (const invoice of invoices) {
+    const bucket = agingBucket(Number(invoice.days_past_due));
+    const balance = Number(invoice.balance);
+
+    let business = businesses.get(invoice.business_id);
+    if (!business) {
+      business = {
+        businessId: invoice.business_id,
+        businessName: invoice.business_name,
+        buckets: emptyBuckets(),
+        total: 0,
+        invoiceCount: 0
+      };
+      businesses.set(invoice.business_id, business);
+    }
+
+    business.buckets[bucket] = roundCents(business.buckets[bucket] + balance);
+    business.total = roundCents(business.total + balance);
+    business.invoiceCount += 1;
+    totals[bucket] = roundCents(totals[bucket] + balance);
+  }
+
+  return {
+    buckets: totals,
+    total: roundCents(Object.values(totals).reduce((sum, amount) => sum + amount, 0)),
+    invoiceCount: invoices.length,
+    businesses: [...businesses.values()].sort((a, b) =>
+      b.total - a.total || a.businessName.localeCompare(b.businessName)
+    )
+  };
+}
+
+/**
+ * Every YYYY-MM from the month of `from` to the month of `to`
+ */
+export function monthsBetween(from, to) {
+  const months = [];
+  let [year, month] = from.slice(0, 7).split('-').map(Number);
+  const last = to.slice(0, 7);
+
+  for (;;) {
+    const key = `${year}-${String(month).padStart(2, '0')}`;
+    if (key > last) break;
+    months.push(key);
+    month += 1;
+    if (month > 12) {
+      month = 1;
+      year += 1;
+    }
+  }
+  return months;
+}
+
+/**
+ * Revenue per month ({ month, invoice_count, invoiced, credited, tax })
+ * with the months that had no invoices filled in as zeros.
+ */
+export function fillRevenueMonths(rows, from, to) {
+  const byMonth = new Map(rows.map(row => [row.month, row]));
+
+  return monthsBetween(from, to).map(month => {
+    const row = byMonth.get(month);
+    const invoiced = roundCents(Number(row?.invoiced ?? 0));
+    const credited = roundCents(Number(row?.credited ?? 0));
+    return {
+      key: month,
+      label: month,
+      invoiceCount: Number(row?.invoice_count ?? 0),
+      invoiced,
+      credited,
+      netRevenue: roundCents(invoiced + credited),
+      tax: roundCents(Number(row?.tax ?? 0))
+    };
+  });
+}
+
+/**
+ * The "as of" date for aging, defaulting to today.
+ */
+export function validateAsOf(asOf, today) {
+  if (asOf === undefined || asOf === null || asOf === '') return today;
+  if (!isDate(asOf)) throw badRequest('asOf must be a date (YYYY-MM-DD)');
+  return asOf;
+}
+
+/**
+ * The issue date range for revenue. Defaults to the twelve months up to and
+ * including the current one.
+ */
+export function validateRevenueRange({ from, to } = {}, today) {
+  for (const [name, value] of [['from', from], ['to', to]]) {
+    if (value !== undefined && value !== '' && !isDate(value)) {
+      throw badRequest(`${name} must be a date (YYYY-MM-DD)`);
+    }
+  }
+
+  const end = to || today;
+  let start = from;
+  if (!start) {
+    const [year, month] = end.slice(0, 7).split('-').map(Number);
+    const startMonth = month === 12 ? 1 : month + 1;
+    start = `${month === 12 ? year : year - 1}-${String(startMonth).padStart(2, '0')}-01`;
+  }
+
+  if (start > end) throw badRequest('from must be on or before to');
+  return { from: start, to: end };
+}
+
+/**
+ * Which breakdown of the revenue report to export or drill into
+ */
+export function validateRevenueDimension(dimension) {
+  if (!REVENUE_DIMENSIONS.includes(dimension)) {
+    throw badRequest(`dimension must be one of ${REVENUE_DIMENSIONS.join(', ')}`);
+  }
+  return dimension;
+}
+
+/**
+ * Which revenue group to list invoices for. `key` is a YYYY-MM month, or a
+ * service type / rate category id ('none' for unassigned).
+ */
+export function validateRevenueDrillDown({ dimension, key } = {}) {
+  validateRevenueDimension(dimension);
+  if (typeof key !== 'string' || key === '') throw badRequest('key is required');
+  if (dimension === 'month' && !MONTH_PATTERN.test(key)) throw badRequest('key must be a month (YYYY-MM)');
+  return { dimension, key };
+}
+
+/**
+ * Open invoices with what is left on them and how late they are on `asOf`
+ */
+async function listOpenInvoices(db, asOf) {
+  const result = await db.query(`
+    SELECT i.id, i.invoice_number, i.business_id, b.business_name,
+           i.issue_date::date::text AS issue_date, i.due_date::date::text AS due_date,
+           i.payment_status, i.total_amount, i.amount_paid,
+           ROUND(i.total_amount - i.amount_paid, 2) AS balance,
+           ($1::date - i.due_date::date) AS days_past_due
+      FROM invoices i
+      JOIN businesses b ON b.id = i.business_id
+     WHERE i.invoice_status = 'issued'
+       AND i.invoice_type <> 'credit_note'
+       AND i.payment_status NOT IN ('paid', 'comped', 'refunded')
+       AND i.issue_date::date <= $1::date
+       AND i.total_amount - i.amount_paid > 0
+     ORDER BY i.due_date ASC, i.invoice_number ASC
+  `, [asOf]);
+  return result.rows;
+}
+
+/**
+ * AR aging as of `asOf`: bucket totals per business and overall, plus the
+ * open invoices themselves for drilling down.
+ */
+export async function getAgingReport(db, { asOf }) {
+  const invoices = await listOpenInvoices(db, asOf);
+  return {
+    asOf,
+    ...summarizeAging(invoices),
+    invoices: invoices.map(invoice => ({
+      id: invoice.id,
+      invoiceNumber: invoice.invoice_number,
+      businessId: invoice.business_id,
+      businessName: invoice.business_name,
+      issueDate: invoice.issue_date,
+      dueDate: invoice.due_date,
+      paymentStatus: invoice.payment_status,
+      totalAmount: Number(invoice.total_amount),
+      amountPaid: Number(invoice.amount_paid),
+      balance: Number(invoice.balance),
+      daysPastDue: Math.max(0, Number(invoice.days_past_due)),
+      bucket: agingBucket(Number(invoice.days_past_due))
+    }))
+  };
+}
+
+// Each line of an issued invoice in range with the service type and rate
+// category it counts towards. $1/$2 are the issue date range.
+const ATTRIBUTED_LINES = `
+  SELECT i.id AS invoice_id, li.amount,
+         COALESCE(st.id::text, '${UNASSIGNED_KEY}') AS service_type_key,
+         COALESCE(st.name, 'No service type') AS service_type_label
+    FROM invoices i
+    JOIN invoice_line_items li ON li.invoice_id = i.id
+    LEFT JOIN invoices credited ON credited.id = i.credit_for_invoice_id
+    LEFT JOIN service_requests sr
+      ON sr.id = COALESCE(li.service_request_id, i.service_request_id, credited.service_request_id)
+    LEFT JOIN service_types st ON st.id = sr.service_type_id
+   WHERE i.invoice_status = 'issued'
+     AND i.issue_date::date BETWEEN $1::date AND $2::date
+`;
+
+function toRevenueGroup(row) {
+  return {
+    key: row.key,
+    label: row.label,
+    invoiceCount: Number(row.invoice_count),
+    netRevenue: roundCents(Number(row.net_revenue))
+  };
+}
+
+/**
+ * Revenue for invoices issued between `from` and `to`, by month, service
+ * type and rate tier.
+ */
+export async function getRevenueReport(db, { from, to }) {
+  const [months, serviceTypes, rateTiers] = await Promise.all([
+    db.query(`
+      SELECT to_char(i.issue_date, 'YYYY-MM') AS month,
+             COUNT(*) FILTER (WHERE i.invoice_type <> 'credit_note') AS invoice_count,
+             COALESCE(SUM(i.subtotal) FILTER (WHERE i.invoice_type <> 'credit_note'), 0) AS invoiced,
+             COALESCE(SUM(i.subtotal) FILTER (WHERE i.invoice_type = 'credit_note'), 0) AS credited,
+             COALESCE(SUM(i.tax_amount), 0) AS tax
+        FROM invoices i
+       WHERE i.invoice_status = 'issued'
+         AND i.issue_date::date BETWEEN $1::date AND $2::date
+       GROUP BY 1
+    `, [from, to]),
+    db.query(`
+      SELECT service_type_key AS key, service_type_label AS label,
+             COUNT(DISTINCT invoice_id) AS invoice_count,
+             SUM(amount) AS net_revenue
+        FROM (${ATTRIBUTED_LINES}) lines
+       GROUP BY 1, 2
+       ORDER BY net_revenue DESC, label ASC
+    `, [from, to]),
+    db.query(`
+      SELECT COALESCE(rc.id::text, '${UNASSIGNED_KEY}') AS key,
+             COALESCE(rc.category_name, 'No rate category') AS label,
+             COUNT(*) AS invoice_count,
+             SUM(i.subtotal) AS net_revenue
+        FROM invoices i
+        JOIN businesses b ON b.id = i.business_id
+        LEFT JOIN hourly_rate_categories rc ON rc.id = b.rate_category_id
+       WHERE i.invoice_status = 'issued'
+         AND i.issue_date::date BETWEEN $1::date AND $2::date
+       GROUP BY 1, 2
+       ORDER BY net_revenue DESC, label ASC
+    `, [from, to])
+  ]);
+
+  const byMonth = fillRevenueMonths(months.rows, from, to);
+  const sum = key => roundCents(byMonth.reduce((total, month) => total + month[key], 0));
+
+  return {
+    from,
+    to,
+    totals: {
+      invoiceCount: byMonth.reduce((total, month) => total + month.invoiceCount, 0),
+      invoiced: sum('invoiced'),
+      credited: sum('credited'),
+      netRevenue: sum('netRevenue'),
+      tax: sum('tax')
+    },
+    byMonth,
+    byServiceType: serviceTypes.rows.map(toRevenueGroup),
+    byRateTier: rateTiers.rows.map(toRevenueGroup)
+  };
+}
+
+/**
+ * The invoices (and credit notes) behind one group of the revenue report,
+ * with the part of each that counts towards the group.
+ */
+export async function getRevenueInvoices(db, { from, to, dimension, key }) {
+  const params = [from, to, key];
+  let sql;
+
+  if (dimension === 'serviceType') {
+    sql = `
+      WITH lines AS (${ATTRIBUTED_LINES})
+      SELECT invoice_id AS id, SUM(amount) AS amount
+        FROM lines
+       WHERE service_type_key = $3
+       GROUP BY invoice_id
+    `;
+  } else {
+    const condition = dimension === 'month'
+      ? `to_char(i.issue_date, 'YYYY-MM') = $3`
+      : `COALESCE(b.rate_category_id::text, '${UNASSIGNED_KEY}') = $3`;
+    sql = `
+      SELECT i.id, i.subtotal AS amount
+        FROM invoices i
+        JOIN businesses b ON b.id = i.business_id
+       WHERE i.invoice_status = 'issued'
+         AND i.issue_date::date BETWEEN $1::date AND $2::date
+         AND ${condition}
+    `;
+  }
+
+  const result = await db.query(`
+    SELECT i.id, i.invoice_number, i.invoice_type, i.business_id, b.business_name,
+           i.issue_date::date::text AS issue_date, i.payment_status,
+           i.subtotal, i.total_amount, g.amount
+      FROM (${sql}) g
+      JOIN invoices i ON i.id = g.id
+      JOIN businesses b ON b.id = i.business_id
+     ORDER BY i.issue_date DESC, i.invoice_number DESC
+  `, params);
+
+  return result.rows.map(row => ({
+    id: row.id,
+    invoiceNumber: row.invoice_number,
+    invoiceType: row.invoice_type,
+    businessId: row.business_id,
+    businessName: row.business_name,
+    issueDate: row.issue_date,
+    paymentStatus: row.payment_status,
+    subtotal: Number(row.subtotal),
+    totalAmount: Number(row.total_amount),
+    amount: Number(row.amount)
+  }));
+}
+
+/**
+ * Aged receivables detail: one row per open invoice, with its bucket.
+ */
+export function renderAgingCsv(report) {
+  const bucketLabels = Object.fromEntries(AGING_BUCKETS.map(bucket => [bucket.key, bucket.label]));
+  return renderReportCsv({
+    columns: [
+      { key: 'businessName', label: 'Business', type: 'string' },
+      { key: 'invoiceNumber', label: 'Invoice', type: 'string' },
+      { key: 'issueDate', label: 'Issue date', type: 'date' },
+      { key: 'dueDate', label: 'Due date', type: 'date' },
+      { key: 'daysPastDue', label: 'Days past due', type: 'number' },
+      { key: 'bucket', label: `Aging (as of ${report.asOf})`, type: 'string' },
+      { key: 'totalAmount', label: 'Invoice total', type: 'currency' },
+      { key: 'amountPaid', label: 'Paid', type: 'currency' },
+      { key: 'balance', label: 'Balance', type: 'currency' }
+    ],
+    rows: report.invoices.map(invoice => ({ ...invoice, bucket: bucketLabels[invoice.bucket] }))
+  });
+}
+
+/**
+ * One breakdown of the revenue report (by month, service type or rate tier)
+ */
+export function renderRevenueCsv(report, dimension) {
+  if (dimension === 'month') {
+    return renderReportCsv({
+      columns: [
+        { key: 'label', label: 'Month', type: 'string' },
+        { key: 'invoiceCount', label: 'Invoices', type: 'number' },
+        { key: 'invoiced', label: 'Invoiced', type: 'currency' },
+        { key: 'credited', label: 'Credit notes', type: 'currency' },
+        { key: 'netRevenue', label: 'Net revenue', type: 'currency' },
+        { key: 'tax', label: 'Tax', type: 'currency' }
+      ],
+      rows: report.byMonth
+    });
+  }
+
+  return renderReportCsv({
+    columns: [
+      { key: 'label', label: dimension === 'serviceType' ? 'Service type' : 'Rate tier', type: 'string' },
+      { key: 'invoiceCount', label: 'Invoices', type: 'number' },
+      { key: 'netRevenue', label: 'Net revenue', type: 'currency' }
+    ],
+    rows: dimension === 'serviceType' ? report.byServiceType : report.byRateTier
+  });
+}
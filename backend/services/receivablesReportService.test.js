@@ -0,0 +1,131 @@
+// Tests for receivablesReportService — aging buckets, month filling, input
+// validation and CSV output. The report queries need Postgres.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  agingBucket,
+  summarizeAging,
+  monthsBetween,
+  fillRevenueMonths,
+  validateAsOf,
+  validateRevenueRange,
+  validateRevenueDrillDown,
+  renderAgingCsv,
+  renderRevenueCsv
+} from './receivablesReportService.js';
+
+const today = '2026-10-18';
+
+// ----- agingBucket / summarizeAging -----
+
+test('agingBucket: buckets by days past due', () => {
+  assert.equal(agingBucket(-5), 'current');
+  assert.equal(agingBucket(0), 'current');
+  assert.equal(agingBucket(1), '1_30');
+  assert.equal(agingBucket(30), '1_30');
+  assert.equal(agingBucket(31), '31_60');
+  assert.equal(agingBucket(60), '31_60');
+  assert.equal(agingBucket(90), '61_90');
+  assert.equal(agingBucket(91), '90_plus');
+});
+
+test('summarizeAging: totals per business and overall, largest balance first', () => {
+  const aging = summarizeAging([
+    { business_id: 'b-1', business_name: 'Acme', balance: '100.10', days_past_due: -3 },
+    { business_id: 'b-2', business_name: 'Globex', balance: '400.00', days_past_due: 95 },
+    { business_id: 'b-1', business_name: 'Acme', balance: '50.20', days_past_due: 12 },
+    { business_id: 'b-1', business_name: 'Acme', balance: '25.00', days_past_due: 20 }
+  ]);
+
+  assert.deepEqual(aging.buckets, { current: 100.1, '1_30': 75.2, '31_60': 0, '61_90': 0, '90_plus': 400 });
+  assert.equal(aging.total, 575.3);
+  assert.equal(aging.invoiceCount, 4);
+  assert.deepEqual(aging.businesses.map(b => [b.businessName, b.total, b.invoiceCount]), [
+    ['Globex', 400, 1],
+    ['Acme', 175.3, 3]
+  ]);
+  assert.equal(aging.businesses[1].buckets['1_30'], 75.2);
+});
+
+test('summarizeAging: nothing open is all zeros', () => {
+  const aging = summarizeAging([]);
+  assert.equal(aging.total, 0);
+  assert.deepEqual(aging.businesses, []);
+});
+
+// ----- monthsBetween / fillRevenueMonths -----
+
+test('monthsBetween: spans years inclusively', () => {
+  assert.deepEqual(monthsBetween('2025-11-15', '2026-02-01'), ['2025-11', '2025-12', '2026-01', '2026-02']);
+  assert.deepEqual(monthsBetween('2026-10-01', '2026-10-18'), ['2026-10']);
+});
+
+test('fillRevenueMonths: nets credit notes and fills empty months', () => {
+  assert.deepEqual(fillRevenueMonths([
+    { month: '2026-08', invoice_count: '3', invoiced: '1200.00', credited: '-200.00', tax: '80.00' }
+  ], '2026-07-01', '2026-08-31'), [
+    { key: '2026-07', label: '2026-07', invoiceCount: 0, invoiced: 0, credited: 0, netRevenue: 0, tax: 0 },
+    { key: '2026-08', label: '2026-08', invoiceCount: 3, invoiced: 1200, credited: -200, netRevenue: 1000, tax: 80 }
+  ]);
+});
+
+// ----- validation -----
+
+test('validateAsOf: defaults to today and rejects bad dates', () => {
+  assert.equal(validateAsOf(undefined, today), today);
+  assert.equal(validateAsOf('2026-09-30', today), '2026-09-30');
+  assert.throws(() => validateAsOf('30/09/2026', today), /YYYY-MM-DD/);
+});
+
+test('validateRevenueRange: defaults to the last twelve months', () => {
+  assert.deepEqual(validateRevenueRange({}, today), { from: '2025-11-01', to: today });
+  assert.deepEqual(validateRevenueRange({ to: '2026-12-31' }, today), { from: '2026-01-01', to: '2026-12-31' });
+  assert.deepEqual(validateRevenueRange({ from: '2026-01-01', to: '2026-03-31' }, today), { from: '2026-01-01', to: '2026-03-31' });
+  assert.throws(() => validateRevenueRange({ from: '2026-04-01', to: '2026-03-31' }, today), /on or before/);
+  assert.throws(() => validateRevenueRange({ from: 'last year' }, today), /from must be a date/);
+});
+
+test('validateRevenueDrillDown: needs a known dimension and a key', () => {
+  assert.deepEqual(validateRevenueDrillDown({ dimension: 'rateTier', key: 'none' }), { dimension: 'rateTier', key: 'none' });
+  assert.throws(() => validateRevenueDrillDown({ dimension: 'region', key: 'x' }), /dimension must be one of/);
+  assert.throws(() => validateRevenueDrillDown({ dimension: 'serviceType' }), /key is required/);
+  assert.throws(() => validateRevenueDrillDown({ dimension: 'month', key: '2026-8' }), /YYYY-MM/);
+});
+
+// ----- CSV -----
+
+test('renderAgingCsv: one row per open invoice with its bucket label', () => {
+  const csv = renderAgingCsv({
+    asOf: today,
+    invoices: [{
+      businessName: 'Acme, Inc.',
+      invoiceNumber: 'INV-20260801-0001',
+      issueDate: '2026-08-01',
+      dueDate: '2026-08-31',
+      daysPastDue: 48,
+      bucket: '31_60',
+      totalAmount: 250,
+      amountPaid: 100,
+      balance: 150
+    }]
+  });
+
+  assert.equal(csv,
+    'Business,Invoice,Issue date,Due date,Days past due,Aging (as of 2026-10-18),Invoice total,Paid,Balance\r\n' +
+    '"Acme, Inc.",INV-20260801-0001,2026-08-01,2026-08-31,48,31-60 days,250.00,100.00,150.00\r\n'
+  );
+});
+
+test('renderRevenueCsv: renders the requested breakdown', () => {
+  const report = {
+    byMonth: [{ key: '2026-08', label: '2026-08', invoiceCount: 3, invoiced: 1200, credited: -200, netRevenue: 1000, tax: 80 }],
+    byServiceType: [{ key: 'st-1', label: 'Network', invoiceCount: 2, netRevenue: 900 }],
+    byRateTier: [{ key: 'none', label: 'No rate category', invoiceCount: 1, netRevenue: 100 }]
+  };
+
+  assert.equal(renderRevenueCsv(report, 'month'),
+    'Month,Invoices,Invoiced,Credit notes,Net revenue,Tax\r\n2026-08,3,1200.00,-200.00,1000.00,80.00\r\n');
+  assert.equal(renderRevenueCsv(report, 'serviceType'), 'Service type,Invoices,Net revenue\r\nNetwork,2,900.00\r\n');
+  assert.equal(renderRevenueCsv(report, 'rateTier'), 'Rate tier,Invoices,Net revenue\r\nNo rate category,1,100.00\r\n');
+});
@@ -0,0 +1,554 @@
+/**
+ * Recurring managed-services billing.
+ *
+ * Businesses on a managed-services plan pay a monthly fee per monitored
+ * device, priced with the same graduated {start, end, price} ranges as the
+ * subscription tiers (utils/pricingUtils.js). Billable devices are the
+ * business's active agents, excluding trial agents and soft-deleted devices.
+ *
+ * The scheduler records each subscription's device count every tick
+ * (keeping the day's highest in managed_service_device_counts) and, once a
+ * month has ended, issues one invoice for it from generic line items: one
+ * line per run of days at the same device count, with the quantity set to
+ * the fraction of the month those days cover. A device added on the 20th
+ * is therefore only billed for the rest of that month.
+ *
+ * Dates are YYYY-MM-DD strings in the database's calendar; the month being
+ * billed is complete once CURRENT_DATE has moved past it.
+ */
+import { query, transaction } from '../config/database.js';
+import { websocketService } from './websocketService.js';
+import { calculateGraduatedPrice, validatePricingRanges } from '../utils/pricingUtils.js';
+import {
+  insertInvoiceLineItems,
+  nextInvoiceNumber,
+  recordInvoiceHistory
+} from './invoiceService.js';
+import { computeInvoiceTax, resolveInvoiceTax } from './taxService.js';
+
+const DAY_MS = 86400000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+  'August', 'September', 'October', 'November', 'December'];
+
+// The devices GET /api/agents lists for a business, minus trial agents
+export const BILLABLE_DEVICE_FILTER = `
+  ad.soft_delete = false AND ad.is_active = true AND ad.is_trial = false
+`;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function roundCents(value) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function roundQuantity(value) {
+  return Math.round((value + Number.EPSILON) * 10000) / 10000;
+}
+
+function optionalText(value) {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed || null;
+}
+
+function optionalDate(value, label) {
+  if (value === null || value === undefined || value === '') return null;
+  if (!DATE_PATTERN.test(String(value))) throw badRequest(`${label} must be YYYY-MM-DD`);
+  return String(value);
+}
+
+/**
+ * YYYY-MM-DD `days` after `date` (a YYYY-MM-DD string)
+ */
+export function addDaysToDate(date, days) {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function startOfMonth(date) {
+  return `${date.slice(0, 7)}-01`;
+}
+
+export function endOfMonth(date) {
+  const [year, month] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+}
+
+function daysBetween(start, end) {
+  return Math.round((Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / DAY_MS) + 1;
+}
+
+function formatDay(date) {
+  const [, month, day] = date.split('-').map(Number);
+  return `${MONTH_NAMES[month - 1].slice(0, 3)} ${day}`;
+}
+
+function formatMonth(date) {
+  const [year, month] = date.split('-').map(Number);
+  return `${MONTH_NAMES[month - 1]} ${year}`;
+}
+
+/**
+ * Validate and normalise a plan payload from the admin UI.
+ */
+export function validatePlanInput(input = {}) {
+  const name = optionalText(input.name);
+  if (!name) throw badRequest('Plan name is required');
+
+  if (!Array.isArray(input.pricingRanges)) throw badRequest('Pricing ranges are required');
+  const pricingRanges = input.pricingRanges.map(range => ({
+    start: Number(range.start),
+    end: Number(range.end),
+    price: roundCents(Number(range.price)),
+    description: optionalText(range.description) || `Devices ${range.start}-${range.end}`
+  }));
+
+  const { valid, errors } = validatePricingRanges(pricingRanges);
+  if (!valid) throw badRequest(errors[0]);
+  if (pricingRanges.some(range => !Number.isInteger(range.start) || !Number.isInteger(range.end))) {
+    throw badRequest('Range boundaries must be whole device counts');
+  }
+  pricingRanges.sort((a, b) => a.start - b.start);
+  if (pricingRanges[0].start !== 1) throw badRequest('The first range must start at device 1');
+
+  return {
+    name,
+    description: optionalText(input.description),
+    pricingRanges,
+    isActive: input.isActive !== false
+  };
+}
+
+/**
+ * Validate a business's plan assignment. `existing` is the stored
+ * subscription when editing; its start date is fixed once it has been billed.
+ */
+export function validateSubscriptionInput(input = {}, existing = null) {
+  const businessId = existing ? existing.business_id : optionalText(input.businessId);
+  const planId = optionalText(input.planId);
+  if (!businessId) throw badRequest('Business is required');
+  if (!planId) throw badRequest('Plan is required');
+
+  const startedOn = optionalDate(input.startedOn, 'Start date') || existing?.started_on || null;
+  if (!startedOn) throw badRequest('Start date is required');
+  if (existing?.billed_through && startedOn !== existing.started_on) {
+    throw badRequest('The start date cannot change once the subscription has been invoiced');
+  }
+
+  const endedOn = optionalDate(input.endedOn, 'End date');
+  if (endedOn && endedOn < startedOn) throw badRequest('End date cannot be before the start date');
+  if (endedOn && existing?.billed_through && endedOn < existing.billed_through) {
+    throw badRequest(`The subscription is already invoiced through ${existing.billed_through}`);
+  }
+
+  return { businessId, planId, startedOn, endedOn, notes: optionalText(input.notes) };
+}
+
+/**
+ * Monthly charge for `deviceCount` devices on a plan. Devices past the last
+ * range are billed at the last range's price rather than for free.
+ *
+ * @returns {{totalCost: number, breakdown: Array}}
+ */
+export function priceDeviceCount(deviceCount, pricingRanges) {
+  const { totalCost, breakdown } = calculateGraduatedPrice(deviceCount, pricingRanges);
+  if (!pricingRanges?.length) return { totalCost, breakdown };
+
+  const last = [...pricingRanges].sort((a, b) => a.start - b.start).at(-1);
+  const overflow = deviceCount - Number(last.end);
+  if (overflow <= 0) return { totalCost, breakdown };
+
+  const price = parseFloat(last.price);
+  return {
+    totalCost: roundCents(totalCost + overflow * price),
+    breakdown: [
+      ...breakdown,
+      {
+        range: `${Number(last.end) + 1}-${deviceCount}`,
+        devices: overflow,
+        pricePerDevice: price,
+        subtotal: roundCents(overflow * price),
+        description: `${last.description || 'Devices'} (additional)`
+      }
+    ]
+  };
+}
+
+/**
+ * The device count for every day from periodStart to periodEnd.
+ *
+ * A day with no recorded count (the scheduler was down) carries the
+ * previous day's forward; `carryIn` is the last count before the period.
+ * Days before the first known count use `fallbackCount`.
+ *
+ * @param {{periodStart: string, periodEnd: string, counts: Array<{count_date: string, device_count: number}>,
+ *          carryIn?: number|null, fallbackCount?: number}} options
+ * @returns {Array<{date: string, count: number}>}
+ */
+export function buildDailyCounts({ periodStart, periodEnd, counts, carryIn = null, fallbackCount = 0 }) {
+  const byDate = new Map(counts.map(row => [row.count_date, Number(row.device_count)]));
+  const firstKnown = counts.length > 0
+    ? Number([...counts].sort((a, b) => a.count_date.localeCompare(b.count_date))[0].device_count)
+    : fallbackCount;
+
+  const days = [];
+  let current = carryIn ?? null;
+  for (let date = periodStart; date <= periodEnd; date = addDaysToDate(date, 1)) {
+    if (byDate.has(date)) current = byDate.get(date);
+    days.push({ date, count: current ?? firstKnown });
+  }
+  return days;
+}
+
+/**
+ * Invoice lines for one billing period (within a single calendar month).
+ * Consecutive days at the same device count become one line priced at that
+ * count's monthly charge, with quantity = days covered / days in the month.
+ * Runs with no devices are left off.
+ */
+export function buildManagedServiceLineItems({ planName, pricingRanges, dailyCounts }) {
+  if (dailyCounts.length === 0) return [];
+
+  const monthDays = daysBetween(startOfMonth(dailyCounts[0].date), endOfMonth(dailyCounts[0].date));
+  const segments = [];
+  for (const day of dailyCounts) {
+    const last = segments.at(-1);
+    if (last && last.count === day.count) {
+      last.end = day.date;
+      last.days++;
+    } else {
+      segments.push({ count: day.count, start: day.date, end: day.date, days: 1 });
+    }
+  }
+
+  return segments
+    .filter(segment => segment.count > 0)
+    .map(segment => {
+      const devices = `${segment.count} device${segment.count === 1 ? '' : 's'}`;
+      const fullMonth = segment.days === monthDays;
+      const span = fullMonth
+        ? formatMonth(segment.start)
+        : `${formatDay(segment.start)}-${formatDay(segment.end)}, ${segment.days} of ${monthDays} days`;
+      return {
+        description: `${planName}: ${devices} (${span})`,
+        itemType: 'fee',
+        quantity: fullMonth ? 1 : roundQuantity(segment.days / monthDays),
+        unitPrice: priceDeviceCount(segment.count, pricingRanges).totalCost,
+        taxable: true
+      };
+    });
+}
+
+/**
+ * The next billing period for a subscription that has not been invoiced yet:
+ * from the day after billed_through (or the start date) to the end of that
+ * month or the subscription's end date. Null when nothing is due - the
+ * period's month has not finished by `today`, or the subscription has ended
+ * and is fully billed.
+ */
+export function nextBillingPeriod(subscription, today) {
+  const periodStart = subscription.billed_through
+    ? addDaysToDate(subscription.billed_through, 1)
+    : subscription.started_on;
+  if (subscription.ended_on && periodStart > subscription.ended_on) return null;
+
+  const monthEnd = endOfMonth(periodStart);
+  if (monthEnd >= startOfMonth(today)) return null;
+
+  const periodEnd = subscription.ended_on && subscription.ended_on < monthEnd ? subscription.ended_on : monthEnd;
+  return { periodStart, periodEnd };
+}
+
+/**
+ * Number of billable devices a business has right now.
+ */
+export async function countBillableDevices(db, businessId) {
+  const result = await db.query(
+    `SELECT COUNT(*)::int AS device_count FROM agent_devices ad
+      WHERE ad.business_id = $1 AND ${BILLABLE_DEVICE_FILTER}`,
+    [businessId]
+  );
+  return result.rows[0].device_count;
+}
+
+/**
+ * Line items and totals a subscription would be invoiced for over a period,
+ * from the recorded daily counts. `db` may be the pool or a transaction
+ * client; `subscription` needs business_id, plan_name and pricing_ranges;
+ * `tax` is the business's resolveInvoiceTax result.
+ */
+export async function buildSubscriptionInvoice(db, subscription, { periodStart, periodEnd, tax }) {
+  const [countsResult, carryInResult] = await Promise.all([
+    db.query(
+      `SELECT count_date::text AS count_date, device_count
+         FROM managed_service_device_counts
+        WHERE subscription_id = $1 AND count_date BETWEEN $2 AND $3`,
+      [subscription.id, periodStart, periodEnd]
+    ),
+    db.query(
+      `SELECT device_count FROM managed_service_device_counts
+        WHERE subscription_id = $1 AND count_date < $2
+        ORDER BY count_date DESC LIMIT 1`,
+      [subscription.id, periodStart]
+    )
+  ]);
+
+  const dailyCounts = buildDailyCounts({
+    periodStart,
+    periodEnd,
+    counts: countsResult.rows,
+    carryIn: carryInResult.rows[0]?.device_count ?? null,
+    fallbackCount: countsResult.rows.length === 0 && carryInResult.rows.length === 0
+      ? await countBillableDevices(db, subscription.business_id)
+      : 0
+  });
+  const lineItems = buildManagedServiceLineItems({
+    planName: subscription.plan_name,
+    pricingRanges: subscription.pricing_ranges,
+    dailyCounts
+  });
+
+  return { dailyCounts, ...computeInvoiceTax(lineItems, tax) };
+}
+
+async function getDueDays(db) {
+  const result = await db.query(
+    `SELECT setting_value FROM company_settings WHERE setting_key = 'invoice_due_days'`
+  );
+  return parseInt(result.rows[0]?.setting_value) || 30;
+}
+
+const SUBSCRIPTION_SELECT = `
+  SELECT s.id, s.business_id, s.plan_id,
+         s.started_on::text AS started_on, s.ended_on::text AS ended_on, s.billed_through::text AS billed_through,
+         p.name AS plan_name, p.pricing_ranges, b.business_name
+    FROM managed_service_subscriptions s
+    JOIN managed_service_plans p ON s.plan_id = p.id
+    JOIN businesses b ON s.business_id = b.id
+`;
+
+class RecurringBillingScheduler {
+  constructor() {
+    this.intervalId = null;
+    this.isRunning = false;
+    this.isProcessing = false;
+    this.checkIntervalMs = 60 * 60 * 1000; // hourly
+  }
+
+  start() {
+    if (this.isRunning) {
+      console.log('⚠️  Recurring billing scheduler already running');
+      return;
+    }
+
+    console.log('🧾 Starting recurring billing scheduler...');
+    this.isRunning = true;
+
+    this.runTick();
+    this.intervalId = setInterval(() => {
+      this.runTick();
+    }, this.checkIntervalMs);
+
+    console.log(`✅ Recurring billing scheduler started (checking every ${this.checkIntervalMs / 60000}m)`);
+  }
+
+  stop() {
+    if (!this.isRunning) return;
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    console.log('✅ Recurring billing scheduler stopped');
+  }
+
+  async runTick() {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      await this.recordDeviceCounts();
+      await this.invoiceDueSubscriptions();
+    } catch (error) {
+      console.error('❌ Error running recurring billing:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Today's billable device count for every running subscription. A day
+   * keeps its highest count, so a device that existed for part of the day
+   * is billed for it.
+   */
+  async recordDeviceCounts() {
+    await query(`
+      INSERT INTO managed_service_device_counts (subscription_id, count_date, device_count)
+      SELECT s.id, CURRENT_DATE,
+             (SELECT COUNT(*) FROM agent_devices ad WHERE ad.business_id = s.business_id AND ${BILLABLE_DEVICE_FILTER})
+        FROM managed_service_subscriptions s
+       WHERE s.started_on <= CURRENT_DATE AND (s.ended_on IS NULL OR s.ended_on >= CURRENT_DATE)
+      ON CONFLICT (subscription_id, count_date) DO UPDATE
+        SET device_count = GREATEST(managed_service_device_counts.device_count, EXCLUDED.device_count),
+            recorded_at = NOW()
+    `);
+  }
+
+  /**
+   * Invoice every finished month that has not been billed yet.
+   */
+  async invoiceDueSubscriptions() {
+    const due = await query(`
+      ${SUBSCRIPTION_SELECT}
+       WHERE COALESCE(s.billed_through + 1, s.started_on) < date_trunc('month', CURRENT_DATE)::date
+         AND (s.ended_on IS NULL OR COALESCE(s.billed_through + 1, s.started_on) <= s.ended_on)
+    `);
+
+    for (const subscription of due.rows) {
+      try {
+        await this.invoiceSubscription(subscription.id);
+      } catch (error) {
+        console.error(`❌ Recurring billing failed for ${subscription.business_name}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Issue invoices for each of a subscription's finished, unbilled months.
+   *
+   * @param {string} subscriptionId
+   * @param {{employeeId?: string}} options  employee for a manual "bill now"
+   * @returns {Promise<Array<object>>} the invoices created
+   */
+  async invoiceSubscription(subscriptionId, { employeeId = null } = {}) {
+    const created = [];
+    for (;;) {
+      const result = await transaction(client => this.invoiceNextPeriod(client, subscriptionId, employeeId));
+      if (!result) break;
+      if (result.invoice) {
+        created.push(result.invoice);
+        notifyNewInvoice(result.invoice).catch(error => console.error('Error notifying recurring invoice:', error));
+      }
+    }
+    return created;
+  }
+
+  async invoiceNextPeriod(client, subscriptionId, employeeId) {
+    // Row lock so two instances never bill the same month
+    const locked = await client.query(
+      `${SUBSCRIPTION_SELECT} WHERE s.id = $1 FOR UPDATE OF s`,
+      [subscriptionId]
+    );
+    const subscription = locked.rows[0];
+    if (!subscription) return null;
+
+    const todayResult = await client.query(`SELECT CURRENT_DATE::text AS today`);
+    const period = nextBillingPeriod(subscription, todayResult.rows[0].today);
+    if (!period) return null;
+
+    const dueDays = await getDueDays(client);
+    const tax = await resolveInvoiceTax(client, subscription.business_id);
+    const totals = await buildSubscriptionInvoice(client, subscription, { ...period, tax });
+
+    let invoice = null;
+    if (totals.totalAmount > 0) {
+      const now = new Date();
+      const result = await client.query(`
+        INSERT INTO invoices (
+          business_id, invoice_number, invoice_type, invoice_status,
+          subtotal, tax_rate, tax_amount, total_amount, currency, tax_breakdown,
+          issue_date, due_date, payment_status, work_description,
+          managed_service_subscription_id, billing_period_start, billing_period_end,
+          created_by_employee_id
+        ) VALUES ($1, $2, 'recurring', 'issued', $3, $4, $5, $6, $7, $8, $9, $10, 'due', $11, $12, $13, $14, $15)
+        RETURNING *
+      `, [
+        subscription.business_id,
+        await nextInvoiceNumber(client, 'INV', now),
+        totals.subtotal,
+        tax.taxRate,
+        totals.taxAmount,
+        totals.totalAmount,
+        tax.currency,
+        JSON.stringify(totals.taxBreakdown),
+        now,
+        addDaysToDate(now.toISOString().slice(0, 10), dueDays),
+        `${subscription.plan_name} - managed services ${period.periodStart} to ${period.periodEnd}`,
+        subscription.id,
+        period.periodStart,
+        period.periodEnd,
+        employeeId
+      ]);
+      invoice = result.rows[0];
+
+      await insertInvoiceLineItems(client, invoice.id, totals.lineItems);
+      await recordInvoiceHistory(client, {
+        invoiceId: invoice.id,
+        action: 'created',
+        details: {
+          source: 'recurring_billing',
+          planName: subscription.plan_name,
+          periodStart: period.periodStart,
+          periodEnd: period.periodEnd,
+          totalAmount: totals.totalAmount,
+          lineItemCount: totals.lineItems.length
+        },
+        employeeId
+      });
+      await recordInvoiceHistory(client, { invoiceId: invoice.id, action: 'issued', employeeId });
+    }
+
+    await client.query(
+      `UPDATE managed_service_subscriptions SET billed_through = $2, updated_at = NOW() WHERE id = $1`,
+      [subscription.id, period.periodEnd]
+    );
+
+    console.log(invoice
+      ? `🧾 Invoiced ${subscription.business_name} ${period.periodStart}..${period.periodEnd}: ${invoice.invoice_number}`
+      : `🧾 Nothing to bill for ${subscription.business_name} ${period.periodStart}..${period.periodEnd}`);
+    return { invoice };
+  }
+}
+
+async function notifyNewInvoice(invoice) {
+  const clientQuery = await query(
+    `SELECT id FROM users WHERE business_id = $1 LIMIT 1`,
+    [invoice.business_id]
+  );
+  const payload = {
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoice_number,
+    totalAmount: invoice.total_amount,
+    paymentStatus: invoice.payment_status,
+    type: 'new_invoice'
+  };
+
+  if (clientQuery.rows.length > 0) {
+    websocketService.notifyClientOfInvoiceUpdate(clientQuery.rows[0].id, payload);
+  }
+  websocketService.broadcastInvoiceUpdateToAdmins(payload);
+  websocketService.broadcastEntityUpdate('invoice', invoice.id, 'created', {
+    invoiceNumber: invoice.invoice_number,
+    invoiceStatus: invoice.invoice_status
+  });
+}
+
+export const recurringBillingScheduler = new RecurringBillingScheduler();
+
+export default {
+  BILLABLE_DEVICE_FILTER,
+  validatePlanInput,
+  validateSubscriptionInput,
+  priceDeviceCount,
+  buildDailyCounts,
+  buildManagedServiceLineItems,
+  nextBillingPeriod,
+  countBillableDevices,
+  buildSubscriptionInvoice,
+  recurringBillingScheduler
+};
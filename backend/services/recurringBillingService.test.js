@@ -0,0 +1,185 @@
+// Tests for recurringBillingService — plan validation, graduated device
+// pricing, daily counts, proration and billing periods are pure and pinned
+// here. The scheduler's queries need a real database.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  validatePlanInput,
+  validateSubscriptionInput,
+  priceDeviceCount,
+  buildDailyCounts,
+  buildManagedServiceLineItems,
+  nextBillingPeriod,
+  endOfMonth
+} from './recurringBillingService.js';
+
+const ranges = [
+  { start: 1, end: 10, price: 25, description: 'First 10' },
+  { start: 11, end: 50, price: 20, description: 'Next 40' }
+];
+
+// ----- validatePlanInput -----
+
+test('validatePlanInput: normalises ranges and sorts them', () => {
+  const plan = validatePlanInput({
+    name: ' Monitoring Plus ',
+    pricingRanges: [
+      { start: '11', end: '50', price: '20' },
+      { start: 1, end: 10, price: 24.999, description: 'Base' }
+    ]
+  });
+  assert.equal(plan.name, 'Monitoring Plus');
+  assert.equal(plan.isActive, true);
+  assert.deepEqual(plan.pricingRanges, [
+    { start: 1, end: 10, price: 25, description: 'Base' },
+    { start: 11, end: 50, price: 20, description: 'Devices 11-50' }
+  ]);
+});
+
+test('validatePlanInput: rejects gaps and ranges not starting at 1', () => {
+  assert.throws(
+    () => validatePlanInput({ name: 'x', pricingRanges: [{ start: 1, end: 5, price: 1 }, { start: 7, end: 9, price: 1 }] }),
+    /Gap detected/
+  );
+  assert.throws(
+    () => validatePlanInput({ name: 'x', pricingRanges: [{ start: 3, end: 5, price: 1 }] }),
+    /must start at device 1/
+  );
+  assert.throws(() => validatePlanInput({ pricingRanges: ranges }), /Plan name is required/);
+});
+
+// ----- validateSubscriptionInput -----
+
+test('validateSubscriptionInput: requires business, plan and a start date', () => {
+  assert.deepEqual(
+    validateSubscriptionInput({ businessId: 'b-1', planId: 'p-1', startedOn: '2026-10-05' }),
+    { businessId: 'b-1', planId: 'p-1', startedOn: '2026-10-05', endedOn: null, notes: null }
+  );
+  assert.throws(() => validateSubscriptionInput({ businessId: 'b-1', planId: 'p-1', startedOn: '10/05/2026' }), /YYYY-MM-DD/);
+  assert.throws(
+    () => validateSubscriptionInput({ businessId: 'b-1', planId: 'p-1', startedOn: '2026-10-05', endedOn: '2026-10-01' }),
+    /before the start date/
+  );
+});
+
+test('validateSubscriptionInput: billed months cannot be rewritten', () => {
+  const existing = { business_id: 'b-1', started_on: '2026-08-01', billed_through: '2026-09-30' };
+  assert.throws(
+    () => validateSubscriptionInput({ planId: 'p-1', startedOn: '2026-09-15' }, existing),
+    /cannot change once the subscription has been invoiced/
+  );
+  assert.throws(
+    () => validateSubscriptionInput({ planId: 'p-1', endedOn: '2026-09-10' }, existing),
+    /already invoiced through 2026-09-30/
+  );
+  assert.equal(validateSubscriptionInput({ planId: 'p-2', endedOn: '2026-10-31' }, existing).businessId, 'b-1');
+});
+
+// ----- priceDeviceCount -----
+
+test('priceDeviceCount: graduated like the subscription tiers', () => {
+  assert.equal(priceDeviceCount(0, ranges).totalCost, 0);
+  assert.equal(priceDeviceCount(8, ranges).totalCost, 200);
+  assert.equal(priceDeviceCount(12, ranges).totalCost, 290);
+});
+
+test('priceDeviceCount: devices past the last range pay its price', () => {
+  const { totalCost, breakdown } = priceDeviceCount(53, ranges);
+  assert.equal(totalCost, 250 + 800 + 60);
+  assert.deepEqual(breakdown.at(-1), {
+    range: '51-53', devices: 3, pricePerDevice: 20, subtotal: 60, description: 'Next 40 (additional)'
+  });
+});
+
+// ----- buildDailyCounts -----
+
+test('buildDailyCounts: carries counts over days with no snapshot', () => {
+  const days = buildDailyCounts({
+    periodStart: '2026-10-01',
+    periodEnd: '2026-10-05',
+    counts: [{ count_date: '2026-10-03', device_count: 6 }],
+    carryIn: 4
+  });
+  assert.deepEqual(days.map(d => d.count), [4, 4, 6, 6, 6]);
+});
+
+test('buildDailyCounts: without earlier data the first known count fills the start', () => {
+  const days = buildDailyCounts({
+    periodStart: '2026-10-01',
+    periodEnd: '2026-10-03',
+    counts: [{ count_date: '2026-10-02', device_count: 5 }, { count_date: '2026-10-03', device_count: 7 }]
+  });
+  assert.deepEqual(days.map(d => d.count), [5, 5, 7]);
+
+  const none = buildDailyCounts({ periodStart: '2026-10-01', periodEnd: '2026-10-02', counts: [], fallbackCount: 3 });
+  assert.deepEqual(none.map(d => d.count), [3, 3]);
+});
+
+// ----- buildManagedServiceLineItems -----
+
+const days = (start, end, count) => buildDailyCounts({
+  periodStart: start, periodEnd: end, counts: [], fallbackCount: count
+});
+
+test('buildManagedServiceLineItems: a steady month is one full-price line', () => {
+  const lines = buildManagedServiceLineItems({
+    planName: 'Monitoring',
+    pricingRanges: ranges,
+    dailyCounts: days('2026-09-01', '2026-09-30', 8)
+  });
+  assert.deepEqual(lines, [{
+    description: 'Monitoring: 8 devices (September 2026)',
+    itemType: 'fee',
+    quantity: 1,
+    unitPrice: 200,
+    taxable: true
+  }]);
+});
+
+test('buildManagedServiceLineItems: a mid-month device change is prorated by days', () => {
+  const lines = buildManagedServiceLineItems({
+    planName: 'Monitoring',
+    pricingRanges: ranges,
+    dailyCounts: [...days('2026-10-01', '2026-10-20', 10), ...days('2026-10-21', '2026-10-31', 12)]
+  });
+  assert.deepEqual(lines.map(l => [l.description, l.quantity, l.unitPrice]), [
+    ['Monitoring: 10 devices (Oct 1-Oct 20, 20 of 31 days)', 0.6452, 250],
+    ['Monitoring: 12 devices (Oct 21-Oct 31, 11 of 31 days)', 0.3548, 290]
+  ]);
+});
+
+test('buildManagedServiceLineItems: days with no devices are not billed', () => {
+  const lines = buildManagedServiceLineItems({
+    planName: 'Monitoring',
+    pricingRanges: ranges,
+    dailyCounts: [...days('2026-11-01', '2026-11-14', 0), ...days('2026-11-15', '2026-11-30', 1)]
+  });
+  assert.equal(lines.length, 1);
+  assert.equal(lines[0].description, 'Monitoring: 1 device (Nov 15-Nov 30, 16 of 30 days)');
+  assert.equal(lines[0].quantity, 0.5333);
+});
+
+// ----- nextBillingPeriod -----
+
+test('nextBillingPeriod: bills a finished month from the start date', () => {
+  const subscription = { started_on: '2026-09-12', ended_on: null, billed_through: null };
+  assert.deepEqual(nextBillingPeriod(subscription, '2026-10-01'), { periodStart: '2026-09-12', periodEnd: '2026-09-30' });
+  assert.equal(nextBillingPeriod(subscription, '2026-09-30'), null);
+});
+
+test('nextBillingPeriod: continues after billed_through and stops at the end date', () => {
+  assert.deepEqual(
+    nextBillingPeriod({ started_on: '2026-01-01', ended_on: '2026-11-10', billed_through: '2026-10-31' }, '2026-12-01'),
+    { periodStart: '2026-11-01', periodEnd: '2026-11-10' }
+  );
+  assert.equal(
+    nextBillingPeriod({ started_on: '2026-01-01', ended_on: '2026-11-10', billed_through: '2026-11-10' }, '2027-01-01'),
+    null
+  );
+});
+
+test('endOfMonth: handles leap years', () => {
+  assert.equal(endOfMonth('2028-02-10'), '2028-02-29');
+  assert.equal(endOfMonth('2026-12-31'), '2026-12-31');
+});
@@ -0,0 +1,516 @@
+/**
+ * Report builder service.
+ *
+ * Turns a saved (or ad-hoc) report definition into a single parameterized
+ * SELECT against one of a fixed set of data sources. Definitions are JSON
+ * the admin UI builds -- they never carry SQL. Every column, filter and
+ * grouping references a field key from DATA_SOURCES below, and only the
+ * registry's SQL fragments ever reach the query text; user-supplied values
+ * are always bound parameters.
+ *
+ * Definition shape:
+ *   {
+ *     dataSource: 'service_requests',
+ *     columns:    ['request_number', 'status', ...],
+ *     filters:    [{ field, operator, value }],
+ *     groupBy:    { field, interval? } | null,   // interval for date fields
+ *     aggregate:  { fn: 'count'|'sum'|'avg'|'min'|'max', field? },
+ *     dateRange:  { preset } | { preset: 'custom', from, to },
+ *     sort:       { field, direction: 'asc'|'desc' },
+ *     chartType:  'table'|'bar'|'line'|'pie',
+ *     limit:      number
+ *   }
+ *
+ * RBAC: each data source names the permission needed to see it at all, and
+ * sources with per-technician data name the column that scopes rows to the
+ * requesting employee unless they hold view.team_reports.enable.
+ */
+import { query } from '../config/database.js';
+
+export const MAX_ROW_LIMIT = 1000;
+export const DEFAULT_ROW_LIMIT = 200;
+
+// Permission that lifts the "own rows only" scope on per-technician sources.
+export const TEAM_SCOPE_PERMISSION = 'view.team_reports.enable';
+
+export const FILTER_OPERATORS = ['eq', 'neq', 'contains', 'gt', 'gte', 'lt', 'lte', 'in', 'is_null', 'not_null'];
+export const AGGREGATE_FUNCTIONS = ['count', 'sum', 'avg', 'min', 'max'];
+export const DATE_INTERVALS = ['day', 'week', 'month', 'quarter', 'year'];
+export const DATE_PRESETS = ['today', 'last_7_days', 'last_30_days', 'last_90_days', 'this_month', 'last_month', 'this_year', 'custom'];
+export const CHART_TYPES = ['table', 'bar', 'line', 'pie'];
+
+export const DATA_SOURCES = {
+  service_requests: {
+    label: 'Service Requests',
+    permission: 'view.technical_reports.enable',
+    from: `
+      FROM service_requests sr
+      LEFT JOIN service_request_statuses srs ON sr.status_id = srs.id
+      LEFT JOIN urgency_levels ul ON sr.urgency_level_id = ul.id
+      LEFT JOIN priority_levels pl ON sr.priority_level_id = pl.id
+      LEFT JOIN service_types st ON sr.service_type_id = st.id
+      LEFT JOIN businesses b ON sr.business_id = b.id
+      LEFT JOIN employees tech ON sr.assigned_to_employee_id = tech.id`,
+    baseConditions: ['sr.soft_delete = false'],
+    dateColumn: 'sr.created_at',
+    ownerColumn: 'sr.assigned_to_employee_id',
+    defaultColumns: ['request_number', 'title', 'status', 'business_name', 'technician_name', 'created_at'],
+    fields: {
+      request_number: { label: 'Request #', sql: 'sr.request_number', type: 'string' },
+      title: { label: 'Title', sql: 'sr.title', type: 'string' },
+      status: { label: 'Status', sql: 'srs.name', type: 'string', groupable: true },
+      urgency: { label: 'Urgency', sql: 'ul.name', type: 'string', groupable: true },
+      priority: { label: 'Priority', sql: 'pl.name', type: 'string', groupable: true },
+      service_type: { label: 'Service Type', sql: 'st.name', type: 'string', groupable: true },
+      business_name: { label: 'Business', sql: 'b.business_name', type: 'string', groupable: true },
+      technician_name: { label: 'Technician', sql: `CONCAT(tech.first_name, ' ', tech.last_name)`, type: 'string', groupable: true },
+      created_at: { label: 'Created', sql: 'sr.created_at', type: 'date', groupable: true },
+      acknowledged_at: { label: 'Acknowledged', sql: 'sr.acknowledged_at', type: 'date', groupable: true },
+      started_at: { label: 'Started', sql: 'sr.started_at', type: 'date', groupable: true },
+      closed_at: { label: 'Closed', sql: 'sr.closed_at', type: 'date', groupable: true },
+      work_minutes: { label: 'Work Minutes', sql: 'sr.total_work_duration_minutes', type: 'number' },
+      satisfaction_rating: { label: 'Satisfaction', sql: 'sr.client_satisfaction_rating', type: 'number', groupable: true }
+    }
+  },
+
+  invoices: {
+    label: 'Invoices',
+    permission: 'view.financial_reports.enable',
+    from: `
+      FROM invoices i
+      JOIN businesses b ON i.business_id = b.id
+      LEFT JOIN service_requests sr ON i.service_request_id = sr.id`,
+    baseConditions: ["i.invoice_status <> 'draft'"],
+    dateColumn: 'i.issue_date',
+    ownerColumn: null,
+    defaultColumns: ['invoice_number', 'business_name', 'issue_date', 'payment_status', 'total_amount'],
+    fields: {
+      invoice_number: { label: 'Invoice #', sql: 'i.invoice_number', type: 'string' },
+      business_name: { label: 'Business', sql: 'b.business_name', type: 'string', groupable: true },
+      request_number: { label: 'Request #', sql: 'sr.request_number', type: 'string' },
+      issue_date: { label: 'Issued', sql: 'i.issue_date', type: 'date', groupable: true },
+      due_date: { label: 'Due', sql: 'i.due_date', type: 'date', groupable: true },
+      payment_date: { label: 'Paid', sql: 'i.payment_date', type: 'date', groupable: true },
+      payment_status: { label: 'Payment Status', sql: 'i.payment_status', type: 'string', groupable: true },
+      invoice_status: { label: 'Invoice Status', sql: 'i.invoice_status', type: 'string', groupable: true },
+      invoice_type: { label: 'Invoice Type', sql: 'i.invoice_type', type: 'string', groupable: true },
+      subtotal: { label: 'Subtotal', sql: 'i.subtotal', type: 'currency' },
+      tax_amount: { label: 'Tax', sql: 'i.tax_amount', type: 'currency' },
+      total_amount: { label: 'Total', sql: 'i.total_amount', type: 'currency' }
+    }
+  },
+
+  time_entries: {
+    label: 'Time Entries',
+    permission: 'view.technical_reports.enable',
+    from: `
+      FROM service_request_time_entries te
+      JOIN service_requests sr ON te.service_request_id = sr.id
+      LEFT JOIN businesses b ON sr.business_id = b.id
+      LEFT JOIN employees tech ON te.technician_id = tech.id`,
+    baseConditions: ['sr.soft_delete = false'],
+    dateColumn: 'te.start_time',
+    ownerColumn: 'te.technician_id',
+    defaultColumns: ['request_number', 'technician_name', 'start_time', 'end_time', 'duration_hours'],
+    fields: {
+      request_number: { label: 'Request #', sql: 'sr.request_number', type: 'string' },
+      business_name: { label: 'Business', sql: 'b.business_name', type: 'string', groupable: true },
+      technician_name: { label: 'Technician', sql: `CONCAT(tech.first_name, ' ', tech.last_name)`, type: 'string', groupable: true },
+      start_time: { label: 'Start', sql: 'te.start_time', type: 'date', groupable: true },
+      end_time: { label: 'End', sql: 'te.end_time', type: 'date' },
+      duration_minutes: { label: 'Minutes', sql: 'te.duration_minutes', type: 'number' },
+      duration_hours: { label: 'Hours', sql: 'ROUND(te.duration_minutes / 60.0, 2)', type: 'number' },
+      work_description: { label: 'Work Description', sql: 'te.work_description', type: 'string' }
+    }
+  },
+
+  agent_alerts: {
+    label: 'Agent Alerts',
+    permission: 'view.technical_reports.enable',
+    from: `
+      FROM alert_history ah
+      JOIN agent_devices ad ON ah.agent_id = ad.id
+      LEFT JOIN businesses b ON ad.business_id = b.id`,
+    baseConditions: [],
+    dateColumn: 'ah.triggered_at',
+    ownerColumn: null,
+    defaultColumns: ['alert_title', 'severity', 'device_name', 'business_name', 'triggered_at', 'resolved_at'],
+    fields: {
+      alert_title: { label: 'Alert', sql: 'ah.alert_title', type: 'string' },
+      severity: { label: 'Severity', sql: 'ah.severity', type: 'string', groupable: true },
+      alert_type: { label: 'Alert Type', sql: 'ah.alert_type', type: 'string', groupable: true },
+      metric_type: { label: 'Metric', sql: 'ah.metric_type', type: 'string', groupable: true },
+      device_name: { label: 'Device', sql: 'ad.device_name', type: 'string', groupable: true },
+      business_name: { label: 'Business', sql: 'b.business_name', type: 'string', groupable: true },
+      triggered_at: { label: 'Triggered', sql: 'ah.triggered_at', type: 'date', groupable: true },
+      acknowledged_at: { label: 'Acknowledged', sql: 'ah.acknowledged_at', type: 'date' },
+      resolved_at: { label: 'Resolved', sql: 'ah.resolved_at', type: 'date', groupable: true },
+      is_resolved: { label: 'Resolved?', sql: '(ah.resolved_at IS NOT NULL)', type: 'boolean', groupable: true },
+      metric_value: { label: 'Metric Value', sql: 'ah.metric_value', type: 'number' }
+    }
+  },
+
+  agent_metrics: {
+    label: 'Agent Metrics',
+    permission: 'view.technical_reports.enable',
+    from: `
+      FROM agent_metrics am
+      JOIN agent_devices ad ON am.agent_device_id = ad.id
+      LEFT JOIN businesses b ON ad.business_id = b.id`,
+    baseConditions: ['ad.soft_delete = false'],
+    dateColumn: 'am.collected_at',
+    ownerColumn: null,
+    defaultColumns: ['device_name', 'collected_at', 'cpu_percent', 'memory_percent', 'disk_percent'],
+    fields: {
+      device_name: { label: 'Device', sql: 'ad.device_name', type: 'string', groupable: true },
+      business_name: { label: 'Business', sql: 'b.business_name', type: 'string', groupable: true },
+      collected_at: { label: 'Collected', sql: 'am.collected_at', type: 'date', groupable: true },
+      cpu_percent: { label: 'CPU %', sql: 'am.cpu_percent', type: 'number' },
+      memory_percent: { label: 'Memory %', sql: 'am.memory_percent', type: 'number' },
+      disk_percent: { label: 'Disk %', sql: 'am.disk_percent', type: 'number' },
+      disk_used_gb: { label: 'Disk Used (GB)', sql: 'am.disk_used_gb', type: 'number' }
+    }
+  },
+
+  sla_breaches: {
+    label: 'SLA Breaches',
+    permission: 'view.technical_reports.enable',
+    from: `
+      FROM sla_breaches sb
+      JOIN service_requests sr ON sb.service_request_id = sr.id
+      LEFT JOIN urgency_levels ul ON sr.urgency_level_id = ul.id
+      LEFT JOIN businesses b ON sb.business_id = b.id
+      LEFT JOIN employees tech ON sr.assigned_to_employee_id = tech.id`,
+    baseConditions: ['sr.soft_delete = false'],
+    dateColumn: 'sb.breached_at',
+    ownerColumn: 'sr.assigned_to_employee_id',
+    defaultColumns: ['request_number', 'business_name', 'target', 'policy_name', 'due_at', 'met_at', 'minutes_over'],
+    fields: {
+      request_number: { label: 'Request #', sql: 'sr.request_number', type: 'string' },
+      title: { label: 'Title', sql: 'sr.title', type: 'string' },
+      business_name: { label: 'Business', sql: 'b.business_name', type: 'string', groupable: true },
+      urgency: { label: 'Urgency', sql: 'ul.name', type: 'string', groupable: true },
+      technician_name: { label: 'Technician', sql: "CONCAT(tech.first_name, ' ', tech.last_name)", type: 'string', groupable: true },
+      policy_name: { label: 'SLA Policy', sql: 'sb.policy_name', type: 'string', groupable: true },
+      target: { label: 'Target', sql: 'sb.target', type: 'string', groupable: true },
+      due_at: { label: 'Due', sql: 'sb.due_at', type: 'date' },
+      breached_at: { label: 'Breached', sql: 'sb.breached_at', type: 'date', groupable: true },
+      met_at: { label: 'Eventually Met', sql: 'sb.met_at', type: 'date' },
+      minutes_over: {
+        label: 'Minutes Over',
+        sql: 'ROUND(EXTRACT(EPOCH FROM (COALESCE(sb.met_at, NOW()) - sb.due_at)) / 60)',
+        type: 'number'
+      }
+    }
+  }
+};
+
+const NUMERIC_TYPES = ['number', 'currency'];
+
+/**
+ * Data sources visible to an employee holding the given permission keys,
+ * shaped for the builder UI (no SQL fragments leave the server).
+ *
+ * @param {string[]} permissionKeys
+ * @returns {Array<{key: string, label: string, ownRowsOnly: boolean, defaultColumns: string[], fields: object[]}>}
+ */
+export function listAvailableSources(permissionKeys) {
+  const granted = new Set(permissionKeys || []);
+  return Object.entries(DATA_SOURCES)
+    .filter(([, source]) => granted.has(source.permission))
+    .map(([key, source]) => ({
+      key,
+      label: source.label,
+      ownRowsOnly: Boolean(source.ownerColumn) && !granted.has(TEAM_SCOPE_PERMISSION),
+      defaultColumns: source.defaultColumns,
+      fields: Object.entries(source.fields).map(([fieldKey, field]) => ({
+        key: fieldKey,
+        label: field.label,
+        type: field.type,
+        groupable: Boolean(field.groupable),
+        aggregatable: NUMERIC_TYPES.includes(field.type)
+      }))
+    }));
+}
+
+/**
+ * Validate a report definition against the registry. Returns an error
+ * string, or null when the definition is runnable.
+ *
+ * @param {object} definition
+ * @returns {string|null}
+ */
+export function validateDefinition(definition) {
+  if (!definition || typeof definition !== 'object') {
+    return 'Report definition is required';
+  }
+
+  const source = DATA_SOURCES[definition.dataSource];
+  if (!source) {
+    return `Unknown data source: ${definition.dataSource}`;
+  }
+
+  const columns = definition.columns || [];
+  if (!Array.isArray(columns)) {
+    return 'columns must be an array';
+  }
+  for (const column of columns) {
+    if (!source.fields[column]) {
+      return `Unknown column "${column}" for ${definition.dataSource}`;
+    }
+  }
+
+  for (const filter of definition.filters || []) {
+    if (!filter || !source.fields[filter.field]) {
+      return `Unknown filter field "${filter?.field}"`;
+    }
+    if (!FILTER_OPERATORS.includes(filter.operator)) {
+      return `Unsupported filter operator "${filter.operator}"`;
+    }
+    if (filter.operator === 'in' && !Array.isArray(filter.value)) {
+      return `Filter on "${filter.field}" with operator "in" needs an array value`;
+    }
+  }
+
+  if (definition.groupBy) {
+    const groupField = source.fields[definition.groupBy.field];
+    if (!groupField || !groupField.groupable) {
+      return `Cannot group by "${definition.groupBy.field}"`;
+    }
+    if (definition.groupBy.interval && !DATE_INTERVALS.includes(definition.groupBy.interval)) {
+      return `Unsupported date interval "${definition.groupBy.interval}"`;
+    }
+
+    const aggregate = definition.aggregate || { fn: 'count' };
+    if (!AGGREGATE_FUNCTIONS.includes(aggregate.fn)) {
+      return `Unsupported aggregate "${aggregate.fn}"`;
+    }
+    if (aggregate.fn !== 'count') {
+      const aggField = source.fields[aggregate.field];
+      if (!aggField || !NUMERIC_TYPES.includes(aggField.type)) {
+        return `Aggregate ${aggregate.fn} needs a numeric field`;
+      }
+    }
+  } else if (columns.length === 0) {
+    return 'Select at least one column or a grouping';
+  }
+
+  if (definition.dateRange) {
+    const { preset, from, to } = definition.dateRange;
+    if (!DATE_PRESETS.includes(preset)) {
+      return `Unsupported date range "${preset}"`;
+    }
+    if (preset === 'custom' && (!from || !to || Number.isNaN(Date.parse(from)) || Number.isNaN(Date.parse(to)))) {
+      return 'Custom date range needs valid from and to dates';
+    }
+  }
+
+  if (definition.sort && definition.sort.field) {
+    const sortable = definition.groupBy ? ['group_value', 'value'] : columns;
+    if (!sortable.includes(definition.sort.field)) {
+      return `Cannot sort by "${definition.sort.field}"`;
+    }
+  }
+
+  if (definition.chartType && !CHART_TYPES.includes(definition.chartType)) {
+    return `Unsupported chart type "${definition.chartType}"`;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a date-range preset to concrete UTC bounds. `to` is exclusive.
+ *
+ * @param {{preset: string, from?: string, to?: string}|undefined} dateRange
+ * @param {Date} [now]
+ * @returns {{from: Date, to: Date}}
+ */
+export function resolveDateRange(dateRange, now = new Date()) {
+  const preset = dateRange?.preset || 'last_30_days';
+  const startOfToday = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const tomorrow = new Date(startOfToday.getTime() + 86400000);
+  const daysBack = (n) => new Date(tomorrow.getTime() - n * 86400000);
+
+  switch (preset) {
+    case 'today':
+      return { from: startOfToday, to: tomorrow };
+    case 'last_7_days':
+      return { from: daysBack(7), to: tomorrow };
+    case 'last_90_days':
+      return { from: daysBack(90), to: tomorrow };
+    case 'this_month':
+      return { from: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)), to: tomorrow };
+    case 'last_month':
+      return {
+        from: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1)),
+        to: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+      };
+    case 'this_year':
+      return { from: new Date(Date.UTC(now.getUTCFullYear(), 0, 1)), to: tomorrow };
+    case 'custom': {
+      // Custom `to` is an inclusive calendar date in the UI -- bump to the
+      // following midnight so the whole day is covered.
+      const to = new Date(dateRange.to);
+      return { from: new Date(dateRange.from), to: new Date(to.getTime() + 86400000) };
+    }
+    case 'last_30_days':
+    default:
+      return { from: daysBack(30), to: tomorrow };
+  }
+}
+
+function buildFilterClause(fieldSql, filter, params) {
+  const next = (value) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  switch (filter.operator) {
+    case 'eq': return `${fieldSql} = ${next(filter.value)}`;
+    case 'neq': return `${fieldSql} IS DISTINCT FROM ${next(filter.value)}`;
+    case 'contains': return `${fieldSql}::text ILIKE ${next(`%${filter.value}%`)}`;
+    case 'gt': return `${fieldSql} > ${next(filter.value)}`;
+    case 'gte': return `${fieldSql} >= ${next(filter.value)}`;
+    case 'lt': return `${fieldSql} < ${next(filter.value)}`;
+    case 'lte': return `${fieldSql} <= ${next(filter.value)}`;
+    case 'in': return `${fieldSql}::text = ANY(${next(filter.value.map(String))}::text[])`;
+    case 'is_null': return `${fieldSql} IS NULL`;
+    case 'not_null': return `${fieldSql} IS NOT NULL`;
+    default: throw new Error(`Unsupported filter operator: ${filter.operator}`);
+  }
+}
+
+/**
+ * Build the SQL for a validated definition. Pure -- exported so tests can
+ * pin the generated query without a database.
+ *
+ * @param {object} definition  must already pass validateDefinition()
+ * @param {{employeeId: string, permissions: string[]}} scope
+ * @param {Date} [now]
+ * @returns {{text: string, params: any[], columns: Array<{key: string, label: string, type: string}>}}
+ */
+export function buildReportQuery(definition, scope, now = new Date()) {
+  const source = DATA_SOURCES[definition.dataSource];
+  const params = [];
+  const conditions = [...source.baseConditions];
+
+  const { from, to } = resolveDateRange(definition.dateRange, now);
+  params.push(from.toISOString(), to.toISOString());
+  conditions.push(`${source.dateColumn} >= $1 AND ${source.dateColumn} < $2`);
+
+  const permissions = new Set(scope?.permissions || []);
+  if (source.ownerColumn && !permissions.has(TEAM_SCOPE_PERMISSION)) {
+    params.push(scope.employeeId);
+    conditions.push(`${source.ownerColumn} = $${params.length}`);
+  }
+
+  for (const filter of definition.filters || []) {
+    conditions.push(buildFilterClause(source.fields[filter.field].sql, filter, params));
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const limit = Math.min(Math.max(parseInt(definition.limit, 10) || DEFAULT_ROW_LIMIT, 1), MAX_ROW_LIMIT);
+  const direction = definition.sort?.direction === 'asc' ? 'ASC' : 'DESC';
+
+  if (definition.groupBy) {
+    const groupField = source.fields[definition.groupBy.field];
+    const groupSql = groupField.type === 'date'
+      ? `date_trunc('${definition.groupBy.interval || 'day'}', ${groupField.sql})`
+      : groupField.sql;
+    const aggregate = definition.aggregate || { fn: 'count' };
+    const valueSql = aggregate.fn === 'count'
+      ? 'COUNT(*)'
+      : `ROUND(${aggregate.fn.toUpperCase()}(${source.fields[aggregate.field].sql})::numeric, 2)`;
+
+    // Date buckets read naturally oldest-first; categories biggest-first.
+    const orderBy = definition.sort?.field
+      ? `${definition.sort.field} ${direction}`
+      : (groupField.type === 'date' ? 'group_value ASC' : 'value DESC');
+
+    params.push(limit);
+    const text = `
+      SELECT ${groupSql} AS group_value, ${valueSql} AS value
+      ${source.from}
+      ${whereClause}
+      GROUP BY 1
+      ORDER BY ${orderBy}
+      LIMIT $${params.length}`;
+
+    const valueLabel = aggregate.fn === 'count'
+      ? 'Count'
+      : `${aggregate.fn.toUpperCase()} of ${source.fields[aggregate.field].label}`;
+    return {
+      text,
+      params,
+      columns: [
+        { key: 'group_value', label: groupField.label, type: groupField.type },
+        { key: 'value', label: valueLabel, type: aggregate.fn === 'count' ? 'number' : source.fields[aggregate.field].type }
+      ]
+    };
+  }
+
+  const selectList = definition.columns.map(key => `${source.fields[key].sql} AS ${key}`).join(',\n        ');
+  const orderBy = definition.sort?.field
+    ? `${definition.sort.field} ${direction}`
+    : `${source.dateColumn} DESC`;
+
+  params.push(limit);
+  const text = `
+      SELECT
+        ${selectList}
+      ${source.from}
+      ${whereClause}
+      ORDER BY ${orderBy}
+      LIMIT $${params.length}`;
+
+  return {
+    text,
+    params,
+    columns: definition.columns.map(key => ({ key, label: source.fields[key].label, type: source.fields[key].type }))
+  };
+}
+
+/**
+ * Run a report definition for an employee.
+ *
+ * Throws an Error with `statusCode` 400 (invalid definition) or 403
+ * (data source not permitted) so routes can map it straight to a response.
+ *
+ * @param {object} definition
+ * @param {{employeeId: string, permissions: string[]}} scope
+ * @returns {Promise<{columns: object[], rows: object[], rowCount: number, grouped: boolean}>}
+ */
+export async function runReport(definition, scope) {
+  const validationError = validateDefinition(definition);
+  if (validationError) {
+    const err = new Error(validationError);
+    err.statusCode = 400;
+    throw err;
+  }
+
+  const source = DATA_SOURCES[definition.dataSource];
+  if (!(scope?.permissions || []).includes(source.permission)) {
+    const err = new Error(`Permission ${source.permission} is required for ${source.label} reports`);
+    err.statusCode = 403;
+    throw err;
+  }
+
+  const { text, params, columns } = buildReportQuery(definition, scope);
+  const result = await query(text, params);
+
+  return {
+    columns,
+    rows: result.rows,
+    rowCount: result.rows.length,
+    grouped: Boolean(definition.groupBy)
+  };
+}
+
+export default {
+  listAvailableSources,
+  validateDefinition,
+  resolveDateRange,
+  buildReportQuery,
+  runReport
+};
@@ -0,0 +1,165 @@
+// Tests for reportBuilderService — validation, date-range resolution and
+// SQL generation are pure and pinned here. runReport() is a thin DB wrapper
+// and is covered by smoke tests against a real database.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DATA_SOURCES,
+  MAX_ROW_LIMIT,
+  TEAM_SCOPE_PERMISSION,
+  listAvailableSources,
+  validateDefinition,
+  resolveDateRange,
+  buildReportQuery,
+} from './reportBuilderService.js';
+
+const NOW = new Date('2026-10-18T15:30:00Z');
+const TECH_SCOPE = { employeeId: 'emp-1', permissions: ['view.technical_reports.enable'] };
+const TEAM_SCOPE = { employeeId: 'emp-1', permissions: ['view.technical_reports.enable', TEAM_SCOPE_PERMISSION] };
+
+// ----- listAvailableSources -----
+
+test('listAvailableSources: only sources whose permission is granted', () => {
+  const sources = listAvailableSources(['view.technical_reports.enable']);
+  const keys = sources.map(s => s.key);
+  assert.ok(keys.includes('service_requests'));
+  assert.ok(!keys.includes('invoices'), 'invoices require view.financial_reports.enable');
+});
+
+test('listAvailableSources: never leaks SQL fragments', () => {
+  const sources = listAvailableSources(['view.technical_reports.enable', 'view.financial_reports.enable']);
+  const json = JSON.stringify(sources);
+  assert.doesNotMatch(json, /FROM|JOIN|sr\.|i\./);
+});
+
+test('listAvailableSources: flags own-rows-only without team permission', () => {
+  const [sr] = listAvailableSources(['view.technical_reports.enable']).filter(s => s.key === 'service_requests');
+  assert.equal(sr.ownRowsOnly, true);
+  const [team] = listAvailableSources(TEAM_SCOPE.permissions).filter(s => s.key === 'service_requests');
+  assert.equal(team.ownRowsOnly, false);
+});
+
+// ----- validateDefinition -----
+
+test('validateDefinition: accepts a simple column report', () => {
+  assert.equal(validateDefinition({ dataSource: 'service_requests', columns: ['request_number', 'status'] }), null);
+});
+
+test('validateDefinition: rejects unknown data source and columns', () => {
+  assert.match(validateDefinition({ dataSource: 'users', columns: ['id'] }), /Unknown data source/);
+  assert.match(validateDefinition({ dataSource: 'invoices', columns: ['password'] }), /Unknown column/);
+});
+
+test('validateDefinition: needs columns unless grouped', () => {
+  assert.match(validateDefinition({ dataSource: 'invoices', columns: [] }), /at least one column/);
+  assert.equal(validateDefinition({ dataSource: 'invoices', groupBy: { field: 'payment_status' } }), null);
+});
+
+test('validateDefinition: non-count aggregates need a numeric field', () => {
+  const base = { dataSource: 'invoices', groupBy: { field: 'business_name' } };
+  assert.equal(validateDefinition({ ...base, aggregate: { fn: 'sum', field: 'total_amount' } }), null);
+  assert.match(validateDefinition({ ...base, aggregate: { fn: 'sum', field: 'invoice_number' } }), /numeric/);
+  assert.match(validateDefinition({ ...base, aggregate: { fn: 'median', field: 'total_amount' } }), /Unsupported aggregate/);
+});
+
+test('validateDefinition: rejects non-groupable fields and bad operators', () => {
+  assert.match(validateDefinition({ dataSource: 'invoices', groupBy: { field: 'invoice_number' } }), /Cannot group/);
+  assert.match(
+    validateDefinition({ dataSource: 'invoices', columns: ['total_amount'], filters: [{ field: 'total_amount', operator: 'between', value: 1 }] }),
+    /Unsupported filter operator/
+  );
+  assert.match(
+    validateDefinition({ dataSource: 'invoices', columns: ['total_amount'], filters: [{ field: 'payment_status', operator: 'in', value: 'paid' }] }),
+    /array value/
+  );
+});
+
+test('validateDefinition: sort field must be a selected column', () => {
+  const def = { dataSource: 'invoices', columns: ['total_amount'], sort: { field: 'issue_date' } };
+  assert.match(validateDefinition(def), /Cannot sort/);
+});
+
+test('validateDefinition: custom range needs both dates', () => {
+  const def = { dataSource: 'invoices', columns: ['total_amount'], dateRange: { preset: 'custom', from: '2026-01-01' } };
+  assert.match(validateDefinition(def), /Custom date range/);
+});
+
+// ----- resolveDateRange -----
+
+test('resolveDateRange: last_7_days ends at tomorrow midnight UTC', () => {
+  const { from, to } = resolveDateRange({ preset: 'last_7_days' }, NOW);
+  assert.equal(to.toISOString(), '2026-10-19T00:00:00.000Z');
+  assert.equal(from.toISOString(), '2026-10-12T00:00:00.000Z');
+});
+
+test('resolveDateRange: last_month spans the previous calendar month', () => {
+  const { from, to } = resolveDateRange({ preset: 'last_month' }, NOW);
+  assert.equal(from.toISOString(), '2026-09-01T00:00:00.000Z');
+  assert.equal(to.toISOString(), '2026-10-01T00:00:00.000Z');
+});
+
+test('resolveDateRange: custom `to` is inclusive of the whole day', () => {
+  const { from, to } = resolveDateRange({ preset: 'custom', from: '2026-03-01', to: '2026-03-31' }, NOW);
+  assert.equal(from.toISOString(), '2026-03-01T00:00:00.000Z');
+  assert.equal(to.toISOString(), '2026-04-01T00:00:00.000Z');
+});
+
+test('resolveDateRange: defaults to last 30 days', () => {
+  const { from } = resolveDateRange(undefined, NOW);
+  assert.equal(from.toISOString(), '2026-09-19T00:00:00.000Z');
+});
+
+// ----- buildReportQuery -----
+
+test('buildReportQuery: technician without team permission is scoped to own rows', () => {
+  const { text, params } = buildReportQuery({ dataSource: 'service_requests', columns: ['title'] }, TECH_SCOPE, NOW);
+  assert.match(text, /sr\.assigned_to_employee_id = \$3/);
+  assert.equal(params[2], 'emp-1');
+});
+
+test('buildReportQuery: team permission lifts the owner scope', () => {
+  const { text } = buildReportQuery({ dataSource: 'service_requests', columns: ['title'] }, TEAM_SCOPE, NOW);
+  assert.doesNotMatch(text, /assigned_to_employee_id = \$/);
+});
+
+test('buildReportQuery: filter values are bound, never interpolated', () => {
+  const def = {
+    dataSource: 'invoices',
+    columns: ['invoice_number'],
+    filters: [{ field: 'business_name', operator: 'contains', value: "x'; DROP TABLE invoices; --" }],
+  };
+  const { text, params } = buildReportQuery(def, TEAM_SCOPE, NOW);
+  assert.doesNotMatch(text, /DROP TABLE/);
+  assert.ok(params.includes("%x'; DROP TABLE invoices; --%"));
+});
+
+test('buildReportQuery: grouped date field buckets with date_trunc', () => {
+  const def = {
+    dataSource: 'invoices',
+    groupBy: { field: 'issue_date', interval: 'month' },
+    aggregate: { fn: 'sum', field: 'total_amount' },
+  };
+  const { text, columns } = buildReportQuery(def, TEAM_SCOPE, NOW);
+  assert.match(text, /date_trunc\('month', i\.issue_date\) AS group_value/);
+  assert.match(text, /ROUND\(SUM\(i\.total_amount\)::numeric, 2\) AS value/);
+  assert.match(text, /ORDER BY group_value ASC/);
+  assert.deepEqual(columns.map(c => c.key), ['group_value', 'value']);
+});
+
+test('buildReportQuery: limit is clamped to MAX_ROW_LIMIT', () => {
+  const { params } = buildReportQuery({ dataSource: 'invoices', columns: ['invoice_number'], limit: 50000 }, TEAM_SCOPE, NOW);
+  assert.equal(params[params.length - 1], MAX_ROW_LIMIT);
+});
+
+test('every registry field has a label, sql and known type', () => {
+  for (const [sourceKey, source] of Object.entries(DATA_SOURCES)) {
+    for (const [fieldKey, field] of Object.entries(source.fields)) {
+      assert.ok(field.label && field.sql, `${sourceKey}.${fieldKey}`);
+      assert.ok(['string', 'number', 'currency', 'date', 'boolean'].includes(field.type), `${sourceKey}.${fieldKey}`);
+    }
+    for (const col of source.defaultColumns) {
+      assert.ok(source.fields[col], `${sourceKey} default column ${col}`);
+    }
+  }
+});
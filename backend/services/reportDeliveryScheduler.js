@@ -0,0 +1,481 @@
+/**
+ * Scheduled report delivery.
+ *
+ * Polls report_schedules for rows whose next_run_at has passed, runs the
+ * saved report with the schedule creator's permissions, renders it to PDF
+ * and/or CSV, and emails the attachments to each recipient (employees and
+ * client contacts). Every attempt is written to report_deliveries.
+ *
+ * Schedule times are wall-clock values in the schedule's timezone (the
+ * business timezone by default), so "Mondays at 07:00" stays 07:00 across
+ * DST changes. computeNextRunAt() resolves them to the next UTC instant.
+ */
+import PDFDocument from 'pdfkit';
+import { query } from '../config/database.js';
+import { emailService } from './emailService.js';
+import { permissionService } from './permissionService.js';
+import { runReport } from './reportBuilderService.js';
+
+export const SCHEDULE_FREQUENCIES = ['daily', 'weekly', 'monthly'];
+export const REPORT_FORMATS = ['pdf', 'csv'];
+
+const DAY_MS = 86400000;
+
+/**
+ * Offset (ms) of `timeZone` from UTC at the given instant.
+ */
+function getTimeZoneOffset(timestamp, timeZone) {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false
+  });
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(timestamp)).map(p => [p.type, p.value]));
+  const asUtc = Date.UTC(
+    Number(parts.year),
+    Number(parts.month) - 1,
+    Number(parts.day),
+    Number(parts.hour) % 24, // some engines render midnight as "24"
+    Number(parts.minute),
+    Number(parts.second)
+  );
+  return asUtc - (timestamp - (timestamp % 1000));
+}
+
+/**
+ * UTC Date for a wall-clock time in `timeZone`. Month is 1-based.
+ *
+ * The offset is re-checked at the resulting instant so times just after a
+ * DST transition land on the right side of it.
+ */
+export function zonedTimeToUtc(year, month, day, hours, minutes, timeZone) {
+  const guess = Date.UTC(year, month - 1, day, hours, minutes);
+  const firstPass = guess - getTimeZoneOffset(guess, timeZone);
+  return new Date(guess - getTimeZoneOffset(firstPass, timeZone));
+}
+
+/**
+ * Calendar date (year, 1-based month, day) of an instant in `timeZone`.
+ */
+function getZonedDate(date, timeZone) {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  });
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(p => [p.type, p.value]));
+  return { year: Number(parts.year), month: Number(parts.month), day: Number(parts.day) };
+}
+
+function parseSendTime(sendTime) {
+  const [hours = 0, minutes = 0] = String(sendTime || '07:00').split(':').map(Number);
+  return { hours, minutes };
+}
+
+function isValidTimeZone(timeZone) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate schedule input from the admin UI.
+ *
+ * @returns {string|null} an error message, or null when valid
+ */
+export function validateSchedule(schedule) {
+  if (!schedule || typeof schedule !== 'object') {
+    return 'Schedule is required';
+  }
+  if (!SCHEDULE_FREQUENCIES.includes(schedule.frequency)) {
+    return `Frequency must be one of: ${SCHEDULE_FREQUENCIES.join(', ')}`;
+  }
+  if (schedule.frequency === 'weekly') {
+    const day = Number(schedule.day_of_week);
+    if (!Number.isInteger(day) || day < 0 || day > 6 || schedule.day_of_week === null || schedule.day_of_week === '') {
+      return 'Weekly schedules need a day of the week';
+    }
+  }
+  if (schedule.frequency === 'monthly') {
+    const day = Number(schedule.day_of_month);
+    if (!Number.isInteger(day) || day < 1 || day > 31) {
+      return 'Monthly schedules need a day of the month between 1 and 31';
+    }
+  }
+  if (schedule.send_time !== undefined && !/^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/.test(String(schedule.send_time))) {
+    return 'Send time must be HH:MM (24-hour)';
+  }
+  if (schedule.timezone !== undefined && !isValidTimeZone(schedule.timezone)) {
+    return `Unknown timezone: ${schedule.timezone}`;
+  }
+  const formats = schedule.formats || [];
+  if (!Array.isArray(formats) || formats.length === 0 || formats.some(f => !REPORT_FORMATS.includes(f))) {
+    return `Choose at least one attachment format (${REPORT_FORMATS.join(', ')})`;
+  }
+  const employees = schedule.recipient_employee_ids || [];
+  const clients = schedule.recipient_client_ids || [];
+  if (!Array.isArray(employees) || !Array.isArray(clients) || employees.length + clients.length === 0) {
+    return 'Add at least one recipient';
+  }
+  return null;
+}
+
+/**
+ * Next UTC instant strictly after `from` at which the schedule should run.
+ *
+ * Monthly schedules on the 29th-31st run on the last day of shorter months
+ * rather than skipping them.
+ *
+ * @param {{frequency, day_of_week?, day_of_month?, send_time?, timezone?}} schedule
+ * @param {Date} from
+ * @returns {Date}
+ */
+export function computeNextRunAt(schedule, from = new Date()) {
+  const timeZone = schedule.timezone || 'America/Los_Angeles';
+  const { hours, minutes } = parseSendTime(schedule.send_time);
+  const today = getZonedDate(from, timeZone);
+
+  if (schedule.frequency === 'monthly') {
+    const wanted = Number(schedule.day_of_month);
+    for (let i = 0; i < 3; i++) {
+      const monthIndex = today.month - 1 + i;
+      const year = today.year + Math.floor(monthIndex / 12);
+      const month = (monthIndex % 12) + 1;
+      const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+      const candidate = zonedTimeToUtc(year, month, Math.min(wanted, daysInMonth), hours, minutes, timeZone);
+      if (candidate > from) return candidate;
+    }
+  }
+
+  // daily / weekly: walk forward one local calendar day at a time
+  const start = Date.UTC(today.year, today.month - 1, today.day);
+  for (let i = 0; i <= 8; i++) {
+    const day = new Date(start + i * DAY_MS);
+    if (schedule.frequency === 'weekly' && day.getUTCDay() !== Number(schedule.day_of_week)) continue;
+    const candidate = zonedTimeToUtc(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), hours, minutes, timeZone);
+    if (candidate > from) return candidate;
+  }
+
+  throw new Error(`Unable to compute next run for ${schedule.frequency} schedule`);
+}
+
+function formatCellForExport(value, column) {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (column.type === 'boolean') return value ? 'Yes' : 'No';
+  if (column.type === 'currency') return Number(value).toFixed(2);
+  return String(value);
+}
+
+function escapeCsvCell(text) {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Render a report result as RFC 4180 CSV (header row of column labels).
+ */
+export function renderReportCsv(result) {
+  const lines = [result.columns.map(c => escapeCsvCell(c.label)).join(',')];
+  for (const row of result.rows) {
+    lines.push(result.columns.map(c => escapeCsvCell(formatCellForExport(row[c.key], c))).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Render a report result as a simple tabular PDF.
+ *
+ * @returns {Promise<Buffer>}
+ */
+export function renderReportPdf(report, result, generatedAt = new Date()) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'LETTER',
+      layout: result.columns.length > 5 ? 'landscape' : 'portrait',
+      margin: 40
+    });
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const left = doc.page.margins.left;
+    const usableWidth = doc.page.width - left - doc.page.margins.right;
+    const columnWidth = usableWidth / Math.max(result.columns.length, 1);
+
+    doc.fontSize(16).font('Helvetica-Bold').text(report.name);
+    if (report.description) {
+      doc.fontSize(10).font('Helvetica').fillColor('#555555').text(report.description);
+    }
+    doc.fontSize(8).font('Helvetica').fillColor('#555555')
+      .text(`Generated ${generatedAt.toUTCString()} · ${result.rowCount} row(s)`);
+    doc.moveDown();
+
+    const drawRow = (cells, bold) => {
+      const y = doc.y;
+      doc.fontSize(8).font(bold ? 'Helvetica-Bold' : 'Helvetica').fillColor('#000000');
+      let rowHeight = 0;
+      cells.forEach((cell, i) => {
+        const options = { width: columnWidth - 4, height: 30, ellipsis: true };
+        rowHeight = Math.max(rowHeight, doc.heightOfString(cell, options));
+        doc.text(cell, left + i * columnWidth, y, options);
+      });
+      doc.x = left;
+      doc.y = y + Math.min(rowHeight, 30) + 4;
+      if (bold) {
+        doc.moveTo(left, doc.y - 2).lineTo(left + usableWidth, doc.y - 2).strokeColor('#999999').stroke();
+      }
+    };
+
+    const header = result.columns.map(c => c.label);
+    drawRow(header, true);
+    for (const row of result.rows) {
+      if (doc.y > doc.page.height - doc.page.margins.bottom - 40) {
+        doc.addPage();
+        drawRow(header, true);
+      }
+      drawRow(result.columns.map(c => formatCellForExport(row[c.key], c)), false);
+    }
+    if (result.rows.length === 0) {
+      doc.fontSize(10).font('Helvetica').text('No rows match this report.', left);
+    }
+
+    doc.end();
+  });
+}
+
+function escapeHtml(text) {
+  return String(text ?? '').replace(/[&<>"']/g, ch => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[ch]));
+}
+
+function attachmentBaseName(reportName, date) {
+  const slug = reportName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report';
+  return `${slug}-${date.toISOString().slice(0, 10)}`;
+}
+
+async function loadRecipients(schedule) {
+  const [employees, clients] = await Promise.all([
+    schedule.recipient_employee_ids.length
+      ? query(
+        `SELECT id, email, CONCAT(first_name, ' ', last_name) AS name
+           FROM employees
+          WHERE id = ANY($1) AND is_active = true AND soft_delete = false`,
+        [schedule.recipient_employee_ids]
+      )
+      : { rows: [] },
+    schedule.recipient_client_ids.length
+      ? query(
+        `SELECT id, email, CONCAT(first_name, ' ', last_name) AS name
+           FROM users
+          WHERE id = ANY($1) AND soft_delete = false`,
+        [schedule.recipient_client_ids]
+      )
+      : { rows: [] }
+  ]);
+  return [
+    ...employees.rows.map(r => ({ ...r, type: 'employee' })),
+    ...clients.rows.map(r => ({ ...r, type: 'client' }))
+  ];
+}
+
+async function logDelivery(schedule, report, recipient, status, { rowCount = null, errorMessage = null, triggeredBy = null } = {}) {
+  await query(
+    `INSERT INTO report_deliveries
+       (schedule_id, saved_report_id, report_name, recipient_type, recipient_id, recipient_name,
+        recipient_email, formats, row_count, status, error_message, triggered_by, sent_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
+    [
+      schedule.id,
+      report.id,
+      report.name,
+      recipient.type,
+      recipient.id,
+      recipient.name,
+      recipient.email,
+      schedule.formats,
+      rowCount,
+      status,
+      errorMessage,
+      triggeredBy,
+      status === 'sent' ? new Date() : null
+    ]
+  );
+}
+
+class ReportDeliveryScheduler {
+  constructor() {
+    this.isRunning = false;
+    this.isProcessing = false;
+    this.intervalId = null;
+    this.checkIntervalMs = 60000; // Check every 60 seconds
+  }
+
+  /**
+   * Start the report delivery scheduler
+   */
+  start() {
+    if (this.isRunning) {
+      console.log('⚠️ Report delivery scheduler is already running');
+      return;
+    }
+
+    console.log('📨 Starting report delivery scheduler...');
+    this.isRunning = true;
+
+    this.processDueSchedules();
+    this.intervalId = setInterval(() => {
+      this.processDueSchedules();
+    }, this.checkIntervalMs);
+
+    console.log(`✅ Report delivery scheduler started (checking every ${this.checkIntervalMs / 1000}s)`);
+  }
+
+  /**
+   * Stop the report delivery scheduler
+   */
+  stop() {
+    if (!this.isRunning) return;
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    console.log('✅ Report delivery scheduler stopped');
+  }
+
+  /**
+   * Deliver every active schedule whose next_run_at has passed.
+   *
+   * next_run_at is advanced *before* sending, so a crash mid-delivery skips
+   * one run rather than emailing the same report on every tick.
+   */
+  async processDueSchedules() {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      const due = await query(
+        `SELECT id, frequency, day_of_week, day_of_month, send_time, timezone
+           FROM report_schedules
+          WHERE is_active = true AND next_run_at IS NOT NULL AND next_run_at <= NOW()
+          ORDER BY next_run_at`
+      );
+
+      for (const schedule of due.rows) {
+        const claimed = await query(
+          `UPDATE report_schedules
+              SET next_run_at = $2, last_run_at = NOW()
+            WHERE id = $1 AND is_active = true AND next_run_at <= NOW()
+            RETURNING id`,
+          [schedule.id, computeNextRunAt(schedule, new Date())]
+        );
+        if (claimed.rows.length === 0) continue; // another instance took it
+
+        try {
+          await this.deliverSchedule(schedule.id);
+        } catch (error) {
+          console.error(`❌ Report schedule ${schedule.id} failed:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('❌ Error processing report schedules:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Run a schedule's report and email it to every recipient now.
+   *
+   * @param {string} scheduleId
+   * @param {{triggeredBy?: string}} options  employee id for manual "send now"
+   * @returns {Promise<{sent: number, failed: number}>}
+   */
+  async deliverSchedule(scheduleId, { triggeredBy = null } = {}) {
+    const scheduleResult = await query(
+      `SELECT rs.*, r.id AS report_id, r.name AS report_name, r.description AS report_description, r.definition
+         FROM report_schedules rs
+         JOIN saved_reports r ON rs.saved_report_id = r.id
+        WHERE rs.id = $1`,
+      [scheduleId]
+    );
+    const schedule = scheduleResult.rows[0];
+    if (!schedule) {
+      throw new Error(`Report schedule ${scheduleId} not found`);
+    }
+
+    const report = { id: schedule.report_id, name: schedule.report_name, description: schedule.report_description };
+    const recipients = await loadRecipients(schedule);
+    const summary = { sent: 0, failed: 0 };
+
+    let attachments;
+    let rowCount = null;
+    try {
+      const permissions = await permissionService.getUserPermissions(schedule.created_by);
+      const result = await runReport(schedule.definition, { employeeId: schedule.created_by, permissions });
+      rowCount = result.rowCount;
+
+      const now = new Date();
+      const baseName = attachmentBaseName(report.name, now);
+      attachments = [];
+      if (schedule.formats.includes('pdf')) {
+        attachments.push({ filename: `${baseName}.pdf`, content: await renderReportPdf(report, result, now), contentType: 'application/pdf' });
+      }
+      if (schedule.formats.includes('csv')) {
+        attachments.push({ filename: `${baseName}.csv`, content: renderReportCsv(result), contentType: 'text/csv' });
+      }
+    } catch (error) {
+      console.error(`❌ Failed to render scheduled report "${report.name}":`, error);
+      for (const recipient of recipients) {
+        await logDelivery(schedule, report, recipient, 'failed', { errorMessage: `Report failed to run: ${error.message}`, triggeredBy });
+        summary.failed++;
+      }
+      return summary;
+    }
+
+    for (const recipient of recipients) {
+      if (!recipient.email) {
+        await logDelivery(schedule, report, recipient, 'failed', { rowCount, errorMessage: 'Recipient has no email address', triggeredBy });
+        summary.failed++;
+        continue;
+      }
+
+      try {
+        await emailService.sendRawEmail({
+          from: `"${process.env.SES_FROM_NAME}" <${process.env.SES_FROM_EMAIL}>`,
+          to: recipient.email,
+          subject: `Scheduled report: ${report.name}`,
+          html: `
+            <p>Hello ${escapeHtml(recipient.name)},</p>
+            <p>Your scheduled report <strong>${escapeHtml(report.name)}</strong> is attached (${rowCount} row${rowCount === 1 ? '' : 's'}).</p>
+            ${report.description ? `<p>${escapeHtml(report.description)}</p>` : ''}
+            ${emailService.getEmailFooter()}
+          `,
+          text: `Your scheduled report "${report.name}" is attached (${rowCount} rows).`,
+          attachments
+        });
+        await logDelivery(schedule, report, recipient, 'sent', { rowCount, triggeredBy });
+        summary.sent++;
+      } catch (error) {
+        await logDelivery(schedule, report, recipient, 'failed', { rowCount, errorMessage: error.message, triggeredBy });
+        summary.failed++;
+      }
+    }
+
+    console.log(`📨 Report "${report.name}" delivered: ${summary.sent} sent, ${summary.failed} failed`);
+    return summary;
+  }
+}
+
+export const reportDeliveryScheduler = new ReportDeliveryScheduler();
+export default reportDeliveryScheduler;
@@ -0,0 +1,122 @@
+// Tests for reportDeliveryScheduler — next-run computation, validation and
+// the CSV/PDF renderers are pure and pinned here. Delivery itself (DB +
+// SES) is covered by smoke tests against a real environment.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  zonedTimeToUtc,
+  computeNextRunAt,
+  validateSchedule,
+  renderReportCsv,
+  renderReportPdf,
+} from './reportDeliveryScheduler.js';
+
+const LA = 'America/Los_Angeles';
+
+// ----- zonedTimeToUtc -----
+
+test('zonedTimeToUtc: applies PDT in summer and PST in winter', () => {
+  assert.equal(zonedTimeToUtc(2026, 7, 1, 7, 0, LA).toISOString(), '2026-07-01T14:00:00.000Z');
+  assert.equal(zonedTimeToUtc(2026, 12, 1, 7, 0, LA).toISOString(), '2026-12-01T15:00:00.000Z');
+});
+
+// ----- computeNextRunAt -----
+
+test('computeNextRunAt: daily later today when send time has not passed', () => {
+  // 2026-10-18 05:00 PDT
+  const next = computeNextRunAt({ frequency: 'daily', send_time: '07:00', timezone: LA }, new Date('2026-10-18T12:00:00Z'));
+  assert.equal(next.toISOString(), '2026-10-18T14:00:00.000Z');
+});
+
+test('computeNextRunAt: daily rolls to tomorrow once send time has passed', () => {
+  const next = computeNextRunAt({ frequency: 'daily', send_time: '07:00:00', timezone: LA }, new Date('2026-10-18T14:00:00Z'));
+  assert.equal(next.toISOString(), '2026-10-19T14:00:00.000Z');
+});
+
+test('computeNextRunAt: uses the local calendar day, not the UTC one', () => {
+  // 2026-10-18T03:00Z is still the evening of the 17th in Los Angeles
+  const next = computeNextRunAt({ frequency: 'daily', send_time: '22:00', timezone: LA }, new Date('2026-10-18T03:00:00Z'));
+  assert.equal(next.toISOString(), '2026-10-18T05:00:00.000Z');
+});
+
+test('computeNextRunAt: weekly lands on the requested weekday', () => {
+  // 2026-10-18 is a Sunday; next Monday (1) is the 19th
+  const next = computeNextRunAt({ frequency: 'weekly', day_of_week: 1, send_time: '08:30', timezone: LA }, new Date('2026-10-18T20:00:00Z'));
+  assert.equal(next.toISOString(), '2026-10-19T15:30:00.000Z');
+});
+
+test('computeNextRunAt: weekly on the same weekday after send time jumps a week', () => {
+  const next = computeNextRunAt({ frequency: 'weekly', day_of_week: 0, send_time: '08:00', timezone: LA }, new Date('2026-10-18T20:00:00Z'));
+  assert.equal(next.toISOString(), '2026-10-25T15:00:00.000Z');
+});
+
+test('computeNextRunAt: keeps wall-clock time across the DST change', () => {
+  // DST ends 2026-11-01; 07:00 PST is 15:00Z
+  const next = computeNextRunAt({ frequency: 'daily', send_time: '07:00', timezone: LA }, new Date('2026-11-01T00:00:00Z'));
+  assert.equal(next.toISOString(), '2026-11-01T15:00:00.000Z');
+});
+
+test('computeNextRunAt: monthly clamps to the last day of short months', () => {
+  const next = computeNextRunAt({ frequency: 'monthly', day_of_month: 31, send_time: '07:00', timezone: LA }, new Date('2026-11-01T00:00:00Z'));
+  assert.equal(next.toISOString(), '2026-11-30T15:00:00.000Z');
+});
+
+test('computeNextRunAt: monthly rolls over the year boundary', () => {
+  const next = computeNextRunAt({ frequency: 'monthly', day_of_month: 1, send_time: '07:00', timezone: LA }, new Date('2026-12-15T00:00:00Z'));
+  assert.equal(next.toISOString(), '2027-01-01T15:00:00.000Z');
+});
+
+// ----- validateSchedule -----
+
+const VALID = {
+  frequency: 'weekly',
+  day_of_week: 1,
+  send_time: '07:00',
+  timezone: LA,
+  formats: ['pdf'],
+  recipient_employee_ids: ['emp-1'],
+};
+
+test('validateSchedule: accepts a complete weekly schedule', () => {
+  assert.equal(validateSchedule(VALID), null);
+});
+
+test('validateSchedule: rejects missing weekday, bad time, bad timezone', () => {
+  assert.match(validateSchedule({ ...VALID, day_of_week: null }), /day of the week/);
+  assert.match(validateSchedule({ ...VALID, send_time: '7am' }), /HH:MM/);
+  assert.match(validateSchedule({ ...VALID, timezone: 'Mars/Olympus' }), /Unknown timezone/);
+});
+
+test('validateSchedule: needs a format and at least one recipient', () => {
+  assert.match(validateSchedule({ ...VALID, formats: ['xlsx'] }), /format/);
+  assert.match(validateSchedule({ ...VALID, recipient_employee_ids: [] }), /recipient/);
+  assert.equal(validateSchedule({ ...VALID, recipient_employee_ids: [], recipient_client_ids: ['u-1'] }), null);
+});
+
+// ----- renderers -----
+
+const RESULT = {
+  columns: [
+    { key: 'title', label: 'Title', type: 'string' },
+    { key: 'total', label: 'Total', type: 'currency' },
+    { key: 'paid', label: 'Paid', type: 'boolean' },
+  ],
+  rows: [
+    { title: 'Printer, "jammed"', total: '125.5', paid: true },
+    { title: null, total: 0, paid: false },
+  ],
+  rowCount: 2,
+  grouped: false,
+};
+
+test('renderReportCsv: header labels, quoting and value formatting', () => {
+  const csv = renderReportCsv(RESULT);
+  assert.equal(csv, 'Title,Total,Paid\r\n"Printer, ""jammed""",125.50,Yes\r\n,0.00,No\r\n');
+});
+
+test('renderReportPdf: produces a PDF buffer', async () => {
+  const pdf = await renderReportPdf({ name: 'Open tickets', description: null }, RESULT, new Date('2026-10-18T00:00:00Z'));
+  assert.ok(Buffer.isBuffer(pdf));
+  assert.equal(pdf.subarray(0, 5).toString(), '%PDF-');
+});
@@ -0,0 +1,202 @@
+/**
+ * Task checklists inside service requests.
+ *
+ * A request's checklist is copied from its template when the request is
+ * opened, and employees can add, remove and reorder steps afterwards. Only
+ * the technician assigned to the request checks steps off; each check
+ * records who and when. Closing a request with required steps unchecked
+ * needs an override reason (assertChecklistComplete), which is kept on the
+ * request.
+ */
+import { validateChecklistItems } from './serviceRequestTemplateService.js';
+
+const MAX_OVERRIDE_REASON_LENGTH = 1000;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function forbidden(message) {
+  const error = new Error(message);
+  error.statusCode = 403;
+  return error;
+}
+
+function notFound(message) {
+  const error = new Error(message);
+  error.statusCode = 404;
+  return error;
+}
+
+/**
+ * The request's checklist in order, with who checked each step off.
+ */
+export async function listChecklist(db, serviceRequestId) {
+  const result = await db.query(
+    `SELECT ci.id, ci.item_text, ci.is_required, ci.sort_order, ci.completed_at,
+            ci.completed_by_employee_id,
+            NULLIF(TRIM(CONCAT(e.first_name, ' ', e.last_name)), '') AS completed_by_name,
+            ci.created_at
+       FROM service_request_checklist_items ci
+       LEFT JOIN employees e ON e.id = ci.completed_by_employee_id
+      WHERE ci.service_request_id = $1
+      ORDER BY ci.sort_order, ci.created_at`,
+    [serviceRequestId]
+  );
+  return result.rows;
+}
+
+/**
+ * The request's assignee and whether it is closed, for the change checks.
+ */
+async function loadRequest(db, serviceRequestId) {
+  const result = await db.query(
+    `SELECT sr.id, sr.assigned_to_employee_id, COALESCE(srs.is_final_status, false) AS is_final_status
+       FROM service_requests sr
+       LEFT JOIN service_request_statuses srs ON srs.id = sr.status_id
+      WHERE sr.id = $1 AND sr.soft_delete = false`,
+    [serviceRequestId]
+  );
+  const request = result.rows[0];
+  if (!request) throw notFound('Service request not found');
+  if (request.is_final_status) throw badRequest('The checklist of a closed request can no longer change');
+  return request;
+}
+
+/**
+ * Append steps to the end of the request's checklist. `items` is
+ * [{ text, required }], as on templates.
+ *
+ * @returns {Promise<number>} how many steps were added
+ */
+export async function addChecklistItems(db, serviceRequestId, items, employeeId = null) {
+  const checklist = validateChecklistItems(items);
+  if (checklist.length === 0) return 0;
+
+  const last = await db.query(
+    'SELECT COALESCE(MAX(sort_order), -1) AS sort_order FROM service_request_checklist_items WHERE service_request_id = $1',
+    [serviceRequestId]
+  );
+  let sortOrder = Number(last.rows[0]?.sort_order ?? -1);
+
+  for (const item of checklist) {
+    sortOrder += 1;
+    await db.query(
+      `INSERT INTO service_request_checklist_items
+         (service_request_id, item_text, is_required, sort_order, created_by_employee_id)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [serviceRequestId, item.text, item.required, sortOrder, employeeId]
+    );
+  }
+  return checklist.length;
+}
+
+/**
+ * Add steps to an open request by hand (or from another template).
+ */
+export async function addItemsToRequest(db, serviceRequestId, items, employeeId) {
+  await loadRequest(db, serviceRequestId);
+  const added = await addChecklistItems(db, serviceRequestId, items, employeeId);
+  if (added === 0) throw badRequest('Enter the checklist step');
+  return added;
+}
+
+/**
+ * Check a step off (or uncheck it). Only the request's assigned technician
+ * may.
+ */
+export async function setItemChecked(db, serviceRequestId, itemId, checked, employeeId) {
+  if (typeof checked !== 'boolean') throw badRequest('checked must be true or false');
+  const request = await loadRequest(db, serviceRequestId);
+  if (!request.assigned_to_employee_id || request.assigned_to_employee_id !== employeeId) {
+    throw forbidden('Only the technician assigned to this request can check off its steps');
+  }
+
+  const result = await db.query(
+    `UPDATE service_request_checklist_items
+        SET completed_at = CASE WHEN $3 THEN COALESCE(completed_at, NOW()) END,
+            completed_by_employee_id = CASE WHEN $3 THEN COALESCE(completed_by_employee_id, $4) END,
+            updated_at = NOW()
+      WHERE id = $1 AND service_request_id = $2
+      RETURNING id`,
+    [itemId, serviceRequestId, checked, employeeId]
+  );
+  if (!result.rows[0]) throw notFound('Checklist step not found');
+}
+
+/**
+ * Put the steps in the order of `itemIds`, which must list every step.
+ */
+export async function reorderChecklist(db, serviceRequestId, itemIds) {
+  if (!Array.isArray(itemIds) || itemIds.length === 0) throw badRequest('itemIds must list the checklist steps');
+  await loadRequest(db, serviceRequestId);
+
+  const current = await db.query(
+    'SELECT id FROM service_request_checklist_items WHERE service_request_id = $1',
+    [serviceRequestId]
+  );
+  const known = new Set(current.rows.map(row => row.id));
+  if (itemIds.length !== known.size || new Set(itemIds).size !== known.size || !itemIds.every(id => known.has(id))) {
+    throw badRequest('itemIds must list every checklist step once');
+  }
+
+  for (const [index, itemId] of itemIds.entries()) {
+    await db.query(
+      'UPDATE service_request_checklist_items SET sort_order = $3, updated_at = NOW() WHERE id = $1 AND service_request_id = $2',
+      [itemId, serviceRequestId, index]
+    );
+  }
+}
+
+export async function deleteChecklistItem(db, serviceRequestId, itemId) {
+  await loadRequest(db, serviceRequestId);
+  const result = await db.query(
+    'DELETE FROM service_request_checklist_items WHERE id = $1 AND service_request_id = $2 RETURNING id',
+    [itemId, serviceRequestId]
+  );
+  if (!result.rows[0]) throw notFound('Checklist step not found');
+}
+
+/**
+ * Called before a request is closed. Throws (400, with `incompleteItems`)
+ * when required steps are unchecked and no override reason was given.
+ *
+ * @returns {Promise<{incompleteItems: string[], overrideReason: string|null}>}
+ *   the unchecked required steps, and the reason to record when there are any
+ */
+export async function assertChecklistComplete(db, serviceRequestId, overrideReason = null) {
+  const result = await db.query(
+    `SELECT item_text
+       FROM service_request_checklist_items
+      WHERE service_request_id = $1 AND is_required = true AND completed_at IS NULL
+      ORDER BY sort_order`,
+    [serviceRequestId]
+  );
+  const incompleteItems = result.rows.map(row => row.item_text);
+  if (incompleteItems.length === 0) return { incompleteItems, overrideReason: null };
+
+  const reason = typeof overrideReason === 'string' ? overrideReason.trim() : '';
+  if (!reason) {
+    const error = badRequest(
+      `${incompleteItems.length} required checklist step${incompleteItems.length === 1 ? ' is' : 's are'} not checked off; give a reason to close anyway`
+    );
+    error.incompleteItems = incompleteItems;
+    throw error;
+  }
+  if (reason.length > MAX_OVERRIDE_REASON_LENGTH) {
+    throw badRequest(`The override reason must be ${MAX_OVERRIDE_REASON_LENGTH} characters or fewer`);
+  }
+  return { incompleteItems, overrideReason: reason };
+}
+
+export default {
+  listChecklist,
+  addChecklistItems,
+  addItemsToRequest,
+  setItemChecked,
+  reorderChecklist,
+  deleteChecklistItem,
+  assertChecklistComplete
+};
@@ -0,0 +1,110 @@
+// Tests for serviceRequestChecklistService — who may check steps off,
+// appending and reordering steps, and the close-time check for unchecked
+// required steps, against a fake db.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  addChecklistItems,
+  addItemsToRequest,
+  setItemChecked,
+  reorderChecklist,
+  assertChecklistComplete
+} from './serviceRequestChecklistService.js';
+
+function fakeDb(handlers) {
+  const calls = [];
+  return {
+    calls,
+    async query(sql, params = []) {
+      calls.push({ sql, params });
+      for (const [pattern, rows] of handlers) {
+        if (pattern.test(sql)) return { rows: typeof rows === 'function' ? rows(params) : rows };
+      }
+      return { rows: [] };
+    }
+  };
+}
+
+const OPEN_REQUEST = [/FROM service_requests sr/, [{ id: 'sr-1', assigned_to_employee_id: 'emp-tech', is_final_status: false }]];
+const CLOSED_REQUEST = [/FROM service_requests sr/, [{ id: 'sr-1', assigned_to_employee_id: 'emp-tech', is_final_status: true }]];
+
+test('addChecklistItems appends after the last step and skips blank rows', async () => {
+  const db = fakeDb([[/MAX\(sort_order\)/, [{ sort_order: 2 }]]]);
+
+  const added = await addChecklistItems(db, 'sr-1', [
+    { text: 'Back up the mailbox', required: true },
+    { text: '   ' },
+    { text: 'Confirm with the user' }
+  ], 'emp-1');
+
+  assert.equal(added, 2);
+  const inserts = db.calls.filter(call => /INSERT INTO service_request_checklist_items/.test(call.sql));
+  assert.deepEqual(inserts.map(call => call.params), [
+    ['sr-1', 'Back up the mailbox', true, 3, 'emp-1'],
+    ['sr-1', 'Confirm with the user', false, 4, 'emp-1']
+  ]);
+});
+
+test('addItemsToRequest refuses closed requests and empty input', async () => {
+  await assert.rejects(
+    addItemsToRequest(fakeDb([CLOSED_REQUEST]), 'sr-1', [{ text: 'Late step' }], 'emp-1'),
+    { statusCode: 400, message: /closed request/ }
+  );
+  await assert.rejects(
+    addItemsToRequest(fakeDb([OPEN_REQUEST]), 'sr-1', [{ text: '' }], 'emp-1'),
+    { statusCode: 400, message: 'Enter the checklist step' }
+  );
+  await assert.rejects(
+    addItemsToRequest(fakeDb([]), 'sr-missing', [{ text: 'Step' }], 'emp-1'),
+    { statusCode: 404 }
+  );
+});
+
+test('only the assigned technician checks steps off', async () => {
+  const db = fakeDb([OPEN_REQUEST, [/UPDATE service_request_checklist_items/, [{ id: 'item-1' }]]]);
+
+  await assert.rejects(
+    setItemChecked(db, 'sr-1', 'item-1', true, 'emp-other'),
+    { statusCode: 403 }
+  );
+  assert.equal(db.calls.some(call => /UPDATE/.test(call.sql)), false);
+
+  await setItemChecked(db, 'sr-1', 'item-1', true, 'emp-tech');
+  const update = db.calls.find(call => /UPDATE service_request_checklist_items/.test(call.sql));
+  assert.deepEqual(update.params, ['item-1', 'sr-1', true, 'emp-tech']);
+
+  await assert.rejects(setItemChecked(db, 'sr-1', 'item-1', 'yes', 'emp-tech'), { statusCode: 400 });
+});
+
+test('reorderChecklist needs every step exactly once', async () => {
+  const db = fakeDb([OPEN_REQUEST, [/SELECT id FROM service_request_checklist_items/, [{ id: 'a' }, { id: 'b' }, { id: 'c' }]]]);
+
+  await assert.rejects(reorderChecklist(db, 'sr-1', ['a', 'b']), { statusCode: 400 });
+  await assert.rejects(reorderChecklist(db, 'sr-1', ['a', 'a', 'b']), { statusCode: 400 });
+  await assert.rejects(reorderChecklist(db, 'sr-1', ['a', 'b', 'x']), { statusCode: 400 });
+
+  await reorderChecklist(db, 'sr-1', ['c', 'a', 'b']);
+  const updates = db.calls.filter(call => /SET sort_order/.test(call.sql));
+  assert.deepEqual(updates.map(call => call.params), [['c', 'sr-1', 0], ['a', 'sr-1', 1], ['b', 'sr-1', 2]]);
+});
+
+test('assertChecklistComplete needs a reason while required steps are unchecked', async () => {
+  const done = await assertChecklistComplete(fakeDb([]), 'sr-1');
+  assert.deepEqual(done, { incompleteItems: [], overrideReason: null });
+
+  const db = fakeDb([[/completed_at IS NULL/, [{ item_text: 'Test the backup' }, { item_text: 'Get sign-off' }]]]);
+  await assert.rejects(assertChecklistComplete(db, 'sr-1', '  '), error => {
+    assert.equal(error.statusCode, 400);
+    assert.deepEqual(error.incompleteItems, ['Test the backup', 'Get sign-off']);
+    return true;
+  });
+
+  const overridden = await assertChecklistComplete(db, 'sr-1', ' Client declined the sign-off ');
+  assert.deepEqual(overridden, {
+    incompleteItems: ['Test the backup', 'Get sign-off'],
+    overrideReason: 'Client declined the sign-off'
+  });
+
+  await assert.rejects(assertChecklistComplete(db, 'sr-1', 'x'.repeat(1001)), { statusCode: 400 });
+});
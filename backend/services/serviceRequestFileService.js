@@ -0,0 +1,432 @@
+/**
+ * Storing files on a service request: the client portal's upload and
+ * attachments of inbound email take the same path. Each file is virus
+ * scanned (infected files are quarantined), counted against the business's
+ * storage quota, filed in the request's folder under "Service Requests",
+ * and the upload is noted on the request.
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import { fileURLToPath } from 'url';
+import { getPool } from '../config/database.js';
+import virusScanService from './virusScanService.js';
+import quotaManagementService from './quotaManagementService.js';
+import { validateFileUpload } from '../utils/inputValidation.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const CLIENT_UPLOADS_DIR = path.join(__dirname, '..', 'uploads', 'clients');
+
+// Content types clients may attach to a service request
+export const ALLOWED_UPLOAD_TYPES = [
+  'application/pdf',
+  'text/plain',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'image/jpeg',
+  'image/jpg', // Some systems use image/jpg instead of image/jpeg
+  'image/png',
+  'image/gif',
+  'image/webp',
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/gzip'
+];
+
+export async function ensureDirectoryExists(dirPath) {
+  try {
+    await fs.access(dirPath);
+  } catch {
+    await fs.mkdir(dirPath, { recursive: true });
+    console.log(`📁 Created directory: ${dirPath}`);
+  }
+}
+
+/**
+ * A stored filename for an upload: timestamp and UUID, keeping the extension.
+ */
+export function secureFilename(originalName) {
+  return `${Date.now()}_${crypto.randomUUID()}${path.extname(originalName)}`;
+}
+
+/**
+ * Write in-memory files (email attachments) to the business's upload
+ * directory, as multer does for the portal. Returns them in multer's shape.
+ *
+ * @param {string} businessId
+ * @param {Array<{filename: string, contentType: string, content: Buffer}>} attachments
+ */
+export async function writeUploadedBuffers(businessId, attachments) {
+  const businessDir = path.join(CLIENT_UPLOADS_DIR, businessId);
+  await ensureDirectoryExists(businessDir);
+
+  const files = [];
+  for (const attachment of attachments) {
+    const filename = secureFilename(attachment.filename);
+    const filePath = path.join(businessDir, filename);
+    await fs.writeFile(filePath, attachment.content);
+    files.push({
+      path: filePath,
+      filename,
+      originalname: attachment.filename,
+      mimetype: attachment.contentType,
+      size: attachment.content.length
+    });
+  }
+  return files;
+}
+
+/**
+ * Ensures the folder structure exists for organizing service request files
+ * Creates "Service Requests" parent folder and SR-specific subfolder if needed
+ * @param {string} businessId - Business UUID
+ * @param {string} requestNumber - Service request number (e.g., "SR-2025-00001")
+ * @returns {Promise<string>} - Folder ID for the service request
+ */
+export async function ensureServiceRequestFolder(businessId, requestNumber) {
+  const pool = await getPool();
+
+  // Step 1: Ensure "Service Requests" parent folder exists
+  let parentFolderId;
+  const parentFolderResult = await pool.query(
+    `SELECT id FROM t_client_folders
+     WHERE business_id = $1
+       AND folder_name = 'Service Requests'
+       AND parent_folder_id IS NULL
+       AND soft_delete = false
+       LIMIT 1`,
+    [businessId]
+  );
+
+  if (parentFolderResult.rows.length > 0) {
+    parentFolderId = parentFolderResult.rows[0].id;
+  } else {
+    // Create "Service Requests" parent folder
+    const createParentResult = await pool.query(
+      `INSERT INTO t_client_folders (
+        business_id,
+        parent_folder_id,
+        folder_name,
+        folder_description,
+        folder_color,
+        sort_order,
+        is_system_folder
+      ) VALUES ($1, NULL, $2, $3, $4, 0, true)
+      RETURNING id`,
+      [
+        businessId,
+        'Service Requests',
+        'Automatically organized files from service requests',
+        '#3B82F6'
+      ]
+    );
+    parentFolderId = createParentResult.rows[0].id;
+    console.log(`📁 Created "Service Requests" parent folder for business ${businessId}`);
+  }
+
+  // Step 2: Ensure service request subfolder exists
+  let srFolderId;
+  const srFolderResult = await pool.query(
+    `SELECT id FROM t_client_folders
+     WHERE business_id = $1
+       AND parent_folder_id = $2
+       AND folder_name = $3
+       AND soft_delete = false
+       LIMIT 1`,
+    [businessId, parentFolderId, requestNumber]
+  );
+
+  if (srFolderResult.rows.length > 0) {
+    srFolderId = srFolderResult.rows[0].id;
+  } else {
+    // Create service request subfolder
+    const createSrFolderResult = await pool.query(
+      `INSERT INTO t_client_folders (
+        business_id,
+        parent_folder_id,
+        folder_name,
+        folder_description,
+        folder_color,
+        sort_order,
+        is_system_folder
+      ) VALUES ($1, $2, $3, $4, $5, 0, true)
+      RETURNING id`,
+      [
+        businessId,
+        parentFolderId,
+        requestNumber,
+        `Files for service request ${requestNumber}`,
+        '#10B981'
+      ]
+    );
+    srFolderId = createSrFolderResult.rows[0].id;
+    console.log(`📁 Created folder for service request ${requestNumber}`);
+  }
+
+  return srFolderId;
+}
+
+const removeFile = (file) => fs.unlink(file.path).catch(err => console.error('Failed to cleanup file:', err));
+
+/**
+ * Store uploaded files (already on disk, multer's shape) on a service
+ * request for a client user.
+ *
+ * @param {Object} params
+ * @param {Object} params.serviceRequest - { id, request_number }
+ * @param {string} params.businessId
+ * @param {string} params.userId - the client user the files are from
+ * @param {string} params.uploadedBy - their email, kept with the file
+ * @param {Array} params.files - { path, filename, originalname, mimetype, size }
+ * @param {string} [params.ipAddress]
+ * @param {string} [params.userAgent]
+ * @returns {Promise<{quotaExceeded: Object|null, uploadedFiles: Array, failedFiles: Array}>}
+ *   When the quota would be exceeded nothing is stored and quotaExceeded is
+ *   the quota check.
+ */
+export async function storeServiceRequestFiles({
+  serviceRequest,
+  businessId,
+  userId,
+  uploadedBy,
+  files,
+  ipAddress = null,
+  userAgent = null
+}) {
+  const pool = await getPool();
+  const uploadedFiles = [];
+  const failedFiles = [];
+  const serviceRequestId = serviceRequest.id;
+  const requestNumber = serviceRequest.request_number;
+
+  // Ensure folder structure exists for this service request
+  const serviceRequestFolderId = await ensureServiceRequestFolder(businessId, requestNumber);
+  console.log(`📁 Files will be organized in folder: ${requestNumber}`);
+
+  // Calculate total upload size
+  const totalSizeBytes = files.reduce((sum, file) => sum + file.size, 0);
+
+  console.log(`📤 Processing ${files.length} file(s) upload for service request ${requestNumber}`);
+
+  // Check quota
+  const quotaCheck = await quotaManagementService.checkQuotaAvailability(
+    businessId,
+    totalSizeBytes,
+    null,
+    userId
+  );
+
+  if (!quotaCheck.canUpload) {
+    await Promise.all(files.map(removeFile));
+    return { quotaExceeded: quotaCheck, uploadedFiles, failedFiles };
+  }
+
+  // Process each file
+  for (const file of files) {
+    try {
+      console.log(`🔍 Processing file: ${file.originalname} (${quotaManagementService.formatBytes(file.size)})`);
+
+      // Perform virus scan
+      const scanResult = await virusScanService.scanFile(file.path, {
+        originalName: file.originalname,
+        size: file.size,
+        userId: userId,
+        businessId: businessId,
+        serviceRequestId: serviceRequestId
+      });
+
+      if (scanResult.isInfected) {
+        await virusScanService.quarantineFile(file.path, scanResult);
+
+        failedFiles.push({
+          originalName: file.originalname,
+          error: `File infected with virus: ${scanResult.virusName}`,
+          scanId: scanResult.scanId
+        });
+
+        console.log(`🚨 Infected file quarantined: ${file.originalname}`);
+        continue;
+      }
+
+      if (!scanResult.scanSuccess) {
+        await removeFile(file);
+
+        failedFiles.push({
+          originalName: file.originalname,
+          error: `Virus scan failed: ${scanResult.errorMessage}`,
+          scanId: scanResult.scanId
+        });
+
+        console.log(`❌ Scan failed for file: ${file.originalname}`);
+        continue;
+      }
+
+      // File is clean, record in database
+      const fileData = {
+        businessId: businessId,
+        serviceLocationId: null,
+        userId: userId,
+        fileName: file.filename,
+        originalName: file.originalname,
+        fileSizeBytes: file.size,
+        mimeType: file.mimetype,
+        filePath: file.path,
+        categoryId: null,
+        description: '',
+        isPublic: false,
+        metadata: {
+          scanId: scanResult.scanId,
+          uploadedBy: uploadedBy,
+          uploadIp: ipAddress,
+          userAgent: userAgent,
+          serviceRequestId: serviceRequestId
+        },
+        ipAddress: ipAddress,
+        userAgent: userAgent
+      };
+
+      const uploadResult = await quotaManagementService.recordFileUpload(fileData);
+
+      if (uploadResult.success) {
+        // Link file to service request and assign to the appropriate folder
+        await pool.query(
+          'UPDATE t_client_files SET service_request_id = $1, folder_id = $2 WHERE id = $3',
+          [serviceRequestId, serviceRequestFolderId, uploadResult.fileId]
+        );
+
+        uploadedFiles.push({
+          fileId: uploadResult.fileId,
+          originalName: file.originalname,
+          fileName: file.filename,
+          size: file.size,
+          mimeType: file.mimetype,
+          scanId: scanResult.scanId,
+          scanStatus: scanResult.isInfected ? 'infected' : 'clean',
+          uploadedAt: uploadResult.createdAt
+        });
+
+        console.log(`✅ File uploaded successfully: ${file.originalname}`);
+      } else {
+        await removeFile(file);
+
+        failedFiles.push({
+          originalName: file.originalname,
+          error: `Database error: ${uploadResult.error}`
+        });
+      }
+
+    } catch (error) {
+      console.error(`❌ Error processing file ${file.originalname}:`, error);
+
+      await removeFile(file);
+
+      failedFiles.push({
+        originalName: file.originalname,
+        error: error.message
+      });
+    }
+  }
+
+  // Create automatic note if any files were uploaded successfully
+  if (uploadedFiles.length > 0) {
+    const userQuery = await pool.query(
+      'SELECT first_name, last_name FROM users WHERE id = $1',
+      [userId]
+    );
+    const userName = userQuery.rows[0] ? `${userQuery.rows[0].first_name} ${userQuery.rows[0].last_name}` : 'User';
+
+    const now = new Date();
+    const utcTime = now.toISOString().replace('T', ' ').substring(0, 19) + ' UTC';
+    const localTime = now.toLocaleString('en-US', {
+      timeZone: 'America/Los_Angeles',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hour12: false
+    }) + ' PST';
+
+    const fileList = uploadedFiles.map(f => `- ${f.originalName} (${quotaManagementService.formatBytes(f.size)})`).join('\n');
+    const allClean = uploadedFiles.every(f => f.scanStatus === 'clean');
+    const virusStatus = allClean ? '✅ Clean' : '⚠️ Some files flagged';
+
+    const noteText = `📎 **${userName}** uploaded **${uploadedFiles.length}** file(s) on ${utcTime} (${localTime})
+
+**Files:**
+${fileList}
+
+**Virus scan:** ${virusStatus}`;
+
+    await pool.query(`
+      INSERT INTO service_request_notes (
+        service_request_id,
+        note_text,
+        note_type,
+        created_by_type,
+        created_by_id,
+        created_by_name,
+        is_visible_to_client
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+    `, [
+      serviceRequestId,
+      noteText,
+      'file_upload',
+      'client',
+      userId,
+      userName,
+      true
+    ]);
+
+    console.log(`📝 Created auto-note for ${uploadedFiles.length} uploaded file(s)`);
+  }
+
+  return { quotaExceeded: null, uploadedFiles, failedFiles };
+}
+
+/**
+ * Store in-memory attachments (from inbound email) on a service request:
+ * they are checked like portal uploads, written to disk and then go through
+ * storeServiceRequestFiles. Attachments that fail the checks are returned
+ * in failedFiles.
+ *
+ * @param {Object} params - as storeServiceRequestFiles, with `attachments`
+ *   ({ filename, contentType, content }) instead of `files`
+ */
+export async function storeAttachmentBuffers({ attachments, businessId, ...params }) {
+  const accepted = [];
+  const failedFiles = [];
+  for (const attachment of attachments) {
+    const validation = validateFileUpload({
+      originalname: attachment.filename,
+      mimetype: attachment.contentType,
+      size: attachment.content.length
+    }, 'attachments');
+    if (!ALLOWED_UPLOAD_TYPES.includes(attachment.contentType)) {
+      failedFiles.push({ originalName: attachment.filename, error: `File type ${attachment.contentType} not allowed` });
+    } else if (!validation.isValid) {
+      failedFiles.push({ originalName: attachment.filename, error: validation.error });
+    } else {
+      accepted.push(attachment);
+    }
+  }
+  if (accepted.length === 0) return { quotaExceeded: null, uploadedFiles: [], failedFiles };
+
+  const files = await writeUploadedBuffers(businessId, accepted);
+  const stored = await storeServiceRequestFiles({ ...params, businessId, files });
+  return { ...stored, failedFiles: [...failedFiles, ...stored.failedFiles] };
+}
+
+export default {
+  CLIENT_UPLOADS_DIR,
+  ALLOWED_UPLOAD_TYPES,
+  ensureServiceRequestFolder,
+  writeUploadedBuffers,
+  storeServiceRequestFiles,
+  storeAttachmentBuffers
+};
@@ -0,0 +1,355 @@
+/**
+ * Parent/child and linked service requests.
+ *
+ * A big job (office move, new site rollout) is a parent request with the
+ * individual tickets as its children; the parent shows a rollup of the
+ * children's statuses and the time logged across all of them. Requests can
+ * also be linked as "related to", "duplicate of" or "blocked by" another
+ * request, and a duplicate can be merged into the request it duplicates:
+ * its notes and files move over, its children are re-parented and it is
+ * closed.
+ *
+ * Relations never cross businesses. Changes take request numbers, as typed
+ * by the employee; merges should run inside the caller's transaction.
+ */
+
+export const LINK_TYPES = ['related', 'duplicate_of', 'blocked_by'];
+
+const MAX_PARENT_DEPTH = 50;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function notFound(message) {
+  const error = new Error(message);
+  error.statusCode = 404;
+  return error;
+}
+
+const REQUEST_COLUMNS = `sr.id, sr.request_number, sr.title, sr.business_id, sr.parent_request_id,
+  sr.merged_into_request_id, COALESCE(srs.name, 'Unknown') AS status,
+  COALESCE(srs.is_final_status, false) AS is_final_status`;
+
+async function findRequest(db, serviceRequestId) {
+  const result = await db.query(
+    `SELECT ${REQUEST_COLUMNS}
+       FROM service_requests sr
+       LEFT JOIN service_request_statuses srs ON srs.id = sr.status_id
+      WHERE sr.id = $1 AND sr.soft_delete = false`,
+    [serviceRequestId]
+  );
+  if (!result.rows[0]) throw notFound('Service request not found');
+  return result.rows[0];
+}
+
+/**
+ * The other end of a relation, by request number, in the same business.
+ */
+async function findOtherRequest(db, request, requestNumber) {
+  const number = typeof requestNumber === 'string' ? requestNumber.trim().toUpperCase() : '';
+  if (!number) throw badRequest('A request number is required');
+
+  const result = await db.query(
+    `SELECT ${REQUEST_COLUMNS}
+       FROM service_requests sr
+       LEFT JOIN service_request_statuses srs ON srs.id = sr.status_id
+      WHERE sr.request_number = $1 AND sr.soft_delete = false`,
+    [number]
+  );
+  const other = result.rows[0];
+  if (!other || other.business_id !== request.business_id) {
+    throw notFound(`Service request ${number} not found for this business`);
+  }
+  if (other.id === request.id) throw badRequest('A request cannot be related to itself');
+  return other;
+}
+
+const summarize = (row) => ({
+  id: row.id,
+  request_number: row.request_number,
+  title: row.title,
+  status: row.status,
+  is_final_status: row.is_final_status
+});
+
+/**
+ * Minutes logged per request (open timers count up to now).
+ */
+async function loggedMinutes(db, serviceRequestIds) {
+  const result = await db.query(
+    `SELECT service_request_id,
+            SUM(EXTRACT(EPOCH FROM (COALESCE(end_time, NOW()) - start_time)) / 60) AS minutes
+       FROM service_request_time_entries
+      WHERE service_request_id = ANY($1)
+      GROUP BY service_request_id`,
+    [serviceRequestIds]
+  );
+  return new Map(result.rows.map(row => [row.service_request_id, Math.round(Number(row.minutes) || 0)]));
+}
+
+/**
+ * Status counts and time for a parent: its children by status, and the
+ * minutes logged on the parent itself plus all of its children.
+ */
+export function rollupChildren(children, ownMinutes) {
+  const byStatus = new Map();
+  for (const child of children) {
+    byStatus.set(child.status, (byStatus.get(child.status) || 0) + 1);
+  }
+  const closedCount = children.filter(child => child.is_final_status).length;
+  const childMinutes = children.reduce((sum, child) => sum + child.logged_minutes, 0);
+
+  return {
+    childCount: children.length,
+    closedCount,
+    openCount: children.length - closedCount,
+    byStatus: [...byStatus].map(([status, count]) => ({ status, count })),
+    ownMinutes,
+    childMinutes,
+    totalMinutes: ownMinutes + childMinutes
+  };
+}
+
+/**
+ * Everything related to a request: its parent, its children with the
+ * rollup, its links (both directions) and the request it was merged into.
+ */
+export async function getRelations(db, serviceRequestId) {
+  const request = await findRequest(db, serviceRequestId);
+
+  const parent = request.parent_request_id
+    ? await findRequest(db, request.parent_request_id).catch(() => null)
+    : null;
+  const mergedInto = request.merged_into_request_id
+    ? await findRequest(db, request.merged_into_request_id).catch(() => null)
+    : null;
+
+  const childResult = await db.query(
+    `SELECT ${REQUEST_COLUMNS},
+            NULLIF(TRIM(CONCAT(e.first_name, ' ', e.last_name)), '') AS assigned_technician
+       FROM service_requests sr
+       LEFT JOIN service_request_statuses srs ON srs.id = sr.status_id
+       LEFT JOIN employees e ON e.id = sr.assigned_to_employee_id
+      WHERE sr.parent_request_id = $1 AND sr.soft_delete = false
+      ORDER BY sr.created_at`,
+    [request.id]
+  );
+  const minutes = await loggedMinutes(db, [request.id, ...childResult.rows.map(row => row.id)]);
+  const children = childResult.rows.map(row => ({
+    ...summarize(row),
+    assigned_technician: row.assigned_technician,
+    logged_minutes: minutes.get(row.id) || 0
+  }));
+
+  const linkResult = await db.query(
+    `SELECT l.id, l.link_type, l.created_at,
+            CASE WHEN l.source_request_id = $1 THEN 'outgoing' ELSE 'incoming' END AS direction,
+            ${REQUEST_COLUMNS}
+       FROM service_request_links l
+       JOIN service_requests sr
+         ON sr.id = CASE WHEN l.source_request_id = $1 THEN l.target_request_id ELSE l.source_request_id END
+       LEFT JOIN service_request_statuses srs ON srs.id = sr.status_id
+      WHERE (l.source_request_id = $1 OR l.target_request_id = $1) AND sr.soft_delete = false
+      ORDER BY l.created_at`,
+    [request.id]
+  );
+  const links = linkResult.rows.map(row => ({
+    id: row.id,
+    link_type: row.link_type,
+    direction: row.direction,
+    created_at: row.created_at,
+    request: summarize(row)
+  }));
+
+  return {
+    parent: parent && summarize(parent),
+    children,
+    rollup: rollupChildren(children, minutes.get(request.id) || 0),
+    links,
+    mergedInto: mergedInto && summarize(mergedInto)
+  };
+}
+
+/**
+ * Make the request a child of another one (by number), or a top-level
+ * request when `parentRequestNumber` is empty.
+ */
+export async function setParent(db, { serviceRequestId, parentRequestNumber }) {
+  const request = await findRequest(db, serviceRequestId);
+
+  if (!parentRequestNumber) {
+    await db.query(
+      'UPDATE service_requests SET parent_request_id = NULL, updated_at = NOW() WHERE id = $1',
+      [request.id]
+    );
+    return null;
+  }
+
+  const parent = await findOtherRequest(db, request, parentRequestNumber);
+  if (parent.merged_into_request_id) {
+    throw badRequest(`${parent.request_number} was merged into another request`);
+  }
+
+  // Walk up from the new parent; meeting this request would make a cycle
+  let ancestorId = parent.parent_request_id;
+  for (let depth = 0; ancestorId && depth < MAX_PARENT_DEPTH; depth++) {
+    if (ancestorId === request.id) {
+      throw badRequest(`${parent.request_number} is already under this request`);
+    }
+    const ancestor = await db.query(
+      'SELECT parent_request_id FROM service_requests WHERE id = $1',
+      [ancestorId]
+    );
+    ancestorId = ancestor.rows[0]?.parent_request_id || null;
+  }
+
+  await db.query(
+    'UPDATE service_requests SET parent_request_id = $2, updated_at = NOW() WHERE id = $1',
+    [request.id, parent.id]
+  );
+  return summarize(parent);
+}
+
+/**
+ * Link the request to another one: "related" (either way round),
+ * "duplicate_of" or "blocked_by" (this request is the duplicate / the
+ * blocked one).
+ */
+export async function addLink(db, { serviceRequestId, targetRequestNumber, linkType, employeeId }) {
+  if (!LINK_TYPES.includes(linkType)) {
+    throw badRequest(`Link type must be one of: ${LINK_TYPES.join(', ')}`);
+  }
+  const request = await findRequest(db, serviceRequestId);
+  const target = await findOtherRequest(db, request, targetRequestNumber);
+
+  // The reverse of an existing link would contradict or repeat it
+  const reverse = await db.query(
+    `SELECT link_type FROM service_request_links
+      WHERE source_request_id = $1 AND target_request_id = $2 AND link_type = $3`,
+    [target.id, request.id, linkType]
+  );
+  if (reverse.rows.length > 0) {
+    throw badRequest(linkType === 'related'
+      ? `${target.request_number} is already related to this request`
+      : `${target.request_number} already has the opposite link to this request`);
+  }
+
+  const result = await db.query(
+    `INSERT INTO service_request_links (source_request_id, target_request_id, link_type, created_by_employee_id)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (source_request_id, target_request_id, link_type) DO NOTHING
+     RETURNING id`,
+    [request.id, target.id, linkType, employeeId]
+  );
+  if (result.rows.length === 0) throw badRequest(`This request is already linked to ${target.request_number}`);
+  return { id: result.rows[0].id, link_type: linkType, target: summarize(target) };
+}
+
+export async function removeLink(db, { serviceRequestId, linkId }) {
+  const result = await db.query(
+    `DELETE FROM service_request_links
+      WHERE id = $1 AND (source_request_id = $2 OR target_request_id = $2)
+      RETURNING id`,
+    [linkId, serviceRequestId]
+  );
+  if (result.rows.length === 0) throw notFound('Link not found');
+}
+
+/**
+ * Merge a duplicate into the request it duplicates: move its notes and
+ * files, re-parent its children, link and close it. Run inside a
+ * transaction.
+ */
+export async function mergeDuplicate(db, { serviceRequestId, targetRequestNumber, employee }) {
+  const duplicate = await findRequest(db, serviceRequestId);
+  if (duplicate.merged_into_request_id) throw badRequest('This request was already merged');
+
+  const target = await findOtherRequest(db, duplicate, targetRequestNumber);
+  if (target.merged_into_request_id) {
+    throw badRequest(`${target.request_number} was itself merged into another request`);
+  }
+  if (target.is_final_status) throw badRequest(`${target.request_number} is closed`);
+
+  const closedStatus = await db.query(
+    "SELECT id FROM service_request_statuses WHERE LOWER(name) = 'closed' LIMIT 1"
+  );
+  if (!closedStatus.rows[0]) throw new Error('Closed status not found in database');
+
+  const movedNotes = await db.query(
+    `UPDATE service_request_notes SET service_request_id = $2
+      WHERE service_request_id = $1
+      RETURNING id`,
+    [duplicate.id, target.id]
+  );
+  const movedFiles = await db.query(
+    `UPDATE t_client_files SET service_request_id = $2
+      WHERE service_request_id = $1
+      RETURNING id`,
+    [duplicate.id, target.id]
+  );
+
+  await db.query(
+    `UPDATE service_requests SET parent_request_id = $2, updated_at = NOW()
+      WHERE parent_request_id = $1 AND id <> $2`,
+    [duplicate.id, target.id]
+  );
+  if (target.parent_request_id === duplicate.id) {
+    await db.query(
+      'UPDATE service_requests SET parent_request_id = $2, updated_at = NOW() WHERE id = $1',
+      [target.id, duplicate.parent_request_id]
+    );
+  }
+
+  await db.query(
+    `INSERT INTO service_request_links (source_request_id, target_request_id, link_type, created_by_employee_id)
+     VALUES ($1, $2, 'duplicate_of', $3)
+     ON CONFLICT (source_request_id, target_request_id, link_type) DO NOTHING`,
+    [duplicate.id, target.id, employee.id]
+  );
+
+  await db.query(
+    `UPDATE service_requests
+        SET status_id = $2, merged_into_request_id = $3, closed_at = NOW(),
+            closed_by_employee_id = $4, resolution_summary = $5,
+            last_status_change = NOW(), updated_at = NOW()
+      WHERE id = $1`,
+    [duplicate.id, closedStatus.rows[0].id, target.id, employee.id, `Merged into ${target.request_number}`]
+  );
+
+  const summary = {
+    movedNotes: movedNotes.rows.length,
+    movedFiles: movedFiles.rows.length
+  };
+  const notes = [
+    [target.id, `Merged duplicate ${duplicate.request_number} into this request ` +
+      `(${summary.movedNotes} notes and ${summary.movedFiles} files moved).`],
+    [duplicate.id, `Merged into ${target.request_number} as a duplicate.`]
+  ];
+  for (const [noteRequestId, noteText] of notes) {
+    await db.query(
+      `INSERT INTO service_request_notes (
+         service_request_id, note_text, note_type, created_by_type, created_by_id, created_by_name, is_visible_to_client
+       ) VALUES ($1, $2, 'system', 'employee', $3, $4, true)`,
+      [noteRequestId, noteText, employee.id, employee.name]
+    );
+  }
+
+  return {
+    duplicate: summarize(duplicate),
+    target: summarize(target),
+    ...summary
+  };
+}
+
+export default {
+  LINK_TYPES,
+  rollupChildren,
+  getRelations,
+  setParent,
+  addLink,
+  removeLink,
+  mergeDuplicate
+};
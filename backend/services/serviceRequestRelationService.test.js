@@ -0,0 +1,215 @@
+// Tests for serviceRequestRelationService — the parent rollup, parent and
+// link validation, and merging a duplicate, against a fake db.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  rollupChildren,
+  getRelations,
+  setParent,
+  addLink,
+  mergeDuplicate
+} from './serviceRequestRelationService.js';
+
+function fakeDb(handlers) {
+  const calls = [];
+  return {
+    calls,
+    async query(sql, params = []) {
+      calls.push({ sql, params });
+      for (const [pattern, rows] of handlers) {
+        if (pattern.test(sql)) return { rows: typeof rows === 'function' ? rows(params) : rows };
+      }
+      return { rows: [] };
+    }
+  };
+}
+
+const request = (id, number, overrides = {}) => ({
+  id,
+  request_number: number,
+  title: `Request ${number}`,
+  business_id: 'biz-1',
+  parent_request_id: null,
+  merged_into_request_id: null,
+  status: 'In Progress',
+  is_final_status: false,
+  ...overrides
+});
+
+const MOVE = request('sr-move', 'SR-2026-00010');
+const DESKS = request('sr-desks', 'SR-2026-00011');
+const NETWORK = request('sr-net', 'SR-2026-00012');
+
+/** Requests looked up by id ($1 of `sr.id = $1`) or by number. */
+function requestHandlers(requests) {
+  return [
+    [/WHERE sr\.id = \$1 AND sr\.soft_delete/, params => requests.filter(r => r.id === params[0])],
+    [/WHERE sr\.request_number = \$1/, params => requests.filter(r => r.request_number === params[0])]
+  ];
+}
+
+test('rollupChildren counts children by status and adds up their time', () => {
+  const rollup = rollupChildren([
+    { status: 'Closed', is_final_status: true, logged_minutes: 90 },
+    { status: 'In Progress', is_final_status: false, logged_minutes: 30 },
+    { status: 'Closed', is_final_status: true, logged_minutes: 0 }
+  ], 15);
+
+  assert.deepEqual(rollup, {
+    childCount: 3,
+    closedCount: 2,
+    openCount: 1,
+    byStatus: [{ status: 'Closed', count: 2 }, { status: 'In Progress', count: 1 }],
+    ownMinutes: 15,
+    childMinutes: 120,
+    totalMinutes: 135
+  });
+});
+
+test('getRelations returns children with their logged time and both link directions', async () => {
+  const db = fakeDb([
+    ...requestHandlers([MOVE]),
+    [/WHERE sr\.parent_request_id = \$1/, [
+      { ...DESKS, assigned_technician: 'Sam Tech' },
+      { ...NETWORK, status: 'Closed', is_final_status: true, assigned_technician: null }
+    ]],
+    [/FROM service_request_time_entries/, [
+      { service_request_id: 'sr-move', minutes: '20.4' },
+      { service_request_id: 'sr-desks', minutes: '60' }
+    ]],
+    [/FROM service_request_links/, [
+      { id: 'link-1', link_type: 'blocked_by', direction: 'incoming', created_at: '2026-10-18', ...request('sr-it', 'SR-2026-00020') }
+    ]]
+  ]);
+
+  const relations = await getRelations(db, 'sr-move');
+
+  assert.equal(relations.parent, null);
+  assert.deepEqual(relations.children.map(child => [child.request_number, child.logged_minutes]), [
+    ['SR-2026-00011', 60],
+    ['SR-2026-00012', 0]
+  ]);
+  assert.equal(relations.rollup.totalMinutes, 80);
+  assert.equal(relations.rollup.closedCount, 1);
+  assert.equal(relations.links[0].direction, 'incoming');
+  assert.equal(relations.links[0].request.request_number, 'SR-2026-00020');
+  const minutesQuery = db.calls.find(call => /service_request_time_entries/.test(call.sql));
+  assert.deepEqual(minutesQuery.params, [['sr-move', 'sr-desks', 'sr-net']]);
+});
+
+test('setParent refuses cycles, other businesses and itself', async () => {
+  // NETWORK is under DESKS, so DESKS cannot go under NETWORK
+  const requests = [MOVE, DESKS, { ...NETWORK, parent_request_id: 'sr-desks' }];
+  const db = fakeDb(requestHandlers(requests));
+  await assert.rejects(
+    setParent(db, { serviceRequestId: 'sr-desks', parentRequestNumber: 'SR-2026-00012' }),
+    { statusCode: 400, message: /already under this request/ }
+  );
+  await assert.rejects(
+    setParent(db, { serviceRequestId: 'sr-desks', parentRequestNumber: 'sr-2026-00011' }),
+    { statusCode: 400 }
+  );
+
+  const other = fakeDb(requestHandlers([MOVE, { ...DESKS, business_id: 'biz-2' }]));
+  await assert.rejects(
+    setParent(other, { serviceRequestId: 'sr-move', parentRequestNumber: 'SR-2026-00011' }),
+    { statusCode: 404 }
+  );
+
+  assert.equal(db.calls.some(call => /^UPDATE/.test(call.sql.trim())), false);
+});
+
+test('setParent puts a request under a parent', async () => {
+  const db = fakeDb(requestHandlers([MOVE, DESKS]));
+
+  const parent = await setParent(db, { serviceRequestId: 'sr-desks', parentRequestNumber: ' sr-2026-00010 ' });
+
+  assert.equal(parent.request_number, 'SR-2026-00010');
+  const update = db.calls.find(call => /UPDATE service_requests SET parent_request_id = \$2/.test(call.sql));
+  assert.deepEqual(update.params, ['sr-desks', 'sr-move']);
+});
+
+test('addLink validates the type and refuses the reverse of an existing link', async () => {
+  const db = fakeDb([
+    ...requestHandlers([DESKS, NETWORK]),
+    [/SELECT link_type FROM service_request_links/, [{ link_type: 'blocked_by' }]]
+  ]);
+
+  await assert.rejects(
+    addLink(db, { serviceRequestId: 'sr-desks', targetRequestNumber: 'SR-2026-00012', linkType: 'child_of' }),
+    { statusCode: 400 }
+  );
+  await assert.rejects(
+    addLink(db, { serviceRequestId: 'sr-desks', targetRequestNumber: 'SR-2026-00012', linkType: 'blocked_by' }),
+    { statusCode: 400, message: /opposite link/ }
+  );
+
+  const fresh = fakeDb([
+    ...requestHandlers([DESKS, NETWORK]),
+    [/INSERT INTO service_request_links/, [{ id: 'link-2' }]]
+  ]);
+  const link = await addLink(fresh, {
+    serviceRequestId: 'sr-desks',
+    targetRequestNumber: 'SR-2026-00012',
+    linkType: 'blocked_by',
+    employeeId: 'emp-1'
+  });
+  assert.equal(link.id, 'link-2');
+  const insert = fresh.calls.find(call => /INSERT INTO service_request_links/.test(call.sql));
+  assert.deepEqual(insert.params, ['sr-desks', 'sr-net', 'blocked_by', 'emp-1']);
+});
+
+test('mergeDuplicate moves notes and files, re-parents children and closes the duplicate', async () => {
+  const duplicate = request('sr-dup', 'SR-2026-00030', { parent_request_id: 'sr-move' });
+  const original = request('sr-orig', 'SR-2026-00031');
+  const db = fakeDb([
+    ...requestHandlers([duplicate, original]),
+    [/LOWER\(name\) = 'closed'/, [{ id: 'status-closed' }]],
+    [/UPDATE service_request_notes/, [{ id: 'n1' }, { id: 'n2' }]],
+    [/UPDATE t_client_files/, [{ id: 'f1' }]]
+  ]);
+
+  const merged = await mergeDuplicate(db, {
+    serviceRequestId: 'sr-dup',
+    targetRequestNumber: 'SR-2026-00031',
+    employee: { id: 'emp-1', name: 'Sam Tech' }
+  });
+
+  assert.deepEqual([merged.movedNotes, merged.movedFiles], [2, 1]);
+  assert.equal(merged.target.request_number, 'SR-2026-00031');
+
+  const reparent = db.calls.find(call => /WHERE parent_request_id = \$1 AND id <> \$2/.test(call.sql));
+  assert.deepEqual(reparent.params, ['sr-dup', 'sr-orig']);
+  const close = db.calls.find(call => /merged_into_request_id = \$3/.test(call.sql));
+  assert.deepEqual(close.params, ['sr-dup', 'status-closed', 'sr-orig', 'emp-1', 'Merged into SR-2026-00031']);
+  const notes = db.calls.filter(call => /INSERT INTO service_request_notes/.test(call.sql));
+  assert.deepEqual(notes.map(call => call.params[0]), ['sr-orig', 'sr-dup']);
+  assert.match(notes[0].params[1], /SR-2026-00030.*2 notes and 1 files moved/);
+  // The duplicate's own closing note is added after the notes were moved
+  const moveIndex = db.calls.findIndex(call => /UPDATE service_request_notes/.test(call.sql));
+  assert.ok(db.calls.indexOf(notes[1]) > moveIndex);
+});
+
+test('mergeDuplicate refuses closed targets and requests merged before', async () => {
+  const db = fakeDb(requestHandlers([
+    request('sr-dup', 'SR-2026-00030'),
+    request('sr-closed', 'SR-2026-00031', { status: 'Closed', is_final_status: true }),
+    request('sr-gone', 'SR-2026-00032', { merged_into_request_id: 'sr-other' })
+  ]));
+  const employee = { id: 'emp-1', name: 'Sam Tech' };
+
+  await assert.rejects(
+    mergeDuplicate(db, { serviceRequestId: 'sr-dup', targetRequestNumber: 'SR-2026-00031', employee }),
+    { statusCode: 400, message: /is closed/ }
+  );
+  await assert.rejects(
+    mergeDuplicate(db, { serviceRequestId: 'sr-dup', targetRequestNumber: 'SR-2026-00032', employee }),
+    { statusCode: 400 }
+  );
+  await assert.rejects(
+    mergeDuplicate(db, { serviceRequestId: 'sr-gone', targetRequestNumber: 'SR-2026-00030', employee }),
+    { statusCode: 400, message: /already merged/ }
+  );
+  assert.equal(db.calls.some(call => /^UPDATE/.test(call.sql.trim())), false);
+});
@@ -0,0 +1,247 @@
+/**
+ * Service request templates for recurring issue types.
+ *
+ * A template belongs to a service type and prefills a new request: title,
+ * description, estimated duration (requested_duration_minutes) and urgency.
+ * Its checklist items ([{ text, required }]) are the steps the technician
+ * works through. Whatever the requester types wins over the template, so a
+ * template only fills the blanks.
+ *
+ * Client-visible templates are offered in the client portal's scheduler;
+ * the rest only when an employee opens a request for a client.
+ */
+
+const MAX_NAME_LENGTH = 100;
+const MAX_TITLE_LENGTH = 255;
+const MAX_CHECKLIST_ITEMS = 50;
+const MAX_CHECKLIST_TEXT_LENGTH = 500;
+// A working week; longer jobs are projects, not requests
+const MAX_DURATION_MINUTES = 40 * 60;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function notFound(message) {
+  const error = new Error(message);
+  error.statusCode = 404;
+  return error;
+}
+
+function optionalText(value) {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed || null;
+}
+
+function optionalBoolean(value, field, fallback) {
+  if (value === undefined) return fallback;
+  if (typeof value !== 'boolean') throw badRequest(`${field} must be true or false`);
+  return value;
+}
+
+/**
+ * Validate and normalise a checklist: [{ text, required }] with blank rows
+ * dropped. Shared with the request checklists that start from a template.
+ */
+export function validateChecklistItems(items) {
+  if (items === undefined || items === null) return [];
+  if (!Array.isArray(items)) throw badRequest('Checklist items must be a list');
+
+  const checklist = items
+    .map((item, index) => {
+      const text = optionalText(typeof item === 'string' ? item : item?.text);
+      if (!text) return null;
+      if (text.length > MAX_CHECKLIST_TEXT_LENGTH) {
+        throw badRequest(`Checklist item ${index + 1} must be ${MAX_CHECKLIST_TEXT_LENGTH} characters or fewer`);
+      }
+      if (item?.required !== undefined && typeof item.required !== 'boolean') {
+        throw badRequest(`Checklist item ${index + 1}: required must be true or false`);
+      }
+      return { text, required: item?.required ?? false };
+    })
+    .filter(Boolean);
+
+  if (checklist.length > MAX_CHECKLIST_ITEMS) {
+    throw badRequest(`A checklist can have at most ${MAX_CHECKLIST_ITEMS} items`);
+  }
+  return checklist;
+}
+
+/**
+ * Validate and normalise a template payload (create or edit).
+ */
+export function validateTemplateInput(input = {}) {
+  const serviceTypeId = optionalText(input.serviceTypeId);
+  if (!serviceTypeId) throw badRequest('Service type is required');
+
+  const name = optionalText(input.name);
+  if (!name) throw badRequest('Template name is required');
+  if (name.length > MAX_NAME_LENGTH) throw badRequest(`Template name must be ${MAX_NAME_LENGTH} characters or fewer`);
+
+  const title = optionalText(input.title);
+  if (!title) throw badRequest('Request title is required');
+  if (title.length > MAX_TITLE_LENGTH) throw badRequest(`Request title must be ${MAX_TITLE_LENGTH} characters or fewer`);
+
+  let estimatedDurationMinutes = null;
+  if (input.estimatedDurationMinutes !== undefined && input.estimatedDurationMinutes !== null && input.estimatedDurationMinutes !== '') {
+    estimatedDurationMinutes = Number(input.estimatedDurationMinutes);
+    if (!Number.isInteger(estimatedDurationMinutes) || estimatedDurationMinutes <= 0 || estimatedDurationMinutes > MAX_DURATION_MINUTES) {
+      throw badRequest(`Estimated duration must be a whole number of minutes up to ${MAX_DURATION_MINUTES}`);
+    }
+  }
+
+  const sortOrder = input.sortOrder === undefined || input.sortOrder === null ? 0 : Number(input.sortOrder);
+  if (!Number.isInteger(sortOrder)) throw badRequest('Sort order must be a whole number');
+
+  return {
+    serviceTypeId,
+    name,
+    title,
+    description: optionalText(input.description),
+    checklistItems: validateChecklistItems(input.checklistItems),
+    estimatedDurationMinutes,
+    urgencyLevelId: optionalText(input.urgencyLevelId),
+    clientVisible: optionalBoolean(input.clientVisible, 'clientVisible', true),
+    isActive: optionalBoolean(input.isActive, 'isActive', true),
+    sortOrder
+  };
+}
+
+/**
+ * Fill the blanks of a new request from its template. `request` uses the
+ * request's column names; fields the requester filled in are kept.
+ */
+export function applyTemplate(template, request = {}) {
+  if (!template) return { ...request };
+  return {
+    ...request,
+    title: optionalText(request.title) || template.title,
+    description: optionalText(request.description) || template.description || '',
+    requested_duration_minutes: request.requested_duration_minutes || template.estimated_duration_minutes || null,
+    urgency_level_id: request.urgency_level_id || template.urgency_level_id || null,
+    service_type_id: request.service_type_id || template.service_type_id,
+    template_id: template.id
+  };
+}
+
+const TEMPLATE_COLUMNS = `
+  t.id, t.service_type_id, st.name AS service_type_name, t.name, t.title, t.description,
+  t.checklist_items, t.estimated_duration_minutes, t.urgency_level_id, ul.name AS urgency_level_name,
+  t.client_visible, t.is_active, t.sort_order, t.created_at, t.updated_at
+`;
+
+/**
+ * Templates in display order.
+ *
+ * @param {object} [options]
+ * @param {string|null} [options.serviceTypeId] - one service type's templates
+ * @param {boolean} [options.activeOnly] - skip inactive templates
+ * @param {boolean} [options.clientVisibleOnly] - only those offered to clients
+ */
+export async function listTemplates(db, { serviceTypeId = null, activeOnly = false, clientVisibleOnly = false } = {}) {
+  const result = await db.query(
+    `SELECT ${TEMPLATE_COLUMNS}
+       FROM service_request_templates t
+       JOIN service_types st ON st.id = t.service_type_id
+       LEFT JOIN urgency_levels ul ON ul.id = t.urgency_level_id
+      WHERE ($1::uuid IS NULL OR t.service_type_id = $1)
+        AND (NOT $2 OR (t.is_active = true AND st.is_active = true))
+        AND (NOT $3 OR t.client_visible = true)
+      ORDER BY st.name, t.sort_order, t.name`,
+    [serviceTypeId, activeOnly, clientVisibleOnly]
+  );
+  return result.rows;
+}
+
+export async function getTemplate(db, templateId) {
+  const result = await db.query(
+    `SELECT ${TEMPLATE_COLUMNS}
+       FROM service_request_templates t
+       JOIN service_types st ON st.id = t.service_type_id
+       LEFT JOIN urgency_levels ul ON ul.id = t.urgency_level_id
+      WHERE t.id = $1`,
+    [templateId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * The template a new request is being opened from, or null when there is
+ * none. Inactive templates, and for clients ones not offered to clients,
+ * are refused.
+ */
+export async function resolveRequestTemplate(db, templateId, { clientVisibleOnly = false } = {}) {
+  if (!templateId) return null;
+  const template = await getTemplate(db, templateId);
+  if (!template || !template.is_active || (clientVisibleOnly && !template.client_visible)) {
+    throw badRequest('That request template is not available');
+  }
+  return template;
+}
+
+/**
+ * Create a template, or replace one when `templateId` is given.
+ *
+ * @returns {Promise<string>} the template id
+ */
+export async function saveTemplate(db, input, templateId = null, employeeId = null) {
+  const values = [
+    input.serviceTypeId,
+    input.name,
+    input.title,
+    input.description,
+    JSON.stringify(input.checklistItems),
+    input.estimatedDurationMinutes,
+    input.urgencyLevelId,
+    input.clientVisible,
+    input.isActive,
+    input.sortOrder
+  ];
+
+  if (!templateId) {
+    const created = await db.query(
+      `INSERT INTO service_request_templates (
+         service_type_id, name, title, description, checklist_items, estimated_duration_minutes,
+         urgency_level_id, client_visible, is_active, sort_order, created_by_employee_id
+       ) VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7, $8, $9, $10, $11)
+       RETURNING id`,
+      [...values, employeeId]
+    );
+    return created.rows[0].id;
+  }
+
+  const updated = await db.query(
+    `UPDATE service_request_templates
+        SET service_type_id = $1, name = $2, title = $3, description = $4, checklist_items = $5::jsonb,
+            estimated_duration_minutes = $6, urgency_level_id = $7, client_visible = $8, is_active = $9,
+            sort_order = $10, updated_at = NOW()
+      WHERE id = $11
+      RETURNING id`,
+    [...values, templateId]
+  );
+  if (!updated.rows[0]) throw notFound('Template not found');
+  return templateId;
+}
+
+/**
+ * Requests opened from the template keep their fields; they just lose the
+ * link back to it.
+ */
+export async function deleteTemplate(db, templateId) {
+  const result = await db.query('DELETE FROM service_request_templates WHERE id = $1 RETURNING id', [templateId]);
+  if (!result.rows[0]) throw notFound('Template not found');
+}
+
+export default {
+  validateChecklistItems,
+  validateTemplateInput,
+  applyTemplate,
+  listTemplates,
+  getTemplate,
+  resolveRequestTemplate,
+  saveTemplate,
+  deleteTemplate
+};
@@ -0,0 +1,137 @@
+// Tests for serviceRequestTemplateService — template and checklist
+// validation, filling a new request's blanks from its template, and which
+// templates a client may open a request from, against a fake db.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  validateChecklistItems,
+  validateTemplateInput,
+  applyTemplate,
+  resolveRequestTemplate,
+  saveTemplate,
+  deleteTemplate
+} from './serviceRequestTemplateService.js';
+
+function fakeDb(handlers) {
+  const calls = [];
+  return {
+    calls,
+    async query(sql, params = []) {
+      calls.push({ sql, params });
+      for (const [pattern, rows] of handlers) {
+        if (pattern.test(sql)) return { rows: typeof rows === 'function' ? rows(params) : rows };
+      }
+      return { rows: [] };
+    }
+  };
+}
+
+const NEW_HIRE = {
+  id: 'tpl-1',
+  service_type_id: 'st-1',
+  name: 'New hire setup',
+  title: 'Set up a workstation for a new hire',
+  description: 'Name, start date and role of the new hire:',
+  checklist_items: [{ text: 'Create accounts', required: true }],
+  estimated_duration_minutes: 120,
+  urgency_level_id: 'urg-normal',
+  client_visible: true,
+  is_active: true
+};
+
+test('validateChecklistItems: trims, drops blank rows and defaults required to false', () => {
+  assert.deepEqual(validateChecklistItems([
+    { text: ' Image laptop ', required: true },
+    { text: '   ' },
+    'Label the device'
+  ]), [
+    { text: 'Image laptop', required: true },
+    { text: 'Label the device', required: false }
+  ]);
+  assert.deepEqual(validateChecklistItems(undefined), []);
+  assert.throws(() => validateChecklistItems('Image laptop'), /must be a list/);
+  assert.throws(() => validateChecklistItems([{ text: 'X', required: 'yes' }]), /required must be true or false/);
+});
+
+test('validateTemplateInput: requires a service type, name and title', () => {
+  assert.deepEqual(validateTemplateInput({
+    serviceTypeId: 'st-1',
+    name: ' Printer offline ',
+    title: 'Printer is offline',
+    estimatedDurationMinutes: '60',
+    checklistItems: [{ text: 'Power cycle', required: true }]
+  }), {
+    serviceTypeId: 'st-1',
+    name: 'Printer offline',
+    title: 'Printer is offline',
+    description: null,
+    checklistItems: [{ text: 'Power cycle', required: true }],
+    estimatedDurationMinutes: 60,
+    urgencyLevelId: null,
+    clientVisible: true,
+    isActive: true,
+    sortOrder: 0
+  });
+  assert.throws(() => validateTemplateInput({ name: 'X', title: 'X' }), /Service type is required/);
+  assert.throws(() => validateTemplateInput({ serviceTypeId: 'st-1', title: 'X' }), /name is required/);
+  assert.throws(() => validateTemplateInput({ serviceTypeId: 'st-1', name: 'X' }), /title is required/);
+  assert.throws(
+    () => validateTemplateInput({ serviceTypeId: 'st-1', name: 'X', title: 'X', estimatedDurationMinutes: 1.5 }),
+    /whole number of minutes/
+  );
+});
+
+test('applyTemplate: only fills the fields the requester left blank', () => {
+  assert.deepEqual(applyTemplate(NEW_HIRE, { title: '', service_location_id: 'loc-1' }), {
+    title: 'Set up a workstation for a new hire',
+    description: 'Name, start date and role of the new hire:',
+    requested_duration_minutes: 120,
+    urgency_level_id: 'urg-normal',
+    service_type_id: 'st-1',
+    service_location_id: 'loc-1',
+    template_id: 'tpl-1'
+  });
+
+  const typed = applyTemplate(NEW_HIRE, {
+    title: 'Laptop for Dana',
+    description: 'Starts Monday',
+    requested_duration_minutes: 90,
+    urgency_level_id: 'urg-prime'
+  });
+  assert.equal(typed.title, 'Laptop for Dana');
+  assert.equal(typed.description, 'Starts Monday');
+  assert.equal(typed.requested_duration_minutes, 90);
+  assert.equal(typed.urgency_level_id, 'urg-prime');
+
+  assert.deepEqual(applyTemplate(null, { title: 'Other' }), { title: 'Other' });
+});
+
+test('resolveRequestTemplate: clients only get active, client-visible templates', async () => {
+  const internal = { ...NEW_HIRE, id: 'tpl-2', client_visible: false };
+  const inactive = { ...NEW_HIRE, id: 'tpl-3', is_active: false };
+  const db = fakeDb([[/FROM service_request_templates t/, params => [NEW_HIRE, internal, inactive].filter(t => t.id === params[0])]]);
+
+  assert.equal(await resolveRequestTemplate(db, null), null);
+  assert.equal((await resolveRequestTemplate(db, 'tpl-1', { clientVisibleOnly: true })).id, 'tpl-1');
+  assert.equal((await resolveRequestTemplate(db, 'tpl-2')).id, 'tpl-2');
+  await assert.rejects(resolveRequestTemplate(db, 'tpl-2', { clientVisibleOnly: true }), /not available/);
+  await assert.rejects(resolveRequestTemplate(db, 'tpl-3'), /not available/);
+  await assert.rejects(resolveRequestTemplate(db, 'missing'), /not available/);
+});
+
+test('saveTemplate: stores the checklist as JSON and 404s on a missing template', async () => {
+  const input = validateTemplateInput({
+    serviceTypeId: 'st-1',
+    name: 'New hire setup',
+    title: 'Set up a workstation',
+    checklistItems: [{ text: 'Create accounts', required: true }]
+  });
+  const db = fakeDb([[/INSERT INTO service_request_templates/, [{ id: 'tpl-9' }]]]);
+  assert.equal(await saveTemplate(db, input, null, 'emp-1'), 'tpl-9');
+  assert.equal(db.calls[0].params[4], '[{"text":"Create accounts","required":true}]');
+  assert.equal(db.calls[0].params[10], 'emp-1');
+
+  await assert.rejects(saveTemplate(fakeDb([]), input, 'missing'), error => error.statusCode === 404);
+  await assert.rejects(deleteTemplate(fakeDb([]), 'missing'), error => error.statusCode === 404);
+});
@@ -0,0 +1,539 @@
+/**
+ * SLA policies and breach tracking for service requests.
+ *
+ * A policy sets time-to-acknowledge / time-to-resolve targets and is scoped
+ * to a business, an urgency level, both, or neither; selectSlaPolicy() picks
+ * the most specific active match. Targets count business minutes against
+ * the policy's calendar (weekly hours + holidays, in the calendar's
+ * timezone) or run 24x7 when the policy has none.
+ *
+ * The SlaMonitor polls every minute: it stamps due times on newly opened
+ * requests (service_request_sla), sends warnings ahead of a due time and
+ * breach notices through the sla_warning / sla_breach workflow notification
+ * rules, and writes missed targets to sla_breaches for reporting.
+ */
+import { query } from '../config/database.js';
+import { zonedTimeToUtc } from './reportDeliveryScheduler.js';
+import { getEmployeesByRoles } from './workflowService.js';
+import { sendServiceRequestSlaEmail } from './workflowEmailService.js';
+
+export const SLA_TARGETS = ['acknowledge', 'resolve'];
+
+// Used when the sla_warning rule has no timeout configured
+export const DEFAULT_WARNING_MINUTES = 30;
+
+// Two years of closed days without finding enough open time means the
+// calendar is effectively never open.
+const MAX_CALENDAR_DAYS = 731;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function pad(n) {
+  return String(n).padStart(2, '0');
+}
+
+function parseTime(value) {
+  const [hours, minutes] = value.split(':').map(Number);
+  return { hours, minutes };
+}
+
+/**
+ * YYYY-MM-DD for a holiday value; pg hands DATE columns back as local-midnight
+ * Date objects.
+ */
+function toIsoDate(value) {
+  if (value instanceof Date) {
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  return String(value).slice(0, 10);
+}
+
+const WEEKDAYS = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+/**
+ * Calendar date and weekday (0 = Sunday) of an instant in `timeZone`.
+ */
+function getZonedDay(date, timeZone) {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short'
+  });
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(p => [p.type, p.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS[parts.weekday]
+  };
+}
+
+/**
+ * Validate and normalise a business-hours calendar payload.
+ * Throws a 400 error describing the first problem found.
+ */
+export function validateCalendar(input = {}) {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) throw badRequest('Calendar name is required');
+
+  const timezone = input.timezone || 'America/Los_Angeles';
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw badRequest(`Unknown timezone: ${timezone}`);
+  }
+
+  const weeklyHours = {};
+  for (const [day, hours] of Object.entries(input.weeklyHours || {})) {
+    if (!hours) continue;
+    if (!/^[0-6]$/.test(day)) throw badRequest(`Invalid day of week: ${day}`);
+    if (!TIME_PATTERN.test(hours.start || '') || !TIME_PATTERN.test(hours.end || '')) {
+      throw badRequest('Business hours must be HH:MM');
+    }
+    if (hours.start >= hours.end) throw badRequest('Business hours must end after they start');
+    weeklyHours[day] = { start: hours.start, end: hours.end };
+  }
+  if (Object.keys(weeklyHours).length === 0) {
+    throw badRequest('A calendar needs business hours on at least one day');
+  }
+
+  const holidays = [...new Set((input.holidays || []).map(toIsoDate))].sort();
+  if (holidays.some(h => !DATE_PATTERN.test(h))) throw badRequest('Holidays must be YYYY-MM-DD dates');
+
+  return { name, timezone, weeklyHours, holidays };
+}
+
+/**
+ * Validate and normalise an SLA policy payload.
+ */
+export function validateSlaPolicy(input = {}) {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) throw badRequest('Policy name is required');
+
+  const minutes = (value, label) => {
+    if (value === null || value === undefined || value === '') return null;
+    const n = Number(value);
+    if (!Number.isInteger(n) || n <= 0) throw badRequest(`${label} must be a positive number of minutes`);
+    return n;
+  };
+  const acknowledgeTargetMinutes = minutes(input.acknowledgeTargetMinutes, 'Acknowledge target');
+  const resolveTargetMinutes = minutes(input.resolveTargetMinutes, 'Resolve target');
+  if (acknowledgeTargetMinutes === null && resolveTargetMinutes === null) {
+    throw badRequest('Set an acknowledge target, a resolve target, or both');
+  }
+  if (acknowledgeTargetMinutes !== null && resolveTargetMinutes !== null && resolveTargetMinutes < acknowledgeTargetMinutes) {
+    throw badRequest('Resolve target cannot be shorter than the acknowledge target');
+  }
+
+  return {
+    name,
+    description: input.description?.trim() || null,
+    businessId: input.businessId || null,
+    urgencyLevelId: input.urgencyLevelId || null,
+    acknowledgeTargetMinutes,
+    resolveTargetMinutes,
+    calendarId: input.calendarId || null,
+    isActive: input.isActive !== false
+  };
+}
+
+/**
+ * The instant `minutes` of open time after `start`.
+ *
+ * With no calendar the clock runs 24x7. Otherwise only time inside the
+ * calendar's weekly hours counts, skipping holidays; a start outside hours
+ * begins counting at the next opening. Returns null if the calendar never
+ * opens.
+ */
+export function addBusinessMinutes(start, minutes, calendar) {
+  const startDate = new Date(start);
+  if (!calendar) return new Date(startDate.getTime() + minutes * 60000);
+
+  const { timezone, weeklyHours = {} } = calendar;
+  const holidays = new Set((calendar.holidays || []).map(toIsoDate));
+  let cursor = startDate;
+  let remaining = minutes;
+
+  for (let i = 0; i < MAX_CALENDAR_DAYS; i++) {
+    const { year, month, day, weekday } = getZonedDay(cursor, timezone);
+    const hours = weeklyHours[weekday] || weeklyHours[String(weekday)];
+
+    if (hours && !holidays.has(`${year}-${pad(month)}-${pad(day)}`)) {
+      const open = parseTime(hours.start);
+      const close = parseTime(hours.end);
+      const opensAt = zonedTimeToUtc(year, month, day, open.hours, open.minutes, timezone);
+      const closesAt = zonedTimeToUtc(year, month, day, close.hours, close.minutes, timezone);
+      const from = cursor > opensAt ? cursor : opensAt;
+
+      if (from < closesAt) {
+        const available = (closesAt - from) / 60000;
+        if (remaining <= available) return new Date(from.getTime() + remaining * 60000);
+        remaining -= available;
+      }
+    }
+
+    cursor = zonedTimeToUtc(year, month, day + 1, 0, 0, timezone);
+  }
+
+  return null;
+}
+
+/**
+ * Most specific active policy for a request: business + urgency, then
+ * business only, then urgency only, then the catch-all.
+ */
+export function selectSlaPolicy(policies, { businessId, urgencyLevelId }) {
+  const active = policies.filter(p => p.is_active);
+  const match = (business, urgency) => active.find(p =>
+    (p.business_id || null) === business && (p.urgency_level_id || null) === urgency
+  );
+
+  return (businessId && urgencyLevelId && match(businessId, urgencyLevelId))
+    || (businessId && match(businessId, null))
+    || (urgencyLevelId && match(null, urgencyLevelId))
+    || match(null, null)
+    || null;
+}
+
+/**
+ * Due times for a request opened at `openedAt` under `policy`.
+ */
+export function computeSlaDueTimes(policy, openedAt, calendar) {
+  const due = minutes => (minutes ? addBusinessMinutes(openedAt, minutes, calendar) : null);
+  return {
+    acknowledgeDueAt: due(policy.acknowledge_target_minutes),
+    resolveDueAt: due(policy.resolve_target_minutes)
+  };
+}
+
+/**
+ * Where one target stands:
+ *   met       -- met on or before the due time
+ *   missed    -- met, but late
+ *   breached  -- not met and past due
+ *   warning   -- not met, within `warningMinutes` of the due time
+ *   on_track  -- not met, more time left than that
+ * null when the policy has no such target.
+ */
+export function slaTargetState({ dueAt, metAt, now = new Date(), warningMinutes = DEFAULT_WARNING_MINUTES }) {
+  if (!dueAt) return null;
+  const due = new Date(dueAt).getTime();
+
+  if (metAt) return new Date(metAt).getTime() <= due ? 'met' : 'missed';
+  if (now.getTime() >= due) return 'breached';
+  if (due - now.getTime() <= warningMinutes * 60000) return 'warning';
+  return 'on_track';
+}
+
+function rowToCalendar(row) {
+  return {
+    timezone: row.timezone,
+    weeklyHours: row.weekly_hours || {},
+    holidays: (row.holidays || []).map(toIsoDate)
+  };
+}
+
+async function loadNotificationRule(triggerEvent) {
+  const result = await query(
+    `SELECT * FROM workflow_notification_rules
+      WHERE trigger_event = $1 AND is_active = true
+      ORDER BY execution_order ASC
+      LIMIT 1`,
+    [triggerEvent]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Employees a notification rule addresses for this request.
+ */
+async function resolveRuleRecipients(rule, request) {
+  const recipients = [];
+
+  if (rule.recipient_type === 'role' && rule.recipient_roles?.length) {
+    recipients.push(...await getEmployeesByRoles(rule.recipient_roles));
+  } else if (rule.recipient_type === 'specific_employee' && rule.recipient_employee_ids?.length) {
+    const result = await query(
+      `SELECT id, email, first_name FROM employees
+        WHERE id = ANY($1) AND is_active = true AND soft_delete = false`,
+      [rule.recipient_employee_ids]
+    );
+    recipients.push(...result.rows);
+  }
+
+  if (rule.recipient_type === 'assigned_employee' && request.assigned_to_employee_id) {
+    const result = await query(
+      `SELECT id, email, first_name FROM employees
+        WHERE id = $1 AND is_active = true AND soft_delete = false`,
+      [request.assigned_to_employee_id]
+    );
+    recipients.push(...result.rows);
+  }
+
+  const seen = new Set();
+  return recipients.filter(r => r.email && !seen.has(r.id) && seen.add(r.id));
+}
+
+class SlaMonitor {
+  constructor() {
+    this.isRunning = false;
+    this.isProcessing = false;
+    this.intervalId = null;
+    this.checkIntervalMs = 60000; // Check every 60 seconds
+  }
+
+  /**
+   * Start the SLA monitor
+   */
+  start() {
+    if (this.isRunning) {
+      console.log('⚠️ SLA monitor is already running');
+      return;
+    }
+
+    console.log('⏱️ Starting SLA monitor...');
+    this.isRunning = true;
+
+    this.processOpenRequests();
+    this.intervalId = setInterval(() => {
+      this.processOpenRequests();
+    }, this.checkIntervalMs);
+
+    console.log(`✅ SLA monitor started (checking every ${this.checkIntervalMs / 1000}s)`);
+  }
+
+  /**
+   * Stop the SLA monitor
+   */
+  stop() {
+    if (!this.isRunning) return;
+
+    this.isRunning = false;
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    console.log('✅ SLA monitor stopped');
+  }
+
+  async processOpenRequests() {
+    if (this.isProcessing) return;
+    this.isProcessing = true;
+
+    try {
+      await this.assignDueTimes();
+      await this.evaluateTrackedRequests();
+    } catch (error) {
+      console.error('❌ Error processing SLA checks:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Stamp due times on open requests that aren't tracked yet. Requests with
+   * no matching policy are simply left alone (and re-checked next tick, so a
+   * policy created later still picks them up).
+   */
+  async assignDueTimes() {
+    const pending = await query(`
+      SELECT sr.id, sr.business_id, sr.urgency_level_id, sr.created_at
+        FROM service_requests sr
+        LEFT JOIN service_request_sla s ON s.service_request_id = sr.id
+        LEFT JOIN service_request_statuses srs ON sr.status_id = srs.id
+       WHERE s.service_request_id IS NULL
+         AND sr.soft_delete = false
+         AND sr.closed_at IS NULL
+         AND COALESCE(srs.is_final_status, false) = false
+    `);
+    if (pending.rows.length === 0) return;
+
+    const [policies, calendars] = await Promise.all([
+      query('SELECT * FROM sla_policies WHERE is_active = true'),
+      query('SELECT * FROM sla_business_calendars')
+    ]);
+    const calendarsById = new Map(calendars.rows.map(c => [c.id, rowToCalendar(c)]));
+
+    for (const request of pending.rows) {
+      const policy = selectSlaPolicy(policies.rows, {
+        businessId: request.business_id,
+        urgencyLevelId: request.urgency_level_id
+      });
+      if (!policy) continue;
+
+      const calendar = policy.calendar_id ? calendarsById.get(policy.calendar_id) : null;
+      const { acknowledgeDueAt, resolveDueAt } = computeSlaDueTimes(policy, request.created_at, calendar);
+
+      await query(
+        `INSERT INTO service_request_sla (
+           service_request_id, sla_policy_id, policy_name, acknowledge_due_at, resolve_due_at
+         ) VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (service_request_id) DO NOTHING`,
+        [request.id, policy.id, policy.name, acknowledgeDueAt, resolveDueAt]
+      );
+    }
+  }
+
+  /**
+   * Warn, record breaches and settle targets for every tracked request that
+   * isn't finalized yet.
+   */
+  async evaluateTrackedRequests() {
+    const tracked = await query(`
+      SELECT s.*, sr.request_number, sr.title, sr.business_id, sr.assigned_to_employee_id,
+             LEAST(sr.acknowledged_at, sr.started_at) AS acknowledged_at,
+             -- Completed without going through the close flow still counts as resolved
+             COALESCE(sr.closed_at,
+                      CASE WHEN srs.is_final_status AND LOWER(srs.name) <> 'cancelled'
+                           THEN sr.last_status_change END) AS resolved_at,
+             sr.soft_delete,
+             LOWER(COALESCE(srs.name, '')) = 'cancelled' AS is_cancelled,
+             b.business_name
+        FROM service_request_sla s
+        JOIN service_requests sr ON s.service_request_id = sr.id
+        LEFT JOIN service_request_statuses srs ON sr.status_id = srs.id
+        LEFT JOIN businesses b ON sr.business_id = b.id
+       WHERE s.finalized_at IS NULL
+    `);
+    if (tracked.rows.length === 0) return;
+
+    const [warningRule, breachRule] = await Promise.all([
+      loadNotificationRule('sla_warning'),
+      loadNotificationRule('sla_breach')
+    ]);
+    const warningMinutes = warningRule?.timeout_minutes || DEFAULT_WARNING_MINUTES;
+    const now = new Date();
+
+    for (const row of tracked.rows) {
+      try {
+        await this.evaluateRequest(row, { now, warningRule, breachRule, warningMinutes });
+      } catch (error) {
+        console.error(`❌ Error evaluating SLA for SR #${row.request_number}:`, error);
+      }
+    }
+  }
+
+  async evaluateRequest(row, { now, warningRule, breachRule, warningMinutes }) {
+    // Cancelled and deleted requests stop the clock without counting as
+    // breaches.
+    const stopped = row.soft_delete || row.is_cancelled;
+    const settled = [];
+
+    for (const target of SLA_TARGETS) {
+      const dueAt = row[`${target}_due_at`];
+      const metAt = target === 'acknowledge' ? row.acknowledged_at : row.resolved_at;
+      const state = stopped && !metAt ? null : slaTargetState({ dueAt, metAt, now, warningMinutes });
+
+      if (state === 'breached' && !row[`${target}_breached_at`]) {
+        await this.recordBreach(row, target, dueAt, null);
+        if (breachRule) await this.notify(breachRule, row, target, dueAt);
+      } else if (state === 'missed') {
+        if (row[`${target}_breached_at`]) {
+          await query(
+            `UPDATE sla_breaches SET met_at = $3
+              WHERE service_request_id = $1 AND target = $2 AND met_at IS NULL`,
+            [row.service_request_id, target, metAt]
+          );
+        } else {
+          // Met late between two ticks (or while the monitor was down)
+          await this.recordBreach(row, target, dueAt, metAt);
+        }
+      } else if (state === 'warning' && !row[`${target}_warned_at`] && warningRule) {
+        await query(
+          `UPDATE service_request_sla SET ${target}_warned_at = NOW(), updated_at = NOW()
+            WHERE service_request_id = $1`,
+          [row.service_request_id]
+        );
+        await this.notify(warningRule, row, target, dueAt);
+      }
+
+      settled.push(state === null || state === 'met' || state === 'missed');
+    }
+
+    if (stopped || settled.every(Boolean)) {
+      await query(
+        `UPDATE service_request_sla SET finalized_at = NOW(), updated_at = NOW()
+          WHERE service_request_id = $1`,
+        [row.service_request_id]
+      );
+    }
+  }
+
+  async recordBreach(row, target, dueAt, metAt) {
+    await query(
+      `INSERT INTO sla_breaches (
+         service_request_id, business_id, sla_policy_id, policy_name, target, due_at, breached_at, met_at
+       ) VALUES ($1, $2, $3, $4, $5, $6, $6, $7)
+       ON CONFLICT (service_request_id, target) DO NOTHING`,
+      [row.service_request_id, row.business_id, row.sla_policy_id, row.policy_name, target, dueAt, metAt]
+    );
+    await query(
+      `UPDATE service_request_sla SET ${target}_breached_at = $2, updated_at = NOW()
+        WHERE service_request_id = $1`,
+      [row.service_request_id, dueAt]
+    );
+    console.log(`🚨 SLA ${target} target breached for SR #${row.request_number}`);
+  }
+
+  /**
+   * Email everyone the rule addresses and log each attempt to
+   * workflow_notification_log alongside the other workflow notifications.
+   */
+  async notify(rule, row, target, dueAt) {
+    const recipients = await resolveRuleRecipients(rule, row);
+    const isBreach = rule.trigger_event === 'sla_breach';
+
+    for (const employee of recipients) {
+      let deliveryStatus = 'sent';
+      let deliveryError = null;
+      try {
+        await sendServiceRequestSlaEmail({
+          serviceRequestData: {
+            requestNumber: row.request_number,
+            title: row.title,
+            businessName: row.business_name,
+            policyName: row.policy_name
+          },
+          employee: { email: employee.email, firstName: employee.first_name },
+          target,
+          dueAt,
+          isBreach
+        });
+      } catch (error) {
+        deliveryStatus = 'failed';
+        deliveryError = error.message;
+      }
+
+      await query(
+        `INSERT INTO workflow_notification_log (
+           service_request_id, notification_rule_id, trigger_event, notification_type,
+           recipient_employee_id, recipient_email, recipient_type, email_template_used,
+           delivery_status, delivery_error
+         ) VALUES ($1, $2, $3, 'email', $4, $5, 'employee', $6, $7, $8)`,
+        [row.service_request_id, rule.id, rule.trigger_event, employee.id, employee.email,
+          rule.email_template_name, deliveryStatus, deliveryError]
+      ).catch(error => console.error('Error logging SLA notification:', error));
+    }
+  }
+}
+
+export const slaMonitor = new SlaMonitor();
+
+export default {
+  validateCalendar,
+  validateSlaPolicy,
+  addBusinessMinutes,
+  selectSlaPolicy,
+  computeSlaDueTimes,
+  slaTargetState,
+  slaMonitor
+};
@@ -0,0 +1,140 @@
+// Tests for slaService — business-hours arithmetic, policy selection,
+// target states and payload validation are pure and pinned here. The
+// SlaMonitor's queries and notifications need a real database.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  addBusinessMinutes,
+  selectSlaPolicy,
+  computeSlaDueTimes,
+  slaTargetState,
+  validateCalendar,
+  validateSlaPolicy,
+} from './slaService.js';
+
+// Mon-Fri 08:00-17:00 Pacific
+const weekdays = { timezone: 'America/Los_Angeles', weeklyHours: {}, holidays: [] };
+for (const day of [1, 2, 3, 4, 5]) weekdays.weeklyHours[day] = { start: '08:00', end: '17:00' };
+
+// ----- addBusinessMinutes -----
+
+test('addBusinessMinutes: no calendar runs 24x7', () => {
+  const due = addBusinessMinutes('2026-10-17T23:30:00Z', 90, null);
+  assert.equal(due.toISOString(), '2026-10-18T01:00:00.000Z');
+});
+
+test('addBusinessMinutes: counts inside the same business day', () => {
+  // Tue 2026-10-13 09:00 PDT = 16:00Z
+  const due = addBusinessMinutes('2026-10-13T16:00:00Z', 120, weekdays);
+  assert.equal(due.toISOString(), '2026-10-13T18:00:00.000Z');
+});
+
+test('addBusinessMinutes: carries the remainder over to the next opening', () => {
+  // Tue 16:00 PDT with 2h to go -> 1h Tuesday, 1h from Wednesday 08:00
+  const due = addBusinessMinutes('2026-10-13T23:00:00Z', 120, weekdays);
+  assert.equal(due.toISOString(), '2026-10-14T16:00:00.000Z');
+});
+
+test('addBusinessMinutes: a Friday evening request starts counting Monday morning', () => {
+  // Fri 2026-10-16 20:00 PDT = Sat 03:00Z
+  const due = addBusinessMinutes('2026-10-17T03:00:00Z', 60, weekdays);
+  assert.equal(due.toISOString(), '2026-10-19T16:00:00.000Z');
+});
+
+test('addBusinessMinutes: skips holidays', () => {
+  const calendar = { ...weekdays, holidays: ['2026-10-19'] };
+  const due = addBusinessMinutes('2026-10-17T03:00:00Z', 60, calendar);
+  assert.equal(due.toISOString(), '2026-10-20T16:00:00.000Z');
+});
+
+test('addBusinessMinutes: follows the DST change in the calendar timezone', () => {
+  // Fri 2026-10-30 16:30 PDT, 1h -> 30 min Friday, 30 min Monday 11/2 at 08:00 PST (16:00Z)
+  const due = addBusinessMinutes('2026-10-30T23:30:00Z', 60, weekdays);
+  assert.equal(due.toISOString(), '2026-11-02T16:30:00.000Z');
+});
+
+test('addBusinessMinutes: a calendar that never opens gives null', () => {
+  assert.equal(addBusinessMinutes('2026-10-13T16:00:00Z', 60, { timezone: 'UTC', weeklyHours: {} }), null);
+});
+
+// ----- selectSlaPolicy -----
+
+const policies = [
+  { id: 'default', business_id: null, urgency_level_id: null, is_active: true },
+  { id: 'emergency', business_id: null, urgency_level_id: 'u-emergency', is_active: true },
+  { id: 'acme', business_id: 'b-acme', urgency_level_id: null, is_active: true },
+  { id: 'acme-emergency', business_id: 'b-acme', urgency_level_id: 'u-emergency', is_active: true },
+  { id: 'inactive', business_id: 'b-other', urgency_level_id: null, is_active: false },
+];
+
+test('selectSlaPolicy: business + urgency beats business beats urgency beats default', () => {
+  assert.equal(selectSlaPolicy(policies, { businessId: 'b-acme', urgencyLevelId: 'u-emergency' }).id, 'acme-emergency');
+  assert.equal(selectSlaPolicy(policies, { businessId: 'b-acme', urgencyLevelId: 'u-normal' }).id, 'acme');
+  assert.equal(selectSlaPolicy(policies, { businessId: 'b-x', urgencyLevelId: 'u-emergency' }).id, 'emergency');
+  assert.equal(selectSlaPolicy(policies, { businessId: 'b-x', urgencyLevelId: 'u-normal' }).id, 'default');
+});
+
+test('selectSlaPolicy: ignores inactive policies and returns null with no match', () => {
+  assert.equal(selectSlaPolicy(policies, { businessId: 'b-other', urgencyLevelId: null }).id, 'default');
+  assert.equal(selectSlaPolicy(policies.slice(1), { businessId: 'b-x', urgencyLevelId: 'u-normal' }), null);
+});
+
+// ----- computeSlaDueTimes -----
+
+test('computeSlaDueTimes: leaves an unset target null', () => {
+  const due = computeSlaDueTimes(
+    { acknowledge_target_minutes: 30, resolve_target_minutes: null },
+    '2026-10-13T16:00:00Z',
+    null
+  );
+  assert.equal(due.acknowledgeDueAt.toISOString(), '2026-10-13T16:30:00.000Z');
+  assert.equal(due.resolveDueAt, null);
+});
+
+// ----- slaTargetState -----
+
+test('slaTargetState: met, missed, breached, warning and on track', () => {
+  const dueAt = '2026-10-13T18:00:00Z';
+  const now = new Date('2026-10-13T17:45:00Z');
+  assert.equal(slaTargetState({ dueAt: null, now }), null);
+  assert.equal(slaTargetState({ dueAt, metAt: '2026-10-13T17:59:00Z', now }), 'met');
+  assert.equal(slaTargetState({ dueAt, metAt: '2026-10-13T18:01:00Z', now }), 'missed');
+  assert.equal(slaTargetState({ dueAt, now: new Date('2026-10-13T18:00:00Z') }), 'breached');
+  assert.equal(slaTargetState({ dueAt, now, warningMinutes: 30 }), 'warning');
+  assert.equal(slaTargetState({ dueAt, now, warningMinutes: 10 }), 'on_track');
+});
+
+// ----- validation -----
+
+test('validateCalendar: normalises hours and holidays', () => {
+  const calendar = validateCalendar({
+    name: ' Office ',
+    timezone: 'America/Denver',
+    weeklyHours: { 1: { start: '09:00', end: '17:30' }, 6: null },
+    holidays: ['2026-12-25', '2026-11-26', '2026-12-25'],
+  });
+  assert.deepEqual(calendar, {
+    name: 'Office',
+    timezone: 'America/Denver',
+    weeklyHours: { 1: { start: '09:00', end: '17:30' } },
+    holidays: ['2026-11-26', '2026-12-25'],
+  });
+});
+
+test('validateCalendar: rejects bad input with a 400', () => {
+  assert.throws(() => validateCalendar({ name: 'x', weeklyHours: {} }), { statusCode: 400 });
+  assert.throws(() => validateCalendar({ name: 'x', weeklyHours: { 1: { start: '17:00', end: '09:00' } } }), /end after/);
+  assert.throws(() => validateCalendar({ name: 'x', timezone: 'Mars/Olympus', weeklyHours: { 1: { start: '09:00', end: '17:00' } } }), /timezone/);
+});
+
+test('validateSlaPolicy: needs at least one target and a sane order', () => {
+  assert.throws(() => validateSlaPolicy({ name: 'x' }), { statusCode: 400 });
+  assert.throws(() => validateSlaPolicy({ name: 'x', acknowledgeTargetMinutes: 60, resolveTargetMinutes: 30 }), /shorter/);
+  assert.throws(() => validateSlaPolicy({ name: 'x', resolveTargetMinutes: -5 }), /positive/);
+
+  const policy = validateSlaPolicy({ name: 'Emergency', urgencyLevelId: 'u-1', acknowledgeTargetMinutes: '15', resolveTargetMinutes: 240 });
+  assert.equal(policy.acknowledgeTargetMinutes, 15);
+  assert.equal(policy.businessId, null);
+  assert.equal(policy.isActive, true);
+});
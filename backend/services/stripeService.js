@@ -1,4 +1,5 @@
 import Stripe from 'stripe';
+import { toMinorUnits } from './currencyService.js';
 
 // Initialize Stripe with secret key from environment
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
@@ -44,7 +45,7 @@ export async function createOrGetCustomer({ email, name, metadata = {} }) {
 /**
  * Create a payment intent for an invoice
  * @param {Object} params - Payment intent parameters
- * @param {number} params.amount - Amount in cents
+ * @param {number} params.amount - Amount in dollars (major units of the currency)
  * @param {string} params.currency - Currency code (e.g., 'usd')
  * @param {string} params.customerId - Stripe customer ID
  * @param {string} params.invoiceId - Internal invoice ID
@@ -62,7 +63,7 @@ export async function createPaymentIntent({
 }) {
   try {
     const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(amount * 100), // Convert to cents
+      amount: toMinorUnits(amount, currency), // Convert to cents (whole units for JPY)
       currency,
       customer: customerId,
       description,
@@ -75,7 +76,7 @@ export async function createPaymentIntent({
       },
     });
 
-    console.log(`✅ Created payment intent: ${paymentIntent.id} for $${amount}`);
+    console.log(`✅ Created payment intent: ${paymentIntent.id} for ${amount} ${currency}`);
     return paymentIntent;
   } catch (error) {
     console.error('❌ Error creating payment intent:', error);
@@ -170,6 +171,176 @@ export async function getPaymentMethod(paymentMethodId) {
   }
 }
 
+/**
+ * Create a Payment Link for the full amount of an invoice. Unlike a
+ * Checkout Session it does not expire, so one link can go out in every
+ * reminder; it closes after one completed payment.
+ * @param {Object} params - Payment link parameters
+ * @param {number} params.amount - Amount in dollars
+ * @param {string} params.currency - Currency code (e.g., 'usd')
+ * @param {string} params.invoiceId - Internal invoice ID
+ * @param {string} params.invoiceNumber - Invoice number shown at checkout
+ * @param {string} params.redirectUrl - Where to send the payer afterwards
+ * @returns {Promise<Object>} Stripe payment link object
+ */
+export async function createInvoicePaymentLink({
+  amount,
+  currency = 'usd',
+  invoiceId,
+  invoiceNumber,
+  redirectUrl,
+}) {
+  try {
+    const price = await stripe.prices.create({
+      currency,
+      unit_amount: toMinorUnits(amount, currency), // Convert to cents (whole units for JPY)
+      product_data: { name: `Invoice ${invoiceNumber}` },
+    });
+
+    const paymentLink = await stripe.paymentLinks.create({
+      line_items: [{ price: price.id, quantity: 1 }],
+      metadata: { invoiceId, invoiceNumber },
+      payment_intent_data: {
+        description: `Invoice ${invoiceNumber}`,
+        metadata: { invoiceId, invoiceNumber },
+      },
+      after_completion: {
+        type: 'redirect',
+        redirect: { url: redirectUrl },
+      },
+      restrictions: { completed_sessions: { limit: 1 } },
+    });
+
+    console.log(`✅ Created payment link: ${paymentLink.id} for invoice ${invoiceNumber}`);
+    return paymentLink;
+  } catch (error) {
+    console.error('❌ Error creating payment link:', error);
+    throw error;
+  }
+}
+
+/**
+ * Create a SetupIntent to save a card or US bank account to a customer for
+ * later off-session charges (autopay)
+ * @param {Object} params - Setup intent parameters
+ * @param {string} params.customerId - Stripe customer ID
+ * @param {Object} params.metadata - Additional metadata
+ * @returns {Promise<Object>} Stripe setup intent object
+ */
+export async function createSetupIntent({ customerId, metadata = {} }) {
+  try {
+    const setupIntent = await stripe.setupIntents.create({
+      customer: customerId,
+      usage: 'off_session',
+      payment_method_types: ['card', 'us_bank_account'],
+      metadata,
+    });
+
+    console.log(`✅ Created setup intent: ${setupIntent.id}`);
+    return setupIntent;
+  } catch (error) {
+    console.error('❌ Error creating setup intent:', error);
+    throw error;
+  }
+}
+
+/**
+ * List the cards and bank accounts saved to a customer
+ * @param {string} customerId - Stripe customer ID
+ * @returns {Promise<Array>} Stripe payment method objects
+ */
+export async function listCustomerPaymentMethods(customerId) {
+  try {
+    const paymentMethods = await stripe.customers.listPaymentMethods(customerId, { limit: 20 });
+    return paymentMethods.data.filter(method => ['card', 'us_bank_account'].includes(method.type));
+  } catch (error) {
+    console.error('❌ Error listing payment methods:', error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a saved payment method from its customer
+ * @param {string} paymentMethodId - Stripe payment method ID
+ * @returns {Promise<Object>} Detached payment method
+ */
+export async function detachPaymentMethod(paymentMethodId) {
+  try {
+    const paymentMethod = await stripe.paymentMethods.detach(paymentMethodId);
+    console.log(`✅ Detached payment method: ${paymentMethodId}`);
+    return paymentMethod;
+  } catch (error) {
+    console.error('❌ Error detaching payment method:', error);
+    throw error;
+  }
+}
+
+/**
+ * Charge a saved payment method without the customer present. Cards settle
+ * immediately; bank debits come back 'processing' and finish by webhook.
+ * Declines throw, with the failed intent on error.payment_intent.
+ * @param {Object} params - Charge parameters
+ * @param {number} params.amount - Amount in dollars
+ * @param {string} params.currency - Currency code (e.g., 'usd')
+ * @param {string} params.customerId - Stripe customer ID
+ * @param {Object} params.paymentMethod - Saved Stripe payment method
+ * @param {string} params.invoiceId - Internal invoice ID
+ * @param {string} params.description - Payment description
+ * @param {Object} params.metadata - Additional metadata
+ * @param {string} params.idempotencyKey - Makes a repeated attempt return the first charge
+ * @returns {Promise<Object>} Stripe payment intent object
+ */
+export async function chargeSavedPaymentMethod({
+  amount,
+  currency = 'usd',
+  customerId,
+  paymentMethod,
+  invoiceId,
+  description,
+  metadata = {},
+  idempotencyKey,
+}) {
+  const paymentIntent = await stripe.paymentIntents.create({
+    amount: toMinorUnits(amount, currency), // Convert to cents (whole units for JPY)
+    currency,
+    customer: customerId,
+    payment_method: paymentMethod.id,
+    payment_method_types: [paymentMethod.type],
+    off_session: true,
+    confirm: true,
+    description,
+    metadata: {
+      ...metadata,
+      invoiceId,
+    },
+  }, { idempotencyKey });
+
+  console.log(`✅ Charged saved payment method for invoice ${invoiceId}: ${paymentIntent.id} (${paymentIntent.status})`);
+  return paymentIntent;
+}
+
+/**
+ * Refund part or all of a payment intent's charge. Bank debit refunds may
+ * stay 'pending' for days; the refund is recorded when it is created.
+ * @param {Object} params - Refund parameters
+ * @param {string} params.paymentIntentId - Payment intent to refund
+ * @param {number} params.amount - Amount in dollars
+ * @param {string} params.currency - Currency of the original charge (e.g., 'usd')
+ * @param {Object} params.metadata - Additional metadata
+ * @param {string} params.idempotencyKey - Makes a repeated attempt return the first refund
+ * @returns {Promise<Object>} Stripe refund object
+ */
+export async function createRefund({ paymentIntentId, amount, currency = 'usd', metadata = {}, idempotencyKey }) {
+  const refund = await stripe.refunds.create({
+    payment_intent: paymentIntentId,
+    amount: toMinorUnits(amount, currency), // Convert to cents (whole units for JPY)
+    metadata,
+  }, { idempotencyKey });
+
+  console.log(`✅ Refunded ${amount} of payment intent ${paymentIntentId}: ${refund.id} (${refund.status})`);
+  return refund;
+}
+
 export default {
   stripe,
   createOrGetCustomer,
@@ -179,4 +350,10 @@ export default {
   cancelPaymentIntent,
   constructWebhookEvent,
   getPaymentMethod,
+  createInvoicePaymentLink,
+  createSetupIntent,
+  listCustomerPaymentMethods,
+  detachPaymentMethod,
+  chargeSavedPaymentMethod,
+  createRefund,
 };
@@ -0,0 +1,534 @@
+/**
+ * Reconciles invoices from Stripe webhook events.
+ *
+ * The webhook route verifies the signature and hands the event here. Each
+ * event is claimed in payment_events by its Stripe ID before it is applied,
+ * so a redelivery of an event already processed is skipped; one that failed
+ * is retried when Stripe redelivers it. The invoice change and its
+ * invoice_history entry are written in one transaction with the event's
+ * status; payments, refunds and lost disputes are entered in the invoice's
+ * payment ledger (invoicePaymentService).
+ *
+ * Invoices are matched by the invoiceId in the payment metadata (payment
+ * intents, payment links and autopay charges all carry it), then by the
+ * stored payment intent or charge ID.
+ *
+ * Recorded events in fixtures/stripe-webhooks are templates for testing
+ * without a Stripe account (scripts/replay-stripe-webhooks.js).
+ */
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { query, transaction } from '../config/database.js';
+import { websocketService } from './websocketService.js';
+import { recordInvoiceHistory } from './invoiceService.js';
+import { recordAutopayFailure } from './autopayService.js';
+import {
+  PAYMENT_METHODS,
+  recordPayment,
+  recordRefund,
+  recordOverpaymentRefund,
+  creditUnappliedPayment
+} from './invoicePaymentService.js';
+import { fromMinorUnits } from './currencyService.js';
+
+export const HANDLED_EVENT_TYPES = [
+  'payment_intent.succeeded',
+  'payment_intent.payment_failed',
+  'payment_intent.canceled',
+  'charge.refunded',
+  'charge.dispute.created',
+  'charge.dispute.closed'
+];
+
+export const WEBHOOK_FIXTURES_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '../fixtures/stripe-webhooks'
+);
+
+// Statuses a payment can no longer move out of by itself
+const SETTLED_STATUSES = ['paid', 'refunded', 'comped'];
+
+// A claimed event still not finished after this long is taken to have died
+// with its process and may be claimed again
+const CLAIM_TIMEOUT_MINUTES = 5;
+
+function idOf(value) {
+  return typeof value === 'string' ? value : value?.id ?? null;
+}
+
+/**
+ * Fill a recorded event's {{placeholders}}. A string that is only a
+ * placeholder takes the value's type, so amounts stay numbers.
+ */
+export function renderWebhookFixture(template, values) {
+  const render = (node) => {
+    if (typeof node === 'string') {
+      const whole = node.match(/^\{\{(\w+)\}\}$/);
+      if (whole && whole[1] in values) return values[whole[1]];
+      return node.replace(/\{\{(\w+)\}\}/g, (placeholder, name) => (name in values ? String(values[name]) : placeholder));
+    }
+    if (Array.isArray(node)) return node.map(render);
+    if (node && typeof node === 'object') {
+      return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, render(value)]));
+    }
+    return node;
+  };
+  return render(template);
+}
+
+/**
+ * A recorded event from fixtures/stripe-webhooks, e.g.
+ * loadWebhookFixture('charge.refunded', { invoiceId, ... }).
+ */
+export async function loadWebhookFixture(name, values) {
+  const template = JSON.parse(await fs.readFile(path.join(WEBHOOK_FIXTURES_DIR, `${name}.json`), 'utf8'));
+  return renderWebhookFixture(template, values);
+}
+
+/**
+ * The fields of a handled event that reconciliation needs, or null for
+ * event types that are not handled.
+ */
+export function summarizeStripeEvent(event) {
+  if (!HANDLED_EVENT_TYPES.includes(event?.type)) return null;
+
+  const object = event.data?.object || {};
+  // Stripe amounts are in minor units of the charge's currency (cents, or yen)
+  const toAmount = minor => fromMinorUnits(minor, object.currency || undefined);
+  const summary = {
+    eventId: event.id,
+    type: event.type,
+    objectId: object.id ?? null,
+    invoiceId: object.metadata?.invoiceId || null,
+    paymentIntentId: null,
+    chargeId: null,
+    amount: null,
+    currency: object.currency || null
+  };
+
+  if (event.type.startsWith('payment_intent.')) {
+    return {
+      ...summary,
+      paymentIntentId: object.id,
+      chargeId: idOf(object.latest_charge),
+      amount: toAmount(event.type === 'payment_intent.succeeded' ? object.amount_received ?? object.amount : object.amount),
+      paymentMethodId: idOf(object.payment_method),
+      paymentMethodType: object.payment_method_types?.[0] || 'card',
+      failureReason: object.last_payment_error?.message || null,
+      autopay: object.metadata?.autopay === 'true'
+    };
+  }
+  if (event.type === 'charge.refunded') {
+    return {
+      ...summary,
+      paymentIntentId: idOf(object.payment_intent),
+      chargeId: object.id,
+      amount: toAmount(object.amount_refunded)
+    };
+  }
+  // charge.dispute.*
+  return {
+    ...summary,
+    paymentIntentId: idOf(object.payment_intent),
+    chargeId: idOf(object.charge),
+    amount: toAmount(object.amount),
+    disputeStatus: object.status || null,
+    disputeReason: object.reason || null
+  };
+}
+
+/**
+ * How an event changes an invoice, or null when the invoice already
+ * reflects it. Payments, refunds and lost disputes also carry the ledger
+ * entry to record (ledger: {entryType, amount}).
+ *
+ * Refunds are matched to the ledger payment for the charge: Stripe reports
+ * the charge's cumulative refunded amount, so only the part not yet in the
+ * ledger is recorded (refunds issued from the admin ledger are already).
+ * What the payment no longer holds on the invoice (an overpayment moved to
+ * credit) is taken off the credit balance instead (overpaymentRefunded).
+ *
+ * A payment for an invoice that is no longer issued (voided while the client
+ * was paying) goes to the business's credit balance instead (action
+ * 'payment_credited'), so the webhook still succeeds.
+ *
+ * @param {object} summary - from summarizeStripeEvent
+ * @param {{invoice_status: string, payment_status: string, total_amount: string|number, amount_paid: string|number,
+ *          due_date: string|null, stripe_payment_intent_id: string|null,
+ *          charge_payment_id: string|null, charge_payment_amount: string|number|null,
+ *          charge_refunded: string|number, charge_returned: string|number}} invoice
+ *   charge_* describe the ledger payment for the event's charge: its amount, what was
+ *   refunded through Stripe, and everything returned (refunds to credit, chargebacks and
+ *   overpayment moved to credit too)
+ * @param {string} today - YYYY-MM-DD
+ * @returns {{action: string, paymentStatus: string, reason?: string|null, details: object,
+ *            ledger?: {entryType: string, amount: number}, overpaymentRefunded?: number,
+ *            credit?: {amount: number}}|null}
+ */
+export function invoiceChangeForEvent(summary, invoice, today) {
+  const from = invoice.payment_status;
+  const unpaid = invoice.due_date && invoice.due_date < today ? 'overdue' : 'due';
+  const total = parseFloat(invoice.total_amount);
+  const amountPaid = parseFloat(invoice.amount_paid) || 0;
+  // The status once `netPaid` is what the invoice holds; comped stays comped
+  const statusFor = (netPaid, settled) => {
+    if (from === 'comped') return from;
+    if (netPaid >= total) return 'paid';
+    return netPaid > 0 ? 'partial' : settled;
+  };
+
+  switch (summary.type) {
+    case 'payment_intent.succeeded': {
+      if (invoice.invoice_status !== 'issued') {
+        return {
+          action: 'payment_credited',
+          paymentStatus: from,
+          details: { from, to: from, amount: summary.amount, invoiceStatus: invoice.invoice_status },
+          credit: { amount: summary.amount }
+        };
+      }
+      // Recorded even on a paid invoice: money received twice goes to credit
+      const to = statusFor(amountPaid + summary.amount, unpaid);
+      return {
+        action: 'payment_received',
+        paymentStatus: to,
+        details: { from, to, amount: summary.amount, paymentMethod: summary.paymentMethodType },
+        ledger: { entryType: 'payment', amount: summary.amount }
+      };
+    }
+
+    case 'payment_intent.payment_failed':
+      // A partly paid invoice keeps its balance; the client can try again
+      if ([...SETTLED_STATUSES, 'failed', 'partial'].includes(from)) return null;
+      return {
+        action: 'payment_failed',
+        paymentStatus: 'failed',
+        reason: summary.failureReason,
+        details: { from, to: 'failed' }
+      };
+
+    case 'payment_intent.canceled': {
+      // Only the attempt the invoice is waiting on; stale intents are
+      // cancelled whenever the client reopens the payment form
+      if (!['pending', 'failed'].includes(from) || invoice.stripe_payment_intent_id !== summary.paymentIntentId) {
+        return null;
+      }
+      const to = amountPaid > 0 ? 'partial' : unpaid;
+      return { action: 'payment_canceled', paymentStatus: to, details: { from, to } };
+    }
+
+    case 'charge.refunded': {
+      if (!invoice.charge_payment_id) return null;
+      const totalRefunded = summary.amount ?? 0;
+      const refundedNow = Math.round((totalRefunded - (parseFloat(invoice.charge_refunded) || 0)) * 100) / 100;
+      if (refundedNow <= 0) return null;
+      const returnable = parseFloat(invoice.charge_payment_amount) - (parseFloat(invoice.charge_returned) || 0);
+      const amount = Math.round(Math.max(Math.min(refundedNow, returnable), 0) * 100) / 100;
+      const overpaymentRefunded = Math.round((refundedNow - amount) * 100) / 100;
+      const to = statusFor(amountPaid - amount, 'refunded');
+      return {
+        action: 'refunded',
+        paymentStatus: to,
+        details: { from, to, amount, totalRefunded, ...(overpaymentRefunded > 0 ? { overpaymentRefunded } : {}) },
+        ...(amount > 0 ? { ledger: { entryType: 'refund', amount } } : {}),
+        ...(overpaymentRefunded > 0 ? { overpaymentRefunded } : {})
+      };
+    }
+
+    case 'charge.dispute.created':
+      return {
+        action: 'dispute_opened',
+        paymentStatus: from,
+        reason: summary.disputeReason,
+        details: { amount: summary.amount, disputeStatus: summary.disputeStatus }
+      };
+
+    case 'charge.dispute.closed': {
+      // A lost dispute takes the money back, so the invoice is owed again
+      const remaining = invoice.charge_payment_id
+        ? parseFloat(invoice.charge_payment_amount) - (parseFloat(invoice.charge_returned) || 0)
+        : 0;
+      const amount = Math.round(Math.min(summary.amount ?? 0, remaining) * 100) / 100;
+      const chargedBack = summary.disputeStatus === 'lost' && amount > 0;
+      const to = chargedBack ? statusFor(amountPaid - amount, unpaid) : from;
+      return {
+        action: 'dispute_closed',
+        paymentStatus: to,
+        details: { from, to, amount: summary.amount, disputeStatus: summary.disputeStatus },
+        ...(chargedBack ? { ledger: { entryType: 'chargeback', amount } } : {})
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Claim an event. Returns the payment_events row ID, or null when the event
+ * was already processed (or is being processed by another delivery). A
+ * failed event, or one left 'received' past CLAIM_TIMEOUT_MINUTES, is
+ * claimed again.
+ */
+async function claimEvent(event, summary, source) {
+  const result = await query(`
+    INSERT INTO payment_events (
+      stripe_event_id, event_type, livemode, stripe_object_id, amount, currency,
+      source, payload, stripe_created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, to_timestamp($9))
+    ON CONFLICT (stripe_event_id) DO UPDATE
+       SET attempts = payment_events.attempts + 1, status = 'received', error = NULL, source = EXCLUDED.source,
+           received_at = NOW()
+     WHERE payment_events.status = 'failed'
+        OR (payment_events.status = 'received'
+            AND payment_events.received_at < NOW() - make_interval(mins => $10))
+    RETURNING id
+  `, [
+    event.id,
+    event.type,
+    event.livemode === true,
+    summary?.objectId ?? event.data?.object?.id ?? null,
+    summary?.amount ?? null,
+    summary?.currency ?? null,
+    source,
+    JSON.stringify(event),
+    event.created ?? null,
+    CLAIM_TIMEOUT_MINUTES
+  ]);
+  return result.rows[0]?.id ?? null;
+}
+
+async function findInvoice(db, summary) {
+  const result = await db.query(`
+    SELECT i.id, i.invoice_number, i.business_id, i.invoice_status, i.payment_status, i.total_amount, i.amount_paid,
+           i.due_date::date::text AS due_date, i.stripe_payment_intent_id, CURRENT_DATE::text AS today,
+           p.id AS charge_payment_id, p.method AS charge_payment_method, p.amount AS charge_payment_amount,
+           COALESCE((SELECT SUM(r.amount) FROM invoice_payments r
+                      WHERE r.refunded_payment_id = p.id AND r.entry_type = 'refund' AND r.method <> 'credit'), 0)
+             - COALESCE((SELECT SUM(c.amount) FROM business_credit_transactions c
+                          WHERE c.invoice_payment_id = p.id AND c.reason = 'overpayment_refunded'), 0) AS charge_refunded,
+           COALESCE((SELECT SUM(r.amount) FROM invoice_payments r WHERE r.refunded_payment_id = p.id), 0) AS charge_returned
+      FROM invoices i
+      LEFT JOIN LATERAL (
+        SELECT id, method, amount
+          FROM invoice_payments
+         WHERE invoice_id = i.id
+           AND entry_type = 'payment'
+           AND (stripe_charge_id = $3 OR stripe_payment_intent_id = $2)
+         ORDER BY created_at
+         LIMIT 1
+      ) p ON true
+     WHERE i.id::text = $1 OR i.stripe_payment_intent_id = $2 OR i.stripe_charge_id = $3
+     ORDER BY (i.id::text = $1) DESC NULLS LAST
+     LIMIT 1
+     FOR UPDATE OF i
+  `, [summary.invoiceId, summary.paymentIntentId, summary.chargeId]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Apply a change and write its invoice_history entry. Ledger entries go
+ * through the payment ledger, which recomputes the invoice's balance and
+ * status (and skips a payment or refund it already holds).
+ *
+ * @returns {Promise<object|null>} the updated invoice, or null when nothing changed
+ */
+async function applyChange(db, invoice, summary, change, history) {
+  const ledgerOptions = { historyAction: change.action, historyDetails: history.details };
+  const chargePayment = {
+    id: invoice.charge_payment_id,
+    method: invoice.charge_payment_method,
+    stripe_charge_id: summary.chargeId
+  };
+
+  switch (summary.type) {
+    case 'payment_intent.succeeded': {
+      if (change.credit) {
+        await creditUnappliedPayment(db, invoice, {
+          amount: change.credit.amount,
+          stripePaymentIntentId: summary.paymentIntentId,
+          stripeEventId: summary.eventId
+        });
+        return null;
+      }
+      await db.query(`
+        UPDATE invoices
+           SET stripe_payment_intent_id = $2,
+               stripe_charge_id = COALESCE($3, stripe_charge_id),
+               stripe_payment_method_id = $4,
+               payment_method = $5,
+               updated_at = NOW()
+         WHERE id = $1
+      `, [invoice.id, summary.paymentIntentId, summary.chargeId, summary.paymentMethodId, summary.paymentMethodType]);
+      const recorded = await recordPayment(db, invoice.id, {
+        amount: change.ledger.amount,
+        method: PAYMENT_METHODS.includes(summary.paymentMethodType) ? summary.paymentMethodType : 'other',
+        reference: summary.paymentIntentId,
+        stripePaymentIntentId: summary.paymentIntentId,
+        stripeChargeId: summary.chargeId,
+        stripeEventId: summary.eventId
+      }, ledgerOptions);
+      return recorded?.invoice ?? null;
+    }
+
+    case 'charge.refunded': {
+      if (change.overpaymentRefunded) {
+        await recordOverpaymentRefund(db, invoice.id, chargePayment, change.overpaymentRefunded, {
+          stripeEventId: summary.eventId
+        });
+      }
+      if (!change.ledger) return null;
+      const recorded = await recordRefund(db, invoice.id, chargePayment, {
+        amount: change.ledger.amount,
+        reason: 'Refunded in Stripe',
+        destination: 'original',
+        stripeEventId: summary.eventId
+      }, ledgerOptions);
+      return recorded?.invoice ?? null;
+    }
+
+    case 'charge.dispute.created':
+    case 'charge.dispute.closed': {
+      const result = await db.query(`
+        UPDATE invoices
+           SET stripe_dispute_id = $2,
+               dispute_status = $3,
+               dispute_amount = $4,
+               disputed_at = COALESCE(disputed_at, NOW()),
+               updated_at = NOW()
+         WHERE id = $1
+         RETURNING id, invoice_number, payment_status, total_amount, amount_paid, currency, business_id
+      `, [invoice.id, summary.objectId, summary.disputeStatus, summary.amount]);
+      if (change.ledger) {
+        const recorded = await recordRefund(db, invoice.id, chargePayment, {
+          entryType: 'chargeback',
+          amount: change.ledger.amount,
+          reason: history.reason || 'Dispute lost',
+          destination: 'original',
+          stripeEventId: summary.eventId
+        }, ledgerOptions);
+        return recorded?.invoice ?? null;
+      }
+      await recordInvoiceHistory(db, { invoiceId: invoice.id, ...history });
+      return result.rows[0];
+    }
+
+    default: {
+      const result = await db.query(`
+        UPDATE invoices
+           SET payment_status = $2, updated_at = NOW()
+         WHERE id = $1
+         RETURNING id, invoice_number, payment_status, total_amount, amount_paid, currency, business_id
+      `, [invoice.id, change.paymentStatus]);
+      await recordInvoiceHistory(db, { invoiceId: invoice.id, ...history });
+      return result.rows[0];
+    }
+  }
+}
+
+async function notifyInvoiceUpdate(invoice, type) {
+  const clientResult = await query(
+    `SELECT id FROM users WHERE business_id = $1 LIMIT 1`,
+    [invoice.business_id]
+  );
+  const update = {
+    invoiceId: invoice.id,
+    invoiceNumber: invoice.invoice_number,
+    totalAmount: invoice.total_amount,
+    paymentStatus: invoice.payment_status,
+    type
+  };
+  if (clientResult.rows.length > 0) {
+    websocketService.notifyClientOfInvoiceUpdate(clientResult.rows[0].id, update);
+  }
+  websocketService.broadcastInvoiceUpdateToAdmins(update);
+}
+
+/**
+ * Apply one verified Stripe event.
+ *
+ * @param {object} event - Stripe event
+ * @param {{source?: 'webhook'|'replay'}} options
+ * @returns {Promise<{duplicate: boolean, status?: string, action?: string|null, invoice?: object|null}>}
+ *   invoice is the updated row when the event changed one
+ */
+export async function processStripeEvent(event, { source = 'webhook' } = {}) {
+  const summary = summarizeStripeEvent(event);
+  const paymentEventId = await claimEvent(event, summary, source);
+  if (!paymentEventId) return { duplicate: true };
+
+  const finish = (status, { invoiceId = null, error = null } = {}) => query(`
+    UPDATE payment_events
+       SET status = $2, invoice_id = COALESCE($3, invoice_id), error = $4, processed_at = NOW()
+     WHERE id = $1
+  `, [paymentEventId, status, invoiceId, error]);
+
+  if (!summary) {
+    await finish('ignored', { error: 'Unhandled event type' });
+    return { duplicate: false, status: 'ignored', action: null, invoice: null };
+  }
+
+  let outcome;
+  try {
+    outcome = await transaction(async (client) => {
+      const invoice = await findInvoice(client, summary);
+      if (!invoice) return null;
+
+      // Autopay failures are recorded (and emailed) by the autopay service
+      const change = summary.type === 'payment_intent.payment_failed' && summary.autopay
+        ? null
+        : invoiceChangeForEvent(summary, invoice, invoice.today);
+
+      const updated = change
+        ? await applyChange(client, invoice, summary, change, {
+          action: change.action,
+          reason: change.reason || null,
+          details: { ...change.details, stripeEventId: event.id, source }
+        })
+        : null;
+      await client.query(`
+        UPDATE payment_events
+           SET status = 'processed', invoice_id = $2, error = NULL, processed_at = NOW()
+         WHERE id = $1
+      `, [paymentEventId, invoice.id]);
+      return { invoice, change, updated };
+    });
+  } catch (error) {
+    await finish('failed', { error: error.message });
+    throw error;
+  }
+
+  if (!outcome) {
+    await finish('ignored', { error: 'No matching invoice' });
+    return { duplicate: false, status: 'ignored', action: null, invoice: null };
+  }
+
+  if (summary.type === 'payment_intent.payment_failed' && summary.autopay) {
+    await recordAutopayFailure({ query }, outcome.invoice.id, summary.failureReason || 'The payment was declined', {
+      pendingOnly: true
+    });
+  } else if (outcome.updated) {
+    await notifyInvoiceUpdate(
+      outcome.updated,
+      outcome.updated.payment_status === 'paid' && outcome.change.action === 'payment_received' ? 'invoice_paid' : 'status_change'
+    );
+  }
+
+  return {
+    duplicate: false,
+    status: 'processed',
+    action: outcome.updated ? outcome.change.action : null,
+    invoice: outcome.updated
+  };
+}
+
+export default {
+  HANDLED_EVENT_TYPES,
+  WEBHOOK_FIXTURES_DIR,
+  renderWebhookFixture,
+  loadWebhookFixture,
+  summarizeStripeEvent,
+  invoiceChangeForEvent,
+  processStripeEvent
+};
@@ -0,0 +1,211 @@
+// Tests for stripeWebhookService — the recorded fixtures are rendered and
+// run through the pure event summary and invoice change, which decide what
+// each webhook does. Claiming and applying events needs Postgres.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  HANDLED_EVENT_TYPES,
+  renderWebhookFixture,
+  loadWebhookFixture,
+  summarizeStripeEvent,
+  invoiceChangeForEvent
+} from './stripeWebhookService.js';
+
+const values = {
+  invoiceId: '7d1f0c1e-0000-4000-8000-000000000001',
+  invoiceNumber: 'INV-2026-10-0001',
+  businessId: '7d1f0c1e-0000-4000-8000-0000000000b1',
+  amountCents: 25000,
+  refundAmountCents: 25000,
+  paymentIntentId: 'pi_fixture_1',
+  chargeId: 'ch_fixture_1',
+  created: 1792300000
+};
+
+const invoice = (overrides = {}) => ({
+  invoice_status: 'issued',
+  payment_status: 'due',
+  total_amount: '250.00',
+  amount_paid: '0.00',
+  due_date: '2026-10-31',
+  stripe_payment_intent_id: 'pi_fixture_1',
+  charge_payment_id: null,
+  charge_payment_amount: null,
+  charge_refunded: '0.00',
+  charge_returned: '0.00',
+  ...overrides
+});
+
+// A paid invoice whose Stripe payment is in the ledger
+const paidInvoice = (overrides = {}) => invoice({
+  payment_status: 'paid',
+  amount_paid: '250.00',
+  charge_payment_id: 'pay_1',
+  charge_payment_amount: '250.00',
+  ...overrides
+});
+
+const today = '2026-10-18';
+
+async function changeFor(name, invoiceOverrides, fixtureOverrides = {}) {
+  const event = await loadWebhookFixture(name, { ...values, ...fixtureOverrides });
+  return invoiceChangeForEvent(summarizeStripeEvent(event), invoice(invoiceOverrides), today);
+}
+
+// ----- renderWebhookFixture -----
+
+test('renderWebhookFixture: whole placeholders keep their type, embedded ones are text', () => {
+  assert.deepEqual(
+    renderWebhookFixture(
+      { amount: '{{amountCents}}', description: 'Invoice {{invoiceNumber}}', list: ['{{missing}}'] },
+      values
+    ),
+    { amount: 25000, description: 'Invoice INV-2026-10-0001', list: ['{{missing}}'] }
+  );
+});
+
+test('every handled event type has a fixture', async () => {
+  for (const type of HANDLED_EVENT_TYPES) {
+    const event = await loadWebhookFixture(type, values);
+    assert.equal(event.type, type);
+    assert.match(event.id, /^evt_fixture_/);
+  }
+});
+
+// ----- summarizeStripeEvent -----
+
+test('summarizeStripeEvent: payment intents carry the invoice, amounts in dollars', async () => {
+  const summary = summarizeStripeEvent(await loadWebhookFixture('payment_intent.succeeded', values));
+  assert.equal(summary.invoiceId, values.invoiceId);
+  assert.equal(summary.paymentIntentId, 'pi_fixture_1');
+  assert.equal(summary.chargeId, 'ch_fixture_1');
+  assert.equal(summary.amount, 250);
+  assert.equal(summary.paymentMethodType, 'card');
+  assert.equal(summary.autopay, false);
+});
+
+test('summarizeStripeEvent: zero-decimal currencies are not divided by 100', async () => {
+  const event = await loadWebhookFixture('payment_intent.succeeded', values);
+  const summary = summarizeStripeEvent({ ...event, data: { object: { ...event.data.object, currency: 'jpy' } } });
+  assert.equal(summary.amount, 25000);
+  assert.equal(summary.currency, 'jpy');
+});
+
+test('summarizeStripeEvent: disputes are matched by charge', async () => {
+  const summary = summarizeStripeEvent(await loadWebhookFixture('charge.dispute.created', values));
+  assert.equal(summary.invoiceId, null);
+  assert.equal(summary.chargeId, 'ch_fixture_1');
+  assert.equal(summary.disputeStatus, 'needs_response');
+  assert.equal(summary.disputeReason, 'product_not_received');
+});
+
+test('summarizeStripeEvent: unhandled types are skipped', () => {
+  assert.equal(summarizeStripeEvent({ id: 'evt_1', type: 'customer.created', data: { object: {} } }), null);
+});
+
+// ----- invoiceChangeForEvent -----
+
+test('invoiceChangeForEvent: success records a ledger payment', async () => {
+  assert.deepEqual(await changeFor('payment_intent.succeeded', { payment_status: 'pending' }), {
+    action: 'payment_received',
+    paymentStatus: 'paid',
+    details: { from: 'pending', to: 'paid', amount: 250, paymentMethod: 'card' },
+    ledger: { entryType: 'payment', amount: 250 }
+  });
+});
+
+test('invoiceChangeForEvent: a payment for a voided invoice goes to credit', async () => {
+  const change = await changeFor('payment_intent.succeeded', { invoice_status: 'void' });
+  assert.equal(change.action, 'payment_credited');
+  assert.equal(change.paymentStatus, 'due');
+  assert.deepEqual(change.credit, { amount: 250 });
+  assert.equal(change.ledger, undefined);
+});
+
+test('invoiceChangeForEvent: a payment short of the balance leaves the invoice partial', async () => {
+  const change = await changeFor('payment_intent.succeeded', { payment_status: 'due' }, { amountCents: 10000 });
+  assert.equal(change.paymentStatus, 'partial');
+  assert.deepEqual(change.ledger, { entryType: 'payment', amount: 100 });
+
+  const rest = await changeFor('payment_intent.succeeded', { payment_status: 'partial', amount_paid: '100.00' }, { amountCents: 15000 });
+  assert.equal(rest.paymentStatus, 'paid');
+});
+
+test('invoiceChangeForEvent: failure records the decline, never on a paid invoice', async () => {
+  const change = await changeFor('payment_intent.payment_failed', { payment_status: 'overdue' });
+  assert.equal(change.paymentStatus, 'failed');
+  assert.equal(change.reason, 'Your card has insufficient funds.');
+  assert.equal(await changeFor('payment_intent.payment_failed', { payment_status: 'paid' }), null);
+  assert.equal(await changeFor('payment_intent.payment_failed', { payment_status: 'partial' }), null);
+});
+
+test('invoiceChangeForEvent: cancelling the awaited attempt makes the invoice owed again', async () => {
+  assert.equal((await changeFor('payment_intent.canceled', { payment_status: 'pending' })).paymentStatus, 'due');
+  assert.equal(
+    (await changeFor('payment_intent.canceled', { payment_status: 'failed', due_date: '2026-10-01' })).paymentStatus,
+    'overdue'
+  );
+  assert.equal(await changeFor('payment_intent.canceled', { payment_status: 'pending', stripe_payment_intent_id: 'pi_other' }), null);
+  assert.equal(
+    (await changeFor('payment_intent.canceled', { payment_status: 'pending', amount_paid: '100.00' })).paymentStatus,
+    'partial'
+  );
+});
+
+test('invoiceChangeForEvent: partial then full refund', async () => {
+  const partial = await changeFor('charge.refunded', paidInvoice(), { refundAmountCents: 10000 });
+  assert.equal(partial.paymentStatus, 'partial');
+  assert.deepEqual(partial.details, { from: 'paid', to: 'partial', amount: 100, totalRefunded: 100 });
+  assert.deepEqual(partial.ledger, { entryType: 'refund', amount: 100 });
+
+  const full = await changeFor('charge.refunded', paidInvoice({
+    payment_status: 'partial', amount_paid: '150.00', charge_refunded: '100.00'
+  }));
+  assert.equal(full.paymentStatus, 'refunded');
+  assert.equal(full.ledger.amount, 150);
+
+  // Already in the ledger, e.g. issued from the admin ledger
+  assert.equal(await changeFor('charge.refunded', paidInvoice({
+    payment_status: 'refunded', amount_paid: '0.00', charge_refunded: '250.00'
+  })), null);
+  // No ledger payment for the charge
+  assert.equal(await changeFor('charge.refunded', { payment_status: 'paid' }), null);
+});
+
+test('invoiceChangeForEvent: refunding a credited overpayment takes it off the credit balance', async () => {
+  // 300.00 paid on a 250.00 invoice; 50.00 went to credit
+  const full = await changeFor('charge.refunded', paidInvoice({
+    charge_payment_amount: '300.00', charge_returned: '50.00'
+  }), { refundAmountCents: 30000 });
+  assert.equal(full.paymentStatus, 'refunded');
+  assert.deepEqual(full.ledger, { entryType: 'refund', amount: 250 });
+  assert.equal(full.overpaymentRefunded, 50);
+
+  // The invoice's part refunded already; only the overpayment is left
+  const overpaymentOnly = await changeFor('charge.refunded', paidInvoice({
+    payment_status: 'refunded', amount_paid: '0.00',
+    charge_payment_amount: '300.00', charge_refunded: '250.00', charge_returned: '300.00'
+  }), { refundAmountCents: 30000 });
+  assert.equal(overpaymentOnly.ledger, undefined);
+  assert.equal(overpaymentOnly.overpaymentRefunded, 50);
+});
+
+test('invoiceChangeForEvent: a lost dispute charges back the payment and reopens the invoice', async () => {
+  const opened = await changeFor('charge.dispute.created', paidInvoice());
+  assert.equal(opened.action, 'dispute_opened');
+  assert.equal(opened.paymentStatus, 'paid');
+  assert.equal(opened.ledger, undefined);
+
+  const closed = await changeFor('charge.dispute.closed', paidInvoice({ due_date: '2026-10-01' }));
+  assert.equal(closed.action, 'dispute_closed');
+  assert.equal(closed.paymentStatus, 'overdue');
+  assert.deepEqual(closed.ledger, { entryType: 'chargeback', amount: 250 });
+
+  // Only what was not refunded already can be charged back
+  const afterRefund = await changeFor('charge.dispute.closed', paidInvoice({
+    payment_status: 'partial', amount_paid: '150.00', charge_returned: '100.00'
+  }));
+  assert.deepEqual(afterRefund.ledger, { entryType: 'chargeback', amount: 150 });
+  assert.equal(afterRefund.paymentStatus, 'due');
+});
@@ -0,0 +1,399 @@
+/**
+ * Sales tax and currency for invoices.
+ *
+ * A business is taxed by its tax jurisdiction, whose components (state,
+ * county, city...) add up to the rate charged; without a jurisdiction the
+ * company's invoice_tax_rate applies as a single "Tax" component, as it did
+ * before jurisdictions existed. Some jurisdictions don't tax labour, in which
+ * case labour lines are marked non-taxable and only parts and fees are taxed.
+ *
+ * A tax-exempt business is only treated as exempt while its exemption
+ * certificate is on file and not expired; otherwise it is taxed normally.
+ *
+ * Every invoice records the business's currency and the tax per component
+ * (invoices.tax_breakdown) when it is created. resolveInvoiceTax looks both
+ * up; computeInvoiceTax prices line items with the result.
+ */
+import { DEFAULT_CURRENCY, validateCurrency } from './currencyService.js';
+import { computeInvoiceTotals } from './invoiceService.js';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_NAME_LENGTH = 100;
+const MAX_COMPONENTS = 10;
+const MAX_CERTIFICATE_NUMBER_LENGTH = 100;
+
+function badRequest(message) {
+  const error = new Error(message);
+  error.statusCode = 400;
+  return error;
+}
+
+function notFound(message) {
+  const error = new Error(message);
+  error.statusCode = 404;
+  return error;
+}
+
+function roundCents(value) {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+// Rates are stored with four places (0.0725)
+function roundRate(value) {
+  return Math.round((value + Number.EPSILON) * 10000) / 10000;
+}
+
+function optionalText(value) {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  return trimmed || null;
+}
+
+/**
+ * Validate and normalise a jurisdiction payload (create or edit). Rates are
+ * fractions (0.0725).
+ */
+export function validateJurisdictionInput(input = {}) {
+  const name = optionalText(input.name);
+  if (!name) throw badRequest('Jurisdiction name is required');
+  if (name.length > MAX_NAME_LENGTH) throw badRequest(`Jurisdiction name must be ${MAX_NAME_LENGTH} characters or fewer`);
+
+  if (!Array.isArray(input.components) || input.components.length === 0) {
+    throw badRequest('A jurisdiction needs at least one tax component');
+  }
+  if (input.components.length > MAX_COMPONENTS) {
+    throw badRequest(`A jurisdiction can have at most ${MAX_COMPONENTS} tax components`);
+  }
+
+  const components = input.components.map((component, index) => {
+    const componentName = optionalText(component?.name);
+    if (!componentName) throw badRequest(`Component ${index + 1}: name is required`);
+    if (componentName.length > MAX_NAME_LENGTH) {
+      throw badRequest(`Component ${index + 1}: name must be ${MAX_NAME_LENGTH} characters or fewer`);
+    }
+    const rate = component?.rate === '' || component?.rate === null ? NaN : Number(component?.rate);
+    if (!Number.isFinite(rate) || rate < 0 || rate >= 1) {
+      throw badRequest(`Component ${index + 1}: rate must be a fraction between 0 and 1 (e.g. 0.0725)`);
+    }
+    return { name: componentName, rate: roundRate(rate) };
+  });
+
+  if (input.laborTaxable !== undefined && typeof input.laborTaxable !== 'boolean') {
+    throw badRequest('laborTaxable must be true or false');
+  }
+  if (input.isActive !== undefined && typeof input.isActive !== 'boolean') {
+    throw badRequest('isActive must be true or false');
+  }
+
+  return {
+    name,
+    laborTaxable: input.laborTaxable ?? true,
+    isActive: input.isActive ?? true,
+    components
+  };
+}
+
+/**
+ * Validate a business's currency, jurisdiction and exemption details.
+ */
+export function validateTaxProfileInput(input = {}) {
+  const currency = validateCurrency(input.currency ?? DEFAULT_CURRENCY);
+
+  const taxJurisdictionId = optionalText(input.taxJurisdictionId);
+
+  if (input.taxExempt !== undefined && typeof input.taxExempt !== 'boolean') {
+    throw badRequest('taxExempt must be true or false');
+  }
+
+  const certificateNumber = optionalText(input.taxExemptCertificateNumber);
+  if (certificateNumber && certificateNumber.length > MAX_CERTIFICATE_NUMBER_LENGTH) {
+    throw badRequest(`Certificate number must be ${MAX_CERTIFICATE_NUMBER_LENGTH} characters or fewer`);
+  }
+
+  const expiresOn = optionalText(input.taxExemptExpiresOn);
+  if (expiresOn && !DATE_PATTERN.test(expiresOn)) {
+    throw badRequest('Certificate expiry must be a date (YYYY-MM-DD)');
+  }
+
+  return {
+    currency,
+    taxJurisdictionId,
+    taxExempt: input.taxExempt ?? false,
+    taxExemptCertificateNumber: certificateNumber,
+    taxExemptExpiresOn: expiresOn
+  };
+}
+
+/**
+ * Split `taxAmount` across the components in proportion to their rates. Each
+ * share is rounded to cents and the last absorbs the rounding, so the shares
+ * always add up to the invoice's tax. Works for the negative tax of a credit
+ * note too.
+ */
+export function computeTaxBreakdown(taxAmount, components) {
+  if (components.length === 0) return [];
+  const totalRate = components.reduce((sum, component) => sum + Number(component.rate), 0);
+
+  let allocated = 0;
+  return components.map((component, index) => {
+    const rate = Number(component.rate);
+    const amount = index === components.length - 1
+      ? roundCents(taxAmount - allocated)
+      : roundCents(totalRate > 0 ? taxAmount * rate / totalRate : 0);
+    allocated = roundCents(allocated + amount);
+    return { name: component.name, rate, amount };
+  });
+}
+
+/**
+ * Labour lines are non-taxable where the jurisdiction doesn't tax labour;
+ * every other line keeps its own flag.
+ */
+export function applyJurisdictionTaxability(lineItems, tax) {
+  if (tax.laborTaxable) return lineItems;
+  return lineItems.map(item => (item.itemType === 'labor' ? { ...item, taxable: false } : item));
+}
+
+/**
+ * computeInvoiceTotals with the business's tax: labour taxability applied,
+ * the combined rate charged and the tax broken down per component.
+ */
+export function computeInvoiceTax(lineItems, tax) {
+  const totals = computeInvoiceTotals(applyJurisdictionTaxability(lineItems, tax), tax.taxRate);
+  return { ...totals, taxBreakdown: computeTaxBreakdown(totals.taxAmount, tax.components) };
+}
+
+async function companyTaxRate(db) {
+  const result = await db.query(
+    `SELECT setting_value FROM company_settings WHERE setting_key = 'invoice_tax_rate'`
+  );
+  return parseFloat(result.rows[0]?.setting_value) || 0;
+}
+
+/**
+ * Currency and tax for a new invoice of `businessId`:
+ *
+ *   { currency, taxRate, components: [{ name, rate }], exempt, laborTaxable }
+ *
+ * `taxRate` overrides the business's tax with a single component, for
+ * manual invoices where the admin typed a rate. `db` may be the pool or a
+ * transaction client.
+ */
+export async function resolveInvoiceTax(db, businessId, { taxRate = null } = {}) {
+  const result = await db.query(`
+    SELECT b.currency,
+           (b.tax_exempt
+             AND b.tax_exempt_certificate_file_id IS NOT NULL
+             AND (b.tax_exempt_expires_on IS NULL OR b.tax_exempt_expires_on >= CURRENT_DATE)) AS exempt,
+           j.id AS jurisdiction_id,
+           j.labor_taxable
+      FROM businesses b
+      LEFT JOIN tax_jurisdictions j ON j.id = b.tax_jurisdiction_id AND j.is_active = true
+     WHERE b.id = $1
+  `, [businessId]);
+  const business = result.rows[0];
+  if (!business) throw notFound('Business not found');
+
+  const currency = (business.currency || DEFAULT_CURRENCY).trim();
+  const laborTaxable = business.jurisdiction_id ? business.labor_taxable : true;
+
+  if (taxRate !== null && taxRate !== undefined) {
+    const rate = roundRate(Number(taxRate));
+    return { currency, taxRate: rate, components: rate > 0 ? [{ name: 'Tax', rate }] : [], exempt: false, laborTaxable: true };
+  }
+
+  if (business.exempt) {
+    return { currency, taxRate: 0, components: [], exempt: true, laborTaxable };
+  }
+
+  let components;
+  if (business.jurisdiction_id) {
+    const componentResult = await db.query(`
+      SELECT name, rate FROM tax_jurisdiction_components
+       WHERE jurisdiction_id = $1
+       ORDER BY display_order, name
+    `, [business.jurisdiction_id]);
+    components = componentResult.rows.map(row => ({ name: row.name, rate: Number(row.rate) }));
+  } else {
+    const rate = await companyTaxRate(db);
+    components = rate > 0 ? [{ name: 'Tax', rate }] : [];
+  }
+
+  return {
+    currency,
+    taxRate: roundRate(components.reduce((sum, component) => sum + component.rate, 0)),
+    components,
+    exempt: false,
+    laborTaxable
+  };
+}
+
+/**
+ * Every jurisdiction with its components and combined rate.
+ */
+export async function listJurisdictions(db) {
+  const result = await db.query(`
+    SELECT j.id, j.name, j.labor_taxable, j.is_active, j.created_at, j.updated_at,
+           COALESCE(
+             json_agg(json_build_object('id', c.id, 'name', c.name, 'rate', c.rate)
+                      ORDER BY c.display_order, c.name)
+               FILTER (WHERE c.id IS NOT NULL),
+             '[]'
+           ) AS components,
+           COALESCE(SUM(c.rate), 0) AS total_rate,
+           (SELECT COUNT(*)::int FROM businesses b WHERE b.tax_jurisdiction_id = j.id) AS business_count
+      FROM tax_jurisdictions j
+      LEFT JOIN tax_jurisdiction_components c ON c.jurisdiction_id = j.id
+     GROUP BY j.id
+     ORDER BY j.is_active DESC, j.name
+  `);
+  return result.rows.map(row => ({
+    ...row,
+    components: row.components.map(component => ({ ...component, rate: Number(component.rate) })),
+    total_rate: roundRate(Number(row.total_rate))
+  }));
+}
+
+async function replaceComponents(db, jurisdictionId, components) {
+  await db.query(`DELETE FROM tax_jurisdiction_components WHERE jurisdiction_id = $1`, [jurisdictionId]);
+  for (const [index, component] of components.entries()) {
+    await db.query(
+      `INSERT INTO tax_jurisdiction_components (jurisdiction_id, name, rate, display_order)
+       VALUES ($1, $2, $3, $4)`,
+      [jurisdictionId, component.name, component.rate, index]
+    );
+  }
+}
+
+/**
+ * Create a jurisdiction (no id) or replace one's name, flags and components.
+ * `db` should be a transaction client. Returns the jurisdiction's id.
+ */
+export async function saveJurisdiction(db, input, jurisdictionId = null) {
+  let id = jurisdictionId;
+  if (id) {
+    const updated = await db.query(
+      `UPDATE tax_jurisdictions
+          SET name = $2, labor_taxable = $3, is_active = $4, updated_at = NOW()
+        WHERE id = $1
+        RETURNING id`,
+      [id, input.name, input.laborTaxable, input.isActive]
+    );
+    if (updated.rows.length === 0) throw notFound('Tax jurisdiction not found');
+  } else {
+    const inserted = await db.query(
+      `INSERT INTO tax_jurisdictions (name, labor_taxable, is_active)
+       VALUES ($1, $2, $3)
+       RETURNING id`,
+      [input.name, input.laborTaxable, input.isActive]
+    );
+    id = inserted.rows[0].id;
+  }
+
+  await replaceComponents(db, id, input.components);
+  return id;
+}
+
+/**
+ * Delete a jurisdiction no business uses; deactivate it otherwise.
+ */
+export async function deleteJurisdiction(db, jurisdictionId) {
+  const used = await db.query(
+    `SELECT COUNT(*)::int AS count FROM businesses WHERE tax_jurisdiction_id = $1`,
+    [jurisdictionId]
+  );
+  if (used.rows[0].count > 0) {
+    throw badRequest('This jurisdiction is assigned to businesses; deactivate it instead');
+  }
+  const deleted = await db.query(`DELETE FROM tax_jurisdictions WHERE id = $1 RETURNING id`, [jurisdictionId]);
+  if (deleted.rows.length === 0) throw notFound('Tax jurisdiction not found');
+}
+
+/**
+ * A business's currency, jurisdiction and exemption, with the certificate on
+ * file (if any) and whether the exemption currently applies.
+ */
+export async function getBusinessTaxProfile(db, businessId) {
+  const result = await db.query(`
+    SELECT b.id AS business_id, b.currency, b.tax_jurisdiction_id,
+           b.tax_exempt, b.tax_exempt_certificate_number,
+           b.tax_exempt_expires_on::text AS tax_exempt_expires_on,
+           b.tax_exempt_certificate_file_id,
+           f.original_filename AS tax_exempt_certificate_filename,
+           (b.tax_exempt
+             AND b.tax_exempt_certificate_file_id IS NOT NULL
+             AND (b.tax_exempt_expires_on IS NULL OR b.tax_exempt_expires_on >= CURRENT_DATE)) AS exemption_active
+      FROM businesses b
+      LEFT JOIN t_client_files f ON f.id = b.tax_exempt_certificate_file_id
+     WHERE b.id = $1 AND b.soft_delete = false
+  `, [businessId]);
+  const profile = result.rows[0];
+  if (!profile) throw notFound('Business not found');
+  return { ...profile, currency: profile.currency.trim() };
+}
+
+/**
+ * Save a validated tax profile. The certificate itself is uploaded
+ * separately (setExemptionCertificate).
+ */
+export async function updateBusinessTaxProfile(db, businessId, profile) {
+  if (profile.taxJurisdictionId) {
+    const jurisdiction = await db.query(
+      `SELECT id FROM tax_jurisdictions WHERE id = $1 AND is_active = true`,
+      [profile.taxJurisdictionId]
+    );
+    if (jurisdiction.rows.length === 0) throw badRequest('Tax jurisdiction not found or inactive');
+  }
+
+  const updated = await db.query(`
+    UPDATE businesses
+       SET currency = $2,
+           tax_jurisdiction_id = $3,
+           tax_exempt = $4,
+           tax_exempt_certificate_number = $5,
+           tax_exempt_expires_on = $6,
+           updated_at = NOW()
+     WHERE id = $1 AND soft_delete = false
+     RETURNING id
+  `, [
+    businessId,
+    profile.currency,
+    profile.taxJurisdictionId,
+    profile.taxExempt,
+    profile.taxExemptCertificateNumber,
+    profile.taxExemptExpiresOn
+  ]);
+  if (updated.rows.length === 0) throw notFound('Business not found');
+
+  return getBusinessTaxProfile(db, businessId);
+}
+
+/**
+ * Point the business at a newly uploaded exemption certificate (or clear it
+ * with null).
+ */
+export async function setExemptionCertificate(db, businessId, fileId) {
+  const updated = await db.query(
+    `UPDATE businesses SET tax_exempt_certificate_file_id = $2, updated_at = NOW()
+      WHERE id = $1 AND soft_delete = false
+      RETURNING id`,
+    [businessId, fileId]
+  );
+  if (updated.rows.length === 0) throw notFound('Business not found');
+  return getBusinessTaxProfile(db, businessId);
+}
+
+export default {
+  validateJurisdictionInput,
+  validateTaxProfileInput,
+  computeTaxBreakdown,
+  applyJurisdictionTaxability,
+  computeInvoiceTax,
+  resolveInvoiceTax,
+  listJurisdictions,
+  saveJurisdiction,
+  deleteJurisdiction,
+  getBusinessTaxProfile,
+  updateBusinessTaxProfile,
+  setExemptionCertificate
+};
@@ -0,0 +1,142 @@
+// Tests for taxService — jurisdiction and tax profile validation, splitting
+// tax across components, labour taxability, and resolving a business's tax
+// against a fake db.
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  validateJurisdictionInput,
+  validateTaxProfileInput,
+  computeTaxBreakdown,
+  computeInvoiceTax,
+  resolveInvoiceTax,
+  deleteJurisdiction
+} from './taxService.js';
+
+function fakeDb(handlers) {
+  const calls = [];
+  return {
+    calls,
+    async query(sql, params = []) {
+      calls.push({ sql, params });
+      for (const [pattern, rows] of handlers) {
+        if (pattern.test(sql)) return { rows: typeof rows === 'function' ? rows(params) : rows };
+      }
+      return { rows: [] };
+    }
+  };
+}
+
+const SAN_DIEGO = [
+  { name: 'California', rate: 0.06 },
+  { name: 'San Diego County', rate: 0.0025 },
+  { name: 'City district', rate: 0.015 }
+];
+
+test('validateJurisdictionInput: normalises components and rejects bad rates', () => {
+  assert.deepEqual(validateJurisdictionInput({
+    name: ' San Diego, CA ',
+    laborTaxable: false,
+    components: [{ name: 'California', rate: '0.06' }, { name: 'County', rate: 0.00251 }]
+  }), {
+    name: 'San Diego, CA',
+    laborTaxable: false,
+    isActive: true,
+    components: [{ name: 'California', rate: 0.06 }, { name: 'County', rate: 0.0025 }]
+  });
+  assert.throws(() => validateJurisdictionInput({ name: 'X', components: [] }), /at least one tax component/);
+  assert.throws(() => validateJurisdictionInput({ name: 'X', components: [{ name: 'State', rate: 6 }] }), /fraction/);
+  assert.throws(() => validateJurisdictionInput({ name: 'X', components: [{ name: 'State', rate: '' }] }), /fraction/);
+  assert.throws(() => validateJurisdictionInput({ name: 'X', components: [{ rate: 0.06 }] }), /name is required/);
+});
+
+test('validateTaxProfileInput: uppercases the currency and checks the expiry date', () => {
+  assert.deepEqual(validateTaxProfileInput({ currency: 'cad', taxExempt: true, taxExemptExpiresOn: '2027-12-31' }), {
+    currency: 'CAD',
+    taxJurisdictionId: null,
+    taxExempt: true,
+    taxExemptCertificateNumber: null,
+    taxExemptExpiresOn: '2027-12-31'
+  });
+  assert.throws(() => validateTaxProfileInput({ currency: 'BTC' }), /Currency must be one of/);
+  assert.throws(() => validateTaxProfileInput({ taxExemptExpiresOn: '12/31/2027' }), /YYYY-MM-DD/);
+});
+
+test('computeTaxBreakdown: shares follow the rates and always add up to the tax', () => {
+  const breakdown = computeTaxBreakdown(7.75, SAN_DIEGO);
+  assert.deepEqual(breakdown.map(component => component.amount), [6, 0.25, 1.5]);
+
+  // 0.01 can't be split three ways; the last component takes the remainder
+  const odd = computeTaxBreakdown(0.01, [{ name: 'A', rate: 0.05 }, { name: 'B', rate: 0.05 }]);
+  assert.equal(odd.reduce((sum, component) => sum + component.amount, 0), 0.01);
+
+  const credit = computeTaxBreakdown(-7.75, SAN_DIEGO);
+  assert.deepEqual(credit.map(component => component.amount), [-6, -0.25, -1.5]);
+
+  assert.deepEqual(computeTaxBreakdown(0, []), []);
+});
+
+test('computeInvoiceTax: labour is untaxed where the jurisdiction says so', () => {
+  const lineItems = [
+    { description: 'Standard hours', itemType: 'labor', quantity: 2, unitPrice: 100, taxable: true },
+    { description: 'SSD', itemType: 'part', quantity: 1, unitPrice: 100, taxable: true }
+  ];
+
+  const taxed = computeInvoiceTax(lineItems, { taxRate: 0.0775, components: SAN_DIEGO, laborTaxable: true });
+  assert.equal(taxed.taxAmount, 23.25);
+
+  const partsOnly = computeInvoiceTax(lineItems, { taxRate: 0.0775, components: SAN_DIEGO, laborTaxable: false });
+  assert.equal(partsOnly.taxableSubtotal, 100);
+  assert.equal(partsOnly.taxAmount, 7.75);
+  assert.equal(partsOnly.lineItems[0].taxable, false);
+  assert.deepEqual(partsOnly.taxBreakdown.map(component => component.amount), [6, 0.25, 1.5]);
+});
+
+test('resolveInvoiceTax: sums the jurisdiction components and keeps the currency', async () => {
+  const db = fakeDb([
+    [/FROM businesses b/, [{ currency: 'CAD', exempt: false, jurisdiction_id: 'j-1', labor_taxable: false }]],
+    [/FROM tax_jurisdiction_components/, SAN_DIEGO.map(component => ({ ...component, rate: String(component.rate) }))]
+  ]);
+
+  const tax = await resolveInvoiceTax(db, 'b-1');
+  assert.equal(tax.currency, 'CAD');
+  assert.equal(tax.taxRate, 0.0775);
+  assert.equal(tax.components.length, 3);
+  assert.equal(tax.laborTaxable, false);
+  assert.equal(tax.exempt, false);
+});
+
+test('resolveInvoiceTax: falls back to the company rate, honours exemptions and explicit rates', async () => {
+  const noJurisdiction = fakeDb([
+    [/FROM businesses b/, [{ currency: 'USD', exempt: false, jurisdiction_id: null, labor_taxable: null }]],
+    [/company_settings/, [{ setting_value: '0.0825' }]]
+  ]);
+  assert.deepEqual(await resolveInvoiceTax(noJurisdiction, 'b-1'), {
+    currency: 'USD', taxRate: 0.0825, components: [{ name: 'Tax', rate: 0.0825 }], exempt: false, laborTaxable: true
+  });
+
+  const exempt = fakeDb([
+    [/FROM businesses b/, [{ currency: 'USD', exempt: true, jurisdiction_id: 'j-1', labor_taxable: true }]]
+  ]);
+  const exemptTax = await resolveInvoiceTax(exempt, 'b-1');
+  assert.equal(exemptTax.taxRate, 0);
+  assert.equal(exemptTax.exempt, true);
+  assert.equal(exempt.calls.length, 1);
+
+  const explicit = await resolveInvoiceTax(exempt, 'b-1', { taxRate: 0.05 });
+  assert.deepEqual(explicit.components, [{ name: 'Tax', rate: 0.05 }]);
+
+  await assert.rejects(resolveInvoiceTax(fakeDb([]), 'missing'), /Business not found/);
+});
+
+test('deleteJurisdiction: refuses while businesses use it', async () => {
+  const inUse = fakeDb([[/FROM businesses/, [{ count: 2 }]]]);
+  await assert.rejects(deleteJurisdiction(inUse, 'j-1'), /deactivate it instead/);
+
+  const unused = fakeDb([
+    [/FROM businesses/, [{ count: 0 }]],
+    [/DELETE FROM tax_jurisdictions/, [{ id: 'j-1' }]]
+  ]);
+  await deleteJurisdiction(unused, 'j-1');
+  assert.match(unused.calls[1].sql, /DELETE FROM tax_jurisdictions/);
+});
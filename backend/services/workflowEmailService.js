@@ -767,3 +767,79 @@ export async function sendServiceRequestCancelledAdminEmail({
     throw error;
   }
 }
+
+/**
+ * Warn employees that an SLA target is about to be missed, or tell them it
+ * has been
+ */
+export async function sendServiceRequestSlaEmail({
+  serviceRequestData,
+  employee,
+  target,
+  dueAt,
+  isBreach = false
+}) {
+  const targetLabel = target === 'acknowledge' ? 'acknowledgment' : 'resolution';
+  const dueText = new Date(dueAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+
+  const subject = isBreach
+    ? `🚨 SLA BREACHED: Service Request #${serviceRequestData.requestNumber} missed its ${targetLabel} target`
+    : `⏰ SLA Warning: Service Request #${serviceRequestData.requestNumber} ${targetLabel} due ${dueText}`;
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="utf-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    </head>
+    <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+      <div style="background-color: #f3f4f6; padding: 20px; border-radius: 8px;">
+        <h1 style="color: ${isBreach ? '#dc2626' : '#d97706'}; margin: 0 0 20px 0;">
+          ${isBreach ? 'SLA Target Missed' : 'SLA Target Approaching'}
+        </h1>
+
+        <p style="font-size: 16px;">Hello ${employee.firstName},</p>
+
+        <p style="color: #4b5563;">
+          ${isBreach
+            ? `Service request #${serviceRequestData.requestNumber} was not ${target === 'acknowledge' ? 'acknowledged' : 'resolved'} by its SLA due time.`
+            : `Service request #${serviceRequestData.requestNumber} must be ${target === 'acknowledge' ? 'acknowledged' : 'resolved'} soon to stay within its SLA.`}
+        </p>
+
+        <div style="background-color: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
+          <h2 style="color: #3b82f6; margin-top: 0;">${serviceRequestData.title}</h2>
+          <p style="color: #6b7280;"><strong>Request #:</strong> ${serviceRequestData.requestNumber}</p>
+          ${serviceRequestData.businessName ? `<p style="color: #6b7280;"><strong>Business:</strong> ${serviceRequestData.businessName}</p>` : ''}
+          <p style="color: #6b7280;"><strong>SLA Policy:</strong> ${serviceRequestData.policyName}</p>
+          <p style="color: #6b7280;"><strong>${target === 'acknowledge' ? 'Acknowledge' : 'Resolve'} by:</strong> ${dueText}</p>
+        </div>
+
+        <div style="text-align: center; margin: 30px 0;">
+          <a href="${BASE_URL}/employee" style="background-color: #3b82f6; color: white; padding: 12px 30px; text-decoration: none; border-radius: 6px; font-weight: bold; display: inline-block;">
+            Open Service Requests
+          </a>
+        </div>
+
+        ${getEmailFooter()}
+      </div>
+    </body>
+    </html>
+  `;
+
+  const mailOptions = {
+    from: FROM_ADDRESS,
+    to: employee.email,
+    subject,
+    html
+  };
+
+  try {
+    await transporter.sendMail(mailOptions);
+    console.log(`📧 SLA ${isBreach ? 'breach' : 'warning'} notification sent to ${employee.email}`);
+    return { success: true };
+  } catch (error) {
+    console.error(`❌ Error sending SLA notification:`, error);
+    throw error;
+  }
+}
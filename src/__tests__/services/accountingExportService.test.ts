@@ -0,0 +1,68 @@
+// Mock apiService BEFORE importing the service under test.
+jest.mock('../../services/apiService', () => {
+  const mock = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    patch: jest.fn(),
+    getBlob: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: mock,
+    apiService: mock,
+  };
+});
+
+import { accountingExportService, exportSystem } from '../../services/accountingExportService';
+import apiService from '../../services/apiService';
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+describe('accountingExportService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedApi.get.mockResolvedValue({ success: true, data: [] } as never);
+    mockedApi.post.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.put.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.getBlob.mockResolvedValue(new Blob(['!CUST']) as never);
+  });
+
+  it('loads and saves the income account mapping', async () => {
+    const input = {
+      accounts: [{ serviceTypeId: null, quickbooksAccount: 'Services', xeroAccountCode: '200' }],
+      settings: {
+        arAccount: 'Accounts Receivable',
+        depositAccount: 'Undeposited Funds',
+        taxAccount: 'Sales Tax Payable',
+        xeroPaymentAccount: '090',
+      },
+    };
+    await accountingExportService.getAccounts();
+    await accountingExportService.saveAccounts(input);
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/accounting-export/accounts');
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/accounting-export/accounts', input);
+  });
+
+  it('runs exports and downloads their files', async () => {
+    await accountingExportService.getPending();
+    await accountingExportService.listExports();
+    await accountingExportService.runExport('xero_csv', 'invoices');
+    await accountingExportService.downloadExport('x-1');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/accounting-export/pending');
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/accounting-export/exports');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/accounting-export/exports', { format: 'xero_csv', entityType: 'invoices' });
+    expect(mockedApi.getBlob).toHaveBeenCalledWith('/admin/accounting-export/exports/x-1/download');
+  });
+});
+
+describe('exportSystem', () => {
+  it('tracks both QuickBooks formats as one system', () => {
+    expect(exportSystem('quickbooks_iif')).toBe('quickbooks');
+    expect(exportSystem('quickbooks_csv')).toBe('quickbooks');
+    expect(exportSystem('xero_csv')).toBe('xero');
+  });
+});
@@ -0,0 +1,96 @@
+// Mock apiService BEFORE importing the service under test.
+jest.mock('../../services/apiService', () => {
+  const mock = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    patch: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: mock,
+    apiService: mock,
+  };
+});
+
+import {
+  dispatchService,
+  boardDays,
+  timeFromDrop,
+  bookingSlot,
+  findOverlap,
+  DispatchBooking,
+} from '../../services/dispatchService';
+import apiService from '../../services/apiService';
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+const booking = (id: string, start: Date, duration_minutes: number, is_final_status = false) =>
+  ({ id, start_datetime: start.toISOString(), duration_minutes, is_final_status } as DispatchBooking);
+
+describe('dispatchService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const response = { success: true, data: {} } as never;
+    mockedApi.get.mockResolvedValue(response);
+    mockedApi.put.mockResolvedValue(response);
+    mockedApi.delete.mockResolvedValue(response);
+  });
+
+  it('loads the board and dispatches requests', async () => {
+    const from = new Date('2026-10-18T07:00:00.000Z');
+    const to = new Date('2026-10-25T07:00:00.000Z');
+    await dispatchService.getBoard(from, to);
+    await dispatchService.dispatch('sr-1', { technicianId: 'e-1', scheduledDatetime: '2026-10-20T15:00:00.000Z' });
+    await dispatchService.returnToQueue('sr-1');
+
+    expect(mockedApi.get).toHaveBeenCalledWith(
+      '/admin/dispatch/board?from=2026-10-18T07%3A00%3A00.000Z&to=2026-10-25T07%3A00%3A00.000Z'
+    );
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/dispatch/requests/sr-1', {
+      technicianId: 'e-1',
+      scheduledDatetime: '2026-10-20T15:00:00.000Z',
+    });
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/dispatch/requests/sr-1');
+  });
+});
+
+describe('board layout', () => {
+  it('shows the day, or the week from Sunday', () => {
+    const wednesday = new Date(2026, 9, 21, 14, 30);
+    expect(boardDays(wednesday, 'day')).toEqual([new Date(2026, 9, 21)]);
+    const week = boardDays(wednesday, 'week');
+    expect(week).toHaveLength(7);
+    expect(week[0]).toEqual(new Date(2026, 9, 18));
+    expect(week[6]).toEqual(new Date(2026, 9, 24));
+  });
+
+  it('snaps drops to 15 minutes within the workday', () => {
+    const day = new Date(2026, 9, 21);
+    expect(timeFromDrop(day, 0)).toEqual(new Date(2026, 9, 21, 7, 0));
+    expect(timeFromDrop(day, 0.5)).toEqual(new Date(2026, 9, 21, 13, 0));
+    expect(timeFromDrop(day, 0.53)).toEqual(new Date(2026, 9, 21, 13, 15));
+    expect(timeFromDrop(day, 1.2)).toEqual(new Date(2026, 9, 21, 18, 45));
+  });
+
+  it('places bookings on their own day only', () => {
+    const day = new Date(2026, 9, 21);
+    expect(bookingSlot(new Date(2026, 9, 21, 10, 0).toISOString(), 180, day)).toEqual({ left: 25, width: 25 });
+    const early = bookingSlot(new Date(2026, 9, 21, 6, 0).toISOString(), 30, day);
+    expect(early?.left).toBe(0);
+    expect(early?.width).toBeCloseTo(100 / 48);
+    expect(bookingSlot(new Date(2026, 9, 22, 10, 0).toISOString(), 60, day)).toBeNull();
+  });
+
+  it('finds overlapping open bookings', () => {
+    const bookings = [
+      booking('sr-1', new Date(2026, 9, 21, 9, 0), 120),
+      booking('sr-2', new Date(2026, 9, 21, 13, 0), 60, true),
+    ];
+    expect(findOverlap(bookings, new Date(2026, 9, 21, 10, 30), 60)?.id).toBe('sr-1');
+    expect(findOverlap(bookings, new Date(2026, 9, 21, 11, 0), 60)).toBeNull();
+    expect(findOverlap(bookings, new Date(2026, 9, 21, 13, 0), 60)).toBeNull();
+    expect(findOverlap(bookings, new Date(2026, 9, 21, 10, 0), 60, 'sr-1')).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+// Mock apiService BEFORE importing the service under test.
+jest.mock('../../services/apiService', () => {
+  const mock = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    patch: jest.fn(),
+    getBlob: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: mock,
+    apiService: mock,
+  };
+});
+
+import { executiveSummaryService, previousMonth } from '../../services/executiveSummaryService';
+import apiService from '../../services/apiService';
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+describe('executiveSummaryService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedApi.get.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.getBlob.mockResolvedValue(new Blob(['%PDF']) as never);
+  });
+
+  it('GETs the client summary without a month by default', async () => {
+    await executiveSummaryService.getClientSummary();
+    expect(mockedApi.get).toHaveBeenCalledWith('/client/executive-summary');
+  });
+
+  it('passes the month through as a query parameter', async () => {
+    await executiveSummaryService.getClientSummary('2026-09');
+    expect(mockedApi.get).toHaveBeenCalledWith('/client/executive-summary?month=2026-09');
+  });
+
+  it('downloads the client PDF as a blob', async () => {
+    await executiveSummaryService.downloadClientPdf('2026-09');
+    expect(mockedApi.getBlob).toHaveBeenCalledWith('/client/executive-summary/pdf?month=2026-09');
+  });
+
+  it('scopes admin calls to the business', async () => {
+    await executiveSummaryService.getBusinessSummary('b-1', '2026-08');
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/businesses/b-1/executive-summary?month=2026-08');
+
+    await executiveSummaryService.downloadBusinessPdf('b-1');
+    expect(mockedApi.getBlob).toHaveBeenCalledWith('/admin/businesses/b-1/executive-summary/pdf');
+  });
+});
+
+describe('previousMonth', () => {
+  it('returns the prior month', () => {
+    expect(previousMonth(new Date(2026, 9, 18))).toBe('2026-09');
+  });
+
+  it('rolls back across the year boundary', () => {
+    expect(previousMonth(new Date(2026, 0, 5))).toBe('2025-12');
+  });
+});
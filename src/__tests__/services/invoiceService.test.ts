@@ -0,0 +1,161 @@
+// Mock apiService BEFORE importing the service under test.
+jest.mock('../../services/apiService', () => {
+  const mock = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    patch: jest.fn(),
+    getBlob: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: mock,
+    apiService: mock,
+  };
+});
+
+import { invoiceService, previewInvoiceTotals } from '../../services/invoiceService';
+import apiService from '../../services/apiService';
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+const input = {
+  businessId: 'b-1',
+  dueDate: '2026-11-17',
+  taxRate: null,
+  workDescription: 'Network refresh',
+  notes: null,
+  lineItems: [{ description: 'Switch', quantity: 2, unitPrice: 349 }],
+};
+
+describe('invoiceService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedApi.post.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.put.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.delete.mockResolvedValue({ success: true, data: null } as never);
+  });
+
+  it('creates, edits and deletes drafts', async () => {
+    await invoiceService.createInvoice({ ...input, issue: true });
+    await invoiceService.updateDraft('i-1', input);
+    await invoiceService.deleteDraft('i-1');
+
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/invoices', { ...input, issue: true });
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/invoices/i-1', input);
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/invoices/i-1');
+  });
+
+  it('issues, voids and credits', async () => {
+    await invoiceService.issueDraft('i-1');
+    await invoiceService.voidInvoice('i-2', 'Billed twice');
+    await invoiceService.creditInvoice('i-3', 'Returned hardware', 50);
+
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/invoices/i-1/issue', {});
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/invoices/i-2/void', { reason: 'Billed twice' });
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/invoices/i-3/credit', { reason: 'Returned hardware', amount: 50 });
+  });
+
+  it('leaves the amount off a full credit', async () => {
+    await invoiceService.creditInvoice('i-3', 'Refund');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/invoices/i-3/credit', { reason: 'Refund' });
+  });
+
+  it('lists and consolidates pending service requests', async () => {
+    mockedApi.get.mockResolvedValue({ success: true, data: [] } as never);
+
+    await invoiceService.getPendingConsolidation();
+    await invoiceService.consolidateBusiness('b-1');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/invoices/consolidation/pending');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/invoices/consolidation/b-1', {});
+  });
+
+  it('downloads the PDF', async () => {
+    mockedApi.getBlob.mockResolvedValue(new Blob(['%PDF']) as never);
+    await invoiceService.downloadPdf('i-1');
+    expect(mockedApi.getBlob).toHaveBeenCalledWith('/admin/invoices/i-1/pdf');
+  });
+
+  it('emails an invoice', async () => {
+    await invoiceService.emailInvoice('i-1', { to: 'ap@example.com', message: 'Thanks!' });
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/invoices/i-1/email', { to: 'ap@example.com', message: 'Thanks!' });
+  });
+
+  it('pauses and resumes payment reminders', async () => {
+    mockedApi.patch.mockResolvedValue({ success: true, data: {} } as never);
+
+    await invoiceService.setRemindersPaused('i-1', true, 'Disputed');
+    await invoiceService.setRemindersPaused('i-1', false);
+
+    expect(mockedApi.patch).toHaveBeenCalledWith('/admin/invoices/i-1/reminders', { paused: true, reason: 'Disputed' });
+    expect(mockedApi.patch).toHaveBeenCalledWith('/admin/invoices/i-1/reminders', { paused: false });
+  });
+
+  it('records payments and refunds on the ledger', async () => {
+    await invoiceService.recordPayment('i-1', { amount: 100, method: 'check', reference: '1042' });
+    await invoiceService.refundPayment('i-1', { paymentId: 'p-1', reason: 'Duplicate', destination: 'credit' });
+
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/invoices/i-1/payments', { amount: 100, method: 'check', reference: '1042' });
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/invoices/i-1/refunds', { paymentId: 'p-1', reason: 'Duplicate', destination: 'credit' });
+  });
+
+  it('applies credit, leaving the amount off to cover the balance', async () => {
+    await invoiceService.applyCredit('i-1', 25);
+    await invoiceService.applyCredit('i-2');
+
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/invoices/i-1/apply-credit', { amount: 25 });
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/invoices/i-2/apply-credit', {});
+  });
+
+  it('loads the reports, leaving unset filters off the query', async () => {
+    mockedApi.get.mockResolvedValue({ success: true, data: {} } as never);
+
+    await invoiceService.getAgingReport();
+    await invoiceService.getAgingReport('2026-09-30');
+    await invoiceService.getRevenueReport({ from: '2026-01-01', to: '' });
+    await invoiceService.getRevenueInvoices({}, 'serviceType', 'none');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/invoices/reports/aging');
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/invoices/reports/aging?asOf=2026-09-30');
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/invoices/reports/revenue?from=2026-01-01');
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/invoices/reports/revenue/invoices?dimension=serviceType&key=none');
+  });
+
+  it('exports the reports as CSV', async () => {
+    mockedApi.getBlob.mockResolvedValue(new Blob(['a,b']) as never);
+
+    await invoiceService.exportAgingReport('2026-09-30');
+    await invoiceService.exportRevenueReport({ from: '2026-01-01', to: '2026-03-31' }, 'month');
+
+    expect(mockedApi.getBlob).toHaveBeenCalledWith('/admin/invoices/reports/aging/export?asOf=2026-09-30');
+    expect(mockedApi.getBlob).toHaveBeenCalledWith('/admin/invoices/reports/revenue/export?from=2026-01-01&to=2026-03-31&dimension=month');
+  });
+});
+
+describe('previewInvoiceTotals', () => {
+  it('rounds lines and tax to cents like the server', () => {
+    expect(
+      previewInvoiceTotals(
+        [
+          { description: 'Cable', quantity: 3, unitPrice: 3.33 },
+          { description: 'Labour', quantity: 1.5, unitPrice: 95 },
+        ],
+        0.0775
+      )
+    ).toEqual({ subtotal: 152.49, taxAmount: 11.82, totalAmount: 164.31 });
+  });
+
+  it('leaves non-taxable lines out of the tax', () => {
+    expect(
+      previewInvoiceTotals(
+        [
+          { description: 'Router', itemType: 'part', quantity: 1, unitPrice: 200 },
+          { description: 'Travel', itemType: 'fee', quantity: 1, unitPrice: 40, taxable: false },
+        ],
+        0.1
+      )
+    ).toEqual({ subtotal: 240, taxAmount: 20, totalAmount: 260 });
+  });
+});
@@ -0,0 +1,53 @@
+// Mock apiService BEFORE importing the service under test.
+jest.mock('../../services/apiService', () => {
+  const mock = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    patch: jest.fn(),
+    getBlob: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: mock,
+    apiService: mock,
+  };
+});
+
+import { prepaidHoursService, formatPrepaidHours } from '../../services/prepaidHoursService';
+import apiService from '../../services/apiService';
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+describe('prepaidHoursService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedApi.get.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.post.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.delete.mockResolvedValue({ success: true, data: null } as never);
+  });
+
+  it('reads, adds and removes a business\'s blocks as an admin', async () => {
+    await prepaidHoursService.getBalance('b-1');
+    await prepaidHoursService.addBlock('b-1', { hours: 20, expiresOn: '2027-10-18' });
+    await prepaidHoursService.deleteBlock('b-1', 'blk-1');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/businesses/b-1/prepaid-hours');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/businesses/b-1/prepaid-hours', { hours: 20, expiresOn: '2027-10-18' });
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/businesses/b-1/prepaid-hours/blk-1');
+  });
+
+  it('reads the client\'s own balance', async () => {
+    await prepaidHoursService.getClientBalance();
+    expect(mockedApi.get).toHaveBeenCalledWith('/client/prepaid-hours');
+  });
+});
+
+describe('formatPrepaidHours', () => {
+  it('uses the singular for exactly one hour', () => {
+    expect(formatPrepaidHours(1)).toBe('1 hour');
+    expect(formatPrepaidHours(2.5)).toBe('2.5 hours');
+    expect(formatPrepaidHours(0)).toBe('0 hours');
+  });
+});
@@ -0,0 +1,110 @@
+// Mock apiService BEFORE importing the service under test.
+jest.mock('../../services/apiService', () => {
+  const mock = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    patch: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: mock,
+    apiService: mock,
+  };
+});
+
+import { projectService, projectTimeline, formatBudget, BudgetVsActual, ProjectMilestone, SaveProjectInput } from '../../services/projectService';
+import apiService from '../../services/apiService';
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+const input: SaveProjectInput = {
+  businessId: 'b-1',
+  name: 'Office move',
+  status: 'active',
+  budgetedHours: 40,
+  technicianIds: ['e-1'],
+};
+
+const milestone = (id: string, start_date: string | null, due_date: string | null) =>
+  ({ id, start_date, due_date } as ProjectMilestone);
+
+describe('projectService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const response = { success: true, data: {} } as never;
+    mockedApi.get.mockResolvedValue(response);
+    mockedApi.post.mockResolvedValue(response);
+    mockedApi.put.mockResolvedValue(response);
+    mockedApi.delete.mockResolvedValue(response);
+  });
+
+  it('manages projects, milestones and attached requests as an admin', async () => {
+    await projectService.listProjects({ businessId: 'b 1', status: 'active' });
+    await projectService.listProjects();
+    await projectService.createProject(input);
+    await projectService.updateProject('p-1', input);
+    await projectService.addMilestone('p-1', { name: 'Cabling', dueDate: '2026-11-20' });
+    await projectService.updateMilestone('p-1', 'm-1', { name: 'Cabling', completed: true });
+    await projectService.attachRequest('p-1', 'm-1', 'SR-2026-00042');
+    await projectService.detachRequest('p-1', 'sr-1');
+    await projectService.deleteMilestone('p-1', 'm-1');
+    await projectService.deleteProject('p-1');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/projects?businessId=b+1&status=active');
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/projects');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/projects', input);
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/projects/p-1', input);
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/projects/p-1/milestones', { name: 'Cabling', dueDate: '2026-11-20' });
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/projects/p-1/milestones/m-1', { name: 'Cabling', completed: true });
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/projects/p-1/milestones/m-1/requests', { requestNumber: 'SR-2026-00042' });
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/projects/p-1/requests/sr-1');
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/projects/p-1/milestones/m-1');
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/projects/p-1');
+  });
+
+  it('reads projects as a client', async () => {
+    await projectService.listClientProjects();
+    await projectService.getClientProject('p-1');
+    expect(mockedApi.get).toHaveBeenCalledWith('/client/projects');
+    expect(mockedApi.get).toHaveBeenCalledWith('/client/projects/p-1');
+  });
+});
+
+describe('formatBudget', () => {
+  it('shows hours against the budget when there is one', () => {
+    const budget: BudgetVsActual = { budgetedHours: 8, actualHours: 4.54, remainingHours: 3.46, percentUsed: 57, overBudget: false };
+    expect(formatBudget(budget)).toBe('4.5h of 8h');
+    expect(formatBudget({ ...budget, budgetedHours: null })).toBe('4.5h logged');
+  });
+});
+
+describe('projectTimeline', () => {
+  it('places milestone bars across the project and milestone dates', () => {
+    const timeline = projectTimeline({
+      start_date: '2026-11-01',
+      target_end_date: '2026-11-10',
+      milestones: [
+        milestone('m-1', '2026-11-01', '2026-11-05'),
+        milestone('m-2', null, '2026-11-10'),
+        milestone('m-3', null, null),
+      ],
+    }, '2026-11-06');
+
+    expect(timeline.start).toBe('2026-11-01');
+    expect(timeline.end).toBe('2026-11-10');
+    expect(timeline.bars).toEqual([
+      { milestoneId: 'm-1', left: 0, width: 50 },
+      { milestoneId: 'm-2', left: 90, width: 10 },
+    ]);
+    expect(timeline.todayOffset).toBe(50);
+    expect(projectTimeline({ start_date: '2026-11-01', target_end_date: '2026-11-10', milestones: [] }, '2026-12-01').todayOffset)
+      .toBeNull();
+  });
+
+  it('is empty without any dates', () => {
+    expect(projectTimeline({ start_date: null, target_end_date: null, milestones: [milestone('m-1', null, null)] }))
+      .toEqual({ start: null, end: null, bars: [], todayOffset: null });
+  });
+});
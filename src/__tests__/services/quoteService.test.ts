@@ -0,0 +1,75 @@
+// Mock apiService BEFORE importing the service under test.
+jest.mock('../../services/apiService', () => {
+  const mock = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    patch: jest.fn(),
+    getBlob: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: mock,
+    apiService: mock,
+  };
+});
+
+import { quoteService, canRespondToQuote, SaveQuoteInput } from '../../services/quoteService';
+import apiService from '../../services/apiService';
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+const input: SaveQuoteInput = {
+  businessId: 'b-1',
+  serviceLocationId: 'loc-1',
+  title: 'Office network refresh',
+  validUntil: '2026-11-30',
+  taxRate: null,
+  lineItems: [{ description: 'Switch', itemType: 'part', quantity: 2, unitPrice: 349.99 }],
+};
+
+describe('quoteService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedApi.get.mockResolvedValue({ success: true, data: [] } as never);
+    mockedApi.post.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.put.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.delete.mockResolvedValue({ success: true, data: null } as never);
+  });
+
+  it('drafts, edits, sends and deletes quotes as an admin', async () => {
+    await quoteService.listQuotes('b 1');
+    await quoteService.getBusinessOptions('b-1');
+    await quoteService.createQuote(input);
+    await quoteService.updateQuote('q-1', input);
+    await quoteService.sendQuote('q-1', { message: 'As discussed' });
+    await quoteService.deleteQuote('q-1');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/quotes?businessId=b%201');
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/quotes/options/b-1');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/quotes', input);
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/quotes/q-1', input);
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/quotes/q-1/send', { message: 'As discussed' });
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/quotes/q-1');
+  });
+
+  it('lists, accepts and declines quotes as a client', async () => {
+    await quoteService.listClientQuotes();
+    await quoteService.acceptQuote('q-1', { agreed: true, signatureName: 'Dana Whitfield' });
+    await quoteService.declineQuote('q-2', 'Over budget');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/client/quotes');
+    expect(mockedApi.post).toHaveBeenCalledWith('/client/quotes/q-1/accept', { agreed: true, signatureName: 'Dana Whitfield' });
+    expect(mockedApi.post).toHaveBeenCalledWith('/client/quotes/q-2/decline', { reason: 'Over budget' });
+  });
+});
+
+describe('canRespondToQuote', () => {
+  it('is only true for sent, unexpired quotes', () => {
+    expect(canRespondToQuote({ display_status: 'sent' })).toBe(true);
+    expect(canRespondToQuote({ display_status: 'expired' })).toBe(false);
+    expect(canRespondToQuote({ display_status: 'accepted' })).toBe(false);
+    expect(canRespondToQuote({ display_status: 'draft' })).toBe(false);
+  });
+});
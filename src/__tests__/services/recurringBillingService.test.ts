@@ -0,0 +1,75 @@
+// Mock apiService BEFORE importing the service under test.
+jest.mock('../../services/apiService', () => {
+  const mock = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    patch: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: mock,
+    apiService: mock,
+  };
+});
+
+import { recurringBillingService, priceDeviceCount } from '../../services/recurringBillingService';
+import apiService from '../../services/apiService';
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+const ranges = [
+  { start: 1, end: 10, price: 25 },
+  { start: 11, end: 50, price: 20 },
+];
+
+describe('recurringBillingService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedApi.get.mockResolvedValue({ success: true, data: [] } as never);
+    mockedApi.post.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.put.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.delete.mockResolvedValue({ success: true, data: null } as never);
+  });
+
+  it('manages plans', async () => {
+    const plan = { name: 'Monitoring', pricingRanges: ranges, isActive: true };
+    await recurringBillingService.listPlans();
+    await recurringBillingService.createPlan(plan);
+    await recurringBillingService.updatePlan('p-1', plan);
+    await recurringBillingService.removePlan('p-1');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/recurring-billing/plans');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/recurring-billing/plans', plan);
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/recurring-billing/plans/p-1', plan);
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/recurring-billing/plans/p-1');
+  });
+
+  it('manages subscriptions, previews and billing', async () => {
+    const input = { businessId: 'b-1', planId: 'p-1', startedOn: '2026-10-01' };
+    await recurringBillingService.createSubscription(input);
+    await recurringBillingService.updateSubscription('s-1', { planId: 'p-2', startedOn: '2026-10-01', endedOn: '2026-12-31' });
+    await recurringBillingService.previewSubscription('s-1');
+    await recurringBillingService.billSubscription('s-1');
+
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/recurring-billing/subscriptions', input);
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/recurring-billing/subscriptions/s-1', {
+      planId: 'p-2', startedOn: '2026-10-01', endedOn: '2026-12-31',
+    });
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/recurring-billing/subscriptions/s-1/preview');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/recurring-billing/subscriptions/s-1/bill', {});
+  });
+});
+
+describe('priceDeviceCount', () => {
+  it('prices devices through each range like the server', () => {
+    expect(priceDeviceCount(0, ranges)).toBe(0);
+    expect(priceDeviceCount(8, ranges)).toBe(200);
+    expect(priceDeviceCount(12, ranges)).toBe(290);
+  });
+
+  it('bills devices past the last range at its price', () => {
+    expect(priceDeviceCount(53, ranges)).toBe(1110);
+  });
+});
@@ -0,0 +1,99 @@
+// Mock apiService BEFORE importing the service under test.
+jest.mock('../../services/apiService', () => {
+  const mock = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    patch: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: mock,
+    apiService: mock,
+  };
+});
+
+import { reportsService, createDefaultDefinition, ReportSource, ReportDefinition } from '../../services/reportsService';
+import apiService from '../../services/apiService';
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+const definition: ReportDefinition = {
+  dataSource: 'invoices',
+  columns: ['invoice_number'],
+  filters: [],
+  dateRange: { preset: 'last_30_days' },
+  chartType: 'table',
+};
+
+describe('reportsService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedApi.get.mockResolvedValue({ success: true, data: [] } as never);
+    mockedApi.post.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.put.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.delete.mockResolvedValue({ success: true } as never);
+  });
+
+  it('GETs the data sources', async () => {
+    await reportsService.getSources();
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/reports/sources');
+  });
+
+  it('POSTs previews wrapped in { definition }', async () => {
+    await reportsService.preview(definition);
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/reports/preview', { definition });
+  });
+
+  it('creates, updates and removes saved reports', async () => {
+    await reportsService.create({ name: 'Monthly', definition });
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/reports', { name: 'Monthly', definition });
+
+    await reportsService.update('r-1', { is_shared: true });
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/reports/r-1', { is_shared: true });
+
+    await reportsService.remove('r-1');
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/reports/r-1');
+  });
+
+  it('runs a saved report by id', async () => {
+    await reportsService.run('r-2');
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/reports/r-2/run');
+  });
+
+  it('lists schedules for a report and sends one immediately', async () => {
+    await reportsService.listSchedules('r-3');
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/report-schedules?reportId=r-3');
+
+    await reportsService.sendScheduleNow('s-1');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/report-schedules/s-1/send');
+  });
+
+  it('builds the delivery log query string from non-empty filters only', async () => {
+    await reportsService.listDeliveries({ page: 2, limit: 50, status: 'failed', search: '' });
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/report-schedules/deliveries?page=2&limit=50&status=failed');
+
+    await reportsService.listDeliveries();
+    expect(mockedApi.get).toHaveBeenLastCalledWith('/admin/report-schedules/deliveries');
+  });
+});
+
+describe('createDefaultDefinition', () => {
+  it('copies the source default columns without aliasing them', () => {
+    const source: ReportSource = {
+      key: 'service_requests',
+      label: 'Service Requests',
+      ownRowsOnly: true,
+      defaultColumns: ['title', 'status'],
+      fields: [],
+    };
+    const def = createDefaultDefinition(source);
+    expect(def.dataSource).toBe('service_requests');
+    expect(def.columns).toEqual(['title', 'status']);
+    def.columns.push('created_at');
+    expect(source.defaultColumns).toEqual(['title', 'status']);
+    expect(def.dateRange.preset).toBe('last_30_days');
+    expect(def.chartType).toBe('table');
+  });
+});
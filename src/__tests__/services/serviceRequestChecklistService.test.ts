@@ -0,0 +1,53 @@
+// Mock apiService BEFORE importing the service under test.
+jest.mock('../../services/apiService', () => {
+  const mock = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    patch: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: mock,
+    apiService: mock,
+  };
+});
+
+import { serviceRequestChecklistService } from '../../services/serviceRequestChecklistService';
+import apiService from '../../services/apiService';
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+describe('serviceRequestChecklistService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const response = { success: true, data: { items: [] } } as never;
+    mockedApi.get.mockResolvedValue(response);
+    mockedApi.post.mockResolvedValue(response);
+    mockedApi.put.mockResolvedValue(response);
+    mockedApi.patch.mockResolvedValue(response);
+    mockedApi.delete.mockResolvedValue(response);
+  });
+
+  it('manages a request checklist from the admin side', async () => {
+    await serviceRequestChecklistService.getChecklist('sr-1');
+    await serviceRequestChecklistService.addItems('sr-1', [{ text: 'Test the backup', required: true }]);
+    await serviceRequestChecklistService.reorder('sr-1', ['b', 'a']);
+    await serviceRequestChecklistService.setChecked('sr-1', 'a', true);
+    await serviceRequestChecklistService.deleteItem('sr-1', 'b');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/service-requests/sr-1/checklist');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/service-requests/sr-1/checklist', {
+      items: [{ text: 'Test the backup', required: true }],
+    });
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/service-requests/sr-1/checklist/order', { itemIds: ['b', 'a'] });
+    expect(mockedApi.patch).toHaveBeenCalledWith('/admin/service-requests/sr-1/checklist/a', { checked: true });
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/service-requests/sr-1/checklist/b');
+  });
+
+  it('reads the checklist for the client portal', async () => {
+    await serviceRequestChecklistService.getClientChecklist('sr-1');
+    expect(mockedApi.get).toHaveBeenCalledWith('/client/service-requests/sr-1/checklist');
+  });
+});
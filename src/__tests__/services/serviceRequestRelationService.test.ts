@@ -0,0 +1,53 @@
+// Mock apiService BEFORE importing the service under test.
+jest.mock('../../services/apiService', () => {
+  const mock = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    patch: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: mock,
+    apiService: mock,
+  };
+});
+
+import { serviceRequestRelationService } from '../../services/serviceRequestRelationService';
+import apiService from '../../services/apiService';
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+describe('serviceRequestRelationService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    const response = { success: true, data: {} } as never;
+    mockedApi.get.mockResolvedValue(response);
+    mockedApi.post.mockResolvedValue(response);
+    mockedApi.put.mockResolvedValue(response);
+    mockedApi.delete.mockResolvedValue(response);
+  });
+
+  it('reads and changes parent and links by request number', async () => {
+    await serviceRequestRelationService.getRelations('sr-1');
+    await serviceRequestRelationService.setParent('sr-1', 'SR-2026-00010');
+    await serviceRequestRelationService.setParent('sr-1', null);
+    await serviceRequestRelationService.addLink('sr-1', 'SR-2026-00012', 'blocked_by');
+    await serviceRequestRelationService.removeLink('sr-1', 'link-1');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/service-requests/sr-1/relations');
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/service-requests/sr-1/parent', { parentRequestNumber: 'SR-2026-00010' });
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/service-requests/sr-1/parent', { parentRequestNumber: null });
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/service-requests/sr-1/links', {
+      targetRequestNumber: 'SR-2026-00012',
+      linkType: 'blocked_by',
+    });
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/service-requests/sr-1/links/link-1');
+  });
+
+  it('merges a duplicate into the target request', async () => {
+    await serviceRequestRelationService.mergeInto('sr-dup', 'SR-2026-00031');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/service-requests/sr-dup/merge', { targetRequestNumber: 'SR-2026-00031' });
+  });
+});
@@ -0,0 +1,71 @@
+// Mock apiService BEFORE importing the service under test.
+jest.mock('../../services/apiService', () => {
+  const mock = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    patch: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: mock,
+    apiService: mock,
+  };
+});
+
+import { serviceRequestTemplateService } from '../../services/serviceRequestTemplateService';
+import apiService from '../../services/apiService';
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+describe('serviceRequestTemplateService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedApi.get.mockResolvedValue({ success: true, data: [] } as never);
+    mockedApi.post.mockResolvedValue({ success: true, data: { id: 'x' } } as never);
+    mockedApi.put.mockResolvedValue({ success: true, data: { id: 'x' } } as never);
+    mockedApi.delete.mockResolvedValue({ success: true, data: null } as never);
+  });
+
+  it('manages templates', async () => {
+    const input = {
+      serviceTypeId: 'st-1',
+      name: 'New hire setup',
+      title: 'Set up a workstation',
+      checklistItems: [{ text: 'Create accounts', required: true }],
+    };
+    await serviceRequestTemplateService.listTemplates();
+    await serviceRequestTemplateService.listTemplates({ serviceTypeId: 'st-1', activeOnly: true });
+    await serviceRequestTemplateService.getOptions();
+    await serviceRequestTemplateService.createTemplate(input);
+    await serviceRequestTemplateService.updateTemplate('t-1', input);
+    await serviceRequestTemplateService.deleteTemplate('t-1');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/service-request-templates');
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/service-request-templates?serviceTypeId=st-1&activeOnly=true');
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/service-request-templates/options');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/service-request-templates', input);
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/service-request-templates/t-1', input);
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/service-request-templates/t-1');
+  });
+
+  it('lists the client-visible templates for the portal', async () => {
+    await serviceRequestTemplateService.listClientTemplates();
+    await serviceRequestTemplateService.listClientTemplates('st 1');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/client/service-requests/templates');
+    expect(mockedApi.get).toHaveBeenCalledWith('/client/service-requests/templates?serviceTypeId=st%201');
+  });
+
+  it('opens a request for a client from the admin side', async () => {
+    const input = { business_id: 'b-1', client_id: 'u-1', service_location_id: 'l-1', template_id: 't-1' };
+    await serviceRequestTemplateService.getNewRequestOptions();
+    await serviceRequestTemplateService.getNewRequestBusinessOptions('b-1');
+    await serviceRequestTemplateService.createServiceRequest(input);
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/service-requests/new-request-options');
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/service-requests/new-request-options/b-1');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/service-requests', input);
+  });
+});
@@ -0,0 +1,120 @@
+// Mock apiService BEFORE importing the service under test.
+jest.mock('../../services/apiService', () => {
+  const mock = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    patch: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: mock,
+    apiService: mock,
+  };
+});
+
+import { slaService, getSlaCountdown, formatSlaDuration } from '../../services/slaService';
+import apiService from '../../services/apiService';
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+describe('slaService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedApi.get.mockResolvedValue({ success: true, data: [] } as never);
+    mockedApi.post.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.put.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.delete.mockResolvedValue({ success: true, data: null } as never);
+  });
+
+  it('hits the policy endpoints', async () => {
+    const input = {
+      name: 'Gold',
+      businessId: 'b-1',
+      urgencyLevelId: null,
+      acknowledgeTargetMinutes: 30,
+      resolveTargetMinutes: 240,
+      calendarId: null,
+      isActive: true,
+    };
+    await slaService.listPolicies();
+    await slaService.createPolicy(input);
+    await slaService.updatePolicy('p-1', input);
+    await slaService.removePolicy('p-1');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/sla/policies');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/sla/policies', input);
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/sla/policies/p-1', input);
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/sla/policies/p-1');
+  });
+
+  it('hits the calendar endpoints', async () => {
+    const input = { name: 'Office', timezone: 'UTC', weeklyHours: {}, holidays: [] };
+    await slaService.listCalendars();
+    await slaService.updateCalendar('c-1', input);
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/sla/calendars');
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/sla/calendars/c-1', input);
+  });
+
+  it('builds the breach query string from set filters only', async () => {
+    await slaService.listBreaches();
+    expect(mockedApi.get).toHaveBeenLastCalledWith('/admin/sla/breaches');
+
+    await slaService.listBreaches({ from: '2026-10-01', target: 'resolve', businessId: undefined, limit: 20 });
+    expect(mockedApi.get).toHaveBeenLastCalledWith('/admin/sla/breaches?from=2026-10-01&target=resolve&limit=20');
+  });
+});
+
+describe('getSlaCountdown', () => {
+  const now = new Date('2026-10-18T12:00:00Z');
+  const base = {
+    status: 'Submitted',
+    acknowledged_at: null,
+    started_at: null,
+    sla_acknowledge_due_at: '2026-10-18T14:00:00Z',
+    sla_resolve_due_at: '2026-10-19T12:00:00Z',
+  };
+
+  it('returns null for untracked and cancelled requests', () => {
+    expect(getSlaCountdown({ status: 'Submitted' }, now)).toBeNull();
+    expect(getSlaCountdown({ ...base, status: 'Cancelled' }, now)).toBeNull();
+  });
+
+  it('counts down the acknowledge target first', () => {
+    expect(getSlaCountdown(base, now)).toEqual({
+      target: 'acknowledge',
+      state: 'on_track',
+      dueAt: base.sla_acknowledge_due_at,
+      minutesRemaining: 120,
+    });
+  });
+
+  it('warns inside the lead time and flags overdue targets', () => {
+    expect(getSlaCountdown(base, new Date('2026-10-18T13:45:00Z'))?.state).toBe('warning');
+    const overdue = getSlaCountdown(base, new Date('2026-10-18T14:30:00Z'));
+    expect(overdue?.state).toBe('breached');
+    expect(overdue?.minutesRemaining).toBe(-30);
+  });
+
+  it('moves to the resolve target once acknowledged', () => {
+    const countdown = getSlaCountdown({ ...base, acknowledged_at: '2026-10-18T11:00:00Z' }, now);
+    expect(countdown?.target).toBe('resolve');
+    expect(countdown?.minutesRemaining).toBe(1440);
+  });
+
+  it('reports met or missed once resolved', () => {
+    const closed = { ...base, acknowledged_at: '2026-10-18T11:00:00Z', closed_at: '2026-10-18T11:30:00Z' };
+    expect(getSlaCountdown(closed, now)?.state).toBe('met');
+    expect(getSlaCountdown({ ...closed, sla_acknowledge_breached_at: '2026-10-18T10:00:00Z' }, now)?.state).toBe('missed');
+  });
+});
+
+describe('formatSlaDuration', () => {
+  it('formats minutes, hours and days', () => {
+    expect(formatSlaDuration(45)).toBe('45m');
+    expect(formatSlaDuration(135)).toBe('2h 15m');
+    expect(formatSlaDuration(-(3 * 1440 + 4 * 60))).toBe('3d 4h');
+  });
+});
@@ -0,0 +1,97 @@
+// Mock apiService BEFORE importing the service under test.
+jest.mock('../../services/apiService', () => {
+  const mock = {
+    get: jest.fn(),
+    post: jest.fn(),
+    put: jest.fn(),
+    delete: jest.fn(),
+    patch: jest.fn(),
+    getBlob: jest.fn(),
+    getToken: jest.fn(),
+  };
+  return {
+    __esModule: true,
+    default: mock,
+    apiService: mock,
+  };
+});
+
+import { taxService } from '../../services/taxService';
+import apiService from '../../services/apiService';
+
+const mockedApi = apiService as jest.Mocked<typeof apiService>;
+
+describe('taxService', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedApi.get.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.post.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.put.mockResolvedValue({ success: true, data: {} } as never);
+    mockedApi.delete.mockResolvedValue({ success: true, data: null } as never);
+    mockedApi.getToken.mockResolvedValue('csrf-1');
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('manages jurisdictions', async () => {
+    const input = {
+      name: 'San Diego, CA',
+      laborTaxable: false,
+      components: [{ name: 'State', rate: 0.06 }, { name: 'City', rate: 0.0175 }],
+    };
+    await taxService.listJurisdictions();
+    await taxService.createJurisdiction(input);
+    await taxService.updateJurisdiction('j-1', input);
+    await taxService.deleteJurisdiction('j-1');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/taxes/jurisdictions');
+    expect(mockedApi.post).toHaveBeenCalledWith('/admin/taxes/jurisdictions', input);
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/taxes/jurisdictions/j-1', input);
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/taxes/jurisdictions/j-1');
+  });
+
+  it('reads and saves a business\'s tax profile', async () => {
+    await taxService.getBusinessTaxProfile('b-1');
+    await taxService.updateBusinessTaxProfile('b-1', { currency: 'CAD', taxExempt: true });
+    await taxService.removeExemptionCertificate('b-1');
+    await taxService.downloadExemptionCertificate('b-1', 'f-1');
+
+    expect(mockedApi.get).toHaveBeenCalledWith('/admin/taxes/businesses/b-1');
+    expect(mockedApi.put).toHaveBeenCalledWith('/admin/taxes/businesses/b-1', { currency: 'CAD', taxExempt: true });
+    expect(mockedApi.delete).toHaveBeenCalledWith('/admin/taxes/businesses/b-1/exemption-certificate');
+    expect(mockedApi.getBlob).toHaveBeenCalledWith('/admin/client-files/businesses/b-1/files/f-1/download');
+  });
+
+  it('uploads the exemption certificate as multipart with the CSRF token', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ success: true, data: { exemption_active: true } }),
+    });
+    global.fetch = fetchMock as unknown as typeof fetch;
+
+    const file = new File(['%PDF'], 'certificate.pdf', { type: 'application/pdf' });
+    const result = await taxService.uploadExemptionCertificate('b-1', file);
+
+    expect(result.data.exemption_active).toBe(true);
+    const [url, options] = fetchMock.mock.calls[0];
+    expect(url).toMatch(/\/admin\/taxes\/businesses\/b-1\/exemption-certificate$/);
+    expect(options.method).toBe('POST');
+    expect(options.headers['x-csrf-token']).toBe('csrf-1');
+    expect((options.body as FormData).get('certificate')).toBeInstanceOf(File);
+  });
+
+  it('surfaces the server\'s message when the upload is rejected', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: false,
+      json: async () => ({ success: false, message: 'File infected with virus: EICAR' }),
+    }) as unknown as typeof fetch;
+
+    await expect(
+      taxService.uploadExemptionCertificate('b-1', new File(['x'], 'cert.png', { type: 'image/png' }))
+    ).rejects.toThrow('File infected with virus: EICAR');
+  });
+});
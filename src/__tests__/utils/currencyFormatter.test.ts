@@ -0,0 +1,37 @@
+import { formatCurrency, formatTaxRate, localeForLanguage } from '../../utils/currencyFormatter';
+
+describe('currencyFormatter', () => {
+  describe('formatCurrency', () => {
+    it('defaults to US dollars in English', () => {
+      expect(formatCurrency(1234.5)).toBe('$1,234.50');
+      expect(formatCurrency('-40')).toBe('-$40.00');
+      expect(formatCurrency(null)).toBe('$0.00');
+    });
+
+    it('uses the invoice currency', () => {
+      expect(formatCurrency(1234.5, 'EUR')).toBe('€1,234.50');
+      expect(formatCurrency(1234.5, 'jpy')).toBe('¥1,235');
+      expect(formatCurrency(10, 'CAD')).toBe('CA$10.00');
+    });
+
+    it('follows the site language', () => {
+      expect(formatCurrency(1234.5, 'USD', 'es')).toBe(new Intl.NumberFormat('es-US', { style: 'currency', currency: 'USD' }).format(1234.5));
+      expect(formatCurrency(1234.5, 'USD', 'fr')).toBe('$1,234.50');
+    });
+  });
+
+  describe('localeForLanguage', () => {
+    it('falls back to en-US', () => {
+      expect(localeForLanguage('es')).toBe('es-US');
+      expect(localeForLanguage('de')).toBe('en-US');
+    });
+  });
+
+  describe('formatTaxRate', () => {
+    it('shows the fraction as a percentage without trailing zeros', () => {
+      expect(formatTaxRate(0.0775)).toBe('7.75%');
+      expect(formatTaxRate('0.06')).toBe('6%');
+      expect(formatTaxRate(0.0025)).toBe('0.25%');
+    });
+  });
+});
@@ -1,8 +1,10 @@
-import React, { useState } from 'react';
-import { Briefcase, Edit, Trash2, Users, Building, X, MapPin, Undo2, Power, Loader2, User } from 'lucide-react';
+import React, { useCallback, useState } from 'react';
+import { Briefcase, Edit, Trash2, Users, Building, X, MapPin, Undo2, Power, Loader2, User, BarChart3 } from 'lucide-react';
 import { themeClasses } from '../../contexts/ThemeContext';
 import { usePermission } from '../../hooks/usePermission';
 import { PermissionDeniedModal } from './shared/PermissionDeniedModal';
+import ExecutiveSummaryView from '../shared/ExecutiveSummaryView';
+import { executiveSummaryService } from '../../services/executiveSummaryService';
 
 interface Business {
   id: string;
@@ -123,6 +125,7 @@ const AdminBusinesses: React.FC<AdminBusinessesProps> = ({
   const canViewSoftDeleted = checkPermission('view.soft_deleted_businesses.enable');
   const canViewStats = checkPermission('view.business_stats.enable');
   const canViewRateCategories = checkPermission('view.business_rate_categories.enable');
+  const canViewSummary = checkPermission('view.client_analytics.enable');
 
   // Permission denied modal state
   const [permissionDenied, setPermissionDenied] = useState<{
@@ -132,6 +135,18 @@ const AdminBusinesses: React.FC<AdminBusinessesProps> = ({
     message?: string;
   }>({ show: false });
 
+  // Executive summary modal state
+  const [summaryBusiness, setSummaryBusiness] = useState<Business | null>(null);
+  const summaryBusinessId = summaryBusiness?.id;
+  const loadBusinessSummary = useCallback(
+    (month: string) => executiveSummaryService.getBusinessSummary(summaryBusinessId!, month),
+    [summaryBusinessId]
+  );
+  const downloadBusinessSummaryPdf = useCallback(
+    (month: string) => executiveSummaryService.downloadBusinessPdf(summaryBusinessId!, month),
+    [summaryBusinessId]
+  );
+
   // Logo modal state
   const [showLogoModal, setShowLogoModal] = useState(false);
   const [selectedLogo, setSelectedLogo] = useState<{ src: string; alt: string; business: Business } | null>(null);
@@ -587,8 +602,18 @@ const AdminBusinesses: React.FC<AdminBusinessesProps> = ({
                     </td>
                     <td className={`px-6 py-4 whitespace-nowrap text-sm font-medium border-r ${themeClasses.border.primary}`}>
                       {/* Show actions based on permissions */}
-                      {(canModify || canSoftDelete || canHardDelete) ? (
+                      {(canModify || canSoftDelete || canHardDelete || canViewSummary) ? (
                         <div className="flex items-center space-x-2">
+                          {/* Executive Summary Button */}
+                          {canViewSummary && (
+                            <button
+                              onClick={() => setSummaryBusiness(business)}
+                              className="text-indigo-600 hover:text-indigo-900"
+                              title="Monthly executive summary"
+                            >
+                              <BarChart3 className="w-4 h-4" />
+                            </button>
+                          )}
                           {/* Edit Button */}
                           {canModify ? (
                             <button
@@ -912,6 +937,16 @@ const AdminBusinesses: React.FC<AdminBusinessesProps> = ({
 
               {/* Action buttons */}
               <div className="flex items-center justify-end gap-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+                {/* Executive Summary Button */}
+                {canViewSummary && (
+                  <button
+                    onClick={() => setSummaryBusiness(business)}
+                    className="p-2 text-indigo-600 hover:text-indigo-900 dark:text-indigo-400"
+                    title="Monthly executive summary"
+                  >
+                    <BarChart3 className="w-5 h-5" />
+                  </button>
+                )}
                 {/* Edit Button */}
                 {canModify ? (
                   <button
@@ -1039,6 +1074,32 @@ const AdminBusinesses: React.FC<AdminBusinessesProps> = ({
         )}
       </div>
 
+      {/* Executive Summary Modal */}
+      {summaryBusiness && (
+        <div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-start justify-center z-[60] p-4 overflow-y-auto"
+          onClick={() => setSummaryBusiness(null)}
+        >
+          <div
+            className={`relative w-full max-w-5xl my-8 rounded-lg p-6 ${themeClasses.bg.secondary} ${themeClasses.shadow.md}`}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <button
+              onClick={() => setSummaryBusiness(null)}
+              className={`absolute top-4 right-4 ${themeClasses.text.muted} hover:opacity-75`}
+            >
+              <X className="w-5 h-5" />
+            </button>
+            <ExecutiveSummaryView
+              key={summaryBusiness.id}
+              loadSummary={loadBusinessSummary}
+              downloadPdf={downloadBusinessSummaryPdf}
+              filePrefix={`executive-summary-${getBusinessDisplayName(summaryBusiness).replace(/[^a-z0-9]+/gi, '-').toLowerCase()}`}
+            />
+          </div>
+        </div>
+      )}
+
       {/* Permission Denied Modal */}
       <PermissionDeniedModal
         isOpen={permissionDenied.show}
@@ -1,13 +1,15 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { X, Save, Building, Plus, Trash2, AlertTriangle, AlertCircle } from 'lucide-react';
 import { themeClasses } from '../../../contexts/ThemeContext';
-import { adminService } from '../../../services/adminService';
+import { adminService, BillingMode } from '../../../services/adminService';
 import { PhotoUploadInterface } from '../../shared/PhotoUploadInterface';
 import ServiceAreaValidator from '../../shared/ServiceAreaValidator';
 import AddressFormWithAutoComplete from '../../shared/AddressFormWithAutoComplete';
 import { useEnhancedAuth } from '../../../contexts/EnhancedAuthContext';
 import { usePermission } from '../../../hooks/usePermission';
 import apiService from '../../../services/apiService';
+import PrepaidHoursSection from './PrepaidHoursSection';
+import TaxSettingsSection from './TaxSettingsSection';
 // Removed unused imports: validateServiceAreaField, AlertModal
 
 interface AuthorizedDomain {
@@ -45,6 +47,8 @@ interface Business {
   logoScale?: number;
   logoBackgroundColor?: string;
   rateCategoryId?: string;
+  billingMode?: BillingMode;
+  prepaidLowBalanceHours?: number;
   isIndividual?: boolean;
 }
 
@@ -68,6 +72,8 @@ interface EditBusinessModalProps {
     logoScale?: number;
     logoBackgroundColor?: string;
     rateCategoryId?: string;
+    billingMode?: BillingMode;
+    prepaidLowBalanceHours?: number;
   }) => Promise<void>;
   businesses?: Business[];
 }
@@ -121,6 +127,8 @@ const EditBusinessModal: React.FC<EditBusinessModalProps> = ({
   // Rate category state
   const [rateCategories, setRateCategories] = useState<RateCategory[]>([]);
   const [selectedRateCategoryId, setSelectedRateCategoryId] = useState<string>('');
+  const [billingMode, setBillingMode] = useState<BillingMode>('per_request');
+  const [prepaidLowBalanceHours, setPrepaidLowBalanceHours] = useState('2');
 
   // Check for duplicate business name in real-time
   const checkDuplicateName = (name: string) => {
@@ -246,6 +254,8 @@ const EditBusinessModal: React.FC<EditBusinessModalProps> = ({
       if (business.rateCategoryId) {
         setSelectedRateCategoryId(business.rateCategoryId);
       }
+      setBillingMode(business.billingMode || 'per_request');
+      setPrepaidLowBalanceHours(String(business.prepaidLowBalanceHours ?? 2));
 
       setOriginalBusiness(business);
     }
@@ -380,7 +390,9 @@ const EditBusinessModal: React.FC<EditBusinessModalProps> = ({
         logoPositionY: enableLogo ? formData.logoPositionY : null,
         logoScale: enableLogo ? formData.logoScale : null,
         logoBackgroundColor: enableBackgroundColor ? formData.logoBackgroundColor : null,
-        rateCategoryId: selectedRateCategoryId || undefined
+        rateCategoryId: selectedRateCategoryId || undefined,
+        billingMode,
+        prepaidLowBalanceHours: Number(prepaidLowBalanceHours)
       });
 
       console.log('✅ Business update successful');
@@ -540,6 +552,34 @@ const EditBusinessModal: React.FC<EditBusinessModalProps> = ({
                 </div>
               )}
 
+              {/* Billing Mode */}
+              <div className="md:col-span-2">
+                <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>
+                  Billing
+                </label>
+                <select
+                  value={billingMode}
+                  onChange={(e) => setBillingMode(e.target.value as BillingMode)}
+                  className={`w-full px-3 py-2 border ${themeClasses.border.primary} rounded-md ${themeClasses.bg.primary} ${themeClasses.text.primary} focus:ring-2 focus:ring-blue-500 focus:border-blue-500`}
+                >
+                  <option value="per_request">Invoice each service request when it is closed</option>
+                  <option value="monthly_consolidated">One consolidated invoice per month</option>
+                </select>
+                <p className={`text-xs ${themeClasses.text.muted} mt-1`}>
+                  Consolidated invoices list every request closed that month and are created as drafts for review
+                </p>
+              </div>
+
+              {/* Prepaid Hours */}
+              <PrepaidHoursSection
+                businessId={business.id}
+                lowBalanceHours={prepaidLowBalanceHours}
+                onLowBalanceHoursChange={setPrepaidLowBalanceHours}
+              />
+
+              {/* Currency and Sales Tax */}
+              <TaxSettingsSection businessId={business.id} />
+
               {/* Logo Upload Section */}
               <div className="md:col-span-2 mt-6">
                 <div className="flex items-center mb-4">
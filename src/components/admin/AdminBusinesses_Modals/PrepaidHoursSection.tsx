@@ -0,0 +1,220 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, Clock, Plus, Trash2 } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import {
+  prepaidHoursService,
+  formatPrepaidHours,
+  PrepaidBalance
+} from '../../../services/prepaidHoursService';
+
+interface PrepaidHoursSectionProps {
+  businessId: string;
+  /** Saved with the business, like the billing mode */
+  lowBalanceHours: string;
+  onLowBalanceHoursChange: (value: string) => void;
+}
+
+/**
+ * Prepaid hour blocks in the business editor. Blocks are added and removed
+ * straight away; the low-balance threshold is saved with the business.
+ * Completed service requests draw their logged hours down from the blocks
+ * when they are closed.
+ */
+const PrepaidHoursSection: React.FC<PrepaidHoursSectionProps> = ({
+  businessId,
+  lowBalanceHours,
+  onLowBalanceHoursChange
+}) => {
+  const [balance, setBalance] = useState<PrepaidBalance | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [hours, setHours] = useState('');
+  const [purchasedOn, setPurchasedOn] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+  const [notes, setNotes] = useState('');
+
+  const loadBalance = useCallback(async () => {
+    try {
+      const response = await prepaidHoursService.getBalance(businessId);
+      setBalance(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load prepaid hours');
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    loadBalance();
+  }, [loadBalance]);
+
+  const handleAdd = async () => {
+    try {
+      setBusy(true);
+      setError(null);
+      await prepaidHoursService.addBlock(businessId, {
+        hours: Number(hours),
+        purchasedOn: purchasedOn || null,
+        expiresOn: expiresOn || null,
+        notes: notes.trim() || null
+      });
+      setHours('');
+      setPurchasedOn('');
+      setExpiresOn('');
+      setNotes('');
+      await loadBalance();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add prepaid hours');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (blockId: string) => {
+    if (!window.confirm('Remove this block of prepaid hours?')) return;
+    try {
+      setError(null);
+      await prepaidHoursService.deleteBlock(businessId, blockId);
+      await loadBalance();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove prepaid block');
+    }
+  };
+
+  const inputClasses = `w-full px-3 py-2 border ${themeClasses.border.primary} rounded-md ${themeClasses.bg.primary} ${themeClasses.text.primary} focus:ring-2 focus:ring-blue-500 focus:border-blue-500`;
+
+  return (
+    <div className="md:col-span-2">
+      <div className="flex items-center space-x-2 mb-2">
+        <Clock className={`h-4 w-4 ${themeClasses.text.secondary}`} />
+        <label className={`block text-sm font-medium ${themeClasses.text.secondary}`}>
+          Prepaid Hours
+        </label>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {balance && (
+        <div className={`p-3 mb-3 rounded-md border ${themeClasses.border.primary}`}>
+          <div className="flex items-center justify-between">
+            <span className={`text-sm ${themeClasses.text.secondary}`}>Remaining</span>
+            <span className={`text-lg font-semibold ${balance.isLow ? 'text-yellow-600 dark:text-yellow-400' : themeClasses.text.primary}`}>
+              {formatPrepaidHours(balance.remainingHours)}
+            </span>
+          </div>
+          <p className={`text-xs ${themeClasses.text.muted}`}>
+            {balance.purchasedHours} purchased, {balance.usedHours} used
+            {balance.expiredHours > 0 && `, ${balance.expiredHours} expired`}
+          </p>
+          {balance.isLow && (
+            <p className="flex items-center text-xs text-yellow-700 dark:text-yellow-300 mt-1">
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              The balance is low; further work will be invoiced once it runs out
+            </p>
+          )}
+
+          {balance.blocks.length > 0 && (
+            <table className="min-w-full text-xs mt-3">
+              <thead>
+                <tr className={`text-left uppercase ${themeClasses.text.muted}`}>
+                  <th className="py-1 pr-2">Purchased</th>
+                  <th className="py-1 pr-2">Expires</th>
+                  <th className="py-1 pr-2 text-right">Hours</th>
+                  <th className="py-1 pr-2 text-right">Left</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody className={themeClasses.text.primary}>
+                {balance.blocks.map(block => (
+                  <tr key={block.id} title={block.notes || undefined}>
+                    <td className="py-1 pr-2">{block.purchased_on}</td>
+                    <td className="py-1 pr-2">
+                      {block.expires_on || '-'}
+                      {block.is_expired && <span className="ml-1 text-red-600 dark:text-red-400">(expired)</span>}
+                    </td>
+                    <td className="py-1 pr-2 text-right">{block.hours}</td>
+                    <td className="py-1 pr-2 text-right">{block.remaining_hours}</td>
+                    <td className="py-1 text-right">
+                      {block.used_minutes === 0 && (
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(block.id)}
+                          title="Remove"
+                          className="text-red-600 dark:text-red-400"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2 mb-2">
+        <input
+          type="number"
+          min="0.25"
+          step="0.25"
+          value={hours}
+          onChange={(e) => setHours(e.target.value)}
+          placeholder="Hours"
+          className={inputClasses}
+        />
+        <input
+          type="date"
+          value={purchasedOn}
+          onChange={(e) => setPurchasedOn(e.target.value)}
+          title="Purchased (defaults to today)"
+          className={inputClasses}
+        />
+        <input
+          type="date"
+          value={expiresOn}
+          onChange={(e) => setExpiresOn(e.target.value)}
+          title="Expires (optional)"
+          className={inputClasses}
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={busy || !hours}
+          className="flex items-center justify-center space-x-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Plus className="h-4 w-4" />
+          <span>{busy ? 'Adding...' : 'Add Block'}</span>
+        </button>
+      </div>
+      <input
+        type="text"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Notes (optional, not shown to the client)"
+        className={`${inputClasses} mb-2`}
+      />
+
+      <div className="flex items-center space-x-2">
+        <label className={`text-sm ${themeClasses.text.secondary}`}>Warn the client at</label>
+        <input
+          type="number"
+          min="0"
+          step="0.5"
+          value={lowBalanceHours}
+          onChange={(e) => onLowBalanceHoursChange(e.target.value)}
+          className={`w-24 px-2 py-1 border ${themeClasses.border.primary} rounded-md ${themeClasses.bg.primary} ${themeClasses.text.primary}`}
+        />
+        <span className={`text-sm ${themeClasses.text.secondary}`}>hours left</span>
+      </div>
+      <p className={`text-xs ${themeClasses.text.muted} mt-1`}>
+        Completed requests draw their logged hours from the soonest-expiring block; hours beyond the balance are invoiced
+      </p>
+    </div>
+  );
+};
+
+export default PrepaidHoursSection;
@@ -0,0 +1,257 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Download, Landmark, Save, Trash2, Upload } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import {
+  taxService,
+  BusinessTaxProfile,
+  TaxJurisdiction
+} from '../../../services/taxService';
+import { formatTaxRate } from '../../../utils/currencyFormatter';
+import { downloadBlob } from '../../../utils/downloadBlob';
+
+interface TaxSettingsSectionProps {
+  businessId: string;
+}
+
+/**
+ * Currency, sales tax jurisdiction and tax exemption in the business
+ * editor. Saved on their own (like prepaid blocks), not with the business.
+ * A business is only billed tax-free while it is marked exempt and has a
+ * certificate on file that has not expired.
+ */
+const TaxSettingsSection: React.FC<TaxSettingsSectionProps> = ({ businessId }) => {
+  const [profile, setProfile] = useState<BusinessTaxProfile | null>(null);
+  const [jurisdictions, setJurisdictions] = useState<TaxJurisdiction[]>([]);
+  const [currencies, setCurrencies] = useState<string[]>(['USD']);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [currency, setCurrency] = useState('USD');
+  const [jurisdictionId, setJurisdictionId] = useState('');
+  const [taxExempt, setTaxExempt] = useState(false);
+  const [certificateNumber, setCertificateNumber] = useState('');
+  const [expiresOn, setExpiresOn] = useState('');
+
+  const applyProfile = (data: BusinessTaxProfile) => {
+    setProfile(prev => ({ ...data, invoiceTax: data.invoiceTax ?? prev?.invoiceTax }));
+    setCurrency(data.currency);
+    setJurisdictionId(data.tax_jurisdiction_id || '');
+    setTaxExempt(data.tax_exempt);
+    setCertificateNumber(data.tax_exempt_certificate_number || '');
+    setExpiresOn(data.tax_exempt_expires_on || '');
+  };
+
+  const loadProfile = useCallback(async () => {
+    try {
+      const [profileResponse, jurisdictionsResponse] = await Promise.all([
+        taxService.getBusinessTaxProfile(businessId),
+        taxService.listJurisdictions()
+      ]);
+      applyProfile(profileResponse.data);
+      setJurisdictions(jurisdictionsResponse.data.jurisdictions);
+      setCurrencies(jurisdictionsResponse.data.currencies);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tax settings');
+    }
+  }, [businessId]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const run = async (action: () => Promise<{ data: BusinessTaxProfile; message?: string }>, fallback: string) => {
+    try {
+      setBusy(true);
+      setError(null);
+      setMessage(null);
+      const response = await action();
+      // Re-read so the "next invoice" summary reflects the change
+      await loadProfile();
+      setMessage(response.message || 'Tax settings saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = () => run(
+    () => taxService.updateBusinessTaxProfile(businessId, {
+      currency,
+      taxJurisdictionId: jurisdictionId || null,
+      taxExempt,
+      taxExemptCertificateNumber: certificateNumber.trim() || null,
+      taxExemptExpiresOn: expiresOn || null
+    }),
+    'Failed to save tax settings'
+  );
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(() => taxService.uploadExemptionCertificate(businessId, file), 'Failed to upload exemption certificate');
+  };
+
+  const handleRemoveCertificate = () => {
+    if (!window.confirm('Remove the exemption certificate? The business will be taxed again.')) return;
+    run(() => taxService.removeExemptionCertificate(businessId), 'Failed to remove exemption certificate');
+  };
+
+  const handleDownload = async () => {
+    if (!profile?.tax_exempt_certificate_file_id) return;
+    try {
+      const blob = await taxService.downloadExemptionCertificate(businessId, profile.tax_exempt_certificate_file_id);
+      downloadBlob(blob, profile.tax_exempt_certificate_filename || 'exemption-certificate');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download certificate');
+    }
+  };
+
+  // Inactive jurisdictions only show when the business still uses one
+  const selectableJurisdictions = jurisdictions.filter(j => j.is_active || j.id === jurisdictionId);
+  const invoiceTax = profile?.invoiceTax;
+  const inputClasses = `w-full px-3 py-2 border ${themeClasses.border.primary} rounded-md ${themeClasses.bg.primary} ${themeClasses.text.primary} focus:ring-2 focus:ring-blue-500 focus:border-blue-500`;
+
+  return (
+    <div className="md:col-span-2">
+      <div className="flex items-center space-x-2 mb-2">
+        <Landmark className={`h-4 w-4 ${themeClasses.text.secondary}`} />
+        <label className={`block text-sm font-medium ${themeClasses.text.secondary}`}>
+          Currency &amp; Sales Tax
+        </label>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="mb-3 p-3 rounded-md bg-green-50 dark:bg-green-900/20 text-sm text-green-800 dark:text-green-300">
+          {message}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2 mb-2">
+        <select
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          title="Invoice currency"
+          className={inputClasses}
+        >
+          {currencies.map(code => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+        <select
+          value={jurisdictionId}
+          onChange={(e) => setJurisdictionId(e.target.value)}
+          className={`${inputClasses} md:col-span-2`}
+        >
+          <option value="">Company default tax rate</option>
+          {selectableJurisdictions.map(jurisdiction => (
+            <option key={jurisdiction.id} value={jurisdiction.id}>
+              {jurisdiction.name} ({formatTaxRate(jurisdiction.total_rate)})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <label className={`flex items-center space-x-2 text-sm ${themeClasses.text.secondary} mb-2`}>
+        <input
+          type="checkbox"
+          checked={taxExempt}
+          onChange={(e) => setTaxExempt(e.target.checked)}
+        />
+        <span>Tax exempt</span>
+      </label>
+
+      {taxExempt && (
+        <div className={`p-3 mb-2 rounded-md border ${themeClasses.border.primary} space-y-2`}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={certificateNumber}
+              onChange={(e) => setCertificateNumber(e.target.value)}
+              placeholder="Certificate number"
+              className={inputClasses}
+            />
+            <input
+              type="date"
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+              title="Certificate expires (optional)"
+              className={inputClasses}
+            />
+          </div>
+
+          {profile?.tax_exempt_certificate_file_id ? (
+            <div className="flex items-center justify-between text-sm">
+              <button
+                type="button"
+                onClick={handleDownload}
+                className="flex items-center space-x-1 text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                <Download className="h-4 w-4" />
+                <span>{profile.tax_exempt_certificate_filename || 'Certificate'}</span>
+              </button>
+              <button
+                type="button"
+                onClick={handleRemoveCertificate}
+                disabled={busy}
+                title="Remove certificate"
+                className="text-red-600 dark:text-red-400"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ) : (
+            <p className="text-xs text-yellow-700 dark:text-yellow-300">
+              Invoices stay taxed until a certificate is uploaded
+            </p>
+          )}
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".pdf,.jpg,.jpeg,.png"
+            onChange={handleUpload}
+            className="hidden"
+          />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={busy}
+            className={`flex items-center space-x-1 px-3 py-1 text-sm rounded-md border ${themeClasses.border.primary} ${themeClasses.text.secondary} disabled:opacity-50`}
+          >
+            <Upload className="h-4 w-4" />
+            <span>{profile?.tax_exempt_certificate_file_id ? 'Replace Certificate' : 'Upload Certificate'}</span>
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className={`text-xs ${themeClasses.text.muted}`}>
+          {invoiceTax && (invoiceTax.exempt
+            ? `Next invoice: ${invoiceTax.currency}, tax exempt`
+            : `Next invoice: ${invoiceTax.currency}, tax ${formatTaxRate(invoiceTax.taxRate)}${
+              invoiceTax.laborTaxable ? '' : ' (labor not taxed)'}`)}
+        </p>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={busy || !profile}
+          className="flex items-center space-x-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Save className="h-4 w-4" />
+          <span>{busy ? 'Saving...' : 'Save Tax Settings'}</span>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TaxSettingsSection;
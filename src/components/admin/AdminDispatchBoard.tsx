@@ -0,0 +1,358 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CalendarClock, ChevronLeft, ChevronRight, GripVertical, Inbox, RefreshCw } from 'lucide-react';
+import { usePermission } from '../../hooks/usePermission';
+import { websocketService } from '../../services/websocketService';
+import {
+  dispatchService,
+  boardDays,
+  bookingSlot,
+  findOverlap,
+  timeFromDrop,
+  DispatchBoard,
+  DispatchBooking,
+  DispatchTechnician,
+  DispatchView,
+  QueuedRequest,
+  WORKDAY_END_HOUR,
+  WORKDAY_START_HOUR,
+} from '../../services/dispatchService';
+
+const cardClass = 'bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700';
+const buttonClass = 'p-2 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700';
+
+/** What is being dragged: a queued request or a booking on the board. */
+interface DragItem {
+  requestId: string;
+  requestNumber: string;
+  durationMinutes: number;
+  fromTechnicianId: string | null;
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+const formatDuration = (minutes: number) =>
+  minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}` : `${minutes}m`;
+
+const bookingColor = (booking: DispatchBooking) => {
+  if (booking.is_final_status) return 'bg-gray-400 dark:bg-gray-600';
+  return booking.is_scheduled ? 'bg-blue-600' : 'bg-blue-400 border border-dashed border-blue-800';
+};
+
+/**
+ * Dispatch board: technicians as rows over a day or a week, with the queue
+ * of unassigned requests beside them. Dropping a request on a technician's
+ * day assigns it and schedules it at the drop position; dropping a booking
+ * back on the queue unassigns it. Technicians the employee calendar shows
+ * as unavailable cannot take drops, and a drop overlapping another booking
+ * is refused. Changes from other dispatchers arrive over the websocket.
+ */
+const AdminDispatchBoard: React.FC = () => {
+  const { checkPermission } = usePermission();
+  const canAssign = checkPermission('assign.service_requests.enable');
+
+  const [view, setView] = useState<DispatchView>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [board, setBoard] = useState<DispatchBoard | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const days = useMemo(() => boardDays(anchor, view), [anchor, view]);
+
+  useEffect(() => {
+    const from = days[0];
+    const to = new Date(from.getFullYear(), from.getMonth(), from.getDate() + days.length);
+    setLoading(true);
+    dispatchService.getBoard(from, to)
+      .then(response => setBoard(response.data))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load dispatch board'))
+      .finally(() => setLoading(false));
+  }, [days, refreshKey]);
+
+  const reload = () => setRefreshKey(k => k + 1);
+
+  // Assignments, schedules and working statuses changed elsewhere
+  useEffect(() => {
+    const unsubscribe = websocketService.onEntityDataChange(change => {
+      if (change.entityType === 'serviceRequest' || change.entityType === 'employee') {
+        reload();
+      }
+    });
+    return unsubscribe;
+  }, []);
+
+  const move = (direction: -1 | 1) => {
+    const step = view === 'day' ? 1 : 7;
+    setAnchor(new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + direction * step));
+  };
+
+  const run = async (action: () => Promise<{ message?: string }>) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await action();
+      if (response.message) setMessage(response.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setSaving(false);
+      reload();
+    }
+  };
+
+  const startDrag = (e: React.DragEvent, item: DragItem) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', item.requestId);
+    setDragItem(item);
+  };
+
+  const endDrag = () => {
+    setDragItem(null);
+    setDropTarget(null);
+  };
+
+  const allowDrop = (e: React.DragEvent, target: string) => {
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    if (dropTarget !== target) setDropTarget(target);
+  };
+
+  const dropOnDay = (e: React.DragEvent, technician: DispatchTechnician, day: Date) => {
+    e.preventDefault();
+    const item = dragItem;
+    endDrag();
+    if (!item || saving) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const start = timeFromDrop(day, (e.clientX - rect.left) / rect.width);
+    const overlap = findOverlap(technician.bookings, start, item.durationMinutes, item.requestId);
+    if (overlap) {
+      setMessage(null);
+      setError(`${technician.name} is already booked on ${overlap.request_number} at ${formatTime(start)}`);
+      return;
+    }
+    run(() => dispatchService.dispatch(item.requestId, {
+      technicianId: technician.id,
+      scheduledDatetime: start.toISOString(),
+    }));
+  };
+
+  const dropOnQueue = (e: React.DragEvent) => {
+    e.preventDefault();
+    const item = dragItem;
+    endDrag();
+    if (!item || !item.fromTechnicianId || saving) return;
+    run(() => dispatchService.returnToQueue(item.requestId));
+  };
+
+  const title = view === 'day'
+    ? days[0].toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' })
+    : `${days[0].toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} - ${days[days.length - 1].toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  const todayKey = new Date().toDateString();
+  const hourTicks = Array.from({ length: WORKDAY_END_HOUR - WORKDAY_START_HOUR }, (_, i) => WORKDAY_START_HOUR + i);
+
+  const queueCard = (request: QueuedRequest) => (
+    <li
+      key={request.id}
+      draggable={canAssign && !saving}
+      onDragStart={(e) => startDrag(e, {
+        requestId: request.id,
+        requestNumber: request.request_number,
+        durationMinutes: request.duration_minutes,
+        fromTechnicianId: null,
+      })}
+      onDragEnd={endDrag}
+      className={`p-2 rounded-md border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/50 text-sm ${canAssign ? 'cursor-grab' : ''}`}
+      style={request.urgency_color ? { borderLeft: `4px solid ${request.urgency_color}` } : undefined}
+    >
+      <div className="flex items-start gap-1">
+        {canAssign && <GripVertical className="h-4 w-4 mt-0.5 flex-shrink-0 text-gray-400" />}
+        <div className="min-w-0">
+          <div className="font-mono text-xs text-gray-500 dark:text-gray-400">{request.request_number}</div>
+          <div className="font-medium text-gray-900 dark:text-white truncate" title={request.title}>{request.title}</div>
+          <div className="text-xs text-gray-600 dark:text-gray-400 truncate">
+            {request.business_name}{request.location_name && ` · ${request.location_name}`}
+          </div>
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {request.requested_datetime
+              ? `Requested ${new Date(request.requested_datetime).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`
+              : 'No requested time'}
+            {' · '}{formatDuration(request.duration_minutes)}
+            {request.urgency && ` · ${request.urgency}`}
+          </div>
+        </div>
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">{error}</div>
+      )}
+      {message && (
+        <div className="p-3 rounded-md bg-green-50 dark:bg-green-900/20 text-sm text-green-700 dark:text-green-300">{message}</div>
+      )}
+
+      <div className={`${cardClass} p-4 flex flex-wrap items-center justify-between gap-3`}>
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center">
+            <CalendarClock className="h-5 w-5 mr-2 text-blue-600" />
+            Dispatch Board
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            {canAssign
+              ? 'Drag a request onto a technician\'s day to assign and schedule it; drag it back to the queue to unassign.'
+              : 'Bookings by technician. Assigning needs the assign service requests permission.'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-md border border-gray-300 dark:border-gray-600 overflow-hidden">
+            {(['day', 'week'] as DispatchView[]).map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1.5 text-sm capitalize ${view === option ? 'bg-blue-600 text-white' : 'text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <button onClick={() => move(-1)} className={buttonClass} title="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </button>
+          <button
+            onClick={() => setAnchor(new Date())}
+            className="px-3 py-1.5 text-sm rounded-md border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            Today
+          </button>
+          <button onClick={() => move(1)} className={buttonClass} title="Next">
+            <ChevronRight className="h-4 w-4" />
+          </button>
+          <span className="text-sm font-medium text-gray-900 dark:text-white whitespace-nowrap">{title}</span>
+          <button onClick={reload} className={buttonClass} title="Refresh">
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-4 items-start">
+        {/* Unassigned queue */}
+        <div
+          onDragOver={(e) => dragItem?.fromTechnicianId && allowDrop(e, 'queue')}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={dropOnQueue}
+          className={`${cardClass} w-72 flex-shrink-0 ${dropTarget === 'queue' ? 'ring-2 ring-blue-500' : ''}`}
+        >
+          <div className="p-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+              <Inbox className="h-4 w-4" />
+              Unassigned
+            </h3>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{board?.queue.length ?? 0}</span>
+          </div>
+          {board && board.queue.length === 0 ? (
+            <p className="p-3 text-sm text-gray-500 dark:text-gray-400">Every open request is assigned.</p>
+          ) : (
+            <ul className="p-2 space-y-2 max-h-[70vh] overflow-y-auto">
+              {board?.queue.map(queueCard)}
+            </ul>
+          )}
+        </div>
+
+        {/* Technician timelines */}
+        <div className={`${cardClass} flex-1 overflow-x-auto`}>
+          <table className="min-w-full table-fixed">
+            <thead className="bg-gray-50 dark:bg-gray-700">
+              <tr>
+                <th className="w-48 px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                  Technician
+                </th>
+                {days.map(day => (
+                  <th
+                    key={day.toISOString()}
+                    className={`px-1 py-2 text-xs font-medium uppercase tracking-wider ${day.toDateString() === todayKey ? 'text-blue-600 dark:text-blue-400' : 'text-gray-500 dark:text-gray-400'}`}
+                  >
+                    {day.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })}
+                    {view === 'day' && (
+                      <div className="flex justify-between mt-1 normal-case font-normal">
+                        {hourTicks.map(hour => (
+                          <span key={hour}>{formatTime(new Date(2000, 0, 1, hour))}</span>
+                        ))}
+                      </div>
+                    )}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {board?.technicians.map(technician => {
+                const unavailable = technician.availability === 'unavailable';
+                return (
+                  <tr key={technician.id} className={unavailable ? 'bg-gray-100 dark:bg-gray-900/40' : undefined}>
+                    <td className="px-3 py-2 align-top">
+                      <div className="text-sm font-medium text-gray-900 dark:text-white">{technician.name}</div>
+                      <div className={`text-xs ${unavailable ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                        {technician.working_status_display || (unavailable ? 'Unavailable' : 'Available')}
+                      </div>
+                    </td>
+                    {days.map(day => {
+                      const target = `${technician.id}:${day.toDateString()}`;
+                      return (
+                        <td
+                          key={target}
+                          onDragOver={(e) => !unavailable && dragItem && allowDrop(e, target)}
+                          onDragLeave={() => setDropTarget(null)}
+                          onDrop={(e) => !unavailable && dropOnDay(e, technician, day)}
+                          title={unavailable ? `${technician.name} is not available` : undefined}
+                          className={`relative h-14 p-0 border-l border-gray-200 dark:border-gray-700 ${unavailable ? 'cursor-not-allowed opacity-60' : ''} ${dropTarget === target ? 'bg-blue-50 dark:bg-blue-900/20' : ''}`}
+                        >
+                          {technician.bookings.map(booking => {
+                            const slot = bookingSlot(booking.start_datetime, booking.duration_minutes, day);
+                            if (!slot) return null;
+                            const start = new Date(booking.start_datetime);
+                            const movable = canAssign && !booking.is_final_status && !saving;
+                            return (
+                              <div
+                                key={booking.id}
+                                draggable={movable}
+                                onDragStart={(e) => startDrag(e, {
+                                  requestId: booking.id,
+                                  requestNumber: booking.request_number,
+                                  durationMinutes: booking.duration_minutes,
+                                  fromTechnicianId: technician.id,
+                                })}
+                                onDragEnd={endDrag}
+                                className={`absolute top-1 bottom-1 rounded px-1 text-[11px] leading-tight text-white overflow-hidden ${bookingColor(booking)} ${movable ? 'cursor-grab' : ''}`}
+                                style={{ left: `${slot.left}%`, width: `${slot.width}%` }}
+                                title={`${booking.request_number} ${booking.title}\n${formatTime(start)} · ${formatDuration(booking.duration_minutes)} · ${booking.status}${booking.business_name ? `\n${booking.business_name}` : ''}${booking.is_scheduled ? '' : '\nRequested time, not yet scheduled'}`}
+                              >
+                                <div className="font-mono truncate">{booking.request_number}</div>
+                                {view === 'day' && <div className="truncate">{booking.title}</div>}
+                              </div>
+                            );
+                          })}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {board && board.technicians.length === 0 && (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No active technicians.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminDispatchBoard;
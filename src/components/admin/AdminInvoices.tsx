@@ -11,49 +11,82 @@ import {
   Download,
   CheckCircle,
   Clock,
-  AlertCircle
+  AlertCircle,
+  Plus,
+  Edit2,
+  Send,
+  Trash2,
+  Ban,
+  Undo2,
+  Layers,
+  Mail,
+  Bell,
+  BellOff,
+  RotateCcw,
+  CircleDollarSign,
+  BarChart3,
+  BookOpen,
+  Landmark
 } from 'lucide-react';
 import { useTheme, themeClasses } from '../../contexts/ThemeContext';
 import { usePermissionContext } from '../../contexts/PermissionContext';
+import { useAdminData, InvoiceSummary } from '../../contexts/AdminDataContext';
 import apiService from '../../services/apiService';
-
-interface InvoiceSummary {
-  id: string;
-  invoice_number: string;
-  issue_date: string;
-  due_date: string;
-  payment_date: string | null;
-  payment_status: string;
-  total_amount: number;
-  is_first_service_request: boolean;
-  business_name: string;
-  request_number: string;
-  service_title: string;
-}
+import {
+  invoiceService,
+  InvoiceStatus,
+  InvoiceType,
+  InvoiceLineItem,
+  InvoiceHistoryEntry,
+  InvoiceCreditNote,
+  InvoicePayment,
+  PendingConsolidation
+} from '../../services/invoiceService';
+import {
+  InvoiceEditorModal,
+  InvoiceAdjustmentModal,
+  InvoiceEmailModal,
+  InvoiceHistoryList,
+  InvoicePaymentLedger,
+  ReceivablesReports,
+  AccountingExport,
+  TaxJurisdictions,
+  EditableDraft
+} from './AdminInvoices_Modals';
+import InvoiceLineItemsTable from '../shared/InvoiceLineItemsTable';
+import { downloadBlob } from '../../utils/downloadBlob';
+import { useCurrencyFormatter } from '../../hooks/useCurrencyFormatter';
+import { formatTaxRate, TaxBreakdownLine } from '../../utils/currencyFormatter';
 
 interface Invoice {
   id: string;
   invoice_number: string;
+  business_id: string;
+  invoice_status: InvoiceStatus;
+  invoice_type: InvoiceType;
+  void_reason: string | null;
+  voided_at: string | null;
+  credit_for_invoice_id: string | null;
+  credit_for_invoice_number: string | null;
+  credit_reason: string | null;
+  dunning_paused_at: string | null;
+  amount_paid: number | string;
+  amount_refunded: number | string;
+  dispute_status: string | null;
+  dispute_amount: number | string | null;
+  disputed_at: string | null;
   issue_date: string;
   due_date: string;
   payment_date: string | null;
   payment_status: string;
-  base_hourly_rate: number;
-  standard_hours: number;
-  standard_rate: number;
-  standard_cost: number;
-  premium_hours: number;
-  premium_rate: number;
-  premium_cost: number;
-  emergency_hours: number;
-  emergency_rate: number;
-  emergency_cost: number;
-  waived_hours: number;
   is_first_service_request: boolean;
   subtotal: number;
   tax_rate: number;
   tax_amount: number;
+  /** One line per jurisdiction component (state, county, city) */
+  tax_breakdown: TaxBreakdownLine[] | null;
   total_amount: number;
+  currency: string;
   work_description: string | null;
   notes: string | null;
   business_name: string;
@@ -64,10 +97,20 @@ interface Invoice {
   city: string;
   state: string;
   zip_code: string;
-  request_number: string;
-  service_title: string;
-  service_created_at: string;
-  service_completed_at: string;
+  request_number: string | null;
+  service_title: string | null;
+  service_created_at: string | null;
+  service_completed_at: string | null;
+}
+
+interface InvoiceDetail {
+  invoice: Invoice;
+  companyInfo: CompanyInfo;
+  lineItems: InvoiceLineItem[];
+  history: InvoiceHistoryEntry[];
+  creditNotes: InvoiceCreditNote[];
+  payments: InvoicePayment[];
+  creditBalance: number;
 }
 
 interface CompanyInfo {
@@ -84,6 +127,7 @@ interface CompanyInfo {
 interface Filters {
   search: string;
   paymentStatus: string;
+  invoiceStatus: string;
   dueDateFrom: string;
   dueDateTo: string;
   paymentDateFrom: string;
@@ -104,17 +148,23 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
   refreshInvoices
 }) => {
   const { isDark } = useTheme();
+  const formatMoney = useCurrencyFormatter();
   const { hasPermission, loading: permissionsLoading } = usePermissionContext();
+  const { businesses } = useAdminData();
 
   // Use props or local state for backward compatibility
   const [invoices, setInvoices] = useState<InvoiceSummary[]>(propsInvoices);
   const [loading, setLoading] = useState(propsLoading);
   const [error, setError] = useState<string | null>(propsError);
   const [showFilters, setShowFilters] = useState(false);
+  const [showReports, setShowReports] = useState(false);
+  const [showAccountingExport, setShowAccountingExport] = useState(false);
+  const [showTaxJurisdictions, setShowTaxJurisdictions] = useState(false);
 
   const [filters, setFilters] = useState<Filters>({
     search: '',
     paymentStatus: 'all',
+    invoiceStatus: 'all',
     dueDateFrom: '',
     dueDateTo: '',
     paymentDateFrom: '',
@@ -134,7 +184,7 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
   // Invoice viewer state
   const [selectedInvoiceId, setSelectedInvoiceId] = useState<string | null>(null);
   const [showInvoiceModal, setShowInvoiceModal] = useState(false);
-  const [invoiceData, setInvoiceData] = useState<{ invoice: Invoice; companyInfo: CompanyInfo } | null>(null);
+  const [invoiceData, setInvoiceData] = useState<InvoiceDetail | null>(null);
   const [loadingInvoice, setLoadingInvoice] = useState(false);
 
   // Payment status update state
@@ -145,6 +195,19 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
   const [paymentNotes, setPaymentNotes] = useState<string>('');
   const [updatingPayment, setUpdatingPayment] = useState(false);
 
+  // Manual invoice editor and void/credit state
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingDraft, setEditingDraft] = useState<EditableDraft | null>(null);
+  const [adjustmentMode, setAdjustmentMode] = useState<'void' | 'credit' | null>(null);
+  const [actionMessage, setActionMessage] = useState<string | null>(null);
+  const [showEmailModal, setShowEmailModal] = useState(false);
+  const [downloadingPdf, setDownloadingPdf] = useState(false);
+
+  // Businesses whose closed requests are waiting for a consolidated invoice
+  const [pendingConsolidation, setPendingConsolidation] = useState<PendingConsolidation[]>([]);
+  const [consolidationRefreshKey, setConsolidationRefreshKey] = useState(0);
+  const [consolidatingBusinessId, setConsolidatingBusinessId] = useState<string | null>(null);
+
   // Fetch invoices (must be defined before useEffect)
   const fetchInvoices = async () => {
     try {
@@ -159,6 +222,7 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
       };
 
       if (filters.paymentStatus !== 'all') params.paymentStatus = filters.paymentStatus;
+      if (filters.invoiceStatus !== 'all') params.invoiceStatus = filters.invoiceStatus;
       if (filters.dueDateFrom) params.dueDateFrom = filters.dueDateFrom;
       if (filters.dueDateTo) params.dueDateTo = filters.dueDateTo;
       if (filters.paymentDateFrom) params.paymentDateFrom = filters.paymentDateFrom;
@@ -213,6 +277,13 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
     }
   }, [permissionsLoading]);
 
+  useEffect(() => {
+    if (permissionsLoading || !hasPermission('create.invoices.enable')) return;
+    invoiceService.getPendingConsolidation()
+      .then(response => setPendingConsolidation(response.data || []))
+      .catch(err => console.error('Error loading pending consolidated billing:', err));
+  }, [permissionsLoading, hasPermission, consolidationRefreshKey]);
+
   // Handle Escape key to close invoice modal
   useEffect(() => {
     const handleEscapeKey = (event: KeyboardEvent) => {
@@ -326,6 +397,123 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
     }
   };
 
+  // Re-fetch the list and, if it is open, the invoice being viewed
+  const refreshAfterAction = async (message: string, invoiceId?: string) => {
+    setActionMessage(message);
+    if (refreshInvoices) {
+      await refreshInvoices(true);
+    } else {
+      await fetchInvoices();
+    }
+    if (invoiceId && showInvoiceModal) {
+      fetchInvoice(invoiceId);
+    }
+  };
+
+  // Open the editor on a draft (the detail has the line items)
+  const handleEditDraft = async (invoiceId: string) => {
+    try {
+      const response = await apiService.get<{ success: boolean; message?: string; data?: InvoiceDetail }>(
+        `/admin/invoices/${invoiceId}`
+      );
+      if (!response.success || !response.data) {
+        throw new Error(response.message || 'Failed to fetch invoice');
+      }
+      const { invoice, lineItems } = response.data;
+      setEditingDraft({
+        id: invoice.id,
+        business_id: invoice.business_id,
+        due_date: invoice.due_date,
+        tax_rate: invoice.tax_rate,
+        tax_breakdown: invoice.tax_breakdown,
+        work_description: invoice.work_description,
+        notes: invoice.notes,
+        lineItems
+      });
+      setShowEditor(true);
+    } catch (err) {
+      console.error('Error loading draft invoice:', err);
+      alert('Failed to load draft. Please try again.');
+    }
+  };
+
+  const handleIssueDraft = async (invoice: { id: string; invoice_number: string }) => {
+    if (!window.confirm(`Issue ${invoice.invoice_number}? It will be numbered, locked and shown to the client.`)) return;
+    try {
+      const response = await invoiceService.issueDraft(invoice.id);
+      await refreshAfterAction(response.message || 'Invoice issued', invoice.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to issue invoice');
+    }
+  };
+
+  const handleDeleteDraft = async (invoice: { id: string; invoice_number: string }) => {
+    if (!window.confirm(`Delete draft ${invoice.invoice_number}?`)) return;
+    try {
+      await invoiceService.deleteDraft(invoice.id);
+      if (selectedInvoiceId === invoice.id) {
+        setShowInvoiceModal(false);
+        setSelectedInvoiceId(null);
+        setInvoiceData(null);
+      }
+      await refreshAfterAction('Draft deleted');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete draft');
+    }
+  };
+
+  const handleConsolidate = async (pending: PendingConsolidation) => {
+    const count = `${pending.request_count} closed request${pending.request_count === 1 ? '' : 's'}`;
+    if (!window.confirm(`Create a draft invoice for ${pending.business_name} now from ${count}?`)) return;
+    try {
+      setConsolidatingBusinessId(pending.business_id);
+      const response = await invoiceService.consolidateBusiness(pending.business_id);
+      setConsolidationRefreshKey(key => key + 1);
+      await refreshAfterAction(response.message || 'Draft invoice created');
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to create consolidated invoice');
+    } finally {
+      setConsolidatingBusinessId(null);
+    }
+  };
+
+  const handleDownloadPdf = async (invoice: { id: string; invoice_number: string }) => {
+    try {
+      setDownloadingPdf(true);
+      const blob = await invoiceService.downloadPdf(invoice.id);
+      downloadBlob(blob, `${invoice.invoice_number}.pdf`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to download PDF');
+    } finally {
+      setDownloadingPdf(false);
+    }
+  };
+
+  const handleToggleReminders = async (invoice: { id: string; invoice_number: string; dunning_paused_at: string | null }) => {
+    const pausing = !invoice.dunning_paused_at;
+    let reason: string | undefined;
+    if (pausing) {
+      const input = window.prompt(`Pause payment reminders for ${invoice.invoice_number}? Reason (optional):`);
+      if (input === null) return;
+      reason = input.trim() || undefined;
+    }
+    try {
+      const response = await invoiceService.setRemindersPaused(invoice.id, pausing, reason);
+      await refreshAfterAction(response.message || (pausing ? 'Payment reminders paused' : 'Payment reminders resumed'), invoice.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update payment reminders');
+    }
+  };
+
+  const canCreateInvoices = hasPermission('create.invoices.enable');
+  const canModifyInvoices = hasPermission('modify.invoices.enable');
+  const canVoidInvoices = hasPermission('void.invoices.enable');
+  const canSendInvoices = hasPermission('send.invoices.enable');
+  const canExportInvoices = hasPermission('export.invoices.enable');
+  const canViewFinancialReports = hasPermission('view.financial_reports.enable');
+  const canExportAccounting = hasPermission('export.accounting.enable');
+  const canManageTaxSettings = hasPermission('manage.tax_settings.enable');
+
   // Format date
   const formatDate = (dateString: string | null) => {
     if (!dateString) return 'N/A';
@@ -342,14 +530,16 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
     }
   };
 
-  // Filter invoices locally by search term
+  // Filter invoices locally by lifecycle status and search term
   const filteredInvoices = invoices.filter(invoice => {
+    if (filters.invoiceStatus !== 'all' && invoice.invoice_status !== filters.invoiceStatus) return false;
     if (!filters.search) return true;
     const searchLower = filters.search.toLowerCase();
     return (
       invoice.invoice_number.toLowerCase().includes(searchLower) ||
       invoice.business_name.toLowerCase().includes(searchLower) ||
-      invoice.request_number.toLowerCase().includes(searchLower)
+      (invoice.request_number || '').toLowerCase().includes(searchLower) ||
+      (invoice.work_description || '').toLowerCase().includes(searchLower)
     );
   });
 
@@ -370,6 +560,20 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
           {status}
         </span>
       );
+    } else if (statusLower === 'partial') {
+      return (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300">
+          <CircleDollarSign className="h-3 w-3 mr-1" />
+          {status}
+        </span>
+      );
+    } else if (statusLower === 'refunded') {
+      return (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300">
+          <RotateCcw className="h-3 w-3 mr-1" />
+          {status}
+        </span>
+      );
     } else {
       return (
         <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300">
@@ -380,6 +584,35 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
     }
   };
 
+  // Draft / void / credit note marker shown next to the payment status
+  const getLifecycleBadge = (invoice: { invoice_status: InvoiceStatus; invoice_type: InvoiceType }) => {
+    if (invoice.invoice_status === 'draft') {
+      return (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
+          <Edit2 className="h-3 w-3 mr-1" />
+          draft
+        </span>
+      );
+    }
+    if (invoice.invoice_status === 'void') {
+      return (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">
+          <Ban className="h-3 w-3 mr-1" />
+          void
+        </span>
+      );
+    }
+    if (invoice.invoice_type === 'credit_note') {
+      return (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300">
+          <Undo2 className="h-3 w-3 mr-1" />
+          credit note
+        </span>
+      );
+    }
+    return null;
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -394,16 +627,113 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
           </div>
         </div>
 
-        <button
-          onClick={() => setShowFilters(!showFilters)}
-          className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${themeClasses.bg.hover} transition-colors`}
-        >
-          <Filter className="h-5 w-5" />
-          <span>Filters</span>
-          {showFilters ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
-        </button>
+        <div className="flex items-center space-x-2">
+          {canCreateInvoices && (
+            <button
+              onClick={() => {
+                setEditingDraft(null);
+                setShowEditor(true);
+              }}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-5 w-5" />
+              <span>New Invoice</span>
+            </button>
+          )}
+          {canViewFinancialReports && (
+            <button
+              onClick={() => setShowReports(!showReports)}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${themeClasses.bg.hover} transition-colors`}
+            >
+              <BarChart3 className="h-5 w-5" />
+              <span>Aging &amp; Revenue</span>
+              {showReports ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </button>
+          )}
+          {canExportAccounting && (
+            <button
+              onClick={() => setShowAccountingExport(!showAccountingExport)}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${themeClasses.bg.hover} transition-colors`}
+            >
+              <BookOpen className="h-5 w-5" />
+              <span>Accounting Export</span>
+              {showAccountingExport ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </button>
+          )}
+          {canManageTaxSettings && (
+            <button
+              onClick={() => setShowTaxJurisdictions(!showTaxJurisdictions)}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${themeClasses.bg.hover} transition-colors`}
+            >
+              <Landmark className="h-5 w-5" />
+              <span>Sales Tax</span>
+              {showTaxJurisdictions ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </button>
+          )}
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${themeClasses.bg.hover} transition-colors`}
+          >
+            <Filter className="h-5 w-5" />
+            <span>Filters</span>
+            {showFilters ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </button>
+        </div>
       </div>
 
+      {actionMessage && (
+        <div className="flex items-center justify-between p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-sm text-green-800 dark:text-green-300">
+          <span>{actionMessage}</span>
+          <button onClick={() => setActionMessage(null)}>
+            <XCircle className="h-4 w-4" />
+          </button>
+        </div>
+      )}
+
+      {/* AR aging and revenue */}
+      {canViewFinancialReports && showReports && (
+        <ReceivablesReports onViewInvoice={handleViewInvoice} canExport={canExportInvoices} />
+      )}
+
+      {/* QuickBooks / Xero export */}
+      {canExportAccounting && showAccountingExport && <AccountingExport />}
+
+      {/* Tax jurisdictions */}
+      {canManageTaxSettings && showTaxJurisdictions && <TaxJurisdictions />}
+
+      {/* Pending consolidated billing */}
+      {canCreateInvoices && pendingConsolidation.length > 0 && (
+        <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg p-4`}>
+          <div className="flex items-center space-x-2 mb-3">
+            <Layers className={`h-5 w-5 ${themeClasses.text.primary}`} />
+            <h2 className={`text-sm font-semibold ${themeClasses.text.primary}`}>Awaiting consolidated invoice</h2>
+            <span className={`text-xs ${themeClasses.text.muted}`}>
+              Drafted automatically after month end
+            </span>
+          </div>
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {pendingConsolidation.map(pending => (
+              <div key={pending.business_id} className="flex items-center justify-between py-2">
+                <div>
+                  <div className={`text-sm ${themeClasses.text.primary}`}>{pending.business_name}</div>
+                  <div className={`text-xs ${themeClasses.text.muted}`}>
+                    {pending.request_count} closed request{pending.request_count === 1 ? '' : 's'} since {formatDate(pending.oldest_closed_at)}
+                    {pending.billing_mode !== 'monthly_consolidated' && ' · business is now billed per request'}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleConsolidate(pending)}
+                  disabled={consolidatingBusinessId !== null}
+                  className="px-3 py-1 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                  {consolidatingBusinessId === pending.business_id ? 'Creating...' : 'Create draft now'}
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Filters */}
       {showFilters && (
         <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg p-6`}>
@@ -443,8 +773,32 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
                 <option value="all">All Statuses</option>
                 <option value="due">Due</option>
                 <option value="overdue">Overdue</option>
+                <option value="partial">Partially Paid</option>
                 <option value="paid">Paid</option>
                 <option value="comped">Comped</option>
+                <option value="refunded">Refunded</option>
+              </select>
+            </div>
+
+            {/* Invoice Status */}
+            <div>
+              <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>
+                Invoice Status
+              </label>
+              <select
+                value={filters.invoiceStatus}
+                onChange={(e) => setFilters(prev => ({ ...prev, invoiceStatus: e.target.value }))}
+                className={`w-full px-3 py-2 pr-10 rounded-lg ${themeClasses.input} appearance-none bg-no-repeat bg-right`}
+                style={{
+                  backgroundImage: `url("data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='${isDark ? '%23D1D5DB' : '%236B7280'}' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='M6 8l4 4 4-4'/%3e%3c/svg%3e")`,
+                  backgroundPosition: 'right 0.5rem center',
+                  backgroundSize: '1.5em 1.5em'
+                }}
+              >
+                <option value="all">All Invoices</option>
+                <option value="draft">Drafts</option>
+                <option value="issued">Issued</option>
+                <option value="void">Void</option>
               </select>
             </div>
 
@@ -502,12 +856,13 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
           </div>
 
           {/* Clear Filters */}
-          {(filters.search || filters.paymentStatus !== 'all' || filters.dueDateFrom || filters.dueDateTo || filters.paymentDateFrom || filters.paymentDateTo) && (
+          {(filters.search || filters.paymentStatus !== 'all' || filters.invoiceStatus !== 'all' || filters.dueDateFrom || filters.dueDateTo || filters.paymentDateFrom || filters.paymentDateTo) && (
             <div className="mt-4">
               <button
                 onClick={() => setFilters({
                   search: '',
                   paymentStatus: 'all',
+                  invoiceStatus: 'all',
                   dueDateFrom: '',
                   dueDateTo: '',
                   paymentDateFrom: '',
@@ -606,12 +961,25 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
                         </div>
                       </td>
                       <td className="px-6 py-4">
-                        <div className={`text-sm font-mono ${themeClasses.text.primary}`}>
-                          {invoice.request_number}
-                        </div>
-                        <div className={`text-xs ${themeClasses.text.muted}`}>
-                          {invoice.service_title}
-                        </div>
+                        {invoice.request_number ? (
+                          <>
+                            <div className={`text-sm font-mono ${themeClasses.text.primary}`}>
+                              {invoice.request_number}
+                            </div>
+                            <div className={`text-xs ${themeClasses.text.muted}`}>
+                              {invoice.service_title}
+                            </div>
+                          </>
+                        ) : (
+                          <>
+                            <div className={`text-sm ${themeClasses.text.primary}`}>
+                              {invoice.invoice_type === 'credit_note' ? 'Credit Note' : invoice.invoice_type === 'recurring' ? 'Managed Services' : invoice.invoice_type === 'consolidated' ? 'Monthly Consolidated' : 'Manual'}
+                            </div>
+                            <div className={`text-xs ${themeClasses.text.muted}`}>
+                              {invoice.work_description}
+                            </div>
+                          </>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className={`text-sm ${themeClasses.text.primary}`}>
@@ -625,11 +993,19 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className={`text-sm font-semibold ${themeClasses.text.primary}`}>
-                          ${parseFloat(invoice.total_amount).toFixed(2)}
+                          {formatMoney(invoice.total_amount, invoice.currency)}
                         </div>
+                        {invoice.payment_status === 'partial' && (
+                          <div className={`text-xs ${themeClasses.text.tertiary}`}>
+                            {formatMoney(Number(invoice.total_amount) - Number(invoice.amount_paid), invoice.currency)} left
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        {getPaymentStatusBadge(invoice.payment_status)}
+                        <div className="flex flex-col items-start gap-1">
+                          {invoice.invoice_status !== 'draft' && getPaymentStatusBadge(invoice.payment_status)}
+                          {getLifecycleBadge(invoice)}
+                        </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm">
                         <div className="flex items-center space-x-2">
@@ -642,18 +1018,53 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
                           >
                             View
                           </button>
-                          <button
-                            onClick={(e) => {
-                              e.stopPropagation();
-                              setSelectedInvoice(invoice);
-                              setNewPaymentStatus(invoice.payment_status);
-                              setPaymentDate(invoice.payment_date || '');
-                              setShowPaymentModal(true);
-                            }}
-                            className="text-green-600 dark:text-green-400 hover:underline"
-                          >
-                            Update Status
-                          </button>
+                          {invoice.invoice_status === 'draft' && canModifyInvoices && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleEditDraft(invoice.id);
+                              }}
+                              className="text-blue-600 dark:text-blue-400 hover:underline"
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {invoice.invoice_status === 'draft' && canCreateInvoices && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleIssueDraft(invoice);
+                              }}
+                              className="text-green-600 dark:text-green-400 hover:underline"
+                            >
+                              Issue
+                            </button>
+                          )}
+                          {invoice.invoice_status === 'draft' && canModifyInvoices && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                handleDeleteDraft(invoice);
+                              }}
+                              className="text-red-600 dark:text-red-400 hover:underline"
+                            >
+                              Delete
+                            </button>
+                          )}
+                          {invoice.invoice_status === 'issued' && invoice.invoice_type !== 'credit_note' && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setSelectedInvoice(invoice);
+                                setNewPaymentStatus(invoice.payment_status);
+                                setPaymentDate(invoice.payment_date || '');
+                                setShowPaymentModal(true);
+                              }}
+                              className="text-green-600 dark:text-green-400 hover:underline"
+                            >
+                              Update Status
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -787,9 +1198,12 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
               <div className="p-6">
                 {/* Header with Close Button */}
                 <div className="flex items-center justify-between mb-6 pb-4 border-b">
-                  <h2 className={`text-2xl font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                    Invoice #{invoiceData.invoice.invoice_number}
-                  </h2>
+                  <div className="flex items-center gap-3">
+                    <h2 className={`text-2xl font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                      {invoiceData.invoice.invoice_type === 'credit_note' ? 'Credit Note' : 'Invoice'} #{invoiceData.invoice.invoice_number}
+                    </h2>
+                    {getLifecycleBadge(invoiceData.invoice)}
+                  </div>
                   <button
                     onClick={() => {
                       setShowInvoiceModal(false);
@@ -806,6 +1220,139 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
                   </button>
                 </div>
 
+                {/* Lifecycle Actions */}
+                {(() => {
+                  const viewed = invoiceData.invoice;
+                  const isDraft = viewed.invoice_status === 'draft';
+                  const isOriginal = viewed.invoice_status === 'issued' && viewed.invoice_type !== 'credit_note';
+                  const canVoid = isOriginal && canVoidInvoices && ['due', 'overdue', 'failed'].includes(viewed.payment_status);
+                  const canCredit = isOriginal && canVoidInvoices && viewed.payment_status === 'paid';
+                  const canEmail = viewed.invoice_status !== 'draft' && canSendInvoices;
+                  const canToggleReminders = isOriginal && canSendInvoices && ['due', 'overdue', 'failed', 'partial'].includes(viewed.payment_status);
+                  if (
+                    !(isDraft && (canModifyInvoices || canCreateInvoices)) &&
+                    !canVoid && !canCredit && !canEmail && !canExportInvoices
+                  ) return null;
+
+                  return (
+                    <div className="flex flex-wrap gap-2 mb-6">
+                      {canExportInvoices && (
+                        <button
+                          onClick={() => handleDownloadPdf(viewed)}
+                          disabled={downloadingPdf}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg bg-gray-600 text-white hover:bg-gray-700 disabled:opacity-50"
+                        >
+                          <Download className="h-4 w-4" />
+                          <span>{downloadingPdf ? 'Preparing...' : 'Download PDF'}</span>
+                        </button>
+                      )}
+                      {canEmail && (
+                        <button
+                          onClick={() => setShowEmailModal(true)}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+                        >
+                          <Mail className="h-4 w-4" />
+                          <span>Email</span>
+                        </button>
+                      )}
+                      {canToggleReminders && (
+                        <button
+                          onClick={() => handleToggleReminders(viewed)}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg bg-yellow-600 text-white hover:bg-yellow-700"
+                        >
+                          {viewed.dunning_paused_at ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+                          <span>{viewed.dunning_paused_at ? 'Resume Reminders' : 'Pause Reminders'}</span>
+                        </button>
+                      )}
+                      {isDraft && canModifyInvoices && (
+                        <button
+                          onClick={() => handleEditDraft(viewed.id)}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700"
+                        >
+                          <Edit2 className="h-4 w-4" />
+                          <span>Edit Draft</span>
+                        </button>
+                      )}
+                      {isDraft && canCreateInvoices && (
+                        <button
+                          onClick={() => handleIssueDraft(viewed)}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700"
+                        >
+                          <Send className="h-4 w-4" />
+                          <span>Issue</span>
+                        </button>
+                      )}
+                      {isDraft && canModifyInvoices && (
+                        <button
+                          onClick={() => handleDeleteDraft(viewed)}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg bg-red-600 text-white hover:bg-red-700"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span>Delete Draft</span>
+                        </button>
+                      )}
+                      {canVoid && (
+                        <button
+                          onClick={() => setAdjustmentMode('void')}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg bg-red-600 text-white hover:bg-red-700"
+                        >
+                          <Ban className="h-4 w-4" />
+                          <span>Void</span>
+                        </button>
+                      )}
+                      {canCredit && (
+                        <button
+                          onClick={() => setAdjustmentMode('credit')}
+                          className="flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg bg-purple-600 text-white hover:bg-purple-700"
+                        >
+                          <Undo2 className="h-4 w-4" />
+                          <span>Issue Credit</span>
+                        </button>
+                      )}
+                    </div>
+                  );
+                })()}
+
+                {invoiceData.invoice.dunning_paused_at && invoiceData.invoice.invoice_status === 'issued' && (
+                  <div className="mb-6 p-3 rounded-lg border bg-yellow-50 border-yellow-200 dark:bg-yellow-900/20 dark:border-yellow-800 text-sm text-yellow-800 dark:text-yellow-300 flex items-center">
+                    <BellOff className="h-4 w-4 mr-2" />
+                    Payment reminders paused since {formatDate(invoiceData.invoice.dunning_paused_at)}
+                  </div>
+                )}
+
+                {invoiceData.invoice.disputed_at && (
+                  <div className="mb-6 p-3 rounded-lg border bg-red-50 border-red-200 dark:bg-red-900/20 dark:border-red-800 text-sm text-red-800 dark:text-red-300 flex items-center">
+                    <AlertCircle className="h-4 w-4 mr-2" />
+                    Payment disputed {formatDate(invoiceData.invoice.disputed_at)}
+                    {invoiceData.invoice.dispute_amount != null && ` for ${formatMoney(invoiceData.invoice.dispute_amount, invoiceData.invoice.currency)}`}
+                    {' '}({(invoiceData.invoice.dispute_status || 'open').replace(/_/g, ' ')})
+                  </div>
+                )}
+
+
+                {/* Void / credit note context */}
+                {invoiceData.invoice.invoice_status === 'void' && (
+                  <div className="mb-6 p-4 rounded-lg border bg-red-50 border-red-200 dark:bg-red-900/20 dark:border-red-800 text-sm text-red-800 dark:text-red-300">
+                    <p className="font-semibold">
+                      Voided{invoiceData.invoice.voided_at ? ` on ${formatDate(invoiceData.invoice.voided_at)}` : ''}
+                    </p>
+                    {invoiceData.invoice.void_reason && <p className="mt-1">{invoiceData.invoice.void_reason}</p>}
+                  </div>
+                )}
+                {invoiceData.invoice.invoice_type === 'credit_note' && (
+                  <div className="mb-6 p-4 rounded-lg border bg-purple-50 border-purple-200 dark:bg-purple-900/20 dark:border-purple-800 text-sm text-purple-800 dark:text-purple-300">
+                    <p className="font-semibold">
+                      Credit against invoice <span className="font-mono">{invoiceData.invoice.credit_for_invoice_number}</span>
+                    </p>
+                    {invoiceData.invoice.credit_reason && <p className="mt-1">{invoiceData.invoice.credit_reason}</p>}
+                  </div>
+                )}
+                {invoiceData.invoice.invoice_status === 'draft' && (
+                  <div className="mb-6 p-4 rounded-lg border bg-gray-50 border-gray-200 dark:bg-gray-700/50 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300">
+                    This is a draft. The client cannot see it until it is issued, which assigns the final invoice number.
+                  </div>
+                )}
+
                 {/* Invoice Details */}
                 <div className="space-y-6">
                   {/* From and Bill To */}
@@ -865,22 +1412,33 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
 
                   {/* Service Information */}
                   <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>Service Request</p>
-                      <p className={`font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                        {invoiceData.invoice.request_number}
-                      </p>
-                    </div>
-                    <div>
-                      <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>SR Title</p>
-                      <p className={`font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                        {invoiceData.invoice.service_title}
-                      </p>
-                    </div>
+                    {invoiceData.invoice.request_number ? (
+                      <>
+                        <div>
+                          <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>Service Request</p>
+                          <p className={`font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                            {invoiceData.invoice.request_number}
+                          </p>
+                        </div>
+                        <div>
+                          <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>SR Title</p>
+                          <p className={`font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                            {invoiceData.invoice.service_title}
+                          </p>
+                        </div>
+                      </>
+                    ) : (
+                      <div className="col-span-2">
+                        <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>Description</p>
+                        <p className={`font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                          {invoiceData.invoice.work_description || 'N/A'}
+                        </p>
+                      </div>
+                    )}
                     <div>
                       <p className={`text-sm ${isDark ? 'text-gray-400' : 'text-gray-600'}`}>Service Type</p>
                       <p className={`font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                        N/A
+                        {invoiceData.invoice.invoice_type === 'service_request' ? 'N/A' : invoiceData.invoice.invoice_type === 'manual' ? 'Manual' : invoiceData.invoice.invoice_type === 'recurring' ? 'Managed Services' : invoiceData.invoice.invoice_type === 'consolidated' ? 'Monthly Consolidated' : 'Credit Note'}
                       </p>
                     </div>
                     <div>
@@ -1106,173 +1664,13 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
                     </div>
                   )}
 
-                  {/* Actual Billable Hours Summary */}
-                  <div className={`mt-6 p-4 rounded-lg border ${
-                    isDark
-                      ? 'bg-purple-900/20 border-purple-800'
-                      : 'bg-purple-50 border-purple-200'
-                  }`}>
-                    <h3 className={`text-sm font-semibold mb-3 ${isDark ? 'text-purple-100' : 'text-purple-900'}`}>
-                      Actual Billable Hours
-                    </h3>
-
-                    {/* First-time Client Discount */}
-                    {invoiceData.invoice.is_first_service_request && parseFloat(invoiceData.invoice.waived_hours || 0) > 0 && (
-                      <div className={`mb-3 pb-3 border-b ${isDark ? 'border-purple-700' : 'border-purple-300'}`}>
-                        <p className={`text-xs mb-1 ${isDark ? 'text-purple-300' : 'text-purple-700'}`}>
-                          First Service Request Discount:
-                        </p>
-                        <p className={`text-sm font-medium ${isDark ? 'text-green-400' : 'text-green-600'}`}>
-                          New Client Assessment - Waived: {parseFloat(invoiceData.invoice.waived_hours).toFixed(2)} hours
-                        </p>
-                      </div>
-                    )}
-
-                    <div className="grid grid-cols-3 gap-2 text-xs">
-                      <div className="text-center">
-                        <div className={`mb-1 ${isDark ? 'text-purple-300' : 'text-purple-700'}`}>Standard</div>
-                        <div className={`font-bold text-lg ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                          {parseFloat(invoiceData.invoice.standard_hours || 0).toFixed(2)} hrs
-                        </div>
-                        <div className={`text-xs ${isDark ? 'text-purple-400' : 'text-purple-600'}`}>1.0x rate</div>
-                      </div>
-                      <div className="text-center">
-                        <div className={`mb-1 ${isDark ? 'text-purple-300' : 'text-purple-700'}`}>Premium</div>
-                        <div className={`font-bold text-lg ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                          {parseFloat(invoiceData.invoice.premium_hours || 0).toFixed(2)} hrs
-                        </div>
-                        <div className={`text-xs ${isDark ? 'text-purple-400' : 'text-purple-600'}`}>1.5x rate</div>
-                      </div>
-                      <div className="text-center">
-                        <div className={`mb-1 ${isDark ? 'text-purple-300' : 'text-purple-700'}`}>Emergency</div>
-                        <div className={`font-bold text-lg ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                          {parseFloat(invoiceData.invoice.emergency_hours || 0).toFixed(2)} hrs
-                        </div>
-                        <div className={`text-xs ${isDark ? 'text-purple-400' : 'text-purple-600'}`}>2.0x rate</div>
-                      </div>
-                    </div>
-                    <div className={`mt-2 pt-2 border-t text-center ${isDark ? 'border-purple-700' : 'border-purple-300'}`}>
-                      <span className={`text-xs ${isDark ? 'text-purple-300' : 'text-purple-700'}`}>Total Billable: </span>
-                      <span className={`text-sm font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                        {(parseFloat(invoiceData.invoice.standard_hours || 0) +
-                          parseFloat(invoiceData.invoice.premium_hours || 0) +
-                          parseFloat(invoiceData.invoice.emergency_hours || 0)).toFixed(2)} hours
-                      </span>
-                    </div>
-                  </div>
-
-                  {/* Time & Cost Breakdown */}
-                  <div className={`mt-6 p-4 rounded-lg ${isDark ? 'bg-gray-700/50' : 'bg-gray-50'}`}>
-                    <h3 className={`text-lg font-semibold mb-3 ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                      Cost Breakdown by Rate Tier
-                    </h3>
-
-                    {/* Billable Hours Table */}
-                    <div className={`overflow-hidden border rounded-lg ${
-                      isDark ? 'border-gray-600' : 'border-gray-200'
-                    }`}>
-                      <table className="w-full">
-                        <thead className={isDark ? 'bg-gray-700' : 'bg-gray-100'}>
-                          <tr>
-                            <th className={`px-4 py-3 text-left text-sm font-semibold ${
-                              isDark ? 'text-white' : 'text-gray-900'
-                            }`}>
-                              Rate Tier
-                            </th>
-                            <th className={`px-4 py-3 text-right text-sm font-semibold ${
-                              isDark ? 'text-white' : 'text-gray-900'
-                            }`}>
-                              Hours
-                            </th>
-                            <th className={`px-4 py-3 text-right text-sm font-semibold ${
-                              isDark ? 'text-white' : 'text-gray-900'
-                            }`}>
-                              Rate
-                            </th>
-                            <th className={`px-4 py-3 text-right text-sm font-semibold ${
-                              isDark ? 'text-white' : 'text-gray-900'
-                            }`}>
-                              Amount
-                            </th>
-                          </tr>
-                        </thead>
-                        <tbody className={`divide-y ${isDark ? 'divide-gray-600' : 'divide-gray-200'}`}>
-                          {/* Standard Hours */}
-                          {parseFloat(invoiceData.invoice.standard_hours || 0) > 0 && (
-                            <tr className={isDark ? 'bg-gray-800' : 'bg-white'}>
-                              <td className={`px-4 py-3 text-sm ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                                Standard (1.0x)
-                                <div className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
-                                  Mon-Fri 8am-5pm
-                                </div>
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                                {parseFloat(invoiceData.invoice.standard_hours).toFixed(2)}
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                                ${parseFloat(invoiceData.invoice.standard_rate).toFixed(2)}
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right font-semibold ${
-                                isDark ? 'text-white' : 'text-gray-900'
-                              }`}>
-                                ${parseFloat(invoiceData.invoice.standard_cost).toFixed(2)}
-                              </td>
-                            </tr>
-                          )}
-
-                          {/* Premium Hours */}
-                          {parseFloat(invoiceData.invoice.premium_hours || 0) > 0 && (
-                            <tr className={isDark ? 'bg-gray-800' : 'bg-white'}>
-                              <td className={`px-4 py-3 text-sm ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                                Premium (1.5x)
-                                <div className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
-                                  Weekends
-                                </div>
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                                {parseFloat(invoiceData.invoice.premium_hours).toFixed(2)}
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                                ${parseFloat(invoiceData.invoice.premium_rate).toFixed(2)}
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right font-semibold ${
-                                isDark ? 'text-white' : 'text-gray-900'
-                              }`}>
-                                ${parseFloat(invoiceData.invoice.premium_cost).toFixed(2)}
-                              </td>
-                            </tr>
-                          )}
-
-                          {/* Emergency Hours */}
-                          {parseFloat(invoiceData.invoice.emergency_hours || 0) > 0 && (
-                            <tr className={isDark ? 'bg-gray-800' : 'bg-white'}>
-                              <td className={`px-4 py-3 text-sm ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                                Emergency (2.0x)
-                                <div className={`text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
-                                  Late night/overnight
-                                </div>
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                                {parseFloat(invoiceData.invoice.emergency_hours).toFixed(2)}
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                                ${parseFloat(invoiceData.invoice.emergency_rate).toFixed(2)}
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right font-semibold ${
-                                isDark ? 'text-white' : 'text-gray-900'
-                              }`}>
-                                ${parseFloat(invoiceData.invoice.emergency_cost).toFixed(2)}
-                              </td>
-                            </tr>
-                          )}
-                        </tbody>
-                      </table>
-                    </div>
-
-                    <div className={`text-xs mt-2 italic ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
-                      * Final end time rounded up to nearest 15 minutes. Exact hours billed per tier.
-                    </div>
-                  </div>
+                  {/* Line Items */}
+                  <InvoiceLineItemsTable
+                    lineItems={invoiceData.lineItems}
+                    isDark={isDark}
+                    showTaxable={Number(invoiceData.invoice.tax_rate) > 0}
+                    formatAmount={amount => formatMoney(amount, invoiceData.invoice.currency)}
+                  />
 
                   {/* Totals */}
                   <div className="mb-6">
@@ -1280,28 +1678,78 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
                       <div className="flex justify-between">
                         <span className={isDark ? 'text-gray-400' : 'text-gray-600'}>Subtotal:</span>
                         <span className={`font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                          ${parseFloat(invoiceData.invoice.subtotal).toFixed(2)}
+                          {formatMoney(invoiceData.invoice.subtotal, invoiceData.invoice.currency)}
                         </span>
                       </div>
-                      {invoiceData.invoice.tax_rate > 0 && (
-                        <div className="flex justify-between">
-                          <span className={isDark ? 'text-gray-400' : 'text-gray-600'}>
-                            Tax ({(invoiceData.invoice.tax_rate * 100).toFixed(2)}%):
-                          </span>
-                          <span className={`font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                            ${parseFloat(invoiceData.invoice.tax_amount).toFixed(2)}
-                          </span>
-                        </div>
-                      )}
+                      {invoiceData.invoice.tax_breakdown && invoiceData.invoice.tax_breakdown.length > 0
+                        ? invoiceData.invoice.tax_breakdown.map(line => (
+                          <div key={line.name} className="flex justify-between">
+                            <span className={isDark ? 'text-gray-400' : 'text-gray-600'}>
+                              {line.name} ({formatTaxRate(line.rate)}):
+                            </span>
+                            <span className={`font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                              {formatMoney(line.amount, invoiceData.invoice.currency)}
+                            </span>
+                          </div>
+                        ))
+                        : invoiceData.invoice.tax_rate > 0 && (
+                          <div className="flex justify-between">
+                            <span className={isDark ? 'text-gray-400' : 'text-gray-600'}>
+                              Tax ({formatTaxRate(invoiceData.invoice.tax_rate)}):
+                            </span>
+                            <span className={`font-semibold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                              {formatMoney(invoiceData.invoice.tax_amount, invoiceData.invoice.currency)}
+                            </span>
+                          </div>
+                        )}
                       <div className={`flex justify-between pt-2 border-t-2 ${isDark ? 'border-gray-600' : 'border-gray-300'}`}>
-                        <span className={`text-lg font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>Total Due:</span>
                         <span className={`text-lg font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>
-                          ${parseFloat(invoiceData.invoice.total_amount).toFixed(2)}
+                          {invoiceData.invoice.invoice_type === 'credit_note' ? 'Total Credit:' : 'Total Due:'}
+                        </span>
+                        <span className={`text-lg font-bold ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                          {formatMoney(invoiceData.invoice.total_amount, invoiceData.invoice.currency)}
                         </span>
                       </div>
                     </div>
                   </div>
 
+                  {/* Credit Notes issued against this invoice */}
+                  {invoiceData.creditNotes.length > 0 && (
+                    <div className={`p-4 rounded-lg ${isDark ? 'bg-gray-700/50' : 'bg-gray-50'}`}>
+                      <h3 className={`text-lg font-semibold mb-3 ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                        Credit Notes
+                      </h3>
+                      <div className="space-y-2">
+                        {invoiceData.creditNotes.map(note => (
+                          <button
+                            key={note.id}
+                            onClick={() => handleViewInvoice(note.id)}
+                            className="w-full flex items-center justify-between text-sm text-left hover:underline"
+                          >
+                            <span className={isDark ? 'text-gray-300' : 'text-gray-700'}>
+                              <span className="font-mono">{note.invoice_number}</span>
+                              {note.credit_reason && ` — ${note.credit_reason}`}
+                            </span>
+                            <span className="font-semibold text-purple-600 dark:text-purple-400">
+                              {formatMoney(note.total_amount, invoiceData.invoice.currency)}
+                            </span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Payment ledger */}
+                  {invoiceData.invoice.invoice_status !== 'draft' && invoiceData.invoice.invoice_type !== 'credit_note' && (
+                    <InvoicePaymentLedger
+                      invoice={invoiceData.invoice}
+                      payments={invoiceData.payments}
+                      creditBalance={invoiceData.creditBalance}
+                      canModify={canModifyInvoices && invoiceData.invoice.invoice_status === 'issued'}
+                      onChanged={(message) => refreshAfterAction(message, invoiceData.invoice.id)}
+                    />
+                  )}
+
                   {/* Payment Terms */}
                   <div className={`text-xs text-center ${isDark ? 'text-gray-400' : 'text-gray-500'}`}>
                     <p>Payment due within 30 days of invoice date.</p>
@@ -1333,12 +1781,63 @@ const AdminInvoices: React.FC<AdminInvoicesProps> = ({
                       </div>
                     )}
                   </div>
+
+                  {/* History */}
+                  <InvoiceHistoryList history={invoiceData.history} currency={invoiceData.invoice.currency} />
                 </div>
               </div>
             ) : null}
           </div>
         </div>
       )}
+
+      {/* Manual Invoice Editor */}
+      {showEditor && (
+        <InvoiceEditorModal
+          draft={editingDraft}
+          businesses={businesses
+            .filter(business => !business.softDelete)
+            .map(business => ({ id: business.id, name: business.businessName }))}
+          onClose={() => {
+            setShowEditor(false);
+            setEditingDraft(null);
+          }}
+          onSaved={(message) => {
+            const draftId = editingDraft?.id;
+            setShowEditor(false);
+            setEditingDraft(null);
+            refreshAfterAction(message, draftId);
+          }}
+        />
+      )}
+
+      {/* Void / Credit */}
+      {adjustmentMode && invoiceData && (
+        <InvoiceAdjustmentModal
+          mode={adjustmentMode}
+          invoice={invoiceData.invoice}
+          alreadyCredited={invoiceData.creditNotes.reduce((sum, note) => sum - Number(note.total_amount), 0)}
+          onClose={() => setAdjustmentMode(null)}
+          onDone={(message) => {
+            const invoiceId = invoiceData.invoice.id;
+            setAdjustmentMode(null);
+            refreshAfterAction(message, invoiceId);
+          }}
+        />
+      )}
+
+      {/* Email PDF */}
+      {showEmailModal && invoiceData && (
+        <InvoiceEmailModal
+          invoice={invoiceData.invoice}
+          onClose={() => setShowEmailModal(false)}
+          onDone={(message) => {
+            const invoiceId = invoiceData.invoice.id;
+            setShowEmailModal(false);
+            refreshAfterAction(message, invoiceId);
+          }}
+        />
+      )}
     </div>
   );
 };
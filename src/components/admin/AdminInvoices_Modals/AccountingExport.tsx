@@ -0,0 +1,319 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { BookOpen, Download, Save } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import {
+  accountingExportService,
+  exportSystem,
+  AccountingEntityType,
+  AccountingExportFormat,
+  AccountingExportRun,
+  AccountingSettings,
+  IncomeAccount,
+  PendingExports
+} from '../../../services/accountingExportService';
+import { downloadBlob } from '../../../utils/downloadBlob';
+
+const FORMATS: { key: AccountingExportFormat; label: string }[] = [
+  { key: 'quickbooks_iif', label: 'QuickBooks Desktop (IIF)' },
+  { key: 'quickbooks_csv', label: 'QuickBooks Online (CSV)' },
+  { key: 'xero_csv', label: 'Xero (CSV)' }
+];
+
+const ENTITY_TYPES: { key: AccountingEntityType; label: string }[] = [
+  { key: 'customers', label: 'Customers' },
+  { key: 'invoices', label: 'Invoices' },
+  { key: 'payments', label: 'Payments' }
+];
+
+const SETTINGS: { key: keyof AccountingSettings; label: string }[] = [
+  { key: 'arAccount', label: 'Accounts receivable (QuickBooks)' },
+  { key: 'depositAccount', label: 'Deposit payments to (QuickBooks)' },
+  { key: 'taxAccount', label: 'Sales tax payable (QuickBooks)' },
+  { key: 'xeroPaymentAccount', label: 'Payment account code (Xero)' }
+];
+
+/**
+ * Exports for the bookkeeper's accounting software. Each export takes what
+ * has not been sent to that system yet; earlier files can be downloaded
+ * again. The accounts tab maps service types to income accounts.
+ */
+const AccountingExport: React.FC = () => {
+  const [view, setView] = useState<'export' | 'accounts'>('export');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [format, setFormat] = useState<AccountingExportFormat>('quickbooks_iif');
+  const [pending, setPending] = useState<PendingExports | null>(null);
+  const [exports, setExports] = useState<AccountingExportRun[]>([]);
+  const [running, setRunning] = useState<AccountingEntityType | null>(null);
+
+  const [accounts, setAccounts] = useState<IncomeAccount[]>([]);
+  const [settings, setSettings] = useState<AccountingSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadExports = useCallback(async () => {
+    try {
+      const [pendingResponse, exportsResponse] = await Promise.all([
+        accountingExportService.getPending(),
+        accountingExportService.listExports()
+      ]);
+      setPending(pendingResponse.data);
+      setExports(exportsResponse.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load exports');
+    }
+  }, []);
+
+  const loadAccounts = useCallback(async () => {
+    try {
+      const response = await accountingExportService.getAccounts();
+      setAccounts(response.data.accounts);
+      setSettings(response.data.settings);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load income accounts');
+    }
+  }, []);
+
+  useEffect(() => {
+    setError(null);
+    setMessage(null);
+    if (view === 'export') {
+      loadExports();
+    } else {
+      loadAccounts();
+    }
+  }, [view, loadExports, loadAccounts]);
+
+  const handleDownload = async (run: AccountingExportRun) => {
+    try {
+      downloadBlob(await accountingExportService.downloadExport(run.id), run.filename);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Download failed');
+    }
+  };
+
+  const handleExport = async (entityType: AccountingEntityType) => {
+    try {
+      setRunning(entityType);
+      setError(null);
+      setMessage(null);
+      const response = await accountingExportService.runExport(format, entityType);
+      await handleDownload(response.data);
+      setMessage(response.message || `Exported ${response.data.itemCount} ${entityType}`);
+      await loadExports();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setRunning(null);
+    }
+  };
+
+  const updateAccount = (serviceTypeId: string | null, field: 'quickbooksAccount' | 'xeroAccountCode', value: string) => {
+    setAccounts(prev => prev.map(account =>
+      account.serviceTypeId === serviceTypeId ? { ...account, [field]: value } : account
+    ));
+  };
+
+  const handleSaveAccounts = async () => {
+    if (!settings) return;
+    try {
+      setSaving(true);
+      setError(null);
+      setMessage(null);
+      const response = await accountingExportService.saveAccounts({
+        accounts: accounts.map(({ serviceTypeId, quickbooksAccount, xeroAccountCode }) => ({
+          serviceTypeId,
+          quickbooksAccount,
+          xeroAccountCode
+        })),
+        settings
+      });
+      setAccounts(response.data.accounts);
+      setSettings(response.data.settings);
+      setMessage(response.message || 'Income accounts saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save income accounts');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const formatLabel = (key: AccountingExportFormat) => FORMATS.find(f => f.key === key)?.label ?? key;
+  const systemPending = pending ? pending[exportSystem(format)] : null;
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-lg transition-colors ${active ? 'bg-blue-600 text-white' : themeClasses.bg.hover}`;
+  const inputClass = `w-full px-2 py-1 text-sm border rounded-lg ${themeClasses.input}`;
+
+  return (
+    <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg p-4 space-y-4`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <BookOpen className={`h-5 w-5 ${themeClasses.text.primary}`} />
+          <h2 className={`text-sm font-semibold ${themeClasses.text.primary}`}>Accounting export</h2>
+          <button onClick={() => setView('export')} className={tabClass(view === 'export')}>Export</button>
+          <button onClick={() => setView('accounts')} className={tabClass(view === 'accounts')}>Income accounts</button>
+        </div>
+
+        {view === 'export' ? (
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as AccountingExportFormat)}
+            className={`px-2 py-1 text-sm border rounded-lg ${themeClasses.input}`}
+          >
+            {FORMATS.map(option => (
+              <option key={option.key} value={option.key}>{option.label}</option>
+            ))}
+          </select>
+        ) : (
+          <button
+            onClick={handleSaveAccounts}
+            disabled={saving || !settings}
+            className="flex items-center space-x-1 px-3 py-1 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            <Save className="h-4 w-4" />
+            <span>{saving ? 'Saving...' : 'Save'}</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">{error}</div>
+      )}
+      {message && (
+        <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-sm text-green-800 dark:text-green-300">{message}</div>
+      )}
+
+      {view === 'export' && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {ENTITY_TYPES.map(entity => {
+              const count = systemPending?.[entity.key] ?? 0;
+              return (
+                <div key={entity.key} className={`p-3 rounded-lg ${themeClasses.bg.secondary}`}>
+                  <div className={`text-xs ${themeClasses.text.muted}`}>{entity.label} not yet exported</div>
+                  <div className={`text-lg font-semibold ${themeClasses.text.primary}`}>{systemPending ? count : '-'}</div>
+                  <button
+                    onClick={() => handleExport(entity.key)}
+                    disabled={running !== null || count === 0}
+                    className="mt-2 flex items-center space-x-1 px-3 py-1 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                  >
+                    <Download className="h-4 w-4" />
+                    <span>{running === entity.key ? 'Exporting...' : `Export ${entity.label.toLowerCase()}`}</span>
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+          <p className={`text-xs ${themeClasses.text.muted}`}>
+            Export customers before the invoices and payments that name them. Both QuickBooks formats share one
+            export history, so switching between them does not send anything twice.
+          </p>
+
+          {exports.length === 0 ? (
+            <p className={`text-sm ${themeClasses.text.muted}`}>Nothing has been exported yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className={`text-left ${themeClasses.text.muted}`}>
+                    <th className="py-2 pr-4 font-medium">Exported</th>
+                    <th className="py-2 pr-4 font-medium">Format</th>
+                    <th className="py-2 pr-4 font-medium">Contents</th>
+                    <th className="py-2 pr-4 font-medium">By</th>
+                    <th className="py-2 font-medium text-right">File</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {exports.map(run => (
+                    <tr key={run.id} className={themeClasses.text.primary}>
+                      <td className="py-2 pr-4">{new Date(run.createdAt).toLocaleString()}</td>
+                      <td className="py-2 pr-4">{formatLabel(run.format)}</td>
+                      <td className="py-2 pr-4">{run.itemCount} {run.entityType}</td>
+                      <td className="py-2 pr-4">{run.exportedBy ?? '-'}</td>
+                      <td className="py-2 text-right">
+                        <button onClick={() => handleDownload(run)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                          {run.filename}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      {view === 'accounts' && settings && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className={`text-left ${themeClasses.text.muted}`}>
+                  <th className="py-2 pr-4 font-medium">Service type</th>
+                  <th className="py-2 pr-4 font-medium">QuickBooks income account</th>
+                  <th className="py-2 font-medium">Xero account code</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {accounts.map(account => (
+                  <tr key={account.serviceTypeId ?? 'default'} className={themeClasses.text.primary}>
+                    <td className="py-2 pr-4">
+                      {account.serviceTypeId === null ? (
+                        <span className="font-medium">Default (no service type)</span>
+                      ) : (
+                        <>
+                          {account.serviceTypeName}
+                          {!account.isActive && <span className={`ml-2 text-xs ${themeClasses.text.muted}`}>inactive</span>}
+                        </>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <input
+                        value={account.quickbooksAccount ?? ''}
+                        onChange={(e) => updateAccount(account.serviceTypeId, 'quickbooksAccount', e.target.value)}
+                        placeholder={account.serviceTypeId === null ? '' : 'Default'}
+                        maxLength={100}
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-2">
+                      <input
+                        value={account.xeroAccountCode ?? ''}
+                        onChange={(e) => updateAccount(account.serviceTypeId, 'xeroAccountCode', e.target.value)}
+                        placeholder={account.serviceTypeId === null ? '' : 'Default'}
+                        maxLength={20}
+                        className={inputClass}
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className={`text-xs ${themeClasses.text.muted}`}>
+            Lines are posted to their service type's account, or the default when it is left blank. QuickBooks Online
+            takes the account name as the product/service, so create one per account with the same name.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {SETTINGS.map(setting => (
+              <label key={setting.key} className={`text-sm ${themeClasses.text.secondary}`}>
+                <span>{setting.label}</span>
+                <input
+                  value={settings[setting.key]}
+                  onChange={(e) => setSettings({ ...settings, [setting.key]: e.target.value })}
+                  maxLength={100}
+                  className={`mt-1 ${inputClass}`}
+                />
+              </label>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AccountingExport;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import { invoiceService } from '../../../services/invoiceService';
+import { useCurrencyFormatter } from '../../../hooks/useCurrencyFormatter';
+
+interface InvoiceAdjustmentModalProps {
+  mode: 'void' | 'credit';
+  invoice: {
+    id: string;
+    invoice_number: string;
+    total_amount: string | number;
+    currency?: string;
+  };
+  /** Sum of earlier credit notes (positive); credit mode only */
+  alreadyCredited?: number;
+  onClose: () => void;
+  onDone: (message: string) => void;
+}
+
+/**
+ * Void an unpaid invoice, or issue a credit note against a paid one. Both
+ * require a reason, which lands in the invoice history.
+ */
+const InvoiceAdjustmentModal: React.FC<InvoiceAdjustmentModalProps> = ({
+  mode,
+  invoice,
+  alreadyCredited = 0,
+  onClose,
+  onDone
+}) => {
+  const remaining = Math.round((Number(invoice.total_amount) - alreadyCredited) * 100) / 100;
+  const [reason, setReason] = useState('');
+  const [amount, setAmount] = useState(remaining.toFixed(2));
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const formatMoney = useCurrencyFormatter();
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = mode === 'void'
+        ? await invoiceService.voidInvoice(invoice.id, reason.trim())
+        : await invoiceService.creditInvoice(invoice.id, reason.trim(), parseFloat(amount));
+      onDone(response.message || (mode === 'void' ? 'Invoice voided' : 'Credit note issued'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const amountValue = parseFloat(amount);
+  const amountValid = mode === 'void' || (amountValue > 0 && amountValue <= remaining);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className={`${themeClasses.bg.card} rounded-lg max-w-md w-full p-6`}>
+        <h2 className={`text-xl font-bold ${themeClasses.text.primary} mb-4`}>
+          {mode === 'void' ? 'Void Invoice' : 'Issue Credit Note'}
+        </h2>
+
+        <p className={`text-sm ${themeClasses.text.secondary} mb-4`}>
+          Invoice: <span className="font-mono">{invoice.invoice_number}</span>
+          {mode === 'void'
+            ? ' will no longer be payable. This cannot be undone.'
+            : ` — up to ${formatMoney(remaining, invoice.currency)} can still be credited.`}
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        {mode === 'credit' && (
+          <div className="mb-4">
+            <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>
+              Credit Amount
+            </label>
+            <input
+              type="number"
+              min={0.01}
+              max={remaining}
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+            />
+          </div>
+        )}
+
+        <div className="mb-6">
+          <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>
+            Reason
+          </label>
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder={mode === 'void' ? 'e.g. Billed to the wrong business' : 'e.g. Returned hardware'}
+            rows={3}
+            className={`w-full px-3 py-2 rounded-lg ${themeClasses.input} resize-none`}
+          />
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || !reason.trim() || !amountValid}
+            className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Working...' : mode === 'void' ? 'Void Invoice' : 'Issue Credit'}
+          </button>
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className={`flex-1 px-4 py-2 ${themeClasses.bg.secondary} rounded-lg hover:opacity-80 disabled:opacity-50`}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceAdjustmentModal;
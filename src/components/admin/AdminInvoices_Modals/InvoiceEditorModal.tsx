@@ -0,0 +1,391 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import {
+  invoiceService,
+  previewInvoiceTotals,
+  InvoiceLineItem,
+  LineItemType,
+  SaveInvoiceInput,
+} from '../../../services/invoiceService';
+import { taxService, InvoiceTax } from '../../../services/taxService';
+import { useCurrencyFormatter } from '../../../hooks/useCurrencyFormatter';
+import { formatTaxRate, TaxBreakdownLine } from '../../../utils/currencyFormatter';
+
+export interface EditableDraft {
+  id: string;
+  business_id: string;
+  due_date: string;
+  tax_rate: string | number;
+  tax_breakdown?: TaxBreakdownLine[] | null;
+  work_description: string | null;
+  notes: string | null;
+  lineItems: InvoiceLineItem[];
+}
+
+interface InvoiceEditorModalProps {
+  /** Draft being edited; omit to create a new invoice */
+  draft?: EditableDraft | null;
+  businesses: Array<{ id: string; name: string }>;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+interface LineDraft {
+  itemType: LineItemType;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  taxable: boolean;
+  productRef: string;
+  // Not editable here, but kept so saving a draft doesn't drop them
+  serviceRequestId: string | null;
+  timeEntryId: string | null;
+}
+
+const emptyLine: LineDraft = {
+  itemType: 'other',
+  description: '',
+  quantity: '1',
+  unitPrice: '',
+  taxable: true,
+  productRef: '',
+  serviceRequestId: null,
+  timeEntryId: null
+};
+
+const itemTypeLabels: Record<LineItemType, string> = {
+  labor: 'Labor',
+  part: 'Part',
+  fee: 'Fee',
+  discount: 'Discount',
+  other: 'Other'
+};
+
+// A draft taxed by its business's jurisdiction (rather than a typed rate)
+// keeps following the business's tax when edited
+const usesBusinessTax = (draft: EditableDraft) =>
+  (draft.tax_breakdown || []).some(line => line.name !== 'Tax');
+
+const InvoiceEditorModal: React.FC<InvoiceEditorModalProps> = ({ draft, businesses, onClose, onSaved }) => {
+  const formatMoney = useCurrencyFormatter();
+  const [businessId, setBusinessId] = useState(draft?.business_id || '');
+  const [dueDate, setDueDate] = useState(draft?.due_date ? draft.due_date.slice(0, 10) : '');
+  const [taxPercent, setTaxPercent] = useState(
+    draft && !usesBusinessTax(draft) ? String(Math.round(Number(draft.tax_rate) * 1000000) / 10000) : ''
+  );
+  const [businessTax, setBusinessTax] = useState<InvoiceTax | null>(null);
+  const [workDescription, setWorkDescription] = useState(draft?.work_description || '');
+  const [notes, setNotes] = useState(draft?.notes || '');
+  const [lines, setLines] = useState<LineDraft[]>(
+    draft && draft.lineItems.length > 0
+      ? draft.lineItems.map(item => ({
+          itemType: item.item_type || 'other',
+          description: item.description,
+          quantity: String(Number(item.quantity)),
+          unitPrice: Number(item.unit_price).toFixed(2),
+          taxable: item.taxable ?? true,
+          productRef: item.product_ref || '',
+          serviceRequestId: item.service_request_id || null,
+          timeEntryId: item.time_entry_id || null
+        }))
+      : [{ ...emptyLine }]
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const parsedLines = lines.map(line => ({
+    itemType: line.itemType,
+    description: line.description.trim(),
+    quantity: parseFloat(line.quantity) || 0,
+    unitPrice: parseFloat(line.unitPrice) || 0,
+    taxable: line.taxable,
+    productRef: line.productRef.trim() || null,
+    serviceRequestId: line.serviceRequestId,
+    timeEntryId: line.timeEntryId
+  }));
+  const taxRate = taxPercent.trim() === '' ? null : (parseFloat(taxPercent) || 0) / 100;
+  // Blank rate: the business's jurisdiction (labor may be untaxed) or exemption
+  const previewLines = taxRate === null && businessTax && !businessTax.laborTaxable
+    ? parsedLines.map(line => (line.itemType === 'labor' ? { ...line, taxable: false } : line))
+    : parsedLines;
+  const totals = previewInvoiceTotals(previewLines, taxRate ?? businessTax?.taxRate ?? 0);
+  const currency = businessTax?.currency;
+
+  useEffect(() => {
+    if (!businessId) {
+      setBusinessTax(null);
+      return;
+    }
+    let cancelled = false;
+    taxService.getBusinessTaxProfile(businessId)
+      .then(response => {
+        if (!cancelled) setBusinessTax(response.data.invoiceTax ?? null);
+      })
+      .catch(() => {
+        if (!cancelled) setBusinessTax(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [businessId]);
+
+  const businessTaxLabel = () => {
+    if (!businessTax) return ' (company rate on save)';
+    if (businessTax.exempt) return ' (exempt)';
+    return ` (${formatTaxRate(businessTax.taxRate)})`;
+  };
+
+  const updateLine = (index: number, changes: Partial<LineDraft>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleSave = async (issue: boolean) => {
+    const input: SaveInvoiceInput = {
+      businessId,
+      dueDate: dueDate || null,
+      taxRate,
+      workDescription: workDescription || null,
+      notes: notes || null,
+      lineItems: parsedLines
+    };
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      if (draft) {
+        await invoiceService.updateDraft(draft.id, input);
+        if (issue) {
+          const issued = await invoiceService.issueDraft(draft.id);
+          onSaved(issued.message || 'Invoice issued');
+        } else {
+          onSaved('Draft saved');
+        }
+      } else {
+        const created = await invoiceService.createInvoice({ ...input, issue });
+        onSaved(created.message || (issue ? 'Invoice issued' : 'Draft saved'));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save invoice');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canSave = businessId && parsedLines.length > 0 && parsedLines.every(line => line.description && line.quantity > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className={`${themeClasses.bg.card} rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto p-6`}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className={`text-xl font-bold ${themeClasses.text.primary}`}>
+            {draft ? 'Edit Draft Invoice' : 'New Invoice'}
+          </h2>
+          <button onClick={onClose} className={`p-2 rounded-lg ${themeClasses.bg.hover}`}>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Business</label>
+            <select
+              value={businessId}
+              onChange={(e) => setBusinessId(e.target.value)}
+              className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+            >
+              <option value="">Select a business...</option>
+              {businesses.map(b => (
+                <option key={b.id} value={b.id}>{b.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Due Date</label>
+            <input
+              type="date"
+              value={dueDate}
+              onChange={(e) => setDueDate(e.target.value)}
+              className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+            />
+            <p className={`text-xs ${themeClasses.text.muted} mt-1`}>Blank uses the standard payment terms</p>
+          </div>
+          <div>
+            <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Tax Rate (%)</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={taxPercent}
+              onChange={(e) => setTaxPercent(e.target.value)}
+              placeholder="Business default"
+              className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+            />
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Description</label>
+          <input
+            type="text"
+            value={workDescription}
+            onChange={(e) => setWorkDescription(e.target.value)}
+            placeholder="e.g. Network refresh - phase 1"
+            className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+          />
+        </div>
+
+        {/* Line Items */}
+        <div className="mb-4">
+          <div className={`grid grid-cols-12 gap-2 text-xs font-medium uppercase ${themeClasses.text.secondary} mb-2`}>
+            <div className="col-span-2">Type</div>
+            <div className="col-span-4">Item</div>
+            <div className="col-span-2">Qty</div>
+            <div className="col-span-2">Unit Price</div>
+            <div className="col-span-2 text-right">Amount</div>
+          </div>
+          <div className="space-y-3">
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <select
+                  value={line.itemType}
+                  onChange={(e) => updateLine(index, { itemType: e.target.value as LineItemType })}
+                  className={`col-span-2 px-2 py-2 rounded-lg ${themeClasses.input}`}
+                >
+                  {(Object.keys(itemTypeLabels) as LineItemType[]).map(type => (
+                    <option key={type} value={type}>{itemTypeLabels[type]}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={line.description}
+                  onChange={(e) => updateLine(index, { description: e.target.value })}
+                  placeholder="Description"
+                  className={`col-span-4 px-3 py-2 rounded-lg ${themeClasses.input}`}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="0.25"
+                  value={line.quantity}
+                  onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                  className={`col-span-2 px-3 py-2 rounded-lg ${themeClasses.input}`}
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  value={line.unitPrice}
+                  onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                  placeholder="0.00"
+                  className={`col-span-2 px-3 py-2 rounded-lg ${themeClasses.input}`}
+                />
+                <div className="col-span-2 flex items-center justify-end space-x-2">
+                  <span className={`text-sm ${themeClasses.text.primary}`}>
+                    {formatMoney(parsedLines[index].quantity * parsedLines[index].unitPrice, currency)}
+                  </span>
+                  <button
+                    onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                    disabled={lines.length === 1}
+                    className="text-red-600 dark:text-red-400 disabled:opacity-30"
+                    title="Remove line"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="col-start-3 col-span-10 flex items-center gap-4">
+                  <label className={`flex items-center gap-1 text-xs ${themeClasses.text.secondary}`}>
+                    <input
+                      type="checkbox"
+                      checked={line.taxable}
+                      onChange={(e) => updateLine(index, { taxable: e.target.checked })}
+                    />
+                    Taxable
+                  </label>
+                  <input
+                    type="text"
+                    value={line.productRef}
+                    onChange={(e) => updateLine(index, { productRef: e.target.value })}
+                    placeholder="SKU / part # (optional)"
+                    maxLength={100}
+                    className={`flex-1 px-2 py-1 text-xs rounded-lg ${themeClasses.input}`}
+                  />
+                  {line.serviceRequestId && (
+                    <span className={`text-xs ${themeClasses.text.muted}`}>Linked to a service request</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => setLines(prev => [...prev, { ...emptyLine }])}
+            className="mt-2 flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add line</span>
+          </button>
+        </div>
+
+        {/* Totals */}
+        <div className="flex justify-end mb-4">
+          <div className="w-64 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className={themeClasses.text.secondary}>Subtotal:</span>
+              <span className={themeClasses.text.primary}>{formatMoney(totals.subtotal, currency)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className={themeClasses.text.secondary}>
+                Tax{taxRate === null ? businessTaxLabel() : ` (${taxPercent}%)`}:
+              </span>
+              <span className={themeClasses.text.primary}>{formatMoney(totals.taxAmount, currency)}</span>
+            </div>
+            {taxRate === null && businessTax && businessTax.components.length > 1 && (
+              <p className={`text-xs ${themeClasses.text.muted}`}>
+                {businessTax.components.map(component => `${component.name} ${formatTaxRate(component.rate)}`).join(', ')}
+              </p>
+            )}
+            <div className={`flex justify-between font-bold ${themeClasses.text.primary}`}>
+              <span>Total{currency ? ` (${currency})` : ''}:</span>
+              <span>{formatMoney(totals.totalAmount, currency)}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="mb-6">
+          <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Notes (Optional)</label>
+          <textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+            className={`w-full px-3 py-2 rounded-lg ${themeClasses.input} resize-none`}
+          />
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            onClick={() => handleSave(false)}
+            disabled={saving || !canSave}
+            className={`flex-1 px-4 py-2 ${themeClasses.bg.secondary} ${themeClasses.text.primary} rounded-lg hover:opacity-80 disabled:opacity-50`}
+          >
+            {saving ? 'Saving...' : 'Save Draft'}
+          </button>
+          <button
+            onClick={() => handleSave(true)}
+            disabled={saving || !canSave}
+            className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save & Issue'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceEditorModal;
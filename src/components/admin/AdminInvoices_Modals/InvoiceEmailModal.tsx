@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import { invoiceService } from '../../../services/invoiceService';
+
+interface InvoiceEmailModalProps {
+  invoice: {
+    id: string;
+    invoice_number: string;
+    primary_contact_email?: string | null;
+  };
+  onClose: () => void;
+  onDone: (message: string) => void;
+}
+
+/**
+ * Email the invoice PDF, to the primary contact unless another address is
+ * entered. The send is recorded in the invoice history.
+ */
+const InvoiceEmailModal: React.FC<InvoiceEmailModalProps> = ({ invoice, onClose, onDone }) => {
+  const [to, setTo] = useState(invoice.primary_contact_email || '');
+  const [message, setMessage] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await invoiceService.emailInvoice(invoice.id, {
+        to: to.trim(),
+        message: message.trim() || undefined
+      });
+      onDone(response.message || 'Invoice emailed');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to email invoice');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className={`${themeClasses.bg.card} rounded-lg max-w-md w-full p-6`}>
+        <h2 className={`text-xl font-bold ${themeClasses.text.primary} mb-4`}>Email Invoice</h2>
+
+        <p className={`text-sm ${themeClasses.text.secondary} mb-4`}>
+          Invoice <span className="font-mono">{invoice.invoice_number}</span> will be sent as a PDF attachment.
+        </p>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        <div className="mb-4">
+          <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>
+            Recipient
+          </label>
+          <input
+            type="email"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            placeholder="billing@example.com"
+            className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+          />
+        </div>
+
+        <div className="mb-6">
+          <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>
+            Message (optional)
+          </label>
+          <textarea
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            maxLength={2000}
+            rows={4}
+            className={`w-full px-3 py-2 rounded-lg ${themeClasses.input} resize-none`}
+          />
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || !to.trim()}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Sending...' : 'Send'}
+          </button>
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className={`flex-1 px-4 py-2 ${themeClasses.bg.secondary} rounded-lg hover:opacity-80 disabled:opacity-50`}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InvoiceEmailModal;
@@ -0,0 +1,134 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import { InvoiceHistoryEntry } from '../../../services/invoiceService';
+import { useCurrencyFormatter } from '../../../hooks/useCurrencyFormatter';
+
+interface InvoiceHistoryListProps {
+  history: InvoiceHistoryEntry[];
+  /** The invoice's currency, for amounts in the details */
+  currency?: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  created: 'Created',
+  updated: 'Draft edited',
+  issued: 'Issued',
+  voided: 'Voided',
+  credited: 'Credited',
+  emailed: 'Emailed',
+  reminder_sent: 'Payment reminder sent',
+  reminders_paused: 'Reminders paused',
+  reminders_resumed: 'Reminders resumed',
+  autopay_charged: 'Paid by autopay',
+  autopay_pending: 'Autopay bank debit started',
+  autopay_failed: 'Autopay failed',
+  payment_received: 'Payment received',
+  payment_recorded: 'Payment recorded',
+  payment_credited: 'Payment moved to credit',
+  refund_recorded: 'Refund recorded',
+  credit_applied: 'Credit applied',
+  payment_failed: 'Payment failed',
+  payment_canceled: 'Payment canceled',
+  refunded: 'Refunded',
+  overpayment_refunded: 'Overpayment refunded from credit',
+  dispute_opened: 'Payment disputed',
+  dispute_closed: 'Dispute closed',
+  payment_status_changed: 'Payment status changed'
+};
+
+const methodLabel = (method: unknown) => (method === 'us_bank_account' ? 'bank debit' : String(method));
+
+const describeDetails = (entry: InvoiceHistoryEntry, money: (amount: unknown) => string): string | null => {
+  const d = entry.details || {};
+  switch (entry.action) {
+    case 'created':
+      if (d.source === 'service_request') return `From service request ${d.requestNumber}`;
+      if (d.creditForInvoiceNumber) return `Credit note for ${d.creditForInvoiceNumber}`;
+      return d.invoiceStatus === 'draft' ? 'Saved as draft' : null;
+    case 'updated':
+      return `Total ${money(d.previousTotal)} → ${money(d.totalAmount)}`;
+    case 'issued':
+      return d.invoiceNumber ? `${d.draftNumber} → ${d.invoiceNumber}` : null;
+    case 'credited':
+      return `${money(d.amount)} via ${d.creditNoteNumber}`;
+    case 'emailed':
+      return `To ${d.to}`;
+    case 'reminder_sent': {
+      const offset = Number(d.offsetDays);
+      const step = offset < 0 ? `${-offset}d before due` : offset === 0 ? 'Due date' : `${offset}d overdue`;
+      return `${step}, to ${d.to}${d.smsTo ? ` and ${d.smsTo}` : ''}`;
+    }
+    case 'autopay_failed':
+      return `${d.from} → ${d.to ?? 'failed'}${d.emailedTo ? `, client emailed at ${d.emailedTo}` : ''}`;
+    case 'payment_received':
+      return `${money(d.amount)} by ${methodLabel(d.paymentMethod ?? d.method)}`;
+    case 'payment_recorded':
+      return `${money(d.amount)} by ${methodLabel(d.method)}${d.reference ? ` (${d.reference})` : ''}`
+        + `${Number(d.overpayment) > 0 ? `, ${money(d.overpayment)} to credit` : ''}`;
+    case 'payment_credited':
+      return `${money(d.amount)} to credit balance`;
+    case 'refund_recorded':
+      return `${money(d.amount)} ${d.destination === 'credit' ? 'to credit balance' : `by ${methodLabel(d.method)}`}`
+        + `${d.stripeRefundId ? ' through Stripe' : ''}`;
+    case 'credit_applied':
+      return `${money(d.amount)}, ${d.from} → ${d.to}`;
+    case 'refunded':
+      return `${money(d.amount)} (${money(d.totalRefunded)} in total)`;
+    case 'overpayment_refunded':
+      return `${money(d.amount)} taken off the credit balance`;
+    case 'dispute_opened':
+      return `${money(d.amount)} chargeback`;
+    case 'dispute_closed':
+      return `${String(d.disputeStatus).replace(/_/g, ' ')}${d.from !== d.to ? `, ${d.from} → ${d.to}` : ''}`;
+    case 'payment_failed':
+    case 'payment_canceled':
+      return `${d.from} → ${d.to}`;
+    case 'payment_status_changed':
+      return `${d.from} → ${d.to}${d.source === 'dunning' ? ' (automatic)' : ''}`;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Audit trail shown at the bottom of the admin invoice viewer, newest first.
+ */
+const InvoiceHistoryList: React.FC<InvoiceHistoryListProps> = ({ history, currency }) => {
+  const formatMoney = useCurrencyFormatter();
+  if (history.length === 0) return null;
+  const money = (amount: unknown) => formatMoney(Number(amount), currency);
+
+  return (
+    <div>
+      <h3 className={`text-sm font-semibold ${themeClasses.text.primary} mb-2 flex items-center`}>
+        <History className="h-4 w-4 mr-1" />
+        History
+      </h3>
+      <ul className={`divide-y divide-gray-200 dark:divide-gray-700 text-sm`}>
+        {history.map(entry => {
+          const detail = describeDetails(entry, money);
+          return (
+            <li key={entry.id} className="py-2 flex justify-between gap-4">
+              <div>
+                <span className={`font-medium ${themeClasses.text.primary}`}>
+                  {ACTION_LABELS[entry.action] || entry.action}
+                </span>
+                {detail && <span className={`ml-2 ${themeClasses.text.secondary}`}>{detail}</span>}
+                {entry.reason && (
+                  <div className={`text-xs ${themeClasses.text.muted} mt-0.5`}>Reason: {entry.reason}</div>
+                )}
+              </div>
+              <div className={`text-xs ${themeClasses.text.muted} text-right whitespace-nowrap`}>
+                <div>{new Date(entry.created_at).toLocaleString()}</div>
+                {entry.performed_by_name?.trim() && <div>{entry.performed_by_name}</div>}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default InvoiceHistoryList;
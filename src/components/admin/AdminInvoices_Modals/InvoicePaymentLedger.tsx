@@ -0,0 +1,373 @@
+import React, { useState } from 'react';
+import { Wallet, Plus, Undo2, PiggyBank } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import { invoiceService, InvoicePayment, PaymentMethod } from '../../../services/invoiceService';
+import { useCurrencyFormatter } from '../../../hooks/useCurrencyFormatter';
+
+interface InvoicePaymentLedgerProps {
+  invoice: {
+    id: string;
+    invoice_number: string;
+    total_amount: string | number;
+    amount_paid: string | number;
+    currency?: string;
+  };
+  payments: InvoicePayment[];
+  /** The business's available credit */
+  creditBalance: number;
+  /** Recording payments, refunds and credit (modify.invoices.enable on an issued invoice) */
+  canModify: boolean;
+  onChanged: (message: string) => void;
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  card: 'Card',
+  us_bank_account: 'Bank debit',
+  check: 'Check',
+  cash: 'Cash',
+  credit: 'Credit balance',
+  other: 'Other'
+};
+
+const ENTRY_LABELS: Record<string, string> = {
+  payment: 'Payment',
+  refund: 'Refund',
+  chargeback: 'Chargeback',
+  credit_applied: 'Credit applied',
+  overpayment_credited: 'Overpayment to credit'
+};
+
+const RECORDABLE_METHODS: PaymentMethod[] = ['check', 'cash', 'card', 'us_bank_account', 'other'];
+
+// Entries that take money back off the invoice
+const OUTGOING_ENTRIES = ['refund', 'chargeback', 'overpayment_credited'];
+
+type Form =
+  | { kind: 'payment' }
+  | { kind: 'refund'; payment: InvoicePayment }
+  | { kind: 'credit' };
+
+/**
+ * An invoice's payments, refunds and credit applied, with its running
+ * balance. Card and bank payments made through Stripe are refunded through
+ * Stripe; anything else is refunded outside the system and only recorded
+ * here, or taken as credit for later invoices.
+ */
+const InvoicePaymentLedger: React.FC<InvoicePaymentLedgerProps> = ({
+  invoice,
+  payments,
+  creditBalance,
+  canModify,
+  onChanged
+}) => {
+  const [form, setForm] = useState<Form | null>(null);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('check');
+  const [receivedOn, setReceivedOn] = useState('');
+  const [reference, setReference] = useState('');
+  const [reason, setReason] = useState('');
+  const [destination, setDestination] = useState<'original' | 'credit'>('original');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const formatMoney = useCurrencyFormatter();
+  const money = (value: number) => formatMoney(value, invoice.currency);
+
+  const total = Number(invoice.total_amount);
+  const balanceDue = Math.round((total - Number(invoice.amount_paid)) * 100) / 100;
+  const sum = (type: string) => payments
+    .filter(entry => entry.entry_type === type)
+    .reduce((acc, entry) => acc + Number(entry.amount), 0);
+  const refunded = sum('refund') + sum('chargeback');
+
+  const remainingOf = (payment: InvoicePayment) =>
+    Math.round((Number(payment.amount) - Number(payment.refunded)) * 100) / 100;
+
+  const openForm = (next: Form) => {
+    setForm(next);
+    setError(null);
+    setReason('');
+    setReference('');
+    setReceivedOn('');
+    setDestination('original');
+    setAmount(
+      next.kind === 'refund' ? remainingOf(next.payment).toFixed(2)
+        : next.kind === 'credit' ? Math.min(creditBalance, balanceDue).toFixed(2)
+        : balanceDue > 0 ? balanceDue.toFixed(2) : ''
+    );
+  };
+
+  const handleSubmit = async () => {
+    if (!form) return;
+    try {
+      setSubmitting(true);
+      setError(null);
+      const value = parseFloat(amount);
+      const response = form.kind === 'payment'
+        ? await invoiceService.recordPayment(invoice.id, {
+          amount: value,
+          method,
+          ...(receivedOn ? { receivedOn } : {}),
+          ...(reference.trim() ? { reference: reference.trim() } : {})
+        })
+        : form.kind === 'refund'
+          ? await invoiceService.refundPayment(invoice.id, {
+            paymentId: form.payment.id,
+            reason: reason.trim(),
+            amount: value,
+            destination
+          })
+          : await invoiceService.applyCredit(invoice.id, value);
+      setForm(null);
+      onChanged(response.message || 'Payment ledger updated');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const amountValue = parseFloat(amount);
+  const maxAmount = form?.kind === 'refund' ? remainingOf(form.payment)
+    : form?.kind === 'credit' ? Math.min(creditBalance, balanceDue)
+    : Infinity;
+  const formValid = amountValue > 0 && amountValue <= maxAmount && (form?.kind !== 'refund' || reason.trim() !== '');
+  const refundsThroughStripe = form?.kind === 'refund'
+    && destination === 'original'
+    && Boolean(form.payment.stripe_payment_intent_id)
+    && ['card', 'us_bank_account'].includes(form.payment.method);
+
+  return (
+    <div className={`p-4 rounded-lg ${themeClasses.bg.secondary}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className={`text-lg font-semibold ${themeClasses.text.primary} flex items-center`}>
+          <Wallet className="h-5 w-5 mr-2" />
+          Payments
+        </h3>
+        {canModify && (
+          <div className="flex gap-2">
+            {creditBalance > 0 && balanceDue > 0 && (
+              <button
+                onClick={() => openForm({ kind: 'credit' })}
+                className="flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg bg-purple-600 text-white hover:bg-purple-700"
+              >
+                <PiggyBank className="h-4 w-4" />
+                <span>Apply Credit</span>
+              </button>
+            )}
+            <button
+              onClick={() => openForm({ kind: 'payment' })}
+              className="flex items-center space-x-1 px-3 py-1.5 text-sm rounded-lg bg-green-600 text-white hover:bg-green-700"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Record Payment</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {payments.length === 0 ? (
+        <p className={`text-sm ${themeClasses.text.tertiary}`}>No payments recorded.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className={`text-left ${themeClasses.text.tertiary}`}>
+                <th className="py-1 pr-3 font-medium">Date</th>
+                <th className="py-1 pr-3 font-medium">Entry</th>
+                <th className="py-1 pr-3 font-medium">Method</th>
+                <th className="py-1 pr-3 font-medium">Reference</th>
+                <th className="py-1 pr-3 font-medium text-right">Amount</th>
+                <th className="py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {payments.map(entry => {
+                const outgoing = OUTGOING_ENTRIES.includes(entry.entry_type);
+                const canRefund = canModify && entry.entry_type === 'payment' && remainingOf(entry) > 0;
+                return (
+                  <tr key={entry.id} className={`border-t ${themeClasses.border.primary}`}>
+                    <td className={`py-1.5 pr-3 ${themeClasses.text.secondary}`}>{entry.received_on}</td>
+                    <td className={`py-1.5 pr-3 ${themeClasses.text.primary}`}>
+                      {ENTRY_LABELS[entry.entry_type] || entry.entry_type}
+                      {entry.recorded_by_name?.trim() && (
+                        <span className={`block text-xs ${themeClasses.text.tertiary}`}>by {entry.recorded_by_name}</span>
+                      )}
+                    </td>
+                    <td className={`py-1.5 pr-3 ${themeClasses.text.secondary}`}>{METHOD_LABELS[entry.method] || entry.method}</td>
+                    <td className={`py-1.5 pr-3 ${themeClasses.text.secondary}`}>
+                      {entry.reference || entry.notes || '—'}
+                    </td>
+                    <td className={`py-1.5 pr-3 text-right font-semibold ${outgoing ? 'text-red-600 dark:text-red-400' : themeClasses.text.primary}`}>
+                      {outgoing ? '-' : ''}{money(Number(entry.amount))}
+                    </td>
+                    <td className="py-1.5 text-right">
+                      {canRefund && (
+                        <button
+                          onClick={() => openForm({ kind: 'refund', payment: entry })}
+                          className="inline-flex items-center text-xs text-purple-600 dark:text-purple-400 hover:underline"
+                        >
+                          <Undo2 className="h-3 w-3 mr-1" />
+                          Refund
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="max-w-sm ml-auto mt-3 space-y-1 text-sm">
+        <div className="flex justify-between">
+          <span className={themeClasses.text.secondary}>Paid:</span>
+          <span className={themeClasses.text.primary}>{money(sum('payment') + sum('credit_applied') - sum('overpayment_credited'))}</span>
+        </div>
+        {refunded > 0 && (
+          <div className="flex justify-between">
+            <span className={themeClasses.text.secondary}>Refunded:</span>
+            <span className="text-red-600 dark:text-red-400">-{money(refunded)}</span>
+          </div>
+        )}
+        <div className={`flex justify-between pt-1 border-t ${themeClasses.border.primary} font-semibold`}>
+          <span className={themeClasses.text.primary}>Balance due:</span>
+          <span className={balanceDue > 0 ? 'text-red-600 dark:text-red-400' : themeClasses.text.primary}>
+            {money(Math.max(balanceDue, 0))}
+          </span>
+        </div>
+        {creditBalance > 0 && (
+          <p className={`text-xs ${themeClasses.text.tertiary} text-right`}>
+            {money(creditBalance)} credit available to this business
+          </p>
+        )}
+      </div>
+
+      {form && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+          <div className={`${themeClasses.bg.card} rounded-lg max-w-md w-full p-6`}>
+            <h2 className={`text-xl font-bold ${themeClasses.text.primary} mb-4`}>
+              {form.kind === 'payment' ? 'Record Payment' : form.kind === 'refund' ? 'Refund Payment' : 'Apply Credit'}
+            </h2>
+
+            <p className={`text-sm ${themeClasses.text.secondary} mb-4`}>
+              Invoice: <span className="font-mono">{invoice.invoice_number}</span>
+              {form.kind === 'payment' && ` — ${money(Math.max(balanceDue, 0))} due. Any overpayment is added to the business's credit.`}
+              {form.kind === 'refund' && ` — up to ${money(remainingOf(form.payment))} of this ${METHOD_LABELS[form.payment.method]?.toLowerCase() || form.payment.method} payment.`}
+              {form.kind === 'credit' && ` — ${money(creditBalance)} credit available, ${money(balanceDue)} due.`}
+            </p>
+
+            {error && (
+              <div className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+                {error}
+              </div>
+            )}
+
+            <div className="mb-4">
+              <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Amount</label>
+              <input
+                type="number"
+                min={0.01}
+                max={Number.isFinite(maxAmount) ? maxAmount : undefined}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+              />
+            </div>
+
+            {form.kind === 'payment' && (
+              <>
+                <div className="mb-4 grid grid-cols-2 gap-3">
+                  <div>
+                    <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Method</label>
+                    <select
+                      value={method}
+                      onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                      className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+                    >
+                      {RECORDABLE_METHODS.map(option => (
+                        <option key={option} value={option}>{METHOD_LABELS[option]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Received</label>
+                    <input
+                      type="date"
+                      value={receivedOn}
+                      onChange={(e) => setReceivedOn(e.target.value)}
+                      className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+                    />
+                  </div>
+                </div>
+                <div className="mb-6">
+                  <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Reference</label>
+                  <input
+                    type="text"
+                    value={reference}
+                    onChange={(e) => setReference(e.target.value)}
+                    placeholder="e.g. Check #1042"
+                    className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+                  />
+                </div>
+              </>
+            )}
+
+            {form.kind === 'refund' && (
+              <>
+                <div className="mb-4">
+                  <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Refund to</label>
+                  <select
+                    value={destination}
+                    onChange={(e) => setDestination(e.target.value as 'original' | 'credit')}
+                    className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+                  >
+                    <option value="original">The payer ({METHOD_LABELS[form.payment.method] || form.payment.method})</option>
+                    <option value="credit">The business's credit balance</option>
+                  </select>
+                  <p className={`mt-1 text-xs ${themeClasses.text.tertiary}`}>
+                    {refundsThroughStripe
+                      ? 'The refund is issued through Stripe.'
+                      : destination === 'original'
+                        ? 'Return the money yourself; this only records the refund.'
+                        : 'The amount can be applied to later invoices.'}
+                  </p>
+                </div>
+                <div className="mb-6">
+                  <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Reason</label>
+                  <textarea
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="e.g. Charged twice"
+                    rows={3}
+                    className={`w-full px-3 py-2 rounded-lg ${themeClasses.input} resize-none`}
+                  />
+                </div>
+              </>
+            )}
+
+            <div className="flex space-x-3">
+              <button
+                onClick={handleSubmit}
+                disabled={submitting || !formValid}
+                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {submitting ? 'Working...' : form.kind === 'payment' ? 'Record Payment' : form.kind === 'refund' ? 'Refund' : 'Apply Credit'}
+              </button>
+              <button
+                onClick={() => setForm(null)}
+                disabled={submitting}
+                className={`flex-1 px-4 py-2 ${themeClasses.bg.secondary} rounded-lg hover:opacity-80 disabled:opacity-50`}
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InvoicePaymentLedger;
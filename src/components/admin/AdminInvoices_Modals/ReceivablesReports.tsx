@@ -0,0 +1,460 @@
+import React, { useEffect, useState } from 'react';
+import { BarChart3, Download, XCircle } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import {
+  invoiceService,
+  AgingBucket,
+  AgingReport,
+  RevenueDimension,
+  RevenueGroup,
+  RevenueInvoice,
+  RevenueMonth,
+  RevenueRange,
+  RevenueReport
+} from '../../../services/invoiceService';
+import { downloadBlob } from '../../../utils/downloadBlob';
+
+interface ReceivablesReportsProps {
+  /** Open an invoice in the invoice viewer */
+  onViewInvoice: (invoiceId: string) => void;
+  /** CSV export (export.invoices.enable) */
+  canExport: boolean;
+}
+
+const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: '1_30', label: '1-30 days' },
+  { key: '31_60', label: '31-60 days' },
+  { key: '61_90', label: '61-90 days' },
+  { key: '90_plus', label: '90+ days' }
+];
+
+const DIMENSIONS: { key: RevenueDimension; label: string }[] = [
+  { key: 'month', label: 'By month' },
+  { key: 'serviceType', label: 'By service type' },
+  { key: 'rateTier', label: 'By rate tier' }
+];
+
+const money = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// What the aging drill-down is showing; null fields match everything
+interface AgingSelection {
+  businessId: string | null;
+  bucket: AgingBucket | null;
+}
+
+/**
+ * Accounts receivable aging and revenue for the accountant. Every total
+ * drills down to the invoices behind it, and each view exports to CSV.
+ */
+const ReceivablesReports: React.FC<ReceivablesReportsProps> = ({ onViewInvoice, canExport }) => {
+  const [view, setView] = useState<'aging' | 'revenue'>('aging');
+  const [error, setError] = useState<string | null>(null);
+  const [exporting, setExporting] = useState(false);
+
+  const [asOf, setAsOf] = useState('');
+  const [aging, setAging] = useState<AgingReport | null>(null);
+  const [agingSelection, setAgingSelection] = useState<AgingSelection | null>(null);
+
+  const [range, setRange] = useState<RevenueRange>({});
+  const [dimension, setDimension] = useState<RevenueDimension>('month');
+  const [revenue, setRevenue] = useState<RevenueReport | null>(null);
+  const [revenueGroup, setRevenueGroup] = useState<RevenueGroup | null>(null);
+  const [revenueInvoices, setRevenueInvoices] = useState<RevenueInvoice[]>([]);
+
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (view !== 'aging') return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    invoiceService.getAgingReport(asOf || undefined)
+      .then(response => {
+        if (!cancelled) setAging(response.data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load receivables aging');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [view, asOf]);
+
+  useEffect(() => {
+    if (view !== 'revenue') return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setRevenueGroup(null);
+    invoiceService.getRevenueReport(range)
+      .then(response => {
+        if (!cancelled) setRevenue(response.data);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load revenue report');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [view, range]);
+
+  const handleSelectRevenueGroup = async (group: RevenueGroup) => {
+    try {
+      setRevenueGroup(group);
+      setRevenueInvoices([]);
+      setError(null);
+      const response = await invoiceService.getRevenueInvoices(range, dimension, group.key);
+      setRevenueInvoices(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load revenue invoices');
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      if (view === 'aging' && aging) {
+        downloadBlob(await invoiceService.exportAgingReport(aging.asOf), `ar-aging-${aging.asOf}.csv`);
+      } else if (view === 'revenue' && revenue) {
+        downloadBlob(
+          await invoiceService.exportRevenueReport(range, dimension),
+          `revenue-by-${dimension}-${revenue.from}-to-${revenue.to}.csv`
+        );
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const drilledAgingInvoices = aging && agingSelection
+    ? aging.invoices.filter(invoice =>
+      (agingSelection.businessId === null || invoice.businessId === agingSelection.businessId) &&
+      (agingSelection.bucket === null || invoice.bucket === agingSelection.bucket)
+    )
+    : [];
+
+  const agingSelectionLabel = () => {
+    if (!aging || !agingSelection) return '';
+    const business = aging.businesses.find(b => b.businessId === agingSelection.businessId);
+    const bucket = AGING_BUCKETS.find(b => b.key === agingSelection.bucket);
+    return [business?.businessName ?? 'All businesses', bucket?.label ?? 'All ages'].join(' · ');
+  };
+
+  const revenueRows: RevenueGroup[] = !revenue ? []
+    : dimension === 'month' ? revenue.byMonth
+    : dimension === 'serviceType' ? revenue.byServiceType
+    : revenue.byRateTier;
+
+  const cellButton = (amount: number, selection: AgingSelection) => (
+    <button
+      onClick={() => setAgingSelection(selection)}
+      disabled={amount === 0}
+      className={`${amount === 0 ? themeClasses.text.muted : 'text-blue-600 dark:text-blue-400 hover:underline'}`}
+    >
+      {money(amount)}
+    </button>
+  );
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1 text-sm rounded-lg transition-colors ${active ? 'bg-blue-600 text-white' : themeClasses.bg.hover}`;
+
+  return (
+    <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg p-4 space-y-4`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <BarChart3 className={`h-5 w-5 ${themeClasses.text.primary}`} />
+          <h2 className={`text-sm font-semibold ${themeClasses.text.primary}`}>Receivables &amp; revenue</h2>
+          <button onClick={() => setView('aging')} className={tabClass(view === 'aging')}>AR aging</button>
+          <button onClick={() => setView('revenue')} className={tabClass(view === 'revenue')}>Revenue</button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {view === 'aging' ? (
+            <label className={`flex items-center space-x-2 text-sm ${themeClasses.text.secondary}`}>
+              <span>As of</span>
+              <input
+                type="date"
+                value={asOf}
+                onChange={(e) => {
+                  setAsOf(e.target.value);
+                  setAgingSelection(null);
+                }}
+                className={`px-2 py-1 border rounded-lg ${themeClasses.input}`}
+              />
+            </label>
+          ) : (
+            <>
+              <label className={`flex items-center space-x-2 text-sm ${themeClasses.text.secondary}`}>
+                <span>Issued from</span>
+                <input
+                  type="date"
+                  value={range.from ?? ''}
+                  onChange={(e) => setRange(prev => ({ ...prev, from: e.target.value || undefined }))}
+                  className={`px-2 py-1 border rounded-lg ${themeClasses.input}`}
+                />
+              </label>
+              <label className={`flex items-center space-x-2 text-sm ${themeClasses.text.secondary}`}>
+                <span>to</span>
+                <input
+                  type="date"
+                  value={range.to ?? ''}
+                  onChange={(e) => setRange(prev => ({ ...prev, to: e.target.value || undefined }))}
+                  className={`px-2 py-1 border rounded-lg ${themeClasses.input}`}
+                />
+              </label>
+              <select
+                value={dimension}
+                onChange={(e) => {
+                  setDimension(e.target.value as RevenueDimension);
+                  setRevenueGroup(null);
+                }}
+                className={`px-2 py-1 text-sm border rounded-lg ${themeClasses.input}`}
+              >
+                {DIMENSIONS.map(option => (
+                  <option key={option.key} value={option.key}>{option.label}</option>
+                ))}
+              </select>
+            </>
+          )}
+          {canExport && (
+            <button
+              onClick={handleExport}
+              disabled={exporting || loading}
+              className={`flex items-center space-x-1 px-3 py-1 text-sm rounded-lg ${themeClasses.bg.hover} disabled:opacity-50 transition-colors`}
+            >
+              <Download className="h-4 w-4" />
+              <span>{exporting ? 'Exporting...' : 'Export CSV'}</span>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">{error}</div>
+      )}
+
+      {loading && <div className={`text-sm ${themeClasses.text.muted}`}>Loading...</div>}
+
+      {/* AR aging */}
+      {view === 'aging' && aging && !loading && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            {AGING_BUCKETS.map(bucket => (
+              <button
+                key={bucket.key}
+                onClick={() => setAgingSelection({ businessId: null, bucket: bucket.key })}
+                className={`text-left p-3 rounded-lg ${themeClasses.bg.secondary} ${themeClasses.bg.hover}`}
+              >
+                <div className={`text-xs ${themeClasses.text.muted}`}>{bucket.label}</div>
+                <div className={`text-lg font-semibold ${bucket.key === '90_plus' && aging.buckets[bucket.key] > 0 ? 'text-red-600 dark:text-red-400' : themeClasses.text.primary}`}>
+                  {money(aging.buckets[bucket.key])}
+                </div>
+              </button>
+            ))}
+            <button
+              onClick={() => setAgingSelection({ businessId: null, bucket: null })}
+              className={`text-left p-3 rounded-lg ${themeClasses.bg.secondary} ${themeClasses.bg.hover}`}
+            >
+              <div className={`text-xs ${themeClasses.text.muted}`}>Total outstanding</div>
+              <div className={`text-lg font-semibold ${themeClasses.text.primary}`}>{money(aging.total)}</div>
+              <div className={`text-xs ${themeClasses.text.muted}`}>
+                {aging.invoiceCount} invoice{aging.invoiceCount === 1 ? '' : 's'}
+              </div>
+            </button>
+          </div>
+
+          {aging.businesses.length === 0 ? (
+            <p className={`text-sm ${themeClasses.text.muted}`}>Nothing outstanding as of {aging.asOf}.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className={`text-left ${themeClasses.text.muted}`}>
+                    <th className="py-2 pr-4 font-medium">Business</th>
+                    {AGING_BUCKETS.map(bucket => (
+                      <th key={bucket.key} className="py-2 px-2 font-medium text-right">{bucket.label}</th>
+                    ))}
+                    <th className="py-2 pl-2 font-medium text-right">Total</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {aging.businesses.map(business => (
+                    <tr key={business.businessId} className={themeClasses.text.primary}>
+                      <td className="py-2 pr-4">{business.businessName}</td>
+                      {AGING_BUCKETS.map(bucket => (
+                        <td key={bucket.key} className="py-2 px-2 text-right">
+                          {cellButton(business.buckets[bucket.key], { businessId: business.businessId, bucket: bucket.key })}
+                        </td>
+                      ))}
+                      <td className="py-2 pl-2 text-right font-medium">
+                        {cellButton(business.total, { businessId: business.businessId, bucket: null })}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {agingSelection && (
+            <div className={`p-3 rounded-lg ${themeClasses.bg.secondary}`}>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className={`text-sm font-semibold ${themeClasses.text.primary}`}>{agingSelectionLabel()}</h3>
+                <button onClick={() => setAgingSelection(null)} aria-label="Close drill-down">
+                  <XCircle className={`h-4 w-4 ${themeClasses.text.muted}`} />
+                </button>
+              </div>
+              {drilledAgingInvoices.length === 0 ? (
+                <p className={`text-sm ${themeClasses.text.muted}`}>No open invoices.</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className={`text-left ${themeClasses.text.muted}`}>
+                      <th className="py-1 pr-4 font-medium">Invoice</th>
+                      <th className="py-1 pr-4 font-medium">Business</th>
+                      <th className="py-1 pr-4 font-medium">Due</th>
+                      <th className="py-1 pr-4 font-medium text-right">Days late</th>
+                      <th className="py-1 font-medium text-right">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {drilledAgingInvoices.map(invoice => (
+                      <tr key={invoice.id} className={themeClasses.text.primary}>
+                        <td className="py-1 pr-4">
+                          <button onClick={() => onViewInvoice(invoice.id)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                            {invoice.invoiceNumber}
+                          </button>
+                        </td>
+                        <td className="py-1 pr-4">{invoice.businessName}</td>
+                        <td className="py-1 pr-4">{invoice.dueDate}</td>
+                        <td className="py-1 pr-4 text-right">{invoice.daysPastDue}</td>
+                        <td className="py-1 text-right">{money(invoice.balance)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Revenue */}
+      {view === 'revenue' && revenue && !loading && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {([
+              ['Invoiced', revenue.totals.invoiced],
+              ['Credit notes', revenue.totals.credited],
+              ['Net revenue', revenue.totals.netRevenue],
+              ['Tax invoiced', revenue.totals.tax]
+            ] as [string, number][]).map(([label, amount]) => (
+              <div key={label} className={`p-3 rounded-lg ${themeClasses.bg.secondary}`}>
+                <div className={`text-xs ${themeClasses.text.muted}`}>{label}</div>
+                <div className={`text-lg font-semibold ${themeClasses.text.primary}`}>{money(amount)}</div>
+              </div>
+            ))}
+          </div>
+          <p className={`text-xs ${themeClasses.text.muted}`}>
+            Pre-tax, by issue date, {revenue.from} to {revenue.to}. Rate tier is the business's hourly rate category.
+          </p>
+
+          {revenueRows.length === 0 ? (
+            <p className={`text-sm ${themeClasses.text.muted}`}>No invoices issued in this period.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className={`text-left ${themeClasses.text.muted}`}>
+                    <th className="py-2 pr-4 font-medium">{DIMENSIONS.find(d => d.key === dimension)?.label.replace('By ', '')}</th>
+                    <th className="py-2 px-2 font-medium text-right">Invoices</th>
+                    {dimension === 'month' && (
+                      <>
+                        <th className="py-2 px-2 font-medium text-right">Invoiced</th>
+                        <th className="py-2 px-2 font-medium text-right">Credit notes</th>
+                      </>
+                    )}
+                    <th className="py-2 pl-2 font-medium text-right">Net revenue</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {revenueRows.map(row => (
+                    <tr key={row.key} className={themeClasses.text.primary}>
+                      <td className="py-2 pr-4">
+                        <button
+                          onClick={() => handleSelectRevenueGroup(row)}
+                          disabled={row.invoiceCount === 0 && row.netRevenue === 0}
+                          className={row.invoiceCount === 0 && row.netRevenue === 0 ? themeClasses.text.muted : 'text-blue-600 dark:text-blue-400 hover:underline'}
+                        >
+                          {row.label}
+                        </button>
+                      </td>
+                      <td className="py-2 px-2 text-right">{row.invoiceCount}</td>
+                      {dimension === 'month' && (
+                        <>
+                          <td className="py-2 px-2 text-right">{money((row as RevenueMonth).invoiced)}</td>
+                          <td className="py-2 px-2 text-right">{money((row as RevenueMonth).credited)}</td>
+                        </>
+                      )}
+                      <td className="py-2 pl-2 text-right font-medium">{money(row.netRevenue)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {revenueGroup && (
+            <div className={`p-3 rounded-lg ${themeClasses.bg.secondary}`}>
+              <div className="flex items-center justify-between mb-2">
+                <h3 className={`text-sm font-semibold ${themeClasses.text.primary}`}>{revenueGroup.label}</h3>
+                <button onClick={() => setRevenueGroup(null)} aria-label="Close drill-down">
+                  <XCircle className={`h-4 w-4 ${themeClasses.text.muted}`} />
+                </button>
+              </div>
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className={`text-left ${themeClasses.text.muted}`}>
+                    <th className="py-1 pr-4 font-medium">Invoice</th>
+                    <th className="py-1 pr-4 font-medium">Business</th>
+                    <th className="py-1 pr-4 font-medium">Issued</th>
+                    <th className="py-1 font-medium text-right">Counted</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {revenueInvoices.map(invoice => (
+                    <tr key={invoice.id} className={themeClasses.text.primary}>
+                      <td className="py-1 pr-4">
+                        <button onClick={() => onViewInvoice(invoice.id)} className="text-blue-600 dark:text-blue-400 hover:underline">
+                          {invoice.invoiceNumber}
+                        </button>
+                        {invoice.invoiceType === 'credit_note' && (
+                          <span className={`ml-2 text-xs ${themeClasses.text.muted}`}>credit note</span>
+                        )}
+                      </td>
+                      <td className="py-1 pr-4">{invoice.businessName}</td>
+                      <td className="py-1 pr-4">{invoice.issueDate}</td>
+                      <td className="py-1 text-right">{money(invoice.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReceivablesReports;
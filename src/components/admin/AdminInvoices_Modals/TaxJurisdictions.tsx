@@ -0,0 +1,295 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Landmark, Pencil, Plus, Save, Trash2, X } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import { taxService, TaxJurisdiction } from '../../../services/taxService';
+import { formatTaxRate } from '../../../utils/currencyFormatter';
+
+interface ComponentDraft {
+  name: string;
+  /** Percent as typed, e.g. "6.25" */
+  percent: string;
+}
+
+interface JurisdictionDraft {
+  id: string | null;
+  name: string;
+  laborTaxable: boolean;
+  isActive: boolean;
+  components: ComponentDraft[];
+}
+
+const emptyDraft = (): JurisdictionDraft => ({
+  id: null,
+  name: '',
+  laborTaxable: true,
+  isActive: true,
+  components: [{ name: 'State', percent: '' }]
+});
+
+// Fraction -> percent without float noise (0.0725 -> "7.25")
+const toPercent = (rate: number) => String(Number((rate * 100).toFixed(4)));
+
+/**
+ * Sales tax jurisdictions. Each one is a set of components (state, county,
+ * city, ...) whose rates add up to the invoice tax; businesses are assigned
+ * a jurisdiction in the business editor. Invoices keep the breakdown they
+ * were issued with, so editing rates only affects new invoices.
+ */
+const TaxJurisdictions: React.FC = () => {
+  const [jurisdictions, setJurisdictions] = useState<TaxJurisdiction[]>([]);
+  const [draft, setDraft] = useState<JurisdictionDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadJurisdictions = useCallback(async () => {
+    try {
+      const response = await taxService.listJurisdictions();
+      setJurisdictions(response.data.jurisdictions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tax jurisdictions');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadJurisdictions();
+  }, [loadJurisdictions]);
+
+  const handleEdit = (jurisdiction: TaxJurisdiction) => {
+    setMessage(null);
+    setDraft({
+      id: jurisdiction.id,
+      name: jurisdiction.name,
+      laborTaxable: jurisdiction.labor_taxable,
+      isActive: jurisdiction.is_active,
+      components: jurisdiction.components.map(component => ({
+        name: component.name,
+        percent: toPercent(component.rate)
+      }))
+    });
+  };
+
+  const updateComponent = (index: number, changes: Partial<ComponentDraft>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      components: prev.components.map((component, i) => (i === index ? { ...component, ...changes } : component))
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const input = {
+      name: draft.name,
+      laborTaxable: draft.laborTaxable,
+      isActive: draft.isActive,
+      components: draft.components.map(component => ({
+        name: component.name,
+        rate: component.percent === '' ? NaN : Number(component.percent) / 100
+      }))
+    };
+    try {
+      setSaving(true);
+      setError(null);
+      const response = draft.id
+        ? await taxService.updateJurisdiction(draft.id, input)
+        : await taxService.createJurisdiction(input);
+      setMessage(response.message || 'Tax jurisdiction saved');
+      setDraft(null);
+      await loadJurisdictions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save tax jurisdiction');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (jurisdiction: TaxJurisdiction) => {
+    if (!window.confirm(`Delete the ${jurisdiction.name} tax jurisdiction?`)) return;
+    try {
+      setError(null);
+      const response = await taxService.deleteJurisdiction(jurisdiction.id);
+      setMessage(response.message || 'Tax jurisdiction deleted');
+      await loadJurisdictions();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete tax jurisdiction');
+    }
+  };
+
+  const draftTotal = draft
+    ? draft.components.reduce((sum, component) => sum + (Number(component.percent) || 0), 0)
+    : 0;
+  const inputClass = `px-2 py-1 text-sm border rounded-lg ${themeClasses.input}`;
+
+  return (
+    <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg p-4 space-y-4`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <Landmark className={`h-5 w-5 ${themeClasses.text.primary}`} />
+          <h2 className={`text-sm font-semibold ${themeClasses.text.primary}`}>Sales tax jurisdictions</h2>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => {
+              setMessage(null);
+              setDraft(emptyDraft());
+            }}
+            className="flex items-center space-x-1 px-3 py-1 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New Jurisdiction</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">{error}</div>
+      )}
+      {message && (
+        <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-sm text-green-800 dark:text-green-300">{message}</div>
+      )}
+
+      {draft && (
+        <div className={`p-3 rounded-lg ${themeClasses.bg.secondary} space-y-3`}>
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Name, e.g. San Diego, CA"
+              className={`${inputClass} flex-1 min-w-[12rem]`}
+            />
+            <label className={`flex items-center space-x-1 text-sm ${themeClasses.text.secondary}`}>
+              <input
+                type="checkbox"
+                checked={draft.laborTaxable}
+                onChange={(e) => setDraft({ ...draft, laborTaxable: e.target.checked })}
+              />
+              <span>Labor is taxable</span>
+            </label>
+            <label className={`flex items-center space-x-1 text-sm ${themeClasses.text.secondary}`}>
+              <input
+                type="checkbox"
+                checked={draft.isActive}
+                onChange={(e) => setDraft({ ...draft, isActive: e.target.checked })}
+              />
+              <span>Active</span>
+            </label>
+          </div>
+
+          {draft.components.map((component, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={component.name}
+                onChange={(e) => updateComponent(index, { name: e.target.value })}
+                placeholder="Component, e.g. County"
+                className={`${inputClass} flex-1`}
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.0001"
+                value={component.percent}
+                onChange={(e) => updateComponent(index, { percent: e.target.value })}
+                placeholder="Rate"
+                className={`${inputClass} w-28 text-right`}
+              />
+              <span className={`text-sm ${themeClasses.text.secondary}`}>%</span>
+              <button
+                onClick={() => setDraft({ ...draft, components: draft.components.filter((_, i) => i !== index) })}
+                disabled={draft.components.length === 1}
+                title="Remove component"
+                className="text-red-600 dark:text-red-400 disabled:opacity-30"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <button
+              onClick={() => setDraft({ ...draft, components: [...draft.components, { name: '', percent: '' }] })}
+              className={`flex items-center space-x-1 text-sm ${themeClasses.text.secondary}`}
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add component</span>
+            </button>
+            <span className={`text-sm ${themeClasses.text.primary}`}>
+              Total {Number(draftTotal.toFixed(4))}%
+            </span>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setDraft(null)}
+              className={`flex items-center space-x-1 px-3 py-1 text-sm rounded-lg ${themeClasses.bg.hover}`}
+            >
+              <X className="h-4 w-4" />
+              <span>Cancel</span>
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !draft.name.trim()}
+              className="flex items-center space-x-1 px-3 py-1 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              <Save className="h-4 w-4" />
+              <span>{saving ? 'Saving...' : 'Save'}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {jurisdictions.length === 0 ? (
+        <p className={`text-sm ${themeClasses.text.muted}`}>
+          No jurisdictions yet. Businesses without one are taxed at the company invoice tax rate.
+        </p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className={`text-left text-xs uppercase ${themeClasses.text.muted}`}>
+              <th className="py-1 pr-3">Jurisdiction</th>
+              <th className="py-1 pr-3">Components</th>
+              <th className="py-1 pr-3 text-right">Total</th>
+              <th className="py-1 pr-3 text-right">Businesses</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody className={themeClasses.text.primary}>
+            {jurisdictions.map(jurisdiction => (
+              <tr key={jurisdiction.id} className={jurisdiction.is_active ? '' : 'opacity-60'}>
+                <td className="py-1 pr-3">
+                  {jurisdiction.name}
+                  {!jurisdiction.labor_taxable && (
+                    <span className={`ml-2 text-xs ${themeClasses.text.muted}`}>labor exempt</span>
+                  )}
+                  {!jurisdiction.is_active && (
+                    <span className={`ml-2 text-xs ${themeClasses.text.muted}`}>inactive</span>
+                  )}
+                </td>
+                <td className={`py-1 pr-3 text-xs ${themeClasses.text.secondary}`}>
+                  {jurisdiction.components
+                    .map(component => `${component.name} ${formatTaxRate(component.rate)}`)
+                    .join(', ')}
+                </td>
+                <td className="py-1 pr-3 text-right">{formatTaxRate(jurisdiction.total_rate)}</td>
+                <td className="py-1 pr-3 text-right">{jurisdiction.business_count}</td>
+                <td className="py-1 text-right space-x-2 whitespace-nowrap">
+                  <button onClick={() => handleEdit(jurisdiction)} title="Edit">
+                    <Pencil className={`h-4 w-4 inline ${themeClasses.text.secondary}`} />
+                  </button>
+                  {jurisdiction.business_count === 0 && (
+                    <button onClick={() => handleDelete(jurisdiction)} title="Delete">
+                      <Trash2 className="h-4 w-4 inline text-red-600 dark:text-red-400" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default TaxJurisdictions;
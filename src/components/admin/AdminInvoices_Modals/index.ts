@@ -0,0 +1,9 @@
+export { default as InvoiceEditorModal } from './InvoiceEditorModal';
+export { default as InvoiceAdjustmentModal } from './InvoiceAdjustmentModal';
+export { default as InvoiceEmailModal } from './InvoiceEmailModal';
+export { default as InvoiceHistoryList } from './InvoiceHistoryList';
+export { default as InvoicePaymentLedger } from './InvoicePaymentLedger';
+export { default as ReceivablesReports } from './ReceivablesReports';
+export { default as AccountingExport } from './AccountingExport';
+export { default as TaxJurisdictions } from './TaxJurisdictions';
+export type { EditableDraft } from './InvoiceEditorModal';
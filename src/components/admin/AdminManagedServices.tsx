@@ -0,0 +1,580 @@
+import React, { useEffect, useState } from 'react';
+import { Edit2, Eye, MonitorCheck, Plus, Receipt, Save, Trash2, X } from 'lucide-react';
+import { usePermission } from '../../hooks/usePermission';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  recurringBillingService,
+  priceDeviceCount,
+  DevicePricingRange,
+  ManagedServicePlan,
+  ManagedServiceSubscription,
+  RecurringBillingOptions,
+  SaveManagedServicePlanInput,
+  SaveManagedServiceSubscriptionInput,
+  SubscriptionInvoicePreview,
+} from '../../services/recurringBillingService';
+import InvoiceLineItemsTable from '../shared/InvoiceLineItemsTable';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+const cardClass = 'bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700';
+const cellClass = 'px-4 py-3 text-sm text-gray-700 dark:text-gray-300';
+const headerClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider';
+
+const emptyPlan: SaveManagedServicePlanInput = {
+  name: '',
+  description: '',
+  pricingRanges: [
+    { start: 1, end: 10, price: 25, description: 'First 10 devices' },
+    { start: 11, end: 50, price: 20, description: 'Devices 11-50' },
+  ],
+  isActive: true,
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptySubscription = (): SaveManagedServiceSubscriptionInput => ({
+  businessId: '',
+  planId: '',
+  startedOn: today(),
+  endedOn: null,
+  notes: '',
+});
+
+const planToInput = (p: ManagedServicePlan): SaveManagedServicePlanInput => ({
+  name: p.name,
+  description: p.description,
+  pricingRanges: p.pricing_ranges,
+  isActive: p.is_active,
+});
+
+const subscriptionToInput = (s: ManagedServiceSubscription): SaveManagedServiceSubscriptionInput => ({
+  planId: s.plan_id,
+  startedOn: s.started_on,
+  endedOn: s.ended_on,
+  notes: s.notes,
+});
+
+const formatMoney = (amount: number) => `$${Number(amount).toFixed(2)}`;
+
+const describeRanges = (ranges: DevicePricingRange[]) =>
+  ranges.map(r => `${r.start}-${r.end}: ${Number(r.price) === 0 ? 'free' : `${formatMoney(r.price)}/device`}`).join(' · ');
+
+/**
+ * Managed-services plans priced per monitored device, and the businesses
+ * billed on them. The server invoices each finished month on the 1st,
+ * prorating device changes by day.
+ */
+const AdminManagedServices: React.FC = () => {
+  const { checkPermission } = usePermission();
+  const { isDark } = useTheme();
+  const canManage = checkPermission('manage.recurring_billing.enable');
+
+  const [plans, setPlans] = useState<ManagedServicePlan[]>([]);
+  const [subscriptions, setSubscriptions] = useState<ManagedServiceSubscription[]>([]);
+  const [options, setOptions] = useState<RecurringBillingOptions>({ businesses: [], plans: [] });
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // null = closed, 'new' = creating, otherwise the id being edited
+  const [editingPlan, setEditingPlan] = useState<string | null>(null);
+  const [planForm, setPlanForm] = useState<SaveManagedServicePlanInput>(emptyPlan);
+  const [editingSubscription, setEditingSubscription] = useState<string | null>(null);
+  const [subscriptionForm, setSubscriptionForm] = useState<SaveManagedServiceSubscriptionInput>(emptySubscription);
+  const [preview, setPreview] = useState<{ subscription: ManagedServiceSubscription; data: SubscriptionInvoicePreview } | null>(null);
+
+  useEffect(() => {
+    Promise.all([
+      recurringBillingService.listPlans(),
+      recurringBillingService.listSubscriptions(),
+      recurringBillingService.getOptions(),
+    ])
+      .then(([planRes, subscriptionRes, optionRes]) => {
+        setPlans(planRes.data);
+        setSubscriptions(subscriptionRes.data);
+        setOptions(optionRes.data);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load managed services'));
+  }, [refreshKey]);
+
+  const reload = () => setRefreshKey(k => k + 1);
+
+  const run = async (action: () => Promise<{ message?: string }>, onDone?: () => void) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await action();
+      if (response.message) setMessage(response.message);
+      onDone?.();
+      reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openPlan = (plan?: ManagedServicePlan) => {
+    setEditingPlan(plan ? plan.id : 'new');
+    setPlanForm(plan ? planToInput(plan) : emptyPlan);
+  };
+
+  const savePlan = () => run(
+    () => editingPlan === 'new'
+      ? recurringBillingService.createPlan(planForm)
+      : recurringBillingService.updatePlan(editingPlan as string, planForm),
+    () => setEditingPlan(null)
+  );
+
+  const deletePlan = (plan: ManagedServicePlan) => {
+    if (!window.confirm(`Delete plan "${plan.name}"?`)) return;
+    run(() => recurringBillingService.removePlan(plan.id));
+  };
+
+  const setRange = (index: number, changes: Partial<DevicePricingRange>) => {
+    const pricingRanges = planForm.pricingRanges.map((r, i) => (i === index ? { ...r, ...changes } : r));
+    setPlanForm({ ...planForm, pricingRanges });
+  };
+
+  const addRange = () => {
+    const last = planForm.pricingRanges[planForm.pricingRanges.length - 1];
+    const start = last ? last.end + 1 : 1;
+    setPlanForm({
+      ...planForm,
+      pricingRanges: [...planForm.pricingRanges, { start, end: start + 9, price: last ? last.price : 0, description: '' }],
+    });
+  };
+
+  const removeRange = (index: number) => {
+    setPlanForm({ ...planForm, pricingRanges: planForm.pricingRanges.filter((_, i) => i !== index) });
+  };
+
+  const openSubscription = (subscription?: ManagedServiceSubscription) => {
+    setEditingSubscription(subscription ? subscription.id : 'new');
+    setSubscriptionForm(subscription ? subscriptionToInput(subscription) : emptySubscription());
+  };
+
+  const saveSubscription = () => run(
+    () => editingSubscription === 'new'
+      ? recurringBillingService.createSubscription(subscriptionForm)
+      : recurringBillingService.updateSubscription(editingSubscription as string, subscriptionForm),
+    () => setEditingSubscription(null)
+  );
+
+  const billSubscription = (subscription: ManagedServiceSubscription) => {
+    if (!window.confirm(`Invoice every finished, unbilled month for ${subscription.business_name}?`)) return;
+    run(() => recurringBillingService.billSubscription(subscription.id));
+  };
+
+  const openPreview = (subscription: ManagedServiceSubscription) => {
+    setError(null);
+    recurringBillingService.previewSubscription(subscription.id)
+      .then(response => setPreview({ subscription, data: response.data }))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load preview'));
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">{error}</div>
+      )}
+      {message && (
+        <div className="p-3 rounded-md bg-green-50 dark:bg-green-900/20 text-sm text-green-700 dark:text-green-300">{message}</div>
+      )}
+
+      {/* Subscribed businesses */}
+      <div className={cardClass}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center">
+              <MonitorCheck className="h-5 w-5 mr-2 text-blue-600" />
+              Managed Services Billing
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Billable devices are active agents, excluding trials and removed devices. Each finished month is
+              invoiced on the 1st, prorated by day when devices are added or removed.
+            </p>
+          </div>
+          {canManage && (
+            <button
+              onClick={() => openSubscription()}
+              disabled={options.plans.length === 0}
+              title={options.plans.length === 0 ? 'Create an active plan first' : undefined}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add Business</span>
+            </button>
+          )}
+        </div>
+
+        {editingSubscription && (
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label className={labelClass}>Business</label>
+                {editingSubscription === 'new' ? (
+                  <select
+                    value={subscriptionForm.businessId || ''}
+                    onChange={(e) => setSubscriptionForm({ ...subscriptionForm, businessId: e.target.value })}
+                    className={inputClass}
+                  >
+                    <option value="">Select a business</option>
+                    {options.businesses.map(b => <option key={b.id} value={b.id}>{b.business_name}</option>)}
+                  </select>
+                ) : (
+                  <p className="py-2 text-sm text-gray-900 dark:text-white">
+                    {subscriptions.find(s => s.id === editingSubscription)?.business_name}
+                  </p>
+                )}
+              </div>
+              <div>
+                <label className={labelClass}>Plan</label>
+                <select
+                  value={subscriptionForm.planId}
+                  onChange={(e) => setSubscriptionForm({ ...subscriptionForm, planId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Select a plan</option>
+                  {options.plans.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Start Date</label>
+                <input
+                  type="date"
+                  value={subscriptionForm.startedOn}
+                  onChange={(e) => setSubscriptionForm({ ...subscriptionForm, startedOn: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>End Date</label>
+                <input
+                  type="date"
+                  value={subscriptionForm.endedOn || ''}
+                  onChange={(e) => setSubscriptionForm({ ...subscriptionForm, endedOn: e.target.value || null })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Notes</label>
+              <input
+                type="text"
+                value={subscriptionForm.notes || ''}
+                onChange={(e) => setSubscriptionForm({ ...subscriptionForm, notes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setEditingSubscription(null)}
+                disabled={saving}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                <X className="h-4 w-4" />
+              </button>
+              <button
+                onClick={saveSubscription}
+                disabled={saving || !subscriptionForm.planId || (editingSubscription === 'new' && !subscriptionForm.businessId)}
+                className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                <Save className="h-4 w-4" />
+                <span>{saving ? 'Saving...' : 'Save'}</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        {subscriptions.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No businesses are on a managed-services plan yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className={headerClass}>Business</th>
+                  <th className={headerClass}>Plan</th>
+                  <th className={`${headerClass} text-right`}>Devices Now</th>
+                  <th className={`${headerClass} text-right`}>Monthly at Current Count</th>
+                  <th className={headerClass}>Period</th>
+                  <th className={headerClass}>Billed Through</th>
+                  <th className={`${headerClass} text-right`}>Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {subscriptions.map(subscription => (
+                  <tr key={subscription.id} className={subscription.ended_on ? 'opacity-60' : undefined}>
+                    <td className={`${cellClass} font-medium text-gray-900 dark:text-white`}>{subscription.business_name}</td>
+                    <td className={cellClass}>{subscription.plan_name}</td>
+                    <td className={`${cellClass} text-right`}>{subscription.current_device_count}</td>
+                    <td className={`${cellClass} text-right`}>{formatMoney(subscription.estimated_monthly_charge)}</td>
+                    <td className={cellClass}>
+                      {subscription.started_on} – {subscription.ended_on || 'ongoing'}
+                    </td>
+                    <td className={cellClass}>
+                      {subscription.billed_through || 'Not yet billed'}
+                      {subscription.last_invoice_number && (
+                        <div className="text-xs font-mono text-gray-500 dark:text-gray-400">{subscription.last_invoice_number}</div>
+                      )}
+                    </td>
+                    <td className={`${cellClass} text-right whitespace-nowrap`}>
+                      <button
+                        onClick={() => openPreview(subscription)}
+                        className="p-2 text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md"
+                        title="Month-to-date preview"
+                      >
+                        <Eye className="h-4 w-4" />
+                      </button>
+                      {canManage && (
+                        <>
+                          <button
+                            onClick={() => openSubscription(subscription)}
+                            className="p-2 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md"
+                            title="Edit"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => billSubscription(subscription)}
+                            disabled={saving}
+                            className="p-2 text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20 rounded-md"
+                            title="Invoice finished months now"
+                          >
+                            <Receipt className="h-4 w-4" />
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Plans */}
+      <div className={cardClass}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Plans</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Graduated monthly price per device, like the subscription tiers. Devices past the last range pay its price.
+            </p>
+          </div>
+          {canManage && (
+            <button
+              onClick={() => openPlan()}
+              className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-4 w-4" />
+              <span>Add Plan</span>
+            </button>
+          )}
+        </div>
+
+        {editingPlan && (
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Plan Name</label>
+                <input
+                  type="text"
+                  value={planForm.name}
+                  onChange={(e) => setPlanForm({ ...planForm, name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Description</label>
+                <input
+                  type="text"
+                  value={planForm.description || ''}
+                  onChange={(e) => setPlanForm({ ...planForm, description: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Device Price Ranges</label>
+              <div className="space-y-2">
+                {planForm.pricingRanges.map((range, index) => (
+                  <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                    <input
+                      type="number"
+                      min={1}
+                      value={range.start}
+                      onChange={(e) => setRange(index, { start: parseInt(e.target.value) || 0 })}
+                      className={`${inputClass} col-span-2`}
+                      aria-label="From device"
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      value={range.end}
+                      onChange={(e) => setRange(index, { end: parseInt(e.target.value) || 0 })}
+                      className={`${inputClass} col-span-2`}
+                      aria-label="To device"
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={range.price}
+                      onChange={(e) => setRange(index, { price: parseFloat(e.target.value) || 0 })}
+                      className={`${inputClass} col-span-2`}
+                      aria-label="Price per device"
+                    />
+                    <input
+                      type="text"
+                      value={range.description || ''}
+                      placeholder="Label"
+                      onChange={(e) => setRange(index, { description: e.target.value })}
+                      className={`${inputClass} col-span-5`}
+                    />
+                    <button
+                      onClick={() => removeRange(index)}
+                      disabled={planForm.pricingRanges.length === 1}
+                      className="col-span-1 p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md disabled:opacity-30"
+                      title="Remove range"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex items-center justify-between mt-2">
+                <button onClick={addRange} className="text-sm text-blue-600 hover:underline">+ Add range</button>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  e.g. 12 devices: {formatMoney(priceDeviceCount(12, planForm.pricingRanges))}/month
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={planForm.isActive}
+                  onChange={(e) => setPlanForm({ ...planForm, isActive: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Active (available for new businesses)</span>
+              </label>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setEditingPlan(null)}
+                  disabled={saving}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={savePlan}
+                  disabled={saving || !planForm.name.trim() || planForm.pricingRanges.length === 0}
+                  className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4" />
+                  <span>{saving ? 'Saving...' : 'Save'}</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {plans.length === 0 && (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No plans yet.</p>
+          )}
+          {plans.map(plan => (
+            <div key={plan.id} className="p-6 flex items-start justify-between">
+              <div>
+                <div className="flex items-center space-x-3">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{plan.name}</h3>
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                    plan.is_active
+                      ? 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200'
+                      : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
+                  }`}>
+                    {plan.is_active ? 'Active' : 'Inactive'}
+                  </span>
+                </div>
+                {plan.description && <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{plan.description}</p>}
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{describeRanges(plan.pricing_ranges)}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                  {plan.open_subscription_count} business{plan.open_subscription_count === 1 ? '' : 'es'}
+                </p>
+              </div>
+              {canManage && (
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => openPlan(plan)}
+                    className="p-2 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md"
+                    title="Edit"
+                  >
+                    <Edit2 className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => deletePlan(plan)}
+                    className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {preview && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white dark:bg-gray-800 rounded-lg max-w-2xl w-full p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">{preview.subscription.business_name}</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Month to date: {preview.data.periodStart} – {preview.data.periodEnd}
+                </p>
+              </div>
+              <button onClick={() => setPreview(null)} className="p-2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            {preview.data.lineItems.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Nothing billable so far this month.</p>
+            ) : (
+              <InvoiceLineItemsTable
+                isDark={isDark}
+                lineItems={preview.data.lineItems.map(item => ({
+                  description: item.description,
+                  item_type: item.itemType,
+                  quantity: item.quantity,
+                  unit_price: item.unitPrice,
+                  amount: item.amount,
+                  taxable: item.taxable,
+                }))}
+              />
+            )}
+
+            <div className="mt-4 space-y-1 text-sm text-right text-gray-700 dark:text-gray-300">
+              <p>Subtotal: {formatMoney(preview.data.subtotal)}</p>
+              <p>Tax: {formatMoney(preview.data.taxAmount)}</p>
+              <p className="font-semibold text-gray-900 dark:text-white">Total so far: {formatMoney(preview.data.totalAmount)}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminManagedServices;
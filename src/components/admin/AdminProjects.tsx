@@ -0,0 +1,660 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, CheckCircle, Edit2, FolderKanban, Link2, Plus, Save, Trash2, X } from 'lucide-react';
+import { usePermission } from '../../hooks/usePermission';
+import { useTheme } from '../../contexts/ThemeContext';
+import {
+  projectService,
+  formatBudget,
+  BudgetVsActual,
+  Project,
+  ProjectMilestone,
+  ProjectOptions,
+  ProjectStatus,
+  ProjectSummary,
+  SaveMilestoneInput,
+  SaveProjectInput,
+  PROJECT_STATUS_LABELS,
+} from '../../services/projectService';
+import ProjectTimeline from '../shared/ProjectTimeline';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+const cardClass = 'bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700';
+const cellClass = 'px-4 py-3 text-sm text-gray-700 dark:text-gray-300';
+const headerClass = 'px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider';
+const primaryButtonClass = 'flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50';
+const cancelButtonClass = 'px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors';
+
+const statusClasses: Record<ProjectStatus, string> = {
+  planning: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  active: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  on_hold: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  completed: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  cancelled: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const emptyProject: SaveProjectInput = {
+  businessId: '',
+  name: '',
+  description: '',
+  status: 'planning',
+  startDate: null,
+  targetEndDate: null,
+  budgetedHours: null,
+  technicianIds: [],
+};
+
+const emptyMilestone: SaveMilestoneInput = {
+  name: '',
+  description: '',
+  startDate: null,
+  dueDate: null,
+  budgetedHours: null,
+  completed: false,
+};
+
+const projectToInput = (p: Project): SaveProjectInput => ({
+  businessId: p.business_id,
+  name: p.name,
+  description: p.description,
+  status: p.status,
+  startDate: p.start_date,
+  targetEndDate: p.target_end_date,
+  budgetedHours: p.budgeted_hours === null ? null : Number(p.budgeted_hours),
+  technicianIds: p.technicians.map(t => t.id),
+});
+
+const milestoneToInput = (m: ProjectMilestone): SaveMilestoneInput => ({
+  name: m.name,
+  description: m.description,
+  startDate: m.start_date,
+  dueDate: m.due_date,
+  budgetedHours: m.budgeted_hours === null ? null : Number(m.budgeted_hours),
+  completed: !!m.completed_at,
+});
+
+const parseHours = (value: string): number | null => (value === '' ? null : Number(value));
+
+const StatusBadge: React.FC<{ status: ProjectStatus }> = ({ status }) => (
+  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusClasses[status]}`}>
+    {PROJECT_STATUS_LABELS[status]}
+  </span>
+);
+
+const BudgetCell: React.FC<{ budget: BudgetVsActual }> = ({ budget }) => (
+  <span className={budget.overBudget ? 'text-red-600 dark:text-red-400 font-medium' : undefined}>
+    {formatBudget(budget)}
+    {budget.percentUsed !== null && ` (${budget.percentUsed}%)`}
+  </span>
+);
+
+/**
+ * Projects: larger jobs for a business split into milestones, each with
+ * dates, budgeted hours and the service requests doing the work. Time
+ * logged on those requests is compared against the budget, and the
+ * milestones are laid out on a timeline. Clients see their projects
+ * read-only in the portal.
+ */
+const AdminProjects: React.FC = () => {
+  const { checkPermission } = usePermission();
+  const { isDark } = useTheme();
+  const canManage = checkPermission('manage.projects.enable');
+
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [options, setOptions] = useState<ProjectOptions>({ businesses: [], technicians: [], statuses: [] });
+  const [statusFilter, setStatusFilter] = useState<ProjectStatus | ''>('');
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [selected, setSelected] = useState<Project | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // null = closed, 'new' = creating, otherwise the id being edited
+  const [editingProject, setEditingProject] = useState<string | null>(null);
+  const [projectForm, setProjectForm] = useState<SaveProjectInput>(emptyProject);
+  const [editingMilestone, setEditingMilestone] = useState<string | null>(null);
+  const [milestoneForm, setMilestoneForm] = useState<SaveMilestoneInput>(emptyMilestone);
+  const [attachNumbers, setAttachNumbers] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    Promise.all([
+      projectService.listProjects({ status: statusFilter || undefined }),
+      projectService.getOptions(),
+    ])
+      .then(([projectRes, optionRes]) => {
+        setProjects(projectRes.data);
+        setOptions(optionRes.data);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load projects'));
+  }, [statusFilter, refreshKey]);
+
+  const reload = () => setRefreshKey(k => k + 1);
+
+  /** Runs a change that answers with the updated project. */
+  const run = async (action: () => Promise<{ data: Project; message?: string }>, onDone?: () => void) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const response = await action();
+      setSelected(response.data);
+      if (response.message) setMessage(response.message);
+      onDone?.();
+      reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openProject = (project: ProjectSummary) => {
+    setError(null);
+    setMessage(null);
+    setEditingProject(null);
+    setEditingMilestone(null);
+    projectService.getProject(project.id)
+      .then(response => setSelected(response.data))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load project'));
+  };
+
+  const editProject = (project?: Project) => {
+    setEditingProject(project ? project.id : 'new');
+    setProjectForm(project ? projectToInput(project) : emptyProject);
+  };
+
+  const saveProject = () => run(
+    () => editingProject === 'new'
+      ? projectService.createProject(projectForm)
+      : projectService.updateProject(editingProject as string, projectForm),
+    () => setEditingProject(null)
+  );
+
+  const deleteProject = async (project: Project) => {
+    if (!window.confirm(`Delete project "${project.name}"? Its service requests are kept and detached.`)) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await projectService.deleteProject(project.id);
+      setMessage(response.message || null);
+      setSelected(null);
+      reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete project');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleTechnician = (id: string) => {
+    const current = projectForm.technicianIds || [];
+    setProjectForm({
+      ...projectForm,
+      technicianIds: current.includes(id) ? current.filter(t => t !== id) : [...current, id],
+    });
+  };
+
+  const editMilestone = (milestone?: ProjectMilestone) => {
+    setEditingMilestone(milestone ? milestone.id : 'new');
+    setMilestoneForm(milestone ? milestoneToInput(milestone) : emptyMilestone);
+  };
+
+  const saveMilestone = (project: Project) => run(
+    () => editingMilestone === 'new'
+      ? projectService.addMilestone(project.id, milestoneForm)
+      : projectService.updateMilestone(project.id, editingMilestone as string, milestoneForm),
+    () => setEditingMilestone(null)
+  );
+
+  const deleteMilestone = (project: Project, milestone: ProjectMilestone) => {
+    if (!window.confirm(`Delete milestone "${milestone.name}"? Its service requests are kept and detached.`)) return;
+    run(() => projectService.deleteMilestone(project.id, milestone.id));
+  };
+
+  const attachRequest = (project: Project, milestone: ProjectMilestone) => run(
+    () => projectService.attachRequest(project.id, milestone.id, (attachNumbers[milestone.id] || '').trim()),
+    () => setAttachNumbers({ ...attachNumbers, [milestone.id]: '' })
+  );
+
+  const alerts = (
+    <>
+      {error && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">{error}</div>
+      )}
+      {message && (
+        <div className="p-3 rounded-md bg-green-50 dark:bg-green-900/20 text-sm text-green-700 dark:text-green-300">{message}</div>
+      )}
+    </>
+  );
+
+  const projectEditor = editingProject && (
+    <div className="p-6 border-b border-gray-200 dark:border-gray-700 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className={labelClass}>Business</label>
+          <select
+            value={projectForm.businessId}
+            onChange={(e) => setProjectForm({ ...projectForm, businessId: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Select a business</option>
+            {options.businesses.map(b => <option key={b.id} value={b.id}>{b.business_name}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Project Name</label>
+          <input
+            type="text"
+            value={projectForm.name}
+            onChange={(e) => setProjectForm({ ...projectForm, name: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Status</label>
+          <select
+            value={projectForm.status}
+            onChange={(e) => setProjectForm({ ...projectForm, status: e.target.value as ProjectStatus })}
+            className={inputClass}
+          >
+            {options.statuses.map(s => <option key={s} value={s}>{PROJECT_STATUS_LABELS[s]}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className={labelClass}>Start Date</label>
+          <input
+            type="date"
+            value={projectForm.startDate || ''}
+            onChange={(e) => setProjectForm({ ...projectForm, startDate: e.target.value || null })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Target End Date</label>
+          <input
+            type="date"
+            value={projectForm.targetEndDate || ''}
+            onChange={(e) => setProjectForm({ ...projectForm, targetEndDate: e.target.value || null })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Budgeted Hours</label>
+          <input
+            type="number"
+            min={0}
+            step="0.5"
+            value={projectForm.budgetedHours ?? ''}
+            onChange={(e) => setProjectForm({ ...projectForm, budgetedHours: parseHours(e.target.value) })}
+            placeholder="Sum of milestones"
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <div>
+        <label className={labelClass}>Description</label>
+        <textarea
+          rows={2}
+          value={projectForm.description || ''}
+          onChange={(e) => setProjectForm({ ...projectForm, description: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>Technicians</label>
+        <div className="flex flex-wrap gap-2">
+          {options.technicians.map(t => (
+            <label key={t.id} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={(projectForm.technicianIds || []).includes(t.id)}
+                onChange={() => toggleTechnician(t.id)}
+              />
+              {t.name}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="flex justify-end space-x-2">
+        <button onClick={() => setEditingProject(null)} disabled={saving} className={cancelButtonClass}>
+          <X className="h-4 w-4" />
+        </button>
+        <button
+          onClick={saveProject}
+          disabled={saving || !projectForm.businessId || !projectForm.name.trim()}
+          className={primaryButtonClass}
+        >
+          <Save className="h-4 w-4" />
+          <span>{saving ? 'Saving...' : 'Save'}</span>
+        </button>
+      </div>
+    </div>
+  );
+
+  const milestoneEditor = (project: Project) => (
+    <div className="p-4 rounded-md border border-gray-200 dark:border-gray-700 space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <div className="md:col-span-2">
+          <label className={labelClass}>Milestone</label>
+          <input
+            type="text"
+            value={milestoneForm.name}
+            onChange={(e) => setMilestoneForm({ ...milestoneForm, name: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Start Date</label>
+          <input
+            type="date"
+            value={milestoneForm.startDate || ''}
+            onChange={(e) => setMilestoneForm({ ...milestoneForm, startDate: e.target.value || null })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Due Date</label>
+          <input
+            type="date"
+            value={milestoneForm.dueDate || ''}
+            onChange={(e) => setMilestoneForm({ ...milestoneForm, dueDate: e.target.value || null })}
+            className={inputClass}
+          />
+        </div>
+        <div className="md:col-span-2">
+          <label className={labelClass}>Description</label>
+          <input
+            type="text"
+            value={milestoneForm.description || ''}
+            onChange={(e) => setMilestoneForm({ ...milestoneForm, description: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className={labelClass}>Budgeted Hours</label>
+          <input
+            type="number"
+            min={0}
+            step="0.5"
+            value={milestoneForm.budgetedHours ?? ''}
+            onChange={(e) => setMilestoneForm({ ...milestoneForm, budgetedHours: parseHours(e.target.value) })}
+            className={inputClass}
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 md:mt-7">
+          <input
+            type="checkbox"
+            checked={!!milestoneForm.completed}
+            onChange={(e) => setMilestoneForm({ ...milestoneForm, completed: e.target.checked })}
+          />
+          Completed
+        </label>
+      </div>
+      <div className="flex justify-end space-x-2">
+        <button onClick={() => setEditingMilestone(null)} disabled={saving} className={cancelButtonClass}>
+          <X className="h-4 w-4" />
+        </button>
+        <button
+          onClick={() => saveMilestone(project)}
+          disabled={saving || !milestoneForm.name.trim()}
+          className={primaryButtonClass}
+        >
+          <Save className="h-4 w-4" />
+          <span>{saving ? 'Saving...' : 'Save'}</span>
+        </button>
+      </div>
+    </div>
+  );
+
+  if (selected) {
+    const project = selected;
+    return (
+      <div className="space-y-6">
+        <button
+          onClick={() => { setSelected(null); setEditingProject(null); setEditingMilestone(null); setMessage(null); }}
+          className="flex items-center gap-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          All projects
+        </button>
+
+        {alerts}
+
+        <div className={cardClass}>
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-start justify-between gap-4">
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+                {project.name}
+                <StatusBadge status={project.status} />
+              </h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                {project.business_name} • {project.start_date || 'No start date'} – {project.target_end_date || 'No end date'}
+              </p>
+              {project.description && (
+                <p className="text-sm text-gray-700 dark:text-gray-300 mt-2 whitespace-pre-wrap">{project.description}</p>
+              )}
+              <p className="text-sm text-gray-600 dark:text-gray-400 mt-2">
+                Technicians: {project.technicians.length > 0 ? project.technicians.map(t => t.name).join(', ') : 'None assigned'}
+              </p>
+              <p className="text-sm text-gray-700 dark:text-gray-300 mt-1">
+                Hours: <BudgetCell budget={project.budget} />
+                {project.budget.remainingHours !== null && ` • ${project.budget.remainingHours}h remaining`}
+              </p>
+            </div>
+            {canManage && (
+              <div className="flex whitespace-nowrap">
+                <button
+                  onClick={() => editProject(project)}
+                  className="p-2 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md"
+                  title="Edit"
+                >
+                  <Edit2 className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => deleteProject(project)}
+                  disabled={saving}
+                  className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md"
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+          </div>
+
+          {projectEditor}
+
+          <div className="p-6">
+            <ProjectTimeline project={project} isDark={isDark} />
+          </div>
+        </div>
+
+        <div className={cardClass}>
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Milestones</h3>
+            {canManage && (
+              <button onClick={() => editMilestone()} className={primaryButtonClass}>
+                <Plus className="h-4 w-4" />
+                <span>Add Milestone</span>
+              </button>
+            )}
+          </div>
+
+          <div className="p-6 space-y-4">
+            {editingMilestone === 'new' && milestoneEditor(project)}
+            {project.milestones.length === 0 && editingMilestone !== 'new' && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No milestones yet.</p>
+            )}
+            {project.milestones.map(milestone => (
+              editingMilestone === milestone.id ? (
+                <div key={milestone.id}>{milestoneEditor(project)}</div>
+              ) : (
+                <div key={milestone.id} className="rounded-md border border-gray-200 dark:border-gray-700">
+                  <div className="px-4 py-3 flex items-start justify-between gap-4">
+                    <div>
+                      <div className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+                        {milestone.completed_at && <CheckCircle className="h-4 w-4 text-green-600" />}
+                        {milestone.name}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">
+                        {milestone.start_date || '—'} – {milestone.due_date || '—'} • <BudgetCell budget={milestone.budget} />
+                      </div>
+                      {milestone.description && (
+                        <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{milestone.description}</p>
+                      )}
+                    </div>
+                    {canManage && (
+                      <div className="flex whitespace-nowrap">
+                        <button
+                          onClick={() => editMilestone(milestone)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md"
+                          title="Edit"
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => deleteMilestone(project, milestone)}
+                          disabled={saving}
+                          className="p-2 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md"
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  {milestone.requests.length > 0 && (
+                    <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 border-t border-gray-200 dark:border-gray-700">
+                      <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                        {milestone.requests.map(request => (
+                          <tr key={request.id} className={request.is_final_status ? 'opacity-70' : undefined}>
+                            <td className={`${cellClass} font-mono`}>{request.request_number}</td>
+                            <td className={cellClass}>{request.title}</td>
+                            <td className={cellClass}>{request.status}</td>
+                            <td className={cellClass}>{request.assigned_technician || 'Unassigned'}</td>
+                            <td className={`${cellClass} text-right`}>{request.logged_hours}h</td>
+                            <td className={`${cellClass} text-right`}>
+                              {canManage && (
+                                <button
+                                  onClick={() => run(() => projectService.detachRequest(project.id, request.id))}
+                                  disabled={saving}
+                                  className="p-1 text-gray-400 hover:text-red-600"
+                                  title="Detach from project"
+                                >
+                                  <X className="h-4 w-4" />
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+
+                  {canManage && (
+                    <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-700 flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={attachNumbers[milestone.id] || ''}
+                        onChange={(e) => setAttachNumbers({ ...attachNumbers, [milestone.id]: e.target.value })}
+                        placeholder="Request number"
+                        className={`${inputClass} max-w-xs`}
+                      />
+                      <button
+                        onClick={() => attachRequest(project, milestone)}
+                        disabled={saving || !(attachNumbers[milestone.id] || '').trim()}
+                        className={primaryButtonClass}
+                      >
+                        <Link2 className="h-4 w-4" />
+                        <span>Attach</span>
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )
+            ))}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {alerts}
+
+      <div className={cardClass}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center">
+              <FolderKanban className="h-5 w-5 mr-2 text-blue-600" />
+              Projects
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Multi-visit jobs tracked by milestone. Actual hours are the time logged on the attached service requests.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as ProjectStatus | '')}
+              className={inputClass}
+              aria-label="Status"
+            >
+              <option value="">All statuses</option>
+              {options.statuses.map(s => <option key={s} value={s}>{PROJECT_STATUS_LABELS[s]}</option>)}
+            </select>
+            {canManage && (
+              <button onClick={() => editProject()} className={`${primaryButtonClass} whitespace-nowrap`}>
+                <Plus className="h-4 w-4" />
+                <span>New Project</span>
+              </button>
+            )}
+          </div>
+        </div>
+
+        {projectEditor}
+
+        {projects.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No projects yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+              <thead className="bg-gray-50 dark:bg-gray-700">
+                <tr>
+                  <th className={headerClass}>Project</th>
+                  <th className={headerClass}>Business</th>
+                  <th className={headerClass}>Status</th>
+                  <th className={headerClass}>Dates</th>
+                  <th className={headerClass}>Milestones</th>
+                  <th className={`${headerClass} text-right`}>Requests</th>
+                  <th className={`${headerClass} text-right`}>Hours</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {projects.map(project => (
+                  <tr
+                    key={project.id}
+                    onClick={() => openProject(project)}
+                    className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                  >
+                    <td className={`${cellClass} font-medium text-gray-900 dark:text-white`}>{project.name}</td>
+                    <td className={cellClass}>{project.business_name}</td>
+                    <td className={cellClass}><StatusBadge status={project.status} /></td>
+                    <td className={cellClass}>{project.start_date || '—'} – {project.target_end_date || '—'}</td>
+                    <td className={cellClass}>{project.completed_milestone_count} / {project.milestone_count}</td>
+                    <td className={`${cellClass} text-right`}>{project.request_count}</td>
+                    <td className={`${cellClass} text-right`}><BudgetCell budget={project.budget} /></td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminProjects;
@@ -1,18 +1,306 @@
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { BarChart3, Play, Save, Trash2, Share2, FilePlus, RefreshCw, Mail } from 'lucide-react';
 import { themeClasses } from '../../contexts/ThemeContext';
+import { useEnhancedAuth } from '../../contexts/EnhancedAuthContext';
+import { usePermission } from '../../hooks/usePermission';
+import {
+  reportsService,
+  createDefaultDefinition,
+  ReportDefinition,
+  ReportResult,
+  ReportSource,
+  SavedReport,
+} from '../../services/reportsService';
+import ReportBuilderForm from './reports/ReportBuilderForm';
+import ReportResultView from './reports/ReportResultView';
+import ReportSchedulesPanel from './reports/ReportSchedulesPanel';
+import ReportDeliveryLogs from './reports/ReportDeliveryLogs';
 
+/**
+ * Report builder: saved reports on the left, the definition editor and a
+ * live preview on the right. The server decides which data sources (and
+ * which rows) the current employee can see -- this page only renders what
+ * GET /admin/reports/sources returns.
+ *
+ * Employees with manage.report_schedules.enable can also email saved
+ * reports on a schedule and review the delivery log.
+ */
 const AdminReports: React.FC = () => {
+  const { checkPermission, permissions } = usePermission();
+  const canViewReports = checkPermission('view.reports.enable');
+  const canManageReports = checkPermission('manage.reports.enable');
+  const canScheduleReports = checkPermission('manage.report_schedules.enable');
+  const { user } = useEnhancedAuth();
+  const currentEmployeeId = user?.id;
 
-  return (
-    <div className="space-y-6">
-      <h1 className={`text-3xl font-bold ${themeClasses.text.primary}`}>Reports & Analytics (Demo)</h1>
+  const [sources, setSources] = useState<ReportSource[]>([]);
+  const [savedReports, setSavedReports] = useState<SavedReport[]>([]);
+  const [selectedReport, setSelectedReport] = useState<SavedReport | null>(null);
+  const [definition, setDefinition] = useState<ReportDefinition | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [result, setResult] = useState<ReportResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<'builder' | 'deliveries'>('builder');
+
+  const loadData = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [sourcesRes, reportsRes] = await Promise.all([reportsService.getSources(), reportsService.list()]);
+      setSources(sourcesRes.data);
+      setSavedReports(reportsRes.data);
+      setDefinition(prev => prev ?? (sourcesRes.data[0] ? createDefaultDefinition(sourcesRes.data[0]) : null));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load reports');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canViewReports) loadData();
+    // permissions is the readiness signal -- it is empty until PermissionContext loads
+  }, [canViewReports, loadData, permissions.length]);
+
+  const runPreview = async (def: ReportDefinition) => {
+    setRunning(true);
+    try {
+      const response = await reportsService.preview(def);
+      setResult(response.data);
+      setError(null);
+    } catch (err) {
+      setResult(null);
+      setError(err instanceof Error ? err.message : 'Failed to run report');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const startNewReport = (source?: ReportSource) => {
+    const target = source ?? sources[0];
+    if (!target) return;
+    setSelectedReport(null);
+    setDefinition(createDefaultDefinition(target));
+    setName('');
+    setDescription('');
+    setIsShared(false);
+    setResult(null);
+  };
 
+  const openReport = (report: SavedReport) => {
+    setSelectedReport(report);
+    setDefinition(report.definition);
+    setName(report.name);
+    setDescription(report.description || '');
+    setIsShared(report.is_shared);
+    runPreview(report.definition);
+  };
+
+  const canEditSelected = !selectedReport || selectedReport.created_by === currentEmployeeId || canManageReports;
+
+  const handleSave = async () => {
+    if (!definition || !name.trim()) {
+      setError('Give the report a name before saving');
+      return;
+    }
+    setSaving(true);
+    try {
+      const input = { name: name.trim(), description, definition, is_shared: isShared };
+      const response = selectedReport
+        ? await reportsService.update(selectedReport.id, input)
+        : await reportsService.create(input);
+      setSelectedReport(response.data);
+      await loadData();
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save report');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedReport || !window.confirm(`Delete report "${selectedReport.name}"?`)) return;
+    try {
+      await reportsService.remove(selectedReport.id);
+      startNewReport();
+      await loadData();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete report');
+    }
+  };
+
+  if (!canViewReports) {
+    return (
       <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg p-6`}>
-        <p className={`${themeClasses.text.secondary}`}>Reports and analytics features coming soon...</p>
-        <p className={`text-sm ${themeClasses.text.muted} mt-2`}>Configure AWS RDS and API Gateway to enable full reporting functionality.</p>
+        <p className={themeClasses.text.secondary}>You do not have permission to view reports.</p>
       </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className={`text-3xl font-bold ${themeClasses.text.primary}`}>Reports & Analytics</h1>
+        <div className="flex items-center gap-2">
+          {canScheduleReports && (
+            <button
+              onClick={() => setView(view === 'builder' ? 'deliveries' : 'builder')}
+              className={`inline-flex items-center px-3 py-2 text-sm rounded-md ${themeClasses.button.secondary}`}
+            >
+              {view === 'builder'
+                ? <><Mail className="w-4 h-4 mr-2" /> Delivery log</>
+                : <><BarChart3 className="w-4 h-4 mr-2" /> Report builder</>}
+            </button>
+          )}
+          <button
+            onClick={loadData}
+            className={`inline-flex items-center px-3 py-2 text-sm rounded-md ${themeClasses.button.secondary}`}
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} /> Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">{error}</div>
+      )}
+
+      {view === 'deliveries' && canScheduleReports ? (
+        <ReportDeliveryLogs />
+      ) : !loading && sources.length === 0 ? (
+        <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg p-6`}>
+          <p className={themeClasses.text.secondary}>
+            Your role does not have access to any report data sources.
+          </p>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+          <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg p-4 lg:col-span-1`}>
+            <div className="flex items-center justify-between mb-3">
+              <h2 className={`text-sm font-semibold ${themeClasses.text.primary}`}>Saved reports</h2>
+              <button onClick={() => startNewReport()} className={themeClasses.text.link} title="New report">
+                <FilePlus className="w-4 h-4" />
+              </button>
+            </div>
+            {savedReports.length === 0 ? (
+              <p className={`text-xs ${themeClasses.text.muted}`}>No saved reports yet.</p>
+            ) : (
+              <ul className="space-y-1">
+                {savedReports.map(report => (
+                  <li key={report.id}>
+                    <button
+                      onClick={() => openReport(report)}
+                      className={`w-full text-left px-2 py-2 rounded-md text-sm ${
+                        selectedReport?.id === report.id ? themeClasses.bg.active : themeClasses.bg.hover
+                      }`}
+                    >
+                      <div className={`flex items-center ${themeClasses.text.primary}`}>
+                        <BarChart3 className="w-4 h-4 mr-2 flex-shrink-0" />
+                        <span className="truncate">{report.name}</span>
+                        {report.is_shared && <Share2 className="w-3 h-3 ml-auto text-blue-500" />}
+                      </div>
+                      {report.created_by !== currentEmployeeId && report.created_by_name && (
+                        <div className={`text-xs ml-6 ${themeClasses.text.muted}`}>by {report.created_by_name}</div>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="lg:col-span-3 space-y-6">
+            {definition && (
+              <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg p-6 space-y-5`}>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <input
+                    className={`px-3 py-2 text-sm border rounded-md ${themeClasses.input}`}
+                    placeholder="Report name"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    disabled={!canEditSelected}
+                  />
+                  <input
+                    className={`px-3 py-2 text-sm border rounded-md ${themeClasses.input}`}
+                    placeholder="Description (optional)"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    disabled={!canEditSelected}
+                  />
+                </div>
+
+                <ReportBuilderForm
+                  sources={sources}
+                  definition={definition}
+                  onChange={setDefinition}
+                  onSourceChange={(source) => {
+                    setDefinition(createDefaultDefinition(source));
+                    setResult(null);
+                  }}
+                />
+
+                <div className={`flex flex-wrap items-center gap-3 pt-4 border-t ${themeClasses.border.primary}`}>
+                  <button
+                    onClick={() => runPreview(definition)}
+                    disabled={running}
+                    className={`inline-flex items-center px-4 py-2 text-sm rounded-md ${themeClasses.button.primary} disabled:opacity-50`}
+                  >
+                    <Play className="w-4 h-4 mr-2" /> {running ? 'Running…' : 'Preview'}
+                  </button>
+                  {canEditSelected && (
+                    <>
+                      <button
+                        onClick={handleSave}
+                        disabled={saving}
+                        className={`inline-flex items-center px-4 py-2 text-sm rounded-md ${themeClasses.button.secondary} disabled:opacity-50`}
+                      >
+                        <Save className="w-4 h-4 mr-2" /> {selectedReport ? 'Save changes' : 'Save report'}
+                      </button>
+                      <label className={`inline-flex items-center text-sm ${themeClasses.text.secondary}`}>
+                        <input
+                          type="checkbox"
+                          className="mr-2"
+                          checked={isShared}
+                          onChange={(e) => setIsShared(e.target.checked)}
+                        />
+                        Share with other employees
+                      </label>
+                    </>
+                  )}
+                  {selectedReport && canEditSelected && (
+                    <button
+                      onClick={handleDelete}
+                      className={`inline-flex items-center px-4 py-2 text-sm rounded-md ml-auto ${themeClasses.button.danger}`}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" /> Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {result && (
+              <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg p-6`}>
+                <ReportResultView result={result} chartType={definition?.chartType ?? 'table'} />
+              </div>
+            )}
+
+            {selectedReport && canScheduleReports && (
+              <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg p-6`}>
+                <ReportSchedulesPanel key={selectedReport.id} reportId={selectedReport.id} />
+              </div>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
 
-export default AdminReports;
\ No newline at end of file
+export default AdminReports;
@@ -7,13 +7,20 @@ import {
   Calendar,
   CheckCircle,
   XCircle,
-  Pause
+  Pause,
+  FileSignature,
+  ChevronDown,
+  ChevronUp,
+  ListChecks,
+  Plus
 } from 'lucide-react';
 import { useTheme, themeClasses } from '../../contexts/ThemeContext';
 import { useEnhancedAuth } from '../../contexts/EnhancedAuthContext';
 import { usePermission } from '../../hooks/usePermission';
 import { RoleBasedStorage } from '../../utils/roleBasedStorage';
 import apiService from '../../services/apiService';
+import { serviceRequestChecklistService } from '../../services/serviceRequestChecklistService';
+import { RelatedRequest } from '../../services/serviceRequestRelationService';
 import { getUserTimezone, getUserTimeFormat, formatDateInUserTimezone, formatTimeOnly } from '../../utils/timezoneUtils';
 import { websocketService } from '../../services/websocketService';
 import { useFileUploadWithProgress } from '../../hooks/useFileUploadWithProgress';
@@ -25,8 +32,8 @@ import {
   ClosureReason,
   ServiceRequestFile,
   ServiceRequestNote,
-  Invoice,
-  CompanyInfo,
+  NewNoteType,
+  InvoiceViewerData,
   ServiceRequestNotesSection,
   ServiceRequestFilesSection,
   FilterBar,
@@ -38,7 +45,10 @@ import {
   CloseConfirmationModal,
   ServiceRequestDetailModal,
   ServiceRequestsTable,
-  ServiceRequestsMobileView
+  ServiceRequestsMobileView,
+  QuotesPanel,
+  NewServiceRequestModal,
+  RequestTemplatesPanel
 } from './AdminServiceRequests_Modals';
 import AdminRescheduleModal from './AdminServiceRequests_Modals/AdminRescheduleModal';
 
@@ -74,6 +84,13 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
   const { user } = useEnhancedAuth();
   const { checkPermission } = usePermission();
   const canViewCosts = checkPermission('view.service_request_costs.enable');
+  const canViewQuotes = checkPermission('view.quotes.enable');
+  const canManageQuotes = checkPermission('manage.quotes.enable');
+  const [showQuotes, setShowQuotes] = useState(false);
+  const canCreateRequests = checkPermission('create.service_requests.enable');
+  const canManageTemplates = checkPermission('manage.service_request_templates.enable');
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showNewRequest, setShowNewRequest] = useState(false);
   const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
 
   // Use props or local state for backward compatibility
@@ -101,6 +118,8 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
   const [resolutionSummary, setResolutionSummary] = useState<string>('');
   const [actualDurationMinutes, setActualDurationMinutes] = useState<string>('');
   const [equipmentUsed, setEquipmentUsed] = useState<string>('');
+  const [incompleteChecklistItems, setIncompleteChecklistItems] = useState<string[]>([]);
+  const [checklistOverrideReason, setChecklistOverrideReason] = useState<string>('');
   const [timeBreakdown, setTimeBreakdown] = useState<{
     isFirstServiceRequest: boolean;
     waivedHours: string;
@@ -123,7 +142,7 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
   // Invoice state
   const [selectedInvoiceId, setSelectedInvoiceId] = useState<string | null>(null);
   const [showInvoiceModal, setShowInvoiceModal] = useState(false);
-  const [invoiceData, setInvoiceData] = useState<{ invoice: Invoice; companyInfo: CompanyInfo } | null>(null);
+  const [invoiceData, setInvoiceData] = useState<InvoiceViewerData | null>(null);
   const [loadingInvoice, setLoadingInvoice] = useState(false);
 
   // Files and Notes state
@@ -133,7 +152,9 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
   const [requestNotes, setRequestNotes] = useState<ServiceRequestNote[]>([]);
   const [loadingNotes, setLoadingNotes] = useState(false);
   const [newNoteText, setNewNoteText] = useState('');
+  const [newNoteType, setNewNoteType] = useState<NewNoteType>('employee_note');
   const [submittingNote, setSubmittingNote] = useState(false);
+  const [resendingNoteId, setResendingNoteId] = useState<string | null>(null);
   const [newlyReceivedNoteId, setNewlyReceivedNoteId] = useState<string | null>(null);
   const [lastSubmittedNoteId, setLastSubmittedNoteId] = useState<string | null>(null);
   const lastSubmittedNoteIdRef = useRef<string | null>(null);
@@ -420,6 +441,11 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
         }
       }
 
+      // A client reply's delivery status changed (e.g. a retried email)
+      if (change.entityType === 'serviceRequest' && change.noteUpdated && change.note && selectedRequest && change.entityId === selectedRequest.id) {
+        setRequestNotes(prev => prev.map(n => (n.id === change.note.id ? { ...n, ...change.note } : n)));
+      }
+
       // If files were uploaded to the currently selected request, refresh the files list
       if (change.entityType === 'serviceRequest' && change.filesUploaded && selectedRequest && change.entityId === selectedRequest.id) {
         console.log(`📎 Files uploaded to current service request (${change.fileCount} files)...`);
@@ -657,6 +683,19 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
     }
   };
 
+  // Required checklist steps still unchecked, shown when completing a request
+  const fetchIncompleteChecklistItems = async (requestId: string) => {
+    try {
+      const response = await serviceRequestChecklistService.getChecklist(requestId);
+      setIncompleteChecklistItems(
+        response.data.items.filter(item => item.is_required && !item.completed_at).map(item => item.item_text)
+      );
+    } catch (err) {
+      console.error('Error fetching checklist:', err);
+      setIncompleteChecklistItems([]);
+    }
+  };
+
   // Handle technician assignment
   const handleAssignTechnician = async () => {
     if (!selectedRequest || !selectedTechnicianId) return;
@@ -874,7 +913,8 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
         closureReasonId: selectedClosureReasonId,
         resolutionSummary,
         actualDurationMinutes: actualDurationMinutes ? parseInt(actualDurationMinutes) : undefined,
-        equipmentUsed: equipmentUsed || undefined
+        equipmentUsed: equipmentUsed || undefined,
+        checklistOverrideReason: incompleteChecklistItems.length > 0 ? checklistOverrideReason : undefined
       });
 
       if (response.success) {
@@ -885,6 +925,8 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
         setResolutionSummary('');
         setActualDurationMinutes('');
         setEquipmentUsed('');
+        setIncompleteChecklistItems([]);
+        setChecklistOverrideReason('');
         setSelectedRequest(null);
       } else {
         throw new Error(response.message || 'Failed to close service request');
@@ -986,7 +1028,7 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
       // Use apiService to handle CSRF properly
       const response = await apiService.post(
         `/admin/service-requests/${selectedRequest.id}/notes`,
-        { noteText: newNoteText.trim() }
+        { noteText: newNoteText.trim(), noteType: newNoteType }
       );
 
       if (response.success) {
@@ -1003,6 +1045,7 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
           return [response.data.note, ...prev];
         });
         setNewNoteText('');
+        setNewNoteType('employee_note');
       } else {
         throw new Error(response.message || 'Failed to submit note');
       }
@@ -1014,6 +1057,39 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
     }
   };
 
+  // This request was merged into another: its notes and files moved there
+  const handleRequestMerged = (target: RelatedRequest) => {
+    if (!selectedRequest) return;
+    fetchRequestNotes(selectedRequest.id);
+    fetchRequestFiles(selectedRequest.id);
+    fetchServiceRequests();
+    alert(`Merged into ${target.request_number}.`);
+  };
+
+  // Retry emailing a client reply whose delivery failed
+  const resendReply = async (noteId: string) => {
+    if (!selectedRequest) return;
+
+    try {
+      setResendingNoteId(noteId);
+      const response = await apiService.post<{ success: boolean; message?: string; data: { note: ServiceRequestNote } }>(
+        `/admin/service-requests/${selectedRequest.id}/notes/${noteId}/resend`,
+        {}
+      );
+
+      if (response.success) {
+        setRequestNotes(prev => prev.map(n => (n.id === noteId ? { ...n, ...response.data.note } : n)));
+      } else {
+        throw new Error(response.message || 'Failed to resend reply');
+      }
+    } catch (err) {
+      console.error('Error resending reply:', err);
+      alert('Failed to resend reply. Please try again.');
+    } finally {
+      setResendingNoteId(null);
+    }
+  };
+
   // Handle title/description editing
   const startEditTitle = () => {
     if (selectedRequest) {
@@ -1141,6 +1217,7 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
     setShowCloseConfirmation(false);
     // Clear any pending changes
     setNewNoteText('');
+    setNewNoteType('employee_note');
     setEditingTitle(false);
     setEditingDescription(false);
   };
@@ -1285,6 +1362,7 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
   const handleViewRequest = (request: ServiceRequest) => {
     setSelectedRequest(request);
     setNewNoteText('');
+    setNewNoteType('employee_note');
     setActionError(null);
 
     // Always fetch files (don't rely on file_count as it may be stale)
@@ -1526,16 +1604,62 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div className="flex items-center space-x-3">
-        <ClipboardList className={`h-8 w-8 ${themeClasses.text.primary}`} />
-        <div>
-          <h1 className={`text-3xl font-bold ${themeClasses.text.primary}`}>Service Requests</h1>
-          <p className={`text-sm ${themeClasses.text.muted}`}>
-            {pagination.totalCount} total requests
-          </p>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <ClipboardList className={`h-8 w-8 ${themeClasses.text.primary}`} />
+          <div>
+            <h1 className={`text-3xl font-bold ${themeClasses.text.primary}`}>Service Requests</h1>
+            <p className={`text-sm ${themeClasses.text.muted}`}>
+              {pagination.totalCount} total requests
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          {canManageTemplates && (
+            <button
+              onClick={() => setShowTemplates(!showTemplates)}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${themeClasses.bg.hover} ${themeClasses.text.primary} transition-colors`}
+            >
+              <ListChecks className="h-5 w-5" />
+              <span>Templates</span>
+              {showTemplates ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </button>
+          )}
+          {canViewQuotes && (
+            <button
+              onClick={() => setShowQuotes(!showQuotes)}
+              className={`flex items-center space-x-2 px-4 py-2 rounded-lg ${themeClasses.bg.hover} ${themeClasses.text.primary} transition-colors`}
+            >
+              <FileSignature className="h-5 w-5" />
+              <span>Quotes</span>
+              {showQuotes ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+            </button>
+          )}
+          {canCreateRequests && (
+            <button
+              onClick={() => setShowNewRequest(true)}
+              className="flex items-center space-x-2 px-4 py-2 rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-5 w-5" />
+              <span>New Request</span>
+            </button>
+          )}
         </div>
       </div>
 
+      {canManageTemplates && showTemplates && <RequestTemplatesPanel />}
+      {canViewQuotes && showQuotes && <QuotesPanel canManage={canManageQuotes} />}
+
+      {showNewRequest && (
+        <NewServiceRequestModal
+          onClose={() => setShowNewRequest(false)}
+          onCreated={() => {
+            setShowNewRequest(false);
+            fetchServiceRequests();
+          }}
+        />
+      )}
+
       {/* Filters (Hidden on mobile) */}
       <FilterBar
         filters={filters}
@@ -1643,7 +1767,9 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
           requestNotes={requestNotes}
           loadingNotes={loadingNotes}
           newNoteText={newNoteText}
+          newNoteType={newNoteType}
           submittingNote={submittingNote}
+          resendingNoteId={resendingNoteId}
           editingTitle={editingTitle}
           editingDescription={editingDescription}
           editedTitle={editedTitle}
@@ -1661,12 +1787,18 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
           apiBaseUrl={API_BASE_URL}
           canViewCosts={canViewCosts}
           canCompleteRequest={canCompleteRequest(selectedRequest)}
+          canCheckChecklist={!!user && selectedRequest.assigned_technician_id === user.id}
+          canEditChecklist={checkPermission('modify.service_requests.enable')}
+          canEditRelations={checkPermission('modify.service_requests.enable')}
           isDark={isDark}
           userTimeFormatPreference={(user?.timeFormatPreference as '12h' | '24h') || '12h'}
           newlyReceivedNoteId={newlyReceivedNoteId}
           onClose={handleCloseDetailModal}
           onNewNoteChange={setNewNoteText}
           onSubmitNote={submitNote}
+          onNewNoteTypeChange={setNewNoteType}
+          onResendReply={resendReply}
+          onMerged={handleRequestMerged}
           onStartEditTitle={startEditTitle}
           onStartEditDescription={startEditDescription}
           onCancelEditTitle={cancelEditTitle}
@@ -1687,6 +1819,7 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
             setActionError(null);
             if (selectedRequest?.id) {
               fetchTimeBreakdown(selectedRequest.id);
+              fetchIncompleteChecklistItems(selectedRequest.id);
             }
           }}
           onShowStatusModal={() => {
@@ -1774,6 +1907,8 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
         resolutionSummary={resolutionSummary}
         actualDurationMinutes={actualDurationMinutes}
         equipmentUsed={equipmentUsed}
+        incompleteChecklistItems={incompleteChecklistItems}
+        checklistOverrideReason={checklistOverrideReason}
         timeBreakdown={timeBreakdown}
         actionLoading={actionLoading}
         actionError={actionError}
@@ -1781,6 +1916,7 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
         onResolutionSummaryChange={setResolutionSummary}
         onActualDurationChange={setActualDurationMinutes}
         onEquipmentUsedChange={setEquipmentUsed}
+        onChecklistOverrideReasonChange={setChecklistOverrideReason}
         onComplete={handleCloseRequest}
         onClose={() => {
           setShowCloseModal(false);
@@ -1788,6 +1924,8 @@ const AdminServiceRequests: React.FC<AdminServiceRequestsProps> = ({
           setResolutionSummary('');
           setActualDurationMinutes('');
           setEquipmentUsed('');
+          setIncompleteChecklistItems([]);
+          setChecklistOverrideReason('');
           setActionError(null);
         }}
         formatDuration={formatDuration}
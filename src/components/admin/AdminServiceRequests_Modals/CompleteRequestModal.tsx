@@ -27,6 +27,9 @@ interface CompleteRequestModalProps {
   resolutionSummary: string;
   actualDurationMinutes: string;
   equipmentUsed: string;
+  /** Required checklist steps still unchecked; closing needs an override reason */
+  incompleteChecklistItems: string[];
+  checklistOverrideReason: string;
   timeBreakdown: TimeBreakdown | null;
   actionLoading: boolean;
   actionError: string | null;
@@ -34,6 +37,7 @@ interface CompleteRequestModalProps {
   onResolutionSummaryChange: (summary: string) => void;
   onActualDurationChange: (duration: string) => void;
   onEquipmentUsedChange: (equipment: string) => void;
+  onChecklistOverrideReasonChange: (reason: string) => void;
   onComplete: () => void;
   onClose: () => void;
   formatDuration: (minutes: number | null) => string;
@@ -47,6 +51,8 @@ const CompleteRequestModal: React.FC<CompleteRequestModalProps> = ({
   resolutionSummary,
   actualDurationMinutes,
   equipmentUsed,
+  incompleteChecklistItems,
+  checklistOverrideReason,
   timeBreakdown,
   actionLoading,
   actionError,
@@ -54,6 +60,7 @@ const CompleteRequestModal: React.FC<CompleteRequestModalProps> = ({
   onResolutionSummaryChange,
   onActualDurationChange,
   onEquipmentUsedChange,
+  onChecklistOverrideReasonChange,
   onComplete,
   onClose,
   formatDuration
@@ -63,6 +70,7 @@ const CompleteRequestModal: React.FC<CompleteRequestModalProps> = ({
   // Check if selected closure reason is "Complete" - only show billing for completed requests
   const selectedReason = closureReasons.find(r => r.id === selectedClosureReasonId);
   const isCompleteReason = selectedReason?.reason?.toLowerCase() === 'complete';
+  const needsOverride = incompleteChecklistItems.length > 0 && !checklistOverrideReason.trim();
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -263,10 +271,34 @@ const CompleteRequestModal: React.FC<CompleteRequestModalProps> = ({
             />
           </div>
 
+          {/* Unchecked required checklist steps */}
+          {incompleteChecklistItems.length > 0 && (
+            <div className="mb-6 p-4 bg-orange-50 dark:bg-orange-900/20 border border-orange-200 dark:border-orange-800 rounded-lg">
+              <p className="text-sm font-medium text-orange-800 dark:text-orange-300 mb-2">
+                {incompleteChecklistItems.length} required checklist step{incompleteChecklistItems.length === 1 ? ' is' : 's are'} not checked off:
+              </p>
+              <ul className="list-disc list-inside text-sm text-orange-800 dark:text-orange-300 mb-3">
+                {incompleteChecklistItems.map((item, index) => (
+                  <li key={index}>{item}</li>
+                ))}
+              </ul>
+              <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>
+                Reason to close anyway *
+              </label>
+              <textarea
+                value={checklistOverrideReason}
+                onChange={(e) => onChecklistOverrideReasonChange(e.target.value)}
+                maxLength={1000}
+                rows={2}
+                className={`w-full px-3 py-2 rounded-lg ${themeClasses.input} resize-none`}
+              />
+            </div>
+          )}
+
           <div className="flex space-x-3">
             <button
               onClick={onComplete}
-              disabled={!selectedClosureReasonId || !resolutionSummary || actionLoading}
+              disabled={!selectedClosureReasonId || !resolutionSummary || needsOverride || actionLoading}
               className="flex-1 px-4 py-2 bg-teal-600 text-white rounded-lg hover:bg-teal-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {actionLoading ? 'Completing...' : 'Complete Request'}
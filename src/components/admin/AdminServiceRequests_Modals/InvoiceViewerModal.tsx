@@ -1,12 +1,13 @@
 import React from 'react';
 import { XCircle, Download } from 'lucide-react';
 import { useTheme, themeClasses } from '../../../contexts/ThemeContext';
-import { Invoice, CompanyInfo } from './types';
+import InvoiceLineItemsTable from '../../shared/InvoiceLineItemsTable';
+import { InvoiceViewerData } from './types';
 
 interface InvoiceViewerModalProps {
   show: boolean;
   selectedInvoiceId: string | null;
-  invoiceData: { invoice: Invoice; companyInfo: CompanyInfo } | null;
+  invoiceData: InvoiceViewerData | null;
   loadingInvoice: boolean;
   formatDate: (isoString: string | null) => string;
   onClose: () => void;
@@ -20,6 +21,8 @@ const InvoiceViewerModal: React.FC<InvoiceViewerModalProps> = ({
   formatDate,
   onClose
 }) => {
+  const { isDark } = useTheme();
+
   if (!show || !selectedInvoiceId) return null;
 
   return (
@@ -148,107 +151,13 @@ const InvoiceViewerModal: React.FC<InvoiceViewerModalProps> = ({
               )}
             </div>
 
-            {/* Billable Hours Breakdown */}
+            {/* Line Items */}
             <div className="mb-6">
-              <h3 className={`text-lg font-semibold ${themeClasses.text.primary} mb-3`}>Time & Cost Breakdown</h3>
-
-              {/* First-time Client Discount */}
-              {invoiceData.invoice.is_first_service_request && invoiceData.invoice.waived_hours > 0 && (
-                <div className={`mb-4 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg`}>
-                  <div className="flex justify-between items-center">
-                    <span className={`font-medium ${themeClasses.text.primary}`}>
-                      New Client Assessment - Waived
-                    </span>
-                    <span className={`font-semibold text-green-600 dark:text-green-400`}>
-                      {invoiceData.invoice.waived_hours.toFixed(2)} hours
-                    </span>
-                  </div>
-                </div>
-              )}
-
-              {/* Billable Hours Table */}
-              <div className={`overflow-hidden border ${themeClasses.border} rounded-lg`}>
-                <table className="w-full">
-                  <thead className={`${themeClasses.bg.secondary}`}>
-                    <tr>
-                      <th className={`px-4 py-3 text-left text-sm font-semibold ${themeClasses.text.primary}`}>
-                        Rate Tier
-                      </th>
-                      <th className={`px-4 py-3 text-right text-sm font-semibold ${themeClasses.text.primary}`}>
-                        Hours
-                      </th>
-                      <th className={`px-4 py-3 text-right text-sm font-semibold ${themeClasses.text.primary}`}>
-                        Rate
-                      </th>
-                      <th className={`px-4 py-3 text-right text-sm font-semibold ${themeClasses.text.primary}`}>
-                        Amount
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className={`divide-y ${themeClasses.border}`}>
-                    {/* Standard Hours */}
-                    {invoiceData.invoice.standard_hours > 0 && (
-                      <tr>
-                        <td className={`px-4 py-3 text-sm ${themeClasses.text.primary}`}>
-                          Standard (1.0x)
-                          <div className={`text-xs ${themeClasses.text.muted}`}>Mon-Fri 8am-5pm</div>
-                        </td>
-                        <td className={`px-4 py-3 text-sm text-right ${themeClasses.text.primary}`}>
-                          {invoiceData.invoice.standard_hours.toFixed(2)}
-                        </td>
-                        <td className={`px-4 py-3 text-sm text-right ${themeClasses.text.primary}`}>
-                          ${invoiceData.invoice.standard_rate.toFixed(2)}
-                        </td>
-                        <td className={`px-4 py-3 text-sm text-right font-semibold ${themeClasses.text.primary}`}>
-                          ${invoiceData.invoice.standard_cost.toFixed(2)}
-                        </td>
-                      </tr>
-                    )}
-
-                    {/* Premium Hours */}
-                    {invoiceData.invoice.premium_hours > 0 && (
-                      <tr>
-                        <td className={`px-4 py-3 text-sm ${themeClasses.text.primary}`}>
-                          Premium (1.5x)
-                          <div className={`text-xs ${themeClasses.text.muted}`}>Weekends</div>
-                        </td>
-                        <td className={`px-4 py-3 text-sm text-right ${themeClasses.text.primary}`}>
-                          {invoiceData.invoice.premium_hours.toFixed(2)}
-                        </td>
-                        <td className={`px-4 py-3 text-sm text-right ${themeClasses.text.primary}`}>
-                          ${invoiceData.invoice.premium_rate.toFixed(2)}
-                        </td>
-                        <td className={`px-4 py-3 text-sm text-right font-semibold ${themeClasses.text.primary}`}>
-                          ${invoiceData.invoice.premium_cost.toFixed(2)}
-                        </td>
-                      </tr>
-                    )}
-
-                    {/* Emergency Hours */}
-                    {invoiceData.invoice.emergency_hours > 0 && (
-                      <tr>
-                        <td className={`px-4 py-3 text-sm ${themeClasses.text.primary}`}>
-                          Emergency (2.0x)
-                          <div className={`text-xs ${themeClasses.text.muted}`}>Late night/overnight</div>
-                        </td>
-                        <td className={`px-4 py-3 text-sm text-right ${themeClasses.text.primary}`}>
-                          {invoiceData.invoice.emergency_hours.toFixed(2)}
-                        </td>
-                        <td className={`px-4 py-3 text-sm text-right ${themeClasses.text.primary}`}>
-                          ${invoiceData.invoice.emergency_rate.toFixed(2)}
-                        </td>
-                        <td className={`px-4 py-3 text-sm text-right font-semibold ${themeClasses.text.primary}`}>
-                          ${invoiceData.invoice.emergency_cost.toFixed(2)}
-                        </td>
-                      </tr>
-                    )}
-                  </tbody>
-                </table>
-              </div>
-
-              <div className={`text-xs ${themeClasses.text.muted} mt-2 italic`}>
-                * Final end time rounded up to nearest 15 minutes. Exact hours billed per tier.
-              </div>
+              <InvoiceLineItemsTable
+                lineItems={invoiceData.lineItems || []}
+                isDark={isDark}
+                showTaxable={invoiceData.invoice.tax_rate > 0}
+              />
             </div>
 
             {/* Totals */}
@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { ListChecks, X } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import {
+  serviceRequestTemplateService,
+  NewRequestBusinessOptions,
+  NewRequestOptions,
+  ServiceRequestTemplate
+} from '../../../services/serviceRequestTemplateService';
+
+interface NewServiceRequestModalProps {
+  onClose: () => void;
+  onCreated: (message: string) => void;
+}
+
+/**
+ * Open a service request on behalf of a client contact, optionally from a
+ * template for the chosen service type. Picking a template fills in the
+ * title, description, duration and urgency, which can still be edited.
+ */
+const NewServiceRequestModal: React.FC<NewServiceRequestModalProps> = ({ onClose, onCreated }) => {
+  const [options, setOptions] = useState<NewRequestOptions | null>(null);
+  const [businessOptions, setBusinessOptions] = useState<NewRequestBusinessOptions | null>(null);
+  const [templates, setTemplates] = useState<ServiceRequestTemplate[]>([]);
+  const [businessId, setBusinessId] = useState('');
+  const [serviceLocationId, setServiceLocationId] = useState('');
+  const [clientId, setClientId] = useState('');
+  const [serviceTypeId, setServiceTypeId] = useState('');
+  const [templateId, setTemplateId] = useState('');
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [urgencyLevelId, setUrgencyLevelId] = useState('');
+  const [priorityLevelId, setPriorityLevelId] = useState('');
+  const [requestedAt, setRequestedAt] = useState('');
+  const [durationHours, setDurationHours] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    serviceRequestTemplateService.getNewRequestOptions()
+      .then(response => {
+        setOptions(response.data);
+        setUrgencyLevelId(response.data.urgencyLevels[0]?.id || '');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load request options'));
+  }, []);
+
+  useEffect(() => {
+    if (!businessId) {
+      setBusinessOptions(null);
+      return;
+    }
+    serviceRequestTemplateService.getNewRequestBusinessOptions(businessId)
+      .then(response => {
+        setBusinessOptions(response.data);
+        setServiceLocationId(response.data.locations[0]?.id || '');
+        setClientId(response.data.contacts[0]?.id || '');
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the business'));
+  }, [businessId]);
+
+  useEffect(() => {
+    setTemplateId('');
+    if (!serviceTypeId) {
+      setTemplates([]);
+      return;
+    }
+    serviceRequestTemplateService.listTemplates({ serviceTypeId, activeOnly: true })
+      .then(response => setTemplates(response.data))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load templates'));
+  }, [serviceTypeId]);
+
+  const template = templates.find(t => t.id === templateId) || null;
+
+  const handleTemplateChange = (id: string) => {
+    setTemplateId(id);
+    const picked = templates.find(t => t.id === id);
+    if (!picked) return;
+    setTitle(picked.title);
+    setDescription(picked.description || '');
+    if (picked.estimated_duration_minutes) setDurationHours(String(picked.estimated_duration_minutes / 60));
+    if (picked.urgency_level_id) setUrgencyLevelId(picked.urgency_level_id);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const response = await serviceRequestTemplateService.createServiceRequest({
+        business_id: businessId,
+        client_id: clientId,
+        service_location_id: serviceLocationId,
+        service_type_id: serviceTypeId || null,
+        template_id: templateId || null,
+        title: title.trim(),
+        description: description.trim(),
+        urgency_level_id: urgencyLevelId || null,
+        priority_level_id: priorityLevelId || null,
+        requested_datetime: requestedAt ? new Date(requestedAt).toISOString() : null,
+        requested_duration_minutes: durationHours ? Math.round(parseFloat(durationHours) * 60) || null : null
+      });
+      onCreated(response.message || `Service request ${response.data.requestNumber} created`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create service request');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canSave = businessId && serviceLocationId && clientId && title.trim() && urgencyLevelId;
+  const inputClass = `w-full px-3 py-2 rounded-lg ${themeClasses.input}`;
+  const labelClass = `block text-sm font-medium ${themeClasses.text.secondary} mb-2`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className={`${themeClasses.bg.card} rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto p-6`}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className={`text-xl font-bold ${themeClasses.text.primary}`}>New Service Request</h2>
+          <button onClick={onClose} className={`p-2 rounded-lg ${themeClasses.bg.hover}`}>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className={labelClass}>Business</label>
+            <select value={businessId} onChange={(e) => setBusinessId(e.target.value)} className={inputClass}>
+              <option value="">Select a business...</option>
+              {options?.businesses.map(b => (
+                <option key={b.id} value={b.id}>{b.business_name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Service Location</label>
+            <select
+              value={serviceLocationId}
+              onChange={(e) => setServiceLocationId(e.target.value)}
+              disabled={!businessId}
+              className={inputClass}
+            >
+              <option value="">Select a location...</option>
+              {businessOptions?.locations.map(location => (
+                <option key={location.id} value={location.id}>{location.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Client Contact</label>
+            <select
+              value={clientId}
+              onChange={(e) => setClientId(e.target.value)}
+              disabled={!businessId}
+              className={inputClass}
+            >
+              <option value="">Select a contact...</option>
+              {businessOptions?.contacts.map(contact => (
+                <option key={contact.id} value={contact.id}>{contact.name || contact.email}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className={labelClass}>Service Type</label>
+            <select value={serviceTypeId} onChange={(e) => setServiceTypeId(e.target.value)} className={inputClass}>
+              <option value="">None</option>
+              {options?.serviceTypes.map(type => (
+                <option key={type.id} value={type.id}>{type.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Template</label>
+            <select
+              value={templateId}
+              onChange={(e) => handleTemplateChange(e.target.value)}
+              disabled={templates.length === 0}
+              className={inputClass}
+            >
+              <option value="">{serviceTypeId && templates.length === 0 ? 'No templates for this type' : 'No template'}</option>
+              {templates.map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <label className={labelClass}>Title</label>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            maxLength={255}
+            className={inputClass}
+          />
+        </div>
+
+        <div className="mb-4">
+          <label className={labelClass}>Description</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={4}
+            className={`${inputClass} resize-none`}
+          />
+        </div>
+
+        {template && template.checklist_items.length > 0 && (
+          <div className={`mb-4 p-3 rounded-lg ${themeClasses.bg.secondary}`}>
+            <div className={`flex items-center space-x-2 text-sm font-medium ${themeClasses.text.secondary} mb-2`}>
+              <ListChecks className="h-4 w-4" />
+              <span>Checklist from the template</span>
+            </div>
+            <ol className={`list-decimal list-inside text-sm ${themeClasses.text.primary} space-y-1`}>
+              {template.checklist_items.map((item, index) => (
+                <li key={index}>
+                  {item.text}
+                  {item.required && <span className={`ml-2 text-xs ${themeClasses.text.muted}`}>required</span>}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+          <div>
+            <label className={labelClass}>Urgency</label>
+            <select value={urgencyLevelId} onChange={(e) => setUrgencyLevelId(e.target.value)} className={inputClass}>
+              {options?.urgencyLevels.map(level => (
+                <option key={level.id} value={level.id}>{level.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Priority</label>
+            <select value={priorityLevelId} onChange={(e) => setPriorityLevelId(e.target.value)} className={inputClass}>
+              <option value="">Default</option>
+              {options?.priorityLevels.map(level => (
+                <option key={level.id} value={level.id}>{level.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Requested For</label>
+            <input
+              type="datetime-local"
+              value={requestedAt}
+              onChange={(e) => setRequestedAt(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className={labelClass}>Duration (hours)</label>
+            <input
+              type="number"
+              min="0.5"
+              step="0.5"
+              value={durationHours}
+              onChange={(e) => setDurationHours(e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            onClick={onClose}
+            className={`flex-1 px-4 py-2 ${themeClasses.bg.secondary} ${themeClasses.text.primary} rounded-lg hover:opacity-80`}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !canSave}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Creating...' : 'Create Request'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NewServiceRequestModal;
@@ -0,0 +1,463 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import { previewInvoiceTotals, LineItemType } from '../../../services/invoiceService';
+import {
+  quoteService,
+  Quote,
+  QuoteBusinessOptions,
+  QuoteOptions,
+  SaveQuoteInput
+} from '../../../services/quoteService';
+import { useCurrencyFormatter } from '../../../hooks/useCurrencyFormatter';
+import { formatTaxRate } from '../../../utils/currencyFormatter';
+
+interface QuoteEditorModalProps {
+  /** Quote being edited; omit to draft a new one */
+  quote?: Quote | null;
+  options: QuoteOptions;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+interface LineDraft {
+  itemType: LineItemType;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  taxable: boolean;
+  productRef: string;
+}
+
+const emptyLine: LineDraft = {
+  itemType: 'other',
+  description: '',
+  quantity: '1',
+  unitPrice: '',
+  taxable: true,
+  productRef: ''
+};
+
+const itemTypeLabels: Record<LineItemType, string> = {
+  labor: 'Labor',
+  part: 'Part',
+  fee: 'Fee',
+  discount: 'Discount',
+  other: 'Other'
+};
+
+/** YYYY-MM-DD thirty days from today, the default validity. */
+function defaultValidUntil(): string {
+  const date = new Date();
+  date.setDate(date.getDate() + 30);
+  return date.toISOString().slice(0, 10);
+}
+
+/** ISO timestamp to the local value a datetime-local input takes */
+function toLocalInput(iso: string | null): string {
+  if (!iso) return '';
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+// A quote taxed by its business's jurisdiction (rather than a typed rate)
+// keeps following the business's tax when edited
+const usesBusinessTax = (quote: Quote) =>
+  (quote.tax_breakdown || []).some(line => line.name !== 'Tax');
+
+const QuoteEditorModal: React.FC<QuoteEditorModalProps> = ({ quote, options, onClose, onSaved }) => {
+  const formatMoney = useCurrencyFormatter();
+  const [businessId, setBusinessId] = useState(quote?.business_id || '');
+  const [businessOptions, setBusinessOptions] = useState<QuoteBusinessOptions | null>(null);
+  const [serviceLocationId, setServiceLocationId] = useState(quote?.service_location_id || '');
+  const [contactUserId, setContactUserId] = useState(quote?.contact_user_id || '');
+  const [serviceTypeId, setServiceTypeId] = useState(quote?.service_type_id || '');
+  const [title, setTitle] = useState(quote?.title || '');
+  const [description, setDescription] = useState(quote?.description || '');
+  const [terms, setTerms] = useState(quote?.terms || '');
+  const [validUntil, setValidUntil] = useState(quote?.valid_until || defaultValidUntil());
+  const [scheduledAt, setScheduledAt] = useState(toLocalInput(quote?.requested_datetime ?? null));
+  const [durationHours, setDurationHours] = useState(
+    quote?.requested_duration_minutes ? String(quote.requested_duration_minutes / 60) : ''
+  );
+  const [taxPercent, setTaxPercent] = useState(
+    quote && !usesBusinessTax(quote) ? String(Math.round(Number(quote.tax_rate) * 1000000) / 10000) : ''
+  );
+  const [lines, setLines] = useState<LineDraft[]>(
+    quote?.line_items && quote.line_items.length > 0
+      ? quote.line_items.map(item => ({
+          itemType: item.item_type || 'other',
+          description: item.description,
+          quantity: String(Number(item.quantity)),
+          unitPrice: Number(item.unit_price).toFixed(2),
+          taxable: item.taxable ?? true,
+          productRef: item.product_ref || ''
+        }))
+      : [{ ...emptyLine }]
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!businessId) {
+      setBusinessOptions(null);
+      return;
+    }
+    quoteService.getBusinessOptions(businessId)
+      .then(response => setBusinessOptions(response.data))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the business'));
+  }, [businessId]);
+
+  const parsedLines = lines.map(line => ({
+    itemType: line.itemType,
+    description: line.description.trim(),
+    quantity: parseFloat(line.quantity) || 0,
+    unitPrice: parseFloat(line.unitPrice) || 0,
+    taxable: line.taxable,
+    productRef: line.productRef.trim() || null
+  }));
+  const taxRate = taxPercent.trim() === '' ? null : (parseFloat(taxPercent) || 0) / 100;
+  // Blank rate: the business's jurisdiction (labor may be untaxed) or exemption
+  const businessTax = businessOptions?.tax;
+  const previewLines = taxRate === null && businessTax && !businessTax.laborTaxable
+    ? parsedLines.map(line => (line.itemType === 'labor' ? { ...line, taxable: false } : line))
+    : parsedLines;
+  const totals = previewInvoiceTotals(previewLines, taxRate ?? businessTax?.taxRate ?? options.defaultTaxRate);
+  const currency = businessTax?.currency;
+
+  const businessTaxLabel = () => {
+    if (!businessTax) return `${formatTaxRate(options.defaultTaxRate)} company rate`;
+    if (businessTax.exempt) return 'exempt';
+    return formatTaxRate(businessTax.taxRate);
+  };
+
+  const updateLine = (index: number, changes: Partial<LineDraft>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleBusinessChange = (id: string) => {
+    setBusinessId(id);
+    setServiceLocationId('');
+    setContactUserId('');
+  };
+
+  const handleSave = async () => {
+    const input: SaveQuoteInput = {
+      businessId,
+      serviceLocationId,
+      serviceTypeId: serviceTypeId || null,
+      contactUserId: contactUserId || null,
+      title,
+      description: description || null,
+      terms: terms || null,
+      validUntil,
+      requestedDatetime: scheduledAt ? new Date(scheduledAt).toISOString() : null,
+      requestedDurationMinutes: durationHours ? Math.round(parseFloat(durationHours) * 60) || null : null,
+      taxRate,
+      lineItems: parsedLines
+    };
+
+    try {
+      setSaving(true);
+      setError(null);
+      const response = quote
+        ? await quoteService.updateQuote(quote.id, input)
+        : await quoteService.createQuote(input);
+      onSaved(response.message || 'Quote saved');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save quote');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canSave = businessId && serviceLocationId && title.trim() && validUntil &&
+    parsedLines.length > 0 && parsedLines.every(line => line.description && line.quantity > 0);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className={`${themeClasses.bg.card} rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto p-6`}>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className={`text-xl font-bold ${themeClasses.text.primary}`}>
+            {quote ? `Edit Quote ${quote.quote_number}` : 'New Quote'}
+          </h2>
+          <button onClick={onClose} className={`p-2 rounded-lg ${themeClasses.bg.hover}`}>
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+        {quote?.status === 'sent' && (
+          <div className="mb-4 p-3 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 text-sm text-yellow-800 dark:text-yellow-300">
+            This quote has been sent. Saving changes returns it to draft until it is sent again.
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div>
+            <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Business</label>
+            <select
+              value={businessId}
+              onChange={(e) => handleBusinessChange(e.target.value)}
+              className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+            >
+              <option value="">Select a business...</option>
+              {options.businesses.map(b => (
+                <option key={b.id} value={b.id}>{b.business_name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Service Location</label>
+            <select
+              value={serviceLocationId}
+              onChange={(e) => setServiceLocationId(e.target.value)}
+              disabled={!businessId}
+              className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+            >
+              <option value="">Select a location...</option>
+              {businessOptions?.locations.map(location => (
+                <option key={location.id} value={location.id}>{location.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Send To</label>
+            <select
+              value={contactUserId}
+              onChange={(e) => setContactUserId(e.target.value)}
+              disabled={!businessId}
+              className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+            >
+              <option value="">No contact yet</option>
+              {businessOptions?.contacts.map(contact => (
+                <option key={contact.id} value={contact.id}>{contact.name || contact.email} ({contact.email})</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          <div className="md:col-span-2">
+            <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Title</label>
+            <input
+              type="text"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              maxLength={255}
+              placeholder="e.g. Office network refresh"
+              className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+            />
+          </div>
+          <div>
+            <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Service Type</label>
+            <select
+              value={serviceTypeId}
+              onChange={(e) => setServiceTypeId(e.target.value)}
+              className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+            >
+              <option value="">None</option>
+              {options.serviceTypes.map(type => (
+                <option key={type.id} value={type.id}>{type.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Scope of Work</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+            className={`w-full px-3 py-2 rounded-lg ${themeClasses.input} resize-none`}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-4">
+          <div>
+            <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Valid Until</label>
+            <input
+              type="date"
+              value={validUntil}
+              onChange={(e) => setValidUntil(e.target.value)}
+              className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+            />
+          </div>
+          <div>
+            <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Scheduled For</label>
+            <input
+              type="datetime-local"
+              value={scheduledAt}
+              onChange={(e) => setScheduledAt(e.target.value)}
+              className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+            />
+          </div>
+          <div>
+            <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Duration (hours)</label>
+            <input
+              type="number"
+              min={0}
+              step="0.5"
+              value={durationHours}
+              onChange={(e) => setDurationHours(e.target.value)}
+              className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+            />
+          </div>
+          <div>
+            <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Tax Rate (%)</label>
+            <input
+              type="number"
+              min={0}
+              step="0.01"
+              value={taxPercent}
+              onChange={(e) => setTaxPercent(e.target.value)}
+              placeholder="Business default"
+              className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+            />
+          </div>
+        </div>
+
+        {/* Line Items */}
+        <div className="mb-4">
+          <div className={`grid grid-cols-12 gap-2 text-xs font-medium uppercase ${themeClasses.text.secondary} mb-2`}>
+            <div className="col-span-2">Type</div>
+            <div className="col-span-4">Item</div>
+            <div className="col-span-2">Qty</div>
+            <div className="col-span-2">Unit Price</div>
+            <div className="col-span-2 text-right">Amount</div>
+          </div>
+          <div className="space-y-3">
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <select
+                  value={line.itemType}
+                  onChange={(e) => updateLine(index, { itemType: e.target.value as LineItemType })}
+                  className={`col-span-2 px-2 py-2 rounded-lg ${themeClasses.input}`}
+                >
+                  {(Object.keys(itemTypeLabels) as LineItemType[]).map(type => (
+                    <option key={type} value={type}>{itemTypeLabels[type]}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={line.description}
+                  onChange={(e) => updateLine(index, { description: e.target.value })}
+                  placeholder="Description"
+                  className={`col-span-4 px-3 py-2 rounded-lg ${themeClasses.input}`}
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="0.25"
+                  value={line.quantity}
+                  onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                  className={`col-span-2 px-3 py-2 rounded-lg ${themeClasses.input}`}
+                />
+                <input
+                  type="number"
+                  step="0.01"
+                  value={line.unitPrice}
+                  onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                  placeholder="0.00"
+                  className={`col-span-2 px-3 py-2 rounded-lg ${themeClasses.input}`}
+                />
+                <div className="col-span-2 flex items-center justify-end space-x-2">
+                  <span className={`text-sm ${themeClasses.text.primary}`}>
+                    {formatMoney(parsedLines[index].quantity * parsedLines[index].unitPrice, currency)}
+                  </span>
+                  <button
+                    onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                    disabled={lines.length === 1}
+                    className="text-red-600 dark:text-red-400 disabled:opacity-30"
+                    title="Remove line"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <div className="col-start-3 col-span-10 flex items-center gap-4">
+                  <label className={`flex items-center gap-1 text-xs ${themeClasses.text.secondary}`}>
+                    <input
+                      type="checkbox"
+                      checked={line.taxable}
+                      onChange={(e) => updateLine(index, { taxable: e.target.checked })}
+                    />
+                    Taxable
+                  </label>
+                  <input
+                    type="text"
+                    value={line.productRef}
+                    onChange={(e) => updateLine(index, { productRef: e.target.value })}
+                    placeholder="SKU / part # (optional)"
+                    maxLength={100}
+                    className={`flex-1 px-2 py-1 text-xs rounded-lg ${themeClasses.input}`}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => setLines(prev => [...prev, { ...emptyLine }])}
+            className="mt-2 flex items-center space-x-1 text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add line</span>
+          </button>
+        </div>
+
+        {/* Totals */}
+        <div className="flex justify-end mb-4">
+          <div className="w-64 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className={themeClasses.text.secondary}>Subtotal:</span>
+              <span className={themeClasses.text.primary}>{formatMoney(totals.subtotal, currency)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className={themeClasses.text.secondary}>
+                Tax ({taxRate === null ? businessTaxLabel() : `${taxPercent}%`}):
+              </span>
+              <span className={themeClasses.text.primary}>{formatMoney(totals.taxAmount, currency)}</span>
+            </div>
+            <div className={`flex justify-between font-bold ${themeClasses.text.primary}`}>
+              <span>Total:</span>
+              <span>{formatMoney(totals.totalAmount, currency)}</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="mb-6">
+          <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Terms (Optional)</label>
+          <textarea
+            value={terms}
+            onChange={(e) => setTerms(e.target.value)}
+            rows={3}
+            placeholder="e.g. 50% deposit on acceptance; parts are non-refundable once ordered."
+            className={`w-full px-3 py-2 rounded-lg ${themeClasses.input} resize-none`}
+          />
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            onClick={onClose}
+            className={`flex-1 px-4 py-2 ${themeClasses.bg.secondary} ${themeClasses.text.primary} rounded-lg hover:opacity-80`}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || !canSave}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : 'Save Draft'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuoteEditorModal;
@@ -0,0 +1,277 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Edit, FileSignature, Plus, Send, Trash2, X } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import {
+  quoteService,
+  Quote,
+  QuoteDisplayStatus,
+  QuoteOptions,
+  QUOTE_STATUS_LABELS
+} from '../../../services/quoteService';
+import QuoteEditorModal from './QuoteEditorModal';
+import { useCurrencyFormatter } from '../../../hooks/useCurrencyFormatter';
+
+interface QuotesPanelProps {
+  /** Create, edit, send and delete (manage.quotes.enable) */
+  canManage: boolean;
+}
+
+const statusClasses: Record<QuoteDisplayStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  sent: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  accepted: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  declined: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  expired: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  invoiced: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300'
+};
+
+/**
+ * Quotes / estimates. A sent quote is answered by the client in the portal;
+ * accepting creates its service request, and completing that request
+ * invoices the quoted lines.
+ */
+const QuotesPanel: React.FC<QuotesPanelProps> = ({ canManage }) => {
+  const formatMoney = useCurrencyFormatter();
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [options, setOptions] = useState<QuoteOptions | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [editing, setEditing] = useState<Quote | null | undefined>(undefined);
+  const [sending, setSending] = useState<Quote | null>(null);
+  const [sendTo, setSendTo] = useState('');
+  const [sendMessage, setSendMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const loadQuotes = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [quotesResponse, optionsResponse] = await Promise.all([
+        quoteService.listQuotes(),
+        quoteService.getOptions()
+      ]);
+      setQuotes(quotesResponse.data);
+      setOptions(optionsResponse.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load quotes');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQuotes();
+  }, [loadQuotes]);
+
+  const handleEdit = async (quote: Quote) => {
+    try {
+      setError(null);
+      const response = await quoteService.getQuote(quote.id);
+      setEditing(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load quote');
+    }
+  };
+
+  const handleSaved = async (savedMessage: string) => {
+    setEditing(undefined);
+    setMessage(savedMessage);
+    await loadQuotes();
+  };
+
+  const openSend = (quote: Quote) => {
+    setSending(quote);
+    setSendTo(quote.contact_email || '');
+    setSendMessage('');
+  };
+
+  const handleSend = async () => {
+    if (!sending) return;
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await quoteService.sendQuote(sending.id, {
+        to: sendTo.trim() || undefined,
+        message: sendMessage.trim() || undefined
+      });
+      setSending(null);
+      setMessage(response.message || 'Quote sent');
+      await loadQuotes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send quote');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async (quote: Quote) => {
+    if (!window.confirm(`Delete quote ${quote.quote_number}?`)) return;
+    try {
+      setError(null);
+      const response = await quoteService.deleteQuote(quote.id);
+      setMessage(response.message || 'Quote deleted');
+      await loadQuotes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete quote');
+    }
+  };
+
+  return (
+    <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg p-6`}>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <FileSignature className={`h-5 w-5 ${themeClasses.text.primary}`} />
+          <h2 className={`text-lg font-semibold ${themeClasses.text.primary}`}>Quotes</h2>
+        </div>
+        {canManage && (
+          <button
+            onClick={() => setEditing(null)}
+            disabled={!options}
+            className="flex items-center space-x-1 px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New Quote</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="mb-4 p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-sm text-green-700 dark:text-green-300">
+          {message}
+        </div>
+      )}
+
+      {loading ? (
+        <p className={`text-sm ${themeClasses.text.muted}`}>Loading quotes...</p>
+      ) : quotes.length === 0 ? (
+        <p className={`text-sm ${themeClasses.text.muted}`}>No quotes yet</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className={`text-left text-xs uppercase ${themeClasses.text.secondary}`}>
+                <th className="py-2 pr-4">Quote</th>
+                <th className="py-2 pr-4">Business</th>
+                <th className="py-2 pr-4">Title</th>
+                <th className="py-2 pr-4 text-right">Total</th>
+                <th className="py-2 pr-4">Valid Until</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2 pr-4">Request / Invoice</th>
+                {canManage && <th className="py-2" />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {quotes.map(quote => (
+                <tr key={quote.id} className={themeClasses.text.primary}>
+                  <td className="py-2 pr-4 font-mono">{quote.quote_number}</td>
+                  <td className="py-2 pr-4">{quote.business_name}</td>
+                  <td className="py-2 pr-4">{quote.title}</td>
+                  <td className="py-2 pr-4 text-right">{formatMoney(quote.total_amount, quote.currency)}</td>
+                  <td className="py-2 pr-4">{quote.valid_until}</td>
+                  <td className="py-2 pr-4">
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusClasses[quote.display_status]}`}>
+                      {QUOTE_STATUS_LABELS[quote.display_status]}
+                    </span>
+                    {quote.signature_name && (
+                      <div className={`text-xs ${themeClasses.text.muted} mt-1`}>Signed by {quote.signature_name}</div>
+                    )}
+                    {quote.decline_reason && (
+                      <div className={`text-xs ${themeClasses.text.muted} mt-1`}>{quote.decline_reason}</div>
+                    )}
+                  </td>
+                  <td className={`py-2 pr-4 text-xs ${themeClasses.text.secondary}`}>
+                    {[quote.request_number, quote.invoice_number].filter(Boolean).join(' / ') || '-'}
+                  </td>
+                  {canManage && (
+                    <td className="py-2">
+                      <div className="flex items-center justify-end space-x-2">
+                        {(quote.status === 'draft' || quote.status === 'sent') && (
+                          <>
+                            <button onClick={() => handleEdit(quote)} title="Edit" className="text-blue-600 dark:text-blue-400">
+                              <Edit className="h-4 w-4" />
+                            </button>
+                            <button onClick={() => openSend(quote)} title="Send to client" className="text-green-600 dark:text-green-400">
+                              <Send className="h-4 w-4" />
+                            </button>
+                          </>
+                        )}
+                        {quote.status !== 'accepted' && (
+                          <button onClick={() => handleDelete(quote)} title="Delete" className="text-red-600 dark:text-red-400">
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editing !== undefined && options && (
+        <QuoteEditorModal
+          quote={editing}
+          options={options}
+          onClose={() => setEditing(undefined)}
+          onSaved={handleSaved}
+        />
+      )}
+
+      {sending && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className={`${themeClasses.bg.card} rounded-lg max-w-md w-full p-6`}>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className={`text-xl font-bold ${themeClasses.text.primary}`}>Send Quote {sending.quote_number}</h2>
+              <button onClick={() => setSending(null)} className={`p-2 rounded-lg ${themeClasses.bg.hover}`}>
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="mb-4">
+              <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>To</label>
+              <input
+                type="email"
+                value={sendTo}
+                onChange={(e) => setSendTo(e.target.value)}
+                className={`w-full px-3 py-2 rounded-lg ${themeClasses.input}`}
+              />
+            </div>
+            <div className="mb-6">
+              <label className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Message (Optional)</label>
+              <textarea
+                value={sendMessage}
+                onChange={(e) => setSendMessage(e.target.value)}
+                rows={3}
+                className={`w-full px-3 py-2 rounded-lg ${themeClasses.input} resize-none`}
+              />
+            </div>
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setSending(null)}
+                className={`flex-1 px-4 py-2 ${themeClasses.bg.secondary} ${themeClasses.text.primary} rounded-lg hover:opacity-80`}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSend}
+                disabled={busy}
+                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50"
+              >
+                {busy ? 'Sending...' : 'Send'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuotesPanel;
@@ -0,0 +1,373 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ListChecks, Pencil, Plus, Save, Trash2, X } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import {
+  serviceRequestTemplateService,
+  ChecklistItem,
+  ServiceRequestTemplate,
+  TemplateOptions
+} from '../../../services/serviceRequestTemplateService';
+
+interface TemplateDraft {
+  id: string | null;
+  serviceTypeId: string;
+  name: string;
+  title: string;
+  description: string;
+  /** Hours as typed, e.g. "1.5" */
+  durationHours: string;
+  urgencyLevelId: string;
+  clientVisible: boolean;
+  isActive: boolean;
+  checklistItems: ChecklistItem[];
+}
+
+const emptyDraft = (serviceTypeId = ''): TemplateDraft => ({
+  id: null,
+  serviceTypeId,
+  name: '',
+  title: '',
+  description: '',
+  durationHours: '',
+  urgencyLevelId: '',
+  clientVisible: true,
+  isActive: true,
+  checklistItems: [{ text: '', required: false }]
+});
+
+/**
+ * Service request templates for recurring issue types. Each belongs to a
+ * service type and prefills new requests, in the client scheduler (when
+ * client visible) and in New Request here. The checklist is what the
+ * technician works through.
+ */
+const RequestTemplatesPanel: React.FC = () => {
+  const [templates, setTemplates] = useState<ServiceRequestTemplate[]>([]);
+  const [options, setOptions] = useState<TemplateOptions>({ serviceTypes: [], urgencyLevels: [] });
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const response = await serviceRequestTemplateService.listTemplates();
+      setTemplates(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load templates');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTemplates();
+    serviceRequestTemplateService.getOptions()
+      .then(response => setOptions(response.data))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load template options'));
+  }, [loadTemplates]);
+
+  const handleEdit = (template: ServiceRequestTemplate) => {
+    setMessage(null);
+    setDraft({
+      id: template.id,
+      serviceTypeId: template.service_type_id,
+      name: template.name,
+      title: template.title,
+      description: template.description || '',
+      durationHours: template.estimated_duration_minutes ? String(template.estimated_duration_minutes / 60) : '',
+      urgencyLevelId: template.urgency_level_id || '',
+      clientVisible: template.client_visible,
+      isActive: template.is_active,
+      checklistItems: template.checklist_items.length > 0
+        ? template.checklist_items.map(item => ({ ...item }))
+        : [{ text: '', required: false }]
+    });
+  };
+
+  const updateItem = (index: number, changes: Partial<ChecklistItem>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      checklistItems: prev.checklistItems.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    });
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const items = [...prev.checklistItems];
+      const target = index + offset;
+      if (target < 0 || target >= items.length) return prev;
+      [items[index], items[target]] = [items[target], items[index]];
+      return { ...prev, checklistItems: items };
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const input = {
+      serviceTypeId: draft.serviceTypeId,
+      name: draft.name,
+      title: draft.title,
+      description: draft.description || null,
+      estimatedDurationMinutes: draft.durationHours ? Math.round(parseFloat(draft.durationHours) * 60) || null : null,
+      urgencyLevelId: draft.urgencyLevelId || null,
+      clientVisible: draft.clientVisible,
+      isActive: draft.isActive,
+      checklistItems: draft.checklistItems.filter(item => item.text.trim())
+    };
+    try {
+      setSaving(true);
+      setError(null);
+      const response = draft.id
+        ? await serviceRequestTemplateService.updateTemplate(draft.id, input)
+        : await serviceRequestTemplateService.createTemplate(input);
+      setMessage(response.message || 'Template saved');
+      setDraft(null);
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: ServiceRequestTemplate) => {
+    if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+    try {
+      setError(null);
+      const response = await serviceRequestTemplateService.deleteTemplate(template.id);
+      setMessage(response.message || 'Template deleted');
+      await loadTemplates();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete template');
+    }
+  };
+
+  const inputClass = `px-2 py-1 text-sm border rounded-lg ${themeClasses.input}`;
+
+  return (
+    <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg p-4 space-y-4`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <ListChecks className={`h-5 w-5 ${themeClasses.text.primary}`} />
+          <h2 className={`text-sm font-semibold ${themeClasses.text.primary}`}>Request templates</h2>
+        </div>
+        {!draft && (
+          <button
+            onClick={() => {
+              setMessage(null);
+              setDraft(emptyDraft(options.serviceTypes[0]?.id));
+            }}
+            className="flex items-center space-x-1 px-3 py-1 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>New Template</span>
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">{error}</div>
+      )}
+      {message && (
+        <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 text-sm text-green-800 dark:text-green-300">{message}</div>
+      )}
+
+      {draft && (
+        <div className={`p-3 rounded-lg ${themeClasses.bg.secondary} space-y-3`}>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <select
+              value={draft.serviceTypeId}
+              onChange={(e) => setDraft({ ...draft, serviceTypeId: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Service type...</option>
+              {options.serviceTypes.map(type => (
+                <option key={type.id} value={type.id}>{type.name}</option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              maxLength={100}
+              placeholder="Template name, e.g. New hire setup"
+              className={inputClass}
+            />
+          </div>
+          <input
+            type="text"
+            value={draft.title}
+            onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+            maxLength={255}
+            placeholder="Request title"
+            className={`${inputClass} w-full`}
+          />
+          <textarea
+            value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+            rows={3}
+            placeholder="Request description (what the client should fill in)"
+            className={`${inputClass} w-full resize-none`}
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="number"
+              min="0.5"
+              step="0.5"
+              value={draft.durationHours}
+              onChange={(e) => setDraft({ ...draft, durationHours: e.target.value })}
+              placeholder="Hours"
+              title="Estimated duration (hours)"
+              className={`${inputClass} w-24`}
+            />
+            <select
+              value={draft.urgencyLevelId}
+              onChange={(e) => setDraft({ ...draft, urgencyLevelId: e.target.value })}
+              className={inputClass}
+            >
+              <option value="">Requester's urgency</option>
+              {options.urgencyLevels.map(level => (
+                <option key={level.id} value={level.id}>{level.name}</option>
+              ))}
+            </select>
+            <label className={`flex items-center space-x-1 text-sm ${themeClasses.text.secondary}`}>
+              <input
+                type="checkbox"
+                checked={draft.clientVisible}
+                onChange={(e) => setDraft({ ...draft, clientVisible: e.target.checked })}
+              />
+              <span>Offered to clients</span>
+            </label>
+            <label className={`flex items-center space-x-1 text-sm ${themeClasses.text.secondary}`}>
+              <input
+                type="checkbox"
+                checked={draft.isActive}
+                onChange={(e) => setDraft({ ...draft, isActive: e.target.checked })}
+              />
+              <span>Active</span>
+            </label>
+          </div>
+
+          <div className={`text-xs font-medium uppercase ${themeClasses.text.muted}`}>Checklist</div>
+          {draft.checklistItems.map((item, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <span className={`w-6 text-right text-sm ${themeClasses.text.muted}`}>{index + 1}.</span>
+              <input
+                type="text"
+                value={item.text}
+                onChange={(e) => updateItem(index, { text: e.target.value })}
+                maxLength={500}
+                placeholder="Step, e.g. Create email account"
+                className={`${inputClass} flex-1`}
+              />
+              <label className={`flex items-center space-x-1 text-xs ${themeClasses.text.secondary}`}>
+                <input
+                  type="checkbox"
+                  checked={item.required}
+                  onChange={(e) => updateItem(index, { required: e.target.checked })}
+                />
+                <span>Required</span>
+              </label>
+              <button
+                onClick={() => moveItem(index, -1)}
+                disabled={index === 0}
+                title="Move up"
+                className={`text-sm ${themeClasses.text.secondary} disabled:opacity-30`}
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => moveItem(index, 1)}
+                disabled={index === draft.checklistItems.length - 1}
+                title="Move down"
+                className={`text-sm ${themeClasses.text.secondary} disabled:opacity-30`}
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => setDraft({ ...draft, checklistItems: draft.checklistItems.filter((_, i) => i !== index) })}
+                title="Remove step"
+                className="text-red-600 dark:text-red-400"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setDraft({ ...draft, checklistItems: [...draft.checklistItems, { text: '', required: false }] })}
+            className={`flex items-center space-x-1 text-sm ${themeClasses.text.secondary}`}
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add step</span>
+          </button>
+
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={() => setDraft(null)}
+              className={`flex items-center space-x-1 px-3 py-1 text-sm rounded-lg ${themeClasses.bg.hover}`}
+            >
+              <X className="h-4 w-4" />
+              <span>Cancel</span>
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !draft.serviceTypeId || !draft.name.trim() || !draft.title.trim()}
+              className="flex items-center space-x-1 px-3 py-1 text-sm rounded-lg bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+            >
+              <Save className="h-4 w-4" />
+              <span>{saving ? 'Saving...' : 'Save'}</span>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {templates.length === 0 ? (
+        <p className={`text-sm ${themeClasses.text.muted}`}>
+          No templates yet. Add one for each issue clients report again and again.
+        </p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className={`text-left text-xs uppercase ${themeClasses.text.muted}`}>
+              <th className="py-1 pr-3">Service Type</th>
+              <th className="py-1 pr-3">Template</th>
+              <th className="py-1 pr-3 text-right">Steps</th>
+              <th className="py-1 pr-3 text-right">Duration</th>
+              <th className="py-1" />
+            </tr>
+          </thead>
+          <tbody className={themeClasses.text.primary}>
+            {templates.map(template => (
+              <tr key={template.id} className={template.is_active ? '' : 'opacity-60'}>
+                <td className={`py-1 pr-3 ${themeClasses.text.secondary}`}>{template.service_type_name}</td>
+                <td className="py-1 pr-3">
+                  {template.name}
+                  {!template.client_visible && (
+                    <span className={`ml-2 text-xs ${themeClasses.text.muted}`}>staff only</span>
+                  )}
+                  {!template.is_active && (
+                    <span className={`ml-2 text-xs ${themeClasses.text.muted}`}>inactive</span>
+                  )}
+                </td>
+                <td className="py-1 pr-3 text-right">{template.checklist_items.length}</td>
+                <td className="py-1 pr-3 text-right">
+                  {template.estimated_duration_minutes ? `${template.estimated_duration_minutes / 60}h` : '—'}
+                </td>
+                <td className="py-1 text-right space-x-2 whitespace-nowrap">
+                  <button onClick={() => handleEdit(template)} title="Edit">
+                    <Pencil className={`h-4 w-4 inline ${themeClasses.text.secondary}`} />
+                  </button>
+                  <button onClick={() => handleDelete(template)} title="Delete">
+                    <Trash2 className="h-4 w-4 inline text-red-600 dark:text-red-400" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default RequestTemplatesPanel;
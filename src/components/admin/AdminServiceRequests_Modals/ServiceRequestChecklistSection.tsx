@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowDown, ArrowUp, ListChecks, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import {
+  serviceRequestChecklistService,
+  ChecklistStep
+} from '../../../services/serviceRequestChecklistService';
+import {
+  serviceRequestTemplateService,
+  ServiceRequestTemplate
+} from '../../../services/serviceRequestTemplateService';
+
+interface ServiceRequestChecklistSectionProps {
+  serviceRequestId: string;
+  /** The current user is the request's assigned technician */
+  canCheck: boolean;
+  /** Add, remove and reorder steps */
+  canEdit: boolean;
+  timeFormatPreference?: '12h' | '24h';
+}
+
+/**
+ * The request's ordered task checklist. The assigned technician checks steps
+ * off; employees who may modify requests add steps (by hand or from a
+ * template), remove them and move them up or down.
+ */
+const ServiceRequestChecklistSection: React.FC<ServiceRequestChecklistSectionProps> = ({
+  serviceRequestId,
+  canCheck,
+  canEdit,
+  timeFormatPreference = '12h'
+}) => {
+  const [items, setItems] = useState<ChecklistStep[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [newText, setNewText] = useState('');
+  const [newRequired, setNewRequired] = useState(false);
+  const [templates, setTemplates] = useState<ServiceRequestTemplate[]>([]);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    serviceRequestChecklistService.getChecklist(serviceRequestId)
+      .then(response => setItems(response.data.items))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load checklist'))
+      .finally(() => setLoading(false));
+  }, [serviceRequestId]);
+
+  useEffect(() => {
+    if (!canEdit) return;
+    serviceRequestTemplateService.listTemplates({ activeOnly: true })
+      .then(response => setTemplates(response.data.filter(t => t.checklist_items.length > 0)))
+      .catch(() => setTemplates([]));
+  }, [canEdit]);
+
+  const run = async (action: () => Promise<{ data: { items: ChecklistStep[] } }>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await action();
+      setItems(response.data.items);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update checklist');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const added = await run(() => serviceRequestChecklistService.addItems(serviceRequestId, [
+      { text: newText.trim(), required: newRequired }
+    ]));
+    if (added) {
+      setNewText('');
+      setNewRequired(false);
+    }
+  };
+
+  const handleAddFromTemplate = (templateId: string) => {
+    const template = templates.find(t => t.id === templateId);
+    if (template) run(() => serviceRequestChecklistService.addItems(serviceRequestId, template.checklist_items));
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const ids = items.map(item => item.id);
+    [ids[index], ids[index + direction]] = [ids[index + direction], ids[index]];
+    run(() => serviceRequestChecklistService.reorder(serviceRequestId, ids));
+  };
+
+  const formatCompletedAt = (timestamp: string) =>
+    new Date(timestamp).toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+      hour12: timeFormatPreference === '12h'
+    });
+
+  const completed = items.filter(item => item.completed_at).length;
+
+  return (
+    <div className="mb-4 p-4 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className={`text-sm font-semibold ${themeClasses.text.primary} flex items-center gap-2`}>
+          <ListChecks className="h-4 w-4" />
+          Checklist
+        </h4>
+        {items.length > 0 && (
+          <span className={`text-xs ${themeClasses.text.muted}`}>{completed} of {items.length} done</span>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-3 p-2 rounded bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className={`flex items-center gap-2 ${themeClasses.text.secondary}`}>
+          <RefreshCw className="h-4 w-4 animate-spin" />
+          <span>Loading checklist...</span>
+        </div>
+      ) : items.length > 0 ? (
+        <ol className="space-y-2">
+          {items.map((item, index) => (
+            <li key={item.id} className="flex items-start gap-2">
+              <input
+                type="checkbox"
+                checked={!!item.completed_at}
+                disabled={!canCheck || busy}
+                onChange={(e) => run(() => serviceRequestChecklistService.setChecked(serviceRequestId, item.id, e.target.checked))}
+                className="mt-1"
+                title={canCheck ? undefined : 'Only the assigned technician can check off steps'}
+              />
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm ${item.completed_at ? `line-through ${themeClasses.text.muted}` : themeClasses.text.primary}`}>
+                  {index + 1}. {item.item_text}
+                  {item.is_required && (
+                    <span className="ml-2 text-xs text-orange-600 dark:text-orange-400 no-underline">required</span>
+                  )}
+                </p>
+                {item.completed_at && (
+                  <p className={`text-xs ${themeClasses.text.muted}`}>
+                    {item.completed_by_name || 'Checked'} • {formatCompletedAt(item.completed_at)}
+                  </p>
+                )}
+              </div>
+              {canEdit && (
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => handleMove(index, -1)}
+                    disabled={busy || index === 0}
+                    className={`p-1 ${themeClasses.text.muted} hover:text-blue-600 disabled:opacity-30`}
+                    title="Move up"
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => handleMove(index, 1)}
+                    disabled={busy || index === items.length - 1}
+                    className={`p-1 ${themeClasses.text.muted} hover:text-blue-600 disabled:opacity-30`}
+                    title="Move down"
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => run(() => serviceRequestChecklistService.deleteItem(serviceRequestId, item.id))}
+                    disabled={busy}
+                    className={`p-1 ${themeClasses.text.muted} hover:text-red-600 disabled:opacity-30`}
+                    title="Remove step"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      ) : (
+        <p className={`text-sm ${themeClasses.text.muted}`}>No checklist steps</p>
+      )}
+
+      {canEdit && !loading && (
+        <div className="mt-3 flex flex-col sm:flex-row gap-2">
+          <input
+            type="text"
+            value={newText}
+            onChange={(e) => setNewText(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && newText.trim()) handleAdd(); }}
+            maxLength={500}
+            placeholder="Add a step..."
+            className={`flex-1 px-3 py-1.5 rounded-md text-sm ${themeClasses.input}`}
+            disabled={busy}
+          />
+          <label className={`flex items-center gap-1 text-sm ${themeClasses.text.secondary}`}>
+            <input type="checkbox" checked={newRequired} onChange={(e) => setNewRequired(e.target.checked)} />
+            Required
+          </label>
+          <button
+            onClick={handleAdd}
+            disabled={busy || !newText.trim()}
+            className="px-3 py-1.5 rounded-md text-sm bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+          >
+            <Plus className="h-4 w-4" />
+            Add
+          </button>
+          {templates.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => handleAddFromTemplate(e.target.value)}
+              disabled={busy}
+              className={`px-2 py-1.5 rounded-md text-sm ${themeClasses.input}`}
+            >
+              <option value="">Add from template...</option>
+              {templates.map(t => (
+                <option key={t.id} value={t.id}>{t.name}</option>
+              ))}
+            </select>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServiceRequestChecklistSection;
@@ -17,8 +17,14 @@ import {
   Calendar
 } from 'lucide-react';
 import { useTheme, themeClasses } from '../../../contexts/ThemeContext';
-import { ServiceRequest, ServiceRequestFile, ServiceRequestNote } from './types';
-import { ServiceRequestFilesSection, ServiceRequestNotesSection } from './';
+import { NewNoteType, ServiceRequest, ServiceRequestFile, ServiceRequestNote } from './types';
+import {
+  ServiceRequestChecklistSection,
+  ServiceRequestFilesSection,
+  ServiceRequestNotesSection,
+  ServiceRequestRelationsSection
+} from './';
+import { RelatedRequest } from '../../../services/serviceRequestRelationService';
 import { FileUploadProgress } from '../../../hooks/useFileUploadWithProgress';
 
 interface ServiceRequestDetailModalProps {
@@ -28,7 +34,9 @@ interface ServiceRequestDetailModalProps {
   requestNotes: ServiceRequestNote[];
   loadingNotes: boolean;
   newNoteText: string;
+  newNoteType: NewNoteType;
   submittingNote: boolean;
+  resendingNoteId: string | null;
   editingTitle: boolean;
   editingDescription: boolean;
   editedTitle: string;
@@ -46,12 +54,18 @@ interface ServiceRequestDetailModalProps {
   apiBaseUrl: string;
   canViewCosts: boolean;
   canCompleteRequest: boolean;
+  canCheckChecklist: boolean;
+  canEditChecklist: boolean;
+  canEditRelations: boolean;
   isDark: boolean;
   userTimeFormatPreference: '12h' | '24h';
   newlyReceivedNoteId: string | null;
   onClose: () => void;
   onNewNoteChange: (value: string) => void;
   onSubmitNote: () => void;
+  onNewNoteTypeChange: (type: NewNoteType) => void;
+  onResendReply: (noteId: string) => void;
+  onMerged: (target: RelatedRequest) => void;
   onStartEditTitle: () => void;
   onStartEditDescription: () => void;
   onCancelEditTitle: () => void;
@@ -88,7 +102,9 @@ const ServiceRequestDetailModal: React.FC<ServiceRequestDetailModalProps> = ({
   requestNotes,
   loadingNotes,
   newNoteText,
+  newNoteType,
   submittingNote,
+  resendingNoteId,
   editingTitle,
   editingDescription,
   editedTitle,
@@ -106,12 +122,18 @@ const ServiceRequestDetailModal: React.FC<ServiceRequestDetailModalProps> = ({
   apiBaseUrl,
   canViewCosts,
   canCompleteRequest,
+  canCheckChecklist,
+  canEditChecklist,
+  canEditRelations,
   isDark,
   userTimeFormatPreference,
   newlyReceivedNoteId,
   onClose,
   onNewNoteChange,
   onSubmitNote,
+  onNewNoteTypeChange,
+  onResendReply,
+  onMerged,
   onStartEditTitle,
   onStartEditDescription,
   onCancelEditTitle,
@@ -560,6 +582,20 @@ const ServiceRequestDetailModal: React.FC<ServiceRequestDetailModalProps> = ({
             onUploadFiles={onUploadFiles}
           />
 
+          {/* Checklist */}
+          <ServiceRequestChecklistSection
+            serviceRequestId={selectedRequest.id}
+            canCheck={canCheckChecklist}
+            canEdit={canEditChecklist}
+            timeFormatPreference={userTimeFormatPreference}
+          />
+
+          <ServiceRequestRelationsSection
+            serviceRequestId={selectedRequest.id}
+            canEdit={canEditRelations}
+            onMerged={onMerged}
+          />
+
           {/* Description */}
           <div className="mb-4 p-4 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg">
             <div className="flex items-center justify-between mb-2">
@@ -624,6 +660,11 @@ const ServiceRequestDetailModal: React.FC<ServiceRequestDetailModalProps> = ({
             submittingNote={submittingNote}
             onNewNoteChange={onNewNoteChange}
             onSubmitNote={onSubmitNote}
+            newNoteType={newNoteType}
+            onNewNoteTypeChange={onNewNoteTypeChange}
+            clientEmail={selectedRequest.client_email}
+            resendingNoteId={resendingNoteId}
+            onResendReply={onResendReply}
             otherViewers={otherViewers}
             timeFormatPreference={userTimeFormatPreference}
             newlyReceivedNoteId={newlyReceivedNoteId}
@@ -1,7 +1,7 @@
 import React, { useEffect, useState } from 'react';
-import { RefreshCw } from 'lucide-react';
+import { AlertCircle, CheckCircle, Mail, RefreshCw } from 'lucide-react';
 import { themeClasses } from '../../../contexts/ThemeContext';
-import { ServiceRequestNote } from './types';
+import { NewNoteType, ServiceRequestNote } from './types';
 
 interface ServiceRequestNotesSectionProps {
   notes: ServiceRequestNote[];
@@ -10,6 +10,11 @@ interface ServiceRequestNotesSectionProps {
   submittingNote: boolean;
   onNewNoteChange: (text: string) => void;
   onSubmitNote: () => void;
+  newNoteType?: NewNoteType;
+  onNewNoteTypeChange?: (type: NewNoteType) => void;
+  clientEmail?: string | null; // contact a client reply is emailed to
+  resendingNoteId?: string | null;
+  onResendReply?: (noteId: string) => void;
   otherViewers?: Array<{userId: string; userName: string; userType: string}>;
   timeFormatPreference?: '12h' | '24h';
   newlyReceivedNoteId?: string | null; // ID of note that was just received via websocket
@@ -50,6 +55,47 @@ const formatTimestampWithUTC = (timestamp: string, timeFormat: '12h' | '24h' = '
   return { local, utc };
 };
 
+/**
+ * Where a client reply's email stands, with a retry for failed deliveries
+ */
+const ReplyDeliveryStatus: React.FC<{
+  note: ServiceRequestNote;
+  resending: boolean;
+  onResend?: (noteId: string) => void;
+}> = ({ note, resending, onResend }) => {
+  if (note.email_status === 'sent') {
+    return (
+      <span className="inline-flex items-center gap-1 text-green-600 dark:text-green-400">
+        <CheckCircle className="h-3 w-3" />
+        Emailed to {note.email_to}
+      </span>
+    );
+  }
+  if (note.email_status === 'failed') {
+    return (
+      <span className="inline-flex items-center gap-1 text-red-600 dark:text-red-400" title={note.email_error || undefined}>
+        <AlertCircle className="h-3 w-3" />
+        Email to {note.email_to || 'client'} failed
+        {onResend && (
+          <button
+            onClick={() => onResend(note.id)}
+            disabled={resending}
+            className="ml-1 underline hover:no-underline disabled:opacity-50"
+          >
+            {resending ? 'Retrying...' : 'Retry'}
+          </button>
+        )}
+      </span>
+    );
+  }
+  return (
+    <span className={`inline-flex items-center gap-1 ${themeClasses.text.muted}`}>
+      <RefreshCw className="h-3 w-3 animate-spin" />
+      Sending to {note.email_to}...
+    </span>
+  );
+};
+
 const ServiceRequestNotesSection: React.FC<ServiceRequestNotesSectionProps> = ({
   notes,
   loading,
@@ -57,11 +103,17 @@ const ServiceRequestNotesSection: React.FC<ServiceRequestNotesSectionProps> = ({
   submittingNote,
   onNewNoteChange,
   onSubmitNote,
+  newNoteType = 'employee_note',
+  onNewNoteTypeChange,
+  clientEmail = null,
+  resendingNoteId = null,
+  onResendReply,
   otherViewers = [],
   timeFormatPreference = '12h',
   newlyReceivedNoteId = null
 }) => {
   const [highlightedNoteId, setHighlightedNoteId] = useState<string | null>(null);
+  const isClientReply = newNoteType === 'client_reply';
 
   // Auto-remove highlight after 3 seconds
   useEffect(() => {
@@ -90,10 +142,38 @@ const ServiceRequestNotesSection: React.FC<ServiceRequestNotesSectionProps> = ({
 
       {/* Add Note Form */}
       <div className="mb-4">
+        {onNewNoteTypeChange && (
+          <div className="mb-2 flex gap-1 text-xs">
+            {([
+              ['employee_note', 'Note'],
+              ['client_reply', 'Reply to client']
+            ] as Array<[NewNoteType, string]>).map(([type, label]) => (
+              <button
+                key={type}
+                onClick={() => onNewNoteTypeChange(type)}
+                disabled={submittingNote || (type === 'client_reply' && !clientEmail)}
+                title={type === 'client_reply' && !clientEmail ? 'This request has no contact email' : undefined}
+                className={`px-3 py-1 rounded-full border transition-colors disabled:opacity-50 ${
+                  newNoteType === type
+                    ? 'bg-blue-600 border-blue-600 text-white'
+                    : `border-gray-300 dark:border-gray-600 ${themeClasses.text.secondary}`
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+        {isClientReply && (
+          <p className={`mb-2 flex items-center gap-1 text-xs ${themeClasses.text.secondary}`}>
+            <Mail className="h-3 w-3" />
+            Emailed to {clientEmail}; their reply is added here as a note.
+          </p>
+        )}
         <textarea
           value={newNoteText}
           onChange={(e) => onNewNoteChange(e.target.value)}
-          placeholder="Add a note..."
+          placeholder={isClientReply ? 'Write a reply to the client...' : 'Add a note...'}
           className={`w-full px-3 py-2 rounded-md ${themeClasses.input} resize-none`}
           rows={3}
           disabled={submittingNote}
@@ -111,10 +191,10 @@ const ServiceRequestNotesSection: React.FC<ServiceRequestNotesSectionProps> = ({
             {submittingNote ? (
               <span className="flex items-center gap-2">
                 <RefreshCw className="h-4 w-4 animate-spin" />
-                Submitting...
+                {isClientReply ? 'Sending...' : 'Submitting...'}
               </span>
             ) : (
-              'Add Note'
+              isClientReply ? 'Send Reply' : 'Add Note'
             )}
           </button>
         </div>
@@ -140,6 +220,16 @@ const ServiceRequestNotesSection: React.FC<ServiceRequestNotesSectionProps> = ({
                 `}>
                   <div className={`text-xs ${themeClasses.text.muted} mb-1`}>
                     <span className="font-medium">{note.created_by_name}</span>
+                    {note.note_type === 'client_reply' && (
+                      <span className="ml-1 inline-flex items-center gap-1 text-blue-600 dark:text-blue-400">
+                        <Mail className="h-3 w-3" /> Reply to client
+                      </span>
+                    )}
+                    {note.note_type === 'email' && (
+                      <span className="ml-1 inline-flex items-center gap-1 text-blue-600 dark:text-blue-400">
+                        <Mail className="h-3 w-3" /> By email
+                      </span>
+                    )}
                     {' • '}
                     <span className="inline-flex flex-col sm:flex-row sm:gap-1">
                       <span>{timestamps.local} (Local)</span>
@@ -150,6 +240,15 @@ const ServiceRequestNotesSection: React.FC<ServiceRequestNotesSectionProps> = ({
                   <p className={`text-sm ${themeClasses.text.primary} whitespace-pre-wrap`}>
                     {note.note_text}
                   </p>
+                  {note.note_type === 'client_reply' && (
+                    <div className="mt-1 text-xs">
+                      <ReplyDeliveryStatus
+                        note={note}
+                        resending={resendingNoteId === note.id}
+                        onResend={onResendReply}
+                      />
+                    </div>
+                  )}
                 </div>
               </div>
             );
@@ -0,0 +1,303 @@
+import React, { useEffect, useState } from 'react';
+import { GitBranch, GitMerge, Link2, RefreshCw, X } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import {
+  serviceRequestRelationService,
+  RelatedRequest,
+  RequestLink,
+  RequestLinkType,
+  ServiceRequestRelations
+} from '../../../services/serviceRequestRelationService';
+
+interface ServiceRequestRelationsSectionProps {
+  serviceRequestId: string;
+  /** Set the parent, add and remove links, merge */
+  canEdit: boolean;
+  /** Called after this request was merged into another one */
+  onMerged?: (target: RelatedRequest) => void;
+}
+
+const LINK_TYPE_OPTIONS: Array<{ value: RequestLinkType; label: string }> = [
+  { value: 'related', label: 'Related to' },
+  { value: 'duplicate_of', label: 'Duplicate of' },
+  { value: 'blocked_by', label: 'Blocked by' }
+];
+
+const linkLabel = (link: RequestLink): string => {
+  if (link.link_type === 'related') return 'Related to';
+  if (link.link_type === 'duplicate_of') return link.direction === 'outgoing' ? 'Duplicate of' : 'Duplicated by';
+  return link.direction === 'outgoing' ? 'Blocked by' : 'Blocks';
+};
+
+const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h ${rest}m` : `${rest}m`;
+};
+
+const RequestLabel: React.FC<{ request: RelatedRequest }> = ({ request }) => (
+  <span className={request.is_final_status ? 'line-through opacity-70' : undefined}>
+    <span className="font-medium">{request.request_number}</span>
+    {' '}{request.title}
+    <span className={`ml-1 text-xs ${themeClasses.text.muted}`}>({request.status})</span>
+  </span>
+);
+
+/**
+ * Where the request sits in a bigger job: its parent, its children with a
+ * rollup of their statuses and the time logged across them, and links to
+ * related, duplicate and blocking requests. A duplicate can be merged into
+ * the request it duplicates.
+ */
+const ServiceRequestRelationsSection: React.FC<ServiceRequestRelationsSectionProps> = ({
+  serviceRequestId,
+  canEdit,
+  onMerged
+}) => {
+  const [relations, setRelations] = useState<ServiceRequestRelations | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [parentNumber, setParentNumber] = useState('');
+  const [linkNumber, setLinkNumber] = useState('');
+  const [linkType, setLinkType] = useState<RequestLinkType>('related');
+  const [mergeNumber, setMergeNumber] = useState('');
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+    serviceRequestRelationService.getRelations(serviceRequestId)
+      .then(response => setRelations(response.data))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load related requests'))
+      .finally(() => setLoading(false));
+  }, [serviceRequestId]);
+
+  const run = async (action: () => Promise<{ data: ServiceRequestRelations }>) => {
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await action();
+      setRelations(response.data);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update related requests');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSetParent = async () => {
+    if (await run(() => serviceRequestRelationService.setParent(serviceRequestId, parentNumber.trim()))) {
+      setParentNumber('');
+    }
+  };
+
+  const handleAddLink = async () => {
+    if (await run(() => serviceRequestRelationService.addLink(serviceRequestId, linkNumber.trim(), linkType))) {
+      setLinkNumber('');
+    }
+  };
+
+  const handleMerge = async () => {
+    const target = mergeNumber.trim().toUpperCase();
+    if (!window.confirm(`Merge this request into ${target}? Its notes and files move there and this request is closed.`)) {
+      return;
+    }
+    try {
+      setBusy(true);
+      setError(null);
+      const response = await serviceRequestRelationService.mergeInto(serviceRequestId, target);
+      setMergeNumber('');
+      const refreshed = await serviceRequestRelationService.getRelations(serviceRequestId);
+      setRelations(refreshed.data);
+      onMerged?.(response.data.target);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge requests');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = `px-2 py-1 text-sm rounded-md ${themeClasses.input}`;
+  const buttonClass = 'px-3 py-1 text-sm rounded-md text-white bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed';
+
+  if (loading) {
+    return (
+      <div className="mb-4 p-4 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg">
+        <div className={`flex items-center gap-2 text-sm ${themeClasses.text.secondary}`}>
+          <RefreshCw className="h-4 w-4 animate-spin" />
+          Loading related requests...
+        </div>
+      </div>
+    );
+  }
+
+  const rollup = relations?.rollup;
+  const hasRelations = !!relations &&
+    (!!relations.parent || relations.children.length > 0 || relations.links.length > 0 || !!relations.mergedInto);
+  if (!canEdit && !hasRelations && !error) return null;
+
+  return (
+    <div className="mb-4 p-4 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg">
+      <h4 className={`text-sm font-semibold ${themeClasses.text.primary} flex items-center gap-2 mb-3`}>
+        <GitBranch className="h-4 w-4" />
+        Related Requests
+      </h4>
+
+      {error && (
+        <div className="mb-3 p-2 rounded bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+
+      {relations?.mergedInto && (
+        <div className="mb-3 p-2 rounded bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-200 flex items-center gap-2">
+          <GitMerge className="h-4 w-4" />
+          Merged into <RequestLabel request={relations.mergedInto} />
+        </div>
+      )}
+
+      {/* Parent */}
+      <div className={`mb-3 text-sm ${themeClasses.text.primary}`}>
+        {relations?.parent ? (
+          <div className="flex items-center gap-2">
+            <span className={themeClasses.text.secondary}>Part of</span>
+            <RequestLabel request={relations.parent} />
+            {canEdit && (
+              <button
+                onClick={() => run(() => serviceRequestRelationService.setParent(serviceRequestId, null))}
+                disabled={busy}
+                className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                title="Detach from parent"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+        ) : canEdit && (
+          <div className="flex items-center gap-2">
+            <input
+              value={parentNumber}
+              onChange={(e) => setParentNumber(e.target.value)}
+              placeholder="Parent request number"
+              className={inputClass}
+              disabled={busy}
+            />
+            <button onClick={handleSetParent} disabled={busy || !parentNumber.trim()} className={buttonClass}>
+              Set parent
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Children with rollup */}
+      {relations && rollup && relations.children.length > 0 && (
+        <div className="mb-3">
+          <div className={`text-xs ${themeClasses.text.secondary} mb-1`}>
+            {rollup.childCount} sub-requests • {rollup.closedCount} closed • {rollup.openCount} open •{' '}
+            {formatMinutes(rollup.totalMinutes)} total
+            {rollup.ownMinutes > 0 && ` (${formatMinutes(rollup.ownMinutes)} on this request)`}
+          </div>
+          <div className="h-1.5 mb-2 rounded-full bg-gray-200 dark:bg-gray-600 overflow-hidden">
+            <div
+              className="h-full bg-green-500"
+              style={{ width: `${Math.round((rollup.closedCount / rollup.childCount) * 100)}%` }}
+            />
+          </div>
+          <div className="flex flex-wrap gap-1 mb-2">
+            {rollup.byStatus.map(({ status, count }) => (
+              <span
+                key={status}
+                className={`px-2 py-0.5 text-xs rounded-full border border-gray-300 dark:border-gray-600 ${themeClasses.text.secondary}`}
+              >
+                {status}: {count}
+              </span>
+            ))}
+          </div>
+          <ul className="space-y-1">
+            {relations.children.map(child => (
+              <li key={child.id} className={`text-sm ${themeClasses.text.primary} flex justify-between gap-2`}>
+                <RequestLabel request={child} />
+                <span className={`text-xs whitespace-nowrap ${themeClasses.text.muted}`}>
+                  {child.assigned_technician || 'Unassigned'} • {formatMinutes(child.logged_minutes)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Links */}
+      {relations && relations.links.length > 0 && (
+        <ul className="mb-3 space-y-1">
+          {relations.links.map(link => (
+            <li key={link.id} className={`text-sm ${themeClasses.text.primary} flex items-center gap-2`}>
+              <Link2 className="h-3 w-3 text-gray-400" />
+              <span className={themeClasses.text.secondary}>{linkLabel(link)}</span>
+              <RequestLabel request={link.request} />
+              {canEdit && (
+                <button
+                  onClick={() => run(() => serviceRequestRelationService.removeLink(serviceRequestId, link.id))}
+                  disabled={busy}
+                  className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                  title="Remove link"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={linkType}
+            onChange={(e) => setLinkType(e.target.value as RequestLinkType)}
+            className={inputClass}
+            disabled={busy}
+          >
+            {LINK_TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <input
+            value={linkNumber}
+            onChange={(e) => setLinkNumber(e.target.value)}
+            placeholder="Request number"
+            className={inputClass}
+            disabled={busy}
+          />
+          <button onClick={handleAddLink} disabled={busy || !linkNumber.trim()} className={buttonClass}>
+            Link
+          </button>
+        </div>
+      )}
+
+      {canEdit && !relations?.mergedInto && (
+        <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-600 flex flex-wrap items-center gap-2">
+          <span className={`text-sm ${themeClasses.text.secondary}`}>Duplicate? Merge into</span>
+          <input
+            value={mergeNumber}
+            onChange={(e) => setMergeNumber(e.target.value)}
+            placeholder="Request number"
+            className={inputClass}
+            disabled={busy}
+          />
+          <button
+            onClick={handleMerge}
+            disabled={busy || !mergeNumber.trim()}
+            className="px-3 py-1 text-sm rounded-md text-white bg-amber-600 hover:bg-amber-700 disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center gap-1"
+          >
+            <GitMerge className="h-4 w-4" />
+            Merge
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServiceRequestRelationsSection;
@@ -2,6 +2,7 @@ import React from 'react';
 import { User, FileText, MapPin, Phone, Mail } from 'lucide-react';
 import { themeClasses } from '../../../contexts/ThemeContext';
 import { ServiceRequest } from './types';
+import SlaBadge from './SlaBadge';
 
 interface ServiceRequestsMobileViewProps {
   requests: ServiceRequest[];
@@ -86,6 +87,11 @@ const ServiceRequestsMobileView: React.FC<ServiceRequestsMobileViewProps> = ({
             <div className={`text-xs ${themeClasses.text.muted}`}>
               {request.is_individual ? 'Individual' : request.business_name}
             </div>
+            {request.sla_policy_name && (
+              <div className="mt-2">
+                <SlaBadge request={request} />
+              </div>
+            )}
           </div>
 
           {/* Client Info */}
@@ -2,6 +2,7 @@ import React from 'react';
 import { User, FileText } from 'lucide-react';
 import { themeClasses } from '../../../contexts/ThemeContext';
 import { ServiceRequest } from './types';
+import SlaBadge from './SlaBadge';
 
 interface ServiceRequestsTableProps {
   requests: ServiceRequest[];
@@ -49,6 +50,9 @@ const ServiceRequestsTable: React.FC<ServiceRequestsTableProps> = ({
             <th className={`px-6 py-3 text-left text-xs font-medium ${themeClasses.text.secondary} uppercase tracking-wider`}>
               Urgency
             </th>
+            <th className={`px-6 py-3 text-left text-xs font-medium ${themeClasses.text.secondary} uppercase tracking-wider`}>
+              SLA
+            </th>
             <th className={`px-6 py-3 text-left text-xs font-medium ${themeClasses.text.secondary} uppercase tracking-wider`}>
               Client
             </th>
@@ -119,6 +123,9 @@ const ServiceRequestsTable: React.FC<ServiceRequestsTableProps> = ({
                   {request.urgency}
                 </span>
               </td>
+              <td className="px-6 py-4 whitespace-nowrap">
+                <SlaBadge request={request} />
+              </td>
               <td className="px-6 py-4">
                 <div className={`text-sm ${themeClasses.text.primary}`}>{request.client_name}</div>
                 <div className={`text-xs ${themeClasses.text.muted}`}>{request.client_email}</div>
@@ -0,0 +1,67 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, Timer, XCircle } from 'lucide-react';
+import { getSlaCountdown, formatSlaDuration } from '../../../services/slaService';
+import { ServiceRequest } from './types';
+
+interface SlaBadgeProps {
+  request: ServiceRequest;
+}
+
+const STATE_CLASSES = {
+  on_track: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  warning: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300',
+  breached: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+  met: 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300',
+  missed: 'bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300',
+};
+
+/**
+ * Countdown to the request's next SLA due time, refreshed every minute.
+ */
+const SlaBadge: React.FC<SlaBadgeProps> = ({ request }) => {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const countdown = getSlaCountdown(request, now);
+  if (!countdown) return <span className="text-xs text-gray-400">—</span>;
+
+  const targetLabel = countdown.target === 'acknowledge' ? 'Ack' : 'Resolve';
+  let label: string;
+  let Icon = Timer;
+  switch (countdown.state) {
+    case 'met':
+      label = 'SLA met';
+      Icon = CheckCircle;
+      break;
+    case 'missed':
+      label = 'SLA missed';
+      Icon = XCircle;
+      break;
+    case 'breached':
+      label = `${targetLabel} overdue ${formatSlaDuration(countdown.minutesRemaining ?? 0)}`;
+      Icon = XCircle;
+      break;
+    case 'warning':
+      label = `${targetLabel} in ${formatSlaDuration(countdown.minutesRemaining ?? 0)}`;
+      Icon = AlertTriangle;
+      break;
+    default:
+      label = `${targetLabel} in ${formatSlaDuration(countdown.minutesRemaining ?? 0)}`;
+  }
+
+  return (
+    <span
+      className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATE_CLASSES[countdown.state]}`}
+      title={`${request.sla_policy_name || 'SLA'} — ${targetLabel.toLowerCase()} due ${new Date(countdown.dueAt).toLocaleString()}`}
+    >
+      <Icon className="h-3 w-3 mr-1" />
+      {label}
+    </span>
+  );
+};
+
+export default SlaBadge;
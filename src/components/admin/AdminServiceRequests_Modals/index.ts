@@ -1,5 +1,7 @@
 export { default as ServiceRequestNotesSection } from './ServiceRequestNotesSection';
 export { default as ServiceRequestFilesSection } from './ServiceRequestFilesSection';
+export { default as ServiceRequestChecklistSection } from './ServiceRequestChecklistSection';
+export { default as ServiceRequestRelationsSection } from './ServiceRequestRelationsSection';
 export { default as FilterBar } from './FilterBar';
 export { default as AssignTechnicianModal } from './AssignTechnicianModal';
 export { default as ChangeStatusModal } from './ChangeStatusModal';
@@ -10,4 +12,9 @@ export { default as CloseConfirmationModal } from './CloseConfirmationModal';
 export { default as ServiceRequestDetailModal } from './ServiceRequestDetailModal';
 export { default as ServiceRequestsTable } from './ServiceRequestsTable';
 export { default as ServiceRequestsMobileView } from './ServiceRequestsMobileView';
+export { default as SlaBadge } from './SlaBadge';
+export { default as QuotesPanel } from './QuotesPanel';
+export { default as QuoteEditorModal } from './QuoteEditorModal';
+export { default as NewServiceRequestModal } from './NewServiceRequestModal';
+export { default as RequestTemplatesPanel } from './RequestTemplatesPanel';
 export * from './types';
@@ -1,5 +1,7 @@
 // Shared types for AdminServiceRequests and its sub-components
 
+import type { InvoiceLineItem } from '../../../services/invoiceService';
+
 export interface ServiceRequest {
   id: string;
   request_number: string;
@@ -20,6 +22,7 @@ export interface ServiceRequest {
   client_email: string;
   client_phone: string;
   technician_name: string | null;
+  assigned_technician_id?: string | null;
   requested_date: string;
   requested_time_start: string | null;
   requested_time_end: string | null;
@@ -34,12 +37,18 @@ export interface ServiceRequest {
   updated_at: string;
   acknowledged_at: string | null;
   started_at: string | null;
+  closed_at?: string | null;
   total_work_duration_minutes: number | null;
   file_count?: number;
   invoice_id?: string | null;
   invoice_number?: string | null;
   invoice_total?: number | null;
   invoice_payment_status?: string | null;
+  sla_policy_name?: string | null;
+  sla_acknowledge_due_at?: string | null;
+  sla_resolve_due_at?: string | null;
+  sla_acknowledge_breached_at?: string | null;
+  sla_resolve_breached_at?: string | null;
   locationDetails?: {
     name: string;
     street_address_1: string;
@@ -102,6 +111,8 @@ export interface ServiceRequestFile {
   uploaded_by_type?: string;
 }
 
+export type NoteEmailStatus = 'pending' | 'sent' | 'failed';
+
 export interface ServiceRequestNote {
   id: string;
   note_text: string;
@@ -109,8 +120,16 @@ export interface ServiceRequestNote {
   created_by_type: string;
   created_by_name: string;
   created_at: string;
+  is_visible_to_client?: boolean;
+  // Delivery of a 'client_reply' note, emailed to the request contact
+  email_status?: NoteEmailStatus | null;
+  email_to?: string | null;
+  email_error?: string | null;
+  email_sent_at?: string | null;
 }
 
+export type NewNoteType = 'employee_note' | 'client_reply';
+
 export interface Invoice {
   id: string;
   invoice_number: string;
@@ -118,17 +137,6 @@ export interface Invoice {
   due_date: string;
   payment_date: string | null;
   payment_status: string;
-  base_hourly_rate: number;
-  standard_hours: number;
-  standard_rate: number;
-  standard_cost: number;
-  premium_hours: number;
-  premium_rate: number;
-  premium_cost: number;
-  emergency_hours: number;
-  emergency_rate: number;
-  emergency_cost: number;
-  waived_hours: number;
   is_first_service_request: boolean;
   subtotal: number;
   tax_rate: number;
@@ -161,6 +169,12 @@ export interface CompanyInfo {
   company_email: string;
 }
 
+export interface InvoiceViewerData {
+  invoice: Invoice;
+  companyInfo: CompanyInfo;
+  lineItems: InvoiceLineItem[];
+}
+
 export interface Filters {
   search: string;
   status: string;
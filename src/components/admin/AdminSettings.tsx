@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Settings, Clock, Shield, Save, RotateCcw, MapPin, ChevronUp, ChevronDown, Minimize2, Calendar } from 'lucide-react';
+import { Settings, Clock, Shield, Save, RotateCcw, MapPin, ChevronUp, ChevronDown, Minimize2, Calendar, Bell } from 'lucide-react';
 import { useEnhancedAuth } from '../../contexts/EnhancedAuthContext';
 import { SessionConfig } from '../../utils/sessionManager';
 import { themeClasses } from '../../contexts/ThemeContext';
@@ -26,6 +26,33 @@ interface SchedulerConfig {
   minimumAdvanceHours: number;
 }
 
+// Payment reminder cadence (system_settings.invoice_dunning_config)
+interface DunningConfig {
+  enabled: boolean;
+  offsetDays: number[];
+  sendSms: boolean;
+}
+
+const DEFAULT_DUNNING_CONFIG: DunningConfig = {
+  enabled: true,
+  offsetDays: [-3, 0, 7, 14, 30],
+  sendSms: false
+};
+
+// "-3, 0, 7" -> [-3, 0, 7]; null if any entry is not a whole number of days
+// between 60 before and 365 after the due date
+const parseOffsetDays = (text: string): number[] | null => {
+  const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+  const offsets = parts.map(Number);
+  if (offsets.some(offset => !Number.isInteger(offset) || offset < -60 || offset > 365)) return null;
+  return [...new Set(offsets)].sort((a, b) => a - b);
+};
+
+const describeOffset = (offset: number) =>
+  offset < 0 ? `${-offset} day${offset === -1 ? '' : 's'} before due`
+    : offset === 0 ? 'on the due date'
+    : `${offset} day${offset === 1 ? '' : 's'} overdue`;
+
 const AdminSettings: React.FC = () => {
   const { sessionConfig, updateSessionConfig } = useEnhancedAuth();
   const [formData, setFormData] = useState<SessionConfig>({
@@ -69,6 +96,12 @@ const AdminSettings: React.FC = () => {
   const [mfaHasChanges, setMfaHasChanges] = useState(false);
   const [mfaSaveStatus, setMfaSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
 
+  // Payment reminder state
+  const [dunningConfig, setDunningConfig] = useState<DunningConfig>(DEFAULT_DUNNING_CONFIG);
+  const [dunningOffsetsText, setDunningOffsetsText] = useState(DEFAULT_DUNNING_CONFIG.offsetDays.join(', '));
+  const [dunningHasChanges, setDunningHasChanges] = useState(false);
+  const [dunningSaveStatus, setDunningSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+
   // Header measurement for scroll indicators
   const headerRef = useRef<HTMLDivElement>(null);
   const [headerHeight, setHeaderHeight] = useState(80); // fallback value
@@ -96,6 +129,11 @@ const AdminSettings: React.FC = () => {
     loadMfaConfiguration();
   }, []);
 
+  // Load payment reminder configuration
+  useEffect(() => {
+    loadDunningConfiguration();
+  }, []);
+
   // Measure header height for scroll indicators
   useEffect(() => {
     if (headerRef.current) {
@@ -195,6 +233,23 @@ const AdminSettings: React.FC = () => {
     }
   };
 
+  const loadDunningConfiguration = async () => {
+    try {
+      const setting = await systemSettingsService.getSystemSetting('invoice_dunning_config');
+      const value = (setting?.value || {}) as Partial<DunningConfig>;
+      const config: DunningConfig = {
+        enabled: value.enabled !== false,
+        offsetDays: Array.isArray(value.offsetDays) ? value.offsetDays : DEFAULT_DUNNING_CONFIG.offsetDays,
+        sendSms: value.sendSms === true
+      };
+      setDunningConfig(config);
+      setDunningOffsetsText(config.offsetDays.join(', '));
+      setDunningHasChanges(false);
+    } catch (error) {
+      console.error('Failed to load payment reminder configuration:', error);
+    }
+  };
+
   // Handle scroll events for fade indicators
   const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
     const target = e.currentTarget;
@@ -426,6 +481,29 @@ const AdminSettings: React.FC = () => {
     }
   };
 
+  const dunningOffsets = parseOffsetDays(dunningOffsetsText);
+
+  const handleSaveDunningConfig = async () => {
+    if (!dunningOffsets) return;
+    setDunningSaveStatus('saving');
+    try {
+      const config = { ...dunningConfig, offsetDays: dunningOffsets };
+      await systemSettingsService.updateSystemSetting('invoice_dunning_config', config);
+      setDunningConfig(config);
+      setDunningOffsetsText(config.offsetDays.join(', '));
+      setDunningHasChanges(false);
+      setDunningSaveStatus('saved');
+      console.log('✅ Payment reminder configuration saved successfully:', config);
+
+      // Clear saved status after 3 seconds
+      setTimeout(() => setDunningSaveStatus('idle'), 3000);
+    } catch (error) {
+      console.error('Error saving payment reminder configuration:', error);
+      setDunningSaveStatus('error');
+      setTimeout(() => setDunningSaveStatus('idle'), 3000);
+    }
+  };
+
   return (
     <div className="h-full relative" style={{ height: 'calc(100vh - 80px)' }}>
       <div className="h-full overflow-y-auto" onScroll={handleScroll}>
@@ -867,6 +945,165 @@ const AdminSettings: React.FC = () => {
         </div>
       </div>
 
+      {/* Payment Reminders */}
+      <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg`}>
+        <div className={`px-6 py-4 border-b ${themeClasses.border.primary}`}>
+          <div className="flex items-center">
+            <Bell className="w-5 h-5 text-yellow-500 mr-2" />
+            <h2 className={`text-lg font-medium ${themeClasses.text.primary}`}>Payment Reminders</h2>
+          </div>
+          <p className={`text-sm ${themeClasses.text.secondary} mt-1`}>
+            Automatically remind clients about unpaid invoices. Reminders include the invoice PDF and a Stripe payment link, and can be paused per invoice from Invoices.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Reminders Toggle */}
+          <div className="flex items-center justify-between">
+            <div className="flex-1 mr-4">
+              <label htmlFor="dunning-toggle" className={`block text-sm font-medium ${themeClasses.text.secondary} mb-1`}>
+                Send Payment Reminders
+              </label>
+              <p className={`text-xs ${themeClasses.text.muted}`}>
+                Invoices past their due date are marked overdue either way
+              </p>
+            </div>
+            <div className="flex items-center">
+              <button
+                id="dunning-toggle"
+                onClick={() => {
+                  setDunningConfig({ ...dunningConfig, enabled: !dunningConfig.enabled });
+                  setDunningHasChanges(true);
+                }}
+                className={`relative inline-flex h-6 w-11 flex-shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 ${
+                  dunningConfig.enabled ? 'bg-green-600' : 'bg-gray-400'
+                }`}
+                role="switch"
+                aria-checked={dunningConfig.enabled}
+              >
+                <span
+                  aria-hidden="true"
+                  className={`pointer-events-none inline-block h-5 w-5 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${
+                    dunningConfig.enabled ? 'translate-x-5' : 'translate-x-0'
+                  }`}
+                />
+              </button>
+              <span className={`ml-3 text-sm font-medium ${themeClasses.text.primary}`}>
+                {dunningConfig.enabled ? 'Enabled' : 'Disabled'}
+              </span>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Cadence */}
+            <div>
+              <label htmlFor="dunningOffsets" className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>
+                Reminder Schedule (days from due date)
+              </label>
+              <input
+                type="text"
+                id="dunningOffsets"
+                value={dunningOffsetsText}
+                onChange={(e) => {
+                  setDunningOffsetsText(e.target.value);
+                  setDunningHasChanges(true);
+                }}
+                placeholder="-3, 0, 7, 14, 30"
+                className={`block w-full rounded-md shadow-sm focus:ring-yellow-500 focus:border-yellow-500 ${themeClasses.bg.primary} ${themeClasses.text.primary} border ${
+                  dunningOffsets ? themeClasses.border.primary : 'border-red-500'
+                }`}
+              />
+              <p className={`mt-1 text-xs ${dunningOffsets ? themeClasses.text.muted : 'text-red-500'}`}>
+                {dunningOffsets
+                  ? 'Negative numbers are days before the due date, 0 is the due date'
+                  : 'Enter whole numbers between -60 and 365, separated by commas'}
+              </p>
+            </div>
+
+            {/* SMS */}
+            <div>
+              <span className={`block text-sm font-medium ${themeClasses.text.secondary} mb-2`}>Channels</span>
+              <label className={`flex items-center text-sm ${themeClasses.text.primary}`}>
+                <input
+                  type="checkbox"
+                  checked={dunningConfig.sendSms}
+                  onChange={(e) => {
+                    setDunningConfig({ ...dunningConfig, sendSms: e.target.checked });
+                    setDunningHasChanges(true);
+                  }}
+                  className="mr-2"
+                />
+                Also text the primary contact (SMS)
+              </label>
+              <p className={`mt-1 text-xs ${themeClasses.text.muted}`}>
+                Reminders are always emailed to the invoice's primary contact
+              </p>
+            </div>
+          </div>
+
+          {/* Current Values Display */}
+          {dunningOffsets && dunningOffsets.length > 0 && (
+            <div className={`${themeClasses.bg.secondary} rounded-lg p-4`}>
+              <h3 className={`text-sm font-medium ${themeClasses.text.primary} mb-2`}>Reminder Schedule</h3>
+              <ul className={`text-sm ${themeClasses.text.primary} list-disc list-inside`}>
+                {dunningOffsets.map(offset => (
+                  <li key={offset}>{describeOffset(offset)}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => {
+                  setDunningConfig(DEFAULT_DUNNING_CONFIG);
+                  setDunningOffsetsText(DEFAULT_DUNNING_CONFIG.offsetDays.join(', '));
+                  setDunningHasChanges(true);
+                }}
+                className={`inline-flex items-center px-3 py-2 border ${themeClasses.border.primary} shadow-sm text-sm font-medium rounded-md ${themeClasses.text.secondary} ${themeClasses.bg.primary} ${themeClasses.bg.hover} focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-500`}
+              >
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Reset to Defaults
+              </button>
+            </div>
+
+            <button
+              onClick={handleSaveDunningConfig}
+              disabled={!dunningHasChanges || !dunningOffsets || dunningSaveStatus === 'saving'}
+              className={`inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md text-white focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-500 ${
+                dunningHasChanges && dunningOffsets && dunningSaveStatus !== 'saving'
+                  ? 'bg-yellow-600 hover:bg-yellow-700'
+                  : 'bg-gray-400 cursor-not-allowed'
+              }`}
+            >
+              {dunningSaveStatus === 'saving' ? (
+                <>
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
+                  Saving...
+                </>
+              ) : dunningSaveStatus === 'saved' ? (
+                <>
+                  <span className="text-green-200 mr-2">✓</span>
+                  Saved
+                </>
+              ) : dunningSaveStatus === 'error' ? (
+                <>
+                  <span className="text-red-200 mr-2">✗</span>
+                  Error
+                </>
+              ) : (
+                <>
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Reminder Settings
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+
       {/* Service Location Management */}
       <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg`}>
         <div className={`px-6 py-4 border-b ${themeClasses.border.primary}`}>
@@ -32,12 +32,15 @@ import {
   Zap,
   Code,
   Package,
-  TestTube
+  TestTube,
+  MonitorCheck,
+  FolderKanban,
+  CalendarClock
 } from 'lucide-react';
 import { themeClasses } from '../../contexts/ThemeContext';
 import { usePermissionContext } from '../../contexts/PermissionContext';
 
-type AdminView = 'overview' | 'employees' | 'employee-calendar' | 'clients' | 'businesses' | 'services' | 'service-requests' | 'invoices' | 'service-locations' | 'closure-reasons' | 'roles' | 'permissions' | 'permission-audit-log' | 'role-hierarchy' | 'reports' | 'settings' | 'service-hour-rates' | 'pricing-settings' | 'password-complexity' | 'workflow-configuration' | 'filter-presets' | 'quota-management' | 'client-files' | 'testimonials' | 'rating-questions' | 'agents' | 'agent-details' | 'trial-agents' | 'alert-configurations' | 'alert-history' | 'alert-subscriptions' | 'alert-notification-logs' | 'alert-escalation-policies' | 'policy-automation' | 'software-deployment' | 'subscription-pricing';
+type AdminView = 'overview' | 'employees' | 'employee-calendar' | 'clients' | 'businesses' | 'services' | 'service-requests' | 'dispatch-board' | 'projects' | 'invoices' | 'managed-services' | 'service-locations' | 'closure-reasons' | 'roles' | 'permissions' | 'permission-audit-log' | 'role-hierarchy' | 'reports' | 'settings' | 'service-hour-rates' | 'pricing-settings' | 'password-complexity' | 'workflow-configuration' | 'filter-presets' | 'quota-management' | 'client-files' | 'testimonials' | 'rating-questions' | 'agents' | 'agent-details' | 'trial-agents' | 'alert-configurations' | 'alert-history' | 'alert-subscriptions' | 'alert-notification-logs' | 'alert-escalation-policies' | 'policy-automation' | 'software-deployment' | 'subscription-pricing';
 
 interface AdminSidebarProps {
   currentView: AdminView;
@@ -91,6 +94,8 @@ const AdminSidebar: React.FC<AdminSidebarProps> = ({
       items: [
         { id: 'services', label: 'Service Types', icon: Settings, permission: 'view.services.enable' },
         { id: 'service-requests', label: 'Service Requests', icon: ClipboardList, permission: 'view.service_requests.enable' },
+        { id: 'dispatch-board', label: 'Dispatch Board', icon: CalendarClock, permission: 'view.service_requests.enable' },
+        { id: 'projects', label: 'Projects', icon: FolderKanban, permission: 'view.projects.enable' },
         { id: 'workflow-configuration', label: 'Workflow Configuration', icon: Workflow, permission: 'view.workflow_configuration.enable' },
         { id: 'closure-reasons', label: 'Closure Reasons', icon: XCircle, permission: 'view.closure_reasons.enable' },
         { id: 'testimonials', label: 'Testimonials', icon: MessageSquare, permission: 'view.testimonials.enable' },
@@ -120,6 +125,7 @@ const AdminSidebar: React.FC<AdminSidebarProps> = ({
       title: 'Billing & Finance',
       items: [
         { id: 'invoices', label: 'Invoices', icon: Receipt, permission: 'view.invoices.enable' },
+        { id: 'managed-services', label: 'Managed Services Billing', icon: MonitorCheck, permission: 'view.invoices.enable' },
         { id: 'subscription-pricing', label: 'Subscription Management', icon: Users, permission: 'view.settings.enable' },
         { id: 'service-hour-rates', label: 'Service Hour Rates', icon: Clock, permission: 'view.service_hour_rates.enable' },
         { id: 'pricing-settings', label: 'Pricing Settings', icon: DollarSign, permission: 'view.pricing_settings.enable' }
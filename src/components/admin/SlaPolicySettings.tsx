@@ -0,0 +1,572 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CalendarClock, Edit2, Plus, Save, Timer, Trash2, X } from 'lucide-react';
+import {
+  slaService,
+  formatSlaDuration,
+  SaveSlaCalendarInput,
+  SaveSlaPolicyInput,
+  SlaBreach,
+  SlaCalendar,
+  SlaOptions,
+  SlaPolicy,
+} from '../../services/slaService';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+const cardClass = 'bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700';
+
+const emptyPolicy: SaveSlaPolicyInput = {
+  name: '',
+  description: '',
+  businessId: null,
+  urgencyLevelId: null,
+  acknowledgeTargetMinutes: 60,
+  resolveTargetMinutes: 480,
+  calendarId: null,
+  isActive: true,
+};
+
+const emptyCalendar: SaveSlaCalendarInput = {
+  name: '',
+  timezone: 'America/Los_Angeles',
+  weeklyHours: Object.fromEntries([1, 2, 3, 4, 5].map(d => [String(d), { start: '08:00', end: '17:00' }])),
+  holidays: [],
+};
+
+const policyToInput = (p: SlaPolicy): SaveSlaPolicyInput => ({
+  name: p.name,
+  description: p.description,
+  businessId: p.business_id,
+  urgencyLevelId: p.urgency_level_id,
+  acknowledgeTargetMinutes: p.acknowledge_target_minutes,
+  resolveTargetMinutes: p.resolve_target_minutes,
+  calendarId: p.calendar_id,
+  isActive: p.is_active,
+});
+
+const calendarToInput = (c: SlaCalendar): SaveSlaCalendarInput => ({
+  name: c.name,
+  timezone: c.timezone,
+  weeklyHours: c.weekly_hours,
+  holidays: c.holidays,
+});
+
+const parseMinutes = (value: string): number | null => (value === '' ? null : parseInt(value) || null);
+
+/**
+ * SLA policies, business-hours calendars and the recent breach log. Shown
+ * under the workflow notification rules, which deliver the SLA warnings.
+ */
+const SlaPolicySettings: React.FC = () => {
+  const [policies, setPolicies] = useState<SlaPolicy[]>([]);
+  const [calendars, setCalendars] = useState<SlaCalendar[]>([]);
+  const [breaches, setBreaches] = useState<SlaBreach[]>([]);
+  const [options, setOptions] = useState<SlaOptions>({ businesses: [], urgencyLevels: [], calendars: [] });
+  const [refreshKey, setRefreshKey] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // null = closed, 'new' = creating, otherwise the id being edited
+  const [editingPolicy, setEditingPolicy] = useState<string | null>(null);
+  const [policyForm, setPolicyForm] = useState<SaveSlaPolicyInput>(emptyPolicy);
+  const [editingCalendar, setEditingCalendar] = useState<string | null>(null);
+  const [calendarForm, setCalendarForm] = useState<SaveSlaCalendarInput>(emptyCalendar);
+  const [holidayText, setHolidayText] = useState('');
+
+  useEffect(() => {
+    Promise.all([
+      slaService.listPolicies(),
+      slaService.listCalendars(),
+      slaService.listBreaches({ limit: 20 }),
+      slaService.getOptions(),
+    ])
+      .then(([policyRes, calendarRes, breachRes, optionRes]) => {
+        setPolicies(policyRes.data);
+        setCalendars(calendarRes.data);
+        setBreaches(breachRes.data);
+        setOptions(optionRes.data);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load SLA settings'));
+  }, [refreshKey]);
+
+  const reload = () => setRefreshKey(k => k + 1);
+
+  const run = async (action: () => Promise<unknown>, onDone?: () => void) => {
+    setSaving(true);
+    setError(null);
+    try {
+      await action();
+      onDone?.();
+      reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openPolicy = (policy?: SlaPolicy) => {
+    setEditingPolicy(policy ? policy.id : 'new');
+    setPolicyForm(policy ? policyToInput(policy) : emptyPolicy);
+  };
+
+  const savePolicy = () => run(
+    () => editingPolicy === 'new'
+      ? slaService.createPolicy(policyForm)
+      : slaService.updatePolicy(editingPolicy as string, policyForm),
+    () => setEditingPolicy(null)
+  );
+
+  const deletePolicy = (policy: SlaPolicy) => {
+    if (!window.confirm(`Delete SLA policy "${policy.name}"? Requests already tracked keep their due times.`)) return;
+    run(() => slaService.removePolicy(policy.id));
+  };
+
+  const openCalendar = (calendar?: SlaCalendar) => {
+    const form = calendar ? calendarToInput(calendar) : emptyCalendar;
+    setEditingCalendar(calendar ? calendar.id : 'new');
+    setCalendarForm(form);
+    setHolidayText(form.holidays.join('\n'));
+  };
+
+  const saveCalendar = () => {
+    const input = {
+      ...calendarForm,
+      holidays: holidayText.split(/[\s,]+/).map(h => h.trim()).filter(Boolean),
+    };
+    run(
+      () => editingCalendar === 'new'
+        ? slaService.createCalendar(input)
+        : slaService.updateCalendar(editingCalendar as string, input),
+      () => setEditingCalendar(null)
+    );
+  };
+
+  const deleteCalendar = (calendar: SlaCalendar) => {
+    if (!window.confirm(`Delete calendar "${calendar.name}"? Policies using it fall back to 24x7.`)) return;
+    run(() => slaService.removeCalendar(calendar.id));
+  };
+
+  const setDayHours = (day: number, hours: { start: string; end: string } | undefined) => {
+    const weeklyHours = { ...calendarForm.weeklyHours };
+    if (hours) weeklyHours[String(day)] = hours;
+    else delete weeklyHours[String(day)];
+    setCalendarForm({ ...calendarForm, weeklyHours });
+  };
+
+  const describeScope = (p: SlaPolicy) => {
+    if (p.business_name && p.urgency_name) return `${p.business_name} · ${p.urgency_name}`;
+    return p.business_name || (p.urgency_name ? `${p.urgency_name} urgency` : 'All requests (default)');
+  };
+
+  const describeHours = (c: SlaCalendar) =>
+    DAY_LABELS.map((label, day) => {
+      const hours = c.weekly_hours[String(day)];
+      return hours ? `${label} ${hours.start}-${hours.end}` : null;
+    }).filter(Boolean).join(', ');
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">{error}</div>
+      )}
+
+      {/* SLA Policies */}
+      <div className={cardClass}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center">
+              <Timer className="h-5 w-5 mr-2 text-blue-600" />
+              SLA Policies
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              Acknowledge and resolve targets by business and/or urgency. The most specific active policy applies.
+            </p>
+          </div>
+          <button
+            onClick={() => openPolicy()}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Policy</span>
+          </button>
+        </div>
+
+        {editingPolicy && (
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Policy Name</label>
+                <input
+                  type="text"
+                  value={policyForm.name}
+                  onChange={(e) => setPolicyForm({ ...policyForm, name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Description</label>
+                <input
+                  type="text"
+                  value={policyForm.description || ''}
+                  onChange={(e) => setPolicyForm({ ...policyForm, description: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Business</label>
+                <select
+                  value={policyForm.businessId || ''}
+                  onChange={(e) => setPolicyForm({ ...policyForm, businessId: e.target.value || null })}
+                  className={inputClass}
+                >
+                  <option value="">Any business</option>
+                  {options.businesses.map(b => <option key={b.id} value={b.id}>{b.business_name}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Urgency</label>
+                <select
+                  value={policyForm.urgencyLevelId || ''}
+                  onChange={(e) => setPolicyForm({ ...policyForm, urgencyLevelId: e.target.value || null })}
+                  className={inputClass}
+                >
+                  <option value="">Any urgency</option>
+                  {options.urgencyLevels.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className={labelClass}>Acknowledge within (minutes)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={policyForm.acknowledgeTargetMinutes ?? ''}
+                  onChange={(e) => setPolicyForm({ ...policyForm, acknowledgeTargetMinutes: parseMinutes(e.target.value) })}
+                  className={inputClass}
+                />
+                {policyForm.acknowledgeTargetMinutes && (
+                  <p className="text-xs text-gray-500 mt-1">{formatSlaDuration(policyForm.acknowledgeTargetMinutes)}</p>
+                )}
+              </div>
+              <div>
+                <label className={labelClass}>Resolve within (minutes)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={policyForm.resolveTargetMinutes ?? ''}
+                  onChange={(e) => setPolicyForm({ ...policyForm, resolveTargetMinutes: parseMinutes(e.target.value) })}
+                  className={inputClass}
+                />
+                {policyForm.resolveTargetMinutes && (
+                  <p className="text-xs text-gray-500 mt-1">{formatSlaDuration(policyForm.resolveTargetMinutes)}</p>
+                )}
+              </div>
+              <div>
+                <label className={labelClass}>Clock</label>
+                <select
+                  value={policyForm.calendarId || ''}
+                  onChange={(e) => setPolicyForm({ ...policyForm, calendarId: e.target.value || null })}
+                  className={inputClass}
+                >
+                  <option value="">24x7</option>
+                  {calendars.map(c => <option key={c.id} value={c.id}>{c.name} (business hours)</option>)}
+                </select>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={policyForm.isActive}
+                  onChange={(e) => setPolicyForm({ ...policyForm, isActive: e.target.checked })}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Active</span>
+              </label>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setEditingPolicy(null)}
+                  disabled={saving}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={savePolicy}
+                  disabled={saving || !policyForm.name.trim()}
+                  className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4" />
+                  <span>{saving ? 'Saving...' : 'Save'}</span>
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {policies.length === 0 && (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+              No SLA policies yet. Requests are not tracked until a policy matches them.
+            </p>
+          )}
+          {policies.map(policy => (
+            <div key={policy.id} className="p-6 flex items-start justify-between">
+              <div>
+                <div className="flex items-center space-x-3">
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{policy.name}</h3>
+                  <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                    policy.is_active
+                      ? 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-200'
+                      : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-300'
+                  }`}>
+                    {policy.is_active ? 'Active' : 'Inactive'}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{describeScope(policy)}</p>
+                <div className="grid grid-cols-3 gap-6 mt-3 text-sm">
+                  <div>
+                    <span className="text-gray-500 dark:text-gray-400">Acknowledge:</span>
+                    <div className="font-medium text-gray-900 dark:text-white mt-1">
+                      {policy.acknowledge_target_minutes ? formatSlaDuration(policy.acknowledge_target_minutes) : '—'}
+                    </div>
+                  </div>
+                  <div>
+                    <span className="text-gray-500 dark:text-gray-400">Resolve:</span>
+                    <div className="font-medium text-gray-900 dark:text-white mt-1">
+                      {policy.resolve_target_minutes ? formatSlaDuration(policy.resolve_target_minutes) : '—'}
+                    </div>
+                  </div>
+                  <div>
+                    <span className="text-gray-500 dark:text-gray-400">Clock:</span>
+                    <div className="font-medium text-gray-900 dark:text-white mt-1">
+                      {policy.calendar_name || '24x7'}
+                    </div>
+                  </div>
+                </div>
+              </div>
+              <div className="flex space-x-1">
+                <button
+                  onClick={() => openPolicy(policy)}
+                  className="p-2 text-gray-600 hover:text-blue-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+                  title="Edit policy"
+                >
+                  <Edit2 className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => deletePolicy(policy)}
+                  className="p-2 text-gray-600 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+                  title="Delete policy"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Business-Hours Calendars */}
+      <div className={cardClass}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center">
+              <CalendarClock className="h-5 w-5 mr-2 text-blue-600" />
+              Business-Hours Calendars
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+              SLA clocks on a calendar only run during its hours and pause on holidays
+            </p>
+          </div>
+          <button
+            onClick={() => openCalendar()}
+            className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Calendar</span>
+          </button>
+        </div>
+
+        {editingCalendar && (
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700 space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className={labelClass}>Calendar Name</label>
+                <input
+                  type="text"
+                  value={calendarForm.name}
+                  onChange={(e) => setCalendarForm({ ...calendarForm, name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Timezone</label>
+                <input
+                  type="text"
+                  value={calendarForm.timezone}
+                  onChange={(e) => setCalendarForm({ ...calendarForm, timezone: e.target.value })}
+                  placeholder="America/Los_Angeles"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <span className={labelClass}>Weekly Hours</span>
+                {DAY_LABELS.map((label, day) => {
+                  const hours = calendarForm.weeklyHours[String(day)];
+                  return (
+                    <div key={label} className="flex items-center space-x-3 text-sm">
+                      <label className="flex items-center space-x-2 w-20 text-gray-700 dark:text-gray-300">
+                        <input
+                          type="checkbox"
+                          checked={Boolean(hours)}
+                          onChange={(e) => setDayHours(day, e.target.checked ? { start: '08:00', end: '17:00' } : undefined)}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span>{label}</span>
+                      </label>
+                      {hours ? (
+                        <>
+                          <input
+                            type="time"
+                            value={hours.start}
+                            onChange={(e) => setDayHours(day, { ...hours, start: e.target.value })}
+                            className={`${inputClass} w-32`}
+                          />
+                          <span className="text-gray-500">to</span>
+                          <input
+                            type="time"
+                            value={hours.end}
+                            onChange={(e) => setDayHours(day, { ...hours, end: e.target.value })}
+                            className={`${inputClass} w-32`}
+                          />
+                        </>
+                      ) : (
+                        <span className="text-gray-500 dark:text-gray-400">Closed</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+              <div>
+                <label className={labelClass}>Holidays (YYYY-MM-DD, one per line)</label>
+                <textarea
+                  value={holidayText}
+                  onChange={(e) => setHolidayText(e.target.value)}
+                  rows={8}
+                  className={`${inputClass} font-mono text-sm`}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={() => setEditingCalendar(null)}
+                disabled={saving}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                <X className="h-4 w-4" />
+              </button>
+              <button
+                onClick={saveCalendar}
+                disabled={saving || !calendarForm.name.trim()}
+                className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              >
+                <Save className="h-4 w-4" />
+                <span>{saving ? 'Saving...' : 'Save'}</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        <div className="divide-y divide-gray-200 dark:divide-gray-700">
+          {calendars.length === 0 && (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No calendars. Policies without one run 24x7.</p>
+          )}
+          {calendars.map(calendar => (
+            <div key={calendar.id} className="p-6 flex items-start justify-between">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{calendar.name}</h3>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{calendar.timezone} · {describeHours(calendar)}</p>
+                {calendar.holidays.length > 0 && (
+                  <p className="text-xs text-gray-500 mt-1">{calendar.holidays.length} holiday(s)</p>
+                )}
+              </div>
+              <div className="flex space-x-1">
+                <button
+                  onClick={() => openCalendar(calendar)}
+                  className="p-2 text-gray-600 hover:text-blue-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+                  title="Edit calendar"
+                >
+                  <Edit2 className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => deleteCalendar(calendar)}
+                  className="p-2 text-gray-600 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md transition-colors"
+                  title="Delete calendar"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Recent Breaches */}
+      <div className={cardClass}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white flex items-center">
+            <AlertTriangle className="h-5 w-5 mr-2 text-red-600" />
+            Recent SLA Breaches
+          </h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+            The full history is available as the "SLA Breaches" source in Reports
+          </p>
+        </div>
+        {breaches.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500 dark:text-gray-400">No breaches recorded.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700/50">
+              <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                <th className="px-6 py-3">Request</th>
+                <th className="px-6 py-3">Business</th>
+                <th className="px-6 py-3">Target</th>
+                <th className="px-6 py-3">Due</th>
+                <th className="px-6 py-3">Over By</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {breaches.map(breach => (
+                <tr key={breach.id} className="text-gray-900 dark:text-white">
+                  <td className="px-6 py-3">
+                    <span className="font-mono">{breach.request_number}</span>
+                    <div className="text-xs text-gray-500">{breach.title}</div>
+                  </td>
+                  <td className="px-6 py-3">{breach.business_name || '—'}</td>
+                  <td className="px-6 py-3 capitalize">{breach.target}</td>
+                  <td className="px-6 py-3">{new Date(breach.due_at).toLocaleString()}</td>
+                  <td className="px-6 py-3">
+                    {formatSlaDuration(Math.round(Number(breach.minutes_over)))}
+                    {!breach.met_at && <span className="ml-2 text-xs text-red-600">still open</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SlaPolicySettings;
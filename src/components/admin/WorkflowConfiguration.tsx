@@ -13,6 +13,8 @@ import {
   X
 } from 'lucide-react';
 import apiService from '../../services/apiService';
+import { usePermission } from '../../hooks/usePermission';
+import SlaPolicySettings from './SlaPolicySettings';
 
 interface WorkflowRule {
   id: string;
@@ -59,6 +61,8 @@ const WorkflowConfiguration: React.FC<WorkflowConfigurationProps> = ({
   const [editingRule, setEditingRule] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<Partial<WorkflowRule>>({});
   const [saving, setSaving] = useState(false);
+  const { checkPermission } = usePermission();
+  const canManageSla = checkPermission('manage.sla_policies.enable');
 
   // Sync with props
   useEffect(() => {
@@ -151,7 +155,9 @@ const WorkflowConfiguration: React.FC<WorkflowConfigurationProps> = ({
       'started': 'Started',
       'completed': 'Completed',
       'closed': 'Closed',
-      'cancelled': 'Cancelled'
+      'cancelled': 'Cancelled',
+      'sla_warning': 'SLA Warning',
+      'sla_breach': 'SLA Breach'
     };
     return labels[event] || event;
   };
@@ -449,6 +455,9 @@ const WorkflowConfiguration: React.FC<WorkflowConfigurationProps> = ({
           ))}
         </div>
       </div>
+
+      {/* SLA Policies */}
+      {canManageSla && <SlaPolicySettings />}
     </div>
   );
 };
@@ -0,0 +1,323 @@
+/**
+ * Report definition editor: data source, columns, filters, grouping,
+ * date range and chart type. Purely controlled -- the parent owns the
+ * definition and decides when to preview or save.
+ */
+import React from 'react';
+import { Plus, X } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import {
+  ReportAggregateFn,
+  ReportChartType,
+  ReportDateInterval,
+  ReportDatePreset,
+  ReportDefinition,
+  ReportFilter,
+  ReportFilterOperator,
+  ReportSource,
+} from '../../../services/reportsService';
+
+interface Props {
+  sources: ReportSource[];
+  definition: ReportDefinition;
+  onChange: (definition: ReportDefinition) => void;
+  onSourceChange: (source: ReportSource) => void;
+}
+
+const DATE_PRESETS: Array<{ value: ReportDatePreset; label: string }> = [
+  { value: 'today', label: 'Today' },
+  { value: 'last_7_days', label: 'Last 7 days' },
+  { value: 'last_30_days', label: 'Last 30 days' },
+  { value: 'last_90_days', label: 'Last 90 days' },
+  { value: 'this_month', label: 'This month' },
+  { value: 'last_month', label: 'Last month' },
+  { value: 'this_year', label: 'This year' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+const OPERATORS: Array<{ value: ReportFilterOperator; label: string }> = [
+  { value: 'eq', label: 'equals' },
+  { value: 'neq', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'gt', label: '>' },
+  { value: 'gte', label: '≥' },
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '≤' },
+  { value: 'in', label: 'is one of (comma separated)' },
+  { value: 'is_null', label: 'is empty' },
+  { value: 'not_null', label: 'is not empty' },
+];
+
+const INTERVALS: ReportDateInterval[] = ['day', 'week', 'month', 'quarter', 'year'];
+const AGGREGATES: ReportAggregateFn[] = ['count', 'sum', 'avg', 'min', 'max'];
+const CHART_TYPES: ReportChartType[] = ['table', 'bar', 'line', 'pie'];
+
+const selectClass = `w-full px-3 py-2 text-sm border rounded-md ${themeClasses.input}`;
+const labelClass = `block text-xs font-medium mb-1 ${themeClasses.text.secondary}`;
+
+const ReportBuilderForm: React.FC<Props> = ({ sources, definition, onChange, onSourceChange }) => {
+  const source = sources.find(s => s.key === definition.dataSource);
+  if (!source) return null;
+
+  const groupField = definition.groupBy ? source.fields.find(f => f.key === definition.groupBy?.field) : undefined;
+  const numericFields = source.fields.filter(f => f.aggregatable);
+
+  const toggleColumn = (key: string) => {
+    const columns = definition.columns.includes(key)
+      ? definition.columns.filter(c => c !== key)
+      : [...definition.columns, key];
+    // Dropping a column the report is sorted by would make the definition invalid.
+    const sort = definition.sort && !columns.includes(definition.sort.field) ? undefined : definition.sort;
+    onChange({ ...definition, columns, sort });
+  };
+
+  const updateFilter = (index: number, patch: Partial<ReportFilter>) => {
+    const filters = definition.filters.map((f, i) => (i === index ? { ...f, ...patch } : f));
+    onChange({ ...definition, filters });
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className={labelClass}>Data source</label>
+          <select
+            className={selectClass}
+            value={definition.dataSource}
+            onChange={(e) => {
+              const next = sources.find(s => s.key === e.target.value);
+              if (next) onSourceChange(next);
+            }}
+          >
+            {sources.map(s => (
+              <option key={s.key} value={s.key}>{s.label}</option>
+            ))}
+          </select>
+          {source.ownRowsOnly && (
+            <p className={`text-xs mt-1 ${themeClasses.text.warning}`}>Limited to your own assigned work.</p>
+          )}
+        </div>
+
+        <div>
+          <label className={labelClass}>Date range</label>
+          <select
+            className={selectClass}
+            value={definition.dateRange.preset}
+            onChange={(e) => onChange({ ...definition, dateRange: { preset: e.target.value as ReportDatePreset } })}
+          >
+            {DATE_PRESETS.map(p => (
+              <option key={p.value} value={p.value}>{p.label}</option>
+            ))}
+          </select>
+          {definition.dateRange.preset === 'custom' && (
+            <div className="flex gap-2 mt-2">
+              <input
+                type="date"
+                className={selectClass}
+                value={definition.dateRange.from || ''}
+                onChange={(e) => onChange({ ...definition, dateRange: { ...definition.dateRange, from: e.target.value } })}
+              />
+              <input
+                type="date"
+                className={selectClass}
+                value={definition.dateRange.to || ''}
+                onChange={(e) => onChange({ ...definition, dateRange: { ...definition.dateRange, to: e.target.value } })}
+              />
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className={labelClass}>Display</label>
+          <select
+            className={selectClass}
+            value={definition.chartType}
+            onChange={(e) => onChange({ ...definition, chartType: e.target.value as ReportChartType })}
+          >
+            {CHART_TYPES.map(type => (
+              <option key={type} value={type} disabled={type !== 'table' && !definition.groupBy}>
+                {type === 'table' ? 'Table only' : `${type.charAt(0).toUpperCase()}${type.slice(1)} chart`}
+              </option>
+            ))}
+          </select>
+          {!definition.groupBy && (
+            <p className={`text-xs mt-1 ${themeClasses.text.muted}`}>Charts need a grouping.</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className={labelClass}>Group by</label>
+          <select
+            className={selectClass}
+            value={definition.groupBy?.field || ''}
+            onChange={(e) => {
+              const field = source.fields.find(f => f.key === e.target.value);
+              onChange({
+                ...definition,
+                groupBy: field ? { field: field.key, interval: field.type === 'date' ? 'month' : undefined } : null,
+                aggregate: field ? (definition.aggregate || { fn: 'count' }) : definition.aggregate,
+                chartType: field ? definition.chartType : 'table',
+                sort: undefined,
+              });
+            }}
+          >
+            <option value="">No grouping (list rows)</option>
+            {source.fields.filter(f => f.groupable).map(f => (
+              <option key={f.key} value={f.key}>{f.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {groupField?.type === 'date' && (
+          <div>
+            <label className={labelClass}>Interval</label>
+            <select
+              className={selectClass}
+              value={definition.groupBy?.interval || 'month'}
+              onChange={(e) => onChange({
+                ...definition,
+                groupBy: { field: groupField.key, interval: e.target.value as ReportDateInterval },
+              })}
+            >
+              {INTERVALS.map(i => (
+                <option key={i} value={i}>{i}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {definition.groupBy && (
+          <div>
+            <label className={labelClass}>Measure</label>
+            <div className="flex gap-2">
+              <select
+                className={selectClass}
+                value={definition.aggregate?.fn || 'count'}
+                onChange={(e) => {
+                  const fn = e.target.value as ReportAggregateFn;
+                  onChange({
+                    ...definition,
+                    aggregate: fn === 'count' ? { fn } : { fn, field: definition.aggregate?.field || numericFields[0]?.key },
+                  });
+                }}
+              >
+                {AGGREGATES.map(fn => (
+                  <option key={fn} value={fn} disabled={fn !== 'count' && numericFields.length === 0}>{fn}</option>
+                ))}
+              </select>
+              {definition.aggregate && definition.aggregate.fn !== 'count' && (
+                <select
+                  className={selectClass}
+                  value={definition.aggregate.field || ''}
+                  onChange={(e) => onChange({ ...definition, aggregate: { fn: definition.aggregate!.fn, field: e.target.value } })}
+                >
+                  {numericFields.map(f => (
+                    <option key={f.key} value={f.key}>{f.label}</option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {!definition.groupBy && (
+        <div>
+          <label className={labelClass}>Columns</label>
+          <div className="flex flex-wrap gap-2">
+            {source.fields.map(f => {
+              const selected = definition.columns.includes(f.key);
+              return (
+                <button
+                  key={f.key}
+                  type="button"
+                  onClick={() => toggleColumn(f.key)}
+                  className={`px-2 py-1 text-xs rounded-full border ${
+                    selected
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : `${themeClasses.border.secondary} ${themeClasses.text.secondary}`
+                  }`}
+                >
+                  {f.label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className={labelClass}>Filters</label>
+          <button
+            type="button"
+            onClick={() => onChange({
+              ...definition,
+              filters: [...definition.filters, { field: source.fields[0].key, operator: 'eq', value: '' }],
+            })}
+            className={`inline-flex items-center text-xs ${themeClasses.text.link}`}
+          >
+            <Plus className="w-3 h-3 mr-1" /> Add filter
+          </button>
+        </div>
+        {definition.filters.length === 0 && (
+          <p className={`text-xs ${themeClasses.text.muted}`}>No filters — all rows in the date range.</p>
+        )}
+        <div className="space-y-2">
+          {definition.filters.map((filter, index) => (
+            <div key={index} className="flex gap-2 items-center">
+              <select
+                className={selectClass}
+                value={filter.field}
+                onChange={(e) => updateFilter(index, { field: e.target.value })}
+              >
+                {source.fields.map(f => (
+                  <option key={f.key} value={f.key}>{f.label}</option>
+                ))}
+              </select>
+              <select
+                className={selectClass}
+                value={filter.operator}
+                onChange={(e) => {
+                  const operator = e.target.value as ReportFilterOperator;
+                  // 'in' carries an array; every other operator a scalar.
+                  const value = operator === 'in'
+                    ? (Array.isArray(filter.value) ? filter.value : String(filter.value ?? '').split(',').map(v => v.trim()).filter(Boolean))
+                    : (Array.isArray(filter.value) ? filter.value.join(', ') : filter.value);
+                  updateFilter(index, { operator, value });
+                }}
+              >
+                {OPERATORS.map(op => (
+                  <option key={op.value} value={op.value}>{op.label}</option>
+                ))}
+              </select>
+              {filter.operator !== 'is_null' && filter.operator !== 'not_null' && (
+                <input
+                  className={selectClass}
+                  value={Array.isArray(filter.value) ? filter.value.join(', ') : (filter.value ?? '')}
+                  onChange={(e) => updateFilter(index, {
+                    value: filter.operator === 'in'
+                      ? e.target.value.split(',').map(v => v.trim()).filter(Boolean)
+                      : e.target.value,
+                  })}
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => onChange({ ...definition, filters: definition.filters.filter((_, i) => i !== index) })}
+                className={themeClasses.text.muted}
+                aria-label="Remove filter"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportBuilderForm;
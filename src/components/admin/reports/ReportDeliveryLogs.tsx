@@ -0,0 +1,218 @@
+/**
+ * Delivery history for scheduled report emails -- one row per recipient per
+ * run. Modelled on AlertNotificationLogs.
+ */
+import React, { useCallback, useEffect, useState } from 'react';
+import { CheckCircle, Clock, Filter, Mail, Search, XCircle } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import { reportsService, ReportDelivery } from '../../../services/reportsService';
+
+const PAGE_SIZE = 50;
+
+const EMPTY_FILTERS = { startDate: '', endDate: '', status: '', search: '' };
+
+const inputClass = `block w-full px-3 py-2 text-sm border rounded-md ${themeClasses.input}`;
+const labelClass = `block text-xs font-medium mb-1 ${themeClasses.text.secondary}`;
+
+const getStatusBadge = (status: ReportDelivery['status']) => {
+  switch (status) {
+    case 'sent':
+      return (
+        <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300">
+          <CheckCircle className="w-3 h-3 mr-1" /> Sent
+        </span>
+      );
+    case 'failed':
+      return (
+        <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300">
+          <XCircle className="w-3 h-3 mr-1" /> Failed
+        </span>
+      );
+    default:
+      return (
+        <span className="inline-flex items-center px-2 py-1 rounded text-xs font-medium bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300">
+          <Clock className="w-3 h-3 mr-1" /> Pending
+        </span>
+      );
+  }
+};
+
+const ReportDeliveryLogs: React.FC = () => {
+  const [deliveries, setDeliveries] = useState<ReportDelivery[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDeliveries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await reportsService.listDeliveries({ ...filters, page, limit: PAGE_SIZE });
+      setDeliveries(response.data || []);
+      setTotalCount(response.total || 0);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load delivery log');
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, page]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [loadDeliveries]);
+
+  const handleFilterChange = (field: keyof typeof EMPTY_FILTERS, value: string) => {
+    setFilters({ ...filters, [field]: value });
+    setPage(1);
+  };
+
+  const totalPages = Math.ceil(totalCount / PAGE_SIZE);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className={`text-xl font-bold flex items-center ${themeClasses.text.primary}`}>
+          <Mail className="w-5 h-5 mr-2" /> Report Delivery Log
+        </h2>
+        <p className={`mt-1 text-sm ${themeClasses.text.muted}`}>
+          Scheduled and on-demand report emails ({totalCount} total)
+        </p>
+      </div>
+
+      <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} p-4 rounded-lg`}>
+        <div className={`flex items-center mb-4 ${themeClasses.text.primary}`}>
+          <Filter className="w-4 h-4 mr-2" /> <span className="text-sm font-medium">Filters</span>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <div className="md:col-span-2">
+            <label className={labelClass}>Search</label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+              <input
+                type="text"
+                value={filters.search}
+                onChange={(e) => handleFilterChange('search', e.target.value)}
+                placeholder="Report or recipient..."
+                className={`${inputClass} pl-10`}
+              />
+            </div>
+          </div>
+          <div>
+            <label className={labelClass}>Start date</label>
+            <input type="date" value={filters.startDate} onChange={(e) => handleFilterChange('startDate', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>End date</label>
+            <input type="date" value={filters.endDate} onChange={(e) => handleFilterChange('endDate', e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Status</label>
+            <select value={filters.status} onChange={(e) => handleFilterChange('status', e.target.value)} className={inputClass}>
+              <option value="">All</option>
+              <option value="sent">Sent</option>
+              <option value="failed">Failed</option>
+              <option value="pending">Pending</option>
+            </select>
+          </div>
+        </div>
+        <div className="mt-4 flex justify-end">
+          <button
+            onClick={() => { setFilters(EMPTY_FILTERS); setPage(1); }}
+            className={`px-4 py-2 text-sm rounded-md ${themeClasses.button.secondary}`}
+          >
+            Clear Filters
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">{error}</div>
+      )}
+
+      <div className={`${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg overflow-hidden`}>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className={themeClasses.bg.secondary}>
+              <tr>
+                {['Timestamp', 'Report', 'Recipient', 'Attachments', 'Status'].map(heading => (
+                  <th key={heading} className={`px-6 py-3 text-left text-xs font-medium uppercase tracking-wider ${themeClasses.text.secondary}`}>
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {deliveries.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className={`px-6 py-10 text-center ${themeClasses.text.muted}`}>
+                    {loading ? 'Loading delivery log…' : 'No deliveries match your current filters.'}
+                  </td>
+                </tr>
+              ) : (
+                deliveries.map(delivery => (
+                  <tr key={delivery.id} className={`border-t ${themeClasses.border.primary}`}>
+                    <td className={`px-6 py-4 whitespace-nowrap ${themeClasses.text.primary}`}>
+                      {new Date(delivery.sent_at || delivery.created_at).toLocaleString()}
+                      {delivery.triggered_by_name && (
+                        <div className={`text-xs ${themeClasses.text.muted}`}>Sent now by {delivery.triggered_by_name}</div>
+                      )}
+                    </td>
+                    <td className={`px-6 py-4 ${themeClasses.text.primary}`}>
+                      {delivery.report_name}
+                      {delivery.row_count !== null && (
+                        <div className={`text-xs ${themeClasses.text.muted}`}>{delivery.row_count} row(s)</div>
+                      )}
+                    </td>
+                    <td className={`px-6 py-4 ${themeClasses.text.primary}`}>
+                      <div className="font-medium">{delivery.recipient_name || '—'}</div>
+                      <div className={`text-xs ${themeClasses.text.muted}`}>
+                        {delivery.recipient_email} · {delivery.recipient_type}
+                      </div>
+                    </td>
+                    <td className={`px-6 py-4 whitespace-nowrap ${themeClasses.text.secondary}`}>
+                      {delivery.formats.join(', ').toUpperCase()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      {getStatusBadge(delivery.status)}
+                      {delivery.status === 'failed' && delivery.error_message && (
+                        <div className="mt-1 text-xs text-red-600 dark:text-red-400 max-w-xs truncate" title={delivery.error_message}>
+                          {delivery.error_message}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {totalPages > 1 && (
+          <div className={`px-6 py-4 border-t ${themeClasses.border.primary} flex items-center justify-between`}>
+            <span className={`text-sm ${themeClasses.text.muted}`}>Page {page} of {totalPages}</span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 1}
+                className={`px-3 py-1 text-sm rounded-md ${themeClasses.button.secondary} disabled:opacity-50`}
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page === totalPages}
+                className={`px-3 py-1 text-sm rounded-md ${themeClasses.button.secondary} disabled:opacity-50`}
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReportDeliveryLogs;
@@ -0,0 +1,124 @@
+/**
+ * Renders a report result as a chart (grouped results only) above a table.
+ *
+ * Ungrouped results are always table-only: a chart of raw rows has no
+ * obvious x/y, and guessing one produces misleading pictures.
+ */
+import React from 'react';
+import {
+  ResponsiveContainer, BarChart, Bar, LineChart, Line, PieChart, Pie, Cell,
+  XAxis, YAxis, CartesianGrid, Tooltip, Legend,
+} from 'recharts';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import { ReportChartType, ReportColumn, ReportResult } from '../../../services/reportsService';
+
+interface Props {
+  result: ReportResult;
+  chartType: ReportChartType;
+}
+
+const PIE_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16'];
+
+function formatReportValue(value: unknown, column: Pick<ReportColumn, 'type'>): string {
+  if (value === null || value === undefined || value === '') return '—';
+  switch (column.type) {
+    case 'currency':
+      return `$${Number(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    case 'number':
+      return Number(value).toLocaleString(undefined, { maximumFractionDigits: 2 });
+    case 'date':
+      return new Date(String(value)).toLocaleString();
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    default:
+      return String(value);
+  }
+}
+
+const ReportResultView: React.FC<Props> = ({ result, chartType }) => {
+  const [groupColumn, valueColumn] = result.columns;
+  const showChart = result.grouped && chartType !== 'table' && result.rows.length > 0;
+
+  const chartData = showChart
+    ? result.rows.map(row => ({
+        name: groupColumn.type === 'date'
+          ? new Date(String(row.group_value)).toLocaleDateString()
+          : formatReportValue(row.group_value, groupColumn),
+        value: Number(row.value),
+      }))
+    : [];
+
+  return (
+    <div className="space-y-4">
+      {showChart && (
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            {chartType === 'line' ? (
+              <LineChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis />
+                <Tooltip />
+                <Line type="monotone" dataKey="value" name={valueColumn.label} stroke="#3b82f6" />
+              </LineChart>
+            ) : chartType === 'pie' ? (
+              <PieChart>
+                <Pie data={chartData} dataKey="value" nameKey="name" outerRadius={100} label>
+                  {chartData.map((_, index) => (
+                    <Cell key={index} fill={PIE_COLORS[index % PIE_COLORS.length]} />
+                  ))}
+                </Pie>
+                <Tooltip />
+                <Legend />
+              </PieChart>
+            ) : (
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis />
+                <Tooltip />
+                <Bar dataKey="value" name={valueColumn.label} fill="#3b82f6" />
+              </BarChart>
+            )}
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className={`overflow-x-auto border ${themeClasses.border.primary} rounded-lg`}>
+        <table className="min-w-full text-sm">
+          <thead className={themeClasses.bg.secondary}>
+            <tr>
+              {result.columns.map(column => (
+                <th key={column.key} className={`px-3 py-2 text-left font-medium ${themeClasses.text.secondary}`}>
+                  {column.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {result.rows.length === 0 ? (
+              <tr>
+                <td colSpan={result.columns.length} className={`px-3 py-6 text-center ${themeClasses.text.muted}`}>
+                  No rows match this report.
+                </td>
+              </tr>
+            ) : (
+              result.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className={`border-t ${themeClasses.border.primary}`}>
+                  {result.columns.map(column => (
+                    <td key={column.key} className={`px-3 py-2 whitespace-nowrap ${themeClasses.text.primary}`}>
+                      {formatReportValue(row[column.key], column)}
+                    </td>
+                  ))}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+      <p className={`text-xs ${themeClasses.text.muted}`}>{result.rowCount} row(s)</p>
+    </div>
+  );
+};
+
+export default ReportResultView;
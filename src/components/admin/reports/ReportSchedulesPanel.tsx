@@ -0,0 +1,322 @@
+/**
+ * Email delivery schedules for one saved report: list, add/edit, pause,
+ * delete and "send now". Times are wall-clock in the schedule's timezone,
+ * which the server defaults to the business timezone.
+ */
+import React, { useEffect, useState } from 'react';
+import { CalendarClock, Pause, Pencil, Play, Plus, Send, Trash2 } from 'lucide-react';
+import { themeClasses } from '../../../contexts/ThemeContext';
+import {
+  reportsService,
+  ReportAttachmentFormat,
+  ReportRecipientOption,
+  ReportSchedule,
+  ReportScheduleFrequency,
+  SaveReportScheduleInput,
+} from '../../../services/reportsService';
+
+interface Props {
+  reportId: string;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const EMPTY_FORM: SaveReportScheduleInput = {
+  frequency: 'weekly',
+  day_of_week: 1,
+  day_of_month: 1,
+  send_time: '07:00',
+  formats: ['pdf', 'csv'],
+  recipient_employee_ids: [],
+  recipient_client_ids: [],
+  is_active: true,
+};
+
+const inputClass = `w-full px-3 py-2 text-sm border rounded-md ${themeClasses.input}`;
+const labelClass = `block text-xs font-medium mb-1 ${themeClasses.text.secondary}`;
+
+function describeSchedule(schedule: ReportSchedule): string {
+  const time = schedule.send_time.slice(0, 5);
+  switch (schedule.frequency) {
+    case 'daily':
+      return `Daily at ${time}`;
+    case 'weekly':
+      return `Every ${WEEKDAYS[schedule.day_of_week ?? 0]} at ${time}`;
+    default:
+      return `Monthly on day ${schedule.day_of_month} at ${time}`;
+  }
+}
+
+const ReportSchedulesPanel: React.FC<Props> = ({ reportId }) => {
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [employees, setEmployees] = useState<ReportRecipientOption[]>([]);
+  const [clients, setClients] = useState<ReportRecipientOption[]>([]);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [form, setForm] = useState<SaveReportScheduleInput>(EMPTY_FORM);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Bumped after every mutation to re-fetch the list
+  const [refreshKey, setRefreshKey] = useState(0);
+  const loadSchedules = () => setRefreshKey(key => key + 1);
+
+  useEffect(() => {
+    reportsService.listSchedules(reportId)
+      .then(response => {
+        setSchedules(response.data);
+        setError(null);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load schedules'));
+  }, [reportId, refreshKey]);
+
+  useEffect(() => {
+    reportsService.getRecipientOptions()
+      .then(response => {
+        setEmployees(response.data.employees);
+        setClients(response.data.clients);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load recipients'));
+  }, []);
+
+  const startEdit = (schedule?: ReportSchedule) => {
+    setMessage(null);
+    if (!schedule) {
+      setForm(EMPTY_FORM);
+      setEditingId('new');
+      return;
+    }
+    setForm({
+      frequency: schedule.frequency,
+      day_of_week: schedule.day_of_week ?? 1,
+      day_of_month: schedule.day_of_month ?? 1,
+      send_time: schedule.send_time.slice(0, 5),
+      formats: schedule.formats,
+      recipient_employee_ids: schedule.recipient_employee_ids,
+      recipient_client_ids: schedule.recipient_client_ids,
+      is_active: schedule.is_active,
+    });
+    setEditingId(schedule.id);
+  };
+
+  const toggleFormat = (format: ReportAttachmentFormat) => {
+    const formats = form.formats.includes(format)
+      ? form.formats.filter(f => f !== format)
+      : [...form.formats, format];
+    setForm({ ...form, formats });
+  };
+
+  const handleSave = async () => {
+    try {
+      if (editingId === 'new') {
+        await reportsService.createSchedule({ ...form, saved_report_id: reportId });
+      } else if (editingId) {
+        await reportsService.updateSchedule(editingId, form);
+      }
+      setEditingId(null);
+      loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save schedule');
+    }
+  };
+
+  const handleToggleActive = async (schedule: ReportSchedule) => {
+    try {
+      await reportsService.updateSchedule(schedule.id, { is_active: !schedule.is_active });
+      loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule');
+    }
+  };
+
+  const handleDelete = async (schedule: ReportSchedule) => {
+    if (!window.confirm('Delete this delivery schedule? Past deliveries stay in the log.')) return;
+    try {
+      await reportsService.removeSchedule(schedule.id);
+      loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete schedule');
+    }
+  };
+
+  const handleSendNow = async (schedule: ReportSchedule) => {
+    try {
+      const response = await reportsService.sendScheduleNow(schedule.id);
+      setMessage(`Sent to ${response.data.sent} recipient(s)${response.data.failed ? `, ${response.data.failed} failed` : ''}.`);
+      loadSchedules();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send report');
+    }
+  };
+
+  const selectedIds = (options: ReportRecipientOption[], select: HTMLSelectElement) =>
+    Array.from(select.selectedOptions).map(o => o.value).filter(id => options.some(opt => opt.id === id));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className={`text-sm font-semibold flex items-center ${themeClasses.text.primary}`}>
+          <CalendarClock className="w-4 h-4 mr-2" /> Email delivery
+        </h3>
+        {editingId === null && (
+          <button onClick={() => startEdit()} className={`inline-flex items-center text-xs ${themeClasses.text.link}`}>
+            <Plus className="w-3 h-3 mr-1" /> Add schedule
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+      {message && <p className="text-xs text-green-600 dark:text-green-400">{message}</p>}
+
+      {schedules.length === 0 && editingId === null && (
+        <p className={`text-xs ${themeClasses.text.muted}`}>This report is not emailed to anyone yet.</p>
+      )}
+
+      <ul className="space-y-2">
+        {schedules.map(schedule => (
+          <li key={schedule.id} className={`flex items-center justify-between p-3 rounded-md border ${themeClasses.border.primary}`}>
+            <div className="text-sm">
+              <div className={`${themeClasses.text.primary} ${schedule.is_active ? '' : 'line-through opacity-60'}`}>
+                {describeSchedule(schedule)} ({schedule.timezone}) · {schedule.formats.join(' + ').toUpperCase()}
+              </div>
+              <div className={`text-xs ${themeClasses.text.muted}`}>
+                {schedule.recipient_employee_ids.length + schedule.recipient_client_ids.length} recipient(s)
+                {schedule.next_run_at && schedule.is_active && ` · next ${new Date(schedule.next_run_at).toLocaleString()}`}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <button onClick={() => handleSendNow(schedule)} title="Send now" className={themeClasses.text.link}>
+                <Send className="w-4 h-4" />
+              </button>
+              <button onClick={() => handleToggleActive(schedule)} title={schedule.is_active ? 'Pause' : 'Resume'} className={themeClasses.text.secondary}>
+                {schedule.is_active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              </button>
+              <button onClick={() => startEdit(schedule)} title="Edit" className={themeClasses.text.secondary}>
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button onClick={() => handleDelete(schedule)} title="Delete" className="text-red-500">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {editingId !== null && (
+        <div className={`p-4 rounded-md border ${themeClasses.border.primary} space-y-4`}>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className={labelClass}>Frequency</label>
+              <select
+                className={inputClass}
+                value={form.frequency}
+                onChange={(e) => setForm({ ...form, frequency: e.target.value as ReportScheduleFrequency })}
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="monthly">Monthly</option>
+              </select>
+            </div>
+            {form.frequency === 'weekly' && (
+              <div>
+                <label className={labelClass}>Day</label>
+                <select
+                  className={inputClass}
+                  value={form.day_of_week ?? 1}
+                  onChange={(e) => setForm({ ...form, day_of_week: Number(e.target.value) })}
+                >
+                  {WEEKDAYS.map((day, index) => (
+                    <option key={day} value={index}>{day}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            {form.frequency === 'monthly' && (
+              <div>
+                <label className={labelClass}>Day of month</label>
+                <input
+                  type="number"
+                  min={1}
+                  max={31}
+                  className={inputClass}
+                  value={form.day_of_month ?? 1}
+                  onChange={(e) => setForm({ ...form, day_of_month: Number(e.target.value) })}
+                />
+              </div>
+            )}
+            <div>
+              <label className={labelClass}>Send time</label>
+              <input
+                type="time"
+                className={inputClass}
+                value={form.send_time}
+                onChange={(e) => setForm({ ...form, send_time: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Attachments</label>
+            <div className="flex gap-4">
+              {(['pdf', 'csv'] as ReportAttachmentFormat[]).map(format => (
+                <label key={format} className={`inline-flex items-center text-sm ${themeClasses.text.secondary}`}>
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={form.formats.includes(format)}
+                    onChange={() => toggleFormat(format)}
+                  />
+                  {format.toUpperCase()}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Employees</label>
+              <select
+                multiple
+                className={`${inputClass} h-32`}
+                value={form.recipient_employee_ids}
+                onChange={(e) => setForm({ ...form, recipient_employee_ids: selectedIds(employees, e.target) })}
+              >
+                {employees.map(emp => (
+                  <option key={emp.id} value={emp.id}>{emp.name} ({emp.email})</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Client contacts</label>
+              <select
+                multiple
+                className={`${inputClass} h-32`}
+                value={form.recipient_client_ids}
+                onChange={(e) => setForm({ ...form, recipient_client_ids: selectedIds(clients, e.target) })}
+              >
+                {clients.map(client => (
+                  <option key={client.id} value={client.id}>
+                    {client.business_name ? `${client.business_name} — ` : ''}{client.name} ({client.email})
+                  </option>
+                ))}
+              </select>
+              <p className={`text-xs mt-1 ${themeClasses.text.warning}`}>
+                Client contacts receive the full report output — check its filters first.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            <button onClick={handleSave} className={`px-4 py-2 text-sm rounded-md ${themeClasses.button.primary}`}>
+              {editingId === 'new' ? 'Create schedule' : 'Save schedule'}
+            </button>
+            <button onClick={() => setEditingId(null)} className={`px-4 py-2 text-sm rounded-md ${themeClasses.button.secondary}`}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReportSchedulesPanel;
@@ -19,6 +19,9 @@ import {
 import AdminQuotaManagement from '../AdminQuotaManagement';
 import AdminClientFileBrowser from '../AdminClientFileBrowser';
 import AdminInvoices from '../AdminInvoices';
+import AdminManagedServices from '../AdminManagedServices';
+import AdminProjects from '../AdminProjects';
+import AdminDispatchBoard from '../AdminDispatchBoard';
 import WorkflowConfiguration from '../WorkflowConfiguration';
 import AdminPricingSettings from '../AdminPricingSettings';
 import AdminPermissionAuditLog from '../AdminPermissionAuditLog';
@@ -857,6 +860,15 @@ export const AdminViewRouter: React.FC<AdminViewRouterProps> = ({
           />
         );
 
+      case 'managed-services':
+        return <AdminManagedServices />;
+
+      case 'projects':
+        return <AdminProjects />;
+
+      case 'dispatch-board':
+        return <AdminDispatchBoard />;
+
       case 'closure-reasons':
         return (
           <AdminClosureReasons
@@ -1090,20 +1102,7 @@ export const AdminViewRouter: React.FC<AdminViewRouterProps> = ({
         return <AdminRoleHierarchy />;
 
       case 'reports':
-        return (
-          <AdminReports
-            dashboardData={dashboardData}
-            employees={employees}
-            clients={clients}
-            businesses={businesses}
-            services={services}
-            serviceRequests={serviceRequests}
-            serviceLocations={serviceLocations}
-            loading={loading}
-            error={error}
-            onRefresh={refreshAllData}
-          />
-        );
+        return <AdminReports />;
 
       case 'settings':
         return (
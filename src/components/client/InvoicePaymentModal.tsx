@@ -5,6 +5,9 @@ import { Elements } from '@stripe/react-stripe-js';
 import { StripePaymentForm } from './StripePaymentForm';
 import { apiService } from '../../services/apiService';
 import { useClientLanguage } from '../../contexts/ClientLanguageContext';
+import InvoiceLineItemsTable from '../shared/InvoiceLineItemsTable';
+import type { InvoiceLineItem } from '../../services/invoiceService';
+import { formatCurrency, formatTaxRate, TaxBreakdownLine } from '../../utils/currencyFormatter';
 
 // Initialize Stripe
 const stripePromise = loadStripe(
@@ -15,12 +18,26 @@ interface Invoice {
   id: string;
   invoice_number: string;
   total_amount: string | number;
+  amount_paid?: string | number;
   payment_status: string;
   due_date: string;
   issue_date: string;
   work_description?: string;
   service_title?: string;
   request_number?: string;
+  currency?: string;
+}
+
+interface PaymentSummary {
+  lineItems: InvoiceLineItem[];
+  subtotal: string | number;
+  taxAmount: string | number;
+  /** One line per jurisdiction component */
+  taxBreakdown?: TaxBreakdownLine[];
+  totalAmount: string | number;
+  currency?: string;
+  amountPaid?: string | number;
+  balanceDue?: string | number;
 }
 
 interface InvoicePaymentModalProps {
@@ -34,8 +51,9 @@ export const InvoicePaymentModal: React.FC<InvoicePaymentModalProps> = ({
   onClose,
   onPaymentSuccess,
 }) => {
-  const { t } = useClientLanguage();
+  const { t, language } = useClientLanguage();
   const [clientSecret, setClientSecret] = useState<string | null>(null);
+  const [summary, setSummary] = useState<PaymentSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -49,6 +67,7 @@ export const InvoicePaymentModal: React.FC<InvoicePaymentModalProps> = ({
           success: boolean;
           clientSecret: string;
           paymentIntentId: string;
+          summary?: PaymentSummary;
           error?: string;
         }>('/client/payments/create-intent', {
           invoiceId: invoice.id,
@@ -56,6 +75,7 @@ export const InvoicePaymentModal: React.FC<InvoicePaymentModalProps> = ({
 
         if (response.success && response.clientSecret) {
           setClientSecret(response.clientSecret);
+          setSummary(response.summary || null);
         } else {
           setError(
             response.error || 'Failed to initialize payment. Please try again.'
@@ -84,10 +104,12 @@ export const InvoicePaymentModal: React.FC<InvoicePaymentModalProps> = ({
     },
   };
 
-  const totalAmount =
-    typeof invoice.total_amount === 'string'
-      ? parseFloat(invoice.total_amount)
-      : invoice.total_amount;
+  // A partly paid invoice is charged what is left
+  const amountDue = summary?.balanceDue !== undefined
+    ? Number(summary.balanceDue)
+    : Number(invoice.total_amount) - Number(invoice.amount_paid || 0);
+  const currency = summary?.currency || invoice.currency;
+  const money = (amount: string | number | undefined) => formatCurrency(amount, currency, language);
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -128,18 +150,60 @@ export const InvoicePaymentModal: React.FC<InvoicePaymentModalProps> = ({
               </button>
             </div>
           ) : clientSecret ? (
-            <Elements stripe={stripePromise} options={stripeOptions}>
-              <StripePaymentForm
-                amount={totalAmount}
-                invoiceNumber={invoice.invoice_number}
-                invoiceId={invoice.id}
-                onSuccess={() => {
-                  onPaymentSuccess();
-                  onClose();
-                }}
-                onCancel={onClose}
-              />
-            </Elements>
+            <>
+              {summary && summary.lineItems.length > 0 && (
+                <div className="mb-6">
+                  <InvoiceLineItemsTable
+                    lineItems={summary.lineItems}
+                    showTaxable={Number(summary.taxAmount) > 0}
+                    formatAmount={money}
+                  />
+                  <div className="mt-3 max-w-xs ml-auto space-y-1 text-sm">
+                    <div className="flex justify-between text-gray-600">
+                      <span>{t('invoices.subtotal', undefined, 'Subtotal')}</span>
+                      <span>{money(summary.subtotal)}</span>
+                    </div>
+                    {summary.taxBreakdown && summary.taxBreakdown.length > 1
+                      ? summary.taxBreakdown.map(line => (
+                        <div key={line.name} className="flex justify-between text-gray-600">
+                          <span>{line.name} ({formatTaxRate(line.rate)})</span>
+                          <span>{money(line.amount)}</span>
+                        </div>
+                      ))
+                      : Number(summary.taxAmount) > 0 && (
+                        <div className="flex justify-between text-gray-600">
+                          <span>{t('invoices.tax', undefined, 'Tax')}</span>
+                          <span>{money(summary.taxAmount)}</span>
+                        </div>
+                      )}
+                    {Number(summary.amountPaid) > 0 && (
+                      <>
+                        <div className="flex justify-between text-gray-600">
+                          <span>{t('invoices.amountPaid', undefined, 'Paid')}</span>
+                          <span>-{money(summary.amountPaid)}</span>
+                        </div>
+                        <div className="flex justify-between font-medium text-gray-900">
+                          <span>{t('invoices.balanceDue', undefined, 'Balance due')}</span>
+                          <span>{money(amountDue)}</span>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                </div>
+              )}
+              <Elements stripe={stripePromise} options={stripeOptions}>
+                <StripePaymentForm
+                  amount={amountDue}
+                  currency={currency}
+                  invoiceNumber={invoice.invoice_number}
+                  onSuccess={() => {
+                    onPaymentSuccess();
+                    onClose();
+                  }}
+                  onCancel={onClose}
+                />
+              </Elements>
+            </>
           ) : null}
         </div>
       </div>
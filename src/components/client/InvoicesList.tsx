@@ -10,19 +10,33 @@ import {
   Loader,
   Eye,
   X,
+  Download,
+  CircleDollarSign,
+  PiggyBank,
 } from 'lucide-react';
 import { apiService } from '../../services/apiService';
+import { downloadBlob } from '../../utils/downloadBlob';
 import { InvoicePaymentModal } from './InvoicePaymentModal';
+import { PaymentMethodsPanel } from './PaymentMethodsPanel';
 import { useClientTheme } from '../../contexts/ClientThemeContext';
 import { useClientLanguage } from '../../contexts/ClientLanguageContext';
 import { useNotifications } from '../../contexts/NotificationContext';
 import { websocketService } from '../../services/websocketService';
+import InvoiceLineItemsTable from '../shared/InvoiceLineItemsTable';
+import { formatCurrency, formatTaxRate, TaxBreakdownLine } from '../../utils/currencyFormatter';
 
 interface Invoice {
   id: string;
   invoice_number: string;
   total_amount: string | number;
+  amount_paid?: string | number;
+  /** total_amount less what has been paid (after refunds) */
+  balance_due?: string | number;
+  currency?: string;
+  tax_breakdown?: TaxBreakdownLine[];
   payment_status: string;
+  invoice_status?: 'issued' | 'void';
+  invoice_type?: 'service_request' | 'manual' | 'credit_note' | 'recurring' | 'consolidated';
   due_date: string;
   issue_date: string;
   payment_date?: string;
@@ -30,6 +44,7 @@ interface Invoice {
   service_title?: string;
   request_number?: string;
   payment_method?: string;
+  autopay_failure_reason?: string | null;
 }
 
 interface InvoicesListProps {
@@ -38,9 +53,10 @@ interface InvoicesListProps {
 
 export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }) => {
   const { isDarkMode } = useClientTheme();
-  const { t } = useClientLanguage();
+  const { t, language } = useClientLanguage();
   const { addInvoiceChange, markInvoiceChangesSeen, startViewTimer, clearViewTimer } = useNotifications();
   const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [creditBalance, setCreditBalance] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
@@ -49,6 +65,7 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }
   const [selectedInvoiceId, setSelectedInvoiceId] = useState<string | null>(null);
   const [invoiceDetail, setInvoiceDetail] = useState<any>(null);
   const [loadingDetail, setLoadingDetail] = useState(false);
+  const [downloadingPdfId, setDownloadingPdfId] = useState<string | null>(null);
   const previousInvoicesRef = useRef<Invoice[]>([]);
 
   const fetchInvoices = async () => {
@@ -71,6 +88,7 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }
         success: boolean;
         data: {
           invoices: Invoice[];
+          creditBalance?: number;
         };
       }>(`/client/invoices?${queryParams.toString()}`);
 
@@ -87,6 +105,7 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }
 
         // Update state and store reference for future comparisons
         setInvoices(newInvoices);
+        setCreditBalance(response.data.creditBalance || 0);
         previousInvoicesRef.current = newInvoices;
       }
     } catch (err) {
@@ -178,6 +197,19 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }
     fetchInvoiceDetail(invoiceId);
   };
 
+  const handleDownloadPdf = async (invoice: Invoice) => {
+    try {
+      setDownloadingPdfId(invoice.id);
+      const blob = await apiService.getBlob(`/client/invoices/${invoice.id}/pdf`);
+      downloadBlob(blob, `${invoice.invoice_number}.pdf`);
+    } catch (err) {
+      console.error('❌ Error downloading invoice PDF:', err);
+      alert(t('invoices.downloadFailed', undefined, 'Failed to download the invoice PDF. Please try again.'));
+    } finally {
+      setDownloadingPdfId(null);
+    }
+  };
+
   // Handle Escape key to close detail modal
   useEffect(() => {
     const handleEscapeKey = (event: KeyboardEvent) => {
@@ -228,6 +260,14 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }
         icon: AlertCircle,
         labelKey: 'invoices.status.failed',
       },
+      partial: {
+        bgLight: 'bg-sky-100',
+        bgDark: 'dark:bg-sky-900/30',
+        textLight: 'text-sky-800',
+        textDark: 'dark:text-sky-300',
+        icon: CircleDollarSign,
+        labelKey: 'invoices.status.partial',
+      },
       overdue: {
         bgLight: 'bg-orange-100',
         bgDark: 'dark:bg-orange-900/30',
@@ -236,6 +276,14 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }
         icon: AlertCircle,
         labelKey: 'invoices.status.overdue',
       },
+      refunded: {
+        bgLight: 'bg-gray-100',
+        bgDark: 'dark:bg-gray-700',
+        textLight: 'text-gray-800',
+        textDark: 'dark:text-gray-300',
+        icon: CheckCircle,
+        labelKey: 'invoices.status.refunded',
+      },
       comped: {
         bgLight: 'bg-purple-100',
         bgDark: 'dark:bg-purple-900/30',
@@ -268,13 +316,7 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }
     });
   };
 
-  const formatAmount = (amount: string | number) => {
-    const numAmount = typeof amount === 'string' ? parseFloat(amount) : amount;
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(numAmount);
-  };
+  const formatAmount = (amount: string | number, currency?: string) => formatCurrency(amount, currency, language);
 
   if (isLoading) {
     return (
@@ -319,7 +361,7 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }
         </h2>
 
         <div className="flex flex-wrap gap-2">
-          {['all', 'due', 'paid', 'overdue', 'failed'].map((status) => (
+          {['all', 'due', 'partial', 'paid', 'overdue', 'failed'].map((status) => (
             <button
               key={status}
               onClick={() => setFilterStatus(status)}
@@ -337,6 +379,19 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }
         </div>
       </div>
 
+      <PaymentMethodsPanel />
+
+      {creditBalance > 0 && (
+        <div className={`flex items-center gap-2 rounded-lg border p-4 text-sm ${
+          isDarkMode ? 'bg-purple-900/20 border-purple-800 text-purple-300' : 'bg-purple-50 border-purple-200 text-purple-800'
+        }`}>
+          <PiggyBank className="w-5 h-5 flex-shrink-0" />
+          <span>
+            {t('invoices.creditBalance', { amount: formatAmount(creditBalance, invoices[0]?.currency) }, 'You have {{amount}} of account credit, which we can apply to future invoices.')}
+          </span>
+        </div>
+      )}
+
       {invoices.length === 0 ? (
         <div className={`border rounded-lg p-12 text-center ${
           isDarkMode
@@ -369,19 +424,29 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }
                       Invoice #{invoice.invoice_number}
                     </h3>
                     {getStatusBadge(invoice.payment_status)}
+                    {invoice.invoice_status === 'void' && (
+                      <span className="px-2 py-0.5 rounded text-xs font-semibold bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">
+                        {t('invoices.void', undefined, 'VOID')}
+                      </span>
+                    )}
                   </div>
-                  {invoice.service_title && (
+                  {(invoice.service_title || invoice.work_description) && (
                     <p className={`text-sm flex items-center gap-1.5 ${isDarkMode ? 'text-gray-400' : 'text-gray-600'}`}>
                       <FileText className="w-4 h-4" />
-                      {invoice.service_title}
+                      {invoice.service_title || invoice.work_description}
                       {invoice.request_number && ` (${invoice.request_number})`}
                     </p>
                   )}
                 </div>
                 <div className="text-right">
                   <div className={`text-2xl font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                    {formatAmount(invoice.total_amount)}
+                    {formatAmount(invoice.total_amount, invoice.currency)}
                   </div>
+                  {Number(invoice.amount_paid) > 0 && !['paid', 'comped'].includes(invoice.payment_status) && (
+                    <div className={`text-sm font-medium ${Number(invoice.balance_due) > 0 ? (isDarkMode ? 'text-orange-400' : 'text-orange-600') : (isDarkMode ? 'text-gray-400' : 'text-gray-600')}`}>
+                      {t('invoices.balanceRemaining', { amount: formatAmount(invoice.balance_due ?? 0, invoice.currency) }, '{{amount}} remaining')}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -408,6 +473,13 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }
                 )}
               </div>
 
+              {invoice.payment_status === 'failed' && invoice.autopay_failure_reason && (
+                <div className={`flex items-start gap-2 rounded-lg p-3 mb-4 text-sm ${isDarkMode ? 'bg-red-900/20 text-red-300' : 'bg-red-50 text-red-700'}`}>
+                  <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                  <span>{t('invoices.autopayFailed', undefined, 'Autopay failed')}: {invoice.autopay_failure_reason}</span>
+                </div>
+              )}
+
               <div className={`flex gap-3 pt-4 border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
                 <button
                   onClick={() => handleViewDetails(invoice.id)}
@@ -420,7 +492,19 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }
                   <Eye className="w-4 h-4" />
                   {t('invoices.viewDetails', 'View Details')}
                 </button>
-                {invoice.payment_status !== 'paid' && invoice.payment_status !== 'comped' && (
+                <button
+                  onClick={() => handleDownloadPdf(invoice)}
+                  disabled={downloadingPdfId === invoice.id}
+                  className={`flex-1 px-4 py-2 rounded-lg transition-colors flex items-center justify-center gap-2 text-sm font-medium disabled:opacity-50 ${
+                    isDarkMode
+                      ? 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {downloadingPdfId === invoice.id ? <Loader className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                  {t('invoices.downloadPdf', undefined, 'Download PDF')}
+                </button>
+                {!['paid', 'comped', 'refunded', 'pending'].includes(invoice.payment_status) && invoice.invoice_status !== 'void' && (
                   <button
                     onClick={() => setSelectedInvoice(invoice)}
                     className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center justify-center gap-2 text-sm font-medium"
@@ -800,175 +884,13 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }
                     </div>
                   )}
 
-                  {/* Actual Billable Hours Summary */}
-                  <div className={`mt-6 p-4 rounded-lg border ${
-                    isDarkMode
-                      ? 'bg-purple-900/20 border-purple-800'
-                      : 'bg-purple-50 border-purple-200'
-                  }`}>
-                    <h3 className={`text-sm font-semibold mb-3 ${isDarkMode ? 'text-purple-100' : 'text-purple-900'}`}>
-                      Actual Billable Hours
-                    </h3>
-
-                    {/* First-time Client Discount */}
-                    {invoiceDetail.invoice.is_first_service_request && parseFloat(invoiceDetail.invoice.waived_hours || 0) > 0 && (
-                      <div className={`mb-3 pb-3 border-b ${isDarkMode ? 'border-purple-700' : 'border-purple-300'}`}>
-                        <p className={`text-xs mb-1 ${isDarkMode ? 'text-purple-300' : 'text-purple-700'}`}>
-                          {t('invoices.firstServiceDiscount', undefined, 'First Service Request Discount:')}
-                        </p>
-                        <p className={`text-sm font-medium ${isDarkMode ? 'text-green-400' : 'text-green-600'}`}>
-                          {t('invoices.newClientWaived', {
-                            hours: parseFloat(invoiceDetail.invoice.waived_hours).toFixed(2)
-                          }, 'New Client Assessment - Waived: {hours} hours')}
-                        </p>
-                      </div>
-                    )}
-
-                    <div className="grid grid-cols-3 gap-2 text-xs">
-                      <div className="text-center">
-                        <div className={`mb-1 ${isDarkMode ? 'text-purple-300' : 'text-purple-700'}`}>{t('invoices.rateLabels.standard', undefined, 'Standard')}</div>
-                        <div className={`font-bold text-lg ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                          {parseFloat(invoiceDetail.invoice.standard_hours || 0).toFixed(2)} hrs
-                        </div>
-                        <div className={`text-xs ${isDarkMode ? 'text-purple-400' : 'text-purple-600'}`}>1.0x rate</div>
-                      </div>
-                      <div className="text-center">
-                        <div className={`mb-1 ${isDarkMode ? 'text-purple-300' : 'text-purple-700'}`}>{t('invoices.rateLabels.premium', undefined, 'Premium')}</div>
-                        <div className={`font-bold text-lg ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                          {parseFloat(invoiceDetail.invoice.premium_hours || 0).toFixed(2)} hrs
-                        </div>
-                        <div className={`text-xs ${isDarkMode ? 'text-purple-400' : 'text-purple-600'}`}>1.5x rate</div>
-                      </div>
-                      <div className="text-center">
-                        <div className={`mb-1 ${isDarkMode ? 'text-purple-300' : 'text-purple-700'}`}>{t('invoices.rateLabels.emergency', undefined, 'Emergency')}</div>
-                        <div className={`font-bold text-lg ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                          {parseFloat(invoiceDetail.invoice.emergency_hours || 0).toFixed(2)} hrs
-                        </div>
-                        <div className={`text-xs ${isDarkMode ? 'text-purple-400' : 'text-purple-600'}`}>2.0x rate</div>
-                      </div>
-                    </div>
-                    <div className={`mt-2 pt-2 border-t text-center ${isDarkMode ? 'border-purple-700' : 'border-purple-300'}`}>
-                      <span className={`text-xs ${isDarkMode ? 'text-purple-300' : 'text-purple-700'}`}>{t('invoices.totalBillable', undefined, 'Total Billable:')} </span>
-                      <span className={`text-sm font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                        {(parseFloat(invoiceDetail.invoice.standard_hours || 0) +
-                          parseFloat(invoiceDetail.invoice.premium_hours || 0) +
-                          parseFloat(invoiceDetail.invoice.emergency_hours || 0)).toFixed(2)} hours
-                      </span>
-                    </div>
-                  </div>
-
-                  {/* Time & Cost Breakdown */}
-                  <div className={`mt-6 p-4 rounded-lg ${isDarkMode ? 'bg-gray-700/50' : 'bg-gray-50'}`}>
-                    <h3 className={`text-lg font-semibold mb-3 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                      Cost Breakdown by Rate Tier
-                    </h3>
-
-                    {/* Billable Hours Table */}
-                    <div className={`overflow-hidden border rounded-lg ${
-                      isDarkMode ? 'border-gray-600' : 'border-gray-200'
-                    }`}>
-                      <table className="w-full">
-                        <thead className={isDarkMode ? 'bg-gray-700' : 'bg-gray-100'}>
-                          <tr>
-                            <th className={`px-4 py-3 text-left text-sm font-semibold ${
-                              isDarkMode ? 'text-white' : 'text-gray-900'
-                            }`}>
-                              Rate Tier
-                            </th>
-                            <th className={`px-4 py-3 text-right text-sm font-semibold ${
-                              isDarkMode ? 'text-white' : 'text-gray-900'
-                            }`}>
-                              Hours
-                            </th>
-                            <th className={`px-4 py-3 text-right text-sm font-semibold ${
-                              isDarkMode ? 'text-white' : 'text-gray-900'
-                            }`}>
-                              Rate
-                            </th>
-                            <th className={`px-4 py-3 text-right text-sm font-semibold ${
-                              isDarkMode ? 'text-white' : 'text-gray-900'
-                            }`}>
-                              Amount
-                            </th>
-                          </tr>
-                        </thead>
-                        <tbody className={`divide-y ${isDarkMode ? 'divide-gray-600' : 'divide-gray-200'}`}>
-                          {/* Standard Hours */}
-                          {parseFloat(invoiceDetail.invoice.standard_hours || 0) > 0 && (
-                            <tr className={isDarkMode ? 'bg-gray-800' : 'bg-white'}>
-                              <td className={`px-4 py-3 text-sm ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                                Standard (1.0x)
-                                <div className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                                  {t('invoices.rateDescriptions.standard', undefined, 'Mon-Fri 8am-5pm')}
-                                </div>
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                                {parseFloat(invoiceDetail.invoice.standard_hours).toFixed(2)}
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                                ${parseFloat(invoiceDetail.invoice.standard_rate).toFixed(2)}
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right font-semibold ${
-                                isDarkMode ? 'text-white' : 'text-gray-900'
-                              }`}>
-                                ${parseFloat(invoiceDetail.invoice.standard_cost).toFixed(2)}
-                              </td>
-                            </tr>
-                          )}
-
-                          {/* Premium Hours */}
-                          {parseFloat(invoiceDetail.invoice.premium_hours || 0) > 0 && (
-                            <tr className={isDarkMode ? 'bg-gray-800' : 'bg-white'}>
-                              <td className={`px-4 py-3 text-sm ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                                Premium (1.5x)
-                                <div className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                                  {t('invoices.rateDescriptions.weekend', undefined, 'Weekends')}
-                                </div>
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                                {parseFloat(invoiceDetail.invoice.premium_hours).toFixed(2)}
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                                ${parseFloat(invoiceDetail.invoice.premium_rate).toFixed(2)}
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right font-semibold ${
-                                isDarkMode ? 'text-white' : 'text-gray-900'
-                              }`}>
-                                ${parseFloat(invoiceDetail.invoice.premium_cost).toFixed(2)}
-                              </td>
-                            </tr>
-                          )}
-
-                          {/* Emergency Hours */}
-                          {parseFloat(invoiceDetail.invoice.emergency_hours || 0) > 0 && (
-                            <tr className={isDarkMode ? 'bg-gray-800' : 'bg-white'}>
-                              <td className={`px-4 py-3 text-sm ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                                Emergency (2.0x)
-                                <div className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                                  {t('invoices.rateDescriptions.emergency', undefined, 'Late night/overnight')}
-                                </div>
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                                {parseFloat(invoiceDetail.invoice.emergency_hours).toFixed(2)}
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                                ${parseFloat(invoiceDetail.invoice.emergency_rate).toFixed(2)}
-                              </td>
-                              <td className={`px-4 py-3 text-sm text-right font-semibold ${
-                                isDarkMode ? 'text-white' : 'text-gray-900'
-                              }`}>
-                                ${parseFloat(invoiceDetail.invoice.emergency_cost).toFixed(2)}
-                              </td>
-                            </tr>
-                          )}
-                        </tbody>
-                      </table>
-                    </div>
-
-                    <div className={`text-xs mt-2 italic ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                      * Final end time rounded up to nearest 15 minutes. Exact hours billed per tier.
-                    </div>
-                  </div>
+                  {/* Line Items */}
+                  <InvoiceLineItemsTable
+                    lineItems={invoiceDetail.lineItems || []}
+                    isDark={isDarkMode}
+                    showTaxable={Number(invoiceDetail.invoice.tax_rate) > 0}
+                    formatAmount={amount => formatAmount(amount, invoiceDetail.invoice.currency)}
+                  />
 
                   {/* Totals */}
                   <div className="mb-6">
@@ -976,25 +898,36 @@ export const InvoicesList: React.FC<InvoicesListProps> = ({ refreshTrigger = 0 }
                       <div className="flex justify-between">
                         <span className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>{t('invoices.subtotal', undefined, 'Subtotal:')}</span>
                         <span className={`font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                          ${parseFloat(invoiceDetail.invoice.subtotal).toFixed(2)}
+                          {formatAmount(invoiceDetail.invoice.subtotal, invoiceDetail.invoice.currency)}
                         </span>
                       </div>
-                      {invoiceDetail.invoice.tax_rate > 0 && (
-                        <div className="flex justify-between">
-                          <span className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
-                            {t('invoices.tax', {
-                              percentage: (invoiceDetail.invoice.tax_rate * 100).toFixed(2)
-                            }, 'Tax ({percentage}%):')}
-                          </span>
-                          <span className={`font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                            ${parseFloat(invoiceDetail.invoice.tax_amount).toFixed(2)}
-                          </span>
-                        </div>
-                      )}
+                      {invoiceDetail.invoice.tax_breakdown?.length > 0
+                        ? invoiceDetail.invoice.tax_breakdown.map((line: TaxBreakdownLine) => (
+                          <div key={line.name} className="flex justify-between">
+                            <span className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+                              {line.name} ({formatTaxRate(line.rate)}):
+                            </span>
+                            <span className={`font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                              {formatAmount(line.amount, invoiceDetail.invoice.currency)}
+                            </span>
+                          </div>
+                        ))
+                        : invoiceDetail.invoice.tax_rate > 0 && (
+                          <div className="flex justify-between">
+                            <span className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>
+                              {t('invoices.tax', {
+                                percentage: (invoiceDetail.invoice.tax_rate * 100).toFixed(2)
+                              }, 'Tax ({percentage}%):')}
+                            </span>
+                            <span className={`font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                              {formatAmount(invoiceDetail.invoice.tax_amount, invoiceDetail.invoice.currency)}
+                            </span>
+                          </div>
+                        )}
                       <div className={`flex justify-between pt-2 border-t-2 ${isDarkMode ? 'border-gray-600' : 'border-gray-300'}`}>
                         <span className={`text-lg font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{t('invoices.totalDue', undefined, 'Total Due:')}</span>
                         <span className={`text-lg font-bold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-                          ${parseFloat(invoiceDetail.invoice.total_amount).toFixed(2)}
+                          {formatAmount(invoiceDetail.invoice.total_amount, invoiceDetail.invoice.currency)}
                         </span>
                       </div>
                     </div>
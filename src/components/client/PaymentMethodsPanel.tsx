@@ -0,0 +1,288 @@
+import React, { useState, useEffect } from 'react';
+import {
+  CreditCard,
+  Landmark,
+  Plus,
+  Trash2,
+  Loader,
+  AlertCircle,
+  RefreshCw,
+  X,
+} from 'lucide-react';
+import { loadStripe, StripeElementsOptions } from '@stripe/stripe-js';
+import { Elements } from '@stripe/react-stripe-js';
+import { SavePaymentMethodForm } from './SavePaymentMethodForm';
+import { apiService } from '../../services/apiService';
+import { useClientTheme } from '../../contexts/ClientThemeContext';
+import { useClientLanguage } from '../../contexts/ClientLanguageContext';
+
+// Initialize Stripe
+const stripePromise = loadStripe(
+  import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY || ''
+);
+
+interface SavedPaymentMethod {
+  id: string;
+  type: 'card' | 'us_bank_account';
+  brand: string | null;
+  last4: string | null;
+  expMonth: number | null;
+  expYear: number | null;
+  bankName: string | null;
+  label: string;
+}
+
+interface AutopaySettings {
+  enabled: boolean;
+  paymentMethodId: string | null;
+  enabledAt: string | null;
+}
+
+/**
+ * Saved cards and bank accounts for the client's business, and the autopay
+ * setting that charges new invoices on their due date.
+ */
+export const PaymentMethodsPanel: React.FC = () => {
+  const { isDarkMode } = useClientTheme();
+  const { t } = useClientLanguage();
+  const [methods, setMethods] = useState<SavedPaymentMethod[]>([]);
+  const [autopay, setAutopay] = useState<AutopaySettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [savingAutopay, setSavingAutopay] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+  const [setupClientSecret, setSetupClientSecret] = useState<string | null>(null);
+  const [startingSetup, setStartingSetup] = useState(false);
+
+  const fetchPaymentMethods = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await apiService.get<{
+        success: boolean;
+        data: { methods: SavedPaymentMethod[]; autopay: AutopaySettings };
+      }>('/client/payments/payment-methods');
+      if (response.success) {
+        setMethods(response.data.methods);
+        setAutopay(response.data.autopay);
+      }
+    } catch (err) {
+      console.error('Error loading payment methods:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load payment methods');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPaymentMethods();
+  }, []);
+
+  const updateAutopay = async (enabled: boolean, paymentMethodId: string | null) => {
+    try {
+      setSavingAutopay(true);
+      setError(null);
+      const response = await apiService.put<{
+        success: boolean;
+        data: { autopay: AutopaySettings };
+      }>('/client/payments/autopay', { enabled, paymentMethodId });
+      if (response.success) {
+        setAutopay(response.data.autopay);
+      }
+    } catch (err) {
+      console.error('Error updating autopay:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update autopay');
+    } finally {
+      setSavingAutopay(false);
+    }
+  };
+
+  const handleRemove = async (method: SavedPaymentMethod) => {
+    const isAutopayMethod = autopay?.enabled && autopay.paymentMethodId === method.id;
+    const message = isAutopayMethod
+      ? t('paymentMethods.confirmRemoveAutopay', { label: method.label }, 'Remove {label}? Autopay uses this method and will be turned off.')
+      : t('paymentMethods.confirmRemove', { label: method.label }, 'Remove {label}?');
+    if (!window.confirm(message)) return;
+
+    try {
+      setRemovingId(method.id);
+      setError(null);
+      await apiService.delete(`/client/payments/payment-methods/${method.id}`);
+      await fetchPaymentMethods();
+    } catch (err) {
+      console.error('Error removing payment method:', err);
+      setError(err instanceof Error ? err.message : 'Failed to remove payment method');
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  const handleAddMethod = async () => {
+    try {
+      setStartingSetup(true);
+      setError(null);
+      const response = await apiService.post<{
+        success: boolean;
+        clientSecret: string;
+      }>('/client/payments/payment-methods/setup-intent', {});
+      if (response.success && response.clientSecret) {
+        setSetupClientSecret(response.clientSecret);
+      }
+    } catch (err) {
+      console.error('Error starting payment method setup:', err);
+      setError(err instanceof Error ? err.message : 'Unable to add a payment method at this time');
+    } finally {
+      setStartingSetup(false);
+    }
+  };
+
+  const stripeOptions: StripeElementsOptions = {
+    clientSecret: setupClientSecret || undefined,
+    appearance: {
+      theme: 'stripe',
+      variables: {
+        colorPrimary: '#2563eb',
+      },
+    },
+  };
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const autopayMethod = methods.find(method => method.id === autopay?.paymentMethodId);
+
+  return (
+    <div className={`border rounded-lg p-6 ${isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-white border-gray-200'}`}>
+      <div className="flex items-center justify-between flex-wrap gap-3 mb-4">
+        <h3 className={`text-lg font-semibold flex items-center gap-2 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+          <CreditCard className={`w-5 h-5 ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`} />
+          {t('paymentMethods.title', undefined, 'Payment Methods & Autopay')}
+        </h3>
+        <button
+          onClick={handleAddMethod}
+          disabled={startingSetup}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2 text-sm font-medium disabled:opacity-50"
+        >
+          {startingSetup ? <Loader className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+          {t('paymentMethods.add', undefined, 'Add Card or Bank Account')}
+        </button>
+      </div>
+
+      {error && (
+        <div className={`flex items-start gap-2 rounded-lg p-3 mb-4 text-sm ${isDarkMode ? 'bg-red-900/20 text-red-300' : 'bg-red-50 text-red-700'}`}>
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader className={`w-6 h-6 animate-spin ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`} />
+        </div>
+      ) : methods.length === 0 ? (
+        <p className={`text-sm ${mutedText}`}>
+          {t('paymentMethods.none', undefined, 'No saved payment methods. Save a card or bank account to pay invoices automatically.')}
+        </p>
+      ) : (
+        <>
+          <ul className={`divide-y ${isDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+            {methods.map(method => {
+              const Icon = method.type === 'us_bank_account' ? Landmark : CreditCard;
+              const isAutopayMethod = autopay?.enabled && autopay.paymentMethodId === method.id;
+              return (
+                <li key={method.id} className="flex items-center justify-between gap-3 py-3">
+                  <div className="flex items-center gap-3">
+                    <Icon className={`w-5 h-5 ${mutedText}`} />
+                    <div>
+                      <p className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>{method.label}</p>
+                      {method.expMonth && method.expYear && (
+                        <p className={`text-xs ${mutedText}`}>
+                          {t('paymentMethods.expires', undefined, 'Expires')} {String(method.expMonth).padStart(2, '0')}/{method.expYear}
+                        </p>
+                      )}
+                    </div>
+                    {isAutopayMethod && (
+                      <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">
+                        <RefreshCw className="w-3 h-3" />
+                        {t('paymentMethods.autopayBadge', undefined, 'Autopay')}
+                      </span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleRemove(method)}
+                    disabled={removingId === method.id}
+                    className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${isDarkMode ? 'text-gray-400 hover:bg-gray-700 hover:text-red-400' : 'text-gray-500 hover:bg-gray-100 hover:text-red-600'}`}
+                    aria-label={t('paymentMethods.remove', undefined, 'Remove')}
+                  >
+                    {removingId === method.id ? <Loader className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+
+          <div className={`mt-4 pt-4 border-t ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+            <label className="flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={autopay?.enabled ?? false}
+                disabled={savingAutopay}
+                onChange={(e) => updateAutopay(e.target.checked, e.target.checked ? (autopayMethod?.id || methods[0].id) : null)}
+                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className={`text-sm font-medium ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                {t('paymentMethods.autopayToggle', undefined, 'Pay new invoices automatically on their due date')}
+              </span>
+              {savingAutopay && <Loader className="w-4 h-4 animate-spin text-blue-500" />}
+            </label>
+            {autopay?.enabled && (
+              <div className="mt-3 ml-7 space-y-2">
+                <select
+                  value={autopay.paymentMethodId || ''}
+                  disabled={savingAutopay}
+                  onChange={(e) => updateAutopay(true, e.target.value)}
+                  className={`px-3 py-2 rounded-lg border text-sm ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+                >
+                  {methods.map(method => (
+                    <option key={method.id} value={method.id}>{method.label}</option>
+                  ))}
+                </select>
+                <p className={`text-xs ${mutedText}`}>
+                  {t('paymentMethods.autopayNote', undefined, 'Invoices issued after autopay was turned on are charged on their due date. If a charge fails you will be emailed and can pay the invoice here.')}
+                </p>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {setupClientSecret && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+              <h2 className="text-xl font-bold text-gray-900">
+                {t('paymentMethods.addTitle', undefined, 'Add Payment Method')}
+              </h2>
+              <button
+                onClick={() => setSetupClientSecret(null)}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                aria-label={t('accessibility.close', undefined, 'Close')}
+              >
+                <X className="w-5 h-5 text-gray-500" />
+              </button>
+            </div>
+            <div className="px-6 py-6">
+              <Elements stripe={stripePromise} options={stripeOptions}>
+                <SavePaymentMethodForm
+                  onSaved={() => {
+                    setSetupClientSecret(null);
+                    fetchPaymentMethods();
+                  }}
+                  onCancel={() => setSetupClientSecret(null)}
+                />
+              </Elements>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
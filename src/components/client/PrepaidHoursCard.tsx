@@ -0,0 +1,81 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, AlertTriangle } from 'lucide-react';
+import { useClientTheme } from '../../contexts/ClientThemeContext';
+import { useClientLanguage } from '../../contexts/ClientLanguageContext';
+import { prepaidHoursService, PrepaidBalance } from '../../services/prepaidHoursService';
+
+/**
+ * Prepaid support hours left for the client's business, with the requests
+ * that used them most recently. Hidden for businesses that never bought a
+ * block.
+ */
+export const PrepaidHoursCard: React.FC = () => {
+  const { isDarkMode } = useClientTheme();
+  const { t } = useClientLanguage();
+  const [balance, setBalance] = useState<PrepaidBalance | null>(null);
+
+  useEffect(() => {
+    prepaidHoursService.getClientBalance()
+      .then(response => setBalance(response.data))
+      .catch(err => console.error('❌ [PrepaidHoursCard] Error fetching prepaid hours:', err));
+  }, []);
+
+  if (!balance || balance.blocks.length === 0) return null;
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const strongText = isDarkMode ? 'text-white' : 'text-gray-900';
+  const nextExpiry = balance.blocks.find(block => block.expires_on && block.remaining_minutes > 0)?.expires_on;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center">
+          <Clock className={`h-7 w-7 sm:h-8 sm:w-8 ${balance.isLow ? 'text-yellow-600 dark:text-yellow-400' : 'text-blue-600 dark:text-blue-400'}`} />
+          <div className="ml-3 sm:ml-4">
+            <p className={`text-xs sm:text-sm font-medium ${mutedText}`}>
+              {t('prepaidHours.remaining', undefined, 'Prepaid hours remaining')}
+            </p>
+            <p className={`text-xl sm:text-2xl font-semibold ${strongText}`}>
+              {balance.remainingHours}
+              <span className={`text-sm font-normal ${mutedText}`}>
+                {' '}/ {balance.purchasedHours - balance.expiredHours}
+              </span>
+            </p>
+          </div>
+        </div>
+        {nextExpiry && (
+          <p className={`text-xs ${mutedText}`}>
+            {t('prepaidHours.nextExpiry', { date: nextExpiry }, 'Next hours expire {date}')}
+          </p>
+        )}
+      </div>
+
+      {balance.isLow && (
+        <p className="flex items-center text-sm text-yellow-700 dark:text-yellow-300 mt-3">
+          <AlertTriangle className="h-4 w-4 mr-2 flex-shrink-0" />
+          {t('prepaidHours.lowBalance', undefined, 'Your prepaid hours are running low. Further work will be invoiced at your hourly rate once they run out.')}
+        </p>
+      )}
+
+      {balance.usage.length > 0 && (
+        <div className="mt-4">
+          <p className={`text-xs font-medium uppercase ${mutedText} mb-2`}>
+            {t('prepaidHours.recentUsage', undefined, 'Recently used')}
+          </p>
+          <ul className="space-y-1">
+            {balance.usage.slice(0, 5).map(usage => (
+              <li key={usage.service_request_id} className={`flex justify-between text-sm ${strongText}`}>
+                <span className="truncate mr-4">
+                  {usage.request_number}{usage.title ? `: ${usage.title}` : ''}
+                </span>
+                <span className={mutedText}>{usage.hours}h</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PrepaidHoursCard;
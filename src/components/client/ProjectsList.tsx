@@ -0,0 +1,186 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { FolderKanban, Loader, AlertCircle, ArrowLeft, CheckCircle } from 'lucide-react';
+import { useClientTheme } from '../../contexts/ClientThemeContext';
+import { useClientLanguage } from '../../contexts/ClientLanguageContext';
+import {
+  projectService,
+  formatBudget,
+  Project,
+  ProjectStatus,
+  ProjectSummary,
+  PROJECT_STATUS_LABELS,
+} from '../../services/projectService';
+import ProjectTimeline from '../shared/ProjectTimeline';
+
+const statusClasses: Record<ProjectStatus, string> = {
+  planning: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  active: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  on_hold: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  completed: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  cancelled: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+};
+
+/**
+ * Projects for the client's business, read-only: milestone progress on a
+ * timeline, the service requests doing the work and hours used against
+ * the budget.
+ */
+export const ProjectsList: React.FC = () => {
+  const { isDarkMode } = useClientTheme();
+  const { t } = useClientLanguage();
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Project | null>(null);
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const strongText = isDarkMode ? 'text-white' : 'text-gray-900';
+
+  const fetchProjects = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await projectService.listClientProjects();
+      setProjects(response.data);
+    } catch (err) {
+      console.error('❌ [ProjectsList] Error fetching projects:', err);
+      setError(t('projects.errors.loadFailed', undefined, 'Failed to load projects. Please try again.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  const openProject = async (project: ProjectSummary) => {
+    try {
+      setError(null);
+      const response = await projectService.getClientProject(project.id);
+      setSelected(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('projects.errors.loadFailed', undefined, 'Failed to load projects. Please try again.'));
+    }
+  };
+
+  const statusBadge = (status: ProjectStatus) => (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusClasses[status]}`}>
+      {t(`projects.status.${status}`, undefined, PROJECT_STATUS_LABELS[status])}
+    </span>
+  );
+
+  const errorAlert = error && (
+    <div className={`flex items-start gap-2 rounded-lg p-3 mb-4 text-sm ${isDarkMode ? 'bg-red-900/20 text-red-300' : 'bg-red-50 text-red-700'}`}>
+      <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+      <span>{error}</span>
+    </div>
+  );
+
+  if (selected) {
+    return (
+      <div>
+        <button
+          onClick={() => { setSelected(null); setError(null); }}
+          className={`flex items-center gap-1 text-sm mb-4 ${isDarkMode ? 'text-blue-400' : 'text-blue-600'} hover:underline`}
+        >
+          <ArrowLeft className="w-4 h-4" />
+          {t('projects.back', undefined, 'All projects')}
+        </button>
+
+        {errorAlert}
+
+        <div className="flex items-start justify-between flex-wrap gap-3 mb-4">
+          <div>
+            <h3 className={`text-lg font-semibold ${strongText}`}>{selected.name}</h3>
+            <p className={`text-sm ${mutedText}`}>
+              {selected.start_date || '—'} – {selected.target_end_date || '—'}
+              {' · '}{t('projects.hours', undefined, 'Hours')}: {formatBudget(selected.budget)}
+            </p>
+          </div>
+          {statusBadge(selected.status)}
+        </div>
+
+        {selected.description && (
+          <p className={`text-sm whitespace-pre-line mb-4 ${strongText}`}>{selected.description}</p>
+        )}
+
+        <div className="mb-6">
+          <ProjectTimeline project={selected} isDark={isDarkMode} />
+        </div>
+
+        <div className="space-y-4">
+          {selected.milestones.map(milestone => (
+            <div key={milestone.id}>
+              <h4 className={`text-sm font-semibold flex items-center gap-2 ${strongText}`}>
+                {milestone.completed_at && <CheckCircle className="w-4 h-4 text-green-600" />}
+                {milestone.name}
+              </h4>
+              <p className={`text-xs mb-1 ${mutedText}`}>
+                {milestone.due_date && `${t('projects.due', undefined, 'Due')} ${milestone.due_date} · `}
+                {formatBudget(milestone.budget)}
+              </p>
+              {milestone.requests.length > 0 && (
+                <ul className={`divide-y text-sm ${isDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+                  {milestone.requests.map(request => (
+                    <li key={request.id} className={`flex justify-between gap-3 py-1.5 ${strongText}`}>
+                      <span>
+                        <span className="font-mono">{request.request_number}</span> {request.title}
+                      </span>
+                      <span className={`whitespace-nowrap ${mutedText}`}>{request.status}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h2 className={`text-lg sm:text-xl font-semibold mb-4 flex items-center gap-2 ${strongText}`}>
+        <FolderKanban className={`w-5 h-5 ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`} />
+        {t('projects.title', undefined, 'Projects')}
+      </h2>
+
+      {errorAlert}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader className={`w-6 h-6 animate-spin ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`} />
+        </div>
+      ) : projects.length === 0 ? (
+        <p className={`text-sm ${mutedText}`}>{t('projects.none', undefined, 'No projects yet.')}</p>
+      ) : (
+        <ul className={`divide-y ${isDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+          {projects.map(project => (
+            <li key={project.id}>
+              <button
+                onClick={() => openProject(project)}
+                className={`w-full flex items-center justify-between gap-3 py-3 text-left ${isDarkMode ? 'hover:bg-gray-700/50' : 'hover:bg-gray-50'}`}
+              >
+                <div>
+                  <p className={`text-sm font-medium ${strongText}`}>{project.name}</p>
+                  <p className={`text-xs ${mutedText}`}>
+                    {t('projects.milestonesDone', {
+                      done: String(project.completed_milestone_count),
+                      total: String(project.milestone_count)
+                    }, '{done} of {total} milestones done')}
+                    {project.target_end_date && ` · ${t('projects.targetEnd', undefined, 'Target')} ${project.target_end_date}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={`text-sm ${mutedText}`}>{formatBudget(project.budget)}</span>
+                  {statusBadge(project.status)}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,317 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  FileSignature,
+  Loader,
+  AlertCircle,
+  CheckCircle,
+  XCircle,
+  ArrowLeft,
+} from 'lucide-react';
+import { useClientTheme } from '../../contexts/ClientThemeContext';
+import { useClientLanguage } from '../../contexts/ClientLanguageContext';
+import {
+  quoteService,
+  canRespondToQuote,
+  Quote,
+  QuoteDisplayStatus,
+  QUOTE_STATUS_LABELS,
+} from '../../services/quoteService';
+import { formatCurrency, formatTaxRate } from '../../utils/currencyFormatter';
+
+const statusClasses: Record<QuoteDisplayStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  sent: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
+  accepted: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  declined: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  expired: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
+  invoiced: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300',
+};
+
+/**
+ * Quotes sent to the client's business. An open quote is accepted with an
+ * e-signature (typed name plus the agreement checkbox), which schedules the
+ * quoted work as a service request, or declined with an optional reason.
+ */
+export const QuotesList: React.FC = () => {
+  const { isDarkMode } = useClientTheme();
+  const { t, language } = useClientLanguage();
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Quote | null>(null);
+  const [agreed, setAgreed] = useState(false);
+  const [signatureName, setSignatureName] = useState('');
+  const [declineReason, setDeclineReason] = useState('');
+  const [responding, setResponding] = useState(false);
+
+  const formatMoney = (amount: string | number, currency: string) => formatCurrency(amount, currency, language);
+
+  const mutedText = isDarkMode ? 'text-gray-400' : 'text-gray-600';
+  const strongText = isDarkMode ? 'text-white' : 'text-gray-900';
+
+  const fetchQuotes = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await quoteService.listClientQuotes();
+      setQuotes(response.data);
+    } catch (err) {
+      console.error('❌ [QuotesList] Error fetching quotes:', err);
+      setError(t('quotes.errors.loadFailed', undefined, 'Failed to load quotes. Please try again.'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    fetchQuotes();
+  }, [fetchQuotes]);
+
+  const openQuote = async (quote: Quote) => {
+    try {
+      setError(null);
+      setMessage(null);
+      setAgreed(false);
+      setSignatureName('');
+      setDeclineReason('');
+      const response = await quoteService.getClientQuote(quote.id);
+      setSelected(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('quotes.errors.loadFailed', undefined, 'Failed to load quotes. Please try again.'));
+    }
+  };
+
+  const respond = async (action: 'accept' | 'decline') => {
+    if (!selected) return;
+    try {
+      setResponding(true);
+      setError(null);
+      const response = action === 'accept'
+        ? await quoteService.acceptQuote(selected.id, { agreed, signatureName: signatureName.trim() })
+        : await quoteService.declineQuote(selected.id, declineReason.trim() || undefined);
+      setSelected(response.data);
+      setMessage(response.message || null);
+      await fetchQuotes();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('quotes.errors.respondFailed', undefined, 'Your response could not be saved.'));
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  const statusBadge = (quote: Quote) => (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusClasses[quote.display_status]}`}>
+      {t(`quotes.status.${quote.display_status}`, undefined, QUOTE_STATUS_LABELS[quote.display_status])}
+    </span>
+  );
+
+  const alerts = (
+    <>
+      {error && (
+        <div className={`flex items-start gap-2 rounded-lg p-3 mb-4 text-sm ${isDarkMode ? 'bg-red-900/20 text-red-300' : 'bg-red-50 text-red-700'}`}>
+          <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>{error}</span>
+        </div>
+      )}
+      {message && (
+        <div className={`flex items-start gap-2 rounded-lg p-3 mb-4 text-sm ${isDarkMode ? 'bg-green-900/20 text-green-300' : 'bg-green-50 text-green-700'}`}>
+          <CheckCircle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+          <span>{message}</span>
+        </div>
+      )}
+    </>
+  );
+
+  if (selected) {
+    return (
+      <div>
+        <button
+          onClick={() => { setSelected(null); setMessage(null); setError(null); }}
+          className={`flex items-center gap-1 text-sm mb-4 ${isDarkMode ? 'text-blue-400' : 'text-blue-600'} hover:underline`}
+        >
+          <ArrowLeft className="w-4 h-4" />
+          {t('quotes.back', undefined, 'All quotes')}
+        </button>
+
+        {alerts}
+
+        <div className="flex items-start justify-between flex-wrap gap-3 mb-4">
+          <div>
+            <h3 className={`text-lg font-semibold ${strongText}`}>{selected.title}</h3>
+            <p className={`text-sm ${mutedText}`}>
+              {selected.quote_number} · {t('quotes.validUntil', undefined, 'Valid until')} {selected.valid_until}
+              {selected.location_name && ` · ${selected.location_name}`}
+            </p>
+          </div>
+          {statusBadge(selected)}
+        </div>
+
+        {selected.description && (
+          <p className={`text-sm whitespace-pre-line mb-4 ${strongText}`}>{selected.description}</p>
+        )}
+        {selected.requested_datetime && (
+          <p className={`text-sm mb-4 ${mutedText}`}>
+            {t('quotes.scheduledFor', undefined, 'Proposed schedule')}: {new Date(selected.requested_datetime).toLocaleString()}
+            {selected.requested_duration_minutes && ` (${selected.requested_duration_minutes / 60} h)`}
+          </p>
+        )}
+
+        <table className="min-w-full text-sm mb-4">
+          <thead>
+            <tr className={`text-left text-xs uppercase ${mutedText}`}>
+              <th className="py-2 pr-4">{t('quotes.item', undefined, 'Item')}</th>
+              <th className="py-2 pr-4 text-right">{t('quotes.quantity', undefined, 'Qty')}</th>
+              <th className="py-2 pr-4 text-right">{t('quotes.unitPrice', undefined, 'Unit Price')}</th>
+              <th className="py-2 text-right">{t('quotes.amount', undefined, 'Amount')}</th>
+            </tr>
+          </thead>
+          <tbody className={`divide-y ${isDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+            {(selected.line_items || []).map((item, index) => (
+              <tr key={item.id || index} className={strongText}>
+                <td className="py-2 pr-4">{item.description}</td>
+                <td className="py-2 pr-4 text-right">{Number(item.quantity)}</td>
+                <td className="py-2 pr-4 text-right">{formatMoney(item.unit_price, selected.currency)}</td>
+                <td className="py-2 text-right">{formatMoney(item.amount, selected.currency)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex justify-end mb-6">
+          <div className={`w-64 space-y-1 text-sm ${strongText}`}>
+            <div className="flex justify-between">
+              <span className={mutedText}>{t('quotes.subtotal', undefined, 'Subtotal')}:</span>
+              <span>{formatMoney(selected.subtotal, selected.currency)}</span>
+            </div>
+            {selected.tax_breakdown?.length > 1 ? (
+              selected.tax_breakdown.map(line => (
+                <div key={line.name} className="flex justify-between">
+                  <span className={mutedText}>{line.name} ({formatTaxRate(line.rate)}):</span>
+                  <span>{formatMoney(line.amount, selected.currency)}</span>
+                </div>
+              ))
+            ) : (
+              <div className="flex justify-between">
+                <span className={mutedText}>{t('quotes.tax', undefined, 'Tax')}:</span>
+                <span>{formatMoney(selected.tax_amount, selected.currency)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-bold">
+              <span>{t('quotes.total', undefined, 'Total')}:</span>
+              <span>{formatMoney(selected.total_amount, selected.currency)}</span>
+            </div>
+          </div>
+        </div>
+
+        {selected.terms && (
+          <div className={`rounded-lg p-4 mb-6 ${isDarkMode ? 'bg-gray-900/50' : 'bg-gray-50'}`}>
+            <h4 className={`text-sm font-semibold mb-2 ${strongText}`}>{t('quotes.terms', undefined, 'Terms')}</h4>
+            <p className={`text-sm whitespace-pre-line ${mutedText}`}>{selected.terms}</p>
+          </div>
+        )}
+
+        {selected.status === 'accepted' && (
+          <p className={`text-sm ${mutedText}`}>
+            {t('quotes.acceptedBy', undefined, 'Signed by')} {selected.signature_name}
+            {selected.accepted_at && ` · ${new Date(selected.accepted_at).toLocaleString()}`}
+            {selected.request_number && ` · ${t('quotes.serviceRequest', undefined, 'Service request')} ${selected.request_number}`}
+          </p>
+        )}
+
+        {canRespondToQuote(selected) && (
+          <div className={`border-t pt-4 grid gap-6 md:grid-cols-2 ${isDarkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+            <div>
+              <h4 className={`text-sm font-semibold mb-3 ${strongText}`}>{t('quotes.accept', undefined, 'Accept and sign')}</h4>
+              <input
+                type="text"
+                value={signatureName}
+                onChange={(e) => setSignatureName(e.target.value)}
+                maxLength={200}
+                placeholder={t('quotes.signaturePlaceholder', undefined, 'Your full name')}
+                className={`w-full px-3 py-2 mb-3 rounded-lg border text-sm ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+              />
+              <label className={`flex items-start gap-2 text-sm mb-3 ${mutedText}`}>
+                <input
+                  type="checkbox"
+                  checked={agreed}
+                  onChange={(e) => setAgreed(e.target.checked)}
+                  className="mt-0.5 w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                {t('quotes.agreement', undefined, 'I accept this quote and its terms, and agree that typing my name above is my electronic signature.')}
+              </label>
+              <button
+                onClick={() => respond('accept')}
+                disabled={responding || !agreed || !signatureName.trim()}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors flex items-center gap-2 text-sm font-medium disabled:opacity-50"
+              >
+                {responding ? <Loader className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                {t('quotes.acceptButton', undefined, 'Accept Quote')}
+              </button>
+            </div>
+            <div>
+              <h4 className={`text-sm font-semibold mb-3 ${strongText}`}>{t('quotes.decline', undefined, 'Decline')}</h4>
+              <textarea
+                value={declineReason}
+                onChange={(e) => setDeclineReason(e.target.value)}
+                rows={3}
+                maxLength={1000}
+                placeholder={t('quotes.declinePlaceholder', undefined, 'Reason (optional)')}
+                className={`w-full px-3 py-2 mb-3 rounded-lg border text-sm resize-none ${isDarkMode ? 'bg-gray-700 border-gray-600 text-white' : 'bg-white border-gray-300 text-gray-900'}`}
+              />
+              <button
+                onClick={() => respond('decline')}
+                disabled={responding}
+                className={`px-4 py-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium disabled:opacity-50 ${isDarkMode ? 'bg-gray-700 text-gray-200 hover:bg-gray-600' : 'bg-gray-100 text-gray-800 hover:bg-gray-200'}`}
+              >
+                <XCircle className="w-4 h-4" />
+                {t('quotes.declineButton', undefined, 'Decline Quote')}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h2 className={`text-lg sm:text-xl font-semibold mb-4 flex items-center gap-2 ${strongText}`}>
+        <FileSignature className={`w-5 h-5 ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`} />
+        {t('quotes.title', undefined, 'Quotes')}
+      </h2>
+
+      {alerts}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader className={`w-6 h-6 animate-spin ${isDarkMode ? 'text-blue-400' : 'text-blue-600'}`} />
+        </div>
+      ) : quotes.length === 0 ? (
+        <p className={`text-sm ${mutedText}`}>{t('quotes.none', undefined, 'No quotes yet.')}</p>
+      ) : (
+        <ul className={`divide-y ${isDarkMode ? 'divide-gray-700' : 'divide-gray-200'}`}>
+          {quotes.map(quote => (
+            <li key={quote.id}>
+              <button
+                onClick={() => openQuote(quote)}
+                className={`w-full flex items-center justify-between gap-3 py-3 text-left ${isDarkMode ? 'hover:bg-gray-700/50' : 'hover:bg-gray-50'}`}
+              >
+                <div>
+                  <p className={`text-sm font-medium ${strongText}`}>{quote.title}</p>
+                  <p className={`text-xs ${mutedText}`}>
+                    {quote.quote_number} · {t('quotes.validUntil', undefined, 'Valid until')} {quote.valid_until}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={`text-sm font-medium ${strongText}`}>{formatMoney(quote.total_amount, quote.currency)}</span>
+                  {statusBadge(quote)}
+                </div>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
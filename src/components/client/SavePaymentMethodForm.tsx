@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import {
+  PaymentElement,
+  useStripe,
+  useElements,
+} from '@stripe/react-stripe-js';
+import { AlertCircle, Loader } from 'lucide-react';
+import { useClientLanguage } from '../../contexts/ClientLanguageContext';
+
+interface SavePaymentMethodFormProps {
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Confirms a SetupIntent to save a card or bank account for autopay. Must be
+ * rendered inside <Elements> created with the SetupIntent's client secret.
+ */
+export const SavePaymentMethodForm: React.FC<SavePaymentMethodFormProps> = ({
+  onSaved,
+  onCancel,
+}) => {
+  const stripe = useStripe();
+  const elements = useElements();
+  const { t } = useClientLanguage();
+
+  const [isSaving, setIsSaving] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!stripe || !elements) {
+      return;
+    }
+
+    setIsSaving(true);
+    setErrorMessage(null);
+
+    try {
+      const { error, setupIntent } = await stripe.confirmSetup({
+        elements,
+        confirmParams: {
+          return_url: `${window.location.origin}/client/payments/success`,
+        },
+        redirect: 'if_required',
+      });
+
+      if (error) {
+        setErrorMessage(error.message || 'An unexpected error occurred.');
+      } else if (setupIntent?.status === 'succeeded' || setupIntent?.status === 'processing') {
+        onSaved();
+        return;
+      } else {
+        setErrorMessage(
+          `The payment method was not saved (status: ${setupIntent?.status}). Please try again.`
+        );
+      }
+    } catch {
+      setErrorMessage('The payment method could not be saved. Please try again.');
+    }
+    setIsSaving(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="bg-white rounded-lg border border-gray-200 p-4">
+        <PaymentElement
+          options={{
+            layout: 'tabs',
+          }}
+        />
+      </div>
+
+      {errorMessage && (
+        <div className="flex items-start gap-3 bg-red-50 border border-red-200 rounded-lg p-4">
+          <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+          <p className="text-sm text-red-700">{errorMessage}</p>
+        </div>
+      )}
+
+      <div className="flex gap-3 pt-4 border-t border-gray-200">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="flex-1 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('common.cancel', undefined, 'Cancel')}
+        </button>
+        <button
+          type="submit"
+          disabled={!stripe || isSaving}
+          className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+        >
+          {isSaving ? (
+            <>
+              <Loader className="w-4 h-4 animate-spin" />
+              <span>{t('paymentMethods.saving', undefined, 'Saving...')}</span>
+            </>
+          ) : (
+            <span>{t('paymentMethods.save', undefined, 'Save Payment Method')}</span>
+          )}
+        </button>
+      </div>
+
+      <p className="text-xs text-gray-500 text-center">
+        {t('paymentMethods.securityMessage', undefined, 'Payment details are stored securely by Stripe, never on our servers. By saving, you authorize us to charge this method for invoices when autopay is on.')}
+      </p>
+    </form>
+  );
+};
@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, Circle } from 'lucide-react';
+import { ThemeClasses } from './types';
+import {
+  serviceRequestChecklistService,
+  ClientChecklistStep
+} from '../../../services/serviceRequestChecklistService';
+
+interface ServiceRequestChecklistSectionProps {
+  serviceRequestId: string;
+  t: (key: string, params?: Record<string, string | number>, fallback?: string) => string;
+  locale: string;
+  themeClasses: ThemeClasses;
+}
+
+/**
+ * Read-only view of the technician's task checklist. Hidden when the request
+ * has no checklist.
+ */
+const ServiceRequestChecklistSection: React.FC<ServiceRequestChecklistSectionProps> = ({
+  serviceRequestId,
+  t,
+  locale,
+  themeClasses
+}) => {
+  const [items, setItems] = useState<ClientChecklistStep[]>([]);
+
+  useEffect(() => {
+    serviceRequestChecklistService.getClientChecklist(serviceRequestId)
+      .then(response => setItems(response.data.items))
+      .catch(err => {
+        console.error('Error fetching checklist:', err);
+        setItems([]);
+      });
+  }, [serviceRequestId]);
+
+  if (items.length === 0) return null;
+
+  const completed = items.filter(item => item.completedAt).length;
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white">{t('serviceRequests.checklist', undefined, 'Checklist')}</h4>
+        <span className={`text-xs ${themeClasses.textSecondary}`}>
+          {t('serviceRequests.checklistProgress', { completed, total: items.length }, `${completed} of ${items.length} done`)}
+        </span>
+      </div>
+      <ol className="space-y-2">
+        {items.map(item => (
+          <li key={item.id} className="flex items-start gap-2">
+            {item.completedAt ? (
+              <CheckCircle className="h-4 w-4 mt-0.5 text-green-600 dark:text-green-400 flex-shrink-0" />
+            ) : (
+              <Circle className="h-4 w-4 mt-0.5 text-gray-400 flex-shrink-0" />
+            )}
+            <div>
+              <p className={`text-sm ${themeClasses.text}`}>{item.text}</p>
+              {item.completedAt && (
+                <p className={`text-xs ${themeClasses.textSecondary}`}>
+                  {new Date(item.completedAt).toLocaleString(locale, {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit'
+                  })}
+                </p>
+              )}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default ServiceRequestChecklistSection;
@@ -6,6 +6,7 @@ import { formatLongDate } from '../../../utils/dateFormatter';
 import { formatTimeOnly } from '../../../utils/timezoneUtils';
 import ServiceRequestFilesSection from './ServiceRequestFilesSection';
 import ServiceRequestNotesSection from './ServiceRequestNotesSection';
+import ServiceRequestChecklistSection from './ServiceRequestChecklistSection';
 import { FileUploadProgress } from '../../../hooks/useFileUploadWithProgress';
 
 interface ServiceRequestDetailModalProps {
@@ -400,6 +401,14 @@ const ServiceRequestDetailModal: React.FC<ServiceRequestDetailModalProps> = ({
                 onFileNameChange={onFileNameChange}
               />
 
+              {/* Checklist Section */}
+              <ServiceRequestChecklistSection
+                serviceRequestId={selectedRequest.id}
+                t={t}
+                locale={getLocale()}
+                themeClasses={themeClasses}
+              />
+
               {/* Description Section */}
               <div className="p-4 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-lg">
                 <div className="flex items-center justify-between mb-2">
@@ -4,6 +4,7 @@ export { default as RescheduleModal } from './RescheduleModal';
 export { default as ServiceRequestDetailModal } from './ServiceRequestDetailModal';
 export { default as ServiceRequestFilesSection } from './ServiceRequestFilesSection';
 export { default as ServiceRequestNotesSection } from './ServiceRequestNotesSection';
+export { default as ServiceRequestChecklistSection } from './ServiceRequestChecklistSection';
 export { ServiceRequestsFilters } from './ServiceRequestsFilters';
 export { ServiceRequestsList } from './ServiceRequestsList';
 export { ServiceRequestsPagination } from './ServiceRequestsPagination';
@@ -3,6 +3,7 @@ import { useClientTheme } from '../../contexts/ClientThemeContext';
 import { useClientLanguage } from '../../contexts/ClientLanguageContext';
 import { RoleBasedStorage } from '../../utils/roleBasedStorage';
 import { apiService } from '../../services/apiService';
+import { serviceRequestTemplateService, ServiceRequestTemplate } from '../../services/serviceRequestTemplateService';
 import FileUpload, { UploadedFileInfo } from './FileUpload';
 import ResourceTimeSlotScheduler from './ResourceTimeSlotScheduler';
 import { useUrgencyLevels } from './ServiceScheduler/useUrgencyLevels';
@@ -20,6 +21,7 @@ import {
   ChevronRight,
   Check,
   Calendar,
+  ListChecks,
   Sparkles
 } from 'lucide-react';
 
@@ -44,6 +46,8 @@ const ServiceScheduler: React.FC = () => {
   const [selectedLocation, setSelectedLocation] = useState<string>('');
   const [selectedUrgency, setSelectedUrgency] = useState<string>('9f472726-fd54-48d4-b587-d289a26979e3'); // Default to "Normal" urgency
   const [selectedServiceType, setSelectedServiceType] = useState<string>('');
+  const [templates, setTemplates] = useState<ServiceRequestTemplate[]>([]);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [contactName, setContactName] = useState('');
@@ -328,6 +332,42 @@ const ServiceScheduler: React.FC = () => {
     fetchServiceTypes();
   }, []);
 
+  // Templates offered for the chosen service type
+  useEffect(() => {
+    setSelectedTemplateId('');
+    if (!selectedServiceType) {
+      setTemplates([]);
+      return;
+    }
+    serviceRequestTemplateService.listClientTemplates(selectedServiceType)
+      .then(response => setTemplates(response.data || []))
+      .catch(error => {
+        console.error('Error fetching request templates:', error);
+        setTemplates([]);
+      });
+  }, [selectedServiceType]);
+
+  // Prefill from a template; the client can still edit every field
+  const handleTemplateSelect = (templateId: string) => {
+    setSelectedTemplateId(templateId);
+    const template = templates.find(t => t.id === templateId);
+    if (!template) return;
+    setTitle(template.title);
+    setDescription(template.description || '');
+    if (template.urgency_level_id) {
+      setSelectedUrgency(template.urgency_level_id);
+    }
+    if (template.estimated_duration_minutes) {
+      const hours = Math.max(1, template.estimated_duration_minutes / 60);
+      setSelectedDuration(hours);
+      if (selectedTime) {
+        setSelectedEndTime(calculateEndTime(selectedTime, hours));
+      }
+    }
+  };
+
+  const selectedTemplate = templates.find(t => t.id === selectedTemplateId) || null;
+
   // Auto-select location if there's only one available
   useEffect(() => {
     if (locations.length === 1 && !selectedLocation) {
@@ -563,6 +603,7 @@ const ServiceScheduler: React.FC = () => {
         contact_name: contactName,
         contact_phone: contactPhone,
         contact_email: contactEmail,
+        template_id: selectedTemplateId || undefined,
         attachment_file_ids: uploadedFiles.map(file => file.fileId).filter(Boolean)
       };
 
@@ -597,6 +638,7 @@ const ServiceScheduler: React.FC = () => {
     setSelectedLocation('');
     setSelectedUrgency('9f472726-fd54-48d4-b587-d289a26979e3'); // Reset to default "Normal" urgency
     setSelectedServiceType('');
+    setSelectedTemplateId('');
     setTitle('');
     setDescription('');
     // Note: Contact fields (name, phone, email) are NOT reset - they stay populated with user's info
@@ -1133,6 +1175,44 @@ const ServiceScheduler: React.FC = () => {
             </select>
           </div>
 
+          {/* Template */}
+          {templates.length > 0 && (
+            <div>
+              <label className={`block text-sm font-medium mb-3 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
+                {t('schedule.template', undefined, 'Common request')}
+              </label>
+              <select
+                value={selectedTemplateId}
+                onChange={(e) => handleTemplateSelect(e.target.value)}
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  isDarkMode
+                    ? 'bg-gray-700 border-gray-600 text-white'
+                    : 'bg-white border-gray-300 text-gray-900'
+                }`}
+              >
+                <option value="">{t('schedule.noTemplate', undefined, 'None - describe it myself')}</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.name}
+                  </option>
+                ))}
+              </select>
+              {selectedTemplate && selectedTemplate.checklist_items.length > 0 && (
+                <div className={`mt-3 p-3 rounded-lg ${isDarkMode ? 'bg-gray-700/50' : 'bg-gray-50'}`}>
+                  <div className={`flex items-center space-x-2 text-sm font-medium mb-2 ${isDarkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    <ListChecks className="h-4 w-4" />
+                    <span>{t('schedule.templateChecklist', undefined, 'What the technician will do')}</span>
+                  </div>
+                  <ol className={`list-decimal list-inside text-sm space-y-1 ${isDarkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                    {selectedTemplate.checklist_items.map((item, index) => (
+                      <li key={index}>{item.text}</li>
+                    ))}
+                  </ol>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Title */}
           <div>
             <label className={`block text-sm font-medium mb-3 ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
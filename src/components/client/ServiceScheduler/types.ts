@@ -57,6 +57,8 @@ export interface ServiceRequest {
   contact_name: string;
   contact_phone: string;
   contact_email: string;
+  /** Template the request was started from */
+  template_id?: string;
   files?: File[];
   attachment_file_ids?: string[];
 }
@@ -5,27 +5,29 @@ import {
   useElements,
 } from '@stripe/react-stripe-js';
 import { CheckCircle, AlertCircle, Loader } from 'lucide-react';
-import { apiService } from '../../services/apiService';
 import { useClientLanguage } from '../../contexts/ClientLanguageContext';
+import { formatCurrency } from '../../utils/currencyFormatter';
 
 interface StripePaymentFormProps {
   amount: number;
+  /** The invoice's currency; USD when omitted */
+  currency?: string;
   invoiceNumber: string;
-  invoiceId: string;
   onSuccess: () => void;
   onCancel: () => void;
 }
 
 export const StripePaymentForm: React.FC<StripePaymentFormProps> = ({
   amount,
+  currency,
   invoiceNumber,
-  invoiceId,
   onSuccess,
   onCancel,
 }) => {
   const stripe = useStripe();
   const elements = useElements();
-  const { t } = useClientLanguage();
+  const { t, language } = useClientLanguage();
+  const formattedAmount = formatCurrency(amount, currency, language);
 
   const [isProcessing, setIsProcessing] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -59,16 +61,8 @@ export const StripePaymentForm: React.FC<StripePaymentFormProps> = ({
         setIsProcessing(false);
       } else if (paymentIntent && paymentIntent.status === 'succeeded') {
         console.log('✅ Payment succeeded! PaymentIntent:', paymentIntent);
-        // Payment succeeded - sync status with backend
-        try {
-          console.log('✅ Payment confirmed, syncing status with backend...');
-          await apiService.post(`/client/payments/sync-status/${invoiceId}`, {});
-          console.log('✅ Invoice status synced successfully');
-        } catch (syncError) {
-          console.warn('⚠️ Failed to sync invoice status:', syncError);
-          // Don't fail the payment flow if sync fails - webhook will eventually update it
-        }
-
+        // The Stripe webhook marks the invoice paid; the list refreshes
+        // when the update arrives over the websocket
         setPaymentSuccess(true);
         setTimeout(() => {
           onSuccess();
@@ -114,7 +108,7 @@ export const StripePaymentForm: React.FC<StripePaymentFormProps> = ({
         <div className="flex justify-between items-center mt-2 pt-2 border-t border-gray-200">
           <span className="text-gray-700 font-medium">{t('payment.amountDueLabel', undefined, 'Amount Due:')}</span>
           <span className="text-2xl font-bold text-blue-600">
-            ${amount.toFixed(2)}
+            {formattedAmount}
           </span>
         </div>
       </div>
@@ -157,7 +151,7 @@ export const StripePaymentForm: React.FC<StripePaymentFormProps> = ({
               <span>{t('payment.processing', undefined, 'Processing...')}</span>
             </>
           ) : (
-            <span>{t('payment.payAmount', { amount: `$${amount.toFixed(2)}` }, 'Pay {amount}')}</span>
+            <span>{t('payment.payAmount', { amount: formattedAmount }, 'Pay {amount}')}</span>
           )}
         </button>
       </div>
@@ -0,0 +1,292 @@
+/**
+ * Monthly executive summary for one business: month picker, PDF download
+ * and the summary sections. Shared by the client dashboard tab and the
+ * admin business view -- callers pass the loaders for their own endpoint.
+ */
+import React, { useEffect, useState } from 'react';
+import {
+  AlertTriangle, CheckCircle, Clock, DollarSign, Download, HardDrive, Loader, Monitor, ShieldCheck,
+} from 'lucide-react';
+import { themeClasses } from '../../contexts/ThemeContext';
+import { ExecutiveSummary, previousMonth } from '../../services/executiveSummaryService';
+import { downloadBlob } from '../../utils/downloadBlob';
+import { formatCurrency } from '../../utils/currencyFormatter';
+
+type Translate = (key: string, variables?: { [key: string]: string }, fallback?: string) => string;
+
+interface Props {
+  loadSummary: (month: string) => Promise<{ data: ExecutiveSummary }>;
+  downloadPdf: (month: string) => Promise<Blob>;
+  /** Client dashboard passes its language context; admin falls back to English. */
+  t?: Translate;
+  /** Prefix for the downloaded file name. */
+  filePrefix?: string;
+}
+
+const englishOnly: Translate = (_key, _variables, fallback) => fallback ?? '';
+
+const formatHours = (hours: number) => hours.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+const ExecutiveSummaryView: React.FC<Props> = ({ loadSummary, downloadPdf, t = englishOnly, filePrefix = 'executive-summary' }) => {
+  const [month, setMonth] = useState(previousMonth());
+  const [summary, setSummary] = useState<ExecutiveSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSummary(month)
+      .then(response => {
+        if (cancelled) return;
+        setSummary(response.data);
+        setError(null);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load summary');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [loadSummary, month]);
+
+  const changeMonth = (value: string) => {
+    if (!value) return;
+    setLoading(true);
+    setMonth(value);
+  };
+
+  const handleDownload = async () => {
+    setDownloading(true);
+    try {
+      const blob = await downloadPdf(month);
+      downloadBlob(blob, `${filePrefix}-${month}.pdf`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to download PDF');
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  const card = `${themeClasses.bg.card} ${themeClasses.shadow.md} rounded-lg p-4`;
+  const heading = `text-sm font-semibold mb-3 flex items-center ${themeClasses.text.primary}`;
+  const muted = `text-xs ${themeClasses.text.muted}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className={`text-xl font-semibold ${themeClasses.text.primary}`}>
+            {t('executiveSummary.title', undefined, 'Monthly Executive Summary')}
+          </h2>
+          {summary && <p className={muted}>{summary.business.name} · {summary.period.timezone}</p>}
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            type="month"
+            value={month}
+            max={new Date().toISOString().slice(0, 7)}
+            onChange={(e) => changeMonth(e.target.value)}
+            className={`px-3 py-2 text-sm border rounded-md ${themeClasses.input}`}
+          />
+          <button
+            onClick={handleDownload}
+            disabled={downloading || !summary}
+            className={`inline-flex items-center px-3 py-2 text-sm rounded-md ${themeClasses.button.primary} disabled:opacity-50`}
+          >
+            {downloading ? <Loader className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+            {t('executiveSummary.downloadPdf', undefined, 'Download PDF')}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-md bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300">{error}</div>
+      )}
+
+      {loading && !summary ? (
+        <div className="flex justify-center py-12">
+          <Loader className={`w-8 h-8 animate-spin ${themeClasses.text.muted}`} />
+        </div>
+      ) : summary && (
+        <div className={`space-y-6 ${loading ? 'opacity-60' : ''}`}>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className={card}>
+              <p className={muted}>{t('executiveSummary.requestsClosed', undefined, 'Requests closed')}</p>
+              <p className={`text-2xl font-bold ${themeClasses.text.primary}`}>{summary.serviceRequests.closed}</p>
+              <p className={muted}>{summary.serviceRequests.opened} {t('executiveSummary.opened', undefined, 'opened')}</p>
+            </div>
+            <div className={card}>
+              <p className={muted}>{t('executiveSummary.hoursBilled', undefined, 'Hours billed')}</p>
+              <p className={`text-2xl font-bold ${themeClasses.text.primary}`}>{formatHours(summary.hours.total)}</p>
+              {summary.hours.waived > 0 && (
+                <p className={muted}>{formatHours(summary.hours.waived)} {t('executiveSummary.waived', undefined, 'waived')}</p>
+              )}
+            </div>
+            <div className={card}>
+              <p className={muted}>{t('executiveSummary.averageUptime', undefined, 'Average uptime')}</p>
+              <p className={`text-2xl font-bold ${themeClasses.text.primary}`}>
+                {summary.agents.averageUptimePercent === null ? '—' : `${summary.agents.averageUptimePercent}%`}
+              </p>
+              <p className={muted}>{summary.agents.deviceCount} {t('executiveSummary.devices', undefined, 'devices')}</p>
+            </div>
+            <div className={card}>
+              <p className={muted}>{t('executiveSummary.outstanding', undefined, 'Outstanding balance')}</p>
+              <p className={`text-2xl font-bold ${themeClasses.text.primary}`}>{formatCurrency(summary.invoices.outstandingTotal, summary.invoices.currency)}</p>
+              {summary.invoices.overdueTotal > 0 && (
+                <p className="text-xs text-red-600 dark:text-red-400">
+                  {formatCurrency(summary.invoices.overdueTotal, summary.invoices.currency)} {t('executiveSummary.overdue', undefined, 'overdue')}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className={card}>
+              <h3 className={heading}><Clock className="w-4 h-4 mr-2" />{t('executiveSummary.hoursByTier', undefined, 'Hours by rate tier')}</h3>
+              <dl className="grid grid-cols-3 gap-2 text-sm">
+                {([
+                  ['standard', t('executiveSummary.standard', undefined, 'Standard'), summary.hours.standard],
+                  ['premium', t('executiveSummary.premium', undefined, 'Premium'), summary.hours.premium],
+                  ['emergency', t('executiveSummary.emergency', undefined, 'Emergency'), summary.hours.emergency],
+                  ...(summary.hours.other > 0
+                    ? [['other', t('executiveSummary.otherLabour', undefined, 'Other labour'), summary.hours.other] as const]
+                    : []),
+                ] as const).map(([key, label, value]) => (
+                  <div key={key}>
+                    <dt className={muted}>{label}</dt>
+                    <dd className={`font-semibold ${themeClasses.text.primary}`}>{formatHours(value)}</dd>
+                  </div>
+                ))}
+              </dl>
+            </div>
+
+            <div className={card}>
+              <h3 className={heading}><DollarSign className="w-4 h-4 mr-2" />{t('executiveSummary.invoices', undefined, 'Invoices')}</h3>
+              <dl className="grid grid-cols-3 gap-2 text-sm">
+                <div>
+                  <dt className={muted}>{t('executiveSummary.issued', undefined, 'Issued')}</dt>
+                  <dd className={`font-semibold ${themeClasses.text.primary}`}>{summary.invoices.issuedCount} · {formatCurrency(summary.invoices.issuedTotal, summary.invoices.currency)}</dd>
+                </div>
+                <div>
+                  <dt className={muted}>{t('executiveSummary.paid', undefined, 'Paid')}</dt>
+                  <dd className={`font-semibold ${themeClasses.text.primary}`}>{summary.invoices.paidCount} · {formatCurrency(summary.invoices.paidTotal, summary.invoices.currency)}</dd>
+                </div>
+                <div>
+                  <dt className={muted}>{t('executiveSummary.unpaid', undefined, 'Unpaid')}</dt>
+                  <dd className={`font-semibold ${themeClasses.text.primary}`}>{summary.invoices.outstandingCount}</dd>
+                </div>
+              </dl>
+              {summary.invoices.otherCurrencyCount > 0 && (
+                <p className={`${muted} mt-2`}>
+                  {t('executiveSummary.amountsIn', undefined, 'Amounts in')} {summary.invoices.currency} ·{' '}
+                  {summary.invoices.otherCurrencyCount}{' '}
+                  {t('executiveSummary.otherCurrencyInvoices', undefined, 'invoices in other currencies not included')}
+                </p>
+              )}
+            </div>
+
+            <div className={card}>
+              <h3 className={heading}><ShieldCheck className="w-4 h-4 mr-2" />{t('executiveSummary.alertsAndPatches', undefined, 'Alerts & patching')}</h3>
+              <dl className="grid grid-cols-2 gap-2 text-sm">
+                <div>
+                  <dt className={muted}>{t('executiveSummary.alertsRaised', undefined, 'Alerts raised')}</dt>
+                  <dd className={`font-semibold ${themeClasses.text.primary}`}>
+                    {summary.alerts.raised}
+                    {summary.alerts.critical > 0 && <span className="ml-1 text-xs text-red-600 dark:text-red-400">({summary.alerts.critical} critical)</span>}
+                  </dd>
+                </div>
+                <div>
+                  <dt className={muted}>{t('executiveSummary.alertsResolved', undefined, 'Alerts resolved')}</dt>
+                  <dd className={`font-semibold ${themeClasses.text.primary}`}>{summary.alerts.resolved}</dd>
+                </div>
+                <div>
+                  <dt className={muted}>{t('executiveSummary.patchesInstalled', undefined, 'Patches installed')}</dt>
+                  <dd className={`font-semibold ${themeClasses.text.primary}`}>
+                    {summary.patches.installed}
+                    <span className={`ml-1 ${muted}`}>({summary.patches.security} security)</span>
+                  </dd>
+                </div>
+                <div>
+                  <dt className={muted}>{t('executiveSummary.patchesFailed', undefined, 'Patch failures')}</dt>
+                  <dd className={`font-semibold ${themeClasses.text.primary}`}>{summary.patches.failed}</dd>
+                </div>
+              </dl>
+            </div>
+
+            <div className={card}>
+              <h3 className={heading}><HardDrive className="w-4 h-4 mr-2" />{t('executiveSummary.diskForecast', undefined, 'Disk capacity forecast')}</h3>
+              {summary.diskForecasts.filter(f => f.days_until_full !== null).length === 0 ? (
+                <p className={`text-sm flex items-center ${themeClasses.text.secondary}`}>
+                  <CheckCircle className="w-4 h-4 mr-2 text-green-500" />
+                  {t('executiveSummary.noDiskRisk', undefined, 'No monitored disks are projected to fill up.')}
+                </p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {summary.diskForecasts.filter(f => f.days_until_full !== null).map(f => (
+                    <li key={f.device_name} className="flex items-center justify-between">
+                      <span className={themeClasses.text.primary}>
+                        {f.severity && <AlertTriangle className={`inline w-3 h-3 mr-1 ${f.severity === 'critical' ? 'text-red-500' : 'text-yellow-500'}`} />}
+                        {f.device_name}
+                      </span>
+                      <span className={muted}>
+                        {f.current_percent ?? '?'}% · ~{Math.round(f.days_until_full ?? 0)} {t('executiveSummary.daysToFull', undefined, 'days to full')}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <div className={`${card} lg:col-span-2`}>
+              <h3 className={heading}><CheckCircle className="w-4 h-4 mr-2" />{t('executiveSummary.closedRequests', undefined, 'Closed service requests')}</h3>
+              {summary.serviceRequests.closedList.length === 0 ? (
+                <p className={muted}>{t('executiveSummary.noClosedRequests', undefined, 'No service requests were closed this month.')}</p>
+              ) : (
+                <table className="min-w-full text-sm">
+                  <tbody>
+                    {summary.serviceRequests.closedList.map(sr => (
+                      <tr key={sr.request_number} className={`border-t ${themeClasses.border.primary}`}>
+                        <td className={`py-2 pr-3 whitespace-nowrap ${themeClasses.text.secondary}`}>{sr.request_number}</td>
+                        <td className={`py-2 pr-3 ${themeClasses.text.primary}`}>
+                          {sr.title}
+                          {sr.service_type && <span className={`ml-2 ${muted}`}>{sr.service_type}</span>}
+                        </td>
+                        <td className={`py-2 pr-3 whitespace-nowrap ${muted}`}>{new Date(sr.closed_at).toLocaleDateString()}</td>
+                        <td className={`py-2 text-right whitespace-nowrap ${themeClasses.text.secondary}`}>{formatHours(Number(sr.hours))} h</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+
+            <div className={card}>
+              <h3 className={heading}><Monitor className="w-4 h-4 mr-2" />{t('executiveSummary.deviceUptime', undefined, 'Device uptime')}</h3>
+              {summary.agents.devices.length === 0 ? (
+                <p className={muted}>{t('executiveSummary.noDevices', undefined, 'No monitored devices.')}</p>
+              ) : (
+                <ul className="space-y-1 text-sm">
+                  {summary.agents.devices.map(d => (
+                    <li key={d.device_name} className="flex justify-between">
+                      <span className={themeClasses.text.primary}>{d.device_name}</span>
+                      <span className={muted}>{d.uptime_percent === null ? '—' : `${d.uptime_percent}%`}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <p className={`mt-3 ${muted}`}>
+                {t('executiveSummary.uptimeNote', undefined, 'Share of hours in which the device reported monitoring data.')}
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExecutiveSummaryView;
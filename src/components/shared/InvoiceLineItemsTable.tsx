@@ -0,0 +1,72 @@
+import React from 'react';
+import { InvoiceLineItem } from '../../services/invoiceService';
+
+interface InvoiceLineItemsTableProps {
+  lineItems: InvoiceLineItem[];
+  isDark?: boolean;
+  /** Show which lines are not taxed (only meaningful when the invoice has tax) */
+  showTaxable?: boolean;
+  formatAmount?: (amount: number) => string;
+}
+
+const defaultFormatAmount = (amount: number) =>
+  `${amount < 0 ? '-' : ''}$${Math.abs(amount).toFixed(2)}`;
+
+/**
+ * The line items of an invoice. Admin and client invoice views and the
+ * payment form all render invoices through this table.
+ */
+const InvoiceLineItemsTable: React.FC<InvoiceLineItemsTableProps> = ({
+  lineItems,
+  isDark = false,
+  showTaxable = false,
+  formatAmount = defaultFormatAmount
+}) => {
+  if (lineItems.length === 0) return null;
+
+  const headerClass = `px-4 py-3 text-sm font-semibold ${isDark ? 'text-gray-200' : 'text-gray-700'}`;
+  const cellClass = `px-4 py-2 text-sm ${isDark ? 'text-gray-300' : 'text-gray-700'}`;
+  const mutedClass = `text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`;
+
+  return (
+    <div className={`rounded-lg border ${isDark ? 'border-gray-700' : 'border-gray-200'} overflow-hidden`}>
+      <table className="w-full">
+        <thead className={isDark ? 'bg-gray-700' : 'bg-gray-100'}>
+          <tr>
+            <th className={`${headerClass} text-left`}>Item</th>
+            <th className={`${headerClass} text-right`}>Qty</th>
+            <th className={`${headerClass} text-right`}>Unit Price</th>
+            <th className={`${headerClass} text-right`}>Amount</th>
+          </tr>
+        </thead>
+        <tbody className={`divide-y ${isDark ? 'divide-gray-700' : 'divide-gray-200'}`}>
+          {lineItems.map((item, index) => {
+            const details = [
+              item.request_number,
+              item.product_ref,
+              showTaxable && item.taxable === false ? 'Not taxable' : null
+            ].filter(Boolean);
+
+            return (
+              <tr key={item.id || index}>
+                <td className={cellClass}>
+                  {item.description}
+                  {details.length > 0 && <div className={mutedClass}>{details.join(' · ')}</div>}
+                </td>
+                <td className={`${cellClass} text-right whitespace-nowrap`}>
+                  {Number(item.quantity)}{item.item_type === 'labor' ? ' hrs' : ''}
+                </td>
+                <td className={`${cellClass} text-right`}>{formatAmount(Number(item.unit_price))}</td>
+                <td className={`${cellClass} text-right font-medium ${isDark ? 'text-white' : 'text-gray-900'}`}>
+                  {formatAmount(Number(item.amount))}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default InvoiceLineItemsTable;
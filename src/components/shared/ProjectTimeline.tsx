@@ -0,0 +1,68 @@
+import React from 'react';
+import { Project, formatBudget, projectTimeline } from '../../services/projectService';
+
+interface ProjectTimelineProps {
+  project: Pick<Project, 'start_date' | 'target_end_date' | 'milestones'>;
+  isDark?: boolean;
+}
+
+/**
+ * A Gantt-style timeline of a project's milestones between the earliest and
+ * latest project or milestone date, with today marked. Completed milestones
+ * are green, overdue ones red. The admin projects view and the client
+ * portal both render projects through this component.
+ */
+const ProjectTimeline: React.FC<ProjectTimelineProps> = ({ project, isDark = false }) => {
+  const { start, end, bars, todayOffset } = projectTimeline(project);
+  const mutedClass = `text-xs ${isDark ? 'text-gray-400' : 'text-gray-500'}`;
+
+  if (!start || !end) {
+    return <p className={mutedClass}>Add start or due dates to the milestones to see the timeline.</p>;
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className={`rounded-lg border ${isDark ? 'border-gray-700' : 'border-gray-200'} p-4`}>
+      <div className={`flex justify-between mb-2 ${mutedClass}`}>
+        <span>{start}</span>
+        <span>{end}</span>
+      </div>
+      <div className="space-y-2">
+        {project.milestones.map(milestone => {
+          const bar = bars.find(b => b.milestoneId === milestone.id);
+          const overdue = !milestone.completed_at && !!milestone.due_date && milestone.due_date < today;
+          const color = milestone.completed_at ? 'bg-green-500' : overdue ? 'bg-red-500' : 'bg-blue-500';
+          return (
+            <div key={milestone.id} className="flex items-center gap-3">
+              <div className={`w-40 flex-shrink-0 truncate text-sm ${isDark ? 'text-gray-200' : 'text-gray-700'}`} title={milestone.name}>
+                {milestone.name}
+              </div>
+              <div className={`relative flex-1 h-5 rounded ${isDark ? 'bg-gray-700' : 'bg-gray-100'}`}>
+                {bar && (
+                  <div
+                    className={`absolute top-0 h-5 rounded ${color}`}
+                    style={{ left: `${bar.left}%`, width: `${Math.max(bar.width, 1)}%` }}
+                    title={`${milestone.start_date ?? milestone.due_date} – ${milestone.due_date ?? milestone.start_date}`}
+                  />
+                )}
+                {todayOffset !== null && (
+                  <div
+                    className="absolute top-0 h-5 border-l-2 border-dashed border-amber-500"
+                    style={{ left: `${todayOffset}%` }}
+                    title="Today"
+                  />
+                )}
+              </div>
+              <div className={`w-28 flex-shrink-0 text-right ${milestone.budget.overBudget ? 'text-xs text-red-600 dark:text-red-400' : mutedClass}`}>
+                {formatBudget(milestone.budget)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectTimeline;
@@ -5,6 +5,7 @@ import { useEnhancedAuth } from './EnhancedAuthContext';
 import { RoleBasedStorage } from '../utils/roleBasedStorage';
 import { Role } from '../types/database';
 import { Permission, permissionService } from '../services/permissionService';
+import type { InvoiceStatus, InvoiceType } from '../services/invoiceService';
 import apiService from '../services/apiService';
 
 export interface Employee {
@@ -202,10 +203,15 @@ export interface InvoiceSummary {
   payment_date: string | null;
   payment_status: string;
   total_amount: number;
+  amount_paid: number | string;
+  currency: string;
   is_first_service_request: boolean;
+  invoice_status: InvoiceStatus;
+  invoice_type: InvoiceType;
+  work_description: string | null;
   business_name: string;
-  request_number: string;
-  service_title: string;
+  request_number: string | null;
+  service_title: string | null;
 }
 
 export interface RateCategory {
@@ -0,0 +1,27 @@
+/**
+ * useCurrencyFormatter Hook
+ *
+ * Formats money in the current site language (LanguageContext).
+ *
+ * Usage:
+ *   const formatMoney = useCurrencyFormatter();
+ *   formatMoney(invoice.total_amount, invoice.currency); // "$1,234.50"
+ *
+ * Client portal components follow the portal language instead and call
+ * formatCurrency with useClientLanguage().language.
+ */
+
+import { useCallback } from 'react';
+import { useLanguage } from '../contexts/LanguageContext';
+import { formatCurrency } from '../utils/currencyFormatter';
+
+export const useCurrencyFormatter = () => {
+  const { language } = useLanguage();
+  return useCallback(
+    (amount: number | string | null | undefined, currency?: string | null) =>
+      formatCurrency(amount, currency, language),
+    [language]
+  );
+};
+
+export default useCurrencyFormatter;
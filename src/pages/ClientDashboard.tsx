@@ -10,6 +10,9 @@ import ServiceScheduler from '../components/client/ServiceScheduler';
 import ServiceRequests from '../components/client/ServiceRequests';
 import ClientSettings from '../components/client/ClientSettings';
 import { InvoicesList } from '../components/client/InvoicesList';
+import { QuotesList } from '../components/client/QuotesList';
+import { ProjectsList } from '../components/client/ProjectsList';
+import { PrepaidHoursCard } from '../components/client/PrepaidHoursCard';
 import FileManager from '../components/client/FileManager';
 import LanguageSelector from '../components/client/LanguageSelector';
 import AddServiceLocationForm from '../components/client/AddServiceLocationForm';
@@ -19,6 +22,8 @@ import TrialDevicesManager from '../components/client/TrialDevicesManager';
 import DeviceSettingsModal from '../components/client/DeviceSettingsModal';
 import AgentDetails from '../components/admin/AgentDetails';
 import AgentSelector from '../components/trial/AgentSelector';
+import ExecutiveSummaryView from '../components/shared/ExecutiveSummaryView';
+import { executiveSummaryService } from '../services/executiveSummaryService';
 import { agentService, AgentDevice } from '../services/agentService';
 import {
   Building2,
@@ -43,7 +48,10 @@ import {
   Edit,
   Trash2,
   DollarSign,
-  ArrowLeft
+  ArrowLeft,
+  BarChart3,
+  FileSignature,
+  FolderKanban
 } from 'lucide-react';
 
 interface User {
@@ -807,6 +815,9 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({ onNavigate }) => {
               { id: 'schedule', label: t('dashboard.nav.schedule', 'Schedule Service'), icon: Calendar },
               { id: 'requests', label: t('dashboard.nav.requests', 'View Requests'), icon: Clock },
               { id: 'invoices', label: t('dashboard.nav.invoices', 'Invoices'), icon: DollarSign },
+              { id: 'quotes', label: t('dashboard.nav.quotes', undefined, 'Quotes'), icon: FileSignature },
+              { id: 'projects', label: t('dashboard.nav.projects', undefined, 'Projects'), icon: FolderKanban },
+              { id: 'summary', label: t('dashboard.nav.summary', undefined, 'Monthly Summary'), icon: BarChart3 },
               { id: 'files', label: t('dashboard.nav.files', 'File Storage'), icon: FileText },
               { id: 'settings', label: t('dashboard.nav.settings', 'Settings'), icon: Settings },
             ].map((item) => {
@@ -865,6 +876,10 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({ onNavigate }) => {
                   { id: 'schedule', label: t('dashboard.nav.schedule', 'Schedule Service'), icon: Calendar },
                   { id: 'requests', label: t('dashboard.nav.requests', 'View Requests'), icon: Clock },
                   { id: 'invoices', label: t('dashboard.nav.invoices', 'Invoices'), icon: DollarSign },
+                  { id: 'quotes', label: t('dashboard.nav.quotes', undefined, 'Quotes'), icon: FileSignature },
+                  { id: 'projects', label: t('dashboard.nav.projects', undefined, 'Projects'), icon: FolderKanban },
+              { id: 'projects', label: t('dashboard.nav.projects', undefined, 'Projects'), icon: FolderKanban },
+                  { id: 'summary', label: t('dashboard.nav.summary', undefined, 'Monthly Summary'), icon: BarChart3 },
                   { id: 'files', label: t('dashboard.nav.files', 'File Storage'), icon: FileText },
                   { id: 'settings', label: t('dashboard.nav.settings', 'Settings'), icon: Settings },
                 ].map((item) => {
@@ -1044,6 +1059,9 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({ onNavigate }) => {
                   </div>
                 </div>
 
+                {/* Prepaid Hours - only for businesses that bought a block */}
+                <PrepaidHoursCard />
+
                 {/* Quick Actions */}
                 <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6">
                   <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">{t('dashboard.quickActions.title')}</h3>
@@ -1288,6 +1306,31 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({ onNavigate }) => {
               </div>
             )}
 
+            {/* Quotes Tab */}
+            {activeTab === 'quotes' && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6">
+                <QuotesList />
+              </div>
+            )}
+
+            {/* Projects Tab */}
+            {activeTab === 'projects' && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6">
+                <ProjectsList />
+              </div>
+            )}
+
+            {/* Monthly Executive Summary Tab */}
+            {activeTab === 'summary' && (
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6">
+                <ExecutiveSummaryView
+                  loadSummary={executiveSummaryService.getClientSummary}
+                  downloadPdf={executiveSummaryService.downloadClientPdf}
+                  t={t}
+                />
+              </div>
+            )}
+
             {/* Files Tab */}
             {activeTab === 'files' && (
               <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6">
@@ -1296,7 +1339,7 @@ const ClientDashboard: React.FC<ClientDashboardProps> = ({ onNavigate }) => {
             )}
 
             {/* Placeholder for other tabs */}
-            {activeTab !== 'dashboard' && activeTab !== 'locations' && activeTab !== 'schedule' && activeTab !== 'settings' && activeTab !== 'requests' && activeTab !== 'invoices' && activeTab !== 'files' && (
+            {activeTab !== 'dashboard' && activeTab !== 'locations' && activeTab !== 'schedule' && activeTab !== 'settings' && activeTab !== 'requests' && activeTab !== 'invoices' && activeTab !== 'quotes' && activeTab !== 'projects' && activeTab !== 'summary' && activeTab !== 'files' && (
               <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-4 sm:p-6">
                 <h2 className="text-lg sm:text-xl font-semibold text-gray-900 dark:text-white mb-4 capitalize">
                   {activeTab.replace(/([A-Z])/g, ' $1').trim()}
@@ -0,0 +1,95 @@
+/**
+ * Accounting export API client: income account mapping and incremental
+ * QuickBooks / Xero exports of customers, invoices and payments.
+ *
+ * Backend endpoints (routes/admin/accountingExport.js):
+ *   GET    /api/admin/accounting-export/accounts
+ *   PUT    /api/admin/accounting-export/accounts
+ *   GET    /api/admin/accounting-export/pending
+ *   GET    /api/admin/accounting-export/exports
+ *   POST   /api/admin/accounting-export/exports
+ *   GET    /api/admin/accounting-export/exports/:id/download
+ */
+import apiService from './apiService';
+
+export type AccountingExportFormat = 'quickbooks_iif' | 'quickbooks_csv' | 'xero_csv';
+export type AccountingEntityType = 'customers' | 'invoices' | 'payments';
+export type AccountingSystem = 'quickbooks' | 'xero';
+
+/** The row with a null serviceTypeId is the default income account. */
+export interface IncomeAccount {
+  serviceTypeId: string | null;
+  serviceTypeName: string | null;
+  isActive: boolean;
+  quickbooksAccount: string | null;
+  xeroAccountCode: string | null;
+}
+
+export interface AccountingSettings {
+  arAccount: string;
+  depositAccount: string;
+  taxAccount: string;
+  xeroPaymentAccount: string;
+}
+
+export interface AccountMapping {
+  accounts: IncomeAccount[];
+  settings: AccountingSettings;
+}
+
+export interface SaveAccountMappingInput {
+  accounts: Array<Pick<IncomeAccount, 'serviceTypeId' | 'quickbooksAccount' | 'xeroAccountCode'>>;
+  settings: AccountingSettings;
+}
+
+export type PendingExports = Record<AccountingSystem, Record<AccountingEntityType, number>>;
+
+export interface AccountingExportRun {
+  id: string;
+  format: AccountingExportFormat;
+  entityType: AccountingEntityType;
+  itemCount: number;
+  filename: string;
+  exportedBy: string | null;
+  createdAt: string;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const BASE = '/admin/accounting-export';
+
+export const accountingExportService = {
+  getAccounts(): Promise<ApiResponse<AccountMapping>> {
+    return apiService.get<ApiResponse<AccountMapping>>(`${BASE}/accounts`);
+  },
+
+  saveAccounts(input: SaveAccountMappingInput): Promise<ApiResponse<AccountMapping>> {
+    return apiService.put<ApiResponse<AccountMapping>>(`${BASE}/accounts`, input);
+  },
+
+  getPending(): Promise<ApiResponse<PendingExports>> {
+    return apiService.get<ApiResponse<PendingExports>>(`${BASE}/pending`);
+  },
+
+  listExports(): Promise<ApiResponse<AccountingExportRun[]>> {
+    return apiService.get<ApiResponse<AccountingExportRun[]>>(`${BASE}/exports`);
+  },
+
+  /** Exports whatever that system has not been sent yet. */
+  runExport(format: AccountingExportFormat, entityType: AccountingEntityType): Promise<ApiResponse<AccountingExportRun>> {
+    return apiService.post<ApiResponse<AccountingExportRun>>(`${BASE}/exports`, { format, entityType });
+  },
+
+  downloadExport(id: string): Promise<Blob> {
+    return apiService.getBlob(`${BASE}/exports/${id}/download`);
+  },
+};
+
+/** IIF and QuickBooks Online CSV are tracked as one system. */
+export function exportSystem(format: AccountingExportFormat): AccountingSystem {
+  return format === 'xero_csv' ? 'xero' : 'quickbooks';
+}
@@ -155,6 +155,9 @@ interface LocationType {
   category?: string;
 }
 
+/** How a business is invoiced for completed service requests */
+export type BillingMode = 'per_request' | 'monthly_consolidated';
+
 interface Business {
   id: string;
   businessName: string;
@@ -273,6 +276,9 @@ export class AdminService {
     logoScale?: number;
     logoBackgroundColor?: string;
     rateCategoryId?: string;
+    billingMode?: BillingMode;
+    /** Email the client once the prepaid hour balance falls to this */
+    prepaidLowBalanceHours?: number;
   }): Promise<{ business: Business }> {
     try {
       const apiService = await this.getApiService();
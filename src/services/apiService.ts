@@ -271,6 +271,27 @@ class ApiService {
     return this.request<T>(endpoint, { ...options, method: 'DELETE' });
   }
 
+  /**
+   * GET a binary response (PDF, CSV, ...) as a Blob.
+   *
+   * Error bodies are still JSON, so failures surface the server's message
+   * the same way request() does.
+   */
+  async getBlob(endpoint: string): Promise<Blob> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: 'GET',
+      headers: this.getAuthHeaders(),
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || `HTTP ${response.status} ${response.statusText}`);
+    }
+
+    return response.blob();
+  }
+
   /**
    * Session-specific API calls
    */
@@ -0,0 +1,160 @@
+/**
+ * Dispatch board API client.
+ *
+ * Backend endpoints:
+ *   GET    /api/admin/dispatch/board?from=&to=
+ *   PUT    /api/admin/dispatch/requests/:id     (assign + schedule)
+ *   DELETE /api/admin/dispatch/requests/:id     (back to the queue)
+ */
+import apiService from './apiService';
+
+export type DispatchView = 'day' | 'week';
+export type TechnicianAvailability = 'available' | 'unavailable';
+
+export interface DispatchBooking {
+  id: string;
+  request_number: string;
+  title: string;
+  start_datetime: string;
+  duration_minutes: number;
+  /** false while the booking only has the client's requested time */
+  is_scheduled: boolean;
+  status: string;
+  is_final_status: boolean;
+  business_name: string | null;
+  location_name: string | null;
+}
+
+export interface DispatchTechnician {
+  id: string;
+  name: string;
+  working_status: string | null;
+  working_status_display: string | null;
+  availability: TechnicianAvailability;
+  bookings: DispatchBooking[];
+}
+
+export interface QueuedRequest {
+  id: string;
+  request_number: string;
+  title: string;
+  requested_datetime: string | null;
+  duration_minutes: number;
+  status: string;
+  urgency: string | null;
+  urgency_color: string | null;
+  service_type: string | null;
+  business_name: string | null;
+  location_name: string | null;
+}
+
+export interface DispatchBoard {
+  range: { from: string; to: string };
+  technicians: DispatchTechnician[];
+  queue: QueuedRequest[];
+}
+
+export interface DispatchInput {
+  technicianId: string;
+  /** ISO 8601 */
+  scheduledDatetime: string;
+  /** Defaults to the request's own duration */
+  durationMinutes?: number | null;
+}
+
+export interface DispatchedRequest {
+  id: string;
+  request_number: string;
+  assigned_to_employee_id: string;
+  scheduled_datetime: string;
+  scheduled_duration_minutes: number;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const BASE = '/admin/dispatch';
+
+export const dispatchService = {
+  getBoard(from: Date, to: Date): Promise<ApiResponse<DispatchBoard>> {
+    const params = new URLSearchParams({ from: from.toISOString(), to: to.toISOString() });
+    return apiService.get<ApiResponse<DispatchBoard>>(`${BASE}/board?${params.toString()}`);
+  },
+
+  /** Refused (409) when the technician is unavailable or already booked then. */
+  dispatch(serviceRequestId: string, input: DispatchInput): Promise<ApiResponse<DispatchedRequest>> {
+    return apiService.put<ApiResponse<DispatchedRequest>>(`${BASE}/requests/${serviceRequestId}`, input);
+  },
+
+  returnToQueue(serviceRequestId: string): Promise<ApiResponse<null>> {
+    return apiService.delete<ApiResponse<null>>(`${BASE}/requests/${serviceRequestId}`);
+  },
+};
+
+/** The part of each day the board lays out, in local hours. */
+export const WORKDAY_START_HOUR = 7;
+export const WORKDAY_END_HOUR = 19;
+const SNAP_MINUTES = 15;
+const WORKDAY_MINUTES = (WORKDAY_END_HOUR - WORKDAY_START_HOUR) * 60;
+
+/**
+ * The local midnights the board shows: the anchor's day, or its week from
+ * Sunday as on the employee calendar.
+ */
+export function boardDays(anchor: Date, view: DispatchView): Date[] {
+  const first = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate());
+  if (view === 'day') return [first];
+  first.setDate(first.getDate() - first.getDay());
+  return Array.from({ length: 7 }, (_, i) => new Date(first.getFullYear(), first.getMonth(), first.getDate() + i));
+}
+
+/**
+ * The start time for a drop at `fraction` (0..1) across a day's workday,
+ * snapped to 15 minutes and early enough to start before the day ends.
+ */
+export function timeFromDrop(day: Date, fraction: number): Date {
+  const clamped = Math.min(Math.max(fraction, 0), 1);
+  const snapped = Math.round((clamped * WORKDAY_MINUTES) / SNAP_MINUTES) * SNAP_MINUTES;
+  const minutes = Math.min(snapped, WORKDAY_MINUTES - SNAP_MINUTES);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), WORKDAY_START_HOUR, minutes);
+}
+
+/**
+ * Where a booking sits in a day's cell, as percentages of the workday, or
+ * null when it does not fall on that day. Work outside the workday is
+ * pinned to its edge.
+ */
+export function bookingSlot(startIso: string, durationMinutes: number, day: Date): { left: number; width: number } | null {
+  const start = new Date(startIso);
+  if (start.getFullYear() !== day.getFullYear() || start.getMonth() !== day.getMonth() || start.getDate() !== day.getDate()) {
+    return null;
+  }
+  const fromMinutes = start.getHours() * 60 + start.getMinutes() - WORKDAY_START_HOUR * 60;
+  const left = Math.min(Math.max(fromMinutes, 0), WORKDAY_MINUTES - SNAP_MINUTES);
+  const right = Math.min(Math.max(fromMinutes + durationMinutes, left + SNAP_MINUTES), WORKDAY_MINUTES);
+  return { left: (left / WORKDAY_MINUTES) * 100, width: ((right - left) / WORKDAY_MINUTES) * 100 };
+}
+
+/**
+ * The open booking a new one would overlap, for feedback before the server
+ * refuses the drop.
+ */
+export function findOverlap(
+  bookings: DispatchBooking[],
+  start: Date,
+  durationMinutes: number,
+  excludeRequestId?: string
+): DispatchBooking | null {
+  const from = start.getTime();
+  const to = from + durationMinutes * 60000;
+  return bookings.find(booking => {
+    if (booking.id === excludeRequestId || booking.is_final_status) return false;
+    const bookingFrom = new Date(booking.start_datetime).getTime();
+    return bookingFrom < to && bookingFrom + booking.duration_minutes * 60000 > from;
+  }) ?? null;
+}
+
+export default dispatchService;
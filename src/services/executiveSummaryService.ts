@@ -0,0 +1,103 @@
+/**
+ * Monthly executive summary API client.
+ *
+ * Backend endpoints:
+ *   GET /api/client/executive-summary?month=YYYY-MM          (client's own business)
+ *   GET /api/client/executive-summary/pdf?month=YYYY-MM
+ *   GET /api/admin/businesses/:id/executive-summary?month=YYYY-MM
+ *   GET /api/admin/businesses/:id/executive-summary/pdf?month=YYYY-MM
+ *
+ * `month` defaults server-side to the previous calendar month in the
+ * business timezone.
+ */
+import apiService from './apiService';
+
+export interface ExecutiveSummaryClosedRequest {
+  request_number: string;
+  title: string;
+  closed_at: string;
+  service_type: string | null;
+  hours: string | number;
+}
+
+export interface ExecutiveSummaryDiskForecast {
+  device_name: string;
+  current_percent: number | null;
+  growth_gb_per_day: number | null;
+  days_until_full: number | null;
+  forecast_full_at: string | null;
+  severity: 'critical' | 'warning' | null;
+}
+
+export interface ExecutiveSummary {
+  business: { id: string; name: string };
+  period: { month: string; from: string; to: string; timezone: string };
+  generatedAt: string;
+  serviceRequests: { opened: number; closed: number; closedList: ExecutiveSummaryClosedRequest[] };
+  /** `other` is labour billed on invoices without per-tier hours (quotes, manual invoices). */
+  hours: { standard: number; premium: number; emergency: number; other: number; waived: number; total: number };
+  /**
+   * Amounts are in the business's currency; invoices in any other currency
+   * are left out of them and only counted in otherCurrencyCount.
+   */
+  invoices: {
+    currency: string;
+    otherCurrencyCount: number;
+    issuedCount: number;
+    issuedTotal: number;
+    paidCount: number;
+    paidTotal: number;
+    outstandingCount: number;
+    outstandingTotal: number;
+    overdueTotal: number;
+  };
+  agents: {
+    deviceCount: number;
+    /** Share of hours each device reported monitoring data, averaged. */
+    averageUptimePercent: number | null;
+    devices: Array<{ device_name: string; uptime_percent: number | null }>;
+  };
+  alerts: { raised: number; resolved: number; critical: number };
+  patches: { installed: number; failed: number; security: number };
+  diskForecasts: ExecutiveSummaryDiskForecast[];
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+function monthQuery(month?: string): string {
+  return month ? `?month=${encodeURIComponent(month)}` : '';
+}
+
+export const executiveSummaryService = {
+  getClientSummary(month?: string): Promise<ApiResponse<ExecutiveSummary>> {
+    return apiService.get<ApiResponse<ExecutiveSummary>>(`/client/executive-summary${monthQuery(month)}`);
+  },
+
+  downloadClientPdf(month?: string): Promise<Blob> {
+    return apiService.getBlob(`/client/executive-summary/pdf${monthQuery(month)}`);
+  },
+
+  getBusinessSummary(businessId: string, month?: string): Promise<ApiResponse<ExecutiveSummary>> {
+    return apiService.get<ApiResponse<ExecutiveSummary>>(
+      `/admin/businesses/${businessId}/executive-summary${monthQuery(month)}`
+    );
+  },
+
+  downloadBusinessPdf(businessId: string, month?: string): Promise<Blob> {
+    return apiService.getBlob(`/admin/businesses/${businessId}/executive-summary/pdf${monthQuery(month)}`);
+  },
+};
+
+/**
+ * YYYY-MM for the month before `now` -- the default summary period.
+ */
+export function previousMonth(now: Date = new Date()): string {
+  const d = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export default executiveSummaryService;
@@ -0,0 +1,393 @@
+/**
+ * Admin invoice lifecycle API client: manual invoices, draft editing,
+ * issuing, voiding, credit notes, monthly consolidated invoices, PDFs,
+ * payment reminders, the payment ledger (payments, refunds, credit) and the
+ * receivables aging and revenue reports.
+ *
+ * Backend endpoints (routes/admin/invoices.js):
+ *   POST   /api/admin/invoices
+ *   PUT    /api/admin/invoices/:id
+ *   DELETE /api/admin/invoices/:id
+ *   POST   /api/admin/invoices/:id/issue
+ *   POST   /api/admin/invoices/:id/void
+ *   POST   /api/admin/invoices/:id/credit
+ *   GET    /api/admin/invoices/consolidation/pending
+ *   POST   /api/admin/invoices/consolidation/:businessId
+ *   GET    /api/admin/invoices/:id/pdf
+ *   POST   /api/admin/invoices/:id/email
+ *   PATCH  /api/admin/invoices/:id/reminders
+ *   POST   /api/admin/invoices/:id/payments
+ *   POST   /api/admin/invoices/:id/refunds
+ *   POST   /api/admin/invoices/:id/apply-credit
+ *   GET    /api/admin/invoices/reports/aging[/export]
+ *   GET    /api/admin/invoices/reports/revenue[/export]
+ *   GET    /api/admin/invoices/reports/revenue/invoices
+ *
+ * Listing, detail and payment status updates are still called directly from
+ * AdminInvoices.
+ */
+import apiService from './apiService';
+
+export type InvoiceStatus = 'draft' | 'issued' | 'void';
+export type InvoiceType = 'service_request' | 'manual' | 'credit_note' | 'recurring' | 'consolidated';
+export type LineItemType = 'labor' | 'part' | 'fee' | 'discount' | 'other';
+
+/** One invoice line, as every invoice is rendered and charged from. */
+export interface InvoiceLineItem {
+  id?: string;
+  description: string;
+  item_type?: LineItemType;
+  quantity: string | number;
+  unit_price: string | number;
+  amount: string | number;
+  taxable?: boolean;
+  service_request_id?: string | null;
+  time_entry_id?: string | null;
+  product_ref?: string | null;
+  /** Joined from service_request_id */
+  request_number?: string | null;
+  sort_order?: number;
+}
+
+export interface InvoiceLineItemInput {
+  description: string;
+  itemType?: LineItemType;
+  quantity: number;
+  unitPrice: number;
+  /** Defaults to true */
+  taxable?: boolean;
+  serviceRequestId?: string | null;
+  timeEntryId?: string | null;
+  /** SKU or part number */
+  productRef?: string | null;
+}
+
+export interface SaveInvoiceInput {
+  businessId: string;
+  /** YYYY-MM-DD; defaults to the company's payment terms */
+  dueDate?: string | null;
+  /** Fraction (0.0775); null uses the company tax rate */
+  taxRate?: number | null;
+  workDescription?: string | null;
+  notes?: string | null;
+  lineItems: InvoiceLineItemInput[];
+  /** Issue immediately instead of saving a draft (create only) */
+  issue?: boolean;
+}
+
+export interface InvoiceHistoryEntry {
+  id: string;
+  action: 'created' | 'updated' | 'issued' | 'voided' | 'credited' | 'payment_status_changed' | string;
+  reason: string | null;
+  details: Record<string, unknown> | null;
+  performed_by_name: string | null;
+  created_at: string;
+}
+
+export interface InvoiceCreditNote {
+  id: string;
+  invoice_number: string;
+  total_amount: string | number;
+  credit_reason: string | null;
+  issue_date: string;
+}
+
+export interface SavedInvoice {
+  id: string;
+  invoice_number: string;
+  invoice_status: InvoiceStatus;
+  invoice_type: InvoiceType;
+  total_amount: string | number;
+}
+
+/**
+ * A business with closed service requests waiting for its monthly
+ * consolidated invoice.
+ */
+export interface PendingConsolidation {
+  business_id: string;
+  business_name: string;
+  billing_mode: 'per_request' | 'monthly_consolidated';
+  request_count: number;
+  oldest_closed_at: string;
+  request_numbers: string[];
+}
+
+/** Recipient defaults to the invoice's primary contact when omitted. */
+export interface EmailInvoiceInput {
+  to?: string;
+  message?: string;
+}
+
+export interface EmailedInvoice {
+  to: string;
+  messageId: string | null;
+}
+
+export type PaymentMethod = 'card' | 'us_bank_account' | 'check' | 'cash' | 'other';
+export type LedgerEntryType = 'payment' | 'refund' | 'chargeback' | 'credit_applied' | 'overpayment_credited';
+
+/**
+ * One line of an invoice's payment ledger. Refunds and chargebacks point at
+ * the payment they return; `refunded` on a payment is what has been
+ * returned of it so far.
+ */
+export interface InvoicePayment {
+  id: string;
+  entry_type: LedgerEntryType;
+  method: PaymentMethod | 'credit';
+  amount: string | number;
+  reference: string | null;
+  notes: string | null;
+  received_on: string;
+  refunded_payment_id: string | null;
+  stripe_payment_intent_id: string | null;
+  stripe_refund_id: string | null;
+  refunded: string | number;
+  recorded_by_name: string | null;
+  created_at: string;
+}
+
+export interface RecordPaymentInput {
+  amount: number;
+  method: PaymentMethod;
+  /** YYYY-MM-DD; defaults to today */
+  receivedOn?: string;
+  /** Check number, transaction ID... */
+  reference?: string;
+  notes?: string;
+}
+
+/** Amount defaults to what is left of the payment; destination to 'original'. */
+export interface RefundPaymentInput {
+  paymentId: string;
+  reason: string;
+  amount?: number;
+  destination?: 'original' | 'credit';
+}
+
+/** The invoice's balance after a ledger change. */
+export interface LedgerInvoice extends SavedInvoice {
+  payment_status: string;
+  amount_paid: string | number;
+}
+
+export interface RecordedPayment {
+  payment: InvoicePayment;
+  overpayment: number;
+  invoice: LedgerInvoice;
+}
+
+export interface RecordedRefund {
+  refund: InvoicePayment;
+  invoice: LedgerInvoice;
+}
+
+export interface AppliedCredit {
+  applied: number;
+  creditBalance: number;
+  invoice: LedgerInvoice;
+}
+
+export type AgingBucket = 'current' | '1_30' | '31_60' | '61_90' | '90_plus';
+export type AgingBuckets = Record<AgingBucket, number>;
+
+/** An open invoice on the aging report. */
+export interface AgingInvoice {
+  id: string;
+  invoiceNumber: string;
+  businessId: string;
+  businessName: string;
+  issueDate: string;
+  dueDate: string;
+  paymentStatus: string;
+  totalAmount: number;
+  amountPaid: number;
+  balance: number;
+  daysPastDue: number;
+  bucket: AgingBucket;
+}
+
+export interface AgingReport {
+  asOf: string;
+  buckets: AgingBuckets;
+  total: number;
+  invoiceCount: number;
+  businesses: {
+    businessId: string;
+    businessName: string;
+    buckets: AgingBuckets;
+    total: number;
+    invoiceCount: number;
+  }[];
+  invoices: AgingInvoice[];
+}
+
+export type RevenueDimension = 'month' | 'serviceType' | 'rateTier';
+
+/** A service type or rate tier row; `key` is 'none' for unassigned. */
+export interface RevenueGroup {
+  key: string;
+  label: string;
+  invoiceCount: number;
+  netRevenue: number;
+}
+
+export interface RevenueMonth extends RevenueGroup {
+  invoiced: number;
+  credited: number;
+  tax: number;
+}
+
+export interface RevenueReport {
+  from: string;
+  to: string;
+  totals: Omit<RevenueMonth, 'key' | 'label'>;
+  byMonth: RevenueMonth[];
+  byServiceType: RevenueGroup[];
+  byRateTier: RevenueGroup[];
+}
+
+export interface RevenueRange {
+  from?: string;
+  to?: string;
+}
+
+/** An invoice behind a revenue row; `amount` is the part counted in the row. */
+export interface RevenueInvoice {
+  id: string;
+  invoiceNumber: string;
+  invoiceType: InvoiceType;
+  businessId: string;
+  businessName: string;
+  issueDate: string;
+  paymentStatus: string;
+  subtotal: number;
+  totalAmount: number;
+  amount: number;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+export const invoiceService = {
+  createInvoice(input: SaveInvoiceInput): Promise<ApiResponse<SavedInvoice>> {
+    return apiService.post<ApiResponse<SavedInvoice>>('/admin/invoices', input);
+  },
+
+  updateDraft(id: string, input: SaveInvoiceInput): Promise<ApiResponse<SavedInvoice>> {
+    return apiService.put<ApiResponse<SavedInvoice>>(`/admin/invoices/${id}`, input);
+  },
+
+  deleteDraft(id: string): Promise<ApiResponse<null>> {
+    return apiService.delete<ApiResponse<null>>(`/admin/invoices/${id}`);
+  },
+
+  issueDraft(id: string): Promise<ApiResponse<SavedInvoice>> {
+    return apiService.post<ApiResponse<SavedInvoice>>(`/admin/invoices/${id}/issue`, {});
+  },
+
+  voidInvoice(id: string, reason: string): Promise<ApiResponse<SavedInvoice>> {
+    return apiService.post<ApiResponse<SavedInvoice>>(`/admin/invoices/${id}/void`, { reason });
+  },
+
+  /** Omit amount to credit whatever has not been credited yet. */
+  creditInvoice(id: string, reason: string, amount?: number): Promise<ApiResponse<SavedInvoice>> {
+    return apiService.post<ApiResponse<SavedInvoice>>(`/admin/invoices/${id}/credit`, amount === undefined ? { reason } : { reason, amount });
+  },
+
+  getPendingConsolidation(): Promise<ApiResponse<PendingConsolidation[]>> {
+    return apiService.get<ApiResponse<PendingConsolidation[]>>('/admin/invoices/consolidation/pending');
+  },
+
+  /** Draft a business's consolidated invoice now instead of at month end. */
+  consolidateBusiness(businessId: string): Promise<ApiResponse<SavedInvoice>> {
+    return apiService.post<ApiResponse<SavedInvoice>>(`/admin/invoices/consolidation/${businessId}`, {});
+  },
+
+  downloadPdf(id: string): Promise<Blob> {
+    return apiService.getBlob(`/admin/invoices/${id}/pdf`);
+  },
+
+  /** Email the PDF; the send is recorded on the invoice history. */
+  emailInvoice(id: string, input: EmailInvoiceInput): Promise<ApiResponse<EmailedInvoice>> {
+    return apiService.post<ApiResponse<EmailedInvoice>>(`/admin/invoices/${id}/email`, input);
+  },
+
+  /** Pause or resume the automatic payment reminders of an issued invoice. */
+  setRemindersPaused(id: string, paused: boolean, reason?: string): Promise<ApiResponse<{ id: string; dunning_paused_at: string | null }>> {
+    return apiService.patch<ApiResponse<{ id: string; dunning_paused_at: string | null }>>(
+      `/admin/invoices/${id}/reminders`,
+      reason ? { paused, reason } : { paused }
+    );
+  },
+
+  /** Record a payment taken outside the portal; any overpayment becomes credit. */
+  recordPayment(id: string, input: RecordPaymentInput): Promise<ApiResponse<RecordedPayment>> {
+    return apiService.post<ApiResponse<RecordedPayment>>(`/admin/invoices/${id}/payments`, input);
+  },
+
+  /** Card and bank payments made through Stripe are refunded through Stripe. */
+  refundPayment(id: string, input: RefundPaymentInput): Promise<ApiResponse<RecordedRefund>> {
+    return apiService.post<ApiResponse<RecordedRefund>>(`/admin/invoices/${id}/refunds`, input);
+  },
+
+  /** Omit amount to apply as much of the balance due as the credit covers. */
+  applyCredit(id: string, amount?: number): Promise<ApiResponse<AppliedCredit>> {
+    return apiService.post<ApiResponse<AppliedCredit>>(`/admin/invoices/${id}/apply-credit`, amount === undefined ? {} : { amount });
+  },
+
+  /** Omit asOf for today. */
+  getAgingReport(asOf?: string): Promise<ApiResponse<AgingReport>> {
+    return apiService.get<ApiResponse<AgingReport>>(`/admin/invoices/reports/aging${reportQuery({ asOf })}`);
+  },
+
+  exportAgingReport(asOf?: string): Promise<Blob> {
+    return apiService.getBlob(`/admin/invoices/reports/aging/export${reportQuery({ asOf })}`);
+  },
+
+  /** Omit the range for the last twelve months. */
+  getRevenueReport(range: RevenueRange = {}): Promise<ApiResponse<RevenueReport>> {
+    return apiService.get<ApiResponse<RevenueReport>>(`/admin/invoices/reports/revenue${reportQuery({ ...range })}`);
+  },
+
+  getRevenueInvoices(range: RevenueRange, dimension: RevenueDimension, key: string): Promise<ApiResponse<RevenueInvoice[]>> {
+    return apiService.get<ApiResponse<RevenueInvoice[]>>(
+      `/admin/invoices/reports/revenue/invoices${reportQuery({ ...range, dimension, key })}`
+    );
+  },
+
+  exportRevenueReport(range: RevenueRange, dimension: RevenueDimension): Promise<Blob> {
+    return apiService.getBlob(`/admin/invoices/reports/revenue/export${reportQuery({ ...range, dimension })}`);
+  },
+};
+
+/** Query string of the report filters that are set. */
+function reportQuery(filters: Record<string, string | undefined>): string {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value) params.set(key, value);
+  });
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Client-side preview of the totals the server will compute: each line and
+ * the tax rounded to cents, with tax on taxable lines only.
+ */
+export function previewInvoiceTotals(lineItems: InvoiceLineItemInput[], taxRate: number) {
+  const round = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+  const amounts = lineItems.map(item => round(item.quantity * item.unitPrice));
+  const subtotal = round(amounts.reduce((sum, amount) => sum + amount, 0));
+  const taxableSubtotal = Math.max(0, round(
+    amounts.reduce((sum, amount, index) => (lineItems[index].taxable === false ? sum : sum + amount), 0)
+  ));
+  const taxAmount = round(taxableSubtotal * taxRate);
+  return { subtotal, taxAmount, totalAmount: round(subtotal + taxAmount) };
+}
+
+export default invoiceService;
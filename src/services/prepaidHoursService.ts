@@ -0,0 +1,97 @@
+/**
+ * Prepaid hour blocks (retainers) API client.
+ *
+ * Backend endpoints:
+ *   GET    /api/admin/businesses/:businessId/prepaid-hours
+ *   POST   /api/admin/businesses/:businessId/prepaid-hours
+ *   DELETE /api/admin/businesses/:businessId/prepaid-hours/:blockId
+ *   GET    /api/client/prepaid-hours             (client's own business)
+ *
+ * The low-balance threshold is saved with the business
+ * (adminService.updateBusiness, prepaidLowBalanceHours).
+ */
+import apiService from './apiService';
+
+export interface PrepaidBlock {
+  id: string;
+  hours: number;
+  /** YYYY-MM-DD */
+  purchased_on: string;
+  /** YYYY-MM-DD; null if the hours never expire */
+  expires_on: string | null;
+  /** Admin only */
+  notes?: string | null;
+  is_expired: boolean;
+  used_minutes: number;
+  used_hours: number;
+  remaining_minutes: number;
+  remaining_hours: number;
+  created_at: string;
+}
+
+/** Hours a completed service request drew from the blocks */
+export interface PrepaidUsage {
+  service_request_id: string;
+  request_number: string;
+  title: string | null;
+  drawn_at: string;
+  hours: number;
+}
+
+export interface PrepaidBalance {
+  purchasedHours: number;
+  usedHours: number;
+  /** Unused hours of expired blocks */
+  expiredHours: number;
+  remainingHours: number;
+  lowBalanceHours: number;
+  isLow: boolean;
+  /** In drawdown order: soonest-expiring first, then oldest */
+  blocks: PrepaidBlock[];
+  usage: PrepaidUsage[];
+}
+
+export interface AddPrepaidBlockInput {
+  hours: number;
+  /** YYYY-MM-DD; defaults to today */
+  purchasedOn?: string | null;
+  /** YYYY-MM-DD */
+  expiresOn?: string | null;
+  notes?: string | null;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const adminBase = (businessId: string) => `/admin/businesses/${businessId}/prepaid-hours`;
+const CLIENT_BASE = '/client/prepaid-hours';
+
+export const prepaidHoursService = {
+  getBalance(businessId: string): Promise<ApiResponse<PrepaidBalance>> {
+    return apiService.get<ApiResponse<PrepaidBalance>>(adminBase(businessId));
+  },
+
+  /** Adding a block re-arms the client's low-balance warning. */
+  addBlock(businessId: string, input: AddPrepaidBlockInput): Promise<ApiResponse<PrepaidBlock>> {
+    return apiService.post<ApiResponse<PrepaidBlock>>(adminBase(businessId), input);
+  },
+
+  /** Only blocks that have not been drawn down can be removed. */
+  deleteBlock(businessId: string, blockId: string): Promise<ApiResponse<null>> {
+    return apiService.delete<ApiResponse<null>>(`${adminBase(businessId)}/${blockId}`);
+  },
+
+  getClientBalance(): Promise<ApiResponse<PrepaidBalance>> {
+    return apiService.get<ApiResponse<PrepaidBalance>>(CLIENT_BASE);
+  },
+};
+
+/** "1 hour", "2.5 hours" */
+export function formatPrepaidHours(hours: number): string {
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+}
+
+export default prepaidHoursService;
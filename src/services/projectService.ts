@@ -0,0 +1,247 @@
+/**
+ * Projects API client.
+ *
+ * Backend endpoints:
+ *   GET    /api/admin/projects?businessId=&status=
+ *   GET    /api/admin/projects/options
+ *   GET    /api/admin/projects/:id
+ *   POST   /api/admin/projects
+ *   PUT    /api/admin/projects/:id
+ *   DELETE /api/admin/projects/:id
+ *   POST   /api/admin/projects/:id/milestones
+ *   PUT    /api/admin/projects/:id/milestones/:milestoneId
+ *   DELETE /api/admin/projects/:id/milestones/:milestoneId
+ *   POST   /api/admin/projects/:id/milestones/:milestoneId/requests
+ *   DELETE /api/admin/projects/:id/requests/:serviceRequestId
+ *   GET    /api/client/projects                (client's own business)
+ *   GET    /api/client/projects/:id
+ */
+import apiService from './apiService';
+
+export type ProjectStatus = 'planning' | 'active' | 'on_hold' | 'completed' | 'cancelled';
+
+export interface BudgetVsActual {
+  /** null when neither the project nor its milestones have a budget */
+  budgetedHours: number | null;
+  actualHours: number;
+  remainingHours: number | null;
+  percentUsed: number | null;
+  overBudget: boolean;
+}
+
+export interface ProjectSummary {
+  id: string;
+  business_id: string;
+  business_name: string;
+  name: string;
+  status: ProjectStatus;
+  /** YYYY-MM-DD */
+  start_date: string | null;
+  /** YYYY-MM-DD */
+  target_end_date: string | null;
+  budgeted_hours: string | number | null;
+  milestone_count: number;
+  completed_milestone_count: number;
+  request_count: number;
+  budget: BudgetVsActual;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ProjectRequest {
+  id: string;
+  request_number: string;
+  title: string;
+  status: string;
+  is_final_status: boolean;
+  assigned_technician: string | null;
+  logged_hours: number;
+}
+
+export interface ProjectMilestone {
+  id: string;
+  name: string;
+  description: string | null;
+  /** YYYY-MM-DD */
+  start_date: string | null;
+  /** YYYY-MM-DD */
+  due_date: string | null;
+  budgeted_hours: string | number | null;
+  sort_order: number;
+  completed_at: string | null;
+  requests: ProjectRequest[];
+  budget: BudgetVsActual;
+}
+
+export interface Project extends Omit<ProjectSummary, 'milestone_count' | 'completed_milestone_count' | 'request_count'> {
+  description: string | null;
+  technicians: Array<{ id: string; name: string }>;
+  milestones: ProjectMilestone[];
+}
+
+export interface SaveProjectInput {
+  businessId: string;
+  name: string;
+  description?: string | null;
+  status?: ProjectStatus;
+  startDate?: string | null;
+  targetEndDate?: string | null;
+  /** Leave empty to budget by the sum of the milestones */
+  budgetedHours?: number | null;
+  technicianIds?: string[];
+}
+
+export interface SaveMilestoneInput {
+  name: string;
+  description?: string | null;
+  startDate?: string | null;
+  dueDate?: string | null;
+  budgetedHours?: number | null;
+  completed?: boolean;
+}
+
+export interface ProjectOptions {
+  businesses: Array<{ id: string; business_name: string }>;
+  technicians: Array<{ id: string; name: string }>;
+  statuses: ProjectStatus[];
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const BASE = '/admin/projects';
+const CLIENT_BASE = '/client/projects';
+
+export const projectService = {
+  listProjects(filters: { businessId?: string; status?: ProjectStatus } = {}): Promise<ApiResponse<ProjectSummary[]>> {
+    const params = new URLSearchParams();
+    if (filters.businessId) params.set('businessId', filters.businessId);
+    if (filters.status) params.set('status', filters.status);
+    const query = params.toString();
+    return apiService.get<ApiResponse<ProjectSummary[]>>(query ? `${BASE}?${query}` : BASE);
+  },
+
+  getOptions(): Promise<ApiResponse<ProjectOptions>> {
+    return apiService.get<ApiResponse<ProjectOptions>>(`${BASE}/options`);
+  },
+
+  getProject(id: string): Promise<ApiResponse<Project>> {
+    return apiService.get<ApiResponse<Project>>(`${BASE}/${id}`);
+  },
+
+  createProject(input: SaveProjectInput): Promise<ApiResponse<Project>> {
+    return apiService.post<ApiResponse<Project>>(BASE, input);
+  },
+
+  updateProject(id: string, input: SaveProjectInput): Promise<ApiResponse<Project>> {
+    return apiService.put<ApiResponse<Project>>(`${BASE}/${id}`, input);
+  },
+
+  /** Attached requests are kept and detached. */
+  deleteProject(id: string): Promise<ApiResponse<null>> {
+    return apiService.delete<ApiResponse<null>>(`${BASE}/${id}`);
+  },
+
+  addMilestone(projectId: string, input: SaveMilestoneInput): Promise<ApiResponse<Project>> {
+    return apiService.post<ApiResponse<Project>>(`${BASE}/${projectId}/milestones`, input);
+  },
+
+  updateMilestone(projectId: string, milestoneId: string, input: SaveMilestoneInput): Promise<ApiResponse<Project>> {
+    return apiService.put<ApiResponse<Project>>(`${BASE}/${projectId}/milestones/${milestoneId}`, input);
+  },
+
+  deleteMilestone(projectId: string, milestoneId: string): Promise<ApiResponse<Project>> {
+    return apiService.delete<ApiResponse<Project>>(`${BASE}/${projectId}/milestones/${milestoneId}`);
+  },
+
+  /** A request already on another milestone moves to this one. */
+  attachRequest(projectId: string, milestoneId: string, requestNumber: string): Promise<ApiResponse<Project>> {
+    return apiService.post<ApiResponse<Project>>(`${BASE}/${projectId}/milestones/${milestoneId}/requests`, { requestNumber });
+  },
+
+  detachRequest(projectId: string, serviceRequestId: string): Promise<ApiResponse<Project>> {
+    return apiService.delete<ApiResponse<Project>>(`${BASE}/${projectId}/requests/${serviceRequestId}`);
+  },
+
+  listClientProjects(): Promise<ApiResponse<ProjectSummary[]>> {
+    return apiService.get<ApiResponse<ProjectSummary[]>>(CLIENT_BASE);
+  },
+
+  getClientProject(id: string): Promise<ApiResponse<Project>> {
+    return apiService.get<ApiResponse<Project>>(`${CLIENT_BASE}/${id}`);
+  },
+};
+
+export const PROJECT_STATUS_LABELS: Record<ProjectStatus, string> = {
+  planning: 'Planning',
+  active: 'Active',
+  on_hold: 'On hold',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+const formatHours = (hours: number) => `${Math.round(hours * 10) / 10}h`;
+
+/** "4.5h of 8h", or "4.5h logged" without a budget. */
+export function formatBudget(budget: BudgetVsActual): string {
+  return budget.budgetedHours === null
+    ? `${formatHours(budget.actualHours)} logged`
+    : `${formatHours(budget.actualHours)} of ${formatHours(budget.budgetedHours)}`;
+}
+
+export interface TimelineBar {
+  milestoneId: string;
+  /** Offset and width as percentages of the timeline */
+  left: number;
+  width: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const toDay = (date: string): number => Date.parse(`${date}T00:00:00Z`) / DAY_MS;
+
+export interface ProjectTimelineLayout {
+  /** YYYY-MM-DD; null when nothing is dated */
+  start: string | null;
+  end: string | null;
+  bars: TimelineBar[];
+  /** Percentage offset of `today`; null when it is outside the timeline */
+  todayOffset: number | null;
+}
+
+/**
+ * Positions the milestones on a timeline spanning the project dates and
+ * every milestone date. A milestone with only one date is a one-day bar;
+ * one without dates is left off.
+ */
+export function projectTimeline(
+  project: Pick<Project, 'start_date' | 'target_end_date' | 'milestones'>,
+  today: string = new Date().toISOString().slice(0, 10)
+): ProjectTimelineLayout {
+  const dates = [project.start_date, project.target_end_date]
+    .concat(project.milestones.flatMap(milestone => [milestone.start_date, milestone.due_date]))
+    .filter((date): date is string => !!date)
+    .sort();
+  if (dates.length === 0) return { start: null, end: null, bars: [], todayOffset: null };
+
+  const first = toDay(dates[0]);
+  const days = toDay(dates[dates.length - 1]) - first + 1;
+  const bars = project.milestones.flatMap(milestone => {
+    const from = milestone.start_date ?? milestone.due_date;
+    const to = milestone.due_date ?? milestone.start_date;
+    if (!from || !to) return [];
+    return [{
+      milestoneId: milestone.id,
+      left: ((toDay(from) - first) / days) * 100,
+      width: ((toDay(to) - toDay(from) + 1) / days) * 100,
+    }];
+  });
+  const start = dates[0];
+  const end = dates[dates.length - 1];
+  const todayOffset = today >= start && today <= end ? ((toDay(today) - first) / days) * 100 : null;
+  return { start, end, bars, todayOffset };
+}
+
+export default projectService;
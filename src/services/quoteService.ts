@@ -0,0 +1,193 @@
+/**
+ * Quotes / estimates API client.
+ *
+ * Backend endpoints:
+ *   GET    /api/admin/quotes?businessId=
+ *   GET    /api/admin/quotes/options
+ *   GET    /api/admin/quotes/options/:businessId
+ *   GET    /api/admin/quotes/:id
+ *   POST   /api/admin/quotes
+ *   PUT    /api/admin/quotes/:id
+ *   POST   /api/admin/quotes/:id/send
+ *   DELETE /api/admin/quotes/:id
+ *   GET    /api/client/quotes                  (client's own business)
+ *   GET    /api/client/quotes/:id
+ *   POST   /api/client/quotes/:id/accept
+ *   POST   /api/client/quotes/:id/decline
+ */
+import apiService from './apiService';
+import { InvoiceLineItem, InvoiceLineItemInput } from './invoiceService';
+import type { InvoiceTax } from './taxService';
+import type { TaxBreakdownLine } from '../utils/currencyFormatter';
+
+export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'declined';
+/** The stored status, plus 'expired' (sent, past valid_until) and 'invoiced'. */
+export type QuoteDisplayStatus = QuoteStatus | 'expired' | 'invoiced';
+
+export interface Quote {
+  id: string;
+  quote_number: string;
+  business_id: string;
+  business_name: string;
+  service_location_id: string | null;
+  location_name: string | null;
+  service_type_id: string | null;
+  service_type_name: string | null;
+  contact_user_id: string | null;
+  contact_name: string | null;
+  contact_email: string | null;
+  title: string;
+  description: string | null;
+  terms: string | null;
+  /** YYYY-MM-DD */
+  valid_until: string;
+  requested_datetime: string | null;
+  requested_duration_minutes: number | null;
+  subtotal: string | number;
+  tax_rate: string | number;
+  tax_amount: string | number;
+  /** One line per jurisdiction component */
+  tax_breakdown: TaxBreakdownLine[];
+  total_amount: string | number;
+  currency: string;
+  status: QuoteStatus;
+  display_status: QuoteDisplayStatus;
+  is_expired: boolean;
+  sent_at: string | null;
+  sent_to: string | null;
+  accepted_at: string | null;
+  accepted_by_name: string | null;
+  signature_name: string | null;
+  declined_at: string | null;
+  decline_reason: string | null;
+  service_request_id: string | null;
+  request_number: string | null;
+  invoice_id: string | null;
+  invoice_number: string | null;
+  created_at: string;
+  updated_at: string;
+  /** Only when a single quote is loaded */
+  line_items?: InvoiceLineItem[];
+}
+
+export interface SaveQuoteInput {
+  businessId: string;
+  serviceLocationId: string;
+  serviceTypeId?: string | null;
+  /** The client user the quote is emailed to */
+  contactUserId?: string | null;
+  title: string;
+  description?: string | null;
+  terms?: string | null;
+  /** YYYY-MM-DD */
+  validUntil: string;
+  /** When the work would be scheduled, ISO 8601 */
+  requestedDatetime?: string | null;
+  requestedDurationMinutes?: number | null;
+  /** Fraction (0.0775); null uses the business's tax jurisdiction */
+  taxRate?: number | null;
+  lineItems: Array<Omit<InvoiceLineItemInput, 'serviceRequestId' | 'timeEntryId'>>;
+}
+
+export interface QuoteOptions {
+  businesses: Array<{ id: string; business_name: string }>;
+  serviceTypes: Array<{ id: string; name: string }>;
+  defaultTaxRate: number;
+}
+
+export interface QuoteBusinessOptions {
+  locations: Array<{ id: string; name: string }>;
+  contacts: Array<{ id: string; name: string; email: string }>;
+  /** The currency and tax the business's quotes default to */
+  tax: InvoiceTax;
+}
+
+export interface SendQuoteInput {
+  /** Defaults to the quote's contact */
+  to?: string;
+  message?: string;
+}
+
+export interface AcceptQuoteInput {
+  /** The e-signature checkbox */
+  agreed: boolean;
+  signatureName: string;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const BASE = '/admin/quotes';
+const CLIENT_BASE = '/client/quotes';
+
+export const quoteService = {
+  listQuotes(businessId?: string): Promise<ApiResponse<Quote[]>> {
+    const query = businessId ? `?businessId=${encodeURIComponent(businessId)}` : '';
+    return apiService.get<ApiResponse<Quote[]>>(`${BASE}${query}`);
+  },
+
+  getOptions(): Promise<ApiResponse<QuoteOptions>> {
+    return apiService.get<ApiResponse<QuoteOptions>>(`${BASE}/options`);
+  },
+
+  getBusinessOptions(businessId: string): Promise<ApiResponse<QuoteBusinessOptions>> {
+    return apiService.get<ApiResponse<QuoteBusinessOptions>>(`${BASE}/options/${businessId}`);
+  },
+
+  getQuote(id: string): Promise<ApiResponse<Quote>> {
+    return apiService.get<ApiResponse<Quote>>(`${BASE}/${id}`);
+  },
+
+  createQuote(input: SaveQuoteInput): Promise<ApiResponse<Quote>> {
+    return apiService.post<ApiResponse<Quote>>(BASE, input);
+  },
+
+  /** Editing a sent quote returns it to draft. */
+  updateQuote(id: string, input: SaveQuoteInput): Promise<ApiResponse<Quote>> {
+    return apiService.put<ApiResponse<Quote>>(`${BASE}/${id}`, input);
+  },
+
+  sendQuote(id: string, input: SendQuoteInput = {}): Promise<ApiResponse<Quote>> {
+    return apiService.post<ApiResponse<Quote>>(`${BASE}/${id}/send`, input);
+  },
+
+  deleteQuote(id: string): Promise<ApiResponse<null>> {
+    return apiService.delete<ApiResponse<null>>(`${BASE}/${id}`);
+  },
+
+  listClientQuotes(): Promise<ApiResponse<Quote[]>> {
+    return apiService.get<ApiResponse<Quote[]>>(CLIENT_BASE);
+  },
+
+  getClientQuote(id: string): Promise<ApiResponse<Quote>> {
+    return apiService.get<ApiResponse<Quote>>(`${CLIENT_BASE}/${id}`);
+  },
+
+  /** Accepting creates the service request for the quoted work. */
+  acceptQuote(id: string, input: AcceptQuoteInput): Promise<ApiResponse<Quote>> {
+    return apiService.post<ApiResponse<Quote>>(`${CLIENT_BASE}/${id}/accept`, input);
+  },
+
+  declineQuote(id: string, reason?: string): Promise<ApiResponse<Quote>> {
+    return apiService.post<ApiResponse<Quote>>(`${CLIENT_BASE}/${id}/decline`, { reason });
+  },
+};
+
+export const QUOTE_STATUS_LABELS: Record<QuoteDisplayStatus, string> = {
+  draft: 'Draft',
+  sent: 'Awaiting response',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  expired: 'Expired',
+  invoiced: 'Invoiced',
+};
+
+/** Only sent, unexpired quotes can be accepted or declined. */
+export function canRespondToQuote(quote: Pick<Quote, 'display_status'>): boolean {
+  return quote.display_status === 'sent';
+}
+
+export default quoteService;
@@ -0,0 +1,158 @@
+/**
+ * Recurring managed-services billing API client.
+ *
+ * Backend endpoints (routes/admin/recurringBilling.js):
+ *   GET    /api/admin/recurring-billing/options
+ *   GET    /api/admin/recurring-billing/plans
+ *   POST   /api/admin/recurring-billing/plans
+ *   PUT    /api/admin/recurring-billing/plans/:id
+ *   DELETE /api/admin/recurring-billing/plans/:id
+ *   GET    /api/admin/recurring-billing/subscriptions
+ *   POST   /api/admin/recurring-billing/subscriptions
+ *   PUT    /api/admin/recurring-billing/subscriptions/:id
+ *   GET    /api/admin/recurring-billing/subscriptions/:id/preview
+ *   POST   /api/admin/recurring-billing/subscriptions/:id/bill
+ *
+ * Invoices themselves are issued by the server's recurring billing
+ * scheduler on the 1st of each month.
+ */
+import apiService from './apiService';
+import { InvoiceLineItemInput } from './invoiceService';
+
+/** Same shape as subscription_pricing.pricing_ranges. */
+export interface DevicePricingRange {
+  start: number;
+  end: number;
+  price: number;
+  description?: string;
+}
+
+export interface ManagedServicePlan {
+  id: string;
+  name: string;
+  description: string | null;
+  pricing_ranges: DevicePricingRange[];
+  is_active: boolean;
+  open_subscription_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SaveManagedServicePlanInput {
+  name: string;
+  description?: string | null;
+  pricingRanges: DevicePricingRange[];
+  isActive: boolean;
+}
+
+export interface ManagedServiceSubscription {
+  id: string;
+  business_id: string;
+  business_name: string;
+  plan_id: string;
+  plan_name: string;
+  pricing_ranges: DevicePricingRange[];
+  started_on: string;
+  ended_on: string | null;
+  billed_through: string | null;
+  notes: string | null;
+  current_device_count: number;
+  estimated_monthly_charge: number;
+  last_invoice_number: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SaveManagedServiceSubscriptionInput {
+  businessId?: string;
+  planId: string;
+  startedOn: string;
+  endedOn?: string | null;
+  notes?: string | null;
+}
+
+export interface RecurringBillingOptions {
+  businesses: Array<{ id: string; business_name: string }>;
+  plans: Array<{ id: string; name: string }>;
+}
+
+export interface SubscriptionInvoicePreview {
+  periodStart: string;
+  periodEnd: string;
+  dailyCounts: Array<{ date: string; count: number }>;
+  lineItems: Array<InvoiceLineItemInput & { amount: number }>;
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const BASE = '/admin/recurring-billing';
+
+export const recurringBillingService = {
+  getOptions(): Promise<ApiResponse<RecurringBillingOptions>> {
+    return apiService.get<ApiResponse<RecurringBillingOptions>>(`${BASE}/options`);
+  },
+
+  listPlans(): Promise<ApiResponse<ManagedServicePlan[]>> {
+    return apiService.get<ApiResponse<ManagedServicePlan[]>>(`${BASE}/plans`);
+  },
+
+  createPlan(input: SaveManagedServicePlanInput): Promise<ApiResponse<ManagedServicePlan>> {
+    return apiService.post<ApiResponse<ManagedServicePlan>>(`${BASE}/plans`, input);
+  },
+
+  updatePlan(id: string, input: SaveManagedServicePlanInput): Promise<ApiResponse<ManagedServicePlan>> {
+    return apiService.put<ApiResponse<ManagedServicePlan>>(`${BASE}/plans/${id}`, input);
+  },
+
+  removePlan(id: string): Promise<ApiResponse<null>> {
+    return apiService.delete<ApiResponse<null>>(`${BASE}/plans/${id}`);
+  },
+
+  listSubscriptions(): Promise<ApiResponse<ManagedServiceSubscription[]>> {
+    return apiService.get<ApiResponse<ManagedServiceSubscription[]>>(`${BASE}/subscriptions`);
+  },
+
+  createSubscription(input: SaveManagedServiceSubscriptionInput): Promise<ApiResponse<ManagedServiceSubscription>> {
+    return apiService.post<ApiResponse<ManagedServiceSubscription>>(`${BASE}/subscriptions`, input);
+  },
+
+  updateSubscription(id: string, input: SaveManagedServiceSubscriptionInput): Promise<ApiResponse<ManagedServiceSubscription>> {
+    return apiService.put<ApiResponse<ManagedServiceSubscription>>(`${BASE}/subscriptions/${id}`, input);
+  },
+
+  previewSubscription(id: string): Promise<ApiResponse<SubscriptionInvoicePreview>> {
+    return apiService.get<ApiResponse<SubscriptionInvoicePreview>>(`${BASE}/subscriptions/${id}/preview`);
+  },
+
+  billSubscription(id: string): Promise<ApiResponse<Array<{ id: string; invoice_number: string }>>> {
+    return apiService.post<ApiResponse<Array<{ id: string; invoice_number: string }>>>(`${BASE}/subscriptions/${id}/bill`, {});
+  },
+};
+
+/**
+ * Monthly charge for a device count on graduated ranges, matching the
+ * server: devices past the last range pay that range's price.
+ */
+export function priceDeviceCount(deviceCount: number, ranges: DevicePricingRange[]): number {
+  if (deviceCount <= 0 || ranges.length === 0) return 0;
+
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  let total = 0;
+  for (const range of sorted) {
+    if (deviceCount < range.start) break;
+    total += (Math.min(deviceCount, range.end) - range.start + 1) * Number(range.price);
+  }
+  const last = sorted[sorted.length - 1];
+  if (deviceCount > last.end) total += (deviceCount - last.end) * Number(last.price);
+
+  return Math.round((total + Number.EPSILON) * 100) / 100;
+}
+
+export default recurringBillingService;
@@ -0,0 +1,288 @@
+/**
+ * Report builder API client.
+ *
+ * Backend endpoints (routes/admin/reports.js):
+ *   GET    /api/admin/reports/sources
+ *   POST   /api/admin/reports/preview
+ *   GET    /api/admin/reports
+ *   POST   /api/admin/reports
+ *   GET    /api/admin/reports/:id
+ *   PUT    /api/admin/reports/:id
+ *   DELETE /api/admin/reports/:id
+ *   GET    /api/admin/reports/:id/run
+ *
+ * Scheduled delivery (routes/admin/reportSchedules.js):
+ *   GET    /api/admin/report-schedules[?reportId=]
+ *   GET    /api/admin/report-schedules/recipients
+ *   GET    /api/admin/report-schedules/deliveries
+ *   POST   /api/admin/report-schedules
+ *   PUT    /api/admin/report-schedules/:id
+ *   DELETE /api/admin/report-schedules/:id
+ *   POST   /api/admin/report-schedules/:id/send
+ *
+ * Definitions reference field keys only; the server owns the SQL.
+ */
+import apiService from './apiService';
+
+export type ReportDataSource =
+  | 'service_requests'
+  | 'invoices'
+  | 'time_entries'
+  | 'agent_alerts'
+  | 'agent_metrics'
+  | 'sla_breaches';
+
+export type ReportFieldType = 'string' | 'number' | 'currency' | 'date' | 'boolean';
+
+export type ReportFilterOperator =
+  | 'eq' | 'neq' | 'contains' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'is_null' | 'not_null';
+
+export type ReportAggregateFn = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export type ReportDateInterval = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export type ReportDatePreset =
+  | 'today' | 'last_7_days' | 'last_30_days' | 'last_90_days'
+  | 'this_month' | 'last_month' | 'this_year' | 'custom';
+
+export type ReportChartType = 'table' | 'bar' | 'line' | 'pie';
+
+export interface ReportField {
+  key: string;
+  label: string;
+  type: ReportFieldType;
+  groupable: boolean;
+  aggregatable: boolean;
+}
+
+export interface ReportSource {
+  key: ReportDataSource;
+  label: string;
+  /** True when the server will restrict rows to the requester's own work. */
+  ownRowsOnly: boolean;
+  defaultColumns: string[];
+  fields: ReportField[];
+}
+
+export interface ReportFilter {
+  field: string;
+  operator: ReportFilterOperator;
+  value?: string | number | string[];
+}
+
+export interface ReportDefinition {
+  dataSource: ReportDataSource;
+  columns: string[];
+  filters: ReportFilter[];
+  groupBy?: { field: string; interval?: ReportDateInterval } | null;
+  aggregate?: { fn: ReportAggregateFn; field?: string };
+  dateRange: { preset: ReportDatePreset; from?: string; to?: string };
+  sort?: { field: string; direction: 'asc' | 'desc' };
+  chartType: ReportChartType;
+  limit?: number;
+}
+
+export interface SavedReport {
+  id: string;
+  name: string;
+  description: string | null;
+  data_source: ReportDataSource;
+  definition: ReportDefinition;
+  is_shared: boolean;
+  created_by: string;
+  created_by_name?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  type: ReportFieldType;
+}
+
+export interface ReportResult {
+  columns: ReportColumn[];
+  rows: Array<Record<string, unknown>>;
+  rowCount: number;
+  grouped: boolean;
+}
+
+export interface SaveReportInput {
+  name: string;
+  description?: string;
+  definition: ReportDefinition;
+  is_shared?: boolean;
+}
+
+export type ReportScheduleFrequency = 'daily' | 'weekly' | 'monthly';
+export type ReportAttachmentFormat = 'pdf' | 'csv';
+
+export interface ReportSchedule {
+  id: string;
+  saved_report_id: string;
+  report_name: string;
+  frequency: ReportScheduleFrequency;
+  /** 0 = Sunday; weekly schedules only. */
+  day_of_week: number | null;
+  /** 1-31, clamped to the month length; monthly schedules only. */
+  day_of_month: number | null;
+  /** HH:MM:SS wall-clock time in `timezone`. */
+  send_time: string;
+  timezone: string;
+  formats: ReportAttachmentFormat[];
+  recipient_employee_ids: string[];
+  recipient_client_ids: string[];
+  is_active: boolean;
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_delivery_at: string | null;
+  created_by: string;
+  created_by_name?: string;
+}
+
+export interface SaveReportScheduleInput {
+  saved_report_id?: string;
+  frequency: ReportScheduleFrequency;
+  day_of_week?: number | null;
+  day_of_month?: number | null;
+  send_time: string;
+  timezone?: string;
+  formats: ReportAttachmentFormat[];
+  recipient_employee_ids: string[];
+  recipient_client_ids: string[];
+  is_active?: boolean;
+}
+
+export interface ReportRecipientOption {
+  id: string;
+  name: string;
+  email: string;
+  business_name?: string | null;
+}
+
+export interface ReportDelivery {
+  id: string;
+  schedule_id: string | null;
+  saved_report_id: string | null;
+  report_name: string;
+  recipient_type: 'employee' | 'client';
+  recipient_id: string | null;
+  recipient_name: string | null;
+  recipient_email: string | null;
+  formats: ReportAttachmentFormat[];
+  row_count: number | null;
+  status: 'pending' | 'sent' | 'failed';
+  error_message: string | null;
+  triggered_by: string | null;
+  triggered_by_name?: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+export interface ReportDeliveryFilters {
+  page?: number;
+  limit?: number;
+  startDate?: string;
+  endDate?: string;
+  status?: string;
+  scheduleId?: string;
+  search?: string;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+export const reportsService = {
+  getSources(): Promise<ApiResponse<ReportSource[]>> {
+    return apiService.get<ApiResponse<ReportSource[]>>('/admin/reports/sources');
+  },
+
+  preview(definition: ReportDefinition): Promise<ApiResponse<ReportResult>> {
+    return apiService.post<ApiResponse<ReportResult>>('/admin/reports/preview', { definition });
+  },
+
+  list(): Promise<ApiResponse<SavedReport[]>> {
+    return apiService.get<ApiResponse<SavedReport[]>>('/admin/reports');
+  },
+
+  get(id: string): Promise<ApiResponse<SavedReport>> {
+    return apiService.get<ApiResponse<SavedReport>>(`/admin/reports/${id}`);
+  },
+
+  create(input: SaveReportInput): Promise<ApiResponse<SavedReport>> {
+    return apiService.post<ApiResponse<SavedReport>>('/admin/reports', input);
+  },
+
+  update(id: string, input: Partial<SaveReportInput>): Promise<ApiResponse<SavedReport>> {
+    return apiService.put<ApiResponse<SavedReport>>(`/admin/reports/${id}`, input);
+  },
+
+  remove(id: string): Promise<{ success: boolean; message?: string }> {
+    return apiService.delete<{ success: boolean; message?: string }>(`/admin/reports/${id}`);
+  },
+
+  run(id: string): Promise<ApiResponse<ReportResult & { report: SavedReport }>> {
+    return apiService.get<ApiResponse<ReportResult & { report: SavedReport }>>(`/admin/reports/${id}/run`);
+  },
+
+  listSchedules(reportId?: string): Promise<ApiResponse<ReportSchedule[]>> {
+    const qs = reportId ? `?reportId=${encodeURIComponent(reportId)}` : '';
+    return apiService.get<ApiResponse<ReportSchedule[]>>(`/admin/report-schedules${qs}`);
+  },
+
+  getRecipientOptions(): Promise<ApiResponse<{ employees: ReportRecipientOption[]; clients: ReportRecipientOption[] }>> {
+    return apiService.get<ApiResponse<{ employees: ReportRecipientOption[]; clients: ReportRecipientOption[] }>>(
+      '/admin/report-schedules/recipients'
+    );
+  },
+
+  createSchedule(input: SaveReportScheduleInput): Promise<ApiResponse<ReportSchedule>> {
+    return apiService.post<ApiResponse<ReportSchedule>>('/admin/report-schedules', input);
+  },
+
+  updateSchedule(id: string, input: Partial<SaveReportScheduleInput>): Promise<ApiResponse<ReportSchedule>> {
+    return apiService.put<ApiResponse<ReportSchedule>>(`/admin/report-schedules/${id}`, input);
+  },
+
+  removeSchedule(id: string): Promise<{ success: boolean; message?: string }> {
+    return apiService.delete<{ success: boolean; message?: string }>(`/admin/report-schedules/${id}`);
+  },
+
+  sendScheduleNow(id: string): Promise<ApiResponse<{ sent: number; failed: number }>> {
+    return apiService.post<ApiResponse<{ sent: number; failed: number }>>(`/admin/report-schedules/${id}/send`);
+  },
+
+  listDeliveries(filters: ReportDeliveryFilters = {}): Promise<ApiResponse<ReportDelivery[]> & { total: number }> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.append(key, String(value));
+    });
+    const qs = params.toString();
+    return apiService.get<ApiResponse<ReportDelivery[]> & { total: number }>(
+      `/admin/report-schedules/deliveries${qs ? `?${qs}` : ''}`
+    );
+  },
+};
+
+/**
+ * A fresh definition for a data source, pre-populated with the source's
+ * default columns so the preview shows something useful immediately.
+ */
+export function createDefaultDefinition(source: ReportSource): ReportDefinition {
+  return {
+    dataSource: source.key,
+    columns: [...source.defaultColumns],
+    filters: [],
+    groupBy: null,
+    aggregate: { fn: 'count' },
+    dateRange: { preset: 'last_30_days' },
+    chartType: 'table',
+    limit: 200,
+  };
+}
+
+export default reportsService;
@@ -0,0 +1,71 @@
+/**
+ * Service request checklist API client.
+ *
+ * Backend endpoints:
+ *   GET    /api/admin/service-requests/:id/checklist
+ *   POST   /api/admin/service-requests/:id/checklist
+ *   PUT    /api/admin/service-requests/:id/checklist/order
+ *   PATCH  /api/admin/service-requests/:id/checklist/:itemId   (assigned technician only)
+ *   DELETE /api/admin/service-requests/:id/checklist/:itemId
+ *   GET    /api/client/service-requests/:id/checklist          (read-only)
+ */
+import apiService from './apiService';
+import { ChecklistItem } from './serviceRequestTemplateService';
+
+export interface ChecklistStep {
+  id: string;
+  item_text: string;
+  is_required: boolean;
+  sort_order: number;
+  completed_at: string | null;
+  completed_by_employee_id: string | null;
+  completed_by_name: string | null;
+  created_at: string;
+}
+
+/** The client portal's view of a step */
+export interface ClientChecklistStep {
+  id: string;
+  text: string;
+  required: boolean;
+  completedAt: string | null;
+  completedByName: string | null;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const path = (serviceRequestId: string) => `/admin/service-requests/${serviceRequestId}/checklist`;
+
+export const serviceRequestChecklistService = {
+  getChecklist(serviceRequestId: string): Promise<ApiResponse<{ items: ChecklistStep[] }>> {
+    return apiService.get<ApiResponse<{ items: ChecklistStep[] }>>(path(serviceRequestId));
+  },
+
+  /** Appends the steps; returns the whole checklist. */
+  addItems(serviceRequestId: string, items: ChecklistItem[]): Promise<ApiResponse<{ items: ChecklistStep[] }>> {
+    return apiService.post<ApiResponse<{ items: ChecklistStep[] }>>(path(serviceRequestId), { items });
+  },
+
+  /** `itemIds` must list every step of the request. */
+  reorder(serviceRequestId: string, itemIds: string[]): Promise<ApiResponse<{ items: ChecklistStep[] }>> {
+    return apiService.put<ApiResponse<{ items: ChecklistStep[] }>>(`${path(serviceRequestId)}/order`, { itemIds });
+  },
+
+  setChecked(serviceRequestId: string, itemId: string, checked: boolean): Promise<ApiResponse<{ items: ChecklistStep[] }>> {
+    return apiService.patch<ApiResponse<{ items: ChecklistStep[] }>>(`${path(serviceRequestId)}/${itemId}`, { checked });
+  },
+
+  deleteItem(serviceRequestId: string, itemId: string): Promise<ApiResponse<{ items: ChecklistStep[] }>> {
+    return apiService.delete<ApiResponse<{ items: ChecklistStep[] }>>(`${path(serviceRequestId)}/${itemId}`);
+  },
+
+  getClientChecklist(serviceRequestId: string): Promise<ApiResponse<{ items: ClientChecklistStep[] }>> {
+    return apiService.get<ApiResponse<{ items: ClientChecklistStep[] }>>(`/client/service-requests/${serviceRequestId}/checklist`);
+  },
+};
+
+export default serviceRequestChecklistService;
@@ -0,0 +1,94 @@
+/**
+ * Parent/child and linked service requests API client.
+ *
+ * Backend endpoints:
+ *   GET    /api/admin/service-requests/:id/relations
+ *   PUT    /api/admin/service-requests/:id/parent
+ *   POST   /api/admin/service-requests/:id/links
+ *   DELETE /api/admin/service-requests/:id/links/:linkId
+ *   POST   /api/admin/service-requests/:id/merge     (this request is the duplicate)
+ */
+import apiService from './apiService';
+
+export type RequestLinkType = 'related' | 'duplicate_of' | 'blocked_by';
+
+export interface RelatedRequest {
+  id: string;
+  request_number: string;
+  title: string;
+  status: string;
+  is_final_status: boolean;
+}
+
+export interface ChildRequest extends RelatedRequest {
+  assigned_technician: string | null;
+  logged_minutes: number;
+}
+
+export interface RequestLink {
+  id: string;
+  link_type: RequestLinkType;
+  /** 'outgoing': this request is the duplicate / the blocked one */
+  direction: 'outgoing' | 'incoming';
+  created_at: string;
+  request: RelatedRequest;
+}
+
+export interface ChildRollup {
+  childCount: number;
+  closedCount: number;
+  openCount: number;
+  byStatus: Array<{ status: string; count: number }>;
+  ownMinutes: number;
+  childMinutes: number;
+  totalMinutes: number;
+}
+
+export interface ServiceRequestRelations {
+  parent: RelatedRequest | null;
+  children: ChildRequest[];
+  rollup: ChildRollup;
+  links: RequestLink[];
+  mergedInto: RelatedRequest | null;
+}
+
+export interface MergeResult {
+  duplicate: RelatedRequest;
+  target: RelatedRequest;
+  movedNotes: number;
+  movedFiles: number;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const path = (serviceRequestId: string) => `/admin/service-requests/${serviceRequestId}`;
+
+export const serviceRequestRelationService = {
+  getRelations(serviceRequestId: string): Promise<ApiResponse<ServiceRequestRelations>> {
+    return apiService.get<ApiResponse<ServiceRequestRelations>>(`${path(serviceRequestId)}/relations`);
+  },
+
+  /** `null` makes the request top-level again. */
+  setParent(serviceRequestId: string, parentRequestNumber: string | null): Promise<ApiResponse<ServiceRequestRelations>> {
+    return apiService.put<ApiResponse<ServiceRequestRelations>>(`${path(serviceRequestId)}/parent`, { parentRequestNumber });
+  },
+
+  addLink(serviceRequestId: string, targetRequestNumber: string, linkType: RequestLinkType): Promise<ApiResponse<ServiceRequestRelations>> {
+    return apiService.post<ApiResponse<ServiceRequestRelations>>(`${path(serviceRequestId)}/links`, { targetRequestNumber, linkType });
+  },
+
+  removeLink(serviceRequestId: string, linkId: string): Promise<ApiResponse<ServiceRequestRelations>> {
+    return apiService.delete<ApiResponse<ServiceRequestRelations>>(`${path(serviceRequestId)}/links/${linkId}`);
+  },
+
+  /** Merges `serviceRequestId` (the duplicate) into the target and closes it. */
+  mergeInto(serviceRequestId: string, targetRequestNumber: string): Promise<ApiResponse<MergeResult>> {
+    return apiService.post<ApiResponse<MergeResult>>(`${path(serviceRequestId)}/merge`, { targetRequestNumber });
+  },
+};
+
+export default serviceRequestRelationService;
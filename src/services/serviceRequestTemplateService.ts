@@ -0,0 +1,148 @@
+/**
+ * Service request templates API client, and opening a request for a client
+ * from the admin side (where templates are picked).
+ *
+ * Backend endpoints:
+ *   GET    /api/admin/service-request-templates?serviceTypeId=&activeOnly=
+ *   GET    /api/admin/service-request-templates/options
+ *   POST   /api/admin/service-request-templates
+ *   PUT    /api/admin/service-request-templates/:id
+ *   DELETE /api/admin/service-request-templates/:id
+ *   GET    /api/admin/service-requests/new-request-options
+ *   GET    /api/admin/service-requests/new-request-options/:businessId
+ *   POST   /api/admin/service-requests
+ *   GET    /api/client/service-requests/templates?serviceTypeId=   (client-visible only)
+ */
+import apiService from './apiService';
+
+export interface ChecklistItem {
+  text: string;
+  /** Required items must be checked (or overridden) before closing */
+  required: boolean;
+}
+
+export interface ServiceRequestTemplate {
+  id: string;
+  service_type_id: string;
+  service_type_name: string;
+  name: string;
+  /** Prefilled request title */
+  title: string;
+  description: string | null;
+  checklist_items: ChecklistItem[];
+  estimated_duration_minutes: number | null;
+  urgency_level_id: string | null;
+  urgency_level_name: string | null;
+  /** Offered in the client portal as well as to employees */
+  client_visible: boolean;
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TemplateInput {
+  serviceTypeId: string;
+  name: string;
+  title: string;
+  description?: string | null;
+  checklistItems?: ChecklistItem[];
+  estimatedDurationMinutes?: number | null;
+  urgencyLevelId?: string | null;
+  clientVisible?: boolean;
+  isActive?: boolean;
+  sortOrder?: number;
+}
+
+export interface NamedOption {
+  id: string;
+  name: string;
+}
+
+export interface TemplateOptions {
+  serviceTypes: NamedOption[];
+  urgencyLevels: NamedOption[];
+}
+
+export interface NewRequestOptions extends TemplateOptions {
+  businesses: Array<{ id: string; business_name: string }>;
+  priorityLevels: NamedOption[];
+}
+
+export interface NewRequestBusinessOptions {
+  locations: NamedOption[];
+  contacts: Array<NamedOption & { email: string | null; phone: string | null }>;
+}
+
+/** Snake case, like the client portal's request payload */
+export interface NewServiceRequestInput {
+  business_id: string;
+  /** The client contact the request is opened for */
+  client_id: string;
+  service_location_id: string;
+  template_id?: string | null;
+  service_type_id?: string | null;
+  title?: string;
+  description?: string;
+  urgency_level_id?: string | null;
+  priority_level_id?: string | null;
+  /** ISO 8601 */
+  requested_datetime?: string | null;
+  requested_duration_minutes?: number | null;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const BASE = '/admin/service-request-templates';
+
+export const serviceRequestTemplateService = {
+  listTemplates(params: { serviceTypeId?: string; activeOnly?: boolean } = {}): Promise<ApiResponse<ServiceRequestTemplate[]>> {
+    const search = new URLSearchParams();
+    if (params.serviceTypeId) search.set('serviceTypeId', params.serviceTypeId);
+    if (params.activeOnly) search.set('activeOnly', 'true');
+    const query = search.toString();
+    return apiService.get<ApiResponse<ServiceRequestTemplate[]>>(query ? `${BASE}?${query}` : BASE);
+  },
+
+  getOptions(): Promise<ApiResponse<TemplateOptions>> {
+    return apiService.get<ApiResponse<TemplateOptions>>(`${BASE}/options`);
+  },
+
+  createTemplate(input: TemplateInput): Promise<ApiResponse<{ id: string }>> {
+    return apiService.post<ApiResponse<{ id: string }>>(BASE, input);
+  },
+
+  /** Requests already opened from the template keep their fields. */
+  updateTemplate(id: string, input: TemplateInput): Promise<ApiResponse<{ id: string }>> {
+    return apiService.put<ApiResponse<{ id: string }>>(`${BASE}/${id}`, input);
+  },
+
+  deleteTemplate(id: string): Promise<ApiResponse<null>> {
+    return apiService.delete<ApiResponse<null>>(`${BASE}/${id}`);
+  },
+
+  /** Active, client-visible templates for the client portal. */
+  listClientTemplates(serviceTypeId?: string): Promise<ApiResponse<ServiceRequestTemplate[]>> {
+    const query = serviceTypeId ? `?serviceTypeId=${encodeURIComponent(serviceTypeId)}` : '';
+    return apiService.get<ApiResponse<ServiceRequestTemplate[]>>(`/client/service-requests/templates${query}`);
+  },
+
+  getNewRequestOptions(): Promise<ApiResponse<NewRequestOptions>> {
+    return apiService.get<ApiResponse<NewRequestOptions>>('/admin/service-requests/new-request-options');
+  },
+
+  getNewRequestBusinessOptions(businessId: string): Promise<ApiResponse<NewRequestBusinessOptions>> {
+    return apiService.get<ApiResponse<NewRequestBusinessOptions>>(`/admin/service-requests/new-request-options/${businessId}`);
+  },
+
+  /** Blank fields are filled from the template on the server. */
+  createServiceRequest(input: NewServiceRequestInput): Promise<ApiResponse<{ id: string; requestNumber: string }>> {
+    return apiService.post<ApiResponse<{ id: string; requestNumber: string }>>('/admin/service-requests', input);
+  },
+};
+
+export default serviceRequestTemplateService;
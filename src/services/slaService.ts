@@ -0,0 +1,232 @@
+/**
+ * SLA configuration API client, plus the countdown logic behind the SLA
+ * badges on the service request list.
+ *
+ * Backend endpoints (routes/admin/sla.js):
+ *   GET    /api/admin/sla/options
+ *   GET    /api/admin/sla/policies
+ *   POST   /api/admin/sla/policies
+ *   PUT    /api/admin/sla/policies/:id
+ *   DELETE /api/admin/sla/policies/:id
+ *   GET    /api/admin/sla/calendars
+ *   POST   /api/admin/sla/calendars
+ *   PUT    /api/admin/sla/calendars/:id
+ *   DELETE /api/admin/sla/calendars/:id
+ *   GET    /api/admin/sla/breaches
+ *
+ * Due times are stamped server-side by the SLA monitor; the client only
+ * counts down to them.
+ */
+import apiService from './apiService';
+
+export type SlaTarget = 'acknowledge' | 'resolve';
+
+export interface SlaPolicy {
+  id: string;
+  name: string;
+  description: string | null;
+  business_id: string | null;
+  business_name: string | null;
+  urgency_level_id: string | null;
+  urgency_name: string | null;
+  acknowledge_target_minutes: number | null;
+  resolve_target_minutes: number | null;
+  calendar_id: string | null;
+  calendar_name: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SaveSlaPolicyInput {
+  name: string;
+  description?: string | null;
+  businessId: string | null;
+  urgencyLevelId: string | null;
+  acknowledgeTargetMinutes: number | null;
+  resolveTargetMinutes: number | null;
+  calendarId: string | null;
+  isActive: boolean;
+}
+
+/** Keyed by day of week, "0" = Sunday; a missing day is closed. */
+export type SlaWeeklyHours = Partial<Record<string, { start: string; end: string }>>;
+
+export interface SlaCalendar {
+  id: string;
+  name: string;
+  timezone: string;
+  weekly_hours: SlaWeeklyHours;
+  holidays: string[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SaveSlaCalendarInput {
+  name: string;
+  timezone: string;
+  weeklyHours: SlaWeeklyHours;
+  holidays: string[];
+}
+
+export interface SlaOptions {
+  businesses: Array<{ id: string; business_name: string }>;
+  urgencyLevels: Array<{ id: string; name: string; color_code: string | null }>;
+  calendars: Array<{ id: string; name: string; timezone: string }>;
+}
+
+export interface SlaBreach {
+  id: string;
+  service_request_id: string;
+  request_number: string;
+  title: string;
+  business_id: string | null;
+  business_name: string | null;
+  policy_name: string;
+  target: SlaTarget;
+  due_at: string;
+  breached_at: string;
+  met_at: string | null;
+  minutes_over: number;
+}
+
+export interface SlaBreachFilters {
+  from?: string;
+  to?: string;
+  businessId?: string;
+  target?: SlaTarget;
+  limit?: number;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+export const slaService = {
+  getOptions(): Promise<ApiResponse<SlaOptions>> {
+    return apiService.get<ApiResponse<SlaOptions>>('/admin/sla/options');
+  },
+
+  listPolicies(): Promise<ApiResponse<SlaPolicy[]>> {
+    return apiService.get<ApiResponse<SlaPolicy[]>>('/admin/sla/policies');
+  },
+
+  createPolicy(input: SaveSlaPolicyInput): Promise<ApiResponse<SlaPolicy>> {
+    return apiService.post<ApiResponse<SlaPolicy>>('/admin/sla/policies', input);
+  },
+
+  updatePolicy(id: string, input: SaveSlaPolicyInput): Promise<ApiResponse<SlaPolicy>> {
+    return apiService.put<ApiResponse<SlaPolicy>>(`/admin/sla/policies/${id}`, input);
+  },
+
+  removePolicy(id: string): Promise<ApiResponse<null>> {
+    return apiService.delete<ApiResponse<null>>(`/admin/sla/policies/${id}`);
+  },
+
+  listCalendars(): Promise<ApiResponse<SlaCalendar[]>> {
+    return apiService.get<ApiResponse<SlaCalendar[]>>('/admin/sla/calendars');
+  },
+
+  createCalendar(input: SaveSlaCalendarInput): Promise<ApiResponse<SlaCalendar>> {
+    return apiService.post<ApiResponse<SlaCalendar>>('/admin/sla/calendars', input);
+  },
+
+  updateCalendar(id: string, input: SaveSlaCalendarInput): Promise<ApiResponse<SlaCalendar>> {
+    return apiService.put<ApiResponse<SlaCalendar>>(`/admin/sla/calendars/${id}`, input);
+  },
+
+  removeCalendar(id: string): Promise<ApiResponse<null>> {
+    return apiService.delete<ApiResponse<null>>(`/admin/sla/calendars/${id}`);
+  },
+
+  listBreaches(filters: SlaBreachFilters = {}): Promise<ApiResponse<SlaBreach[]>> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.set(key, String(value));
+    });
+    const qs = params.toString();
+    return apiService.get<ApiResponse<SlaBreach[]>>(`/admin/sla/breaches${qs ? `?${qs}` : ''}`);
+  },
+};
+
+// Matches the server's default lead time for the sla_warning rule
+export const SLA_WARNING_MINUTES = 30;
+
+/** The SLA columns the admin service request list carries. */
+export interface SlaTrackedRequest {
+  status?: string | null;
+  acknowledged_at?: string | null;
+  started_at?: string | null;
+  closed_at?: string | null;
+  sla_acknowledge_due_at?: string | null;
+  sla_resolve_due_at?: string | null;
+  sla_acknowledge_breached_at?: string | null;
+  sla_resolve_breached_at?: string | null;
+}
+
+export interface SlaCountdown {
+  /** Target being counted down, or the last one settled. */
+  target: SlaTarget;
+  state: 'on_track' | 'warning' | 'breached' | 'met' | 'missed';
+  dueAt: string;
+  /** Negative once overdue; null when the target is settled. */
+  minutesRemaining: number | null;
+}
+
+const RESOLVED_STATUSES = ['completed', 'closed'];
+
+/**
+ * Where a request stands against its SLA: the open acknowledge target
+ * first, then the open resolve target, then the settled outcome. Null for
+ * untracked or cancelled requests.
+ */
+export function getSlaCountdown(request: SlaTrackedRequest, now: Date = new Date()): SlaCountdown | null {
+  const status = (request.status || '').toLowerCase();
+  if (status === 'cancelled') return null;
+
+  const acknowledged = Boolean(request.acknowledged_at || request.started_at);
+  const resolved = Boolean(request.closed_at) || RESOLVED_STATUSES.includes(status);
+
+  const open = (target: SlaTarget, dueAt: string, breachedAt?: string | null): SlaCountdown => {
+    const minutesRemaining = Math.floor((new Date(dueAt).getTime() - now.getTime()) / 60000);
+    const state = breachedAt || minutesRemaining < 0
+      ? 'breached'
+      : minutesRemaining <= SLA_WARNING_MINUTES ? 'warning' : 'on_track';
+    return { target, state, dueAt, minutesRemaining };
+  };
+
+  if (request.sla_acknowledge_due_at && !acknowledged && !resolved) {
+    return open('acknowledge', request.sla_acknowledge_due_at, request.sla_acknowledge_breached_at);
+  }
+  if (request.sla_resolve_due_at && !resolved) {
+    return open('resolve', request.sla_resolve_due_at, request.sla_resolve_breached_at);
+  }
+
+  const last: SlaTarget | null = request.sla_resolve_due_at ? 'resolve' : request.sla_acknowledge_due_at ? 'acknowledge' : null;
+  if (!last) return null;
+
+  const missed = Boolean(request.sla_acknowledge_breached_at || request.sla_resolve_breached_at);
+  return {
+    target: last,
+    state: missed ? 'missed' : 'met',
+    dueAt: (last === 'resolve' ? request.sla_resolve_due_at : request.sla_acknowledge_due_at) as string,
+    minutesRemaining: null,
+  };
+}
+
+/**
+ * "2h 15m", "3d 4h", "45m" for a span of minutes (sign ignored).
+ */
+export function formatSlaDuration(minutes: number): string {
+  const total = Math.abs(minutes);
+  const days = Math.floor(total / 1440);
+  const hours = Math.floor((total % 1440) / 60);
+  const mins = total % 60;
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${mins}m`;
+  return `${mins}m`;
+}
+
+export default slaService;
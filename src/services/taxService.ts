@@ -0,0 +1,155 @@
+/**
+ * Tax jurisdictions and business tax profiles API client.
+ *
+ * Backend endpoints:
+ *   GET    /api/admin/taxes/jurisdictions
+ *   POST   /api/admin/taxes/jurisdictions
+ *   PUT    /api/admin/taxes/jurisdictions/:id
+ *   DELETE /api/admin/taxes/jurisdictions/:id
+ *   GET    /api/admin/taxes/businesses/:businessId
+ *   PUT    /api/admin/taxes/businesses/:businessId
+ *   POST   /api/admin/taxes/businesses/:businessId/exemption-certificate (multipart)
+ *   DELETE /api/admin/taxes/businesses/:businessId/exemption-certificate
+ *   GET    /api/admin/client-files/businesses/:businessId/files/:fileId/download
+ */
+import apiService from './apiService';
+import { RoleBasedStorage } from '../utils/roleBasedStorage';
+
+const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
+
+export interface TaxComponent {
+  id?: string;
+  name: string;
+  /** Fraction, e.g. 0.06 for 6% */
+  rate: number;
+}
+
+export interface TaxJurisdiction {
+  id: string;
+  name: string;
+  /** When false, labor lines on invoices are not taxed */
+  labor_taxable: boolean;
+  is_active: boolean;
+  /** In display order, e.g. state, county, city */
+  components: TaxComponent[];
+  /** Sum of the component rates */
+  total_rate: number;
+  business_count: number;
+}
+
+export interface JurisdictionInput {
+  name: string;
+  laborTaxable?: boolean;
+  isActive?: boolean;
+  components: Array<{ name: string; rate: number }>;
+}
+
+/** The currency and tax the business's next invoice would carry */
+export interface InvoiceTax {
+  currency: string;
+  taxRate: number;
+  components: TaxComponent[];
+  exempt: boolean;
+  laborTaxable: boolean;
+}
+
+export interface BusinessTaxProfile {
+  business_id: string;
+  currency: string;
+  tax_jurisdiction_id: string | null;
+  tax_exempt: boolean;
+  tax_exempt_certificate_file_id: string | null;
+  tax_exempt_certificate_filename: string | null;
+  tax_exempt_certificate_number: string | null;
+  /** YYYY-MM-DD */
+  tax_exempt_expires_on: string | null;
+  /** Exempt, with a certificate on file that has not expired */
+  exemption_active: boolean;
+  invoiceTax?: InvoiceTax;
+}
+
+export interface TaxProfileInput {
+  currency: string;
+  taxJurisdictionId?: string | null;
+  taxExempt?: boolean;
+  taxExemptCertificateNumber?: string | null;
+  /** YYYY-MM-DD */
+  taxExemptExpiresOn?: string | null;
+}
+
+interface ApiResponse<T> {
+  success: boolean;
+  data: T;
+  message?: string;
+}
+
+const BASE = '/admin/taxes';
+const businessBase = (businessId: string) => `${BASE}/businesses/${businessId}`;
+
+export const taxService = {
+  listJurisdictions(): Promise<ApiResponse<{ jurisdictions: TaxJurisdiction[]; currencies: string[] }>> {
+    return apiService.get<ApiResponse<{ jurisdictions: TaxJurisdiction[]; currencies: string[] }>>(`${BASE}/jurisdictions`);
+  },
+
+  createJurisdiction(input: JurisdictionInput): Promise<ApiResponse<{ id: string }>> {
+    return apiService.post<ApiResponse<{ id: string }>>(`${BASE}/jurisdictions`, input);
+  },
+
+  /** Invoices already issued keep the breakdown they were created with. */
+  updateJurisdiction(id: string, input: JurisdictionInput): Promise<ApiResponse<{ id: string }>> {
+    return apiService.put<ApiResponse<{ id: string }>>(`${BASE}/jurisdictions/${id}`, input);
+  },
+
+  /** Refused while any business is assigned to the jurisdiction. */
+  deleteJurisdiction(id: string): Promise<ApiResponse<null>> {
+    return apiService.delete<ApiResponse<null>>(`${BASE}/jurisdictions/${id}`);
+  },
+
+  getBusinessTaxProfile(businessId: string): Promise<ApiResponse<BusinessTaxProfile>> {
+    return apiService.get<ApiResponse<BusinessTaxProfile>>(businessBase(businessId));
+  },
+
+  updateBusinessTaxProfile(businessId: string, input: TaxProfileInput): Promise<ApiResponse<BusinessTaxProfile>> {
+    return apiService.put<ApiResponse<BusinessTaxProfile>>(businessBase(businessId), input);
+  },
+
+  /**
+   * Multipart upload, so it goes through fetch rather than apiService (which
+   * only sends JSON). The file is virus scanned and kept with the business's
+   * other files.
+   */
+  async uploadExemptionCertificate(businessId: string, file: File): Promise<ApiResponse<BusinessTaxProfile>> {
+    const formData = new FormData();
+    formData.append('certificate', file);
+
+    const csrfToken = await apiService.getToken();
+    const sessionToken = RoleBasedStorage.getItem('sessionToken');
+    const headers: Record<string, string> = {};
+    if (csrfToken) headers['x-csrf-token'] = csrfToken;
+    if (sessionToken) headers['Authorization'] = `Bearer ${sessionToken}`;
+
+    const response = await fetch(`${API_BASE_URL}${businessBase(businessId)}/exemption-certificate`, {
+      method: 'POST',
+      headers,
+      body: formData,
+      credentials: 'include'
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.message || 'Failed to upload exemption certificate');
+    }
+    return result;
+  },
+
+  /** Ends the exemption; the file stays in the business's files. */
+  removeExemptionCertificate(businessId: string): Promise<ApiResponse<BusinessTaxProfile>> {
+    return apiService.delete<ApiResponse<BusinessTaxProfile>>(`${businessBase(businessId)}/exemption-certificate`);
+  },
+
+  /** The certificate is downloaded through the client files routes. */
+  downloadExemptionCertificate(businessId: string, fileId: string): Promise<Blob> {
+    return apiService.getBlob(`/admin/client-files/businesses/${businessId}/files/${fileId}/download`);
+  },
+};
+
+export default taxService;
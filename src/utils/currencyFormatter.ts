@@ -0,0 +1,49 @@
+/**
+ * Money formatting for invoices, quotes and payments.
+ *
+ * Every invoice carries the currency of its business (USD unless the
+ * business is billed in something else); the symbol, grouping and decimal
+ * separator follow the site language.
+ */
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export interface TaxBreakdownLine {
+  name: string;
+  rate: number;
+  amount: number;
+}
+
+// Site language -> number locale. es-US keeps "$" for dollars, where es-MX
+// would spell out "USD".
+const LANGUAGE_LOCALES: Record<string, string> = {
+  en: 'en-US',
+  es: 'es-US'
+};
+
+export function localeForLanguage(language: string): string {
+  return LANGUAGE_LOCALES[language] || LANGUAGE_LOCALES.en;
+}
+
+/**
+ * "$1,234.50", "€1,234.50" or "¥1,235"; negative amounts keep the sign in
+ * front ("-$40.00").
+ */
+export function formatCurrency(
+  amount: number | string | null | undefined,
+  currency: string | null | undefined = DEFAULT_CURRENCY,
+  language = 'en'
+): string {
+  const value = Number(amount) || 0;
+  return new Intl.NumberFormat(localeForLanguage(language), {
+    style: 'currency',
+    currency: (currency || DEFAULT_CURRENCY).trim().toUpperCase()
+  }).format(value);
+}
+
+/**
+ * "7.75%" from a stored fraction (0.0775).
+ */
+export function formatTaxRate(rate: number | string): string {
+  return `${Number((Number(rate) * 100).toFixed(4))}%`;
+}